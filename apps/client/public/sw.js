@@ -25,6 +25,16 @@ const IMAGE_CACHE_DURATION = 7 * 24 * 60 * 60 * 1000; // 7일
 // 폰트 캐시 설정
 const FONT_CACHE_NAME = `hanbit-todo-fonts-${CACHE_VERSION}`;
 
+// 백그라운드 동기화 설정 (src/utils/service-worker.ts와 같은 태그)
+const BACKGROUND_SYNC_TAG = "todo-sync";
+const PERIODIC_SYNC_TAG = "todo-periodic-sync";
+const BATCH_MAX_OPERATIONS = 25; // POST /todos/batch 한 번에 보낼 수 있는 작업 수
+
+// 오프라인 데이터베이스 (src/services/offline-database.ts와 같은 스키마)
+const OFFLINE_DB_NAME = "hanbit_offline";
+const OFFLINE_DB_VERSION = 1;
+const OFFLINE_STORES = ["todos", "pendingOps", "meta"];
+
 /**
  * Service Worker 설치
  */
@@ -505,27 +515,242 @@ async function clearCaches() {
 
 /**
  * 백그라운드 동기화 지원
+ * 탭이 닫혀 있어도 온라인이 되면(또는 주기적으로) 대기 중인 작업을 서버에 보냄
  */
 self.addEventListener("sync", (event) => {
   console.log("[SW] Background sync triggered:", event.tag);
 
-  if (event.tag === "todo-sync") {
-    event.waitUntil(syncTodos());
+  if (event.tag === BACKGROUND_SYNC_TAG) {
+    event.waitUntil(syncTodos(event.tag));
+  }
+});
+
+/**
+ * 주기적 백그라운드 동기화 (Periodic Background Sync를 지원하는 브라우저)
+ */
+self.addEventListener("periodicsync", (event) => {
+  console.log("[SW] Periodic sync triggered:", event.tag);
+
+  if (event.tag === PERIODIC_SYNC_TAG) {
+    event.waitUntil(syncTodos(event.tag));
   }
 });
 
 /**
- * TODO 동기화 (오프라인에서 생성된 데이터)
+ * TODO 동기화 (오프라인에서 쌓인 대기 작업)
  */
-async function syncTodos() {
+async function syncTodos(tag) {
+  // 열린 탭이 있으면 탭의 동기화 관리자가 처리 (탭이 메모리에 들고 있는 대기열과 어긋나지 않도록)
+  const windowClients = await self.clients.matchAll({
+    type: "window",
+    includeUncontrolled: true,
+  });
+  if (windowClients.length > 0) {
+    windowClients.forEach((client) =>
+      client.postMessage({ type: "SYNC_REQUESTED", data: { tag } }),
+    );
+    return;
+  }
+
+  const db = await openOfflineDatabase();
+  if (!db) {
+    return;
+  }
+
   try {
-    // IndexedDB에서 오프라인으로 생성된 TODO들을 가져와서 서버에 동기화
-    // 이 부분은 클라이언트 측에서 IndexedDB를 구현한 후 연동 필요
-    console.log("[SW] TODO synchronization completed");
+    const { result, retry } = await sendPendingOperations(db, tag);
+
+    // 그 사이에 열린 탭이 있으면 결과를 알려 메모리 사본과 동기화 상태를 맞춤
+    await notifyClients({ type: "BACKGROUND_SYNC_RESULT", data: result });
+    console.log("[SW] TODO synchronization completed:", result);
+
+    if (retry) {
+      throw new Error(result.error); // 재시도를 위해 에러를 다시 throw
+    }
   } catch (error) {
     console.error("[SW] TODO synchronization failed:", error);
-    throw error; // 재시도를 위해 에러를 다시 throw
+    throw error;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * 대기 작업을 배치 요청으로 보내고 성공한 작업을 오프라인 데이터베이스에 반영
+ * 배치 작업은 탭이 넘길 때 src/services/sync-batch.ts로 변환해 둔 것을 보내고,
+ * 그 뒤 탭이나 이전 동기화가 이미 처리한 작업은 건너뜀
+ */
+async function sendPendingOperations(db, tag) {
+  const result = {
+    tag,
+    syncedOperations: 0,
+    failedOperations: 0,
+    results: [],
+    completedAt: new Date().toISOString(),
+  };
+
+  const readTransaction = db.transaction(OFFLINE_STORES, "readonly");
+  const [configRecord, pendingOperationIds, todoRecords] = await Promise.all([
+    idbRequest(readTransaction.objectStore("meta").get("backgroundSync")),
+    idbRequest(readTransaction.objectStore("pendingOps").getAllKeys()),
+    idbRequest(readTransaction.objectStore("todos").getAll()),
+  ]);
+
+  const config = configRecord?.value;
+  const pending = new Set(pendingOperationIds);
+  const requests = (config?.requests ?? []).filter((request) =>
+    pending.has(request.operationId),
+  );
+
+  if (!config || requests.length === 0) {
+    return { result, retry: false };
+  }
+
+  const todoRecordsById = new Map(
+    todoRecords.map((record) => [record.id, record]),
+  );
+
+  for (
+    let offset = 0;
+    offset < requests.length;
+    offset += BATCH_MAX_OPERATIONS
+  ) {
+    const chunk = requests.slice(offset, offset + BATCH_MAX_OPERATIONS);
+
+    let response;
+    try {
+      response = await fetch(`${config.apiBaseUrl}/todos/batch`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${config.accessToken}`,
+        },
+        body: JSON.stringify({
+          operations: chunk.map((request) => request.batchOperation),
+        }),
+      });
+    } catch (error) {
+      result.error = error.message || "Network request failed";
+      return {
+        result: await applyResults(db, result, todoRecordsById),
+        retry: true,
+      };
+    }
+
+    if (!response.ok) {
+      // 서비스 워커는 탭이 넘길 때 저장한 토큰만 쓰고 갱신하지 않음
+      // (갱신 토큰은 탭이 보관하고 갱신할 때마다 바뀌므로 여기서 쓰면 탭의 로그인이 풀림)
+      // 토큰이 만료되었으면 재시도하도록 실패시켜, 그때 열린 탭이 있으면 탭이 새 토큰으로 보내게 함
+      result.error = `Batch request failed with status ${response.status}`;
+      return {
+        result: await applyResults(db, result, todoRecordsById),
+        retry: response.status >= 500 || response.status === 401,
+      };
+    }
+
+    const body = await response.json();
+    for (const item of body.data.results) {
+      const request = chunk[item.index];
+      // 이전 동기화에서 이미 반영된 생성/삭제는 성공으로 처리
+      const alreadyApplied =
+        (item.action === "create" && item.error?.code === "ALREADY_EXISTS") ||
+        (item.action === "delete" && item.error?.code === "NOT_FOUND");
+      const success = item.success || alreadyApplied;
+
+      // 실패한 작업(버전 충돌 등)은 대기열에 남겨 탭이 병합하거나 재시도
+      result.results.push({
+        operationId: request.operationId,
+        todoId: request.todoId,
+        type: request.type,
+        success,
+        todo: success ? item.todo : undefined,
+      });
+      if (success) {
+        result.syncedOperations++;
+      } else {
+        result.failedOperations++;
+      }
+    }
+  }
+
+  return {
+    result: await applyResults(db, result, todoRecordsById),
+    retry: false,
+  };
+}
+
+/**
+ * 성공한 작업을 대기열에서 빼고, 서버가 올린 버전과 동기화 기준 사본 저장
+ * (src/services/offline-database.ts와 같은 레코드 형식)
+ */
+async function applyResults(db, result, todoRecordsById) {
+  const succeeded = result.results.filter((item) => item.success);
+  if (succeeded.length === 0) {
+    return result;
+  }
+
+  const transaction = db.transaction(OFFLINE_STORES, "readwrite");
+  const todoStore = transaction.objectStore("todos");
+  const operationStore = transaction.objectStore("pendingOps");
+  const metaStore = transaction.objectStore("meta");
+
+  for (const item of succeeded) {
+    operationStore.delete(item.operationId);
+
+    if (item.todo) {
+      const record = todoRecordsById.get(item.todoId);
+      if (record) {
+        todoStore.put({
+          ...record,
+          todo: { ...record.todo, version: item.todo.version },
+        });
+      }
+      metaStore.put({ key: `syncBase:${item.todoId}`, value: item.todo });
+    } else if (item.type === "delete") {
+      metaStore.delete(`syncBase:${item.todoId}`);
+    }
   }
+
+  await new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  return result;
+}
+
+/**
+ * 오프라인 데이터베이스 열기 (없으면 null)
+ * 스키마는 탭에서 만들므로 아직 없으면 빈 데이터베이스가 생기지 않도록 업그레이드를 취소
+ */
+async function openOfflineDatabase() {
+  const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+  request.onupgradeneeded = () => request.transaction.abort();
+
+  try {
+    return await idbRequest(request);
+  } catch (error) {
+    console.log("[SW] Offline database is not available:", error);
+    return null;
+  }
+}
+
+function idbRequest(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 열린 모든 탭에 메시지 전송
+ */
+async function notifyClients(message) {
+  const windowClients = await self.clients.matchAll({
+    type: "window",
+    includeUncontrolled: true,
+  });
+  windowClients.forEach((client) => client.postMessage(message));
 }
 
 /**
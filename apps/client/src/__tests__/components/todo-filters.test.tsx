@@ -298,6 +298,122 @@ describe("TodoFilters Component", () => {
     expect(urgentChip).not.toHaveClass("bg-gradient-to-r"); // 활성 상태가 아님
   });
 
+  // ================================
+  // 태그 필터 테스트
+  // ================================
+
+  it("should not render tag row when there are no tags", () => {
+    render(
+      <TodoFilters
+        filter={defaultFilter}
+        onFilterChange={mockOnFilterChange}
+      />,
+    );
+
+    expect(screen.queryByTestId("tag-chip-row")).not.toBeInTheDocument();
+  });
+
+  it("should render tag chips with usage counts", () => {
+    render(
+      <TodoFilters
+        filter={defaultFilter}
+        onFilterChange={mockOnFilterChange}
+        tags={[
+          { tag: "work", count: 3 },
+          { tag: "home", count: 1 },
+        ]}
+      />,
+    );
+
+    expect(screen.getByTestId("filter-tag-work")).toHaveTextContent("#work3");
+    expect(screen.getByTestId("filter-tag-home")).toHaveTextContent("#home1");
+  });
+
+  it("should toggle tag filter - legacy interface", async () => {
+    const { rerender } = render(
+      <TodoFilters
+        filter={defaultFilter}
+        onFilterChange={mockOnFilterChange}
+        tags={[{ tag: "work", count: 3 }]}
+      />,
+    );
+
+    await user.click(screen.getByTestId("filter-tag-work"));
+    expect(mockOnFilterChange).toHaveBeenCalledWith({
+      ...defaultFilter,
+      tag: "work",
+    });
+
+    rerender(
+      <TodoFilters
+        filter={{ ...defaultFilter, tag: "WORK" }}
+        onFilterChange={mockOnFilterChange}
+        tags={[{ tag: "work", count: 3 }]}
+      />,
+    );
+
+    await user.click(screen.getByTestId("filter-tag-work"));
+    expect(mockOnFilterChange).toHaveBeenLastCalledWith({
+      ...defaultFilter,
+      tag: undefined,
+    });
+  });
+
+  it("should use tags from FilterHelpers", async () => {
+    const filterByTag = vi.fn();
+    const helpers: FilterHelpers = {
+      ...mockFilterHelpers,
+      tags: [{ tag: "study", count: 2 }],
+      filterByTag,
+    };
+
+    render(<TodoFilters filter={helpers} onFilterChange={helpers} />);
+
+    await user.click(screen.getByTestId("filter-tag-study"));
+    expect(filterByTag).toHaveBeenCalledWith("study");
+  });
+
+  it("should toggle due filter - legacy interface", async () => {
+    const { rerender } = render(
+      <TodoFilters
+        filter={defaultFilter}
+        onFilterChange={mockOnFilterChange}
+      />,
+    );
+
+    await user.click(screen.getByTestId("filter-due-overdue"));
+    expect(mockOnFilterChange).toHaveBeenCalledWith({
+      ...defaultFilter,
+      due: "overdue",
+    });
+
+    rerender(
+      <TodoFilters
+        filter={{ ...defaultFilter, due: "overdue" }}
+        onFilterChange={mockOnFilterChange}
+      />,
+    );
+
+    await user.click(screen.getByTestId("filter-due-overdue"));
+    expect(mockOnFilterChange).toHaveBeenLastCalledWith({
+      ...defaultFilter,
+      due: undefined,
+    });
+  });
+
+  it("should use filterByDue from FilterHelpers", async () => {
+    const filterByDue = vi.fn();
+    const helpers: FilterHelpers = {
+      ...mockFilterHelpers,
+      filterByDue,
+    };
+
+    render(<TodoFilters filter={helpers} onFilterChange={helpers} />);
+
+    await user.click(screen.getByTestId("filter-due-week"));
+    expect(filterByDue).toHaveBeenCalledWith("week");
+  });
+
   // ================================
   // 동기화 상태 섹션 테스트
   // ================================
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { Todo } from "@vive/types";
+import { compareByRank, rankBetween, rankFromCreatedAt } from "@vive/types";
+
+const createTodo = (overrides: Partial<Todo>): Todo => ({
+  id: "todo-1",
+  title: "Test Todo",
+  completed: false,
+  priority: "medium",
+  createdAt: "2024-03-10T15:30:00.000Z",
+  updatedAt: "2024-03-10T15:30:00.000Z",
+  ...overrides,
+});
+
+describe("rank", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should build the same created-at rank as the server", () => {
+    const older = rankFromCreatedAt("2024-03-10T15:30:00.000Z");
+    const newer = rankFromCreatedAt("2024-03-10T15:30:00.001Z");
+
+    expect(older).toMatch(/^[0-9A-Za-z]{8}V$/);
+    expect(newer < older).toBe(true);
+  });
+
+  it("should create a rank strictly between its neighbors", () => {
+    const cases: [string | null, string | null][] = [
+      [null, null],
+      [null, "V"],
+      ["V", null],
+      ["a", "b"],
+      ["a", "a1"],
+      ["az", "b"],
+      ["0001", "0002"],
+      ["zz", null],
+    ];
+
+    for (const [before, after] of cases) {
+      const rank = rankBetween(before, after);
+
+      expect(rank).toMatch(/^[0-9A-Za-z]*[1-9A-Za-z]$/);
+      if (before !== null) expect(rank > before).toBe(true);
+      if (after !== null) expect(rank < after).toBe(true);
+    }
+  });
+
+  it("should move a todo to the top with the current created-at rank", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-03-10T15:30:00.000Z"));
+    const first = rankFromCreatedAt("2024-03-10T15:00:00.000Z");
+
+    // 이후에 만든 Todo가 옮긴 Todo보다 앞에 오도록 지금 만든 Todo와 같은 키 사용
+    expect(rankBetween(null, first)).toBe(
+      rankFromCreatedAt("2024-03-10T15:30:00.000Z"),
+    );
+    expect(rankBetween(null, null)).toBe(
+      rankFromCreatedAt("2024-03-10T15:30:00.000Z"),
+    );
+  });
+
+  it("should keep finding room after repeated moves to the same spot", () => {
+    let after = "V";
+    for (let i = 0; i < 50; i++) {
+      const rank = rankBetween("U", after);
+
+      expect(rank > "U" && rank < after).toBe(true);
+      after = rank;
+    }
+  });
+
+  it("should place the todo after a tied neighbor", () => {
+    expect(rankBetween("k", "k") > "k").toBe(true);
+  });
+
+  it("should sort todos without a rank by their created-at rank", () => {
+    const todos = [
+      createTodo({ id: "old", createdAt: "2024-03-01T00:00:00.000Z" }),
+      createTodo({ id: "new", createdAt: "2024-03-02T00:00:00.000Z" }),
+      createTodo({ id: "first", rank: "0V" }),
+    ];
+
+    expect([...todos].sort(compareByRank).map((todo) => todo.id)).toEqual([
+      "first",
+      "new",
+      "old",
+    ]);
+  });
+});
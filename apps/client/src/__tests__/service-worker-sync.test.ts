@@ -0,0 +1,291 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import swSource from "../../public/sw.js?raw";
+
+/**
+ * 서비스 워커 백그라운드 동기화 테스트
+ * public/sw.js를 가짜 서비스 워커 전역(self, indexedDB, fetch)으로 실행해 sync 이벤트를 검사
+ */
+
+type Listener = (event: unknown) => void;
+
+interface FakeRequest<T> {
+  result: T;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+}
+
+// 서비스 워커는 요청을 만든 직후 onsuccess를 등록하므로 다음 마이크로태스크에 완료
+function fakeRequest<T>(result: T): FakeRequest<T> {
+  const request: FakeRequest<T> = { result, onsuccess: null, onerror: null };
+  queueMicrotask(() => request.onsuccess?.());
+  return request;
+}
+
+/**
+ * 테스트용 오프라인 데이터베이스 (서비스 워커가 쓰는 요청만 흉내)
+ */
+class FakeDatabase {
+  readonly stores = new Map<string, Map<string, Record<string, unknown>>>([
+    ["todos", new Map()],
+    ["pendingOps", new Map()],
+    ["meta", new Map()],
+  ]);
+  closed = false;
+
+  private readonly keyPaths: Record<string, string> = {
+    todos: "id",
+    pendingOps: "id",
+    meta: "key",
+  };
+
+  transaction() {
+    const transaction = {
+      oncomplete: null as (() => void) | null,
+      onerror: null as (() => void) | null,
+      onabort: null as (() => void) | null,
+      error: null,
+      objectStore: (name: string) => this.objectStore(name),
+    };
+    // 같은 틱에 만든 요청을 모두 반영한 뒤 완료
+    setTimeout(() => transaction.oncomplete?.());
+    return transaction;
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  private objectStore(name: string) {
+    const store = this.stores.get(name)!;
+    const keyPath = this.keyPaths[name];
+    return {
+      get: (key: string) => fakeRequest(store.get(key)),
+      getAll: () => fakeRequest([...store.values()]),
+      getAllKeys: () => fakeRequest([...store.keys()]),
+      put: (value: Record<string, unknown>) => {
+        store.set(value[keyPath] as string, value);
+        return fakeRequest(undefined);
+      },
+      delete: (key: string) => {
+        store.delete(key);
+        return fakeRequest(undefined);
+      },
+    };
+  }
+}
+
+const createOperation = {
+  action: "create",
+  id: "todo-1",
+  data: { title: "장보기", priority: "medium", tags: ["생활"] },
+};
+const updateOperation = {
+  action: "update",
+  id: "todo-2",
+  data: { completed: true, expectedVersion: 2 },
+};
+
+function createDatabase(): FakeDatabase {
+  const database = new FakeDatabase();
+  database.stores.get("meta")!.set("backgroundSync", {
+    key: "backgroundSync",
+    value: {
+      apiBaseUrl: "https://api.example.com",
+      accessToken: "token-1",
+      updatedAt: "2024-03-01T00:00:00.000Z",
+      requests: [
+        {
+          operationId: "op-1",
+          todoId: "todo-1",
+          type: "create",
+          batchOperation: createOperation,
+        },
+        {
+          operationId: "op-2",
+          todoId: "todo-2",
+          type: "update",
+          batchOperation: updateOperation,
+        },
+        // 넘긴 뒤 탭이 이미 보낸 작업
+        {
+          operationId: "op-3",
+          todoId: "todo-3",
+          type: "delete",
+          batchOperation: { action: "delete", id: "todo-3" },
+        },
+      ],
+    },
+  });
+  for (const id of ["op-1", "op-2"]) {
+    database.stores.get("pendingOps")!.set(id, { id, order: 0 });
+  }
+  database.stores.get("todos")!.set("todo-2", {
+    id: "todo-2",
+    todo: { id: "todo-2", title: "청소", version: 2 },
+  });
+  return database;
+}
+
+function loadServiceWorker(
+  database: FakeDatabase,
+  windowClients: Array<{ postMessage: ReturnType<typeof vi.fn> }>,
+  fetch: ReturnType<typeof vi.fn>,
+) {
+  const listeners = new Map<string, Listener>();
+  const scope = {
+    addEventListener: (type: string, listener: Listener) =>
+      listeners.set(type, listener),
+    clients: { matchAll: vi.fn().mockResolvedValue(windowClients) },
+  };
+  const indexedDB = { open: vi.fn(() => fakeRequest(database)) };
+  const silentConsole = { log: vi.fn(), error: vi.fn() };
+
+  new Function("self", "indexedDB", "fetch", "console", swSource)(
+    scope,
+    indexedDB,
+    fetch,
+    silentConsole,
+  );
+
+  return {
+    indexedDB,
+    // sync 이벤트를 보내고 waitUntil에 넘긴 작업을 돌려줌
+    sync: (tag = "todo-sync"): Promise<void> => {
+      let work: Promise<void> = Promise.resolve();
+      listeners.get("sync")!({
+        tag,
+        waitUntil: (promise: Promise<void>) => {
+          work = promise;
+        },
+      });
+      return work;
+    },
+  };
+}
+
+const jsonResponse = (status: number, body: unknown = {}) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+});
+
+describe("service worker background sync", () => {
+  let database: FakeDatabase;
+  let fetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    database = createDatabase();
+    fetch = vi.fn();
+  });
+
+  it("should let an open tab sync instead of sending the operations itself", async () => {
+    // Given
+    const tab = { postMessage: vi.fn() };
+    const worker = loadServiceWorker(database, [tab], fetch);
+
+    // When
+    await worker.sync();
+
+    // Then
+    expect(tab.postMessage).toHaveBeenCalledWith({
+      type: "SYNC_REQUESTED",
+      data: { tag: "todo-sync" },
+    });
+    expect(worker.indexedDB.open).not.toHaveBeenCalled();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should send the handed-off operations that are still pending", async () => {
+    // Given
+    fetch.mockResolvedValue(
+      jsonResponse(200, {
+        data: {
+          results: [
+            // 이전 동기화에서 이미 생성된 Todo
+            {
+              index: 0,
+              action: "create",
+              id: "todo-1",
+              success: false,
+              error: { code: "ALREADY_EXISTS", retryable: false },
+              todo: { id: "todo-1", title: "장보기", version: 1 },
+            },
+            {
+              index: 1,
+              action: "update",
+              id: "todo-2",
+              success: true,
+              todo: { id: "todo-2", title: "청소", version: 3 },
+            },
+          ],
+        },
+      }),
+    );
+    const worker = loadServiceWorker(database, [], fetch);
+
+    // When
+    await worker.sync();
+
+    // Then
+    expect(fetch).toHaveBeenCalledTimes(1);
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe("https://api.example.com/todos/batch");
+    expect(init.headers.Authorization).toBe("Bearer token-1");
+    expect(JSON.parse(init.body)).toEqual({
+      operations: [createOperation, updateOperation],
+    });
+
+    expect([...database.stores.get("pendingOps")!.keys()]).toEqual([]);
+    expect(database.stores.get("todos")!.get("todo-2")).toEqual(
+      expect.objectContaining({
+        todo: expect.objectContaining({ version: 3 }),
+      }),
+    );
+    expect(database.stores.get("meta")!.get("syncBase:todo-1")).toEqual({
+      key: "syncBase:todo-1",
+      value: { id: "todo-1", title: "장보기", version: 1 },
+    });
+    expect(database.closed).toBe(true);
+  });
+
+  it("should keep the operations and retry later when the access token has expired", async () => {
+    // Given
+    fetch.mockResolvedValue(jsonResponse(401));
+    const worker = loadServiceWorker(database, [], fetch);
+
+    // When - 재시도할 때 열린 탭이 있으면 탭이 갱신한 토큰으로 보냄
+    await expect(worker.sync()).rejects.toThrow(
+      "Batch request failed with status 401",
+    );
+
+    // Then
+    expect([...database.stores.get("pendingOps")!.keys()]).toEqual([
+      "op-1",
+      "op-2",
+    ]);
+    expect(database.stores.get("meta")!.has("syncBase:todo-2")).toBe(false);
+  });
+
+  it("should fail the sync so the browser retries after a server error", async () => {
+    // Given
+    fetch.mockResolvedValue(jsonResponse(503));
+    const worker = loadServiceWorker(database, [], fetch);
+
+    // When / Then
+    await expect(worker.sync()).rejects.toThrow(
+      "Batch request failed with status 503",
+    );
+    expect(database.stores.get("pendingOps")!.size).toBe(2);
+  });
+
+  it("should ignore sync tags it does not own", async () => {
+    // Given
+    const worker = loadServiceWorker(database, [], fetch);
+
+    // When
+    await worker.sync("other-sync");
+
+    // Then
+    expect(worker.indexedDB.open).not.toHaveBeenCalled();
+  });
+});
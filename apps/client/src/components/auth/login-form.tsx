@@ -1,8 +1,7 @@
 /**
- * 로그인 폼 컴포넌트 (스켈레톤)
+ * 로그인 폼 컴포넌트
  *
- * 향후 실제 로그인 기능 구현을 위한 기본 구조
- * 현재는 UI만 제공하고 실제 인증은 미구현
+ * onSubmit이 주어지지 않으면 AuthContext의 로그인을 사용
  */
 
 import { useState, useRef } from "react";
@@ -24,8 +23,8 @@ import {
   Lock,
   Loader2,
   AlertCircle,
-  Info,
 } from "lucide-react";
+import { useAuth } from "../../hooks/use-auth";
 import styles from "./login-form.module.scss";
 
 /**
@@ -56,10 +55,13 @@ export function LoginForm({
   onSubmit,
   onForgotPassword,
   onSwitchToRegister,
-  isLoading = false,
-  error,
+  isLoading: isLoadingProp,
+  error: errorProp,
   className = "",
 }: LoginFormProps) {
+  const auth = useAuth();
+  const isLoading = isLoadingProp ?? auth.isLoading;
+  const error = errorProp !== undefined ? errorProp : auth.error;
   const [formData, setFormData] = useState<LoginFormData>({
     email: "",
     password: "",
@@ -126,8 +128,8 @@ export function LoginForm({
       if (onSubmit) {
         await onSubmit(formData);
       } else {
-        // 기본 동작: 미구현 메시지 표시
-        alert("로그인 기능은 현재 개발 중입니다. 게스트로 계속 사용해주세요.");
+        // 기본 동작: AuthContext 로그인 (실패 시 auth.error로 표시)
+        await auth.login(formData);
       }
     } catch (error) {
       console.error("Login failed:", error);
@@ -155,15 +157,6 @@ export function LoginForm({
 
       <CardContent>
         <form ref={formRef} onSubmit={handleSubmit} className={styles.form}>
-          {/* 개발 중 안내 */}
-          <Alert>
-            <Info className={styles.alertIcon} />
-            <AlertDescription className={styles.alertDescription}>
-              로그인 기능은 현재 개발 중입니다. 게스트 계정으로 모든 기능을
-              체험해보세요.
-            </AlertDescription>
-          </Alert>
-
           {/* 전역 에러 메시지 */}
           {error && (
             <Alert variant="destructive">
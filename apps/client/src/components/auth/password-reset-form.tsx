@@ -0,0 +1,325 @@
+/**
+ * 비밀번호 재설정 폼 컴포넌트
+ *
+ * 1단계: 이메일로 재설정 코드 요청
+ * 2단계: 메일로 받은 코드와 새 비밀번호로 변경
+ */
+
+import { useState } from "react";
+import { Button } from "@vive/ui";
+import {
+  Input,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  Alert,
+  AlertDescription,
+} from "@vive/ui";
+import { KeyRound, Mail, Lock, Loader2, AlertCircle } from "lucide-react";
+import { useAuth } from "../../hooks/use-auth";
+import styles from "./login-form.module.scss";
+
+type ResetStep = "request" | "confirm";
+
+/**
+ * 비밀번호 재설정 폼 데이터
+ */
+interface PasswordResetFormData {
+  email: string;
+  code: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+/**
+ * PasswordResetForm Props
+ */
+interface PasswordResetFormProps {
+  onBackToLogin?: () => void;
+  onCompleted?: () => void;
+  className?: string;
+}
+
+/**
+ * 비밀번호 재설정 폼 컴포넌트
+ */
+export function PasswordResetForm({
+  onBackToLogin,
+  onCompleted,
+  className = "",
+}: PasswordResetFormProps) {
+  const auth = useAuth();
+  const [step, setStep] = useState<ResetStep>("request");
+  const [formData, setFormData] = useState<PasswordResetFormData>({
+    email: "",
+    code: "",
+    newPassword: "",
+    confirmPassword: "",
+  });
+  const [validationErrors, setValidationErrors] = useState<
+    Partial<PasswordResetFormData>
+  >({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  /**
+   * 현재 단계의 폼 검증
+   */
+  const validateForm = (): boolean => {
+    const errors: Partial<PasswordResetFormData> = {};
+
+    if (!formData.email) {
+      errors.email = "이메일을 입력해주세요.";
+    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
+      errors.email = "올바른 이메일 형식을 입력해주세요.";
+    }
+
+    if (step === "confirm") {
+      if (!formData.code.trim()) {
+        errors.code = "메일로 받은 재설정 코드를 입력해주세요.";
+      }
+      if (!formData.newPassword) {
+        errors.newPassword = "새 비밀번호를 입력해주세요.";
+      }
+      if (formData.newPassword !== formData.confirmPassword) {
+        errors.confirmPassword = "비밀번호가 일치하지 않습니다.";
+      }
+    }
+
+    setValidationErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  /**
+   * 입력값 변경 처리
+   */
+  const handleInputChange = (
+    field: keyof PasswordResetFormData,
+    value: string,
+  ) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+
+    if (validationErrors[field]) {
+      setValidationErrors((prev) => {
+        const newErrors = { ...prev };
+        delete newErrors[field];
+        return newErrors;
+      });
+    }
+  };
+
+  /**
+   * 폼 제출 처리
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    const result =
+      step === "request"
+        ? await auth.requestPasswordReset({ email: formData.email })
+        : await auth.confirmPasswordReset({
+            email: formData.email,
+            code: formData.code.trim(),
+            newPassword: formData.newPassword,
+          });
+
+    setIsLoading(false);
+
+    if (!result.success) {
+      setError(result.error ?? "요청을 처리하지 못했습니다.");
+      return;
+    }
+
+    if (step === "request") {
+      setStep("confirm");
+      setNotice(
+        "가입된 이메일이라면 재설정 코드가 발송됩니다. 코드는 15분 동안 유효합니다.",
+      );
+    } else {
+      setNotice(
+        "비밀번호가 변경되었습니다. 새 비밀번호로 다시 로그인해주세요.",
+      );
+      onCompleted?.();
+    }
+  };
+
+  return (
+    <Card className={`${styles.card} ${className}`}>
+      <CardHeader className={styles.cardHeader}>
+        <CardTitle className={styles.cardTitle}>
+          <KeyRound className={styles.titleIcon} />
+          비밀번호 재설정
+        </CardTitle>
+        <CardDescription>
+          {step === "request"
+            ? "가입한 이메일로 재설정 코드를 보내드립니다"
+            : "메일로 받은 코드와 새 비밀번호를 입력하세요"}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        <form onSubmit={handleSubmit} className={styles.form}>
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className={styles.alertIcon} />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {notice && !error && (
+            <Alert>
+              <AlertDescription>{notice}</AlertDescription>
+            </Alert>
+          )}
+
+          {/* 이메일 필드 */}
+          <div className={styles.field}>
+            <label htmlFor="reset-email" className={styles.label}>
+              이메일
+            </label>
+            <div className={styles.inputWrapper}>
+              <Mail className={styles.inputIcon} />
+              <Input
+                id="reset-email"
+                type="email"
+                placeholder="your@email.com"
+                value={formData.email}
+                onChange={(e) => handleInputChange("email", e.target.value)}
+                className={`${styles.input} ${validationErrors.email ? styles.error : ""}`}
+                disabled={isLoading || step === "confirm"}
+                autoComplete="email"
+              />
+            </div>
+            {validationErrors.email && (
+              <p className={styles.errorMessage}>{validationErrors.email}</p>
+            )}
+          </div>
+
+          {step === "confirm" && (
+            <>
+              {/* 재설정 코드 필드 */}
+              <div className={styles.field}>
+                <label htmlFor="reset-code" className={styles.label}>
+                  재설정 코드
+                </label>
+                <div className={styles.inputWrapper}>
+                  <KeyRound className={styles.inputIcon} />
+                  <Input
+                    id="reset-code"
+                    type="text"
+                    placeholder="메일로 받은 8자리 코드"
+                    value={formData.code}
+                    onChange={(e) => handleInputChange("code", e.target.value)}
+                    className={`${styles.input} ${validationErrors.code ? styles.error : ""}`}
+                    disabled={isLoading}
+                    autoComplete="one-time-code"
+                  />
+                </div>
+                {validationErrors.code && (
+                  <p className={styles.errorMessage}>{validationErrors.code}</p>
+                )}
+              </div>
+
+              {/* 새 비밀번호 필드 */}
+              <div className={styles.field}>
+                <label htmlFor="reset-new-password" className={styles.label}>
+                  새 비밀번호
+                </label>
+                <div className={styles.inputWrapper}>
+                  <Lock className={styles.inputIcon} />
+                  <Input
+                    id="reset-new-password"
+                    type="password"
+                    placeholder="새 비밀번호를 입력하세요"
+                    value={formData.newPassword}
+                    onChange={(e) =>
+                      handleInputChange("newPassword", e.target.value)
+                    }
+                    className={`${styles.input} ${validationErrors.newPassword ? styles.error : ""}`}
+                    disabled={isLoading}
+                    autoComplete="new-password"
+                  />
+                </div>
+                {validationErrors.newPassword && (
+                  <p className={styles.errorMessage}>
+                    {validationErrors.newPassword}
+                  </p>
+                )}
+              </div>
+
+              {/* 새 비밀번호 확인 필드 */}
+              <div className={styles.field}>
+                <label
+                  htmlFor="reset-confirm-password"
+                  className={styles.label}
+                >
+                  새 비밀번호 확인
+                </label>
+                <div className={styles.inputWrapper}>
+                  <Lock className={styles.inputIcon} />
+                  <Input
+                    id="reset-confirm-password"
+                    type="password"
+                    placeholder="새 비밀번호를 다시 입력하세요"
+                    value={formData.confirmPassword}
+                    onChange={(e) =>
+                      handleInputChange("confirmPassword", e.target.value)
+                    }
+                    className={`${styles.input} ${validationErrors.confirmPassword ? styles.error : ""}`}
+                    disabled={isLoading}
+                    autoComplete="new-password"
+                  />
+                </div>
+                {validationErrors.confirmPassword && (
+                  <p className={styles.errorMessage}>
+                    {validationErrors.confirmPassword}
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+
+          {/* 제출 버튼 */}
+          <Button
+            type="submit"
+            className={styles.submitButton}
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className={styles.loadingIcon} />
+                처리 중...
+              </>
+            ) : step === "request" ? (
+              "재설정 코드 받기"
+            ) : (
+              "비밀번호 변경"
+            )}
+          </Button>
+
+          {/* 로그인으로 돌아가기 */}
+          <div className={styles.forgotPasswordContainer}>
+            <button
+              type="button"
+              onClick={onBackToLogin}
+              className={styles.forgotPasswordButton}
+              disabled={isLoading}
+            >
+              로그인으로 돌아가기
+            </button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
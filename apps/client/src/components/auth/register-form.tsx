@@ -1,8 +1,7 @@
 /**
- * 회원가입 폼 컴포넌트 (스켈레톤)
+ * 회원가입 폼 컴포넌트
  *
- * 향후 실제 회원가입 기능 구현을 위한 기본 구조
- * 현재는 UI만 제공하고 실제 인증은 미구현
+ * onSubmit이 주어지지 않으면 AuthContext의 회원가입을 사용 (가입 후 자동 로그인)
  */
 
 import { useState, useRef } from "react";
@@ -25,10 +24,10 @@ import {
   User,
   Loader2,
   AlertCircle,
-  Info,
   Check,
   X,
 } from "lucide-react";
+import { useAuth } from "../../hooks/use-auth";
 import styles from "./register-form.module.scss";
 
 /**
@@ -69,10 +68,13 @@ interface RegisterFormProps {
 export function RegisterForm({
   onSubmit,
   onSwitchToLogin,
-  isLoading = false,
-  error,
+  isLoading: isLoadingProp,
+  error: errorProp,
   className = "",
 }: RegisterFormProps) {
+  const auth = useAuth();
+  const isLoading = isLoadingProp ?? auth.isLoading;
+  const error = errorProp !== undefined ? errorProp : auth.error;
   const [formData, setFormData] = useState<RegisterFormData>({
     name: "",
     email: "",
@@ -220,15 +222,19 @@ export function RegisterForm({
     }
 
     try {
+      const { confirmPassword, ...submitData } = formData;
+      void confirmPassword; // 사용되지 않는 변수 경고 방지
+
       if (onSubmit) {
-        const { confirmPassword, ...submitData } = formData;
-        void confirmPassword; // 사용되지 않는 변수 경고 방지
         await onSubmit(submitData);
       } else {
-        // 기본 동작: 미구현 메시지 표시
-        alert(
-          "회원가입 기능은 현재 개발 중입니다. 게스트로 계속 사용해주세요.",
-        );
+        // 기본 동작: AuthContext 회원가입 (실패 시 auth.error로 표시)
+        await auth.register({
+          email: submitData.email,
+          password: submitData.password,
+          name: submitData.name,
+          acceptTerms: submitData.agreeToTerms && submitData.agreeToPrivacy,
+        });
       }
     } catch (error) {
       console.error("Registration failed:", error);
@@ -271,15 +277,6 @@ export function RegisterForm({
 
       <CardContent>
         <form ref={formRef} onSubmit={handleSubmit} className={styles.form}>
-          {/* 개발 중 안내 */}
-          <Alert>
-            <Info className={styles.alertIcon} />
-            <AlertDescription className={styles.alertDescription}>
-              회원가입 기능은 현재 개발 중입니다. 게스트 계정으로 모든 기능을
-              체험해보세요.
-            </AlertDescription>
-          </Alert>
-
           {/* 전역 에러 메시지 */}
           {error && (
             <Alert variant="destructive">
@@ -0,0 +1,381 @@
+/**
+ * 동기화 충돌 해결 다이얼로그 컴포넌트
+ *
+ * 필드 단위 병합으로 풀리지 않은 충돌을 로컬/서버 버전으로 나란히 보여주고,
+ * 필드마다 남길 값을 고르거나 병합한 버전을 직접 편집해 해결합니다.
+ */
+
+import { useState } from "react";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+} from "@vive/ui";
+import type { Priority, Todo } from "@vive/types";
+import type {
+  ConflictResolution,
+  TodoConflict,
+} from "../services/sync-manager";
+import { useTodoConflicts } from "../hooks/use-todo";
+import { describeRecurrence } from "../utils/recurrence";
+import {
+  getChangedFields,
+  pickTodoFields,
+  type MergeableTodoField,
+} from "../utils/todo-merge";
+import styles from "./conflict-center-dialog.module.scss";
+
+interface ConflictCenterDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type FieldPicks = Partial<Record<MergeableTodoField, "local" | "remote">>;
+
+const fieldLabels: Record<MergeableTodoField, string> = {
+  title: "제목",
+  description: "설명",
+  completed: "완료 여부",
+  priority: "우선순위",
+  dueDate: "마감일",
+  tags: "태그",
+  recurrence: "반복",
+  rank: "목록 순서",
+  assigneeId: "담당자",
+};
+
+const priorityLabels: Record<Priority, string> = {
+  high: "긴급",
+  medium: "보통",
+  low: "낮음",
+};
+
+/**
+ * 필드 값을 화면 표시용 문자열로 변환
+ */
+function formatFieldValue(field: MergeableTodoField, todo: Todo): string {
+  const value = todo[field];
+  if (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  ) {
+    return "없음";
+  }
+
+  switch (field) {
+    case "completed":
+      return value ? "완료" : "미완료";
+    case "priority":
+      return priorityLabels[value as Priority] ?? String(value);
+    case "dueDate":
+      return new Date(value as string).toLocaleString();
+    case "tags":
+      return (value as string[]).map((tag) => `#${tag}`).join(" ");
+    case "recurrence":
+      return describeRecurrence(value as string) ?? String(value);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * 필드별 기본 선택 - 자동 병합된 필드는 병합 결과를 따르고, 충돌 필드는 로컬 값
+ */
+function getInitialPicks(
+  conflict: TodoConflict,
+  fields: MergeableTodoField[],
+): FieldPicks {
+  const mergedFromLocal = conflict.merged
+    ? getChangedFields(conflict.remoteTodo, conflict.merged)
+    : fields;
+
+  return Object.fromEntries(
+    fields.map((field) => [
+      field,
+      mergedFromLocal.includes(field) ? "local" : "remote",
+    ]),
+  );
+}
+
+/**
+ * 수정 충돌 카드 - 다른 필드를 나란히 보여주고 필드별 선택 또는 직접 편집
+ */
+function UpdateConflictCard({
+  conflict,
+  disabled,
+  onResolve,
+}: {
+  conflict: TodoConflict;
+  disabled: boolean;
+  onResolve: (resolution: ConflictResolution, resolvedTodo?: Todo) => void;
+}) {
+  const { localTodo, remoteTodo } = conflict;
+  const differentFields = getChangedFields(remoteTodo, localTodo);
+  const conflictingFields = conflict.fields ?? differentFields;
+
+  const [picks, setPicks] = useState<FieldPicks>(() =>
+    getInitialPicks(conflict, differentFields),
+  );
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedTitle, setEditedTitle] = useState("");
+  const [editedDescription, setEditedDescription] = useState("");
+
+  const picked = pickTodoFields(localTodo, remoteTodo, picks);
+
+  const handlePick = (field: MergeableTodoField, side: "local" | "remote") => {
+    setPicks((prev) => ({ ...prev, [field]: side }));
+  };
+
+  const handleStartEditing = () => {
+    setEditedTitle(picked.title);
+    setEditedDescription(picked.description ?? "");
+    setIsEditing(true);
+  };
+
+  const handleSaveMerged = () => {
+    const resolvedTodo: Todo = isEditing
+      ? {
+          ...picked,
+          title: editedTitle.trim() || picked.title,
+          description: editedDescription.trim() || undefined,
+        }
+      : picked;
+    onResolve("merged", resolvedTodo);
+  };
+
+  return (
+    <div className={styles.conflictCard}>
+      <div className={styles.conflictHeader}>
+        <h4 className={styles.conflictTitle}>{localTodo.title}</h4>
+        <span className={styles.conflictBadge}>
+          충돌 {conflictingFields.length}개 필드
+        </span>
+      </div>
+
+      <div className={styles.fieldTable}>
+        <div className={`${styles.fieldRow} ${styles.fieldHeaderRow}`}>
+          <span>필드</span>
+          <span>이 기기</span>
+          <span>서버</span>
+        </div>
+        {differentFields.map((field) => (
+          <div key={field} className={styles.fieldRow}>
+            <span className={styles.fieldLabel}>
+              {fieldLabels[field]}
+              {conflictingFields.includes(field) && (
+                <span className={styles.fieldConflictMark}>충돌</span>
+              )}
+            </span>
+            {(["local", "remote"] as const).map((side) => (
+              <button
+                key={side}
+                type="button"
+                className={`${styles.fieldValue} ${picks[field] === side ? styles.selected : ""}`}
+                aria-pressed={picks[field] === side}
+                disabled={disabled || isEditing}
+                onClick={() => handlePick(field, side)}
+              >
+                {formatFieldValue(
+                  field,
+                  side === "local" ? localTodo : remoteTodo,
+                )}
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {isEditing && (
+        <div className={styles.editor}>
+          <label className={styles.editorLabel}>
+            제목
+            <Input
+              value={editedTitle}
+              onChange={(e) => setEditedTitle(e.target.value)}
+              disabled={disabled}
+            />
+          </label>
+          <label className={styles.editorLabel}>
+            설명
+            <textarea
+              className={styles.editorTextarea}
+              value={editedDescription}
+              onChange={(e) => setEditedDescription(e.target.value)}
+              disabled={disabled}
+              rows={3}
+            />
+          </label>
+        </div>
+      )}
+
+      <div className={styles.conflictActions}>
+        <Button size="sm" onClick={handleSaveMerged} disabled={disabled}>
+          {isEditing ? "편집한 버전 저장" : "선택한 값으로 저장"}
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() =>
+            isEditing ? setIsEditing(false) : handleStartEditing()
+          }
+          disabled={disabled}
+        >
+          {isEditing ? "편집 취소" : "직접 편집"}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onResolve("local")}
+          disabled={disabled}
+        >
+          이 기기 버전 사용
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onResolve("remote")}
+          disabled={disabled}
+        >
+          서버 버전 사용
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 삭제 충돌 카드 - 서버에서 삭제된 할 일을 서버에 복원하거나 로컬에서 버림
+ */
+function DeleteConflictCard({
+  conflict,
+  disabled,
+  onResolve,
+}: {
+  conflict: TodoConflict;
+  disabled: boolean;
+  onResolve: (resolution: ConflictResolution) => void;
+}) {
+  return (
+    <div className={styles.conflictCard}>
+      <div className={styles.conflictHeader}>
+        <h4 className={styles.conflictTitle}>{conflict.localTodo.title}</h4>
+        <span className={styles.conflictBadge}>서버에서 삭제됨</span>
+      </div>
+      <p className={styles.conflictDescription}>
+        다른 기기에서 삭제된 할 일을 이 기기에서 수정했습니다.
+      </p>
+      <div className={styles.conflictActions}>
+        <Button
+          size="sm"
+          onClick={() => onResolve("local")}
+          disabled={disabled}
+        >
+          서버에 복원
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onResolve("remote")}
+          disabled={disabled}
+        >
+          이 기기에서 버리기
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 동기화 충돌 해결 다이얼로그
+ */
+export function ConflictCenterDialog({
+  isOpen,
+  onClose,
+}: ConflictCenterDialogProps) {
+  const { conflicts, resolveConflict, resolveAllConflicts } =
+    useTodoConflicts();
+  const [isResolving, setIsResolving] = useState(false);
+
+  const runResolution = async (resolve: () => Promise<void>) => {
+    setIsResolving(true);
+    try {
+      await resolve();
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent
+        style={{ maxWidth: "48rem", maxHeight: "85vh", overflowY: "auto" }}
+      >
+        <DialogHeader>
+          <DialogTitle>동기화 충돌 {conflicts.length}개</DialogTitle>
+          <DialogDescription>
+            이 기기와 서버에서 같은 할 일을 서로 다르게 바꿨습니다. 필드마다
+            남길 값을 고르거나 직접 편집해 저장하세요.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflicts.length === 0 ? (
+          <p className={styles.emptyMessage}>해결할 충돌이 없습니다.</p>
+        ) : (
+          <div className={styles.conflictList}>
+            {conflicts.map((conflict) => {
+              const handleResolve = (
+                resolution: ConflictResolution,
+                resolvedTodo?: Todo,
+              ) =>
+                runResolution(() =>
+                  resolveConflict(conflict.todoId, resolution, resolvedTodo),
+                );
+
+              return conflict.conflictType === "delete" ? (
+                <DeleteConflictCard
+                  key={conflict.todoId}
+                  conflict={conflict}
+                  disabled={isResolving}
+                  onResolve={handleResolve}
+                />
+              ) : (
+                // 서버 사본이 바뀌어 충돌이 다시 보고되면 선택을 처음부터 다시 계산
+                <UpdateConflictCard
+                  key={`${conflict.todoId}:${conflict.remoteTodo.version ?? conflict.remoteTodo.updatedAt}`}
+                  conflict={conflict}
+                  disabled={isResolving}
+                  onResolve={handleResolve}
+                />
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter className={styles.footer}>
+          <Button
+            variant="outline"
+            onClick={() => runResolution(() => resolveAllConflicts("local"))}
+            disabled={isResolving || conflicts.length === 0}
+          >
+            모두 이 기기 버전으로
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => runResolution(() => resolveAllConflicts("remote"))}
+            disabled={isResolving || conflicts.length === 0}
+          >
+            모두 서버 버전으로
+          </Button>
+          <Button onClick={onClose}>닫기</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import type { Todo } from "@vive/types";
 import { TodoProvider } from "../contexts/todo.context";
 import { TodoInput } from "./todo-input";
 import { TodoList } from "./todo-list";
@@ -6,11 +7,22 @@ import { TodoFilters } from "./todo-filters";
 import { TodoStatsComponent, TodoProgressBar } from "./todo-stats";
 import { TodoHeader } from "./todo-header";
 import { MigrationStatus } from "./auth/migration-dialog";
+import { ConflictCenterDialog } from "./conflict-center-dialog";
+import { TrashDialog } from "./trash-dialog";
 import { Button } from "@vive/ui";
 import { Card, CardContent } from "@vive/ui";
-import { useTodo, useTodoSync } from "../hooks/use-todo";
+import {
+  useTodo,
+  useTodoConflicts,
+  useTodoProjects,
+  useTodoSync,
+  useTodoTrash,
+} from "../hooks/use-todo";
 import styles from "./todo-container.module.scss";
 
+// 삭제 취소 알림을 보여 주는 시간
+const UNDO_TOAST_DURATION_MS = 5000;
+
 function TodoContainerContent() {
   const {
     todos: filteredTodos,
@@ -18,13 +30,53 @@ function TodoContainerContent() {
     updateTodo,
     deleteTodo,
     toggleTodo,
+    moveTodo,
+    checklist,
+    loadActivity,
     filter: filterHelpers,
     metadata,
   } = useTodo();
 
   const syncHelpers = useTodoSync();
+  const { conflicts } = useTodoConflicts();
+  const {
+    projects,
+    activeProject,
+    selectProject,
+    createProject,
+    canCreateProject,
+    members,
+  } = useTodoProjects();
+  const { restore } = useTodoTrash();
   const [showFilterPanel, setShowFilterPanel] = useState(false);
+  const [showConflictCenter, setShowConflictCenter] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  // 방금 삭제한 Todo의 삭제 직전 사본 (실행 취소용)
+  const [undoTodo, setUndoTodo] = useState<Todo | null>(null);
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (undoTimerRef.current) {
+        clearTimeout(undoTimerRef.current);
+      }
+    };
+  }, []);
+
+  const showUndoToast = (todo: Todo | null) => {
+    if (undoTimerRef.current) {
+      clearTimeout(undoTimerRef.current);
+      undoTimerRef.current = null;
+    }
+    setUndoTodo(todo);
+    if (todo) {
+      undoTimerRef.current = setTimeout(
+        () => setUndoTodo(null),
+        UNDO_TOAST_DURATION_MS,
+      );
+    }
+  };
 
   const handleToggleTodo = async (id: string) => {
     try {
@@ -35,13 +87,23 @@ function TodoContainerContent() {
   };
 
   const handleDeleteTodo = async (id: string) => {
+    const deletedTodo = filteredTodos.find((todo) => todo.id === id) ?? null;
     try {
       await deleteTodo(id);
+      showUndoToast(deletedTodo);
     } catch (error) {
       console.error("Failed to delete todo:", error);
     }
   };
 
+  const handleUndoDelete = async () => {
+    if (!undoTodo) {
+      return;
+    }
+    showUndoToast(null);
+    await restore(undoTodo.id, undoTodo);
+  };
+
   const handleEditTodo = async (id: string, title: string) => {
     try {
       await updateTodo(id, { title });
@@ -50,6 +112,20 @@ function TodoContainerContent() {
     }
   };
 
+  const handleAssignTodo = async (id: string, assigneeId: string | null) => {
+    try {
+      await updateTodo(id, { assigneeId });
+    } catch (error) {
+      console.error("Failed to assign todo:", error);
+    }
+  };
+
+  // viewer는 담당자를 바꿀 수 없으므로 선택을 숨김
+  const canAssignTodos = !!activeProject && activeProject.role !== "viewer";
+  // 직접 정렬에서만 순서를 옮길 수 있음 (viewer는 수정 불가)
+  const canMoveTodos =
+    filterHelpers.sortBy === "manual" && activeProject?.role !== "viewer";
+
   const handleSearch = (query: string) => {
     setSearchQuery(query);
   };
@@ -68,7 +144,13 @@ function TodoContainerContent() {
   return (
     <div className={styles.pageWrapper}>
       {/* 헤더 */}
-      <TodoHeader onSearch={handleSearch} />
+      <TodoHeader
+        onSearch={handleSearch}
+        projects={projects}
+        activeProjectId={activeProject?.id}
+        onProjectChange={selectProject}
+        onCreateProject={canCreateProject ? createProject : undefined}
+      />
 
       {/* 메인 대시보드 */}
       <main className={styles.main}>
@@ -78,6 +160,18 @@ function TodoContainerContent() {
             <MigrationStatus className={styles.migrationStatus} />
           </section>
 
+          {/* 동기화 충돌 알림 */}
+          {conflicts.length > 0 && (
+            <section className={styles.conflictNotice}>
+              <p className={styles.conflictNoticeText}>
+                다른 기기와 충돌한 할 일이 {conflicts.length}개 있습니다
+              </p>
+              <Button size="sm" onClick={() => setShowConflictCenter(true)}>
+                충돌 해결하기
+              </Button>
+            </section>
+          )}
+
           {/* 상단 통계 대시보드 */}
           <section data-testid="todo-dashboard">
             <div className={styles.dashboardHeader}>
@@ -149,6 +243,7 @@ function TodoContainerContent() {
                       onFilterChange={filterHelpers}
                       syncHelpers={syncHelpers}
                       metadata={metadata}
+                      onOpenTrash={() => setShowTrash(true)}
                     />
                   </div>
                 </CardContent>
@@ -258,12 +353,47 @@ function TodoContainerContent() {
                   onToggleTodo={handleToggleTodo}
                   onDeleteTodo={handleDeleteTodo}
                   onEditTodo={handleEditTodo}
+                  checklist={checklist}
+                  members={members}
+                  onAssignTodo={canAssignTodos ? handleAssignTodo : undefined}
+                  onLoadActivity={loadActivity}
+                  onMoveTodo={canMoveTodos ? moveTodo : undefined}
                 />
               </div>
             )}
           </section>
         </div>
       </main>
+
+      {/* 동기화 충돌 해결 다이얼로그 */}
+      <ConflictCenterDialog
+        isOpen={showConflictCenter}
+        onClose={() => setShowConflictCenter(false)}
+      />
+
+      {/* 휴지통 다이얼로그 */}
+      <TrashDialog isOpen={showTrash} onClose={() => setShowTrash(false)} />
+
+      {/* 삭제 취소 알림 */}
+      {undoTodo && (
+        <div
+          className={styles.undoToast}
+          role="status"
+          data-testid="undo-toast"
+        >
+          <span className={styles.undoMessage}>
+            할 일을 휴지통으로 옮겼습니다
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleUndoDelete}
+            data-testid="undo-delete"
+          >
+            실행 취소
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -7,7 +7,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@vive/ui";
-import type { TodoFilter, FilterType, SortBy, SortOrder } from "@vive/types";
+import type {
+  TodoFilter,
+  FilterType,
+  SortBy,
+  SortOrder,
+  TagUsage,
+  DueFilter,
+} from "@vive/types";
 import type {
   FilterHelpers,
   SyncHelpers,
@@ -20,15 +27,26 @@ interface TodoFiltersProps {
   onFilterChange: FilterHelpers | ((filter: TodoFilter) => void);
   syncHelpers?: SyncHelpers;
   metadata?: TodoMetadata;
+  tags?: TagUsage[];
+  // 있으면 휴지통 열기 칩 표시
+  onOpenTrash?: () => void;
   className?: string;
 }
 
+// 마감일 보기 칩 (다시 누르면 해제)
+const DUE_FILTER_OPTIONS: { value: DueFilter; label: string }[] = [
+  { value: "overdue", label: "기한 지남" },
+  { value: "today", label: "오늘" },
+  { value: "week", label: "7일 이내" },
+];
+
 interface FilterChipProps {
   label: string;
   icon?: React.ReactNode;
   isActive: boolean;
   onClick: () => void;
   count?: number;
+  testId?: string;
 }
 
 function FilterChip({
@@ -37,8 +55,9 @@ function FilterChip({
   isActive,
   onClick,
   count,
+  testId: customTestId,
 }: FilterChipProps) {
-  const testId = `filter-${label === "전체" ? "all" : label === "진행 중" ? "active" : label === "완료됨" ? "completed" : label.toLowerCase()}`;
+  const testId = customTestId ?? `filter-${label === "전체" ? "all" : label === "진행 중" ? "active" : label === "완료됨" ? "completed" : label.toLowerCase()}`;
 
   return (
     <Button
@@ -64,6 +83,8 @@ export function TodoFilters({
   onFilterChange,
   syncHelpers,
   metadata,
+  tags,
+  onOpenTrash,
   className = "",
 }: TodoFiltersProps) {
   const isLegacyFilter = typeof onFilterChange === "function";
@@ -89,7 +110,10 @@ export function TodoFilters({
 
   const handleSortByChange = (sortBy: SortBy) => {
     if (isLegacyFilter && typeof filter === "object" && "sortBy" in filter) {
-      (onFilterChange as (filter: TodoFilter) => void)({ ...filter, sortBy });
+      (onFilterChange as (filter: TodoFilter) => void)({
+        ...(filter as TodoFilter),
+        sortBy,
+      });
     } else if (typeof filter === "object" && "sortByCreatedAt" in filter) {
       const filterHelpers = filter as FilterHelpers;
       switch (sortBy) {
@@ -102,6 +126,12 @@ export function TodoFilters({
         case "title":
           filterHelpers.sortByTitle();
           break;
+        case "dueDate":
+          filterHelpers.sortByDueDate?.();
+          break;
+        case "manual":
+          filterHelpers.sortByManual?.();
+          break;
       }
     }
   };
@@ -119,15 +149,60 @@ export function TodoFilters({
     }
   };
 
+  const handleTagChange = (tag: string | null) => {
+    if (isLegacyFilter && typeof filter === "object" && "type" in filter) {
+      (onFilterChange as (filter: TodoFilter) => void)({
+        ...(filter as TodoFilter),
+        tag: tag ?? undefined,
+      });
+    } else if (typeof filter === "object" && "showAll" in filter) {
+      (filter as FilterHelpers).filterByTag?.(tag);
+    }
+  };
+
+  const handleDueChange = (due: DueFilter | null) => {
+    if (isLegacyFilter && typeof filter === "object" && "type" in filter) {
+      (onFilterChange as (filter: TodoFilter) => void)({
+        ...(filter as TodoFilter),
+        due: due ?? undefined,
+      });
+    } else if (typeof filter === "object" && "showAll" in filter) {
+      (filter as FilterHelpers).filterByDue?.(due);
+    }
+  };
+
+  const handleAssignedToMeChange = (enabled: boolean) => {
+    if (isLegacyFilter && typeof filter === "object" && "type" in filter) {
+      (onFilterChange as (filter: TodoFilter) => void)({
+        ...(filter as TodoFilter),
+        assignedToMe: enabled || undefined,
+      });
+    } else if (typeof filter === "object" && "showAll" in filter) {
+      (filter as FilterHelpers).filterAssignedToMe?.(enabled);
+    }
+  };
+
+  // 나에게 할당됨 보기 제공 여부 (FilterHelpers는 게스트에게 제공하지 않음)
+  const canFilterAssignedToMe =
+    isLegacyFilter || !!(filter as FilterHelpers).filterAssignedToMe;
+
   // 현재 필터 상태 추출 (레거시 호환성)
   const currentFilter = isLegacyFilter
     ? (filter as TodoFilter)
     : {
         type: "all" as FilterType,
-        sortBy: "createdAt" as SortBy,
+        sortBy: (filter as FilterHelpers).sortBy ?? ("createdAt" as SortBy),
         sortOrder: "desc" as SortOrder,
+        tag: (filter as FilterHelpers).tag,
+        due: (filter as FilterHelpers).due,
+        assignedToMe: (filter as FilterHelpers).assignedToMe,
       };
 
+  // 태그 칩 목록 (props 우선, 없으면 FilterHelpers의 태그 사용 횟수)
+  const tagUsage =
+    tags ?? (isLegacyFilter ? [] : ((filter as FilterHelpers).tags ?? []));
+  const activeTagKey = currentFilter.tag?.toLowerCase();
+
   return (
     <div className={`${styles.filterContainer} ${className}`}>
       {/* 스마트 필터 칩들 */}
@@ -258,6 +333,145 @@ export function TodoFilters({
         </div>
       </div>
 
+      {/* 마감일 보기 (사용자 시간대 기준) */}
+      <div className={styles.filterSection}>
+        <h3 className={styles.sectionTitle}>
+          <svg
+            className={styles.titleIcon}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+            />
+          </svg>
+          마감일
+        </h3>
+
+        <div className={styles.chipGroup} data-testid="due-chip-row">
+          {DUE_FILTER_OPTIONS.map(({ value, label }) => {
+            const isActive = currentFilter.due === value;
+
+            return (
+              <FilterChip
+                key={value}
+                testId={`filter-due-${value}`}
+                label={label}
+                isActive={isActive}
+                onClick={() => handleDueChange(isActive ? null : value)}
+              />
+            );
+          })}
+        </div>
+      </div>
+
+      {/* 담당자 보기 (공유 프로젝트에서 나에게 할당된 Todo) */}
+      {canFilterAssignedToMe && (
+        <div className={styles.filterSection}>
+          <h3 className={styles.sectionTitle}>
+            <svg
+              className={styles.titleIcon}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z"
+              />
+            </svg>
+            담당자
+          </h3>
+
+          <div className={styles.chipGroup}>
+            <FilterChip
+              testId="filter-assigned-to-me"
+              label="나에게 할당됨"
+              isActive={!!currentFilter.assignedToMe}
+              onClick={() =>
+                handleAssignedToMeChange(!currentFilter.assignedToMe)
+              }
+            />
+          </div>
+        </div>
+      )}
+
+      {/* 휴지통 (삭제한 Todo 복원/영구 삭제) */}
+      {onOpenTrash && (
+        <div className={styles.filterSection}>
+          <h3 className={styles.sectionTitle}>
+            <svg
+              className={styles.titleIcon}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+              />
+            </svg>
+            휴지통
+          </h3>
+
+          <div className={styles.chipGroup}>
+            <FilterChip
+              testId="filter-trash"
+              label="휴지통 보기"
+              isActive={false}
+              onClick={onOpenTrash}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* 태그 필터 */}
+      {tagUsage.length > 0 && (
+        <div className={styles.filterSection}>
+          <h3 className={styles.sectionTitle}>
+            <svg
+              className={styles.titleIcon}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M7 20l4-16m2 16l4-16M6 9h14M4 15h14"
+              />
+            </svg>
+            태그
+          </h3>
+
+          <div className={styles.chipGroup} data-testid="tag-chip-row">
+            {tagUsage.map(({ tag, count }) => {
+              const isActive = tag.toLowerCase() === activeTagKey;
+
+              return (
+                <FilterChip
+                  key={tag.toLowerCase()}
+                  testId={`filter-tag-${tag}`}
+                  label={`#${tag}`}
+                  count={count}
+                  isActive={isActive}
+                  onClick={() => handleTagChange(isActive ? null : tag)}
+                />
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* 정렬 옵션 */}
       <div className={styles.filterSection}>
         <h3 className={styles.sectionTitle}>
@@ -342,12 +556,50 @@ export function TodoFilters({
                   제목순
                 </span>
               </SelectItem>
+              <SelectItem value="dueDate">
+                <span className={styles.selectItemContent}>
+                  <svg
+                    className={styles.titleIcon}
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+                    />
+                  </svg>
+                  마감일순
+                </span>
+              </SelectItem>
+              <SelectItem value="manual">
+                <span className={styles.selectItemContent}>
+                  <svg
+                    className={styles.titleIcon}
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4"
+                    />
+                  </svg>
+                  직접 정렬
+                </span>
+              </SelectItem>
             </SelectContent>
           </Select>
 
           <Select
             value={currentFilter.sortOrder}
             onValueChange={handleSortOrderChange}
+            // 직접 정렬은 정렬 방향이 없음
+            disabled={currentFilter.sortBy === "manual"}
           >
             <SelectTrigger
               data-testid="sort-order-select"
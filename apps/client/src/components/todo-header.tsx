@@ -1,13 +1,35 @@
 import React, { useState } from "react";
+import type { Project, ProjectRole } from "@vive/types";
 import { Button, Input } from "@vive/ui";
 import styles from "./todo-header.module.scss";
 
+const PROJECT_ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: "소유자",
+  editor: "편집자",
+  viewer: "보기 전용",
+};
+
 interface TodoHeaderProps {
   onSearch?: (query: string) => void;
+  // 공유 프로젝트 선택 (프로젝트가 없고 만들 수도 없으면 숨김)
+  projects?: Project[];
+  activeProjectId?: string;
+  onProjectChange?: (projectId?: string) => void;
+  onCreateProject?: (name: string) => Promise<void>;
 }
 
-export function TodoHeader({ onSearch }: TodoHeaderProps) {
+export function TodoHeader({
+  onSearch,
+  projects = [],
+  activeProjectId,
+  onProjectChange,
+  onCreateProject,
+}: TodoHeaderProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [newProjectName, setNewProjectName] = useState("");
+  const [isCreatingProject, setIsCreatingProject] = useState(false);
+  const showProjectSwitcher =
+    !!onProjectChange && (projects.length > 0 || !!onCreateProject);
 
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const query = e.target.value;
@@ -15,6 +37,22 @@ export function TodoHeader({ onSearch }: TodoHeaderProps) {
     onSearch?.(query);
   };
 
+  const handleProjectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onProjectChange?.(e.target.value || undefined);
+  };
+
+  const handleCreateProject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newProjectName.trim();
+    if (!name || !onCreateProject) {
+      return;
+    }
+
+    await onCreateProject(name);
+    setNewProjectName("");
+    setIsCreatingProject(false);
+  };
+
   return (
     <header
       data-testid="todo-header"
@@ -50,6 +88,67 @@ export function TodoHeader({ onSearch }: TodoHeaderProps) {
             </div>
           </div>
 
+          {/* 공유 프로젝트 선택 */}
+          {showProjectSwitcher && (
+            <div className={styles.projectContainer}>
+              {isCreatingProject ? (
+                <form
+                  className={styles.projectForm}
+                  onSubmit={handleCreateProject}
+                >
+                  <Input
+                    data-testid="new-project-input"
+                    type="text"
+                    placeholder="프로젝트 이름"
+                    value={newProjectName}
+                    maxLength={100}
+                    onChange={(e) => setNewProjectName(e.target.value)}
+                    className={styles.searchInput}
+                    autoFocus
+                  />
+                  <Button type="submit" variant="ghost" size="sm">
+                    만들기
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setIsCreatingProject(false)}
+                  >
+                    취소
+                  </Button>
+                </form>
+              ) : (
+                <>
+                  <select
+                    data-testid="project-select"
+                    aria-label="프로젝트 선택"
+                    className={styles.projectSelect}
+                    value={activeProjectId ?? ""}
+                    onChange={handleProjectChange}
+                  >
+                    <option value="">내 할 일</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name} ({PROJECT_ROLE_LABELS[project.role]})
+                      </option>
+                    ))}
+                  </select>
+                  {onCreateProject && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className={styles.actionButton}
+                      onClick={() => setIsCreatingProject(true)}
+                    >
+                      + 프로젝트
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
           {/* 가운데: 검색 */}
           <div className={styles.searchContainer}>
             <div className={styles.searchInputWrapper}>
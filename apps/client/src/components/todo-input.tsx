@@ -11,6 +11,7 @@ import {
 import type { Priority } from "@vive/types";
 import { useTodoForm } from "../hooks/use-todo";
 import { useSafeInput, logSecurityWarning } from "../utils/client-security";
+import { RECURRENCE_PRESETS } from "../utils/recurrence";
 import styles from "./todo-input.module.scss";
 
 interface TodoInputProps {
@@ -21,6 +22,8 @@ interface TodoInputProps {
 export function TodoInput({ onAddTodo }: TodoInputProps) {
   const [title, setTitle] = useState("");
   const [priority, setPriority] = useState<Priority>("medium");
+  // "none"은 반복 안 함 (Select 항목 값은 빈 문자열일 수 없음)
+  const [recurrence, setRecurrence] = useState("none");
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const { createTodo, canCreate, loading } = useTodoForm();
@@ -51,12 +54,14 @@ export function TodoInput({ onAddTodo }: TodoInputProps) {
         // 내장된 useTodo 훅 사용
         await createTodo(sanitizedTitle, {
           priority,
+          ...(recurrence !== "none" && { recurrence }),
         });
       }
 
       // 성공적으로 추가되면 폼 리셋
       setTitle("");
       setPriority("medium");
+      setRecurrence("none");
     } catch (error) {
       console.error("Failed to add todo:", error);
       // 에러는 Context 레벨에서 처리되므로 여기서는 로깅만
@@ -88,6 +93,17 @@ export function TodoInput({ onAddTodo }: TodoInputProps) {
     setTitle(sanitized);
   };
 
+  const recurrenceOptions = (
+    <SelectContent>
+      <SelectItem value="none">반복 안 함</SelectItem>
+      {RECURRENCE_PRESETS.map((preset) => (
+        <SelectItem key={preset.value} value={preset.value}>
+          {preset.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  );
+
   return (
     <div className={styles.container}>
       {/* 데스크톱 레이아웃 */}
@@ -114,6 +130,15 @@ export function TodoInput({ onAddTodo }: TodoInputProps) {
             <SelectItem value="low">낮음</SelectItem>
           </SelectContent>
         </Select>
+        <Select value={recurrence} onValueChange={setRecurrence}>
+          <SelectTrigger
+            data-testid="recurrence-select"
+            className={styles.recurrenceSelect}
+          >
+            <SelectValue placeholder="반복" />
+          </SelectTrigger>
+          {recurrenceOptions}
+        </Select>
         <Button
           data-testid="add-todo-button"
           onClick={handleAddClick}
@@ -149,6 +174,12 @@ export function TodoInput({ onAddTodo }: TodoInputProps) {
               <SelectItem value="low">낮음</SelectItem>
             </SelectContent>
           </Select>
+          <Select value={recurrence} onValueChange={setRecurrence}>
+            <SelectTrigger className={styles.mobileRecurrenceSelect}>
+              <SelectValue />
+            </SelectTrigger>
+            {recurrenceOptions}
+          </Select>
         </div>
         <Button
           data-testid="add-todo-button"
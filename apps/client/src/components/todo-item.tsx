@@ -1,7 +1,16 @@
 import { useState } from "react";
 import { Button } from "@vive/ui";
 import { Card, CardContent, Checkbox, Input } from "@vive/ui";
-import type { Todo, Priority } from "@vive/types";
+import type {
+  Todo,
+  Priority,
+  ProjectMember,
+  TodoActivity,
+  TodoActivityAction,
+  TodoFieldChange,
+} from "@vive/types";
+import type { ChecklistHelpers } from "../hooks/use-todo";
+import { describeRecurrence } from "../utils/recurrence";
 import styles from "./todo-item.module.scss";
 
 interface TodoItemProps {
@@ -9,6 +18,10 @@ interface TodoItemProps {
   onToggleTodo: (id: string) => void;
   onDeleteTodo: (id: string) => void;
   onEditTodo: (id: string, title: string) => void;
+  checklist?: ChecklistHelpers;
+  members?: ProjectMember[]; // 있으면 담당자 선택 표시
+  onAssignTodo?: (id: string, assigneeId: string | null) => void;
+  onLoadActivity?: (id: string) => Promise<TodoActivity[]>; // 있으면 기록 패널 표시
 }
 
 const priorityBadgeMap: Record<Priority, { label: string; icon: string; className: string }> = {
@@ -17,14 +30,91 @@ const priorityBadgeMap: Record<Priority, { label: string; icon: string; classNam
   low: { label: "낮음", icon: "M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z", className: styles.low },
 };
 
+const activityActionLabels: Record<TodoActivityAction, string> = {
+  CREATED: "생성",
+  UPDATED: "수정",
+  DELETED: "삭제",
+  RESTORED: "복원",
+  PURGED: "영구 삭제",
+};
+
+const activityFieldLabels: Record<string, string> = {
+  title: "제목",
+  description: "설명",
+  completed: "완료",
+  priority: "우선순위",
+  dueDate: "마감일",
+  tags: "태그",
+  recurrence: "반복",
+  assigneeId: "담당자",
+};
+
+/**
+ * 활동 기록 값 표시 (값이 없으면 "없음")
+ */
+function formatActivityValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") {
+    return "없음";
+  }
+  if (typeof value === "boolean") {
+    return value ? "예" : "아니오";
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(", ") : "없음";
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * 필드 변경 한 줄 요약 (예: "우선순위: low → high")
+ */
+function describeActivityChange(change: TodoFieldChange): string {
+  const label = activityFieldLabels[change.field] ?? change.field;
+  return `${label}: ${formatActivityValue(change.oldValue)} → ${formatActivityValue(change.newValue)}`;
+}
+
+function formatActivityTime(occurredAt: string): string {
+  return new Date(occurredAt).toLocaleString("ko-KR", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * 담당자 표시 이름 (이메일이 없는 멤버나 멤버 목록 밖의 담당자는 사용자 ID)
+ */
+function getMemberLabel(userId: string, members: ProjectMember[]): string {
+  return members.find((member) => member.userId === userId)?.email ?? userId;
+}
+
 export function TodoItem({
   todo,
   onToggleTodo,
   onDeleteTodo,
   onEditTodo,
+  checklist,
+  members = [],
+  onAssignTodo,
+  onLoadActivity,
 }: TodoItemProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [newTitle, setNewTitle] = useState(todo.title);
+  const [isChecklistOpen, setIsChecklistOpen] = useState(false);
+  const [newItemTitle, setNewItemTitle] = useState("");
+  const [isActivityOpen, setIsActivityOpen] = useState(false);
+  const [activities, setActivities] = useState<TodoActivity[] | null>(null);
+
+  const checklistItems = todo.checklist ?? [];
+  const checklistProgress = todo.checklistProgress;
+  const recurrenceLabel = todo.recurrence
+    ? describeRecurrence(todo.recurrence)
+    : null;
+  const assigneeLabel = todo.assigneeId
+    ? getMemberLabel(todo.assigneeId, members)
+    : null;
+  const canAssign = !!onAssignTodo && members.length > 0;
 
   const handleSave = () => {
     if (newTitle.trim()) {
@@ -54,6 +144,50 @@ export function TodoItem({
     handleSave();
   };
 
+  const handleToggleChecklist = () => {
+    if (!isChecklistOpen) {
+      checklist?.load(todo.id);
+    }
+    setIsChecklistOpen(!isChecklistOpen);
+  };
+
+  // 펼칠 때마다 최신 기록을 다시 조회
+  const handleToggleActivity = () => {
+    if (!isActivityOpen && onLoadActivity) {
+      setActivities(null);
+      onLoadActivity(todo.id).then(setActivities);
+    }
+    setIsActivityOpen(!isActivityOpen);
+  };
+
+  const handleAddChecklistItem = () => {
+    const title = newItemTitle.trim();
+    if (title) {
+      checklist?.addItem(todo.id, title);
+    }
+    setNewItemTitle("");
+  };
+
+  const handleChecklistKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      handleAddChecklistItem();
+    } else if (e.key === "Escape") {
+      setNewItemTitle("");
+    }
+  };
+
+  // 항목을 한 칸 위(-1) 또는 아래(+1)로 이동
+  const handleMoveChecklistItem = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= checklistItems.length) {
+      return;
+    }
+
+    const itemIds = checklistItems.map((item) => item.id);
+    [itemIds[index], itemIds[target]] = [itemIds[target], itemIds[index]];
+    checklist?.reorderItems(todo.id, itemIds);
+  };
+
   const formattedDate = new Date(todo.createdAt).toLocaleDateString("ko-KR", {
     month: "short",
     day: "numeric",
@@ -118,6 +252,81 @@ export function TodoItem({
                       </svg>
                       {formattedDate}
                     </span>
+                    {checklistProgress && checklistProgress.total > 0 && (
+                      <span
+                        data-testid="checklist-progress"
+                        className={`${styles.metaItem} ${
+                          checklistProgress.completed === checklistProgress.total
+                            ? styles.completedText
+                            : ''
+                        }`}>
+                        <svg
+                          className={styles.metaIcon}
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"
+                          />
+                        </svg>
+                        {checklistProgress.completed}/{checklistProgress.total}
+                      </span>
+                    )}
+                    {recurrenceLabel && (
+                      <span data-testid="recurrence-label" className={styles.metaItem}>
+                        <svg
+                          className={styles.metaIcon}
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                          />
+                        </svg>
+                        {recurrenceLabel}
+                      </span>
+                    )}
+                    {(assigneeLabel || canAssign) && (
+                      <span className={styles.metaItem}>
+                        {assigneeLabel && (
+                          <span
+                            data-testid="assignee-avatar"
+                            className={styles.assigneeAvatar}
+                            title={assigneeLabel}
+                          >
+                            {assigneeLabel.charAt(0).toUpperCase()}
+                          </span>
+                        )}
+                        {canAssign ? (
+                          <select
+                            data-testid="assignee-select"
+                            className={styles.assigneeSelect}
+                            aria-label="담당자"
+                            value={todo.assigneeId ?? ""}
+                            onChange={(e) =>
+                              onAssignTodo?.(todo.id, e.target.value || null)
+                            }
+                          >
+                            <option value="">담당자 없음</option>
+                            {members.map((member) => (
+                              <option key={member.userId} value={member.userId}>
+                                {member.email ?? member.userId}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          assigneeLabel
+                        )}
+                      </span>
+                    )}
                     {todo.completed && (
                       <span className={`${styles.metaItem} ${styles.completedText}`}>
                         <svg
@@ -175,6 +384,53 @@ export function TodoItem({
             {/* 액션 버튼들 */}
             {!isEditing && (
               <div className={styles.actionsContainer}>
+                {checklist && (
+                  <Button
+                    data-testid="checklist-toggle"
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleToggleChecklist}
+                    aria-expanded={isChecklistOpen}
+                    className={`${styles.actionButton} ${styles.checklistToggle}`}>
+                    <svg
+                      className={styles.actionIcon}
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d={isChecklistOpen ? "M5 15l7-7 7 7" : "M19 9l-7 7-7-7"}
+                      />
+                    </svg>
+                  </Button>
+                )}
+                {onLoadActivity && (
+                  <Button
+                    data-testid="activity-toggle"
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleToggleActivity}
+                    aria-expanded={isActivityOpen}
+                    aria-label="변경 기록"
+                    className={`${styles.actionButton} ${styles.activityToggle}`}>
+                    <svg
+                      className={styles.actionIcon}
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                      />
+                    </svg>
+                  </Button>
+                )}
                 <Button
                   data-testid="edit-button"
                   variant="ghost"
@@ -236,6 +492,110 @@ export function TodoItem({
               </div>
             )}
           </div>
+
+          {/* 체크리스트 (펼쳤을 때만 표시) */}
+          {checklist && isChecklistOpen && (
+            <div data-testid="checklist" className={styles.checklist}>
+              <ul className={styles.checklistItems}>
+                {checklistItems.map((item, index) => (
+                  <li
+                    key={item.id}
+                    data-testid="checklist-item"
+                    className={styles.checklistItem}>
+                    <Checkbox
+                      checked={item.completed}
+                      onCheckedChange={() => checklist.toggleItem(todo.id, item.id)}
+                      aria-label={item.title}
+                    />
+                    <span
+                      className={`${styles.checklistTitle} ${item.completed ? styles.completed : ''}`}>
+                      {item.title}
+                    </span>
+                    <div className={styles.checklistActions}>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleMoveChecklistItem(index, -1)}
+                        disabled={index === 0}
+                        aria-label="위로 이동"
+                        className={styles.checklistActionButton}>
+                        ↑
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleMoveChecklistItem(index, 1)}
+                        disabled={index === checklistItems.length - 1}
+                        aria-label="아래로 이동"
+                        className={styles.checklistActionButton}>
+                        ↓
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => checklist.deleteItem(todo.id, item.id)}
+                        aria-label="항목 삭제"
+                        className={`${styles.checklistActionButton} ${styles.delete}`}>
+                        ×
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <Input
+                data-testid="checklist-input"
+                value={newItemTitle}
+                onChange={(e) => setNewItemTitle(e.target.value)}
+                onKeyDown={handleChecklistKeyDown}
+                placeholder="하위 항목 추가 (Enter)"
+                maxLength={200}
+                className={styles.checklistInput}
+              />
+            </div>
+          )}
+
+          {/* 변경 기록 (펼쳤을 때만 표시, 최신순) */}
+          {onLoadActivity && isActivityOpen && (
+            <div data-testid="activity-panel" className={styles.activity}>
+              {activities === null ? (
+                <p className={styles.activityEmpty}>불러오는 중...</p>
+              ) : activities.length === 0 ? (
+                <p className={styles.activityEmpty}>변경 기록이 없습니다</p>
+              ) : (
+                <ul className={styles.activityItems}>
+                  {activities.map((activity) => (
+                    <li
+                      key={activity.id}
+                      data-testid="activity-item"
+                      className={styles.activityItem}>
+                      <div className={styles.activityHeader}>
+                        <span className={styles.activityAction}>
+                          {activityActionLabels[activity.action]}
+                        </span>
+                        <span>
+                          {activity.actorType === "guest"
+                            ? "게스트"
+                            : getMemberLabel(activity.actorId, members)}
+                        </span>
+                        <time dateTime={activity.occurredAt}>
+                          {formatActivityTime(activity.occurredAt)}
+                        </time>
+                      </div>
+                      {activity.changes.length > 0 && (
+                        <ul className={styles.activityChanges}>
+                          {activity.changes.map((change) => (
+                            <li key={change.field}>
+                              {describeActivityChange(change)}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
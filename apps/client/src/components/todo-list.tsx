@@ -1,11 +1,37 @@
-import type { Todo } from "@vive/types";
+import { useEffect, useRef, useState } from "react";
+import type { DragEvent, KeyboardEvent } from "react";
+import type { Todo, ProjectMember, TodoActivity } from "@vive/types";
+import type { ChecklistHelpers } from "../hooks/use-todo";
 import { TodoItem } from "./todo-item";
+import styles from "./todo-list.module.scss";
 
 interface TodoListProps {
   todos: Todo[];
   onToggleTodo: (id: string) => void;
   onDeleteTodo: (id: string) => void;
   onEditTodo: (id: string, title: string) => void;
+  checklist?: ChecklistHelpers;
+  members?: ProjectMember[];
+  onAssignTodo?: (id: string, assigneeId: string | null) => void;
+  onLoadActivity?: (id: string) => Promise<TodoActivity[]>;
+  // 있으면 드래그 앤 드롭/키보드로 순서 변경 (옮긴 자리의 앞뒤 Todo 전달)
+  onMoveTodo?: (id: string, previous?: Todo, next?: Todo) => void;
+}
+
+// 키보드로 잡은 항목과 옮길 위치 (놓기 전까지 목록에만 미리 보여 줌)
+interface GrabbedTodo {
+  id: string;
+  index: number;
+}
+
+/**
+ * from 위치의 항목을 to 위치로 옮긴 새 목록
+ */
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
 }
 
 export function TodoList({
@@ -13,18 +39,213 @@ export function TodoList({
   onToggleTodo,
   onDeleteTodo,
   onEditTodo,
+  checklist,
+  members,
+  onAssignTodo,
+  onLoadActivity,
+  onMoveTodo,
 }: TodoListProps) {
+  const [grabbed, setGrabbed] = useState<GrabbedTodo | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const handleRefs = useRef(new Map<string, HTMLButtonElement>());
+
+  const orderedTodos = grabbed
+    ? moveItem(
+        todos,
+        todos.findIndex((todo) => todo.id === grabbed.id),
+        grabbed.index,
+      )
+    : todos;
+
+  // 미리 보기로 순서가 바뀌면 DOM이 옮겨지므로 잡은 항목의 손잡이에 포커스 유지
+  useEffect(() => {
+    if (grabbed) {
+      handleRefs.current.get(grabbed.id)?.focus();
+    }
+  }, [grabbed]);
+
+  // 목록이 바뀌어 잡은 항목이 사라지면 잡기 취소
+  useEffect(() => {
+    if (grabbed && !todos.some((todo) => todo.id === grabbed.id)) {
+      setGrabbed(null);
+    }
+  }, [todos, grabbed]);
+
+  const commitMove = (id: string, order: Todo[]) => {
+    const from = todos.findIndex((todo) => todo.id === id);
+    const to = order.findIndex((todo) => todo.id === id);
+    if (from === -1 || from === to) {
+      return;
+    }
+    onMoveTodo?.(id, order[to - 1], order[to + 1]);
+  };
+
+  const handleHandleKeyDown = (
+    event: KeyboardEvent<HTMLButtonElement>,
+    todo: Todo,
+    index: number,
+  ) => {
+    const isGrabbed = grabbed?.id === todo.id;
+
+    switch (event.key) {
+      case " ":
+      case "Enter":
+        event.preventDefault();
+        if (isGrabbed) {
+          commitMove(todo.id, orderedTodos);
+          setGrabbed(null);
+          setAnnouncement(
+            `"${todo.title}"을(를) ${index + 1}번째 위치에 놓았습니다`,
+          );
+        } else {
+          setGrabbed({ id: todo.id, index });
+          setAnnouncement(
+            `"${todo.title}"을(를) 잡았습니다. 위아래 화살표로 옮기고 Space로 놓거나 Escape로 취소하세요`,
+          );
+        }
+        break;
+      case "ArrowUp":
+      case "ArrowDown": {
+        if (!isGrabbed) {
+          return;
+        }
+        event.preventDefault();
+        const nextIndex = Math.min(
+          Math.max(index + (event.key === "ArrowUp" ? -1 : 1), 0),
+          todos.length - 1,
+        );
+        setGrabbed({ id: todo.id, index: nextIndex });
+        setAnnouncement(`${nextIndex + 1}번째 위치 (전체 ${todos.length}개)`);
+        break;
+      }
+      case "Escape":
+        if (isGrabbed) {
+          event.preventDefault();
+          setGrabbed(null);
+          setAnnouncement(`"${todo.title}" 옮기기를 취소했습니다`);
+        }
+        break;
+    }
+  };
+
+  const handleDragStart = (event: DragEvent<HTMLDivElement>, id: string) => {
+    event.dataTransfer.effectAllowed = "move";
+    event.dataTransfer.setData("text/plain", id);
+    setDraggingId(id);
+  };
+
+  // 항목의 위쪽 절반이면 그 앞, 아래쪽 절반이면 그 뒤에 놓음
+  const handleDragOver = (event: DragEvent<HTMLDivElement>, index: number) => {
+    if (!draggingId) {
+      return;
+    }
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    const { top, height } = event.currentTarget.getBoundingClientRect();
+    setDropIndex(event.clientY < top + height / 2 ? index : index + 1);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    if (draggingId && dropIndex !== null) {
+      const from = todos.findIndex((todo) => todo.id === draggingId);
+      // 자기 자리보다 뒤에 놓으면 빠진 자리만큼 당겨짐
+      const to = dropIndex > from ? dropIndex - 1 : dropIndex;
+      commitMove(draggingId, moveItem(todos, from, to));
+    }
+    handleDragEnd();
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setDropIndex(null);
+  };
+
+  const renderItem = (todo: Todo) => (
+    <TodoItem
+      key={todo.id}
+      todo={todo}
+      onToggleTodo={onToggleTodo}
+      onDeleteTodo={onDeleteTodo}
+      onEditTodo={onEditTodo}
+      checklist={checklist}
+      members={members}
+      onAssignTodo={onAssignTodo}
+      onLoadActivity={onLoadActivity}
+    />
+  );
+
+  if (!onMoveTodo) {
+    return <div data-testid="todo-list">{todos.map(renderItem)}</div>;
+  }
+
   return (
-    <div data-testid="todo-list">
-      {todos.map((todo) => (
-        <TodoItem
+    <div data-testid="todo-list" className={styles.reorderList}>
+      <p id="todo-reorder-instructions" className={styles.srOnly}>
+        Space나 Enter로 할 일을 잡고 위아래 화살표로 옮긴 뒤 다시 Space나
+        Enter로 놓습니다. Escape를 누르면 취소합니다.
+      </p>
+      {orderedTodos.map((todo, index) => (
+        <div
           key={todo.id}
-          todo={todo}
-          onToggleTodo={onToggleTodo}
-          onDeleteTodo={onDeleteTodo}
-          onEditTodo={onEditTodo}
-        />
+          className={[
+            styles.reorderRow,
+            draggingId === todo.id || grabbed?.id === todo.id
+              ? styles.moving
+              : "",
+            dropIndex === index ? styles.dropBefore : "",
+            dropIndex === index + 1 && index === orderedTodos.length - 1
+              ? styles.dropAfter
+              : "",
+          ]
+            .filter(Boolean)
+            .join(" ")}
+          draggable
+          onDragStart={(event) => handleDragStart(event, todo.id)}
+          onDragOver={(event) => handleDragOver(event, index)}
+          onDrop={handleDrop}
+          onDragEnd={handleDragEnd}
+          data-testid="reorder-row"
+        >
+          <button
+            type="button"
+            ref={(element) => {
+              if (element) {
+                handleRefs.current.set(todo.id, element);
+              } else {
+                handleRefs.current.delete(todo.id);
+              }
+            }}
+            className={styles.dragHandle}
+            aria-label={`"${todo.title}" 순서 옮기기`}
+            aria-describedby="todo-reorder-instructions"
+            aria-pressed={grabbed?.id === todo.id}
+            onKeyDown={(event) => handleHandleKeyDown(event, todo, index)}
+            onBlur={(event) => {
+              // 미리 보기로 DOM이 옮겨질 때의 blur(relatedTarget 없음)는 무시
+              if (grabbed?.id === todo.id && event.relatedTarget) {
+                setGrabbed(null);
+              }
+            }}
+            data-testid="reorder-handle"
+          >
+            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M8 6h.01M8 12h.01M8 18h.01M16 6h.01M16 12h.01M16 18h.01"
+              />
+            </svg>
+          </button>
+          <div className={styles.reorderItem}>{renderItem(todo)}</div>
+        </div>
       ))}
+      <div className={styles.srOnly} role="status" aria-live="polite">
+        {announcement}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,134 @@
+/**
+ * 휴지통 다이얼로그 컴포넌트
+ *
+ * 삭제한 할 일을 삭제 시각 순으로 보여주고, 30일 보관 기간이 끝나기 전에
+ * 복원하거나 바로 영구 삭제합니다.
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@vive/ui";
+import type { TrashedTodo } from "@vive/types";
+import { useTodoTrash } from "../hooks/use-todo";
+import styles from "./trash-dialog.module.scss";
+
+interface TrashDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * 휴지통 다이얼로그
+ */
+export function TrashDialog({ isOpen, onClose }: TrashDialogProps) {
+  const { load, restore, purge } = useTodoTrash();
+  const [items, setItems] = useState<TrashedTodo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // 열 때마다 서버에서 다시 조회 (다른 기기에서 삭제/복원했을 수 있음)
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    load()
+      .then((trashed) => {
+        if (!cancelled) {
+          setItems(trashed);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, load]);
+
+  const runItemAction = async (
+    id: string,
+    action: (id: string) => Promise<boolean>,
+  ) => {
+    setBusyId(id);
+    try {
+      if (await action(id)) {
+        setItems((prev) => prev.filter((item) => item.todo.id !== id));
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent
+        style={{ maxWidth: "40rem", maxHeight: "85vh", overflowY: "auto" }}
+      >
+        <DialogHeader>
+          <DialogTitle>휴지통</DialogTitle>
+          <DialogDescription>
+            삭제한 할 일은 30일 동안 보관된 뒤 자동으로 영구 삭제됩니다.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <p className={styles.emptyMessage}>불러오는 중...</p>
+        ) : items.length === 0 ? (
+          <p className={styles.emptyMessage}>휴지통이 비어 있습니다</p>
+        ) : (
+          <ul className={styles.trashList}>
+            {items.map(({ todo, deletedAt, expiresAt }) => (
+              <li
+                key={todo.id}
+                className={styles.trashItem}
+                data-testid="trash-item"
+              >
+                <div className={styles.trashInfo}>
+                  <span className={styles.trashTitle}>{todo.title}</span>
+                  <span className={styles.trashMeta}>
+                    {new Date(deletedAt).toLocaleString()} 삭제 ·{" "}
+                    {new Date(expiresAt).toLocaleDateString()}까지 보관
+                  </span>
+                </div>
+                <div className={styles.trashActions}>
+                  <Button
+                    size="sm"
+                    onClick={() => runItemAction(todo.id, restore)}
+                    disabled={busyId !== null}
+                    data-testid="trash-restore"
+                  >
+                    복원
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => runItemAction(todo.id, purge)}
+                    disabled={busyId !== null}
+                    data-testid="trash-purge"
+                  >
+                    영구 삭제
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <DialogFooter>
+          <Button onClick={onClose}>닫기</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
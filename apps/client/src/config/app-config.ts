@@ -18,6 +18,7 @@ export class AppConfig {
   get api() {
     return {
       baseURL: import.meta.env.VITE_API_BASE_URL || "",
+      realtimeURL: import.meta.env.VITE_REALTIME_URL || "",
       timeout: parseInt(import.meta.env.VITE_API_TIMEOUT || "10000", 10),
       retryAttempts: parseInt(import.meta.env.VITE_RETRY_ATTEMPTS || "3", 10),
       retryDelay: parseInt(import.meta.env.VITE_RETRY_DELAY || "1000", 10),
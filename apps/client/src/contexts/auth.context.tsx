@@ -9,10 +9,12 @@ import {
 import type { ReactNode } from "react";
 import type {
   AuthContextType,
-  // LoginRequest,
-  // RegisterRequest,
-  // PasswordResetRequest,
-  // PasswordChangeRequest,
+  AuthenticatedPermissions,
+  LoginRequest,
+  RegisterRequest,
+  PasswordResetRequest,
+  PasswordResetConfirmRequest,
+  PasswordChangeRequest,
   // ProfileUpdateRequest,
   AuthEvent,
   AuthEventListener,
@@ -20,8 +22,23 @@ import type {
 } from "../types/auth.types";
 import { authReducer, initialAuthState, authSelectors } from "./auth.reducer";
 import { authService } from "../services/auth.service";
+import type { LoginResponse } from "../types/api.types";
 import { appConfig } from "../config/app-config";
 
+/**
+ * 로그인 사용자 기본 권한 (서버 TokenValidator 기본값과 동일)
+ */
+const DEFAULT_AUTHENTICATED_PERMISSIONS: AuthenticatedPermissions = {
+  canCreate: true,
+  canUpdate: true,
+  canDelete: true,
+  maxItems: 1000,
+  canExport: true,
+  canImport: true,
+  canShare: false,
+  unlimitedItems: false,
+};
+
 /**
  * AuthContext 생성
  */
@@ -209,43 +226,74 @@ export function AuthProvider({ children, initOptions }: AuthProviderProps) {
   // 인증 관련 메서드들
   // ================================
 
-  const login = useCallback(async () => {
-    dispatch({ type: "AUTH_LOGIN_START" });
+  /**
+   * 로그인/회원가입 응답으로 인증 상태 반영
+   */
+  const applyAuthenticatedSession = useCallback(
+    (response: LoginResponse) => {
+      const user = {
+        ...response.user,
+        isGuest: false,
+      };
 
-    try {
-      // TODO: 실제 로그인 API 구현
-      // 현재는 게스트 토큰만 지원하므로 에러 처리
-      throw new Error(
-        "Full authentication is not yet implemented. Using guest mode.",
-      );
-    } catch (loginError) {
-      const errorMessage =
-        loginError instanceof Error ? loginError.message : "Login failed";
       dispatch({
-        type: "AUTH_LOGIN_FAILURE",
-        payload: errorMessage,
+        type: "AUTH_LOGIN_SUCCESS",
+        payload: {
+          user,
+          permissions: DEFAULT_AUTHENTICATED_PERMISSIONS,
+          tokenInfo: {
+            accessToken: response.accessToken,
+            refreshToken: response.refreshToken,
+            expiresAt: Date.now() + response.expiresIn * 1000,
+            tokenType: "authenticated",
+          },
+        },
       });
-      emitEvent("login", { error: errorMessage });
-      throw new Error(errorMessage);
-    }
-  }, [emitEvent]);
 
-  const register = useCallback(async () => {
-    dispatch({ type: "AUTH_SET_LOADING", payload: true });
+      emitEvent("login", { user, isGuest: false });
+    },
+    [emitEvent],
+  );
 
-    try {
-      // TODO: 실제 회원가입 API 구현
-      throw new Error("User registration is not yet implemented");
-    } catch (registerError) {
-      const errorMessage =
-        registerError instanceof Error
-          ? registerError.message
-          : "Registration failed";
-      dispatch({ type: "AUTH_SET_LOADING", payload: false });
-      dispatch({ type: "AUTH_LOGIN_FAILURE", payload: errorMessage });
-      throw new Error(errorMessage);
-    }
-  }, []);
+  const login = useCallback(
+    async (credentials: LoginRequest) => {
+      dispatch({ type: "AUTH_LOGIN_START" });
+
+      try {
+        const loginResponse = await authService.login(credentials);
+        applyAuthenticatedSession(loginResponse);
+      } catch (loginError) {
+        const errorMessage =
+          loginError instanceof Error ? loginError.message : "Login failed";
+        dispatch({
+          type: "AUTH_LOGIN_FAILURE",
+          payload: errorMessage,
+        });
+        emitEvent("login", { error: errorMessage });
+        throw new Error(errorMessage);
+      }
+    },
+    [emitEvent, applyAuthenticatedSession],
+  );
+
+  const register = useCallback(
+    async (data: RegisterRequest) => {
+      dispatch({ type: "AUTH_LOGIN_START" });
+
+      try {
+        const registerResponse = await authService.register(data);
+        applyAuthenticatedSession(registerResponse);
+      } catch (registerError) {
+        const errorMessage =
+          registerError instanceof Error
+            ? registerError.message
+            : "Registration failed";
+        dispatch({ type: "AUTH_LOGIN_FAILURE", payload: errorMessage });
+        throw new Error(errorMessage);
+      }
+    },
+    [applyAuthenticatedSession],
+  );
 
   const logout = useCallback(async () => {
     try {
@@ -304,20 +352,44 @@ export function AuthProvider({ children, initOptions }: AuthProviderProps) {
   }, [emitEvent]);
 
   // ================================
-  // 사용자 관리 메서드들 (미구현)
+  // 사용자 관리 메서드들
   // ================================
 
   const updateProfile = useCallback(async () => {
     throw new Error("Profile update is not yet implemented");
   }, []);
 
-  const changePassword = useCallback(async () => {
-    throw new Error("Password change is not yet implemented");
-  }, []);
+  const changePassword = useCallback(
+    async (data: PasswordChangeRequest) => {
+      // 서버가 기존 세션을 모두 폐기하고 새 토큰을 발급하므로 토큰 상태 교체
+      const changeResponse = await authService.changePassword(data);
 
-  const requestPasswordReset = useCallback(async () => {
-    throw new Error("Password reset is not yet implemented");
-  }, []);
+      dispatch({
+        type: "AUTH_TOKEN_REFRESH_SUCCESS",
+        payload: {
+          accessToken: changeResponse.accessToken,
+          expiresAt: Date.now() + changeResponse.expiresIn * 1000,
+        },
+      });
+
+      emitEvent("token_refreshed");
+    },
+    [emitEvent],
+  );
+
+  const requestPasswordReset = useCallback(
+    async (data: PasswordResetRequest) => {
+      await authService.requestPasswordReset(data);
+    },
+    [],
+  );
+
+  const confirmPasswordReset = useCallback(
+    async (data: PasswordResetConfirmRequest) => {
+      await authService.confirmPasswordReset(data);
+    },
+    [],
+  );
 
   // ================================
   // 권한 확인 메서드들
@@ -420,6 +492,7 @@ export function AuthProvider({ children, initOptions }: AuthProviderProps) {
     updateProfile,
     changePassword,
     requestPasswordReset,
+    confirmPasswordReset,
     hasPermission,
     canCreateTodos,
     canUpdateTodos,
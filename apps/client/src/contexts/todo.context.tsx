@@ -15,15 +15,38 @@ import type {
   Priority,
   CreateTodoRequest,
   UpdateTodoRequest,
+  Project,
+  TodoActivity,
+  TrashedTodo,
 } from "@vive/types";
-import { todoReducer, initialTodoState, todoSelectors } from "./todo.reducer";
+import {
+  compareByRank,
+  effectiveRank,
+  rankBetween,
+  RANK_REBALANCE_LENGTH,
+} from "@vive/types";
+import {
+  todoReducer,
+  initialTodoState,
+  todoSelectors,
+  resolveTodoAction,
+  CROSS_TAB_ACTION_TYPES,
+} from "./todo.reducer";
 import type { TodoState, TodoAction, ConnectionStatus } from "./todo.reducer";
 import {
   integratedStorage,
   storageUtils,
 } from "../services/integrated-storage.service";
-import { syncManager } from "../services/sync-manager";
+import {
+  syncManager,
+  type ConflictResolution,
+  type TodoConflict,
+} from "../services/sync-manager";
+import { tabCoordinator } from "../services/tab-coordinator";
+import { realtimeClient } from "../services/realtime-client";
+import { appConfig } from "../config/app-config";
 import { useAuthContext } from "./auth.context";
+import { getDueDateRange, isDueDateInRange } from "../utils/due-date";
 
 // 유틸리티 함수들
 function priorityOrder(priority: Priority): number {
@@ -44,6 +67,11 @@ function sortTodos(
   sortBy: TodoFilter["sortBy"],
   sortOrder: TodoFilter["sortOrder"],
 ): Todo[] {
+  // 수동 정렬은 rank 순서 그대로 (정렬 방향 무시)
+  if (sortBy === "manual") {
+    return [...todos].sort(compareByRank);
+  }
+
   const sorted = [...todos].sort((a, b) => {
     let compareValue = 0;
 
@@ -58,6 +86,14 @@ function sortTodos(
       case "title":
         compareValue = a.title.localeCompare(b.title);
         break;
+      case "dueDate":
+        // 마감일이 없는 항목은 정렬 방향과 관계없이 항상 뒤로
+        if (!a.dueDate || !b.dueDate) {
+          return (a.dueDate ? 0 : 1) - (b.dueDate ? 0 : 1);
+        }
+        compareValue =
+          new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+        break;
     }
 
     return sortOrder === "asc" ? compareValue : -compareValue;
@@ -78,6 +114,31 @@ function filterTodos(todos: Todo[], filterType: TodoFilter["type"]): Todo[] {
   }
 }
 
+function filterTodosByTag(todos: Todo[], tag: TodoFilter["tag"]): Todo[] {
+  if (!tag) {
+    return todos;
+  }
+
+  const tagKey = tag.toLowerCase();
+  return todos.filter((todo) =>
+    todo.tags?.some((todoTag) => todoTag.toLowerCase() === tagKey),
+  );
+}
+
+function filterTodosByDue(todos: Todo[], due: TodoFilter["due"]): Todo[] {
+  if (!due) {
+    return todos;
+  }
+
+  // 사용자 시간대 기준 (서버 GET /todos?due= 와 같은 범위)
+  const range = getDueDateRange(due);
+  return todos.filter(
+    (todo) =>
+      isDueDateInRange(todo.dueDate, range) &&
+      (due !== "overdue" || !todo.completed),
+  );
+}
+
 function calculateStats(todos: Todo[]): TodoStats {
   const total = todos.length;
   const completed = todos.filter((todo) => todo.completed).length;
@@ -118,6 +179,33 @@ interface TodoContextType {
   updateTodo: (id: string, updates: UpdateTodoRequest) => Promise<void>;
   deleteTodo: (id: string) => Promise<void>;
   toggleTodo: (id: string) => Promise<void>;
+  // 수동 정렬에서 previous와 next 사이로 옮김 (없으면 맨 앞/맨 뒤)
+  moveTodo: (id: string, previous?: Todo, next?: Todo) => Promise<void>;
+
+  // 체크리스트 액션 메서드들
+  loadChecklist: (todoId: string) => Promise<void>;
+  addChecklistItem: (todoId: string, title: string) => Promise<void>;
+  updateChecklistItem: (
+    todoId: string,
+    itemId: string,
+    changes: { title?: string; completed?: boolean },
+  ) => Promise<void>;
+  deleteChecklistItem: (todoId: string, itemId: string) => Promise<void>;
+  reorderChecklistItems: (todoId: string, itemIds: string[]) => Promise<void>;
+
+  // 활동 기록 조회 (상태에 담지 않고 결과를 바로 반환)
+  loadTodoActivity: (todoId: string) => Promise<TodoActivity[]>;
+
+  // 휴지통 (삭제 취소는 삭제 직전 사본을 넘기면 보내지 않은 삭제도 되돌림)
+  restoreTodo: (id: string, deletedTodo?: Todo) => Promise<boolean>;
+  loadTrash: () => Promise<TrashedTodo[]>;
+  purgeTodo: (id: string) => Promise<boolean>;
+
+  // 공유 프로젝트 (프로젝트를 고르면 목록/통계/CRUD가 그 프로젝트 Todo 대상)
+  activeProject: Project | null;
+  selectProject: (projectId?: string) => void;
+  loadProjects: () => Promise<void>;
+  createProject: (name: string) => Promise<void>;
 
   // 상태 관리
   setFilter: (filter: TodoFilter) => void;
@@ -135,11 +223,13 @@ interface TodoContextType {
   setConnectionStatus: (status: ConnectionStatus) => void;
   setOfflineMode: (enabled: boolean) => void;
 
-  // 충돌 해결
+  // 충돌 해결 (merged면 resolvedTodo를 서버에 저장)
   resolveConflict: (
     todoId: string,
-    resolution: "local" | "remote",
+    resolution: ConflictResolution,
+    resolvedTodo?: Todo,
   ) => Promise<void>;
+  resolveAllConflicts: (resolution: "local" | "remote") => Promise<void>;
 
   // 상태 선택자들 (편의 메서드)
   isOffline: boolean;
@@ -152,6 +242,32 @@ interface TodoContextType {
 
 const TodoContext = createContext<TodoContextType | undefined>(undefined);
 
+// 다른 탭에서 받은 액션 (다시 보내지 않음)
+const remoteActions = new WeakSet<TodoAction>();
+// 이 탭에서 처리한 액션과 다른 탭에 보낸 형태
+// (StrictMode 등으로 리듀서가 같은 액션에 두 번 호출돼도 한 번만 보내고 같은 결과를 냄)
+const resolvedActions = new WeakMap<TodoAction, TodoAction>();
+
+/**
+ * 모든 탭이 같아야 하는 액션을 다른 탭에도 보내는 리듀서
+ */
+function crossTabTodoReducer(state: TodoState, action: TodoAction): TodoState {
+  if (remoteActions.has(action)) {
+    return todoReducer(state, action);
+  }
+
+  let resolved = resolvedActions.get(action);
+  if (!resolved) {
+    resolved = resolveTodoAction(action);
+    resolvedActions.set(action, resolved);
+    if (CROSS_TAB_ACTION_TYPES.has(resolved.type)) {
+      tabCoordinator.post({ type: "todo_action", action: resolved });
+    }
+  }
+
+  return todoReducer(state, resolved);
+}
+
 interface TodoProviderProps {
   children: ReactNode;
   enableAutoSync?: boolean;
@@ -161,9 +277,15 @@ export function TodoProvider({
   children,
   enableAutoSync = true,
 }: TodoProviderProps) {
-  const [state, dispatch] = useReducer(todoReducer, initialTodoState);
+  const [state, dispatch] = useReducer(crossTabTodoReducer, initialTodoState);
   const { state: authState } = useAuthContext();
   const isInitialized = useRef(false);
+  // CRUD 콜백이 최신 공유 보기(프로젝트/나에게 할당됨)와 그 Todo를 보도록 보관
+  const sharedViewRef = useRef({
+    filter: state.filter,
+    todos: state.projectTodos,
+  });
+  sharedViewRef.current = { filter: state.filter, todos: state.projectTodos };
   // const _syncTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // ================================
@@ -184,6 +306,79 @@ export function TodoProvider({
     }
   }, [authState.isInitialized, authState.isAuthenticated]);
 
+  // TODO 목록이 바뀌면 태그 사용 횟수 다시 조회 (태그 필터 칩용, 프로젝트 보기면 프로젝트 태그)
+  useEffect(() => {
+    if (state.loading) {
+      return;
+    }
+
+    let cancelled = false;
+    integratedStorage.getTagUsage(state.filter.projectId).then((result) => {
+      if (!cancelled && result.data) {
+        dispatch({ type: "SET_TAG_USAGE", payload: result.data });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [state.todos, state.projectTodos, state.filter.projectId, state.loading]);
+
+  // 다른 탭의 TODO 변경을 이 탭에도 반영
+  useEffect(() => {
+    return tabCoordinator.subscribe((message) => {
+      if (message.type === "todo_action") {
+        remoteActions.add(message.action);
+        dispatch(message.action);
+      }
+    });
+  }, []);
+
+  // 다른 기기의 변경을 실시간으로 받아 반영 (로그인한 사용자의 리더 탭만 연결하고, 다른 탭에는 액션으로 전달)
+  // 연결되지 않은 동안에는 동기화 관리자의 주기적 동기화가 대신 변경을 가져옴
+  const canUseRealtime =
+    appConfig.features.apiMode &&
+    authState.isAuthenticated &&
+    !authState.isGuest;
+
+  useEffect(() => {
+    if (!canUseRealtime || !realtimeClient.isEnabled()) {
+      return;
+    }
+
+    const unsubscribeMessages = realtimeClient.subscribe(async (message) => {
+      try {
+        const changes = await syncManager.applyRealtimeChanges(message);
+        if (changes.todos.length > 0 || changes.deletedIds.length > 0) {
+          dispatch({ type: "APPLY_REMOTE_CHANGES", payload: changes });
+        }
+      } catch (error) {
+        console.error("Failed to apply realtime changes:", error);
+      }
+    });
+    const unsubscribeStatus = realtimeClient.onStatusChange((status) =>
+      syncManager.setRealtimeConnected(status === "connected"),
+    );
+
+    const followLeader = (isLeader: boolean) => {
+      if (isLeader) {
+        realtimeClient.connect();
+      } else {
+        realtimeClient.disconnect();
+      }
+    };
+    followLeader(tabCoordinator.isLeader());
+    const unsubscribeLeaderChange = tabCoordinator.onLeaderChange(followLeader);
+
+    return () => {
+      unsubscribeLeaderChange();
+      unsubscribeMessages();
+      unsubscribeStatus();
+      realtimeClient.disconnect();
+      syncManager.setRealtimeConnected(false);
+    };
+  }, [canUseRealtime]);
+
   // 동기화 관리자 이벤트 리스너 등록
   useEffect(() => {
     const handleSyncStart = () => {
@@ -210,6 +405,16 @@ export function TodoProvider({
       });
     };
 
+    // 필드 단위 병합으로 풀리지 않은 충돌만 보고됨
+    const handleSyncConflict = (
+      _event: string,
+      data: { conflicts?: TodoConflict[] },
+    ) => {
+      for (const conflict of data?.conflicts ?? []) {
+        dispatch({ type: "ADD_CONFLICTED_TODO", payload: conflict });
+      }
+    };
+
     const handleConnectionChange = (
       _event: string,
       data: { isOnline?: boolean },
@@ -223,12 +428,14 @@ export function TodoProvider({
     syncManager.addEventListener("sync_start", handleSyncStart);
     syncManager.addEventListener("sync_success", handleSyncSuccess);
     syncManager.addEventListener("sync_error", handleSyncError);
+    syncManager.addEventListener("sync_conflict", handleSyncConflict);
     syncManager.addEventListener("connection_change", handleConnectionChange);
 
     return () => {
       syncManager.removeEventListener("sync_start", handleSyncStart);
       syncManager.removeEventListener("sync_success", handleSyncSuccess);
       syncManager.removeEventListener("sync_error", handleSyncError);
+      syncManager.removeEventListener("sync_conflict", handleSyncConflict);
       syncManager.removeEventListener(
         "connection_change",
         handleConnectionChange,
@@ -268,14 +475,31 @@ export function TodoProvider({
   // 계산된 값들
   // ================================
 
+  // 현재 보기의 TODO (프로젝트를 골랐으면 프로젝트 Todo)
+  const scopedTodos = useMemo(
+    () => todoSelectors.getScopedTodos(state),
+    [state],
+  );
+
   const filteredTodos = useMemo(() => {
-    const filtered = filterTodos(state.todos, state.filter.type);
+    const filtered = filterTodosByDue(
+      filterTodosByTag(
+        filterTodos(scopedTodos, state.filter.type),
+        state.filter.tag,
+      ),
+      state.filter.due,
+    );
     return sortTodos(filtered, state.filter.sortBy, state.filter.sortOrder);
-  }, [state.todos, state.filter]);
+  }, [scopedTodos, state.filter]);
 
   const stats = useMemo(() => {
-    return calculateStats(state.todos);
-  }, [state.todos]);
+    return calculateStats(scopedTodos);
+  }, [scopedTodos]);
+
+  const activeProject = useMemo(
+    () => todoSelectors.getActiveProject(state),
+    [state],
+  );
 
   // 상태 선택자들
   const isOffline = useMemo(() => todoSelectors.isOffline(state), [state]);
@@ -294,49 +518,224 @@ export function TodoProvider({
     [state],
   );
 
+  // ================================
+  // 공유 프로젝트 메서드들 (서버에 바로 요청)
+  // ================================
+
+  const loadProjects = useCallback(async () => {
+    const result = await integratedStorage.getProjects();
+    if (result.data) {
+      dispatch({ type: "SET_PROJECTS", payload: result.data });
+    }
+  }, []);
+
+  /**
+   * 공유 보기의 Todo 조회 (나에게 할당됨이면 프로젝트를 가로질러, 아니면 고른 프로젝트)
+   */
+  const loadSharedTodos = useCallback(async () => {
+    const { projectId, assignedToMe, sortBy } = sharedViewRef.current.filter;
+    if (!projectId && !assignedToMe) {
+      return;
+    }
+
+    const result = assignedToMe
+      ? await integratedStorage.getAssignedTodos(projectId, sortBy)
+      : await integratedStorage.getProjectTodos(projectId as string, sortBy);
+
+    // 응답을 기다리는 동안 다른 보기로 바꿨으면 무시
+    const current = sharedViewRef.current.filter;
+    if (
+      current.projectId !== projectId ||
+      !!current.assignedToMe !== !!assignedToMe
+    ) {
+      return;
+    }
+
+    if (result.data) {
+      dispatch({ type: "SET_PROJECT_TODOS", payload: result.data });
+    } else {
+      dispatch({ type: "SET_PROJECT_TODOS", payload: [] });
+      dispatch({
+        type: "SET_ERROR",
+        payload: storageUtils.getErrorMessage(result),
+      });
+    }
+  }, []);
+
+  /**
+   * 프로젝트 Todo 변경 후 목록 다시 조회 (역할이 부족하면 서버가 거부하고 에러로 표시)
+   */
+  const mutateSharedTodos = useCallback(
+    async (mutation: () => Promise<{ success: boolean; error?: string }>) => {
+      dispatch({ type: "SET_ERROR", payload: null });
+
+      const result = await mutation();
+      if (!result.success) {
+        dispatch({
+          type: "SET_ERROR",
+          payload: result.error || "Project request failed",
+        });
+        return;
+      }
+
+      await loadSharedTodos();
+    },
+    [loadSharedTodos],
+  );
+
+  /**
+   * 공유 보기에서 Todo가 속한 프로젝트 (공유 보기가 아니면 undefined)
+   */
+  const findSharedProjectId = useCallback((id: string) => {
+    const { filter, todos } = sharedViewRef.current;
+    if (!filter.projectId && !filter.assignedToMe) {
+      return undefined;
+    }
+    return todos.find((todo) => todo.id === id)?.projectId ?? filter.projectId;
+  }, []);
+
+  const selectProject = useCallback(
+    (projectId?: string) => {
+      // 태그는 프로젝트마다 다르므로 태그 필터는 해제
+      dispatch({
+        type: "SET_FILTER",
+        payload: { ...state.filter, projectId, tag: undefined },
+      });
+    },
+    [state.filter],
+  );
+
+  const createProject = useCallback(
+    async (name: string) => {
+      dispatch({ type: "SET_ERROR", payload: null });
+
+      const result = await integratedStorage.createProject(name);
+      if (!storageUtils.isSuccess(result)) {
+        dispatch({
+          type: "SET_ERROR",
+          payload: storageUtils.getErrorMessage(result),
+        });
+        return;
+      }
+
+      await loadProjects();
+      selectProject(result.data.id);
+    },
+    [loadProjects, selectProject],
+  );
+
+  // 게스트는 공유 프로젝트를 쓸 수 없으므로 로그인한 사용자만 프로젝트 목록 조회
+  useEffect(() => {
+    if (authState.isAuthenticated && !authState.isGuest) {
+      loadProjects();
+    } else {
+      dispatch({ type: "SET_PROJECTS", payload: [] });
+    }
+  }, [authState.isAuthenticated, authState.isGuest, loadProjects]);
+
+  // 프로젝트를 고르거나 나에게 할당됨 보기로 바꾸면 공유 Todo 조회 (내 Todo 보기로 돌아오면 비움)
+  // 서버는 수동 정렬일 때만 순서가 달라지므로 수동 정렬을 켜고 끌 때도 다시 조회
+  const manualSort = state.filter.sortBy === "manual";
+  useEffect(() => {
+    if (state.filter.projectId || state.filter.assignedToMe) {
+      loadSharedTodos();
+    } else {
+      dispatch({ type: "SET_PROJECT_TODOS", payload: [] });
+    }
+  }, [
+    state.filter.projectId,
+    state.filter.assignedToMe,
+    manualSort,
+    loadSharedTodos,
+  ]);
+
+  // 프로젝트를 고르면 담당자 선택용 멤버 목록 조회
+  useEffect(() => {
+    const projectId = state.filter.projectId;
+    if (!projectId) {
+      dispatch({ type: "SET_PROJECT_MEMBERS", payload: [] });
+      return;
+    }
+
+    let cancelled = false;
+    integratedStorage.getProjectMembers(projectId).then((result) => {
+      if (!cancelled) {
+        dispatch({ type: "SET_PROJECT_MEMBERS", payload: result.data ?? [] });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [state.filter.projectId]);
+
   // ================================
   // CRUD 액션 메서드들 (통합 스토리지 사용)
   // ================================
 
-  const addTodo = useCallback(async (todoData: CreateTodoRequest) => {
-    dispatch({ type: "SET_LOADING", payload: true });
-    dispatch({ type: "SET_ERROR", payload: null });
+  const addTodo = useCallback(
+    async (todoData: CreateTodoRequest) => {
+      // 나에게 할당됨 보기에서 만든 프로젝트 Todo는 나에게 할당
+      const { projectId, assignedToMe } = sharedViewRef.current.filter;
+      if (projectId) {
+        const data =
+          assignedToMe && authState.user
+            ? { ...todoData, assigneeId: authState.user.id }
+            : todoData;
+        await mutateSharedTodos(() =>
+          integratedStorage.createProjectTodo(projectId, data),
+        );
+        return;
+      }
 
-    try {
-      const result = await integratedStorage.createTodo(todoData);
+      dispatch({ type: "SET_LOADING", payload: true });
+      dispatch({ type: "SET_ERROR", payload: null });
 
-      if (storageUtils.isSuccess(result)) {
-        if (result.isOptimistic) {
-          // 낙관적 업데이트
-          dispatch({ type: "OPTIMISTIC_ADD_TODO", payload: result.data });
-          if (result.operationId) {
-            dispatch({
-              type: "ADD_PENDING_OPERATION",
-              payload: {
-                type: "create",
-                todoId: result.data.id,
-                data: todoData,
-              },
-            });
+      try {
+        const result = await integratedStorage.createTodo(todoData);
+
+        if (storageUtils.isSuccess(result)) {
+          if (result.isOptimistic) {
+            // 낙관적 업데이트
+            dispatch({ type: "OPTIMISTIC_ADD_TODO", payload: result.data });
+            if (result.operationId) {
+              dispatch({
+                type: "ADD_PENDING_OPERATION",
+                payload: {
+                  type: "create",
+                  todoId: result.data.id,
+                  data: todoData,
+                },
+              });
+            }
+          } else {
+            // 서버 확정 응답
+            dispatch({ type: "ADD_TODO", payload: todoData });
           }
         } else {
-          // 서버 확정 응답
-          dispatch({ type: "ADD_TODO", payload: todoData });
+          throw new Error(storageUtils.getErrorMessage(result));
         }
-      } else {
-        throw new Error(storageUtils.getErrorMessage(result));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to add todo";
+        dispatch({ type: "SET_ERROR", payload: errorMessage });
+      } finally {
+        dispatch({ type: "SET_LOADING", payload: false });
       }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Failed to add todo";
-      dispatch({ type: "SET_ERROR", payload: errorMessage });
-    } finally {
-      dispatch({ type: "SET_LOADING", payload: false });
-    }
-  }, []);
+    },
+    [mutateSharedTodos, authState.user],
+  );
 
   const updateTodo = useCallback(
     async (id: string, updates: UpdateTodoRequest) => {
+      const projectId = findSharedProjectId(id);
+      if (projectId) {
+        await mutateSharedTodos(() =>
+          integratedStorage.updateProjectTodo(projectId, id, updates),
+        );
+        return;
+      }
+
       dispatch({ type: "SET_ERROR", payload: null });
 
       try {
@@ -355,6 +754,11 @@ export function TodoProvider({
           } else {
             // 서버 확정 응답
             dispatch({ type: "UPDATE_TODO", payload: result.data });
+
+            // 반복 Todo를 완료하면 서버가 다음 회차를 만들므로 목록 다시 로드
+            if (updates.completed && result.data.nextOccurrenceId) {
+              await loadTodos();
+            }
           }
         } else {
           throw new Error(storageUtils.getErrorMessage(result));
@@ -365,42 +769,53 @@ export function TodoProvider({
         dispatch({ type: "SET_ERROR", payload: errorMessage });
       }
     },
-    [],
+    [mutateSharedTodos, findSharedProjectId],
   );
 
-  const deleteTodo = useCallback(async (id: string) => {
-    dispatch({ type: "SET_ERROR", payload: null });
+  const deleteTodo = useCallback(
+    async (id: string) => {
+      const projectId = findSharedProjectId(id);
+      if (projectId) {
+        await mutateSharedTodos(() =>
+          integratedStorage.deleteProjectTodo(projectId, id),
+        );
+        return;
+      }
 
-    try {
-      const result = await integratedStorage.deleteTodo(id);
-
-      if (result.success || result.isOptimistic) {
-        if (result.isOptimistic) {
-          // 낙관적 업데이트 (이미 삭제됨)
-          dispatch({ type: "OPTIMISTIC_DELETE_TODO", payload: id });
-          if (result.operationId) {
-            dispatch({
-              type: "ADD_PENDING_OPERATION",
-              payload: { type: "delete", todoId: id },
-            });
+      dispatch({ type: "SET_ERROR", payload: null });
+
+      try {
+        const result = await integratedStorage.deleteTodo(id);
+
+        if (result.success || result.isOptimistic) {
+          if (result.isOptimistic) {
+            // 낙관적 업데이트 (이미 삭제됨)
+            dispatch({ type: "OPTIMISTIC_DELETE_TODO", payload: id });
+            if (result.operationId) {
+              dispatch({
+                type: "ADD_PENDING_OPERATION",
+                payload: { type: "delete", todoId: id },
+              });
+            }
+          } else {
+            // 서버 확정 응답
+            dispatch({ type: "DELETE_TODO", payload: id });
           }
         } else {
-          // 서버 확정 응답
-          dispatch({ type: "DELETE_TODO", payload: id });
+          throw new Error(storageUtils.getErrorMessage(result));
         }
-      } else {
-        throw new Error(storageUtils.getErrorMessage(result));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to delete todo";
+        dispatch({ type: "SET_ERROR", payload: errorMessage });
       }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Failed to delete todo";
-      dispatch({ type: "SET_ERROR", payload: errorMessage });
-    }
-  }, []);
+    },
+    [mutateSharedTodos, findSharedProjectId],
+  );
 
   const toggleTodo = useCallback(
     async (id: string) => {
-      const todo = state.todos.find((t) => t.id === id);
+      const todo = scopedTodos.find((t) => t.id === id);
       if (!todo) {
         dispatch({ type: "SET_ERROR", payload: "Todo not found" });
         return;
@@ -408,7 +823,228 @@ export function TodoProvider({
 
       await updateTodo(id, { completed: !todo.completed });
     },
-    [state.todos, updateTodo],
+    [scopedTodos, updateTodo],
+  );
+
+  const moveTodo = useCallback(
+    async (id: string, previous?: Todo, next?: Todo) => {
+      const rank = rankBetween(
+        previous ? effectiveRank(previous) : null,
+        next ? effectiveRank(next) : null,
+      );
+
+      // 옮긴 위치를 먼저 보여 주고, 저장은 일반 수정과 같은 경로(오프라인이면 대기 작업)로 처리
+      dispatch({ type: "MOVE_TODO", payload: { id, rank } });
+      await updateTodo(id, { rank });
+
+      // 긴 rank를 저장하면 서버가 목록 전체의 rank를 다시 매기므로 목록 다시 로드
+      if (rank.length > RANK_REBALANCE_LENGTH) {
+        await loadTodos();
+      }
+    },
+    [updateTodo],
+  );
+
+  // ================================
+  // 활동 기록
+  // ================================
+
+  const loadTodoActivity = useCallback(
+    async (todoId: string) => {
+      const result = await integratedStorage.getTodoActivity(
+        todoId,
+        findSharedProjectId(todoId),
+      );
+
+      if (result.error) {
+        dispatch({ type: "ADD_SYNC_ERROR", payload: result.error });
+      }
+      return result.data ?? [];
+    },
+    [findSharedProjectId],
+  );
+
+  // ================================
+  // 휴지통
+  // ================================
+
+  const restoreTodo = useCallback(
+    async (id: string, deletedTodo?: Todo) => {
+      const projectId = deletedTodo?.projectId ?? findSharedProjectId(id);
+      if (projectId) {
+        const result = await integratedStorage.restoreProjectTodo(
+          projectId,
+          id,
+        );
+        if (!result.success) {
+          dispatch({
+            type: "SET_ERROR",
+            payload: storageUtils.getErrorMessage(result),
+          });
+          return false;
+        }
+        await loadSharedTodos();
+        return true;
+      }
+
+      const result = await integratedStorage.restoreTodo(id, deletedTodo);
+      if (!result.success || !result.data) {
+        dispatch({
+          type: "SET_ERROR",
+          payload: storageUtils.getErrorMessage(result),
+        });
+        return false;
+      }
+
+      dispatch({ type: "RESTORE_TODO", payload: result.data });
+      return true;
+    },
+    [findSharedProjectId, loadSharedTodos],
+  );
+
+  const loadTrash = useCallback(async () => {
+    const result = await integratedStorage.getTrash(
+      sharedViewRef.current.filter.projectId,
+    );
+
+    if (result.error) {
+      dispatch({ type: "ADD_SYNC_ERROR", payload: result.error });
+    }
+    return result.data ?? [];
+  }, []);
+
+  const purgeTodo = useCallback(async (id: string) => {
+    const result = await integratedStorage.purgeTodo(
+      id,
+      sharedViewRef.current.filter.projectId,
+    );
+
+    if (!result.success) {
+      dispatch({
+        type: "SET_ERROR",
+        payload: storageUtils.getErrorMessage(result),
+      });
+      return false;
+    }
+    return true;
+  }, []);
+
+  // ================================
+  // 체크리스트 액션 메서드들
+  // ================================
+
+  const loadChecklist = useCallback(async (todoId: string) => {
+    const result = await integratedStorage.getChecklistItems(todoId);
+
+    if (result.data) {
+      dispatch({
+        type: "SET_CHECKLIST_ITEMS",
+        payload: { todoId, items: result.data },
+      });
+    }
+    if (result.error) {
+      dispatch({ type: "ADD_SYNC_ERROR", payload: result.error });
+    }
+  }, []);
+
+  const addChecklistItem = useCallback(
+    async (todoId: string, title: string) => {
+      dispatch({ type: "SET_ERROR", payload: null });
+
+      const result = await integratedStorage.addChecklistItem(todoId, title);
+
+      if (storageUtils.isSuccess(result)) {
+        dispatch({
+          type: "ADD_CHECKLIST_ITEM",
+          payload: { todoId, item: result.data },
+        });
+      } else {
+        dispatch({
+          type: "SET_ERROR",
+          payload: storageUtils.getErrorMessage(result),
+        });
+      }
+    },
+    [],
+  );
+
+  const updateChecklistItem = useCallback(
+    async (
+      todoId: string,
+      itemId: string,
+      changes: { title?: string; completed?: boolean },
+    ) => {
+      dispatch({ type: "SET_ERROR", payload: null });
+
+      const result = await integratedStorage.updateChecklistItem(
+        todoId,
+        itemId,
+        changes,
+      );
+
+      if (storageUtils.isSuccess(result)) {
+        dispatch({
+          type: "UPDATE_CHECKLIST_ITEM",
+          payload: { todoId, item: result.data },
+        });
+      } else {
+        dispatch({
+          type: "SET_ERROR",
+          payload: storageUtils.getErrorMessage(result),
+        });
+      }
+    },
+    [],
+  );
+
+  const deleteChecklistItem = useCallback(
+    async (todoId: string, itemId: string) => {
+      dispatch({ type: "SET_ERROR", payload: null });
+
+      const result = await integratedStorage.deleteChecklistItem(
+        todoId,
+        itemId,
+      );
+
+      if (result.success) {
+        dispatch({
+          type: "DELETE_CHECKLIST_ITEM",
+          payload: { todoId, itemId },
+        });
+      } else {
+        dispatch({
+          type: "SET_ERROR",
+          payload: storageUtils.getErrorMessage(result),
+        });
+      }
+    },
+    [],
+  );
+
+  const reorderChecklistItems = useCallback(
+    async (todoId: string, itemIds: string[]) => {
+      dispatch({ type: "SET_ERROR", payload: null });
+
+      // 드래그 결과를 바로 보여주고, 실패하면 저장된 목록으로 되돌림
+      dispatch({
+        type: "REORDER_CHECKLIST_ITEMS",
+        payload: { todoId, itemIds },
+      });
+
+      const result = await integratedStorage.reorderChecklistItems(
+        todoId,
+        itemIds,
+      );
+
+      if (!result.success) {
+        dispatch({
+          type: "SET_ERROR",
+          payload: storageUtils.getErrorMessage(result),
+        });
+        await loadChecklist(todoId);
+      }
+    },
+    [loadChecklist],
   );
 
   // ================================
@@ -513,18 +1149,28 @@ export function TodoProvider({
   // ================================
 
   const resolveConflict = useCallback(
-    async (todoId: string, resolution: "local" | "remote") => {
-      void resolution; // 현재 미구현으로 사용되지 않음
-      const conflict = state.conflictedTodos.find((c) => c.id === todoId);
+    async (
+      todoId: string,
+      resolution: ConflictResolution,
+      resolvedTodo?: Todo,
+    ) => {
+      const conflict = state.conflictedTodos.find((c) => c.todoId === todoId);
       if (!conflict) {
         return;
       }
 
       try {
-        // TODO: syncManager.resolveConflict 구현 필요
-        // const success = await syncManager.resolveConflict(todoId, resolution, conflict);
+        const success = await syncManager.resolveConflict(
+          todoId,
+          resolution,
+          conflict,
+          resolvedTodo,
+        );
+        if (!success) {
+          // 서버가 그 사이 또 바뀐 경우 새 서버 사본으로 충돌이 다시 보고됨
+          throw new Error("충돌을 해결하지 못했습니다. 다시 시도해주세요.");
+        }
 
-        // 임시로 충돌 제거
         dispatch({ type: "RESOLVE_CONFLICTED_TODO", payload: todoId });
 
         // 데이터 다시 로드
@@ -535,7 +1181,38 @@ export function TodoProvider({
         dispatch({ type: "SET_ERROR", payload: errorMessage });
       }
     },
-    [state.conflictedTodos],
+    [state.conflictedTodos, loadTodos],
+  );
+
+  // 모든 충돌을 같은 방법으로 한 번에 해결 (삭제 충돌은 local이면 서버에 복원, remote면 로컬에서 버림)
+  const resolveAllConflicts = useCallback(
+    async (resolution: "local" | "remote") => {
+      const failed: string[] = [];
+      for (const conflict of state.conflictedTodos) {
+        const success = await syncManager.resolveConflict(
+          conflict.todoId,
+          resolution,
+          conflict,
+        );
+        if (success) {
+          dispatch({
+            type: "RESOLVE_CONFLICTED_TODO",
+            payload: conflict.todoId,
+          });
+        } else {
+          failed.push(conflict.todoId);
+        }
+      }
+
+      await loadTodos();
+      if (failed.length > 0) {
+        dispatch({
+          type: "SET_ERROR",
+          payload: `${failed.length}개의 충돌을 해결하지 못했습니다. 다시 시도해주세요.`,
+        });
+      }
+    },
+    [state.conflictedTodos, loadTodos],
   );
 
   // ================================
@@ -551,6 +1228,20 @@ export function TodoProvider({
     updateTodo,
     deleteTodo,
     toggleTodo,
+    moveTodo,
+    loadChecklist,
+    addChecklistItem,
+    updateChecklistItem,
+    deleteChecklistItem,
+    reorderChecklistItems,
+    loadTodoActivity,
+    restoreTodo,
+    loadTrash,
+    purgeTodo,
+    activeProject,
+    selectProject,
+    loadProjects,
+    createProject,
     setFilter,
     loadTodos,
     clearTodos,
@@ -562,6 +1253,7 @@ export function TodoProvider({
     setConnectionStatus,
     setOfflineMode,
     resolveConflict,
+    resolveAllConflicts,
     isOffline,
     isSyncing,
     needsSync,
@@ -1,6 +1,6 @@
 import { describe, it, expect } from "vitest";
-import type { Todo, Priority } from "@vive/types";
-import { todoReducer } from "./todo.reducer";
+import type { Todo, Priority, ChecklistItem } from "@vive/types";
+import { todoReducer, resolveTodoAction, todoSelectors } from "./todo.reducer";
 import type { TodoState, TodoAction } from "./todo.reducer";
 
 describe("todoReducer", () => {
@@ -20,6 +20,10 @@ describe("todoReducer", () => {
     isOfflineMode: false,
     conflictedTodos: [],
     syncErrors: [],
+    tagUsage: [],
+    projects: [],
+    projectTodos: [],
+    projectMembers: [],
   };
 
   const mockTodo: Todo = {
@@ -151,6 +155,62 @@ describe("todoReducer", () => {
     });
   });
 
+  describe("RESTORE_TODO", () => {
+    it("should add the restored todo back", () => {
+      const action: TodoAction = { type: "RESTORE_TODO", payload: mockTodo };
+
+      const newState = todoReducer(initialState, action);
+
+      expect(newState.todos).toEqual([mockTodo]);
+    });
+
+    it("should replace a todo that is already back in the list", () => {
+      const stateWithTodo: TodoState = {
+        ...initialState,
+        todos: [{ ...mockTodo, title: "Stale Title" }],
+      };
+      const restored = { ...mockTodo, version: 3 };
+
+      const newState = todoReducer(stateWithTodo, {
+        type: "RESTORE_TODO",
+        payload: restored,
+      });
+
+      expect(newState.todos).toEqual([restored]);
+    });
+
+    it("should drop the queued delete for the restored todo", () => {
+      const stateWithPendingDelete = todoReducer(initialState, {
+        type: "ADD_PENDING_OPERATION",
+        payload: { type: "delete", todoId: mockTodo.id },
+      });
+
+      const newState = todoReducer(stateWithPendingDelete, {
+        type: "RESTORE_TODO",
+        payload: mockTodo,
+      });
+
+      expect(newState.pendingOperations).toEqual([]);
+    });
+  });
+
+  describe("MOVE_TODO", () => {
+    it("should only change the rank of the moved todo", () => {
+      const otherTodo = { ...mockTodo, id: "2", rank: "a" };
+      const stateWithTodos: TodoState = {
+        ...initialState,
+        todos: [mockTodo, otherTodo],
+      };
+
+      const newState = todoReducer(stateWithTodos, {
+        type: "MOVE_TODO",
+        payload: { id: "1", rank: "V" },
+      });
+
+      expect(newState.todos).toEqual([{ ...mockTodo, rank: "V" }, otherTodo]);
+    });
+  });
+
   describe("TOGGLE_TODO", () => {
     it("should toggle completed status of a todo", () => {
       const stateWithTodo: TodoState = {
@@ -310,6 +370,240 @@ describe("todoReducer", () => {
     });
   });
 
+  describe("APPLY_REMOTE_CHANGES", () => {
+    it("should replace, add and remove todos changed on another device", () => {
+      const stateWithTodos: TodoState = {
+        ...initialState,
+        todos: [mockTodo, { ...mockTodo, id: "2" }],
+      };
+      const completedTodo = { ...mockTodo, completed: true };
+      const newTodo = { ...mockTodo, id: "3", title: "From phone" };
+
+      const newState = todoReducer(stateWithTodos, {
+        type: "APPLY_REMOTE_CHANGES",
+        payload: { todos: [completedTodo, newTodo], deletedIds: ["2"] },
+      });
+
+      expect(newState.todos).toEqual([completedTodo, newTodo]);
+    });
+  });
+
+  describe("SET_TAG_USAGE", () => {
+    it("should replace tag usage", () => {
+      const action: TodoAction = {
+        type: "SET_TAG_USAGE",
+        payload: [
+          { tag: "work", count: 2 },
+          { tag: "home", count: 1 },
+        ],
+      };
+
+      const newState = todoReducer(initialState, action);
+
+      expect(newState.tagUsage).toEqual(action.payload);
+    });
+  });
+
+  describe("project actions", () => {
+    it("should keep project todos apart from personal todos", () => {
+      const projectTodo = { ...mockTodo, id: "p1", projectId: "project-1" };
+      let state = todoReducer(
+        { ...initialState, todos: [mockTodo] },
+        {
+          type: "SET_PROJECTS",
+          payload: [{ id: "project-1", name: "릴리스", role: "editor" }],
+        },
+      );
+      state = todoReducer(state, {
+        type: "SET_PROJECT_TODOS",
+        payload: [projectTodo],
+      });
+
+      expect(todoSelectors.getScopedTodos(state)).toEqual([mockTodo]);
+      expect(todoSelectors.getActiveProject(state)).toBeNull();
+
+      const projectView = todoReducer(state, {
+        type: "SET_FILTER",
+        payload: { ...state.filter, projectId: "project-1" },
+      });
+
+      expect(todoSelectors.getScopedTodos(projectView)).toEqual([projectTodo]);
+      expect(todoSelectors.getActiveProject(projectView)?.role).toBe("editor");
+    });
+
+    it("should show shared todos in the assigned-to-me view", () => {
+      const assignedTodo = {
+        ...mockTodo,
+        id: "p2",
+        projectId: "project-2",
+        assigneeId: "user-1",
+      };
+      const state = todoReducer(
+        {
+          ...initialState,
+          todos: [mockTodo],
+          filter: { ...initialState.filter, assignedToMe: true },
+        },
+        { type: "SET_PROJECT_TODOS", payload: [assignedTodo] },
+      );
+
+      expect(todoSelectors.isSharedView(state)).toBe(true);
+      expect(todoSelectors.getScopedTodos(state)).toEqual([assignedTodo]);
+    });
+  });
+
+  describe("checklist actions", () => {
+    const createItem = (
+      id: string,
+      position: number,
+      completed = false,
+    ): ChecklistItem => ({
+      id,
+      todoId: mockTodo.id,
+      title: `Item ${id}`,
+      completed,
+      position,
+    });
+
+    const stateWithTodo: TodoState = { ...initialState, todos: [mockTodo] };
+
+    it("should set checklist items sorted by position with progress", () => {
+      const newState = todoReducer(stateWithTodo, {
+        type: "SET_CHECKLIST_ITEMS",
+        payload: {
+          todoId: mockTodo.id,
+          items: [createItem("b", 1, true), createItem("a", 0)],
+        },
+      });
+
+      expect(newState.todos[0].checklist?.map((item) => item.id)).toEqual([
+        "a",
+        "b",
+      ]);
+      expect(newState.todos[0].checklistProgress).toEqual({
+        completed: 1,
+        total: 2,
+      });
+    });
+
+    it("should add, update and delete items keeping progress in sync", () => {
+      let state = todoReducer(stateWithTodo, {
+        type: "ADD_CHECKLIST_ITEM",
+        payload: { todoId: mockTodo.id, item: createItem("a", 0) },
+      });
+      state = todoReducer(state, {
+        type: "ADD_CHECKLIST_ITEM",
+        payload: { todoId: mockTodo.id, item: createItem("b", 1) },
+      });
+      expect(state.todos[0].checklistProgress).toEqual({
+        completed: 0,
+        total: 2,
+      });
+
+      state = todoReducer(state, {
+        type: "UPDATE_CHECKLIST_ITEM",
+        payload: { todoId: mockTodo.id, item: createItem("a", 0, true) },
+      });
+      expect(state.todos[0].checklistProgress).toEqual({
+        completed: 1,
+        total: 2,
+      });
+
+      state = todoReducer(state, {
+        type: "DELETE_CHECKLIST_ITEM",
+        payload: { todoId: mockTodo.id, itemId: "a" },
+      });
+      expect(state.todos[0].checklist).toHaveLength(1);
+      expect(state.todos[0].checklistProgress).toEqual({
+        completed: 0,
+        total: 1,
+      });
+    });
+
+    it("should clear progress when the last item is deleted", () => {
+      const state = todoReducer(
+        {
+          ...initialState,
+          todos: [{ ...mockTodo, checklist: [createItem("a", 0)] }],
+        },
+        {
+          type: "DELETE_CHECKLIST_ITEM",
+          payload: { todoId: mockTodo.id, itemId: "a" },
+        },
+      );
+
+      expect(state.todos[0].checklist).toEqual([]);
+      expect(state.todos[0].checklistProgress).toBeUndefined();
+    });
+
+    it("should reorder items by the given ids", () => {
+      const state = todoReducer(
+        {
+          ...initialState,
+          todos: [
+            {
+              ...mockTodo,
+              checklist: [
+                createItem("a", 0),
+                createItem("b", 1),
+                createItem("c", 2),
+              ],
+            },
+          ],
+        },
+        {
+          type: "REORDER_CHECKLIST_ITEMS",
+          payload: { todoId: mockTodo.id, itemIds: ["c", "a", "b"] },
+        },
+      );
+
+      expect(state.todos[0].checklist?.map((item) => item.id)).toEqual([
+        "c",
+        "a",
+        "b",
+      ]);
+      expect(state.todos[0].checklist?.map((item) => item.position)).toEqual([
+        0, 1, 2,
+      ]);
+    });
+
+    it("should not touch other todos", () => {
+      const otherTodo: Todo = { ...mockTodo, id: "2" };
+      const state = todoReducer(
+        { ...initialState, todos: [mockTodo, otherTodo] },
+        {
+          type: "ADD_CHECKLIST_ITEM",
+          payload: { todoId: mockTodo.id, item: createItem("a", 0) },
+        },
+      );
+
+      expect(state.todos[1]).toBe(otherTodo);
+    });
+  });
+
+  describe("resolveTodoAction", () => {
+    it("should turn ADD_TODO into an add with a fixed id", () => {
+      const resolved = resolveTodoAction({
+        type: "ADD_TODO",
+        payload: { title: "New Todo", priority: "high" },
+      });
+
+      expect(resolved.type).toBe("OPTIMISTIC_ADD_TODO");
+      const first = todoReducer(initialState, resolved);
+      const second = todoReducer(initialState, resolved);
+      expect(first.todos[0].id).toBe(second.todos[0].id);
+      expect(first.todos[0]).toEqual(
+        expect.objectContaining({ title: "New Todo", completed: false }),
+      );
+    });
+
+    it("should keep other actions unchanged", () => {
+      const action: TodoAction = { type: "DELETE_TODO", payload: "1" };
+
+      expect(resolveTodoAction(action)).toBe(action);
+    });
+  });
+
   describe("default case", () => {
     it("should return current state for unknown action", () => {
       const unknownAction = {
@@ -1,17 +1,38 @@
-import type { Todo, TodoFilter } from "@vive/types";
+import type {
+  Todo,
+  TodoFilter,
+  TagUsage,
+  ChecklistItem,
+  Project,
+  ProjectMember,
+} from "@vive/types";
+import type { TodoConflict } from "../services/sync-manager";
 
 /**
  * 대기 중인 작업 (낙관적 업데이트용)
  */
 export interface PendingOperation {
   id: string;
-  type: "create" | "update" | "delete";
+  type: "create" | "update" | "delete" | "checklist";
   todoId: string;
   timestamp: Date;
   retryCount: number;
   data?: unknown;
 }
 
+/**
+ * 체크리스트 대기 작업 데이터 ("checklist" 타입 PendingOperation의 data)
+ */
+export type ChecklistOperation =
+  | { action: "create"; itemId: string; title: string; completed: boolean }
+  | {
+      action: "update";
+      itemId: string;
+      changes: { title?: string; completed?: boolean };
+    }
+  | { action: "delete"; itemId: string }
+  | { action: "reorder"; itemIds: string[] };
+
 /**
  * 동기화 상태
  */
@@ -40,8 +61,14 @@ export interface TodoState {
 
   // 추가 메타데이터
   isOfflineMode: boolean;
-  conflictedTodos: Todo[]; // 충돌이 발생한 TODO들
+  conflictedTodos: TodoConflict[]; // 충돌이 발생한 TODO들 (로컬/서버 사본 포함)
   syncErrors: string[]; // 동기화 오류 목록
+  tagUsage: TagUsage[]; // 태그별 사용 횟수 (태그 필터 칩용)
+
+  // 공유 프로젝트 (서버에서만 조회하며 로컬 저장/동기화 대상 아님)
+  projects: Project[]; // 내가 속한 프로젝트와 내 역할
+  projectTodos: Todo[]; // filter.projectId 프로젝트 또는 나에게 할당된(filter.assignedToMe) Todo
+  projectMembers: ProjectMember[]; // filter.projectId 프로젝트의 멤버 (담당자 선택용)
 }
 
 /**
@@ -55,6 +82,8 @@ export type TodoAction =
     }
   | { type: "UPDATE_TODO"; payload: Todo }
   | { type: "DELETE_TODO"; payload: string }
+  | { type: "RESTORE_TODO"; payload: Todo }
+  | { type: "MOVE_TODO"; payload: { id: string; rank: string } }
   | { type: "TOGGLE_TODO"; payload: string }
   | { type: "SET_FILTER"; payload: TodoFilter }
   | { type: "SET_LOADING"; payload: boolean }
@@ -70,6 +99,10 @@ export type TodoAction =
     }
   | { type: "SYNC_ERROR"; payload: string }
   | { type: "SET_SYNC_STATUS"; payload: SyncStatus }
+  | {
+      type: "APPLY_REMOTE_CHANGES";
+      payload: { todos: Todo[]; deletedIds: string[] };
+    }
   | {
       type: "ADD_PENDING_OPERATION";
       payload: Omit<PendingOperation, "id" | "timestamp" | "retryCount">;
@@ -82,11 +115,39 @@ export type TodoAction =
   | { type: "CLEAR_PENDING_OPERATIONS" }
   | { type: "SET_CONNECTION_STATUS"; payload: ConnectionStatus }
   | { type: "SET_OFFLINE_MODE"; payload: boolean }
-  | { type: "ADD_CONFLICTED_TODO"; payload: Todo }
+  | { type: "ADD_CONFLICTED_TODO"; payload: TodoConflict }
   | { type: "RESOLVE_CONFLICTED_TODO"; payload: string }
   | { type: "CLEAR_CONFLICTED_TODOS" }
   | { type: "ADD_SYNC_ERROR"; payload: string }
   | { type: "CLEAR_SYNC_ERRORS" }
+  | { type: "SET_TAG_USAGE"; payload: TagUsage[] }
+
+  // 공유 프로젝트 관련
+  | { type: "SET_PROJECTS"; payload: Project[] }
+  | { type: "SET_PROJECT_TODOS"; payload: Todo[] }
+  | { type: "SET_PROJECT_MEMBERS"; payload: ProjectMember[] }
+
+  // 체크리스트 관련
+  | {
+      type: "SET_CHECKLIST_ITEMS";
+      payload: { todoId: string; items: ChecklistItem[] };
+    }
+  | {
+      type: "ADD_CHECKLIST_ITEM";
+      payload: { todoId: string; item: ChecklistItem };
+    }
+  | {
+      type: "UPDATE_CHECKLIST_ITEM";
+      payload: { todoId: string; item: ChecklistItem };
+    }
+  | {
+      type: "DELETE_CHECKLIST_ITEM";
+      payload: { todoId: string; itemId: string };
+    }
+  | {
+      type: "REORDER_CHECKLIST_ITEMS";
+      payload: { todoId: string; itemIds: string[] };
+    }
 
   // 낙관적 업데이트 관련
   | { type: "OPTIMISTIC_ADD_TODO"; payload: Todo }
@@ -121,27 +182,114 @@ const extendedInitialState: TodoState = {
   isOfflineMode: false,
   conflictedTodos: [],
   syncErrors: [],
+  tagUsage: [],
+  projects: [],
+  projectTodos: [],
+  projectMembers: [],
 };
 
+/**
+ * 체크리스트 항목을 표시 순서대로 정렬해 TODO에 반영 (진행률도 함께 재계산)
+ */
+export function withChecklistItems(todo: Todo, items: ChecklistItem[]): Todo {
+  const checklist = [...items].sort((a, b) => a.position - b.position);
+  return {
+    ...todo,
+    checklist,
+    checklistProgress:
+      checklist.length > 0
+        ? {
+            completed: checklist.filter((item) => item.completed).length,
+            total: checklist.length,
+          }
+        : undefined,
+  };
+}
+
+/**
+ * 특정 TODO의 체크리스트만 변경
+ */
+function updateChecklist(
+  state: TodoState,
+  todoId: string,
+  update: (items: ChecklistItem[]) => ChecklistItem[],
+): TodoState {
+  return {
+    ...state,
+    todos: state.todos.map((todo) =>
+      todo.id === todoId
+        ? withChecklistItems(todo, update(todo.checklist ?? []))
+        : todo,
+    ),
+  };
+}
+
+/**
+ * ADD_TODO 페이로드로 새 TODO 생성
+ */
+function createTodo(
+  payload: Extract<TodoAction, { type: "ADD_TODO" }>["payload"],
+): Todo {
+  return {
+    ...payload,
+    id: crypto.randomUUID(),
+    completed: false,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * 다른 탭에도 반영하는 액션 (TODO 데이터, 체크리스트, 충돌 해결처럼 모든 탭이 같아야 하는 상태)
+ * - 필터, 로딩, 연결 상태처럼 탭마다 따로 두는 상태는 제외
+ * - 동기화 상태와 충돌 추가는 리더 탭의 동기화 이벤트로 전달되므로 제외
+ * - 대기 작업은 추가할 때 탭마다 다른 ID가 만들어지므로 제외 (동기화에 성공하면 함께 정리됨)
+ */
+export const CROSS_TAB_ACTION_TYPES = new Set<TodoAction["type"]>([
+  "UPDATE_TODO",
+  "DELETE_TODO",
+  "RESTORE_TODO",
+  "MOVE_TODO",
+  "TOGGLE_TODO",
+  "LOAD_TODOS",
+  "CLEAR_TODOS",
+  "APPLY_REMOTE_CHANGES",
+  "RESOLVE_CONFLICTED_TODO",
+  "CLEAR_CONFLICTED_TODOS",
+  "CLEAR_SYNC_ERRORS",
+  "SET_CHECKLIST_ITEMS",
+  "ADD_CHECKLIST_ITEM",
+  "UPDATE_CHECKLIST_ITEM",
+  "DELETE_CHECKLIST_ITEM",
+  "REORDER_CHECKLIST_ITEMS",
+  "OPTIMISTIC_ADD_TODO",
+  "OPTIMISTIC_UPDATE_TODO",
+  "OPTIMISTIC_DELETE_TODO",
+  "ROLLBACK_OPTIMISTIC_OPERATION",
+]);
+
+/**
+ * 리듀서 안에서 ID를 새로 만드는 액션을 값이 정해진 액션으로 변환
+ * (다른 탭에 보낸 액션이 모든 탭에서 같은 TODO를 만들도록)
+ */
+export function resolveTodoAction(action: TodoAction): TodoAction {
+  if (action.type === "ADD_TODO") {
+    return { type: "OPTIMISTIC_ADD_TODO", payload: createTodo(action.payload) };
+  }
+  return action;
+}
+
 export function todoReducer(state: TodoState, action: TodoAction): TodoState {
   switch (action.type) {
     // ================================
     // 기존 TODO CRUD 액션들
     // ================================
 
-    case "ADD_TODO": {
-      const newTodo: Todo = {
-        ...action.payload,
-        id: crypto.randomUUID(),
-        completed: false,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
+    case "ADD_TODO":
       return {
         ...state,
-        todos: [...state.todos, newTodo],
+        todos: [...state.todos, createTodo(action.payload)],
       };
-    }
 
     case "UPDATE_TODO": {
       const todoIndex = state.todos.findIndex(
@@ -169,6 +317,31 @@ export function todoReducer(state: TodoState, action: TodoAction): TodoState {
         todos: state.todos.filter((todo) => todo.id !== action.payload),
       };
 
+    // 삭제 취소/휴지통 복원 - 다른 경로로 먼저 돌아왔으면 교체하고, 보내지 않은 삭제 작업은 제거
+    case "RESTORE_TODO":
+      return {
+        ...state,
+        todos: [
+          ...state.todos.filter((todo) => todo.id !== action.payload.id),
+          action.payload,
+        ],
+        pendingOperations: state.pendingOperations.filter(
+          (op) => !(op.type === "delete" && op.todoId === action.payload.id),
+        ),
+      };
+
+    // 수동 정렬에서 옮긴 Todo의 rank만 먼저 반영 (서버 응답이나 대기 작업은 UPDATE_TODO로 이어짐)
+    case "MOVE_TODO": {
+      const { id, rank } = action.payload;
+      const moveTodo = (todo: Todo) =>
+        todo.id === id ? { ...todo, rank } : todo;
+      return {
+        ...state,
+        todos: state.todos.map(moveTodo),
+        projectTodos: state.projectTodos.map(moveTodo),
+      };
+    }
+
     case "TOGGLE_TODO":
       return {
         ...state,
@@ -251,6 +424,26 @@ export function todoReducer(state: TodoState, action: TodoAction): TodoState {
         syncStatus: action.payload,
       };
 
+    // 다른 기기에서 바뀐 TODO (실시간 업데이트) - 있으면 교체, 없으면 추가
+    case "APPLY_REMOTE_CHANGES": {
+      const deletedIds = new Set(action.payload.deletedIds);
+      const changedById = new Map(
+        action.payload.todos.map((todo) => [todo.id, todo]),
+      );
+      const todos = state.todos
+        .filter((todo) => !deletedIds.has(todo.id))
+        .map((todo) => {
+          const changed = changedById.get(todo.id);
+          changedById.delete(todo.id);
+          return changed ?? todo;
+        });
+
+      return {
+        ...state,
+        todos: [...todos, ...changedById.values()],
+      };
+    }
+
     // ================================
     // 대기 중인 작업 관리
     // ================================
@@ -317,16 +510,22 @@ export function todoReducer(state: TodoState, action: TodoAction): TodoState {
     // ================================
 
     case "ADD_CONFLICTED_TODO":
+      // 동기화할 때마다 같은 충돌이 다시 보고되므로 TODO별로 최신 항목만 유지
       return {
         ...state,
-        conflictedTodos: [...state.conflictedTodos, action.payload],
+        conflictedTodos: [
+          ...state.conflictedTodos.filter(
+            (conflict) => conflict.todoId !== action.payload.todoId,
+          ),
+          action.payload,
+        ],
       };
 
     case "RESOLVE_CONFLICTED_TODO":
       return {
         ...state,
         conflictedTodos: state.conflictedTodos.filter(
-          (todo) => todo.id !== action.payload,
+          (conflict) => conflict.todoId !== action.payload,
         ),
       };
 
@@ -352,6 +551,77 @@ export function todoReducer(state: TodoState, action: TodoAction): TodoState {
         syncErrors: [],
       };
 
+    case "SET_TAG_USAGE":
+      return {
+        ...state,
+        tagUsage: action.payload,
+      };
+
+    // ================================
+    // 공유 프로젝트 관련
+    // ================================
+
+    case "SET_PROJECTS":
+      return {
+        ...state,
+        projects: action.payload,
+      };
+
+    case "SET_PROJECT_TODOS":
+      return {
+        ...state,
+        projectTodos: action.payload,
+      };
+
+    case "SET_PROJECT_MEMBERS":
+      return {
+        ...state,
+        projectMembers: action.payload,
+      };
+
+    // ================================
+    // 체크리스트 관련
+    // ================================
+
+    case "SET_CHECKLIST_ITEMS":
+      return updateChecklist(
+        state,
+        action.payload.todoId,
+        () => action.payload.items,
+      );
+
+    case "ADD_CHECKLIST_ITEM":
+      return updateChecklist(state, action.payload.todoId, (items) => [
+        ...items.filter((item) => item.id !== action.payload.item.id),
+        action.payload.item,
+      ]);
+
+    case "UPDATE_CHECKLIST_ITEM":
+      return updateChecklist(state, action.payload.todoId, (items) =>
+        items.map((item) =>
+          item.id === action.payload.item.id ? action.payload.item : item,
+        ),
+      );
+
+    case "DELETE_CHECKLIST_ITEM":
+      return updateChecklist(state, action.payload.todoId, (items) =>
+        items.filter((item) => item.id !== action.payload.itemId),
+      );
+
+    case "REORDER_CHECKLIST_ITEMS": {
+      const { itemIds } = action.payload;
+      return updateChecklist(state, action.payload.todoId, (items) =>
+        items.map((item) => {
+          const position = itemIds.indexOf(item.id);
+          // 순서 목록에 없는 항목은 뒤로 보냄
+          return {
+            ...item,
+            position: position === -1 ? itemIds.length : position,
+          };
+        }),
+      );
+    }
+
     // ================================
     // 낙관적 업데이트 관련
     // ================================
@@ -416,6 +686,30 @@ export { extendedInitialState as initialTodoState };
  * 상태 선택자들 (헬퍼 함수들)
  */
 export const todoSelectors = {
+  /**
+   * 현재 보기의 TODO (프로젝트를 골랐거나 나에게 할당된 보기면 서버에서 받은 공유 Todo, 아니면 내 Todo)
+   */
+  getScopedTodos: (state: TodoState): Todo[] => {
+    return todoSelectors.isSharedView(state) ? state.projectTodos : state.todos;
+  },
+
+  /**
+   * 공유 Todo 보기인지 확인 (로컬 저장 없이 서버에 바로 요청)
+   */
+  isSharedView: (state: TodoState): boolean => {
+    return !!state.filter.projectId || !!state.filter.assignedToMe;
+  },
+
+  /**
+   * 현재 고른 프로젝트 (내 Todo 보기면 null)
+   */
+  getActiveProject: (state: TodoState): Project | null => {
+    return (
+      state.projects.find((project) => project.id === state.filter.projectId) ??
+      null
+    );
+  },
+
   /**
    * 동기화가 필요한지 확인
    */
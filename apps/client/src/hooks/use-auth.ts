@@ -4,6 +4,7 @@ import type {
   LoginRequest,
   RegisterRequest,
   PasswordResetRequest,
+  PasswordResetConfirmRequest,
   PasswordChangeRequest,
   ProfileUpdateRequest,
   AuthEvent,
@@ -165,7 +166,7 @@ export function useAuth() {
   }, [actions]);
 
   // ================================
-  // 계정 관리 액션들 (미구현)
+  // 계정 관리 액션들
   // ================================
 
   const updateProfile = useCallback(
@@ -212,6 +213,20 @@ export function useAuth() {
     [actions],
   );
 
+  const confirmPasswordReset = useCallback(
+    async (data: PasswordResetConfirmRequest) => {
+      try {
+        await actions.confirmPasswordReset(data);
+        return { success: true };
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Password reset failed";
+        return { success: false, error: message };
+      }
+    },
+    [actions],
+  );
+
   // ================================
   // 이벤트 관리 (편의 메서드)
   // ================================
@@ -361,6 +376,7 @@ export function useAuth() {
     updateProfile,
     changePassword,
     requestPasswordReset,
+    confirmPasswordReset,
 
     // 이벤트 관리
     addEventListener,
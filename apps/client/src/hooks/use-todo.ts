@@ -10,6 +10,11 @@ import type {
   CreateTodoRequest,
   UpdateTodoRequest,
   Priority,
+  TagUsage,
+  DueFilter,
+  SortBy,
+  Todo,
+  TodoActivity,
 } from "@vive/types";
 import { useTodoContext } from "../contexts/todo.context";
 import { useAuthContext } from "../contexts/auth.context";
@@ -22,6 +27,7 @@ export interface CreateTodoOptions {
   dueDate?: string;
   tags?: string[];
   description?: string;
+  recurrence?: string; // RRULE 부분 집합 (예: "FREQ=WEEKLY;BYDAY=MO")
 }
 
 /**
@@ -34,6 +40,8 @@ export interface UpdateTodoOptions {
   dueDate?: string;
   tags?: string[];
   completed?: boolean;
+  recurrence?: string | null; // null이면 반복 해제
+  assigneeId?: string | null; // null이면 담당자 해제
 }
 
 /**
@@ -47,6 +55,28 @@ export interface FilterHelpers {
   sortByCreatedAt: (order?: "asc" | "desc") => void;
   sortByPriority: (order?: "asc" | "desc") => void;
   sortByTitle: (order?: "asc" | "desc") => void;
+  sortByDueDate?: (order?: "asc" | "desc") => void;
+  sortBy?: SortBy;
+  sortByManual?: () => void;
+  tag?: string;
+  tags?: TagUsage[];
+  filterByTag?: (tag: string | null) => void;
+  due?: DueFilter;
+  filterByDue?: (due: DueFilter | null) => void;
+  assignedToMe?: boolean;
+  filterAssignedToMe?: (enabled: boolean) => void;
+}
+
+/**
+ * 체크리스트 관련 헬퍼 (TODO 하위 항목)
+ */
+export interface ChecklistHelpers {
+  load: (todoId: string) => Promise<void>;
+  addItem: (todoId: string, title: string) => Promise<void>;
+  toggleItem: (todoId: string, itemId: string) => Promise<void>;
+  renameItem: (todoId: string, itemId: string, title: string) => Promise<void>;
+  deleteItem: (todoId: string, itemId: string) => Promise<void>;
+  reorderItems: (todoId: string, itemIds: string[]) => Promise<void>;
 }
 
 /**
@@ -92,6 +122,13 @@ export interface UseTodoReturn {
   updateTodo: (id: string, options: UpdateTodoOptions) => Promise<void>;
   deleteTodo: (id: string) => Promise<void>;
   toggleTodo: (id: string) => Promise<void>;
+  moveTodo: (id: string, previous?: Todo, next?: Todo) => Promise<void>;
+
+  // 체크리스트 헬퍼
+  checklist: ChecklistHelpers;
+
+  // 활동 기록 조회
+  loadActivity: (id: string) => Promise<TodoActivity[]>;
 
   // 필터링 헬퍼
   filter: FilterHelpers;
@@ -124,6 +161,13 @@ export function useTodo(): UseTodoReturn {
     updateTodo: contextUpdateTodo,
     deleteTodo: contextDeleteTodo,
     toggleTodo: contextToggleTodo,
+    moveTodo,
+    loadChecklist,
+    addChecklistItem,
+    updateChecklistItem,
+    deleteChecklistItem,
+    reorderChecklistItems,
+    loadTodoActivity,
     setFilter,
     syncData,
     retryFailedOperations,
@@ -157,6 +201,7 @@ export function useTodo(): UseTodoReturn {
         priority: options.priority || "medium",
         dueDate: options.dueDate,
         tags: options.tags,
+        recurrence: options.recurrence,
         userId:
           authContext.state.user?.id || authContext.state.guestId || "guest",
       };
@@ -179,6 +224,12 @@ export function useTodo(): UseTodoReturn {
         ...(options.completed !== undefined && {
           completed: options.completed,
         }),
+        ...(options.recurrence !== undefined && {
+          recurrence: options.recurrence,
+        }),
+        ...(options.assigneeId !== undefined && {
+          assigneeId: options.assigneeId,
+        }),
       };
 
       await contextUpdateTodo(id, updates);
@@ -200,10 +251,53 @@ export function useTodo(): UseTodoReturn {
     [contextToggleTodo],
   );
 
+  // ================================
+  // 체크리스트 헬퍼 메서드들
+  // ================================
+
+  const checklist = useMemo<ChecklistHelpers>(
+    () => ({
+      load: loadChecklist,
+
+      addItem: addChecklistItem,
+
+      toggleItem: async (todoId: string, itemId: string) => {
+        const item = state.todos
+          .find((todo) => todo.id === todoId)
+          ?.checklist?.find((checklistItem) => checklistItem.id === itemId);
+        if (!item) {
+          return;
+        }
+
+        await updateChecklistItem(todoId, itemId, {
+          completed: !item.completed,
+        });
+      },
+
+      renameItem: (todoId: string, itemId: string, title: string) =>
+        updateChecklistItem(todoId, itemId, { title }),
+
+      deleteItem: deleteChecklistItem,
+
+      reorderItems: reorderChecklistItems,
+    }),
+    [
+      state.todos,
+      loadChecklist,
+      addChecklistItem,
+      updateChecklistItem,
+      deleteChecklistItem,
+      reorderChecklistItems,
+    ],
+  );
+
   // ================================
   // 필터링 헬퍼 메서드들
   // ================================
 
+  const canUseProjects =
+    authContext.state.isAuthenticated && !authContext.state.isGuest;
+
   const filter = useMemo<FilterHelpers>(
     () => ({
       showAll: () => {
@@ -229,8 +323,39 @@ export function useTodo(): UseTodoReturn {
       sortByTitle: (order: "asc" | "desc" = "asc") => {
         setFilter({ ...state.filter, sortBy: "title", sortOrder: order });
       },
+
+      sortByDueDate: (order: "asc" | "desc" = "asc") => {
+        setFilter({ ...state.filter, sortBy: "dueDate", sortOrder: order });
+      },
+
+      sortBy: state.filter.sortBy,
+
+      sortByManual: () => {
+        setFilter({ ...state.filter, sortBy: "manual" });
+      },
+
+      tag: state.filter.tag,
+      tags: state.tagUsage,
+
+      filterByTag: (tag: string | null) => {
+        setFilter({ ...state.filter, tag: tag ?? undefined });
+      },
+
+      due: state.filter.due,
+
+      filterByDue: (due: DueFilter | null) => {
+        setFilter({ ...state.filter, due: due ?? undefined });
+      },
+
+      // 게스트는 공유 프로젝트가 없으므로 나에게 할당됨 보기를 제공하지 않음
+      ...(canUseProjects && {
+        assignedToMe: state.filter.assignedToMe,
+        filterAssignedToMe: (enabled: boolean) => {
+          setFilter({ ...state.filter, assignedToMe: enabled || undefined });
+        },
+      }),
     }),
-    [state.filter, setFilter],
+    [state.filter, state.tagUsage, setFilter, canUseProjects],
   );
 
   // ================================
@@ -366,6 +491,9 @@ export function useTodo(): UseTodoReturn {
     updateTodo,
     deleteTodo,
     toggleTodo,
+    moveTodo,
+    checklist,
+    loadActivity: loadTodoActivity,
     filter,
     sync,
     metadata,
@@ -443,6 +571,51 @@ export function useTodoSync() {
   };
 }
 
+/**
+ * 동기화 충돌 목록과 해결 메서드 (충돌 해결 다이얼로그용)
+ */
+export function useTodoConflicts() {
+  const { state, resolveConflict, resolveAllConflicts } = useTodoContext();
+
+  return {
+    conflicts: state.conflictedTodos,
+    resolveConflict,
+    resolveAllConflicts,
+  };
+}
+
+/**
+ * 휴지통 조회/복원/영구 삭제 메서드 (휴지통 다이얼로그와 삭제 취소 알림용)
+ */
+export function useTodoTrash() {
+  const { restoreTodo, loadTrash, purgeTodo } = useTodoContext();
+
+  return {
+    load: loadTrash,
+    restore: restoreTodo,
+    purge: purgeTodo,
+  };
+}
+
+/**
+ * 공유 프로젝트 목록과 전환 메서드 (헤더의 프로젝트 선택, 담당자 지정용)
+ */
+export function useTodoProjects() {
+  const { state, activeProject, selectProject, createProject } =
+    useTodoContext();
+  const { state: authState } = useAuthContext();
+
+  return {
+    projects: state.projects,
+    activeProject,
+    selectProject,
+    createProject,
+    members: state.projectMembers,
+    // 게스트는 공유 프로젝트를 만들 수 없음
+    canCreateProject: authState.isAuthenticated && !authState.isGuest,
+  };
+}
+
 /**
  * TODO 통계만 필요한 경우를 위한 훅
  */
@@ -1,6 +1,8 @@
 import { appConfig } from "../../config/environment";
 import { AuthService, authService } from "../auth.service";
 import { APIError } from "../../errors/api-error";
+import { getUserTimeZone } from "../../utils/due-date";
+import type { ChecklistItem, Project, Todo } from "@vive/types";
 import type {
   APIResponse,
   GetTodosParams,
@@ -11,14 +13,31 @@ import type {
   UpdateTodoRequest,
   UpdateTodoResponse,
   DeleteTodoResponse,
+  GetTagsResponse,
+  TodoChangesResponse,
+  CreateChecklistItemRequest,
+  UpdateChecklistItemRequest,
+  GetChecklistItemsResponse,
+  ReorderChecklistItemsResponse,
   ExportDataResponse,
+  ImportDataRequest,
   ImportDataResponse,
   ImportOptions,
   MigrateDataRequest,
   MigrateDataResponse,
   RequestConfig,
+  BatchTodoOperation,
+  BatchTodosResponse,
+  CreateProjectRequest,
+  GetProjectsResponse,
+  GetProjectMembersResponse,
+  GetTodoActivityResponse,
+  GetTrashResponse,
 } from "../../types/api.types";
 
+// POST /todos/batch 한 번에 보낼 수 있는 최대 작업 수 (서버 검증과 동일)
+const BATCH_MAX_OPERATIONS = 25;
+
 /**
  * TODO API 클라이언트
  * 모든 TODO 관련 API 엔드포인트를 관리합니다
@@ -185,15 +204,19 @@ export class TodoAPIClient {
   }
 
   /**
-   * 새로운 TODO 생성
+   * 새로운 TODO 생성 (projectId를 주면 공유 프로젝트에 생성)
    */
   async createTodo(
     data: CreateTodoRequest,
+    projectId?: string,
   ): Promise<APIResponse<CreateTodoResponse>> {
-    return this.request<CreateTodoResponse>("/todos", {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+    return this.request<CreateTodoResponse>(
+      `/todos${projectQuery(projectId)}`,
+      {
+        method: "POST",
+        body: JSON.stringify(withRecurrenceTimeZone(data)),
+      },
+    );
   }
 
   /**
@@ -222,89 +245,361 @@ export class TodoAPIClient {
   async updateTodo(
     id: string,
     data: UpdateTodoRequest,
+    projectId?: string,
   ): Promise<APIResponse<UpdateTodoResponse>> {
-    return this.request<UpdateTodoResponse>(`/todos/${id}`, {
+    return this.request<UpdateTodoResponse>(
+      `/todos/${id}${projectQuery(projectId)}`,
+      {
+        method: "PUT",
+        body: JSON.stringify(withRecurrenceTimeZone(data)),
+      },
+    );
+  }
+
+  /**
+   * TODO 삭제
+   */
+  async deleteTodo(
+    id: string,
+    projectId?: string,
+  ): Promise<APIResponse<DeleteTodoResponse>> {
+    return this.request<DeleteTodoResponse>(
+      `/todos/${id}${projectQuery(projectId)}`,
+      { method: "DELETE" },
+    );
+  }
+
+  /**
+   * 휴지통 TODO 목록 조회 (삭제 후 30일 동안 보관)
+   */
+  async getTrash(projectId?: string): Promise<APIResponse<GetTrashResponse>> {
+    return this.request<GetTrashResponse>(
+      `/todos/trash${projectQuery(projectId)}`,
+      { method: "GET" },
+    );
+  }
+
+  /**
+   * 휴지통 TODO 복원 (복원된 TODO 반환)
+   */
+  async restoreTodo(
+    id: string,
+    projectId?: string,
+  ): Promise<APIResponse<Todo>> {
+    return this.request<Todo>(
+      `/todos/${id}/restore${projectQuery(projectId)}`,
+      { method: "POST" },
+    );
+  }
+
+  /**
+   * 휴지통 TODO 영구 삭제
+   */
+  async purgeTodo(id: string, projectId?: string): Promise<APIResponse<void>> {
+    return this.request<void>(`/todos/trash/${id}${projectQuery(projectId)}`, {
+      method: "DELETE",
+    });
+  }
+
+  /**
+   * TODO 활동 기록 조회 (최신순, 삭제된 TODO도 조회 가능)
+   */
+  async getTodoActivity(
+    id: string,
+    projectId?: string,
+  ): Promise<APIResponse<GetTodoActivityResponse>> {
+    return this.request<GetTodoActivityResponse>(
+      `/todos/${id}/activity${projectQuery(projectId)}`,
+      { method: "GET" },
+    );
+  }
+
+  /**
+   * 변경 토큰 이후 생성/수정/삭제된 TODO 조회 (since 없이 호출하면 전체 목록부터)
+   */
+  async getChanges(since?: string): Promise<APIResponse<TodoChangesResponse>> {
+    const queryString = since
+      ? `?${new URLSearchParams({ since }).toString()}`
+      : "";
+
+    return this.request<TodoChangesResponse>(`/todos/changes${queryString}`, {
+      method: "GET",
+    });
+  }
+
+  /**
+   * 태그 목록과 태그별 사용 횟수 조회
+   */
+  async getTags(projectId?: string): Promise<APIResponse<GetTagsResponse>> {
+    return this.request<GetTagsResponse>(`/tags${projectQuery(projectId)}`, {
+      method: "GET",
+    });
+  }
+
+  // ================================
+  // 공유 프로젝트 API 메서드들
+  // ================================
+
+  /**
+   * 내가 속한 프로젝트 목록과 내 역할 조회
+   */
+  async getProjects(): Promise<APIResponse<GetProjectsResponse>> {
+    return this.request<GetProjectsResponse>("/projects", { method: "GET" });
+  }
+
+  /**
+   * 프로젝트 생성 (만든 사용자가 owner)
+   */
+  async createProject(
+    data: CreateProjectRequest,
+  ): Promise<APIResponse<Project>> {
+    return this.request<Project>("/projects", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * 프로젝트 멤버 목록 조회 (담당자 선택용)
+   */
+  async getProjectMembers(
+    projectId: string,
+  ): Promise<APIResponse<GetProjectMembersResponse>> {
+    return this.request<GetProjectMembersResponse>(
+      `/projects/${encodeURIComponent(projectId)}/members`,
+      { method: "GET" },
+    );
+  }
+
+  // ================================
+  // 체크리스트 API 메서드들
+  // ================================
+
+  /**
+   * TODO의 체크리스트 항목 목록과 진행률 조회
+   */
+  async getChecklistItems(
+    todoId: string,
+  ): Promise<APIResponse<GetChecklistItemsResponse>> {
+    return this.request<GetChecklistItemsResponse>(`/todos/${todoId}/items`, {
+      method: "GET",
+    });
+  }
+
+  /**
+   * 체크리스트 항목 추가
+   */
+  async createChecklistItem(
+    todoId: string,
+    data: CreateChecklistItemRequest,
+  ): Promise<APIResponse<ChecklistItem>> {
+    return this.request<ChecklistItem>(`/todos/${todoId}/items`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * 체크리스트 항목 수정
+   */
+  async updateChecklistItem(
+    todoId: string,
+    itemId: string,
+    data: UpdateChecklistItemRequest,
+  ): Promise<APIResponse<ChecklistItem>> {
+    return this.request<ChecklistItem>(`/todos/${todoId}/items/${itemId}`, {
       method: "PUT",
       body: JSON.stringify(data),
     });
   }
 
   /**
-   * TODO 삭제
+   * 체크리스트 항목 삭제
    */
-  async deleteTodo(id: string): Promise<APIResponse<DeleteTodoResponse>> {
-    return this.request<DeleteTodoResponse>(`/todos/${id}`, {
+  async deleteChecklistItem(
+    todoId: string,
+    itemId: string,
+  ): Promise<APIResponse<void>> {
+    return this.request<void>(`/todos/${todoId}/items/${itemId}`, {
       method: "DELETE",
     });
   }
 
+  /**
+   * 체크리스트 항목 순서 변경 (모든 항목 ID를 새 순서대로 전달)
+   */
+  async reorderChecklistItems(
+    todoId: string,
+    itemIds: string[],
+  ): Promise<APIResponse<ReorderChecklistItemsResponse>> {
+    return this.request<ReorderChecklistItemsResponse>(
+      `/todos/${todoId}/items/order`,
+      {
+        method: "PUT",
+        body: JSON.stringify({ itemIds }),
+      },
+    );
+  }
+
   // ================================
-  // 데이터 관리 API 메서드들 (현재 백엔드에 미구현)
+  // 데이터 관리 API 메서드들
   // ================================
 
   /**
-   * 데이터 내보내기
-   * @deprecated 백엔드에 구현되지 않음 - localStorage 서비스 사용
+   * 데이터 내보내기 (파일 내용은 exportUrl의 data: URL로 반환)
    */
   async exportData(
     format: "json" | "csv" = "json",
   ): Promise<APIResponse<ExportDataResponse>> {
-    throw new Error("Export API is not implemented in backend. Use localStorage service instead.");
+    return this.request<ExportDataResponse>("/todos/export", {
+      method: "POST",
+      body: JSON.stringify({ format }),
+    });
   }
 
   /**
-   * 데이터 가져오기
-   * @deprecated 백엔드에 구현되지 않음 - localStorage 서비스 사용
+   * 데이터 가져오기 (.csv 파일은 CSV, 그 외는 JSON 배열로 전송)
+   * 행마다 서버에서 검증하며 실패한 행은 응답의 errors로 보고됨
    */
   async importData(
     file: File,
     options: ImportOptions,
   ): Promise<APIResponse<ImportDataResponse>> {
-    throw new Error("Import API is not implemented in backend. Use localStorage service instead.");
+    const content = await file.text();
+    const isCsv =
+      file.type === "text/csv" || file.name.toLowerCase().endsWith(".csv");
+
+    let request: ImportDataRequest;
+    if (isCsv) {
+      request = { format: "csv", csv: content };
+    } else {
+      const parsed: unknown = JSON.parse(content);
+      if (!Array.isArray(parsed)) {
+        throw new Error("Import file must contain a JSON array of todos.");
+      }
+      request = { format: "json", todos: parsed };
+    }
+
+    return this.request<ImportDataResponse>("/todos/import", {
+      method: "POST",
+      body: JSON.stringify({
+        ...request,
+        mergeStrategy: options.mergeStrategy,
+      }),
+    });
   }
 
   /**
-   * localStorage 데이터 마이그레이션
-   * @deprecated 백엔드에 구현되지 않음 - 클라이언트 사이드에서 처리
+   * localStorage 데이터 마이그레이션 (POST /todos/import 사용)
+   * preserveIds가 true면 같은 ID로 저장되어 다시 실행해도 중복이 생기지 않음
    */
   async migrateFromLocalStorage(
     request: MigrateDataRequest,
   ): Promise<APIResponse<MigrateDataResponse>> {
-    throw new Error("Migration API is not implemented in backend. Handle on client-side.");
+    const { localStorageData, migrationOptions } = request;
+    const todos = localStorageData.map((todo) => ({
+      ...(migrationOptions.preserveIds && { id: todo.id }),
+      title: todo.title,
+      description: todo.description || undefined,
+      completed: todo.completed,
+      priority: todo.priority,
+      dueDate: todo.dueDate || undefined,
+      tags: todo.tags,
+      recurrence: todo.recurrence || undefined,
+    }));
+
+    const response = await this.request<ImportDataResponse>("/todos/import", {
+      method: "POST",
+      body: JSON.stringify({
+        format: "json",
+        todos,
+        mergeStrategy: migrationOptions.mergeStrategy,
+      }),
+    });
+
+    return {
+      ...response,
+      data: {
+        migratedCount: response.data.importedCount + response.data.updatedCount,
+        duplicateCount: response.data.skippedCount,
+        totalCount: localStorageData.length,
+        errors: response.data.errors,
+      },
+    };
   }
 
   // ================================
-  // 배치 처리 API 메서드들 (현재 백엔드에 미구현)
+  // 배치 처리 API 메서드들
   // ================================
 
+  /**
+   * 여러 TODO 생성/수정/삭제를 한 번에 처리 (POST /todos/batch)
+   * 요청당 최대 작업 수를 넘으면 나눠서 보내고, 결과 index는 전체 operations 기준으로 맞춤
+   */
+  async batchTodos(
+    operations: BatchTodoOperation[],
+  ): Promise<APIResponse<BatchTodosResponse>> {
+    const merged: BatchTodosResponse = {
+      results: [],
+      successCount: 0,
+      failedCount: 0,
+    };
+    for (
+      let offset = 0;
+      offset < operations.length;
+      offset += BATCH_MAX_OPERATIONS
+    ) {
+      const response = await this.request<BatchTodosResponse>("/todos/batch", {
+        method: "POST",
+        body: JSON.stringify({
+          operations: operations.slice(offset, offset + BATCH_MAX_OPERATIONS),
+        }),
+      });
+
+      merged.results.push(
+        ...response.data.results.map((result) => ({
+          ...result,
+          index: result.index + offset,
+        })),
+      );
+      merged.successCount += response.data.successCount;
+      merged.failedCount += response.data.failedCount;
+    }
+
+    return { success: true, data: merged };
+  }
+
   /**
    * 여러 TODO를 한 번에 생성
-   * @deprecated 백엔드에 구현되지 않음 - 개별 API 호출 사용
    */
   async createMultipleTodos(
     todos: CreateTodoRequest[],
-  ): Promise<APIResponse<CreateTodoResponse[]>> {
-    throw new Error("Batch create API is not implemented in backend. Use individual API calls.");
+  ): Promise<APIResponse<BatchTodosResponse>> {
+    return this.batchTodos(
+      todos.map((data) => ({ action: "create" as const, data })),
+    );
   }
 
   /**
    * 여러 TODO를 한 번에 업데이트
-   * @deprecated 백엔드에 구현되지 않음 - 개별 API 호출 사용
    */
   async updateMultipleTodos(
     updates: Array<{ id: string; data: UpdateTodoRequest }>,
-  ): Promise<APIResponse<UpdateTodoResponse[]>> {
-    throw new Error("Batch update API is not implemented in backend. Use individual API calls.");
+  ): Promise<APIResponse<BatchTodosResponse>> {
+    return this.batchTodos(
+      updates.map(({ id, data }) => ({ action: "update" as const, id, data })),
+    );
   }
 
   /**
    * 여러 TODO를 한 번에 삭제
-   * @deprecated 백엔드에 구현되지 않음 - 개별 API 호출 사용
    */
   async deleteMultipleTodos(
     ids: string[],
-  ): Promise<APIResponse<DeleteTodoResponse[]>> {
-    throw new Error("Batch delete API is not implemented in backend. Use individual API calls.");
+  ): Promise<APIResponse<BatchTodosResponse>> {
+    return this.batchTodos(
+      ids.map((id) => ({ action: "delete" as const, id })),
+    );
   }
 
   // ================================
@@ -346,6 +641,24 @@ export class TodoAPIClient {
   }
 }
 
+/**
+ * 공유 프로젝트 Todo 요청의 쿼리 문자열 (생략하면 내 Todo)
+ */
+function projectQuery(projectId?: string): string {
+  return projectId ? `?${new URLSearchParams({ projectId }).toString()}` : "";
+}
+
+/**
+ * 반복 일정을 설정하는 요청에 사용자 시간대를 붙임 (서버가 현지 요일 기준으로 다음 회차 계산)
+ */
+function withRecurrenceTimeZone<
+  T extends { recurrence?: string | null; timeZone?: string },
+>(data: T): T {
+  return data.recurrence && !data.timeZone
+    ? { ...data, timeZone: getUserTimeZone() }
+    : data;
+}
+
 /**
  * TODO API 클라이언트 인스턴스
  */
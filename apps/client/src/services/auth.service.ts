@@ -1,9 +1,20 @@
 import { appConfig } from "../config/app-config";
 import type {
+  APIResponse,
   GuestTokenResponse,
+  LoginResponse,
+  PasswordChangeResponse,
   RefreshTokenResponse,
+  RegisterResponse,
   UserInfoResponse,
 } from "../types/api.types";
+import type {
+  LoginRequest,
+  PasswordChangeRequest,
+  PasswordResetConfirmRequest,
+  PasswordResetRequest,
+  RegisterRequest,
+} from "../types/auth.types";
 import { APIError } from "../errors/api-error";
 
 /**
@@ -136,6 +147,88 @@ export class AuthService {
     }
   }
 
+  /**
+   * 이메일/비밀번호 로그인
+   */
+  async login(credentials: LoginRequest): Promise<LoginResponse> {
+    try {
+      const response = await fetch(`${appConfig.api.baseURL}/auth/login`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          email: credentials.email,
+          password: credentials.password,
+        }),
+        signal: AbortSignal.timeout(appConfig.api.timeout),
+      });
+
+      if (!response.ok) {
+        throw await APIError.fromResponse(response);
+      }
+
+      const { data }: APIResponse<LoginResponse> = await response.json();
+      this.storeAuthenticatedSession(data);
+
+      if (appConfig.features.debugMode) {
+        console.log("🔑 Logged in successfully");
+      }
+
+      return data;
+    } catch (error) {
+      if (error instanceof TypeError) {
+        throw APIError.createNetworkError(error);
+      }
+      if (error.name === "AbortError") {
+        throw APIError.createTimeoutError();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 회원가입 (성공 시 바로 로그인 상태가 됨)
+   */
+  async register(data: RegisterRequest): Promise<RegisterResponse> {
+    try {
+      const response = await fetch(`${appConfig.api.baseURL}/auth/register`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          email: data.email,
+          password: data.password,
+          name: data.name,
+        }),
+        signal: AbortSignal.timeout(appConfig.api.timeout),
+      });
+
+      if (!response.ok) {
+        throw await APIError.fromResponse(response);
+      }
+
+      const { data: registered }: APIResponse<RegisterResponse> =
+        await response.json();
+      this.storeAuthenticatedSession(registered);
+
+      if (appConfig.features.debugMode) {
+        console.log("🆕 Registered successfully");
+      }
+
+      return registered;
+    } catch (error) {
+      if (error instanceof TypeError) {
+        throw APIError.createNetworkError(error);
+      }
+      if (error.name === "AbortError") {
+        throw APIError.createTimeoutError();
+      }
+      throw error;
+    }
+  }
+
   /**
    * 토큰 갱신
    */
@@ -148,9 +241,9 @@ export class AuthService {
       const response = await fetch(`${appConfig.api.baseURL}/auth/refresh`, {
         method: "POST",
         headers: {
-          Authorization: `Bearer ${this.tokenInfo.refreshToken}`,
           "Content-Type": "application/json",
         },
+        body: JSON.stringify({ refreshToken: this.tokenInfo.refreshToken }),
         signal: AbortSignal.timeout(appConfig.api.timeout),
       });
 
@@ -158,12 +251,13 @@ export class AuthService {
         throw await APIError.fromResponse(response);
       }
 
-      const data: RefreshTokenResponse = await response.json();
+      const { data }: APIResponse<RefreshTokenResponse> = await response.json();
 
-      // 토큰 정보 업데이트
+      // 토큰 정보 업데이트 (서버가 리프레시 토큰을 회전하므로 새 토큰으로 교체)
       this.tokenInfo = {
         ...this.tokenInfo,
         accessToken: data.accessToken,
+        refreshToken: data.refreshToken ?? this.tokenInfo.refreshToken,
         expiresAt: Date.now() + data.expiresIn * 1000,
       };
 
@@ -216,10 +310,62 @@ export class AuthService {
     }
   }
 
+  /**
+   * 비밀번호 재설정 코드 요청 (가입 여부와 관계없이 같은 응답)
+   */
+  async requestPasswordReset(data: PasswordResetRequest): Promise<void> {
+    await this.postPasswordRequest("/auth/password/reset-request", data);
+  }
+
+  /**
+   * 재설정 코드로 비밀번호 변경 (서버의 모든 세션이 폐기됨)
+   */
+  async confirmPasswordReset(data: PasswordResetConfirmRequest): Promise<void> {
+    await this.postPasswordRequest("/auth/password/reset-confirm", data);
+  }
+
+  /**
+   * 비밀번호 변경 (기존 세션 폐기 후 새로 발급된 토큰으로 교체)
+   */
+  async changePassword(
+    data: PasswordChangeRequest,
+  ): Promise<PasswordChangeResponse> {
+    const token = await this.getValidToken();
+    const response = await this.postPasswordRequest(
+      "/auth/password/change",
+      data,
+      token,
+    );
+
+    const { data: changed }: APIResponse<PasswordChangeResponse> =
+      await response.json();
+    this.storeAuthenticatedSession(changed);
+
+    if (appConfig.features.debugMode) {
+      console.log("🔐 Password changed successfully");
+    }
+
+    return changed;
+  }
+
   /**
    * 로그아웃
    */
   logout(): void {
+    // 서버 측 리프레시 토큰 세션 폐기 (실패해도 로컬 로그아웃은 진행)
+    if (this.tokenInfo?.tokenType === "authenticated") {
+      fetch(`${appConfig.api.baseURL}/auth/logout`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.tokenInfo.accessToken}`,
+          "Content-Type": "application/json",
+        },
+        keepalive: true,
+      }).catch(() => {
+        // 네트워크 오류는 무시
+      });
+    }
+
     this.tokenInfo = null;
     this.clearTokenFromStorage();
     this.clearRefreshTimer();
@@ -229,6 +375,56 @@ export class AuthService {
     }
   }
 
+  /**
+   * 비밀번호 관련 POST 요청 공통 처리
+   */
+  private async postPasswordRequest(
+    path: string,
+    body: object,
+    token?: string,
+  ): Promise<Response> {
+    try {
+      const response = await fetch(`${appConfig.api.baseURL}${path}`, {
+        method: "POST",
+        headers: {
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(appConfig.api.timeout),
+      });
+
+      if (!response.ok) {
+        throw await APIError.fromResponse(response);
+      }
+
+      return response;
+    } catch (error) {
+      if (error instanceof TypeError) {
+        throw APIError.createNetworkError(error);
+      }
+      if (error.name === "AbortError") {
+        throw APIError.createTimeoutError();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 로그인/회원가입 응답의 토큰 저장
+   */
+  private storeAuthenticatedSession(data: LoginResponse): void {
+    this.tokenInfo = {
+      accessToken: data.accessToken,
+      refreshToken: data.refreshToken,
+      expiresAt: Date.now() + data.expiresIn * 1000,
+      tokenType: "authenticated",
+    };
+
+    this.saveTokenToStorage();
+    this.setupRefreshTimer();
+  }
+
   /**
    * 토큰이 곧 만료될 예정인지 확인
    */
@@ -8,8 +8,22 @@
  * - AuthContext와 연동하여 권한 기반 작업 처리
  */
 
-import type { Todo, CreateTodoRequest, UpdateTodoRequest } from "@vive/types";
-import type { PendingOperation } from "../contexts/todo.reducer";
+import type {
+  Todo,
+  CreateTodoRequest,
+  UpdateTodoRequest,
+  TagUsage,
+  ChecklistItem,
+  Project,
+  ProjectMember,
+  TodoActivity,
+  TrashedTodo,
+  SortBy,
+} from "@vive/types";
+import type {
+  PendingOperation,
+  ChecklistOperation,
+} from "../contexts/todo.reducer";
 import { offlineStorage } from "./offline-storage";
 import { todoApiService } from "./api/todo-api-client";
 import { authService } from "./auth.service";
@@ -89,6 +103,9 @@ class IntegratedStorageService {
       "sync_conflict",
       this.handleSyncConflict.bind(this),
     );
+
+    // 다른 탭에서 오프라인 저장소를 바꾸면 캐시 무효화
+    offlineStorage.onExternalChange(() => this.cache.clear());
   }
 
   private async handleConnectionRestore(): Promise<void> {
@@ -168,6 +185,9 @@ class IntegratedStorageService {
     try {
       let todos: Todo[];
 
+      // 오프라인 저장소(IndexedDB)를 메모리로 불러올 때까지 대기
+      await offlineStorage.ready;
+
       if (this.canUseAPI()) {
         // 온라인: API에서 데이터 가져오기
         const apiResponse = await todoApiService.getAll();
@@ -201,6 +221,38 @@ class IntegratedStorageService {
     }
   }
 
+  /**
+   * 태그별 사용 횟수 조회
+   * 온라인이면 서버의 태그 인덱스를, 오프라인이면 로컬 TODO를 집계
+   * 공유 프로젝트 태그는 서버에만 있으므로 오프라인이면 빈 목록
+   */
+  async getTagUsage(
+    projectId?: string,
+  ): Promise<StorageOperationResult<TagUsage[]>> {
+    try {
+      if (this.canUseAPI()) {
+        const apiResponse = await todoApiService.getTags(projectId);
+        return { success: true, data: apiResponse.data.tags || [] };
+      }
+
+      if (projectId) {
+        return { success: true, data: [] };
+      }
+
+      return {
+        success: true,
+        data: storageUtils.countTagUsage(offlineStorage.getTodos()),
+      };
+    } catch (error) {
+      // API 실패시 로컬 데이터로 집계
+      return {
+        success: false,
+        data: storageUtils.countTagUsage(offlineStorage.getTodos()),
+        error: error instanceof Error ? error.message : "Failed to fetch tags",
+      };
+    }
+  }
+
   /**
    * TODO 생성
    */
@@ -233,8 +285,9 @@ class IntegratedStorageService {
         const response = await todoApiService.create(todoData);
         const serverTodo = response.data;
 
-        // 서버 응답으로 로컬 업데이트
+        // 서버 응답으로 로컬 업데이트 (동기화 병합 기준으로도 저장)
         offlineStorage.updateTodo(optimisticTodo.id, serverTodo);
+        offlineStorage.saveSyncBase(serverTodo);
 
         return {
           success: true,
@@ -311,12 +364,16 @@ class IntegratedStorageService {
 
     if (this.canUseAPI()) {
       try {
-        // API 호출
-        const response = await todoApiService.update(id, updates);
+        // API 호출 (알고 있는 서버 버전과 다르면 409로 실패해 대기 큐에서 충돌로 처리됨)
+        const response = await todoApiService.update(id, {
+          ...updates,
+          expectedVersion: existingTodo.version,
+        });
         const serverTodo = response.data;
 
-        // 서버 응답으로 로컬 업데이트
+        // 서버 응답으로 로컬 업데이트 (동기화 병합 기준으로도 저장)
         offlineStorage.updateTodo(id, serverTodo);
+        offlineStorage.saveSyncBase(serverTodo);
 
         return {
           success: true,
@@ -373,6 +430,7 @@ class IntegratedStorageService {
       try {
         // API 호출
         await todoApiService.delete(id);
+        offlineStorage.removeSyncBase(id);
 
         return {
           success: true,
@@ -421,6 +479,462 @@ class IntegratedStorageService {
     return this.updateTodo(id, { completed: !existingTodo.completed });
   }
 
+  // ================================
+  // 휴지통
+  // ================================
+
+  /**
+   * 삭제 취소 / 휴지통 TODO 복원
+   * 아직 서버에 보내지 않은 삭제라면 대기 작업을 취소하고 삭제 직전 사본을 로컬에 되돌림
+   */
+  async restoreTodo(
+    id: string,
+    deletedTodo?: Todo,
+  ): Promise<StorageOperationResult<Todo>> {
+    const queuedDelete = offlineStorage
+      .getPendingOperations()
+      .find((op) => op.type === "delete" && op.todoId === id);
+
+    if (queuedDelete && deletedTodo) {
+      offlineStorage.removePendingOperation(queuedDelete.id);
+      offlineStorage.addTodo(deletedTodo);
+      this.cache.clear();
+      return { success: true, data: deletedTodo };
+    }
+
+    return this.runTrashOperation(async () => {
+      const apiResponse = await todoApiService.restoreTodo(id);
+      const restoredTodo = apiResponse.data;
+
+      // 서버 사본을 로컬에 되돌리고 동기화 병합 기준으로도 저장
+      offlineStorage.addTodo(restoredTodo);
+      offlineStorage.saveSyncBase(restoredTodo);
+      this.cache.clear();
+
+      return restoredTodo;
+    });
+  }
+
+  /**
+   * 휴지통 TODO 목록 조회 (서버에만 보관되므로 온라인에서만 조회)
+   */
+  async getTrash(
+    projectId?: string,
+  ): Promise<StorageOperationResult<TrashedTodo[]>> {
+    return this.runTrashOperation(async () => {
+      const apiResponse = await todoApiService.getTrash(projectId);
+      return apiResponse.data.todos || [];
+    });
+  }
+
+  /**
+   * 휴지통 TODO 영구 삭제 (복원할 수 없음)
+   */
+  async purgeTodo(
+    id: string,
+    projectId?: string,
+  ): Promise<StorageOperationResult<void>> {
+    return this.runTrashOperation(async () => {
+      await todoApiService.purgeTodo(id, projectId);
+    });
+  }
+
+  /**
+   * 프로젝트 휴지통 TODO 복원 (editor 이상)
+   */
+  async restoreProjectTodo(
+    projectId: string,
+    id: string,
+  ): Promise<StorageOperationResult<Todo>> {
+    return this.runTrashOperation(async () => {
+      const apiResponse = await todoApiService.restoreTodo(id, projectId);
+      return apiResponse.data;
+    });
+  }
+
+  /**
+   * 휴지통 작업 실행 (휴지통은 서버에만 있으므로 온라인에서만)
+   */
+  private async runTrashOperation<T>(
+    operation: () => Promise<T>,
+  ): Promise<StorageOperationResult<T>> {
+    if (!this.canUseAPI()) {
+      return {
+        success: false,
+        error: "휴지통은 온라인에서만 사용할 수 있습니다",
+      };
+    }
+
+    try {
+      return { success: true, data: await operation() };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Trash request failed",
+      };
+    }
+  }
+
+  // ================================
+  // 활동 기록
+  // ================================
+
+  /**
+   * Todo 활동 기록 조회 (서버에만 저장되므로 온라인에서만 조회)
+   */
+  async getTodoActivity(
+    id: string,
+    projectId?: string,
+  ): Promise<StorageOperationResult<TodoActivity[]>> {
+    if (!this.canUseAPI()) {
+      return {
+        success: false,
+        error: "활동 기록은 온라인에서만 볼 수 있습니다",
+      };
+    }
+
+    try {
+      const apiResponse = await todoApiService.getTodoActivity(id, projectId);
+      return { success: true, data: apiResponse.data.activities || [] };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to fetch activity",
+      };
+    }
+  }
+
+  // ================================
+  // 체크리스트 작업
+  // ================================
+
+  /**
+   * 체크리스트 항목 목록 조회
+   * 온라인이면 서버 목록으로 로컬을 갱신하고, 오프라인이면 로컬 항목 반환
+   */
+  async getChecklistItems(
+    todoId: string,
+  ): Promise<StorageOperationResult<ChecklistItem[]>> {
+    try {
+      if (this.canUseAPI()) {
+        const apiResponse = await todoApiService.getChecklistItems(todoId);
+        const items = apiResponse.data.items || [];
+        offlineStorage.saveChecklistItems(todoId, items);
+        return { success: true, data: items };
+      }
+
+      return { success: true, data: offlineStorage.getChecklistItems(todoId) };
+    } catch (error) {
+      // API 실패시 로컬 항목 폴백
+      return {
+        success: false,
+        data: offlineStorage.getChecklistItems(todoId),
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch checklist items",
+      };
+    }
+  }
+
+  /**
+   * 체크리스트 항목 추가 (목록 맨 뒤)
+   */
+  async addChecklistItem(
+    todoId: string,
+    title: string,
+  ): Promise<StorageOperationResult<ChecklistItem>> {
+    const items = offlineStorage.getChecklistItems(todoId);
+    const optimisticItem: ChecklistItem = {
+      id: crypto.randomUUID(),
+      todoId,
+      title,
+      completed: false,
+      position: items.reduce(
+        (max, item) => Math.max(max, item.position + 1),
+        0,
+      ),
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    return this.runChecklistOperation(
+      todoId,
+      [...items, optimisticItem],
+      optimisticItem,
+      { action: "create", itemId: optimisticItem.id, title, completed: false },
+      async () => {
+        const response = await todoApiService.createChecklistItem(todoId, {
+          title,
+        });
+        // 서버가 발급한 ID로 로컬 항목 교체
+        offlineStorage.saveChecklistItems(todoId, [...items, response.data]);
+        return response.data;
+      },
+    );
+  }
+
+  /**
+   * 체크리스트 항목 수정 (제목, 완료 여부)
+   */
+  async updateChecklistItem(
+    todoId: string,
+    itemId: string,
+    changes: { title?: string; completed?: boolean },
+  ): Promise<StorageOperationResult<ChecklistItem>> {
+    const items = offlineStorage.getChecklistItems(todoId);
+    const existingItem = items.find((item) => item.id === itemId);
+    if (!existingItem) {
+      return { success: false, error: "Checklist item not found" };
+    }
+
+    const updatedItem: ChecklistItem = {
+      ...existingItem,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    };
+
+    return this.runChecklistOperation(
+      todoId,
+      items.map((item) => (item.id === itemId ? updatedItem : item)),
+      updatedItem,
+      { action: "update", itemId, changes },
+      async () => {
+        const response = await todoApiService.updateChecklistItem(
+          todoId,
+          itemId,
+          changes,
+        );
+        return response.data;
+      },
+    );
+  }
+
+  /**
+   * 체크리스트 항목 삭제
+   */
+  async deleteChecklistItem(
+    todoId: string,
+    itemId: string,
+  ): Promise<StorageOperationResult<void>> {
+    const items = offlineStorage.getChecklistItems(todoId);
+
+    return this.runChecklistOperation(
+      todoId,
+      items.filter((item) => item.id !== itemId),
+      undefined,
+      { action: "delete", itemId },
+      async () => {
+        await todoApiService.deleteChecklistItem(todoId, itemId);
+      },
+    );
+  }
+
+  /**
+   * 체크리스트 항목 순서 변경 (모든 항목 ID를 새 순서대로 전달)
+   */
+  async reorderChecklistItems(
+    todoId: string,
+    itemIds: string[],
+  ): Promise<StorageOperationResult<ChecklistItem[]>> {
+    const reorderedItems = offlineStorage
+      .getChecklistItems(todoId)
+      .map((item) => ({ ...item, position: itemIds.indexOf(item.id) }));
+
+    return this.runChecklistOperation(
+      todoId,
+      reorderedItems,
+      reorderedItems,
+      { action: "reorder", itemIds },
+      async () => {
+        const response = await todoApiService.reorderChecklistItems(
+          todoId,
+          itemIds,
+        );
+        return response.data.items;
+      },
+    );
+  }
+
+  /**
+   * 체크리스트 작업 공통 처리
+   * 로컬에 먼저 반영한 뒤 온라인이면 API 호출, 실패하거나 오프라인이면 대기 큐에 추가
+   */
+  private async runChecklistOperation<T>(
+    todoId: string,
+    optimisticItems: ChecklistItem[],
+    optimisticData: T,
+    operation: ChecklistOperation,
+    apiCall: () => Promise<T>,
+  ): Promise<StorageOperationResult<T>> {
+    if (this.config.enableOptimisticUpdates) {
+      offlineStorage.saveChecklistItems(todoId, optimisticItems);
+      this.cache.clear();
+    }
+
+    if (this.canUseAPI()) {
+      try {
+        const data = await apiCall();
+        return { success: true, data, isOptimistic: false };
+      } catch {
+        // API 실패시 대기 큐에 추가
+      }
+    }
+
+    const operationId = crypto.randomUUID();
+    const queued = syncManager.queueOperation("checklist", todoId, operation);
+    if (!queued) {
+      return {
+        success: false,
+        error: "Failed to queue operation for later sync",
+      };
+    }
+
+    return {
+      success: true,
+      data: optimisticData,
+      isOptimistic: true,
+      operationId,
+    };
+  }
+
+  // ================================
+  // 공유 프로젝트 (온라인 전용)
+  // ================================
+
+  /**
+   * 내가 속한 프로젝트 목록 (오프라인이면 빈 목록)
+   */
+  async getProjects(): Promise<StorageOperationResult<Project[]>> {
+    if (!this.canUseAPI()) {
+      return { success: true, data: [] };
+    }
+
+    return this.runProjectOperation(async () => {
+      const apiResponse = await todoApiService.getProjects();
+      return apiResponse.data.projects || [];
+    });
+  }
+
+  /**
+   * 프로젝트 생성 (만든 사용자가 owner)
+   */
+  async createProject(name: string): Promise<StorageOperationResult<Project>> {
+    return this.runProjectOperation(async () => {
+      const apiResponse = await todoApiService.createProject({ name });
+      return apiResponse.data;
+    });
+  }
+
+  /**
+   * 프로젝트 Todo 목록 조회 (수동 정렬이면 서버가 rank 순으로 나눠 보냄)
+   */
+  async getProjectTodos(
+    projectId: string,
+    sortBy?: SortBy,
+  ): Promise<StorageOperationResult<Todo[]>> {
+    return this.runProjectOperation(async () => {
+      const apiResponse = await todoApiService.getTodos({
+        projectId,
+        sortBy,
+        limit: 100,
+      });
+      return apiResponse.data.todos || [];
+    });
+  }
+
+  /**
+   * 나에게 할당된 프로젝트 Todo 목록 조회 (projectId를 주면 그 프로젝트에서만)
+   */
+  async getAssignedTodos(
+    projectId?: string,
+    sortBy?: SortBy,
+  ): Promise<StorageOperationResult<Todo[]>> {
+    return this.runProjectOperation(async () => {
+      const apiResponse = await todoApiService.getTodos({
+        assignee: "me",
+        projectId,
+        sortBy,
+        limit: 100,
+      });
+      return apiResponse.data.todos || [];
+    });
+  }
+
+  /**
+   * 프로젝트 멤버 목록 조회 (담당자 선택용)
+   */
+  async getProjectMembers(
+    projectId: string,
+  ): Promise<StorageOperationResult<ProjectMember[]>> {
+    return this.runProjectOperation(async () => {
+      const apiResponse = await todoApiService.getProjectMembers(projectId);
+      return apiResponse.data.members || [];
+    });
+  }
+
+  /**
+   * 프로젝트 Todo 생성 (editor 이상)
+   */
+  async createProjectTodo(
+    projectId: string,
+    todoData: CreateTodoRequest,
+  ): Promise<StorageOperationResult<void>> {
+    return this.runProjectOperation(async () => {
+      await todoApiService.createTodo(todoData, projectId);
+    });
+  }
+
+  /**
+   * 프로젝트 Todo 수정 (editor 이상)
+   */
+  async updateProjectTodo(
+    projectId: string,
+    id: string,
+    updates: UpdateTodoRequest,
+  ): Promise<StorageOperationResult<void>> {
+    return this.runProjectOperation(async () => {
+      await todoApiService.updateTodo(id, updates, projectId);
+    });
+  }
+
+  /**
+   * 프로젝트 Todo 삭제 (editor 이상)
+   */
+  async deleteProjectTodo(
+    projectId: string,
+    id: string,
+  ): Promise<StorageOperationResult<void>> {
+    return this.runProjectOperation(async () => {
+      await todoApiService.deleteTodo(id, projectId);
+    });
+  }
+
+  /**
+   * 프로젝트 작업 실행 (다른 멤버와 함께 쓰는 데이터라 로컬 저장이나 대기 작업 없이 서버에 바로 요청)
+   */
+  private async runProjectOperation<T>(
+    operation: () => Promise<T>,
+  ): Promise<StorageOperationResult<T>> {
+    if (!this.canUseAPI()) {
+      return {
+        success: false,
+        error: "공유 프로젝트는 온라인에서만 사용할 수 있습니다",
+      };
+    }
+
+    try {
+      return { success: true, data: await operation() };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Project request failed",
+      };
+    }
+  }
+
   // ================================
   // 동기화 관련 메서드
   // ================================
@@ -594,4 +1108,27 @@ export const storageUtils = {
   getData<T>(result: StorageOperationResult<T>): T | null {
     return result.data || null;
   },
+
+  /**
+   * TODO 목록에서 태그별 사용 횟수 집계 (대소문자 구분 없음, 사용 횟수 내림차순)
+   */
+  countTagUsage(todos: Todo[]): TagUsage[] {
+    const usageByKey = new Map<string, TagUsage>();
+
+    todos.forEach((todo) => {
+      todo.tags?.forEach((tag) => {
+        const key = tag.toLowerCase();
+        const usage = usageByKey.get(key);
+        if (usage) {
+          usage.count++;
+        } else {
+          usageByKey.set(key, { tag, count: 1 });
+        }
+      });
+    });
+
+    return [...usageByKey.values()].sort(
+      (a, b) => b.count - a.count || a.tag.localeCompare(b.tag),
+    );
+  },
 };
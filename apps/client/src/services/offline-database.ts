@@ -0,0 +1,195 @@
+/**
+ * 오프라인 데이터베이스 (IndexedDB)
+ *
+ * 오프라인 스토리지 서비스의 영속 계층입니다.
+ * - todos: TODO 레코드 (updatedAt, completed 인덱스)
+ * - pendingOps: 대기 중인 작업 (작업 시간 순서)
+ * - meta: 동기화 메타데이터, 사용자 설정, 동기화 기준 사본 (키-값)
+ * 사생활 보호 모드처럼 IndexedDB를 열 수 없는 환경에서는 open()이 실패하므로
+ * 호출하는 쪽에서 메모리 저장으로 대체합니다.
+ */
+
+import type { Todo } from "@vive/types";
+import type { PendingOperation } from "../contexts/todo.reducer";
+
+const DB_NAME = "hanbit_offline";
+const DB_VERSION = 1;
+
+const STORES = {
+  TODOS: "todos",
+  PENDING_OPS: "pendingOps",
+  META: "meta",
+} as const;
+
+const ALL_STORES = [STORES.TODOS, STORES.PENDING_OPS, STORES.META];
+
+/**
+ * TODO 레코드 (completed는 boolean이라 인덱스 키가 될 수 없어 0/1로 저장)
+ */
+interface TodoRecord {
+  id: string;
+  updatedAt: string;
+  completed: 0 | 1;
+  todo: Todo;
+}
+
+/**
+ * 대기 작업 레코드 (order는 작업 시간 - 대기열 순서)
+ */
+interface PendingOperationRecord {
+  id: string;
+  order: number;
+  operation: PendingOperation;
+}
+
+interface MetaRecord {
+  key: string;
+  value: unknown;
+}
+
+/**
+ * 저장된 전체 데이터
+ */
+export interface OfflineSnapshot {
+  todos: Todo[];
+  operations: PendingOperation[];
+  meta: Map<string, unknown>;
+}
+
+/**
+ * 한 번의 트랜잭션으로 반영할 변경분
+ */
+export interface OfflineChangeSet {
+  clear: boolean; // true면 TODO와 대기 작업을 모두 지운 뒤 반영
+  putTodos: Todo[];
+  deleteTodoIds: string[];
+  putOperations: PendingOperation[];
+  deleteOperationIds: string[];
+  putMeta: Array<[string, unknown]>;
+  deleteMetaKeys: string[];
+}
+
+/**
+ * IndexedDB 오프라인 데이터베이스
+ */
+export class OfflineDatabase {
+  private db: IDBDatabase;
+
+  private constructor(db: IDBDatabase) {
+    this.db = db;
+
+    // 다른 탭에서 스키마를 올리면 연결을 닫아 업그레이드를 막지 않음
+    this.db.onversionchange = () => this.db.close();
+  }
+
+  /**
+   * 데이터베이스 열기 (처음 열 때 스토어와 인덱스 생성)
+   */
+  static async open(): Promise<OfflineDatabase> {
+    if (typeof indexedDB === "undefined") {
+      throw new Error("IndexedDB is not supported");
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const todoStore = db.createObjectStore(STORES.TODOS, { keyPath: "id" });
+      todoStore.createIndex("updatedAt", "updatedAt");
+      todoStore.createIndex("completed", "completed");
+      db.createObjectStore(STORES.PENDING_OPS, { keyPath: "id" });
+      db.createObjectStore(STORES.META, { keyPath: "key" });
+    };
+
+    return new OfflineDatabase(await requestToPromise(request));
+  }
+
+  /**
+   * 저장된 데이터 전체 불러오기
+   */
+  async load(): Promise<OfflineSnapshot> {
+    const transaction = this.db.transaction(ALL_STORES, "readonly");
+    const [todoRecords, operationRecords, metaRecords] = await Promise.all([
+      requestToPromise<TodoRecord[]>(
+        transaction.objectStore(STORES.TODOS).getAll(),
+      ),
+      requestToPromise<PendingOperationRecord[]>(
+        transaction.objectStore(STORES.PENDING_OPS).getAll(),
+      ),
+      requestToPromise<MetaRecord[]>(
+        transaction.objectStore(STORES.META).getAll(),
+      ),
+    ]);
+
+    return {
+      // 키(id) 순으로 나오므로 생성 순서로 되돌림
+      todos: todoRecords
+        .map((record) => record.todo)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+      operations: operationRecords
+        .sort((a, b) => a.order - b.order)
+        .map((record) => record.operation),
+      meta: new Map(metaRecords.map((record) => [record.key, record.value])),
+    };
+  }
+
+  /**
+   * 변경분을 하나의 트랜잭션으로 저장 (실패하면 전부 반영되지 않음)
+   */
+  async write(changes: OfflineChangeSet): Promise<void> {
+    const transaction = this.db.transaction(ALL_STORES, "readwrite");
+
+    const todoStore = transaction.objectStore(STORES.TODOS);
+    const operationStore = transaction.objectStore(STORES.PENDING_OPS);
+    if (changes.clear) {
+      todoStore.clear();
+      operationStore.clear();
+    }
+    changes.deleteTodoIds.forEach((id) => todoStore.delete(id));
+    changes.putTodos.forEach((todo) => todoStore.put(toTodoRecord(todo)));
+    changes.deleteOperationIds.forEach((id) => operationStore.delete(id));
+    changes.putOperations.forEach((operation) =>
+      operationStore.put(toOperationRecord(operation)),
+    );
+
+    const metaStore = transaction.objectStore(STORES.META);
+    changes.deleteMetaKeys.forEach((key) => metaStore.delete(key));
+    changes.putMeta.forEach(([key, value]) => metaStore.put({ key, value }));
+
+    await transactionToPromise(transaction);
+  }
+}
+
+function toTodoRecord(todo: Todo): TodoRecord {
+  return {
+    id: todo.id,
+    updatedAt: todo.updatedAt,
+    completed: todo.completed ? 1 : 0,
+    todo,
+  };
+}
+
+function toOperationRecord(
+  operation: PendingOperation,
+): PendingOperationRecord {
+  return {
+    id: operation.id,
+    order: operation.timestamp.getTime(),
+    operation,
+  };
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+  });
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { Todo } from "@vive/types";
+
+const legacyTodo: Todo = {
+  id: "todo-1",
+  title: "장보기",
+  completed: false,
+  priority: "medium",
+  createdAt: "2024-03-01T00:00:00.000Z",
+  updatedAt: "2024-03-01T00:00:00.000Z",
+};
+
+// jsdom에는 IndexedDB가 없으므로 메모리 저장소로 대체되는 경로를 검사
+async function loadOfflineStorage() {
+  vi.resetModules();
+  const { offlineStorage } = await import("./offline-storage");
+  await offlineStorage.ready;
+  return offlineStorage;
+}
+
+describe("offlineStorage", () => {
+  beforeEach(() => {
+    vi.mocked(localStorage.getItem).mockImplementation((key) => {
+      switch (key) {
+        case "hanbit_todos_offline":
+          return JSON.stringify([legacyTodo]);
+        case "hanbit_pending_operations":
+          return JSON.stringify([
+            {
+              id: "op-1",
+              type: "create",
+              todoId: "todo-1",
+              timestamp: "2024-03-01T00:00:00.000Z",
+              retryCount: 0,
+            },
+          ]);
+        case "hanbit_sync_bases":
+          return JSON.stringify({ "todo-1": legacyTodo });
+        default:
+          return null;
+      }
+    });
+  });
+
+  it("should fall back to memory with the data left in localStorage", async () => {
+    const offlineStorage = await loadOfflineStorage();
+
+    expect(offlineStorage.getTodos()).toEqual([legacyTodo]);
+    expect(offlineStorage.getSyncBase("todo-1")).toEqual(legacyTodo);
+    expect(offlineStorage.getPendingOperations()[0].timestamp).toBeInstanceOf(
+      Date,
+    );
+    expect(offlineStorage.getSyncMetadata()).not.toBeNull();
+    expect(offlineStorage.getStorageStats().backend).toBe("memory");
+    // 옮겨 저장하지 못했으므로 이전 데이터는 지우지 않음
+    expect(localStorage.removeItem).not.toHaveBeenCalled();
+  });
+
+  it("should keep writes in memory without touching localStorage", async () => {
+    const offlineStorage = await loadOfflineStorage();
+    vi.mocked(localStorage.setItem).mockClear();
+
+    offlineStorage.updateTodo("todo-1", { completed: true });
+    offlineStorage.addTodo({ ...legacyTodo, id: "todo-2" });
+    offlineStorage.removeSyncBase("todo-1");
+
+    expect(offlineStorage.getTodoById("todo-1")?.completed).toBe(true);
+    expect(offlineStorage.getTodos().map((todo) => todo.id)).toEqual([
+      "todo-1",
+      "todo-2",
+    ]);
+    expect(offlineStorage.getSyncBase("todo-1")).toBeNull();
+    expect(localStorage.setItem).not.toHaveBeenCalled();
+  });
+});
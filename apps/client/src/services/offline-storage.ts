@@ -3,21 +3,45 @@
  *
  * 오프라인 상황에서 사용자의 작업 내역을 로컬에 저장하고,
  * 온라인 복구 시 동기화할 수 있도록 관리하는 서비스
+ *
+ * 데이터는 IndexedDB에 저장하고, 동기 API를 유지하기 위해 메모리에 올려 둔 사본을 읽고
+ * 바뀐 레코드만 모아 IndexedDB에 씁니다. 처음 읽기 전에는 ready를 기다려야 합니다.
+ * IndexedDB를 쓸 수 없으면(사생활 보호 모드 등) 메모리에만 저장합니다.
+ * 저장한 변경분은 다른 탭에 알려 각 탭의 메모리 사본을 같게 유지합니다.
  */
 
-import type { Todo } from "@vive/types";
+import type { Todo, ChecklistItem } from "@vive/types";
 import type { PendingOperation } from "../contexts/todo.reducer";
+import { withChecklistItems } from "../contexts/todo.reducer";
+import {
+  OfflineDatabase,
+  type OfflineChangeSet,
+  type OfflineSnapshot,
+} from "./offline-database";
+import { tabCoordinator } from "./tab-coordinator";
+import type { BackgroundSyncRequest } from "./sync-batch";
 
 /**
- * 오프라인 저장소 키 상수들
+ * 이전 버전(localStorage)의 저장소 키 - IndexedDB로 한 번 옮긴 뒤 삭제
  */
-const STORAGE_KEYS = {
+const LEGACY_STORAGE_KEYS = {
   OFFLINE_TODOS: "hanbit_todos_offline",
   PENDING_OPERATIONS: "hanbit_pending_operations",
   SYNC_METADATA: "hanbit_sync_metadata",
+  SYNC_BASES: "hanbit_sync_bases",
   USER_PREFERENCES: "hanbit_user_preferences",
 } as const;
 
+/**
+ * meta 스토어 키
+ */
+const META_KEYS = {
+  SYNC_METADATA: "syncMetadata",
+  USER_PREFERENCES: "userPreferences",
+  SYNC_BASE_PREFIX: "syncBase:",
+  BACKGROUND_SYNC: "backgroundSync",
+} as const;
+
 /**
  * 동기화 메타데이터
  */
@@ -29,6 +53,7 @@ export interface SyncMetadata {
   lastFailedAt: string | null;
   deviceId: string;
   version: string;
+  changeToken?: string | null; // 다음 증분 동기화에 쓸 변경 토큰 (GET /todos/changes)
 }
 
 /**
@@ -41,6 +66,16 @@ export interface UserPreferences {
   batchSize: number;
 }
 
+/**
+ * 서비스 워커가 탭 없이 대기 작업을 보낼 때 쓰는 API 정보 (public/sw.js에서 읽음)
+ */
+export interface BackgroundSyncConfig {
+  apiBaseUrl: string;
+  accessToken: string;
+  requests: BackgroundSyncRequest[]; // 넘길 때의 대기열로 변환한 배치 작업 (대기열 순서)
+  updatedAt: string;
+}
+
 /**
  * 저장소 통계
  */
@@ -50,6 +85,49 @@ export interface StorageStats {
   storageUsed: number; // KB 단위
   lastModified: string | null;
   isHealthy: boolean;
+  backend: "indexeddb" | "memory";
+}
+
+/**
+ * 아직 IndexedDB에 쓰지 않은 변경 표시
+ */
+interface DirtyState {
+  cleared: boolean;
+  todoIds: Set<string>;
+  operationIds: Set<string>;
+  metaKeys: Set<string>;
+}
+
+function createDirtyState(): DirtyState {
+  return {
+    cleared: false,
+    todoIds: new Set(),
+    operationIds: new Set(),
+    metaKeys: new Set(),
+  };
+}
+
+function createEmptySnapshot(): OfflineSnapshot {
+  return { todos: [], operations: [], meta: new Map() };
+}
+
+/**
+ * 스냅샷 전체를 저장하는 변경분 (이전 데이터 옮기기용)
+ */
+function toChangeSet(snapshot: OfflineSnapshot): OfflineChangeSet {
+  return {
+    clear: true,
+    putTodos: snapshot.todos,
+    deleteTodoIds: [],
+    putOperations: snapshot.operations,
+    deleteOperationIds: [],
+    putMeta: [...snapshot.meta],
+    deleteMetaKeys: [],
+  };
+}
+
+function syncBaseKey(todoId: string): string {
+  return `${META_KEYS.SYNC_BASE_PREFIX}${todoId}`;
 }
 
 /**
@@ -59,21 +137,107 @@ class OfflineStorageService {
   private deviceId: string;
   private version = "1.0.0";
 
+  // IndexedDB에서 불러온 데이터의 메모리 사본
+  private todos: Todo[] = [];
+  private operations: PendingOperation[] = [];
+  private meta = new Map<string, unknown>();
+
+  private database: OfflineDatabase | null = null;
+  private dirty = createDirtyState();
+  private flushScheduled = false;
+  private pendingWrite: Promise<void>;
+  private externalChangeListeners = new Set<() => void>();
+
+  /**
+   * 저장된 데이터를 메모리로 불러오면 완료 (처음 읽기 전에 기다려야 함)
+   */
+  readonly ready: Promise<void>;
+
   constructor() {
     this.deviceId = this.generateDeviceId();
-    this.initializeStorage();
+    this.ready = this.hydrate();
+    this.pendingWrite = this.ready;
+
+    // 다른 탭이 저장한 변경분을 메모리 사본에 반영 (불러오기가 끝난 뒤 받은 순서대로)
+    tabCoordinator.subscribe((message) => {
+      if (message.type === "storage_changed") {
+        this.ready.then(() => this.applyRemoteChanges(message.changes));
+      }
+    });
   }
 
   // ================================
   // 초기화 및 설정
   // ================================
 
+  /**
+   * IndexedDB를 열고 저장된 데이터를 메모리로 불러오기
+   * 처음 열 때는 localStorage에 남아 있는 이전 데이터를 옮겨 옴
+   */
+  private async hydrate(): Promise<void> {
+    try {
+      const database = await OfflineDatabase.open();
+      let snapshot = await database.load();
+
+      if (snapshot.meta.size === 0) {
+        const legacySnapshot = this.readLegacyData();
+        if (legacySnapshot) {
+          await database.write(toChangeSet(legacySnapshot));
+          this.removeLegacyData();
+          snapshot = legacySnapshot;
+        }
+      }
+
+      this.database = database;
+      this.applySnapshot(snapshot);
+    } catch (error) {
+      console.warn(
+        "IndexedDB is unavailable, keeping offline data in memory:",
+        error,
+      );
+      this.database = null;
+      this.applySnapshot(this.readLegacyData() ?? createEmptySnapshot());
+    }
+
+    this.initializeStorage();
+  }
+
+  /**
+   * 불러온 데이터를 메모리에 반영
+   * 불러오기 전에 바뀐 값은 아직 저장되지 않았으므로 불러온 값보다 우선
+   */
+  private applySnapshot(snapshot: OfflineSnapshot): void {
+    const earlyTodos = this.todos;
+    const earlyOperations = this.operations;
+
+    this.todos = this.dirty.cleared
+      ? earlyTodos
+      : [
+          ...snapshot.todos.filter((todo) => !this.dirty.todoIds.has(todo.id)),
+          ...earlyTodos,
+        ];
+    this.operations = this.dirty.cleared
+      ? earlyOperations
+      : [
+          ...snapshot.operations.filter(
+            (operation) => !this.dirty.operationIds.has(operation.id),
+          ),
+          ...earlyOperations,
+        ];
+
+    for (const [key, value] of snapshot.meta) {
+      if (!this.dirty.metaKeys.has(key)) {
+        this.meta.set(key, value);
+      }
+    }
+  }
+
   /**
    * 저장소 초기화
    */
   private initializeStorage(): void {
     // 기본 설정 초기화
-    if (!this.getItem(STORAGE_KEYS.USER_PREFERENCES)) {
+    if (!this.getUserPreferences()) {
       const defaultPreferences: UserPreferences = {
         autoSync: true,
         offlineMode: false,
@@ -84,7 +248,7 @@ class OfflineStorageService {
     }
 
     // 메타데이터 초기화
-    if (!this.getItem(STORAGE_KEYS.SYNC_METADATA)) {
+    if (!this.getSyncMetadata()) {
       const defaultMetadata: SyncMetadata = {
         lastSyncAt: null,
         userId: null,
@@ -96,14 +260,6 @@ class OfflineStorageService {
       };
       this.saveSyncMetadata(defaultMetadata);
     }
-
-    // 빈 배열 초기화
-    if (!this.getItem(STORAGE_KEYS.OFFLINE_TODOS)) {
-      this.setItem(STORAGE_KEYS.OFFLINE_TODOS, []);
-    }
-    if (!this.getItem(STORAGE_KEYS.PENDING_OPERATIONS)) {
-      this.setItem(STORAGE_KEYS.PENDING_OPERATIONS, []);
-    }
   }
 
   /**
@@ -121,13 +277,63 @@ class OfflineStorageService {
   }
 
   // ================================
-  // 기본 저장소 유틸리티
+  // 이전 저장소(localStorage) 이전
   // ================================
 
+  /**
+   * localStorage에 남아 있는 이전 데이터 읽기 (없으면 null)
+   */
+  private readLegacyData(): OfflineSnapshot | null {
+    const todos = this.getLegacyItem<Todo[]>(LEGACY_STORAGE_KEYS.OFFLINE_TODOS);
+    const operations = this.getLegacyItem<PendingOperation[]>(
+      LEGACY_STORAGE_KEYS.PENDING_OPERATIONS,
+    );
+    const metadata = this.getLegacyItem<SyncMetadata>(
+      LEGACY_STORAGE_KEYS.SYNC_METADATA,
+    );
+    const bases = this.getLegacyItem<Record<string, Todo>>(
+      LEGACY_STORAGE_KEYS.SYNC_BASES,
+    );
+    const preferences = this.getLegacyItem<UserPreferences>(
+      LEGACY_STORAGE_KEYS.USER_PREFERENCES,
+    );
+
+    if (!todos && !operations && !metadata && !bases && !preferences) {
+      return null;
+    }
+
+    const meta = new Map<string, unknown>();
+    if (metadata) {
+      meta.set(META_KEYS.SYNC_METADATA, metadata);
+    }
+    if (preferences) {
+      meta.set(META_KEYS.USER_PREFERENCES, preferences);
+    }
+    for (const [id, base] of Object.entries(bases ?? {})) {
+      meta.set(syncBaseKey(id), base);
+    }
+
+    return {
+      todos: todos ?? [],
+      // JSON으로 저장되면서 문자열이 된 작업 시간을 Date로 복원
+      operations: (operations ?? []).map((operation) => ({
+        ...operation,
+        timestamp: new Date(operation.timestamp),
+      })),
+      meta,
+    };
+  }
+
+  private removeLegacyData(): void {
+    Object.values(LEGACY_STORAGE_KEYS).forEach((key) =>
+      localStorage.removeItem(key),
+    );
+  }
+
   /**
    * 안전한 localStorage 접근
    */
-  private getItem<T>(key: string): T | null {
+  private getLegacyItem<T>(key: string): T | null {
     try {
       const item = localStorage.getItem(key);
       return item ? JSON.parse(item) : null;
@@ -137,30 +343,176 @@ class OfflineStorageService {
     }
   }
 
+  // ================================
+  // 기본 저장소 유틸리티
+  // ================================
+
   /**
-   * 안전한 localStorage 저장
+   * 메모리 사본을 바꾸고 IndexedDB 쓰기 예약
    */
-  private setItem<T>(key: string, value: T): boolean {
+  private putTodoRecord(todo: Todo): void {
+    const index = this.todos.findIndex((item) => item.id === todo.id);
+    if (index === -1) {
+      this.todos.push(todo);
+    } else {
+      this.todos[index] = todo;
+    }
+    this.dirty.todoIds.add(todo.id);
+    this.scheduleFlush();
+  }
+
+  private deleteTodoRecord(id: string): void {
+    this.todos = this.todos.filter((todo) => todo.id !== id);
+    this.dirty.todoIds.add(id);
+    this.scheduleFlush();
+  }
+
+  private setOperations(operations: PendingOperation[]): void {
+    // 목록에서 빠진 작업은 삭제되도록 기존 작업도 함께 표시
+    [...this.operations, ...operations].forEach((operation) =>
+      this.dirty.operationIds.add(operation.id),
+    );
+    this.operations = [...operations];
+    this.scheduleFlush();
+  }
+
+  private getMeta<T>(key: string): T | null {
+    const value = this.meta.get(key) as T | undefined;
+    return value === undefined ? null : { ...value };
+  }
+
+  private setMeta(key: string, value: unknown): void {
+    this.meta.set(key, value);
+    this.dirty.metaKeys.add(key);
+    this.scheduleFlush();
+  }
+
+  private deleteMeta(key: string): void {
+    this.meta.delete(key);
+    this.dirty.metaKeys.add(key);
+    this.scheduleFlush();
+  }
+
+  /**
+   * 같은 틱에 바뀐 레코드를 모아 한 번에 쓰도록 예약 (불러오기가 끝난 뒤에 실행)
+   */
+  private scheduleFlush(): void {
+    if (this.flushScheduled) {
+      return;
+    }
+
+    this.flushScheduled = true;
+    this.pendingWrite = this.pendingWrite.then(() => this.flush());
+  }
+
+  private async flush(): Promise<void> {
+    this.flushScheduled = false;
+    const dirty = this.dirty;
+    this.dirty = createDirtyState();
+    const changes = this.toDirtyChangeSet(dirty);
+
     try {
-      localStorage.setItem(key, JSON.stringify(value));
-      return true;
+      await this.database?.write(changes);
+      tabCoordinator.post({ type: "storage_changed", changes });
     } catch (error) {
-      console.error(`Failed to save item to localStorage: ${key}`, error);
+      console.error("Failed to write offline data to IndexedDB", error);
+
+      // 쓰지 못한 변경은 다음 쓰기 때 다시 시도
+      this.restoreDirtyState(dirty);
 
       // 저장소 용량 초과 시 자동 정리 시도
       if (error instanceof Error && error.name === "QuotaExceededError") {
         this.cleanupOldData();
-        try {
-          localStorage.setItem(key, JSON.stringify(value));
-          return true;
-        } catch {
-          return false;
-        }
       }
-      return false;
     }
   }
 
+  private toDirtyChangeSet(dirty: DirtyState): OfflineChangeSet {
+    const putTodos = this.todos.filter((todo) => dirty.todoIds.has(todo.id));
+    const putTodoIds = new Set(putTodos.map((todo) => todo.id));
+    const putOperations = this.operations.filter((operation) =>
+      dirty.operationIds.has(operation.id),
+    );
+    const putOperationIds = new Set(
+      putOperations.map((operation) => operation.id),
+    );
+
+    return {
+      clear: dirty.cleared,
+      putTodos,
+      deleteTodoIds: [...dirty.todoIds].filter((id) => !putTodoIds.has(id)),
+      putOperations,
+      deleteOperationIds: [...dirty.operationIds].filter(
+        (id) => !putOperationIds.has(id),
+      ),
+      putMeta: [...dirty.metaKeys]
+        .filter((key) => this.meta.has(key))
+        .map((key) => [key, this.meta.get(key)]),
+      deleteMetaKeys: [...dirty.metaKeys].filter((key) => !this.meta.has(key)),
+    };
+  }
+
+  /**
+   * 다른 탭이 저장한 변경분을 메모리 사본에 반영 (이미 저장된 값이므로 다시 쓰지 않음)
+   * 이 탭에서 바꾸고 아직 쓰지 않은 레코드는 곧 덮어쓰게 되므로 건드리지 않음
+   */
+  private applyRemoteChanges(changes: OfflineChangeSet): void {
+    const dirty = this.dirty;
+
+    if (changes.clear) {
+      this.todos = this.todos.filter((todo) => dirty.todoIds.has(todo.id));
+      this.operations = this.operations.filter((operation) =>
+        dirty.operationIds.has(operation.id),
+      );
+    }
+
+    const deletedTodoIds = new Set(
+      changes.deleteTodoIds.filter((id) => !dirty.todoIds.has(id)),
+    );
+    this.todos = this.todos.filter((todo) => !deletedTodoIds.has(todo.id));
+    changes.putTodos
+      .filter((todo) => !dirty.todoIds.has(todo.id))
+      .forEach((todo) => {
+        const index = this.todos.findIndex((item) => item.id === todo.id);
+        if (index === -1) {
+          this.todos.push(todo);
+        } else {
+          this.todos[index] = todo;
+        }
+      });
+
+    const changedOperationIds = new Set([
+      ...changes.deleteOperationIds,
+      ...changes.putOperations.map((operation) => operation.id),
+    ]);
+    this.operations = [
+      ...this.operations.filter(
+        (operation) =>
+          !changedOperationIds.has(operation.id) ||
+          dirty.operationIds.has(operation.id),
+      ),
+      ...changes.putOperations.filter(
+        (operation) => !dirty.operationIds.has(operation.id),
+      ),
+    ].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    changes.deleteMetaKeys
+      .filter((key) => !dirty.metaKeys.has(key))
+      .forEach((key) => this.meta.delete(key));
+    changes.putMeta
+      .filter(([key]) => !dirty.metaKeys.has(key))
+      .forEach(([key, value]) => this.meta.set(key, value));
+
+    this.externalChangeListeners.forEach((listener) => listener());
+  }
+
+  private restoreDirtyState(dirty: DirtyState): void {
+    this.dirty.cleared ||= dirty.cleared;
+    dirty.todoIds.forEach((id) => this.dirty.todoIds.add(id));
+    dirty.operationIds.forEach((id) => this.dirty.operationIds.add(id));
+    dirty.metaKeys.forEach((key) => this.dirty.metaKeys.add(key));
+  }
+
   /**
    * 오래된 데이터 정리
    */
@@ -199,61 +551,123 @@ class OfflineStorageService {
    * 오프라인 TODO 목록 조회
    */
   getTodos(): Todo[] {
-    return this.getItem<Todo[]>(STORAGE_KEYS.OFFLINE_TODOS) || [];
+    // 호출한 쪽에서 고쳐도 저장된 사본이 바뀌지 않도록 복사해서 반환
+    return this.todos.map((todo) => ({ ...todo }));
   }
 
   /**
-   * 오프라인 TODO 목록 저장
+   * 오프라인 TODO 목록 저장 (목록 전체 교체)
    */
   saveTodos(todos: Todo[]): boolean {
-    return this.setItem(STORAGE_KEYS.OFFLINE_TODOS, todos);
+    // 목록에서 빠진 TODO는 삭제되도록 기존 TODO도 함께 표시
+    [...this.todos, ...todos].forEach((todo) =>
+      this.dirty.todoIds.add(todo.id),
+    );
+    this.todos = [...todos];
+    this.scheduleFlush();
+    return true;
   }
 
   /**
    * 특정 TODO 조회
    */
   getTodoById(id: string): Todo | null {
-    const todos = this.getTodos();
-    return todos.find((todo) => todo.id === id) || null;
+    const todo = this.todos.find((item) => item.id === id);
+    return todo ? { ...todo } : null;
   }
 
   /**
    * TODO 추가 (오프라인)
    */
   addTodo(todo: Todo): boolean {
-    const todos = this.getTodos();
-    const updatedTodos = [...todos, todo];
-    return this.saveTodos(updatedTodos);
+    this.putTodoRecord(todo);
+    return true;
   }
 
   /**
    * TODO 업데이트 (오프라인)
    */
   updateTodo(id: string, updates: Partial<Todo>): boolean {
-    const todos = this.getTodos();
-    const todoIndex = todos.findIndex((todo) => todo.id === id);
+    const todo = this.todos.find((item) => item.id === id);
 
-    if (todoIndex === -1) {
+    if (!todo) {
       return false;
     }
 
-    const updatedTodos = [...todos];
-    updatedTodos[todoIndex] = {
-      ...updatedTodos[todoIndex],
+    this.putTodoRecord({
+      ...todo,
       ...updates,
       updatedAt: new Date().toISOString(),
-    };
-
-    return this.saveTodos(updatedTodos);
+    });
+    return true;
   }
 
   /**
    * TODO 삭제 (오프라인)
    */
   deleteTodo(id: string): boolean {
-    const todos = this.getTodos();
-    const filteredTodos = todos.filter((todo) => todo.id !== id);
-    return this.saveTodos(filteredTodos);
+    this.deleteTodoRecord(id);
+    return true;
+  }
+
+  // ================================
+  // 동기화 기준 사본 관리
+  // ================================
+
+  /**
+   * TODO별 마지막으로 동기화한 서버 사본 조회 (3-way 병합의 기준)
+   */
+  getSyncBase(id: string): Todo | null {
+    return this.getMeta<Todo>(syncBaseKey(id));
+  }
+
+  /**
+   * 서버 사본을 동기화 기준으로 저장
+   */
+  saveSyncBase(todo: Todo): boolean {
+    this.setMeta(syncBaseKey(todo.id), todo);
+    return true;
+  }
+
+  /**
+   * 동기화 기준 사본 삭제 (서버에서 삭제된 TODO)
+   */
+  removeSyncBase(id: string): boolean {
+    if (this.meta.has(syncBaseKey(id))) {
+      this.deleteMeta(syncBaseKey(id));
+    }
+    return true;
+  }
+
+  private removeAllSyncBases(): void {
+    [...this.meta.keys()]
+      .filter((key) => key.startsWith(META_KEYS.SYNC_BASE_PREFIX))
+      .forEach((key) => this.deleteMeta(key));
+  }
+
+  // ================================
+  // 체크리스트 관리
+  // ================================
+
+  /**
+   * TODO의 체크리스트 항목 조회 (표시 순서대로)
+   */
+  getChecklistItems(todoId: string): ChecklistItem[] {
+    return this.getTodoById(todoId)?.checklist ?? [];
+  }
+
+  /**
+   * TODO의 체크리스트 항목 저장 (진행률도 함께 갱신)
+   */
+  saveChecklistItems(todoId: string, items: ChecklistItem[]): boolean {
+    const todo = this.todos.find((item) => item.id === todoId);
+
+    if (!todo) {
+      return false;
+    }
+
+    this.putTodoRecord(withChecklistItems(todo, items));
+    return true;
   }
 
   // ================================
@@ -264,16 +678,15 @@ class OfflineStorageService {
    * 대기 중인 작업 목록 조회
    */
   getPendingOperations(): PendingOperation[] {
-    return (
-      this.getItem<PendingOperation[]>(STORAGE_KEYS.PENDING_OPERATIONS) || []
-    );
+    return this.operations.map((operation) => ({ ...operation }));
   }
 
   /**
    * 대기 중인 작업 목록 저장
    */
   savePendingOperations(operations: PendingOperation[]): boolean {
-    return this.setItem(STORAGE_KEYS.PENDING_OPERATIONS, operations);
+    this.setOperations(operations);
+    return true;
   }
 
   /**
@@ -283,10 +696,12 @@ class OfflineStorageService {
     operation: Omit<PendingOperation, "id" | "timestamp" | "retryCount">,
   ): boolean {
     const operations = this.getPendingOperations();
+    const lastTimestamp = operations.at(-1)?.timestamp.getTime() ?? 0;
     const newOperation: PendingOperation = {
       ...operation,
       id: crypto.randomUUID(),
-      timestamp: new Date(),
+      // 작업 시간이 저장 순서가 되므로 같은 밀리초에 추가돼도 뒤에 오도록 보장
+      timestamp: new Date(Math.max(Date.now(), lastTimestamp + 1)),
       retryCount: 0,
     };
 
@@ -348,14 +763,15 @@ class OfflineStorageService {
    * 동기화 메타데이터 조회
    */
   getSyncMetadata(): SyncMetadata | null {
-    return this.getItem<SyncMetadata>(STORAGE_KEYS.SYNC_METADATA);
+    return this.getMeta<SyncMetadata>(META_KEYS.SYNC_METADATA);
   }
 
   /**
    * 동기화 메타데이터 저장
    */
   saveSyncMetadata(metadata: SyncMetadata): boolean {
-    return this.setItem(STORAGE_KEYS.SYNC_METADATA, metadata);
+    this.setMeta(META_KEYS.SYNC_METADATA, metadata);
+    return true;
   }
 
   /**
@@ -377,6 +793,25 @@ class OfflineStorageService {
     return this.saveSyncMetadata(updatedMetadata);
   }
 
+  /**
+   * 변경 토큰 조회 (없으면 전체 동기화부터 시작)
+   */
+  getChangeToken(): string | null {
+    return this.getSyncMetadata()?.changeToken ?? null;
+  }
+
+  /**
+   * 변경 토큰 저장 (null이면 토큰을 버려 다음 동기화를 전체 동기화로)
+   */
+  saveChangeToken(changeToken: string | null): boolean {
+    const metadata = this.getSyncMetadata();
+    if (!metadata) {
+      return false;
+    }
+
+    return this.saveSyncMetadata({ ...metadata, changeToken });
+  }
+
   /**
    * 동기화 실패 기록
    */
@@ -403,14 +838,30 @@ class OfflineStorageService {
    * 사용자 설정 조회
    */
   getUserPreferences(): UserPreferences | null {
-    return this.getItem<UserPreferences>(STORAGE_KEYS.USER_PREFERENCES);
+    return this.getMeta<UserPreferences>(META_KEYS.USER_PREFERENCES);
   }
 
   /**
    * 사용자 설정 저장
    */
   saveUserPreferences(preferences: UserPreferences): boolean {
-    return this.setItem(STORAGE_KEYS.USER_PREFERENCES, preferences);
+    this.setMeta(META_KEYS.USER_PREFERENCES, preferences);
+    return true;
+  }
+
+  /**
+   * 백그라운드 동기화 설정 조회
+   */
+  getBackgroundSyncConfig(): BackgroundSyncConfig | null {
+    return this.getMeta<BackgroundSyncConfig>(META_KEYS.BACKGROUND_SYNC);
+  }
+
+  /**
+   * 백그라운드 동기화 설정 저장 (서비스 워커에 대기 작업을 넘기기 전에 호출)
+   */
+  saveBackgroundSyncConfig(config: BackgroundSyncConfig): boolean {
+    this.setMeta(META_KEYS.BACKGROUND_SYNC, config);
+    return true;
   }
 
   // ================================
@@ -445,6 +896,7 @@ class OfflineStorageService {
       storageUsed,
       lastModified: metadata?.lastSyncAt || null,
       isHealthy: operations.length < 100 && (metadata?.failedSyncs || 0) < 5,
+      backend: this.database ? "indexeddb" : "memory",
     };
   }
 
@@ -470,6 +922,13 @@ class OfflineStorageService {
       issues.push(`저장소 사용량이 많습니다 (${stats.storageUsed}KB)`);
     }
 
+    // IndexedDB를 쓸 수 없어 메모리에만 저장하는 경우
+    if (stats.backend === "memory") {
+      issues.push(
+        "브라우저 저장소를 쓸 수 없어 새로고침하면 오프라인 데이터가 사라집니다",
+      );
+    }
+
     // 동기화 실패가 많은 경우
     const metadata = this.getSyncMetadata();
     if (metadata && metadata.failedSyncs > 5) {
@@ -492,6 +951,27 @@ class OfflineStorageService {
     };
   }
 
+  // ================================
+  // 탭 간 동기화
+  // ================================
+
+  /**
+   * 지금까지 바꾼 값이 모두 저장되면 완료 (다른 탭이 읽기 전에 기다릴 때 사용)
+   */
+  whenWritten(): Promise<void> {
+    return this.pendingWrite;
+  }
+
+  /**
+   * 다른 탭이 저장한 변경분이 반영될 때마다 알림
+   */
+  onExternalChange(listener: () => void): () => void {
+    this.externalChangeListeners.add(listener);
+    return () => {
+      this.externalChangeListeners.delete(listener);
+    };
+  }
+
   // ================================
   // 데이터 관리
   // ================================
@@ -501,10 +981,11 @@ class OfflineStorageService {
    */
   clearAllData(): boolean {
     try {
-      localStorage.removeItem(STORAGE_KEYS.OFFLINE_TODOS);
-      localStorage.removeItem(STORAGE_KEYS.PENDING_OPERATIONS);
-      localStorage.removeItem(STORAGE_KEYS.SYNC_METADATA);
-      localStorage.removeItem(STORAGE_KEYS.USER_PREFERENCES);
+      this.clearTodosAndOperations();
+      this.removeAllSyncBases();
+      this.deleteMeta(META_KEYS.BACKGROUND_SYNC);
+      this.deleteMeta(META_KEYS.SYNC_METADATA);
+      this.deleteMeta(META_KEYS.USER_PREFERENCES);
 
       // 재초기화
       this.initializeStorage();
@@ -516,14 +997,24 @@ class OfflineStorageService {
     }
   }
 
+  private clearTodosAndOperations(): void {
+    this.todos = [];
+    this.operations = [];
+    this.dirty.cleared = true;
+    this.dirty.todoIds.clear();
+    this.dirty.operationIds.clear();
+    this.scheduleFlush();
+  }
+
   /**
    * 특정 사용자 데이터만 초기화
    */
   clearUserData(): boolean {
     try {
       // TODO와 대기 작업은 초기화
-      this.setItem(STORAGE_KEYS.OFFLINE_TODOS, []);
-      this.setItem(STORAGE_KEYS.PENDING_OPERATIONS, []);
+      this.clearTodosAndOperations();
+      this.removeAllSyncBases();
+      this.deleteMeta(META_KEYS.BACKGROUND_SYNC);
 
       // 메타데이터는 사용자 정보만 초기화
       const metadata = this.getSyncMetadata();
@@ -535,6 +1026,7 @@ class OfflineStorageService {
           totalOperations: 0,
           failedSyncs: 0,
           lastFailedAt: null,
+          changeToken: null,
         };
         this.saveSyncMetadata(updatedMetadata);
       }
@@ -613,29 +1105,23 @@ export const offlineStorageUtils = {
   },
 
   /**
-   * 저장소 사용량 추정
+   * 저장소 사용량 추정 (IndexedDB를 포함한 origin 전체)
    */
-  getStorageUsage(): number {
-    let totalSize = 0;
-    for (const key in localStorage) {
-      if (Object.prototype.hasOwnProperty.call(localStorage, key)) {
-        const value = localStorage[key];
-        totalSize += key.length + (value?.length || 0);
-      }
+  async getStorageUsage(): Promise<number> {
+    try {
+      const estimate = await navigator.storage?.estimate();
+      return Math.round((estimate?.usage ?? 0) / 1024); // KB 단위
+    } catch {
+      return 0;
     }
-    return Math.round(totalSize / 1024); // KB 단위
   },
 
   /**
-   * 브라우저 지원 여부 확인
+   * 브라우저 지원 여부 확인 (지원하지 않으면 메모리에만 저장)
    */
   isSupported(): boolean {
     try {
-      return (
-        typeof Storage !== "undefined" &&
-        typeof localStorage !== "undefined" &&
-        localStorage !== null
-      );
+      return typeof indexedDB !== "undefined" && indexedDB !== null;
     } catch {
       return false;
     }
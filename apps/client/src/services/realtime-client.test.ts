@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RealtimeClient, type RealtimeStatus } from "./realtime-client";
+
+/**
+ * 테스트용 WebSocket 대역 (서버 대신 테스트에서 열기/메시지/닫기를 일으킴)
+ */
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  sent: string[] = [];
+  closed = false;
+  readonly url: string;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.closed = true;
+    this.onclose?.();
+  }
+
+  // 서버 쪽 동작
+  open() {
+    this.onopen?.();
+  }
+
+  receive(message: unknown) {
+    this.onmessage?.({
+      data: typeof message === "string" ? message : JSON.stringify(message),
+    });
+  }
+
+  drop() {
+    this.onclose?.();
+  }
+}
+
+function createClient() {
+  return new RealtimeClient({
+    url: "wss://realtime.example.com/api",
+    getToken: async () => "access-token",
+    createSocket: (url) => new FakeWebSocket(url) as unknown as WebSocket,
+  });
+}
+
+describe("RealtimeClient", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeWebSocket.instances = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should connect with the access token and deliver todo changes", async () => {
+    const client = createClient();
+    const messages = vi.fn();
+    const statuses: RealtimeStatus[] = [];
+    client.subscribe(messages);
+    client.onStatusChange((status) => statuses.push(status));
+
+    client.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const socket = FakeWebSocket.instances[0];
+    socket.open();
+
+    expect(socket.url).toBe(
+      "wss://realtime.example.com/api?token=access-token",
+    );
+    expect(statuses).toEqual(["connecting", "connected"]);
+
+    socket.receive({ type: "todo_changes", todos: [], deleted: [] });
+    socket.receive("not json");
+    socket.receive({ type: "unknown" });
+    expect(messages).toHaveBeenCalledTimes(1);
+
+    // 유휴 연결이 닫히지 않도록 ping 전송
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+    expect(socket.sent).toEqual([JSON.stringify({ action: "ping" })]);
+  });
+
+  it("should reconnect with backoff until disconnected", async () => {
+    const client = createClient();
+    client.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    FakeWebSocket.instances[0].open();
+
+    FakeWebSocket.instances[0].drop();
+    expect(client.getStatus()).toBe("disconnected");
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    // 연결하지 못하면 간격을 늘려 다시 시도
+    FakeWebSocket.instances[1].drop();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+
+    client.disconnect();
+    expect(FakeWebSocket.instances[2].closed).toBe(true);
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+  });
+});
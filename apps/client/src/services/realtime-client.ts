@@ -0,0 +1,243 @@
+/**
+ * 실시간 업데이트 클라이언트
+ *
+ * 서버 WebSocket API에 연결해 다른 기기에서 바뀐 TODO를 바로 받습니다.
+ * - 브라우저 WebSocket은 헤더를 보낼 수 없으므로 연결 주소에 액세스 토큰을 붙여 인증
+ * - 연결이 끊기면 점점 간격을 늘려 다시 연결하고, 유휴 연결이 닫히지 않도록 주기적으로 ping 전송
+ * - 연결되지 않은 동안에는 동기화 관리자의 주기적 동기화가 변경을 가져옴
+ */
+
+import type { RealtimeMessage } from "../types/api.types";
+import { appConfig } from "../config/app-config";
+import { authService } from "./auth.service";
+
+// API Gateway는 10분 동안 메시지가 없는 연결을 닫으므로 그보다 짧게
+const PING_INTERVAL = 5 * 60 * 1000;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 60 * 1000;
+
+/**
+ * 연결 상태
+ */
+export type RealtimeStatus = "disconnected" | "connecting" | "connected";
+
+type RealtimeMessageHandler = (message: RealtimeMessage) => void;
+type RealtimeStatusHandler = (status: RealtimeStatus) => void;
+
+/**
+ * 실시간 클라이언트 설정 (테스트에서는 WebSocket 대역과 고정 토큰을 넣음)
+ */
+export interface RealtimeClientOptions {
+  url: string;
+  getToken: () => Promise<string>;
+  createSocket?: (url: string) => WebSocket;
+}
+
+/**
+ * 실시간 업데이트 클라이언트 클래스
+ */
+export class RealtimeClient {
+  private readonly url: string;
+  private readonly getToken: () => Promise<string>;
+  private readonly createSocket: (url: string) => WebSocket;
+  private socket: WebSocket | null = null;
+  private status: RealtimeStatus = "disconnected";
+  private active = false; // connect() 이후 disconnect() 전까지 연결을 유지
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private messageHandlers = new Set<RealtimeMessageHandler>();
+  private statusHandlers = new Set<RealtimeStatusHandler>();
+
+  constructor(options: RealtimeClientOptions) {
+    this.url = options.url;
+    this.getToken = options.getToken;
+    this.createSocket =
+      options.createSocket ?? ((socketUrl) => new WebSocket(socketUrl));
+  }
+
+  // ================================
+  // 연결 관리
+  // ================================
+
+  /**
+   * 실시간 업데이트 사용 가능 여부 (주소가 설정되지 않으면 주기적 동기화만 사용)
+   */
+  isEnabled(): boolean {
+    return !!this.url;
+  }
+
+  /**
+   * 연결 시작 (이미 연결 중이면 무시)
+   */
+  connect(): void {
+    if (!this.isEnabled() || this.active) {
+      return;
+    }
+
+    this.active = true;
+    void this.open();
+  }
+
+  /**
+   * 연결 종료 (다시 연결하지 않음)
+   */
+  disconnect(): void {
+    this.active = false;
+    this.reconnectAttempts = 0;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopPing();
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.setStatus("disconnected");
+  }
+
+  private async open(): Promise<void> {
+    this.setStatus("connecting");
+
+    let token: string;
+    try {
+      token = await this.getToken();
+    } catch (error) {
+      console.warn("Realtime connection skipped - no access token:", error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    if (!this.active) {
+      return;
+    }
+
+    const socket = this.createSocket(
+      `${this.url}?${new URLSearchParams({ token }).toString()}`,
+    );
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.startPing();
+      this.setStatus("connected");
+    };
+    socket.onmessage = (event: MessageEvent) => this.handleMessage(event.data);
+    // 오류 뒤에는 항상 close가 이어지므로 재연결은 onclose에서만 처리
+    socket.onclose = () => {
+      if (this.socket !== socket) {
+        return;
+      }
+
+      this.socket = null;
+      this.stopPing();
+      this.setStatus("disconnected");
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.active) {
+      this.setStatus("disconnected");
+      return;
+    }
+
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts,
+      RECONNECT_MAX_DELAY,
+    );
+    this.reconnectAttempts++;
+    this.setStatus("disconnected");
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.active) {
+        void this.open();
+      }
+    }, delay);
+  }
+
+  private startPing(): void {
+    this.stopPing();
+    this.pingTimer = setInterval(() => {
+      this.socket?.send(JSON.stringify({ action: "ping" }));
+    }, PING_INTERVAL);
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  // ================================
+  // 메시지 처리
+  // ================================
+
+  private handleMessage(data: unknown): void {
+    let message: RealtimeMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch (error) {
+      console.warn("Ignoring malformed realtime message:", error);
+      return;
+    }
+
+    if (message?.type !== "todo_changes") {
+      return;
+    }
+
+    this.messageHandlers.forEach((handler) => handler(message));
+  }
+
+  private setStatus(status: RealtimeStatus): void {
+    if (this.status === status) {
+      return;
+    }
+
+    this.status = status;
+    this.statusHandlers.forEach((handler) => handler(status));
+  }
+
+  // ================================
+  // 공개 API
+  // ================================
+
+  /**
+   * 현재 연결 상태
+   */
+  getStatus(): RealtimeStatus {
+    return this.status;
+  }
+
+  /**
+   * 실시간 메시지 구독
+   */
+  subscribe(handler: RealtimeMessageHandler): () => void {
+    this.messageHandlers.add(handler);
+    return () => {
+      this.messageHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * 연결 상태 변경 구독
+   */
+  onStatusChange(handler: RealtimeStatusHandler): () => void {
+    this.statusHandlers.add(handler);
+    return () => {
+      this.statusHandlers.delete(handler);
+    };
+  }
+}
+
+/**
+ * 실시간 업데이트 클라이언트 인스턴스
+ */
+export const realtimeClient = new RealtimeClient({
+  url: appConfig.api.realtimeURL,
+  getToken: () => authService.getValidToken(),
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { Todo } from "@vive/types";
+import { APIStorageService } from "./api-storage.service";
+import type { TodoAPIClient } from "../api/todo-api-client";
+import type { GetTodosParams } from "../../types/api.types";
+
+const createTodo = (id: string, title: string): Todo => ({
+  id,
+  title,
+  completed: false,
+  priority: "medium",
+  createdAt: "2024-03-01T00:00:00.000Z",
+  updatedAt: "2024-03-01T00:00:00.000Z",
+});
+
+// GET /todos 응답 한 페이지 (cursor가 있으면 다음 페이지가 있음)
+const page = (todos: Todo[], cursor?: string) => ({
+  success: true,
+  data: {
+    todos,
+    pagination: {
+      count: todos.length,
+      scannedCount: 50,
+      cursor,
+      hasMore: !!cursor,
+    },
+  },
+});
+
+describe("APIStorageService", () => {
+  let getTodos: ReturnType<typeof vi.fn>;
+  let storage: APIStorageService;
+
+  beforeEach(() => {
+    getTodos = vi.fn();
+    storage = new APIStorageService({ getTodos } as unknown as TodoAPIClient);
+  });
+
+  describe("getTodos", () => {
+    it("should ask the server for the manual order", async () => {
+      // Given
+      getTodos.mockResolvedValue(page([createTodo("todo-1", "회의 준비")]));
+
+      // When
+      await storage.getTodos("all", "manual");
+
+      // Then
+      expect(getTodos).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: "all", sortBy: "manual" }),
+      );
+    });
+  });
+
+  describe("searchTodos", () => {
+    it("should keep following the cursor past pages without matches", async () => {
+      // Given - 부분 일치 검색은 DynamoDB 페이지마다 걸러내므로 첫 페이지가 비어 있을 수 있음
+      getTodos.mockImplementation(async (params: GetTodosParams) => {
+        if (params.match === "prefix") {
+          return page([]);
+        }
+        return params.cursor === "page-2"
+          ? page([createTodo("todo-2", "주간 회의록")])
+          : page([], "page-2");
+      });
+
+      // When
+      const results = await storage.searchTodos("회의");
+
+      // Then
+      expect(results.map((todo) => todo.id)).toEqual(["todo-2"]);
+      expect(getTodos).toHaveBeenLastCalledWith({
+        q: "회의",
+        match: "substring",
+        limit: 50,
+        cursor: "page-2",
+      });
+    });
+
+    it("should collect prefix matches from every page", async () => {
+      // Given
+      getTodos
+        .mockResolvedValueOnce(
+          page([createTodo("todo-1", "회의 준비")], "page-2"),
+        )
+        .mockResolvedValueOnce(page([createTodo("todo-2", "회의록 작성")]));
+
+      // When
+      const results = await storage.searchTodos("회의");
+
+      // Then
+      expect(results.map((todo) => todo.id)).toEqual(["todo-1", "todo-2"]);
+      expect(getTodos).toHaveBeenCalledTimes(2);
+      expect(getTodos.mock.calls[1][0]).toMatchObject({
+        match: "prefix",
+        cursor: "page-2",
+      });
+    });
+  });
+});
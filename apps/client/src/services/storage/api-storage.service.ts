@@ -1,8 +1,13 @@
-import type { Todo, Priority, FilterType } from "@vive/types";
+import type { Todo, Priority, FilterType, SortBy } from "@vive/types";
 import { AbstractStorageService } from "./abstract-storage.service";
 import { TodoAPIClient } from "../api/todo-api-client";
 import { APIError } from "../../errors/api-error";
 import { appConfig } from "../../config/app-config";
+import type { TitleSearchMatch } from "../../types/api.types";
+
+// 검색 한 페이지당 요청 수와 전체 결과 상한
+const SEARCH_PAGE_SIZE = 50;
+const SEARCH_RESULT_LIMIT = 200;
 
 /**
  * API 기반 스토리지 서비스
@@ -24,13 +29,16 @@ export class APIStorageService extends AbstractStorageService {
   // ================================
 
   /**
-   * 모든 TODO 조회
+   * 모든 TODO 조회 (수동 정렬이면 서버가 rank 순으로 보냄)
    */
-  async getTodos(filter?: FilterType): Promise<Todo[]> {
+  async getTodos(
+    filter?: FilterType,
+    sortBy: SortBy = "createdAt",
+  ): Promise<Todo[]> {
     try {
       const response = await this.apiClient.getTodos({
         filter,
-        sortBy: "createdAt",
+        sortBy,
         sortOrder: "desc",
       });
 
@@ -243,7 +251,8 @@ export class APIStorageService extends AbstractStorageService {
       const response = await this.apiClient.migrateFromLocalStorage({
         localStorageData: data,
         migrationOptions: {
-          preserveIds: false,
+          // 같은 ID로 저장해 마이그레이션을 다시 실행해도 중복이 생기지 않도록 함
+          preserveIds: true,
           mergeStrategy: "merge",
         },
       });
@@ -303,6 +312,71 @@ export class APIStorageService extends AbstractStorageService {
     }
   }
 
+  /**
+   * 제목으로 TODO 검색 (서버 제목 인덱스 사용)
+   * 접두사 일치 결과가 없으면 부분 일치로 다시 조회하고,
+   * 네트워크 오류 시에는 캐시된 목록에서 검색합니다
+   */
+  async searchTodos(query: string): Promise<Todo[]> {
+    const trimmedQuery = query.trim();
+    if (!trimmedQuery) {
+      return this.getTodos();
+    }
+
+    try {
+      const prefixMatches = await this.fetchSearchResults(
+        trimmedQuery,
+        "prefix",
+      );
+      if (prefixMatches.length > 0) {
+        return prefixMatches;
+      }
+
+      return await this.fetchSearchResults(trimmedQuery, "substring");
+    } catch (error) {
+      if (error instanceof APIError && error.isNetworkError()) {
+        const lowerQuery = trimmedQuery.toLowerCase();
+        return this.getCachedTodos().filter((todo) =>
+          todo.title.toLowerCase().includes(lowerQuery),
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 검색 결과를 커서로 이어 받아 모으기 (SEARCH_RESULT_LIMIT까지)
+   */
+  private async fetchSearchResults(
+    query: string,
+    match: TitleSearchMatch,
+  ): Promise<Todo[]> {
+    const results: Todo[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const response = await this.apiClient.getTodos({
+        q: query,
+        match,
+        limit: SEARCH_PAGE_SIZE,
+        cursor,
+      });
+
+      results.push(...response.data.todos);
+
+      // 부분 일치 검색은 DynamoDB 페이지마다 걸러내므로 빈 페이지 뒤에도 결과가 있을 수 있음
+      const pagination = response.data.pagination;
+      cursor = pagination?.hasMore ? pagination.cursor : undefined;
+    } while (cursor && results.length < SEARCH_RESULT_LIMIT);
+
+    // 검색 결과는 목록 일부이므로 캐시를 비우지 않고 항목만 갱신
+    results.forEach((todo) => {
+      this.cache.set(todo.id, todo);
+    });
+
+    return results.slice(0, SEARCH_RESULT_LIMIT);
+  }
+
   // ================================
   // 캐시 관리 메서드들
   // ================================
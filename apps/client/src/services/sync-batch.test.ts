@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import type { Todo } from "@vive/types";
+import type { PendingOperation } from "../contexts/todo.reducer";
+import {
+  toBackgroundSyncRequests,
+  toBatchOperation,
+  toBatchRequests,
+} from "./sync-batch";
+
+const createOperation = (
+  overrides: Partial<PendingOperation>,
+): PendingOperation => ({
+  id: "op-1",
+  type: "update",
+  todoId: "todo-1",
+  timestamp: new Date("2024-03-01T00:00:00.000Z"),
+  retryCount: 0,
+  data: { title: "수정" },
+  ...overrides,
+});
+
+const createTodo = (overrides: Partial<Todo>): Todo => ({
+  id: "todo-1",
+  title: "장보기",
+  completed: false,
+  priority: "medium",
+  createdAt: "2024-03-01T00:00:00.000Z",
+  updatedAt: "2024-03-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("sync-batch", () => {
+  it("should send every field of an offline create", () => {
+    const operation = createOperation({
+      type: "create",
+      data: {
+        title: "주간 회의",
+        description: "회의록 작성",
+        completed: false,
+        priority: "high",
+        dueDate: "2024-03-04T00:00:00.000Z",
+        tags: ["업무"],
+        recurrence: "FREQ=WEEKLY;BYDAY=MO",
+        timeZone: "Asia/Seoul",
+        rank: "a0V",
+      },
+    });
+
+    expect(toBatchOperation(operation)).toEqual({
+      action: "create",
+      id: "todo-1",
+      data: {
+        title: "주간 회의",
+        description: "회의록 작성",
+        priority: "high",
+        dueDate: "2024-03-04T00:00:00.000Z",
+        tags: ["업무"],
+        recurrence: "FREQ=WEEKLY;BYDAY=MO",
+        timeZone: "Asia/Seoul",
+        rank: "a0V",
+      },
+    });
+  });
+
+  it("should check the local version only on the first update of a todo", () => {
+    const { requests, invalid } = toBatchRequests(
+      [
+        createOperation({ id: "op-1" }),
+        createOperation({ id: "op-2", data: { completed: true } }),
+        createOperation({ id: "op-3", type: "checklist" }),
+      ],
+      () => 3,
+    );
+
+    expect(requests.map((request) => request.operation)).toEqual([
+      {
+        action: "update",
+        id: "todo-1",
+        data: { title: "수정", expectedVersion: 3 },
+      },
+      { action: "update", id: "todo-1", data: { completed: true } },
+    ]);
+    expect(invalid).toEqual([{ index: 2, error: expect.any(Error) }]);
+  });
+
+  it("should hand off only the operations before the first checklist change", () => {
+    const requests = toBackgroundSyncRequests(
+      [
+        createOperation({ id: "op-1", type: "delete", todoId: "todo-2" }),
+        createOperation({ id: "op-2" }),
+        createOperation({ id: "op-3", type: "checklist" }),
+        createOperation({ id: "op-4", type: "delete" }),
+      ],
+      [createTodo({ version: 2 })],
+    );
+
+    expect(requests).toEqual([
+      {
+        operationId: "op-1",
+        todoId: "todo-2",
+        type: "delete",
+        batchOperation: { action: "delete", id: "todo-2" },
+      },
+      {
+        operationId: "op-2",
+        todoId: "todo-1",
+        type: "update",
+        batchOperation: {
+          action: "update",
+          id: "todo-1",
+          data: { title: "수정", expectedVersion: 2 },
+        },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * 대기 작업 배치 변환
+ *
+ * 대기 작업을 POST /todos/batch 작업으로 바꾸는 규칙을 한 곳에 모았습니다.
+ * 동기화 관리자는 보낼 때 변환하고, 서비스 워커(public/sw.js)는 이 모듈을 불러올 수 없으므로
+ * 탭이 대기 작업을 넘길 때 변환해 둔 요청(toBackgroundSyncRequests)을 그대로 보냅니다.
+ */
+
+import type { Todo } from "@vive/types";
+import type { PendingOperation } from "../contexts/todo.reducer";
+import type {
+  BatchTodoOperation,
+  CreateTodoRequest,
+  UpdateTodoRequest,
+} from "../types/api.types";
+import { getUserTimeZone } from "../utils/due-date";
+
+/**
+ * 변환한 배치 작업 (index는 원래 대기 작업 목록의 위치)
+ */
+export interface BatchRequest {
+  index: number;
+  operation: BatchTodoOperation;
+}
+
+/**
+ * 서비스 워커가 보낼 배치 작업 (operationId로 아직 대기열에 남은 작업인지 확인)
+ */
+export interface BackgroundSyncRequest {
+  operationId: string;
+  todoId: string;
+  type: PendingOperation["type"];
+  batchOperation: BatchTodoOperation;
+}
+
+/**
+ * 대기 작업 하나를 배치 작업으로 변환 (저장된 데이터가 잘못되었으면 에러)
+ */
+export function toBatchOperation(
+  operation: PendingOperation,
+): BatchTodoOperation {
+  switch (operation.type) {
+    case "create": {
+      if (!operation.data || typeof operation.data !== "object") {
+        throw new Error("Invalid create operation data");
+      }
+
+      const todoData = operation.data as Omit<
+        Todo,
+        "id" | "createdAt" | "updatedAt"
+      >;
+      const data: CreateTodoRequest = {
+        title: todoData.title,
+        description: todoData.description,
+        priority: todoData.priority || "medium",
+        dueDate: todoData.dueDate,
+        tags: todoData.tags,
+        recurrence: todoData.recurrence,
+        // 반복 일정은 만든 기기의 시간대 기준으로 다음 회차 계산
+        timeZone:
+          todoData.timeZone ??
+          (todoData.recurrence ? getUserTimeZone() : undefined),
+        rank: todoData.rank,
+      };
+      // 로컬 ID 그대로 생성해 뒤따르는 수정/삭제/체크리스트 작업이 같은 ID를 가리키도록 함
+      return { action: "create", id: operation.todoId, data };
+    }
+    case "update":
+      if (!operation.data || typeof operation.data !== "object") {
+        throw new Error("Invalid update operation data");
+      }
+      return {
+        action: "update",
+        id: operation.todoId,
+        data: operation.data as UpdateTodoRequest,
+      };
+    case "delete":
+      return { action: "delete", id: operation.todoId };
+    default:
+      throw new Error(`Unknown operation type: ${operation.type}`);
+  }
+}
+
+/**
+ * TODO 생성/수정/삭제 대기 작업을 배치 작업으로 변환 (작업 순서 유지)
+ * 같은 TODO를 여러 번 수정하면 첫 수정만 로컬 버전으로 확인 (이후 수정은 첫 수정의 결과를 이어받음)
+ * 변환할 수 없는 작업은 다시 보내도 실패하므로 invalid로 따로 돌려줌
+ */
+export function toBatchRequests(
+  operations: PendingOperation[],
+  versionOf: (todoId: string) => number | undefined,
+): {
+  requests: BatchRequest[];
+  invalid: Array<{ index: number; error: unknown }>;
+} {
+  const requests: BatchRequest[] = [];
+  const invalid: Array<{ index: number; error: unknown }> = [];
+  const versionChecked = new Set<string>();
+
+  operations.forEach((operation, index) => {
+    try {
+      const batchOperation = toBatchOperation(operation);
+      if (
+        batchOperation.action === "update" &&
+        !versionChecked.has(operation.todoId)
+      ) {
+        versionChecked.add(operation.todoId);
+        const localVersion = versionOf(operation.todoId);
+        if (localVersion !== undefined) {
+          batchOperation.data = {
+            ...batchOperation.data,
+            expectedVersion: localVersion,
+          };
+        }
+      }
+      requests.push({ index, operation: batchOperation });
+    } catch (error) {
+      invalid.push({ index, error });
+    }
+  });
+
+  return { requests, invalid };
+}
+
+/**
+ * 서비스 워커에 넘길 배치 작업
+ * 체크리스트 작업은 항목 ID를 다시 매겨야 하므로 탭이 열릴 때 처리하고,
+ * 순서를 지키기 위해 첫 체크리스트 작업 앞까지만 넘김
+ */
+export function toBackgroundSyncRequests(
+  operations: PendingOperation[],
+  todos: Todo[],
+): BackgroundSyncRequest[] {
+  const checklistIndex = operations.findIndex(
+    (operation) => operation.type === "checklist",
+  );
+  const sendable =
+    checklistIndex === -1 ? operations : operations.slice(0, checklistIndex);
+  const versions = new Map(todos.map((todo) => [todo.id, todo.version]));
+
+  return toBatchRequests(sendable, (todoId) =>
+    versions.get(todoId),
+  ).requests.map(({ index, operation }) => ({
+    operationId: sendable[index].id,
+    todoId: sendable[index].todoId,
+    type: sendable[index].type,
+    batchOperation: operation,
+  }));
+}
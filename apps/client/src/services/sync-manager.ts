@@ -6,16 +6,40 @@
  * - 대기 중인 작업 처리
  * - 충돌 해결
  * - 재시도 로직
+ * - 여러 탭이 열려 있으면 리더 탭만 동기화하고 결과 이벤트를 다른 탭에 전달
+ * - 실시간 업데이트로 받은 다른 기기의 변경 반영 (연결된 동안은 주기적 동기화 간격을 늘림)
  */
 
 import type { Todo } from "@vive/types";
 import type {
   PendingOperation,
+  ChecklistOperation,
   ConnectionStatus,
 } from "../contexts/todo.reducer";
+import type {
+  BatchTodoOperation,
+  DeletedTodo,
+  RealtimeTodoChangesMessage,
+  UpdateTodoRequest,
+} from "../types/api.types";
+import { APIError } from "../errors/api-error";
 import { offlineStorage } from "./offline-storage";
+import { tabCoordinator, type TabMessage } from "./tab-coordinator";
+import { toBackgroundSyncRequests, toBatchRequests } from "./sync-batch";
+import { authService } from "./auth.service";
 import { todoApiService } from "./api/todo-api-client";
 import { appConfig, createApiUrl } from "../config/environment";
+import {
+  serviceWorkerManager,
+  type BackgroundSyncMessage,
+  type BackgroundSyncResult,
+} from "../utils/service-worker";
+import {
+  getChangedFields,
+  mergeTodoFields,
+  MERGEABLE_TODO_FIELDS,
+  type MergeableTodoField,
+} from "../utils/todo-merge";
 
 /**
  * 동기화 결과
@@ -37,9 +61,91 @@ export interface TodoConflict {
   localTodo: Todo;
   remoteTodo: Todo;
   conflictType: "update" | "delete" | "create";
+  fields?: MergeableTodoField[]; // 양쪽에서 서로 다르게 바꾼 필드 (기준 사본이 있을 때만)
+  merged?: Todo; // 충돌하지 않는 필드를 병합한 결과 (충돌 필드는 로컬 값)
   timestamp: Date;
 }
 
+/**
+ * 충돌 해결 방법
+ * - local: 로컬 버전으로 서버를 덮어씀 (삭제 충돌이면 서버에 다시 생성)
+ * - remote: 서버 버전을 로컬에 적용 (삭제 충돌이면 로컬에서 버림)
+ * - merged: 필드별로 고르거나 직접 편집한 버전을 서버에 저장
+ */
+export type ConflictResolution = "local" | "remote" | "merged";
+
+/**
+ * 대기 작업 처리 결과
+ */
+interface OperationOutcome {
+  success: boolean;
+  error?: unknown;
+  retryable?: boolean; // 실패 시 다음 동기화에서 다시 보낼지 여부
+  serverTodo?: Todo; // 성공 시 서버 결과, 버전 충돌 시 서버 사본
+  conflict?: boolean; // 버전 충돌 여부
+}
+
+/**
+ * 서버에서 받은 변경분 (fullSync이면 전체 목록)
+ */
+interface RemoteChanges {
+  todos: Todo[];
+  deleted: DeletedTodo[];
+  fullSync: boolean;
+  token: string;
+}
+
+// 서버가 변경 토큰을 거부할 때의 사유 (토큰을 버리고 전체 동기화부터 다시 시작)
+const CHANGE_TOKEN_ERROR_REASONS = [
+  "INVALID_CHANGE_TOKEN",
+  "CHANGE_TOKEN_EXPIRED",
+];
+
+function isChangeTokenError(error: unknown): boolean {
+  if (!(error instanceof APIError) || error.status !== 400) {
+    return false;
+  }
+  const reason = (error.details as { reason?: string } | undefined)?.reason;
+  return !!reason && CHANGE_TOKEN_ERROR_REASONS.includes(reason);
+}
+
+// 필드 값을 수정 요청으로 변환 (값이 없는 필드는 서버에서도 지우도록 빈 값으로 보냄)
+function toUpdateRequest(
+  fields: Partial<Pick<Todo, MergeableTodoField>>,
+): UpdateTodoRequest {
+  const request: UpdateTodoRequest = {};
+  if ("title" in fields && fields.title !== undefined) {
+    request.title = fields.title;
+  }
+  if ("description" in fields) {
+    request.description = fields.description ?? "";
+  }
+  if ("completed" in fields && fields.completed !== undefined) {
+    request.completed = fields.completed;
+  }
+  if ("priority" in fields && fields.priority !== undefined) {
+    request.priority = fields.priority;
+  }
+  if ("dueDate" in fields) {
+    request.dueDate = fields.dueDate ?? null;
+  }
+  if ("tags" in fields) {
+    request.tags = fields.tags ?? [];
+  }
+  if ("recurrence" in fields) {
+    request.recurrence = fields.recurrence ?? null;
+  }
+  // 정렬 순서는 지울 수 없고 옮길 때만 바뀜
+  if ("rank" in fields && fields.rank !== undefined) {
+    request.rank = fields.rank;
+  }
+  // 담당자는 프로젝트 Todo에만 있으므로 값이 있을 때만 보냄 (개인 Todo에 담당 해제를 보내지 않음)
+  if ("assigneeId" in fields && fields.assigneeId !== undefined) {
+    request.assigneeId = fields.assigneeId;
+  }
+  return request;
+}
+
 /**
  * 동기화 설정
  */
@@ -69,6 +175,23 @@ export type SyncEvent =
  */
 export type SyncEventListener = (event: SyncEvent, data?: unknown) => void;
 
+/**
+ * 리더 탭이 다른 탭에 전달하는 동기화 이벤트
+ */
+const SHARED_SYNC_EVENTS = new Set<SyncEvent>([
+  "sync_start",
+  "sync_success",
+  "sync_error",
+  "sync_conflict",
+]);
+
+// 다른 탭에서 동기화를 요청하고 리더의 결과를 기다리는 최대 시간
+const LEADER_SYNC_TIMEOUT = 30000;
+
+// 주기적 동기화 간격 (실시간 연결 중에는 놓친 변경만 확인하므로 길게)
+const SYNC_INTERVAL = 30000;
+const REALTIME_SYNC_INTERVAL = 5 * 60 * 1000;
+
 /**
  * 동기화 관리자 클래스
  */
@@ -79,6 +202,12 @@ class SyncManagerService {
   private syncInterval: NodeJS.Timeout | null;
   private eventListeners: Map<SyncEvent, Set<SyncEventListener>>;
   private retryTimeouts: Map<string, NodeJS.Timeout>;
+  private resyncRequested: boolean;
+  private unsubscribeSyncMessages: (() => void) | null;
+  private unsubscribeTabMessages: (() => void) | null;
+  private unsubscribeLeaderChange: (() => void) | null;
+  private leaderSyncWaiters: Set<(result: SyncResult | null) => void>;
+  private realtimeConnected: boolean;
 
   constructor(config?: Partial<SyncConfig>) {
     this.config = {
@@ -96,6 +225,12 @@ class SyncManagerService {
     this.syncInterval = null;
     this.eventListeners = new Map();
     this.retryTimeouts = new Map();
+    this.resyncRequested = false;
+    this.unsubscribeSyncMessages = null;
+    this.unsubscribeTabMessages = null;
+    this.unsubscribeLeaderChange = null;
+    this.leaderSyncWaiters = new Set();
+    this.realtimeConnected = false;
 
     this.initializeSync();
   }
@@ -124,30 +259,48 @@ class SyncManagerService {
     // 페이지 언로드 시 정리
     window.addEventListener("beforeunload", this.cleanup.bind(this));
 
+    // 탭이 가려지거나 닫히면 남은 대기 작업을 서비스 워커에 넘김
+    document.addEventListener("visibilitychange", this.handleVisibilityChange);
+    window.addEventListener("pagehide", this.handlePageHide);
+    this.unsubscribeSyncMessages = serviceWorkerManager.onSyncMessage(
+      this.handleServiceWorkerMessage.bind(this),
+    );
+
+    // 다른 탭의 동기화 요청과 리더 탭의 동기화 이벤트 수신
+    this.unsubscribeTabMessages = tabCoordinator.subscribe(
+      this.handleTabMessage,
+    );
+    this.unsubscribeLeaderChange = tabCoordinator.onLeaderChange(
+      this.handleLeaderChange,
+    );
+
     // 자동 동기화가 활성화된 경우 주기적 동기화 시작
     if (this.config.autoSync) {
       this.startPeriodicSync();
     }
 
-    // 온라인 상태에서 즉시 동기화 시도
-    if (this.isOnline) {
+    // 온라인 상태에서 즉시 동기화 시도 (리더 선출을 기다리는 탭은 리더가 될 때 동기화)
+    if (this.isOnline && tabCoordinator.isLeader()) {
       setTimeout(() => this.performSync(), 1000);
     }
   }
 
   /**
-   * 주기적 동기화 시작 (30초마다)
+   * 주기적 동기화 시작 (30초마다, 실시간 연결 중에는 5분마다)
    */
   private startPeriodicSync(): void {
     if (this.syncInterval) {
       clearInterval(this.syncInterval);
     }
 
-    this.syncInterval = setInterval(async () => {
-      if (this.isOnline && !this.isSyncing) {
-        await this.performSync();
-      }
-    }, 30000); // 30초마다
+    this.syncInterval = setInterval(
+      async () => {
+        if (this.isOnline && !this.isSyncing && tabCoordinator.isLeader()) {
+          await this.performSync();
+        }
+      },
+      this.realtimeConnected ? REALTIME_SYNC_INTERVAL : SYNC_INTERVAL,
+    );
   }
 
   /**
@@ -163,6 +316,13 @@ class SyncManagerService {
     this.retryTimeouts.forEach((timeout) => clearTimeout(timeout));
     this.retryTimeouts.clear();
 
+    this.unsubscribeSyncMessages?.();
+    this.unsubscribeSyncMessages = null;
+    this.unsubscribeTabMessages?.();
+    this.unsubscribeTabMessages = null;
+    this.unsubscribeLeaderChange?.();
+    this.unsubscribeLeaderChange = null;
+
     // 이벤트 리스너 정리
     window.removeEventListener(
       "online",
@@ -191,15 +351,193 @@ class SyncManagerService {
     });
 
     if (!wasOnline && this.isOnline) {
-      // 오프라인에서 온라인으로 전환 시 즉시 동기화
+      // 오프라인에서 온라인으로 전환 시 즉시 동기화 (모든 탭이 함께 알림을 받으므로 리더만)
       console.log("🌐 Connection restored - starting sync...");
-      setTimeout(() => this.performSync(), 500);
+      if (tabCoordinator.isLeader()) {
+        setTimeout(() => this.performSync(), 500);
+      }
     } else if (wasOnline && !this.isOnline) {
       // 온라인에서 오프라인으로 전환
       console.log("🌐 Connection lost - entering offline mode");
     }
   }
 
+  // ================================
+  // 서비스 워커 백그라운드 동기화
+  // ================================
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === "hidden") {
+      this.handOffToServiceWorker();
+    }
+  };
+
+  private handlePageHide = (): void => {
+    this.handOffToServiceWorker();
+  };
+
+  /**
+   * 남은 대기 작업을 서비스 워커에 넘김 (탭이 닫혀도 온라인이 되면 서비스 워커가 전송)
+   * 서비스 워커는 탭 없이 API를 호출하므로 API 주소와 토큰, 변환한 배치 작업을 오프라인 저장소에 함께 저장
+   */
+  private async handOffToServiceWorker(): Promise<void> {
+    if (
+      offlineStorage.getPendingOperations().length === 0 ||
+      !authService.isAuthenticated()
+    ) {
+      return;
+    }
+
+    try {
+      const accessToken = await authService.getValidToken();
+      offlineStorage.saveBackgroundSyncConfig({
+        apiBaseUrl: appConfig.apiBaseUrl,
+        accessToken,
+        requests: toBackgroundSyncRequests(
+          offlineStorage.getPendingOperations(),
+          offlineStorage.getTodos(),
+        ),
+        updatedAt: new Date().toISOString(),
+      });
+      await serviceWorkerManager.requestBackgroundSync();
+    } catch (error) {
+      console.error("Failed to hand off pending operations:", error);
+    }
+  }
+
+  /**
+   * 서비스 워커 메시지 처리
+   * - SYNC_REQUESTED: 탭이 열려 있으므로 서비스 워커 대신 이 탭에서 동기화
+   * - BACKGROUND_SYNC_RESULT: 서비스 워커가 보낸 결과를 반영
+   * 서비스 워커는 열린 탭 모두에 보내므로 리더 탭만 처리
+   */
+  private handleServiceWorkerMessage(message: BackgroundSyncMessage): void {
+    if (!tabCoordinator.isLeader()) {
+      return;
+    }
+
+    switch (message.type) {
+      case "SYNC_REQUESTED":
+        if (this.isSyncing) {
+          this.resyncRequested = true;
+        } else if (this.isOnline) {
+          this.performSync();
+        }
+        break;
+      case "BACKGROUND_SYNC_RESULT":
+        this.applyBackgroundSyncResult(message.data);
+        break;
+    }
+  }
+
+  /**
+   * 서비스 워커가 보낸 작업을 대기열에서 빼고 동기화 상태 알림
+   * (서비스 워커가 보내는 중에 열린 탭은 이미 보낸 작업을 메모리에 들고 있음)
+   */
+  private applyBackgroundSyncResult(result: BackgroundSyncResult): void {
+    const operations = offlineStorage.getPendingOperations();
+
+    for (const item of result.results) {
+      const operation = operations.find((op) => op.id === item.operationId);
+      if (item.success && operation) {
+        this.applyOperationResult(operation, item.todo);
+        this.completeOperation(operation);
+      }
+    }
+
+    if (result.error) {
+      this.emitEvent("sync_error", { error: result.error });
+      return;
+    }
+
+    const syncResult: SyncResult = {
+      success: result.failedOperations === 0,
+      message: `Background sync sent ${result.syncedOperations} operations`,
+      syncedOperations: result.syncedOperations,
+      failedOperations: result.failedOperations,
+      conflicts: [],
+      lastSyncAt: new Date(result.completedAt),
+    };
+    this.emitEvent("sync_success", syncResult);
+  }
+
+  // ================================
+  // 탭 간 동기화 조정
+  // ================================
+
+  /**
+   * 다른 탭 메시지 처리
+   * - sync_request: 리더가 아닌 탭이 요청한 동기화를 리더가 실행
+   * - sync_event: 리더 탭의 동기화 이벤트를 이 탭의 리스너에 전달
+   */
+  private handleTabMessage = (message: TabMessage): void => {
+    switch (message.type) {
+      case "sync_request":
+        if (!tabCoordinator.isLeader()) {
+          return;
+        }
+        if (this.isSyncing) {
+          this.resyncRequested = true;
+        } else if (this.isOnline) {
+          this.performSync();
+        }
+        break;
+      case "sync_event":
+        this.notifyListeners(message.event, message.data);
+        if (message.event === "sync_success") {
+          this.resolveLeaderSync(message.data as SyncResult);
+        } else if (message.event === "sync_error") {
+          const data = message.data as { syncResult?: SyncResult };
+          this.resolveLeaderSync(data.syncResult ?? null);
+        }
+        break;
+    }
+  };
+
+  /**
+   * 리더가 되면 (처음 선출되거나 리더 탭이 닫혀 넘겨받은 경우) 바로 동기화
+   */
+  private handleLeaderChange = (isLeader: boolean): void => {
+    if (isLeader && this.isOnline) {
+      this.performSync();
+    }
+  };
+
+  /**
+   * 리더 탭에 동기화를 요청하고 결과 대기
+   * 이 탭의 변경이 저장된 뒤에 요청해야 리더가 읽을 수 있음
+   */
+  private async requestLeaderSync(): Promise<SyncResult> {
+    await offlineStorage.whenWritten();
+
+    const result = await new Promise<SyncResult | null>((resolve) => {
+      const timeoutId = setTimeout(() => finish(null), LEADER_SYNC_TIMEOUT);
+      const finish = (syncResult: SyncResult | null) => {
+        clearTimeout(timeoutId);
+        this.leaderSyncWaiters.delete(finish);
+        resolve(syncResult);
+      };
+
+      this.leaderSyncWaiters.add(finish);
+      tabCoordinator.post({ type: "sync_request" });
+    });
+
+    return (
+      result ?? {
+        success: false,
+        message: "Leader tab did not finish syncing",
+        syncedOperations: 0,
+        failedOperations: 0,
+        conflicts: [],
+        lastSyncAt: new Date(),
+      }
+    );
+  }
+
+  private resolveLeaderSync(result: SyncResult | null): void {
+    this.leaderSyncWaiters.forEach((finish) => finish(result));
+  }
+
   /**
    * 연결 상태 확인 (실제 서버 접근 테스트)
    */
@@ -261,9 +599,17 @@ class SyncManagerService {
   }
 
   /**
-   * 이벤트 발생
+   * 이벤트 발생 (리더 탭의 동기화 이벤트는 다른 탭에도 전달)
    */
   private emitEvent(event: SyncEvent, data?: unknown): void {
+    if (SHARED_SYNC_EVENTS.has(event) && tabCoordinator.isLeader()) {
+      tabCoordinator.post({ type: "sync_event", event, data });
+    }
+
+    this.notifyListeners(event, data);
+  }
+
+  private notifyListeners(event: SyncEvent, data?: unknown): void {
     const listeners = this.eventListeners.get(event);
     if (listeners) {
       listeners.forEach((listener) => {
@@ -297,6 +643,11 @@ class SyncManagerService {
       };
     }
 
+    // 리더 탭만 동기화하고, 다른 탭은 리더에 요청한 뒤 결과를 받음
+    if (!tabCoordinator.isLeader()) {
+      return this.requestLeaderSync();
+    }
+
     if (this.isSyncing) {
       console.warn("🔄 Sync already in progress, skipping...");
       return {
@@ -324,23 +675,29 @@ class SyncManagerService {
     try {
       console.log("🔄 Starting sync process...");
 
+      // 오프라인 저장소(IndexedDB)를 메모리로 불러올 때까지 대기
+      await offlineStorage.ready;
+
       // 1. 연결 상태 확인
       const isConnected = await this.checkConnectivity();
       if (!isConnected) {
         throw new Error("No internet connection available");
       }
 
-      // 2. 서버에서 최신 데이터 가져오기
-      const remoteTodos = await this.fetchRemoteTodos();
-
-      // 3. 대기 중인 작업들 처리
+      // 2. 대기 중인 작업들 처리 (이번에 보낸 결과가 뒤이어 받는 원격 데이터에 포함되도록 먼저 전송)
       const operationResults = await this.processPendingOperations();
       syncResult.syncedOperations = operationResults.success;
       syncResult.failedOperations = operationResults.failed;
 
-      // 4. 로컬 데이터와 원격 데이터 병합
-      const mergeResult = await this.mergeData(remoteTodos);
+      // 3. 서버에서 마지막 동기화 이후 변경분 가져오기 (토큰이 없으면 전체 목록)
+      const remoteChanges = await this.fetchRemoteChanges();
+
+      // 4. 로컬 데이터와 원격 데이터 병합 (병합이 끝난 뒤에만 다음 변경 토큰 저장)
+      const mergeResult = remoteChanges.fullSync
+        ? await this.mergeData(remoteChanges.todos, operationResults.conflicts)
+        : await this.mergeChanges(remoteChanges, operationResults.conflicts);
       syncResult.conflicts = mergeResult.conflicts;
+      offlineStorage.saveChangeToken(remoteChanges.token);
 
       // 5. 메타데이터 업데이트
       await this.updateSyncMetadata();
@@ -367,37 +724,90 @@ class SyncManagerService {
       console.error("🔄 Sync failed:", {
         error: errorMessage,
         originalError: error,
-        syncResult
+        syncResult,
       });
     } finally {
       this.isSyncing = false;
       syncResult.lastSyncAt = new Date();
+
+      // 동기화 중에 새로 쌓인 작업(병합 후 다시 보낼 로컬 변경 등)은 이어서 전송
+      if (this.resyncRequested) {
+        this.resyncRequested = false;
+        if (this.isOnline) {
+          setTimeout(() => this.performSync(), 1000);
+        }
+      }
     }
 
     return syncResult;
   }
 
   /**
-   * 원격 서버에서 TODO 데이터 가져오기
+   * 원격 서버에서 변경분 가져오기 (GET /todos/changes)
+   * 저장된 토큰 이후의 변경을 모든 페이지에 걸쳐 모으고, 토큰이 없거나 거부되면 전체 목록을 받음
    */
-  private async fetchRemoteTodos(): Promise<Todo[]> {
+  private async fetchRemoteChanges(): Promise<RemoteChanges> {
     try {
-      const response = await todoApiService.getTodos();
-      return response.data.todos || [];
+      let since = offlineStorage.getChangeToken() ?? undefined;
+      const todos = new Map<string, Todo>();
+      const deleted = new Map<string, DeletedTodo>();
+      let fullSync = false;
+
+      for (;;) {
+        let page;
+        try {
+          page = (await todoApiService.getChanges(since)).data;
+        } catch (error) {
+          if (since && isChangeTokenError(error)) {
+            // 토큰이 만료되었거나 잘못됨 - 처음부터 전체 동기화
+            offlineStorage.saveChangeToken(null);
+            since = undefined;
+            todos.clear();
+            deleted.clear();
+            continue;
+          }
+          throw error;
+        }
+
+        fullSync = page.fullSync;
+        // 뒤 페이지일수록 최신 변경이므로 같은 TODO는 마지막 변경만 남김
+        for (const todo of page.todos) {
+          deleted.delete(todo.id);
+          todos.set(todo.id, todo);
+        }
+        for (const item of page.deleted) {
+          todos.delete(item.id);
+          deleted.set(item.id, item);
+        }
+
+        since = page.token;
+        if (!page.hasMore) {
+          return {
+            todos: [...todos.values()],
+            deleted: [...deleted.values()],
+            fullSync,
+            token: page.token,
+          };
+        }
+      }
     } catch (error) {
-      console.error("Failed to fetch remote todos:", error);
+      console.error("Failed to fetch remote changes:", error);
       throw new Error("Failed to fetch remote data");
     }
   }
 
   /**
    * 대기 중인 작업들 처리
+   * TODO 생성/수정/삭제는 배치마다 POST /todos/batch 한 번으로 보내고 작업별 결과로 정리,
+   * 체크리스트 작업은 그 뒤에 하나씩 처리 (같은 배치에서 생성된 TODO에 항목을 추가할 수 있도록)
    */
   private async processPendingOperations(): Promise<{
     success: number;
     failed: number;
+    conflicts: TodoConflict[];
   }> {
     const operations = offlineStorage.getPendingOperations();
+    const conflicts: TodoConflict[] = [];
     let successCount = 0;
     let failedCount = 0;
 
@@ -405,144 +815,311 @@ class SyncManagerService {
     const batches = this.createBatches(operations, this.config.batchSize);
 
     for (const batch of batches) {
-      for (const operation of batch) {
-        try {
-          await this.processOperation(operation);
-          offlineStorage.removePendingOperation(operation.id);
+      const todoOperations = batch.filter(
+        (operation) => operation.type !== "checklist",
+      );
+      const checklistOperations = batch.filter(
+        (operation) => operation.type === "checklist",
+      );
+
+      const outcomes = await this.processTodoOperations(todoOperations);
+      todoOperations.forEach((operation, index) => {
+        const outcome = outcomes[index];
+        if (outcome.success) {
+          this.applyOperationResult(operation, outcome.serverTodo);
+          this.completeOperation(operation);
           successCount++;
+        } else {
+          if (outcome.conflict && outcome.serverTodo) {
+            const localTodo = offlineStorage
+              .getTodos()
+              .find((todo) => todo.id === operation.todoId);
+            // 다른 필드끼리의 변경이면 병합해 새 버전 기준으로 다시 보내고, 같은 필드만 충돌로 기록
+            if (
+              localTodo &&
+              !this.mergeWithBase(
+                localTodo,
+                outcome.serverTodo,
+                conflicts,
+                true,
+              )
+            ) {
+              conflicts.push({
+                todoId: operation.todoId,
+                localTodo,
+                remoteTodo: outcome.serverTodo,
+                conflictType: "update",
+                timestamp: new Date(),
+              });
+            }
+          }
+          this.failOperation(
+            operation,
+            outcome.error,
+            outcome.retryable ?? true,
+          );
+          failedCount++;
+        }
+      });
 
-          this.emitEvent("operation_processed", { operation, success: true });
+      for (const operation of checklistOperations) {
+        try {
+          await this.processChecklistOperation(operation);
+          this.completeOperation(operation);
+          successCount++;
         } catch (error) {
+          this.failOperation(operation, error, true);
           failedCount++;
-
-          // 재시도 횟수 증가
-          offlineStorage.incrementOperationRetry(operation.id);
-
-          // 최대 재시도 횟수 초과시 제거
-          if (operation.retryCount >= this.config.retryAttempts) {
-            offlineStorage.removePendingOperation(operation.id);
-            console.error(
-              `Operation ${operation.id} failed after ${this.config.retryAttempts} attempts`,
-            );
-          }
-
-          this.emitEvent("operation_processed", {
-            operation,
-            success: false,
-            error,
-          });
         }
       }
     }
 
-    return { success: successCount, failed: failedCount };
+    return { success: successCount, failed: failedCount, conflicts };
   }
 
   /**
-   * 개별 작업 처리
+   * 성공한 작업의 서버 결과 반영
+   * 서버가 올린 버전을 다음 수정의 기준 버전으로 사용하고, 서버 사본을 병합 기준으로 저장
    */
-  private async processOperation(operation: PendingOperation): Promise<void> {
-    switch (operation.type) {
-      case "create":
-        await this.processCreateOperation(operation);
-        break;
-      case "update":
-        await this.processUpdateOperation(operation);
-        break;
-      case "delete":
-        await this.processDeleteOperation(operation);
-        break;
-      default:
-        throw new Error(`Unknown operation type: ${operation.type}`);
+  private applyOperationResult(
+    operation: PendingOperation,
+    serverTodo?: Todo,
+  ): void {
+    if (serverTodo) {
+      // 옮긴 rank가 길면 서버가 목록 전체의 rank를 다시 매겨 새 rank로 응답
+      const movedRank =
+        operation.type === "update" &&
+        (operation.data as UpdateTodoRequest | undefined)?.rank !== undefined;
+      offlineStorage.updateTodo(operation.todoId, {
+        version: serverTodo.version,
+        ...(movedRank && { rank: serverTodo.rank }),
+      });
+      offlineStorage.saveSyncBase(serverTodo);
+    } else if (operation.type === "delete") {
+      offlineStorage.removeSyncBase(operation.todoId);
     }
   }
 
   /**
-   * TODO 생성 작업 처리
+   * 처리된 작업 제거
    */
-  private async processCreateOperation(
+  private completeOperation(operation: PendingOperation): void {
+    offlineStorage.removePendingOperation(operation.id);
+    this.emitEvent("operation_processed", { operation, success: true });
+  }
+
+  /**
+   * 실패한 작업 기록 (재시도할 수 없거나 최대 재시도 횟수를 넘으면 제거)
+   */
+  private failOperation(
     operation: PendingOperation,
-  ): Promise<void> {
-    if (!operation.data || typeof operation.data !== "object") {
-      throw new Error("Invalid create operation data");
+    error: unknown,
+    retryable: boolean,
+  ): void {
+    // 재시도 횟수 증가
+    offlineStorage.incrementOperationRetry(operation.id);
+
+    if (!retryable || operation.retryCount >= this.config.retryAttempts) {
+      offlineStorage.removePendingOperation(operation.id);
+      console.error(
+        retryable
+          ? `Operation ${operation.id} failed after ${this.config.retryAttempts} attempts`
+          : `Operation ${operation.id} failed and cannot be retried`,
+        error,
+      );
     }
 
-    const todoData = operation.data as Omit<
-      Todo,
-      "id" | "createdAt" | "updatedAt"
-    >;
-    await todoApiService.createTodo({
-      title: todoData.title,
-      description: todoData.description,
-      priority: todoData.priority || "medium",
+    this.emitEvent("operation_processed", {
+      operation,
+      success: false,
+      error,
     });
   }
 
   /**
-   * TODO 업데이트 작업 처리
+   * TODO 생성/수정/삭제 작업을 한 번의 배치 요청으로 처리 (결과는 작업 순서대로)
    */
-  private async processUpdateOperation(
+  private async processTodoOperations(
+    operations: PendingOperation[],
+  ): Promise<OperationOutcome[]> {
+    const outcomes: OperationOutcome[] = [];
+    const localTodos = offlineStorage.getTodos();
+    const { requests, invalid } = toBatchRequests(
+      operations,
+      (todoId) => localTodos.find((todo) => todo.id === todoId)?.version,
+    );
+
+    // 저장된 데이터가 잘못된 작업은 다시 보내도 실패하므로 재시도하지 않음
+    for (const { index, error } of invalid) {
+      outcomes[index] = { success: false, error, retryable: false };
+    }
+
+    if (requests.length === 0) {
+      return outcomes;
+    }
+
+    try {
+      const response = await todoApiService.batchTodos(
+        requests.map((request) => request.operation),
+      );
+
+      for (const result of response.data.results) {
+        const { index } = requests[result.index];
+        // 이전 동기화에서 이미 반영된 생성/삭제는 성공으로 처리
+        const alreadyApplied =
+          (result.action === "create" &&
+            result.error?.code === "ALREADY_EXISTS") ||
+          (result.action === "delete" && result.error?.code === "NOT_FOUND");
+
+        outcomes[index] =
+          result.success || alreadyApplied
+            ? { success: true, serverTodo: result.todo }
+            : {
+                success: false,
+                error: new Error(
+                  result.error?.message ?? "Batch operation failed",
+                ),
+                retryable: result.error?.retryable ?? true,
+                serverTodo: result.todo,
+                conflict: result.error?.code === "VERSION_CONFLICT",
+              };
+      }
+    } catch (error) {
+      // 요청 자체가 실패하면 (네트워크 오류 등) 배치의 모든 작업을 재시도
+      for (const { index } of requests) {
+        outcomes[index] = { success: false, error, retryable: true };
+      }
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * 체크리스트 작업 처리
+   */
+  private async processChecklistOperation(
     operation: PendingOperation,
   ): Promise<void> {
     if (!operation.data || typeof operation.data !== "object") {
-      throw new Error("Invalid update operation data");
+      throw new Error("Invalid checklist operation data");
     }
 
-    const updateData = operation.data as Partial<Todo>;
-    await todoApiService.updateTodo(operation.todoId, updateData);
+    // 같은 동기화 중 앞선 생성 작업이 임시 ID를 교체했을 수 있으므로 저장된 최신 데이터 사용
+    const latest =
+      offlineStorage
+        .getPendingOperations()
+        .find((pending) => pending.id === operation.id) ?? operation;
+    const todoId = latest.todoId;
+    const data = latest.data as ChecklistOperation;
+
+    switch (data.action) {
+      case "create": {
+        const response = await todoApiService.createChecklistItem(todoId, {
+          title: data.title,
+          completed: data.completed,
+        });
+        this.remapChecklistItemId(todoId, data.itemId, response.data.id);
+        break;
+      }
+      case "update":
+        await todoApiService.updateChecklistItem(
+          todoId,
+          data.itemId,
+          data.changes,
+        );
+        break;
+      case "delete":
+        await todoApiService.deleteChecklistItem(todoId, data.itemId);
+        break;
+      case "reorder":
+        await todoApiService.reorderChecklistItems(todoId, data.itemIds);
+        break;
+    }
   }
 
   /**
-   * TODO 삭제 작업 처리
+   * 오프라인에서 만든 체크리스트 항목의 임시 ID를 서버 ID로 교체
+   * (로컬 항목과 아직 처리되지 않은 후속 작업 모두)
    */
-  private async processDeleteOperation(
-    operation: PendingOperation,
-  ): Promise<void> {
-    await todoApiService.deleteTodo(operation.todoId);
+  private remapChecklistItemId(
+    todoId: string,
+    localId: string,
+    serverId: string,
+  ): void {
+    const swap = (id: string) => (id === localId ? serverId : id);
+
+    offlineStorage.saveChecklistItems(
+      todoId,
+      offlineStorage
+        .getChecklistItems(todoId)
+        .map((item) => ({ ...item, id: swap(item.id) })),
+    );
+
+    offlineStorage.savePendingOperations(
+      offlineStorage.getPendingOperations().map((pending) => {
+        if (pending.type !== "checklist" || pending.todoId !== todoId) {
+          return pending;
+        }
+
+        const pendingData = pending.data as ChecklistOperation;
+        return {
+          ...pending,
+          data:
+            pendingData.action === "reorder"
+              ? { ...pendingData, itemIds: pendingData.itemIds.map(swap) }
+              : { ...pendingData, itemId: swap(pendingData.itemId) },
+        };
+      }),
+    );
   }
 
   /**
    * 로컬과 원격 데이터 병합
+   * 대기 작업 처리 중 발생한 버전 충돌은 그대로 충돌 목록에 포함
    */
   private async mergeData(
     remoteTodos: Todo[],
+    operationConflicts: TodoConflict[] = [],
   ): Promise<{ conflicts: TodoConflict[] }> {
     const localTodos = offlineStorage.getTodos();
-    const conflicts: TodoConflict[] = [];
+    const conflicts: TodoConflict[] = [...operationConflicts];
+    const conflictIds = new Set(conflicts.map((conflict) => conflict.todoId));
+    const pendingIds = new Set(
+      offlineStorage
+        .getPendingOperations()
+        .map((operation) => operation.todoId),
+    );
 
     // 원격 데이터를 기준으로 로컬 데이터 업데이트
     for (const remoteTodo of remoteTodos) {
-      const localTodo = localTodos.find((t) => t.id === remoteTodo.id);
-
-      if (!localTodo) {
-        // 새로운 TODO - 로컬에 추가
-        offlineStorage.addTodo(remoteTodo);
+      if (conflictIds.has(remoteTodo.id)) {
         continue;
       }
 
-      // 수정 시간 비교로 충돌 감지
-      const localModified = new Date(localTodo.updatedAt).getTime();
-      const remoteModified = new Date(remoteTodo.updatedAt).getTime();
-
-      if (localModified > remoteModified) {
-        // 로컬이 더 최신 - 충돌 발생
-        conflicts.push({
-          todoId: remoteTodo.id,
-          localTodo,
-          remoteTodo,
-          conflictType: "update",
-          timestamp: new Date(),
-        });
-      } else if (remoteModified > localModified) {
-        // 원격이 더 최신 - 로컬 업데이트
-        offlineStorage.updateTodo(remoteTodo.id, remoteTodo);
-      }
+      const localTodo = localTodos.find((t) => t.id === remoteTodo.id);
+      this.mergeRemoteTodo(remoteTodo, localTodo, pendingIds, conflicts);
     }
 
     // 로컬에만 있고 원격에 없는 TODO 확인 (삭제된 것들)
     for (const localTodo of localTodos) {
       const remoteTodo = remoteTodos.find((t) => t.id === localTodo.id);
-      if (!remoteTodo) {
+      if (!remoteTodo && !conflictIds.has(localTodo.id)) {
+        const base = offlineStorage.getSyncBase(localTodo.id);
+        if (!base && pendingIds.has(localTodo.id)) {
+          // 아직 서버에 생성되지 않은 TODO
+          continue;
+        }
+        if (
+          base &&
+          !pendingIds.has(localTodo.id) &&
+          getChangedFields(base, localTodo).length === 0
+        ) {
+          // 로컬에서 바꾸지 않은 TODO - 로컬에서도 삭제
+          offlineStorage.deleteTodo(localTodo.id);
+          offlineStorage.removeSyncBase(localTodo.id);
+          continue;
+        }
+
         // 원격에서 삭제된 TODO - 충돌로 처리
         conflicts.push({
           todoId: localTodo.id,
@@ -562,6 +1139,182 @@ class SyncManagerService {
     return { conflicts };
   }
 
+  /**
+   * 증분 변경분 병합 - 받은 변경과 삭제만 로컬에 반영
+   * (전체 목록이 아니므로 로컬에만 있는 TODO를 삭제로 보지 않음)
+   */
+  private async mergeChanges(
+    changes: Pick<RemoteChanges, "todos" | "deleted">,
+    operationConflicts: TodoConflict[] = [],
+  ): Promise<{ conflicts: TodoConflict[] }> {
+    const conflicts: TodoConflict[] = [...operationConflicts];
+    const conflictIds = new Set(conflicts.map((conflict) => conflict.todoId));
+    const pendingIds = new Set(
+      offlineStorage
+        .getPendingOperations()
+        .map((operation) => operation.todoId),
+    );
+
+    // 원격에서 삭제된 TODO - 보내지 못한 작업이 남아 있으면 충돌, 아니면 로컬에서도 삭제
+    for (const { id } of changes.deleted) {
+      const localTodo = offlineStorage.getTodoById(id);
+      if (!localTodo || conflictIds.has(id)) {
+        continue;
+      }
+
+      if (pendingIds.has(id)) {
+        conflicts.push({
+          todoId: id,
+          localTodo,
+          remoteTodo: {} as Todo, // 삭제된 경우 빈 객체
+          conflictType: "delete",
+          timestamp: new Date(),
+        });
+      } else {
+        offlineStorage.deleteTodo(id);
+        offlineStorage.removeSyncBase(id);
+      }
+    }
+
+    for (const remoteTodo of changes.todos) {
+      if (conflictIds.has(remoteTodo.id)) {
+        continue;
+      }
+
+      const localTodo = offlineStorage.getTodoById(remoteTodo.id) ?? undefined;
+      this.mergeRemoteTodo(remoteTodo, localTodo, pendingIds, conflicts);
+    }
+
+    if (conflicts.length > 0) {
+      this.emitEvent("sync_conflict", { conflicts });
+    }
+
+    return { conflicts };
+  }
+
+  /**
+   * 원격 TODO 하나를 로컬에 반영
+   * 동기화 기준 사본이 있으면 필드 단위로 병합하고, 없으면 버전/수정 시간으로 비교 (로컬이 더 최신이면 충돌로 기록)
+   */
+  private mergeRemoteTodo(
+    remoteTodo: Todo,
+    localTodo: Todo | undefined,
+    pendingIds: Set<string>,
+    conflicts: TodoConflict[],
+  ): void {
+    if (!localTodo) {
+      // 새로운 TODO - 로컬에 추가
+      offlineStorage.addTodo(remoteTodo);
+      offlineStorage.saveSyncBase(remoteTodo);
+      return;
+    }
+
+    // 보내지 못한 작업이 남아 있으면 그 작업이 로컬 변경을 전송하므로 다시 보내지 않음
+    if (
+      this.mergeWithBase(
+        localTodo,
+        remoteTodo,
+        conflicts,
+        !pendingIds.has(remoteTodo.id),
+      )
+    ) {
+      return;
+    }
+
+    // 양쪽 모두 버전이 있으면 버전으로 비교 (로컬 버전은 마지막으로 확인한 서버 버전)
+    // 보내지 못한 수정이 남아 있으면 그대로 두고, 다음 전송 때 버전 충돌로 처리
+    if (localTodo.version !== undefined && remoteTodo.version !== undefined) {
+      if (
+        remoteTodo.version >= localTodo.version &&
+        !pendingIds.has(remoteTodo.id)
+      ) {
+        if (remoteTodo.version > localTodo.version) {
+          offlineStorage.updateTodo(remoteTodo.id, remoteTodo);
+        } else if (remoteTodo.rank !== localTodo.rank) {
+          // 서버가 목록 전체의 rank를 다시 매기면 버전은 그대로이므로 rank만 반영
+          offlineStorage.updateTodo(remoteTodo.id, { rank: remoteTodo.rank });
+        }
+        offlineStorage.saveSyncBase(remoteTodo);
+      }
+      return;
+    }
+
+    // 수정 시간 비교로 충돌 감지
+    const localModified = new Date(localTodo.updatedAt).getTime();
+    const remoteModified = new Date(remoteTodo.updatedAt).getTime();
+
+    if (localModified > remoteModified) {
+      // 로컬이 더 최신 - 충돌 발생
+      conflicts.push({
+        todoId: remoteTodo.id,
+        localTodo,
+        remoteTodo,
+        conflictType: "update",
+        timestamp: new Date(),
+      });
+    } else if (remoteModified > localModified) {
+      // 원격이 더 최신 - 로컬 업데이트
+      offlineStorage.updateTodo(remoteTodo.id, remoteTodo);
+      offlineStorage.saveSyncBase(remoteTodo);
+    }
+  }
+
+  /**
+   * 동기화 기준 사본으로 로컬과 원격 TODO를 필드 단위 3-way 병합
+   * 같은 필드를 양쪽에서 서로 다르게 바꾼 경우만 충돌로 기록하고, 나머지는 병합해 로컬에 반영
+   * 기준 사본이 없으면 false (호출한 쪽에서 기존 방식으로 비교)
+   */
+  private mergeWithBase(
+    localTodo: Todo,
+    remoteTodo: Todo,
+    conflicts: TodoConflict[],
+    resendLocalChanges: boolean,
+  ): boolean {
+    const base = offlineStorage.getSyncBase(remoteTodo.id);
+    if (!base) {
+      return false;
+    }
+    // 이번 동기화에서 보낸 작업의 결과보다 먼저 받은 원격 사본이면 무시
+    if (
+      base.version !== undefined &&
+      remoteTodo.version !== undefined &&
+      remoteTodo.version < base.version
+    ) {
+      return true;
+    }
+
+    const { merged, conflictingFields, localChanges } = mergeTodoFields(
+      base,
+      localTodo,
+      remoteTodo,
+    );
+
+    if (conflictingFields.length > 0) {
+      conflicts.push({
+        todoId: remoteTodo.id,
+        localTodo,
+        remoteTodo,
+        conflictType: "update",
+        fields: conflictingFields,
+        merged,
+        timestamp: new Date(),
+      });
+      return true;
+    }
+
+    // 병합 결과는 원격 버전을 기준으로 하므로 남은 로컬 변경은 새 버전으로 전송됨
+    offlineStorage.updateTodo(remoteTodo.id, merged);
+    offlineStorage.saveSyncBase(remoteTodo);
+    if (resendLocalChanges && Object.keys(localChanges).length > 0) {
+      this.queueOperation(
+        "update",
+        remoteTodo.id,
+        toUpdateRequest(localChanges),
+      );
+    }
+    return true;
+  }
+
   /**
    * 동기화 메타데이터 업데이트
    */
@@ -584,6 +1337,53 @@ class SyncManagerService {
     return await this.performSync();
   }
 
+  /**
+   * 실시간으로 받은 다른 기기의 변경 반영 (리더 탭에서 호출)
+   * 증분 동기화와 같은 방식으로 병합하되 변경 토큰은 그대로 둠 - 다음 동기화에서 같은 변경을 다시 받아도 결과는 같음
+   * 반영된 TODO와 로컬에서 삭제된 ID를 반환 (화면 상태 갱신용)
+   */
+  async applyRealtimeChanges(
+    message: RealtimeTodoChangesMessage,
+  ): Promise<{ todos: Todo[]; deletedIds: string[] }> {
+    await offlineStorage.ready;
+
+    // 동기화 중이면 대기 작업 결과와 섞이지 않도록 동기화가 끝난 뒤 변경 조회로 받음
+    if (this.isSyncing) {
+      this.resyncRequested = true;
+      return { todos: [], deletedIds: [] };
+    }
+
+    await this.mergeChanges(message);
+
+    return {
+      todos: message.todos
+        .map((todo) => offlineStorage.getTodoById(todo.id))
+        .filter((todo): todo is Todo => !!todo),
+      deletedIds: message.deleted
+        .map(({ id }) => id)
+        .filter((id) => !offlineStorage.getTodoById(id)),
+    };
+  }
+
+  /**
+   * 실시간 연결 상태 반영
+   * 연결된 동안은 주기적 동기화 간격을 늘리고, 다시 연결되면 끊겨 있던 사이의 변경을 받도록 바로 동기화
+   */
+  setRealtimeConnected(connected: boolean): void {
+    if (this.realtimeConnected === connected) {
+      return;
+    }
+
+    this.realtimeConnected = connected;
+    if (this.config.autoSync && this.syncInterval) {
+      this.startPeriodicSync();
+    }
+
+    if (connected && this.isOnline && tabCoordinator.isLeader()) {
+      void this.performSync();
+    }
+  }
+
   /**
    * 대기 중인 작업 추가
    */
@@ -601,8 +1401,10 @@ class SyncManagerService {
     if (success) {
       this.emitEvent("operation_queued", { type, todoId, data });
 
-      // 온라인 상태라면 즉시 동기화 시도
-      if (this.isOnline && !this.isSyncing) {
+      // 온라인 상태라면 즉시 동기화 시도 (동기화 중이면 끝난 뒤에)
+      if (this.isSyncing) {
+        this.resyncRequested = true;
+      } else if (this.isOnline) {
         setTimeout(() => this.performSync(), 1000);
       }
     }
@@ -612,26 +1414,92 @@ class SyncManagerService {
 
   /**
    * 충돌 해결
+   * merged면 resolvedTodo(필드별로 고르거나 편집한 버전)를 서버에 저장
    */
   async resolveConflict(
     todoId: string,
-    resolution: "local" | "remote",
+    resolution: ConflictResolution,
     conflictData: TodoConflict,
+    resolvedTodo?: Todo,
   ): Promise<boolean> {
     try {
-      if (resolution === "local") {
-        // 로컬 버전을 서버에 업데이트
-        await todoApiService.updateTodo(todoId, conflictData.localTodo);
-        return true;
-      } else {
+      if (resolution === "remote") {
         // 원격 버전을 로컬에 적용
         if (conflictData.conflictType === "delete") {
+          // 서버에서 삭제된 TODO를 버리면 남은 대기 작업도 보낼 필요 없음
           offlineStorage.deleteTodo(todoId);
+          offlineStorage.removeSyncBase(todoId);
+          offlineStorage
+            .getPendingOperations()
+            .filter((operation) => operation.todoId === todoId)
+            .forEach((operation) =>
+              offlineStorage.removePendingOperation(operation.id),
+            );
         } else {
           offlineStorage.updateTodo(todoId, conflictData.remoteTodo);
+          offlineStorage.saveSyncBase(conflictData.remoteTodo);
         }
         return true;
       }
+
+      const todo =
+        resolution === "merged" && resolvedTodo
+          ? resolvedTodo
+          : conflictData.localTodo;
+      const fields = Object.fromEntries(
+        MERGEABLE_TODO_FIELDS.map((field) => [field, todo[field]]),
+      ) as Partial<Pick<Todo, MergeableTodoField>>;
+
+      // 삭제 충돌이면 같은 ID로 서버에 다시 생성하고, 아니면 확인한 서버 사본의 버전 기준으로 수정
+      // (그 사이 서버가 또 바뀌면 새 서버 사본으로 충돌을 다시 보고)
+      const operation: BatchTodoOperation =
+        conflictData.conflictType === "delete"
+          ? {
+              action: "create",
+              id: todoId,
+              data: {
+                title: todo.title,
+                description: todo.description,
+                priority: todo.priority || "medium",
+                dueDate: todo.dueDate,
+                tags: todo.tags,
+                recurrence: todo.recurrence,
+              },
+            }
+          : {
+              action: "update",
+              id: todoId,
+              data: {
+                ...toUpdateRequest(fields),
+                expectedVersion: conflictData.remoteTodo.version,
+              },
+            };
+
+      const response = await todoApiService.batchTodos([operation]);
+      const result = response.data.results[0];
+
+      if (result?.error?.code === "VERSION_CONFLICT" && result.todo) {
+        this.emitEvent("sync_conflict", {
+          conflicts: [
+            {
+              ...conflictData,
+              remoteTodo: result.todo,
+              merged: undefined,
+              timestamp: new Date(),
+            },
+          ],
+        });
+        return false;
+      }
+      if (!result?.success || !result.todo) {
+        throw new Error(result?.error?.message ?? "Failed to resolve conflict");
+      }
+
+      if (!offlineStorage.updateTodo(todoId, result.todo)) {
+        offlineStorage.addTodo(result.todo);
+      }
+      offlineStorage.saveSyncBase(result.todo);
+      return true;
     } catch (error) {
       console.error("Failed to resolve conflict:", error);
       return false;
@@ -758,7 +1626,7 @@ export const syncUtils = {
     if (operations.length === 0) {
       return {
         total: 0,
-        byType: { create: 0, update: 0, delete: 0 },
+        byType: { create: 0, update: 0, delete: 0, checklist: 0 },
         avgRetries: 0,
         oldestOperation: null,
       };
@@ -0,0 +1,297 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { TabMessage } from "./tab-coordinator";
+
+/**
+ * 테스트용 BroadcastChannel 대역 (같은 이름의 다른 채널에만 바로 전달)
+ */
+class FakeBroadcastChannel {
+  static instances: FakeBroadcastChannel[] = [];
+
+  onmessage: ((event: { data: TabMessage }) => void) | null = null;
+  received: TabMessage[] = [];
+  closed = false;
+  readonly name: string;
+
+  constructor(name: string) {
+    this.name = name;
+    FakeBroadcastChannel.instances.push(this);
+  }
+
+  postMessage(message: TabMessage) {
+    for (const channel of FakeBroadcastChannel.instances) {
+      if (channel !== this && !channel.closed && channel.name === this.name) {
+        channel.received.push(message);
+        channel.onmessage?.({ data: message });
+      }
+    }
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+
+const TAB_TIMEOUT = 75 * 1000;
+const HEARTBEAT_INTERVAL = 5000;
+const ELECTION_DELAY = 300;
+
+// 테스트마다 새 탭으로 열기 (모듈 인스턴스가 탭 하나)
+async function openTab() {
+  vi.resetModules();
+  const { tabCoordinator } = await import("./tab-coordinator");
+  return tabCoordinator;
+}
+
+describe("tabCoordinator", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-03-01T00:00:00.000Z"));
+    FakeBroadcastChannel.instances = [];
+    vi.stubGlobal("BroadcastChannel", FakeBroadcastChannel);
+  });
+
+  afterEach(() => {
+    // 테스트에서 연 탭을 모두 닫아 window 리스너와 타이머가 다음 테스트에 영향을 주지 않도록 함
+    window.dispatchEvent(new Event("pagehide"));
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  describe("with BroadcastChannel", () => {
+    // 다른 탭 역할을 하는 채널
+    let otherTabs: FakeBroadcastChannel;
+
+    beforeEach(() => {
+      otherTabs = new FakeBroadcastChannel("hanbit_tabs");
+    });
+
+    it("should become the leader when no other tab answers", async () => {
+      // Given
+      const tab = await openTab();
+      const onLeaderChange = vi.fn();
+      tab.onLeaderChange(onLeaderChange);
+
+      // Then - 이미 열린 탭의 응답을 기다린 뒤 선출
+      expect(otherTabs.received).toEqual([
+        { type: "hello", tabId: tab.tabId, openedAt: Date.now() },
+      ]);
+      expect(tab.isLeader()).toBe(false);
+
+      vi.advanceTimersByTime(ELECTION_DELAY);
+
+      expect(tab.isLeader()).toBe(true);
+      expect(onLeaderChange).toHaveBeenCalledWith(true);
+    });
+
+    it("should leave the leadership to an older tab and answer its hello", async () => {
+      // Given
+      const tab = await openTab();
+
+      // When
+      otherTabs.postMessage({
+        type: "hello",
+        tabId: "older-tab",
+        openedAt: Date.now() - 1000,
+      });
+      vi.advanceTimersByTime(ELECTION_DELAY);
+
+      // Then
+      expect(otherTabs.received.at(-1)).toEqual({
+        type: "heartbeat",
+        tabId: tab.tabId,
+        openedAt: Date.now() - ELECTION_DELAY,
+      });
+      expect(tab.isLeader()).toBe(false);
+    });
+
+    it("should break ties between tabs opened at the same time by tab ID", async () => {
+      // Given
+      const tab = await openTab();
+      const openedAt = Date.now();
+
+      // When
+      otherTabs.postMessage({ type: "heartbeat", tabId: "\u0000", openedAt });
+      vi.advanceTimersByTime(ELECTION_DELAY);
+
+      // Then
+      expect(tab.isLeader()).toBe(false);
+    });
+
+    it("should take over right away when the leader says goodbye", async () => {
+      // Given
+      const tab = await openTab();
+      otherTabs.postMessage({
+        type: "hello",
+        tabId: "older-tab",
+        openedAt: Date.now() - 1000,
+      });
+      vi.advanceTimersByTime(ELECTION_DELAY);
+      expect(tab.isLeader()).toBe(false);
+
+      // When
+      otherTabs.postMessage({ type: "goodbye", tabId: "older-tab" });
+
+      // Then
+      expect(tab.isLeader()).toBe(true);
+    });
+
+    it("should take over when the leader stops sending heartbeats", async () => {
+      // Given
+      const tab = await openTab();
+      otherTabs.postMessage({
+        type: "hello",
+        tabId: "older-tab",
+        openedAt: Date.now() - 1000,
+      });
+      vi.advanceTimersByTime(ELECTION_DELAY);
+
+      // When - 가려진 탭의 늦어진 신호까지는 기다림
+      vi.advanceTimersByTime(TAB_TIMEOUT - HEARTBEAT_INTERVAL);
+      expect(tab.isLeader()).toBe(false);
+
+      vi.advanceTimersByTime(2 * HEARTBEAT_INTERVAL);
+
+      // Then
+      expect(tab.isLeader()).toBe(true);
+      const heartbeats = otherTabs.received.filter(
+        (message) => message.type === "heartbeat",
+      );
+      expect(heartbeats.length).toBeGreaterThan(
+        TAB_TIMEOUT / HEARTBEAT_INTERVAL,
+      );
+    });
+
+    it("should keep following a leader that keeps sending heartbeats", async () => {
+      // Given
+      const tab = await openTab();
+      const openedAt = Date.now() - 1000;
+
+      // When
+      for (
+        let elapsed = 0;
+        elapsed < 2 * TAB_TIMEOUT;
+        elapsed += HEARTBEAT_INTERVAL
+      ) {
+        otherTabs.postMessage({
+          type: "heartbeat",
+          tabId: "older-tab",
+          openedAt,
+        });
+        vi.advanceTimersByTime(HEARTBEAT_INTERVAL);
+      }
+
+      // Then
+      expect(tab.isLeader()).toBe(false);
+    });
+
+    it("should say goodbye and give up the leadership when the page is hidden", async () => {
+      // Given
+      const tab = await openTab();
+      vi.advanceTimersByTime(ELECTION_DELAY);
+      expect(tab.isLeader()).toBe(true);
+
+      // When
+      window.dispatchEvent(new Event("pagehide"));
+
+      // Then
+      expect(otherTabs.received.at(-1)).toEqual({
+        type: "goodbye",
+        tabId: tab.tabId,
+      });
+      expect(tab.isLeader()).toBe(false);
+    });
+
+    it("should pass other messages to subscribers but not back to the sender", async () => {
+      // Given
+      const tab = await openTab();
+      const handler = vi.fn();
+      const unsubscribe = tab.subscribe(handler);
+
+      // When
+      tab.post({ type: "sync_request" });
+      otherTabs.postMessage({ type: "sync_event", event: "sync_start" });
+      otherTabs.postMessage({ type: "heartbeat", tabId: "other", openedAt: 0 });
+      unsubscribe();
+      otherTabs.postMessage({ type: "sync_request" });
+
+      // Then
+      expect(otherTabs.received).toContainEqual({ type: "sync_request" });
+      expect(handler.mock.calls).toEqual([
+        [{ type: "sync_event", event: "sync_start" }],
+      ]);
+    });
+  });
+
+  describe("with the storage event fallback", () => {
+    beforeEach(() => {
+      vi.stubGlobal("BroadcastChannel", undefined);
+      vi.mocked(localStorage.setItem).mockClear();
+      vi.mocked(localStorage.removeItem).mockClear();
+    });
+
+    const receiveStorageMessage = (message: TabMessage) =>
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "hanbit_tab_message",
+          newValue: JSON.stringify({ message, nonce: crypto.randomUUID() }),
+        }),
+      );
+
+    it("should post through localStorage and remove the message right away", async () => {
+      // Given
+      const tab = await openTab();
+      vi.mocked(localStorage.setItem).mockClear();
+
+      // When
+      tab.post({
+        type: "sync_event",
+        event: "sync_success",
+        data: { completedAt: new Date("2024-03-01T00:00:00.000Z") },
+      });
+
+      // Then
+      const [key, value] = vi.mocked(localStorage.setItem).mock.calls[0];
+      expect(key).toBe("hanbit_tab_message");
+      expect(JSON.parse(value).message).toEqual({
+        type: "sync_event",
+        event: "sync_success",
+        data: { completedAt: { __date: "2024-03-01T00:00:00.000Z" } },
+      });
+      expect(localStorage.removeItem).toHaveBeenCalledWith(
+        "hanbit_tab_message",
+      );
+    });
+
+    it("should elect a leader and deliver messages from storage events", async () => {
+      // Given
+      const tab = await openTab();
+      const handler = vi.fn();
+      tab.subscribe(handler);
+
+      // When
+      receiveStorageMessage({
+        type: "hello",
+        tabId: "older-tab",
+        openedAt: Date.now() - 1000,
+      });
+      receiveStorageMessage({
+        type: "sync_event",
+        event: "sync_success",
+        data: { completedAt: { __date: "2024-03-01T00:00:00.000Z" } },
+      });
+      vi.advanceTimersByTime(ELECTION_DELAY);
+
+      // Then
+      expect(tab.isLeader()).toBe(false);
+      expect(handler).toHaveBeenCalledWith({
+        type: "sync_event",
+        event: "sync_success",
+        data: { completedAt: new Date("2024-03-01T00:00:00.000Z") },
+      });
+
+      // 리더가 닫히면 넘겨받음
+      receiveStorageMessage({ type: "goodbye", tabId: "older-tab" });
+      expect(tab.isLeader()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * 탭 간 조정자
+ *
+ * 같은 브라우저에 열린 탭끼리 BroadcastChannel로 메시지를 주고받습니다.
+ * BroadcastChannel이 없으면 localStorage의 storage 이벤트로 대신 전달합니다.
+ * - 리더 선출: 모든 탭이 주기적으로 생존 신호를 보내고, 살아 있는 탭 중 가장 먼저 열린 탭이 리더가 되어 동기화를 맡음
+ * - 메시지 전달: 오프라인 저장소 변경, 리듀서 액션, 동기화 이벤트를 다른 탭에 전달
+ */
+
+import type { TodoAction } from "../contexts/todo.reducer";
+import type { OfflineChangeSet } from "./offline-database";
+import type { SyncEvent } from "./sync-manager";
+
+const CHANNEL_NAME = "hanbit_tabs";
+const STORAGE_MESSAGE_KEY = "hanbit_tab_message";
+
+const HEARTBEAT_INTERVAL = 5000;
+// 가려진 탭은 타이머가 1분에 한 번까지 늦춰지므로 그보다 길게 신호가 없을 때만 닫힌 탭으로 봄
+// (정상적으로 닫히는 탭은 goodbye를 보내므로 바로 다음 리더가 정해짐)
+const TAB_TIMEOUT = 75 * 1000;
+// 처음 열릴 때 이미 열린 탭의 응답을 기다리는 시간
+const ELECTION_DELAY = 300;
+
+/**
+ * 탭 사이에 주고받는 메시지
+ */
+export type TabMessage =
+  | { type: "hello"; tabId: string; openedAt: number }
+  | { type: "heartbeat"; tabId: string; openedAt: number }
+  | { type: "goodbye"; tabId: string }
+  | { type: "storage_changed"; changes: OfflineChangeSet }
+  | { type: "todo_action"; action: TodoAction }
+  | { type: "sync_request" }
+  | { type: "sync_event"; event: SyncEvent; data?: unknown };
+
+type TabMessageHandler = (message: TabMessage) => void;
+type LeaderChangeHandler = (isLeader: boolean) => void;
+
+interface TabTransport {
+  post(message: TabMessage): void;
+  close(): void;
+}
+
+interface TabInfo {
+  openedAt: number;
+  lastSeen: number;
+}
+
+/**
+ * 탭 간 조정자 클래스
+ */
+class TabCoordinator {
+  readonly tabId = crypto.randomUUID();
+  private readonly openedAt = Date.now();
+  private transport: TabTransport | null = null;
+  private tabs = new Map<string, TabInfo>();
+  private leader = false;
+  private electionReady = false;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private messageHandlers = new Set<TabMessageHandler>();
+  private leaderHandlers = new Set<LeaderChangeHandler>();
+
+  constructor() {
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    this.start();
+
+    // 탭이 닫히면 다른 탭이 바로 리더를 넘겨받도록 알림 (뒤로 가기 캐시에서 돌아오면 다시 참여)
+    window.addEventListener("pagehide", () => this.stop());
+    window.addEventListener("pageshow", (event) => {
+      if (event.persisted) {
+        this.start();
+      }
+    });
+  }
+
+  // ================================
+  // 리더 선출
+  // ================================
+
+  private start(): void {
+    this.transport = createTransport(this.handleMessage);
+
+    // 다른 탭과 통신할 수 없으면 이 탭이 리더
+    if (!this.transport) {
+      this.electionReady = true;
+      this.setLeader(true);
+      return;
+    }
+
+    this.post({ type: "hello", tabId: this.tabId, openedAt: this.openedAt });
+    this.heartbeatTimer = setInterval(() => {
+      this.sendHeartbeat();
+      this.electLeader();
+    }, HEARTBEAT_INTERVAL);
+
+    setTimeout(() => {
+      this.electionReady = true;
+      this.electLeader();
+    }, ELECTION_DELAY);
+  }
+
+  private stop(): void {
+    this.post({ type: "goodbye", tabId: this.tabId });
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.transport?.close();
+    this.transport = null;
+    this.tabs.clear();
+    this.electionReady = false;
+    this.setLeader(false);
+  }
+
+  private sendHeartbeat(): void {
+    this.post({
+      type: "heartbeat",
+      tabId: this.tabId,
+      openedAt: this.openedAt,
+    });
+  }
+
+  /**
+   * 살아 있는 탭 중 가장 먼저 열린 탭(같으면 ID 순)을 리더로 선택
+   */
+  private electLeader(): void {
+    if (!this.electionReady) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const [tabId, tab] of this.tabs) {
+      if (now - tab.lastSeen > TAB_TIMEOUT) {
+        this.tabs.delete(tabId);
+      }
+    }
+
+    const isLeader = [...this.tabs].every(
+      ([tabId, tab]) =>
+        this.openedAt < tab.openedAt ||
+        (this.openedAt === tab.openedAt && this.tabId < tabId),
+    );
+    this.setLeader(isLeader);
+  }
+
+  private setLeader(isLeader: boolean): void {
+    if (this.leader === isLeader) {
+      return;
+    }
+
+    this.leader = isLeader;
+    this.leaderHandlers.forEach((handler) => handler(isLeader));
+  }
+
+  // ================================
+  // 메시지 처리
+  // ================================
+
+  private handleMessage = (message: TabMessage): void => {
+    switch (message.type) {
+      case "hello":
+        this.tabs.set(message.tabId, {
+          openedAt: message.openedAt,
+          lastSeen: Date.now(),
+        });
+        // 새로 열린 탭이 바로 리더를 알 수 있도록 즉시 응답
+        this.sendHeartbeat();
+        this.electLeader();
+        break;
+      case "heartbeat":
+        this.tabs.set(message.tabId, {
+          openedAt: message.openedAt,
+          lastSeen: Date.now(),
+        });
+        this.electLeader();
+        break;
+      case "goodbye":
+        this.tabs.delete(message.tabId);
+        this.electLeader();
+        break;
+      default:
+        this.messageHandlers.forEach((handler) => handler(message));
+    }
+  };
+
+  // ================================
+  // 공개 API
+  // ================================
+
+  /**
+   * 이 탭이 리더인지 여부 (리더만 동기화를 실행)
+   */
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * 다른 모든 탭에 메시지 전송 (자기 자신에게는 전달되지 않음)
+   */
+  post(message: TabMessage): void {
+    try {
+      this.transport?.post(message);
+    } catch (error) {
+      console.error("Failed to post tab message:", error);
+    }
+  }
+
+  /**
+   * 다른 탭에서 온 메시지 구독
+   */
+  subscribe(handler: TabMessageHandler): () => void {
+    this.messageHandlers.add(handler);
+    return () => {
+      this.messageHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * 리더 변경 구독
+   */
+  onLeaderChange(handler: LeaderChangeHandler): () => void {
+    this.leaderHandlers.add(handler);
+    return () => {
+      this.leaderHandlers.delete(handler);
+    };
+  }
+}
+
+/**
+ * 메시지 전달 수단 생성 (BroadcastChannel, 없으면 storage 이벤트, 둘 다 안 되면 null)
+ */
+function createTransport(
+  onMessage: (message: TabMessage) => void,
+): TabTransport | null {
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TabMessage>) =>
+      onMessage(event.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  try {
+    if (typeof localStorage === "undefined") {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+
+  // storage 이벤트는 값을 바꾼 탭을 뺀 다른 탭에만 전달됨
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_MESSAGE_KEY && event.newValue) {
+      onMessage(deserializeMessage(event.newValue));
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+
+  return {
+    post: (message) => {
+      // 같은 메시지를 연달아 보내도 값이 바뀌도록 nonce를 붙이고, 바로 지워 저장소에 남기지 않음
+      localStorage.setItem(
+        STORAGE_MESSAGE_KEY,
+        serializeMessage({ message, nonce: crypto.randomUUID() }),
+      );
+      localStorage.removeItem(STORAGE_MESSAGE_KEY);
+    },
+    close: () => window.removeEventListener("storage", handleStorage),
+  };
+}
+
+// JSON으로 보내면 Date가 문자열이 되므로 표시해 두었다가 되살림 (대기 작업 시간, 동기화 시간)
+function serializeMessage(value: { message: TabMessage; nonce: string }) {
+  return JSON.stringify(value, function (key, item) {
+    const raw = (this as Record<string, unknown>)[key];
+    return raw instanceof Date ? { __date: raw.toISOString() } : item;
+  });
+}
+
+function deserializeMessage(value: string): TabMessage {
+  return JSON.parse(value, (_key, item) =>
+    item && typeof item === "object" && "__date" in item
+      ? new Date(item.__date)
+      : item,
+  ).message;
+}
+
+/**
+ * 탭 간 조정자 인스턴스
+ */
+export const tabCoordinator = new TabCoordinator();
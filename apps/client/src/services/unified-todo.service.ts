@@ -6,6 +6,8 @@ import { TodoAPIClient } from "./api/todo-api-client";
 import { authService } from "./auth.service";
 import { appConfig } from "../config/app-config";
 import { APIError } from "../errors/api-error";
+import { getNextOccurrence } from "../utils/recurrence";
+import { getUserTimeZone } from "../utils/due-date";
 
 /**
  * 스토리지 모드 열거형
@@ -120,9 +122,14 @@ export class UnifiedTodoService {
    */
   async updateTodo(
     id: string,
-    updates: Partial<Pick<Todo, "title" | "completed" | "priority">>,
+    updates: Partial<
+      Pick<Todo, "title" | "completed" | "priority" | "recurrence">
+    >,
   ): Promise<Todo> {
     try {
+      if (this.currentMode === StorageMode.LOCAL_STORAGE) {
+        return await this.updateLocalTodo(id, updates);
+      }
       return await this.currentStorage.updateTodo(id, updates);
     } catch (error) {
       throw this.handleStorageError(error, "updateTodo");
@@ -134,6 +141,15 @@ export class UnifiedTodoService {
    */
   async toggleTodo(id: string): Promise<Todo> {
     try {
+      if (this.currentMode === StorageMode.LOCAL_STORAGE) {
+        const todo = (await this.localStorageService.getTodos()).find(
+          (t) => t.id === id,
+        );
+        if (!todo) {
+          throw new Error(`Todo not found: ${id}`);
+        }
+        return await this.updateLocalTodo(id, { completed: !todo.completed });
+      }
       return await this.currentStorage.toggleTodo(id);
     } catch (error) {
       throw this.handleStorageError(error, "toggleTodo");
@@ -391,6 +407,90 @@ export class UnifiedTodoService {
     return this.apiStorageService;
   }
 
+  /**
+   * localStorage 모드 TODO 수정
+   * 반복 TODO가 완료로 바뀌면 서버(TodoService.updateTodo)와 같은 규칙으로 다음 회차를 생성
+   */
+  private async updateLocalTodo(
+    id: string,
+    updates: Partial<
+      Pick<Todo, "title" | "completed" | "priority" | "recurrence">
+    >,
+  ): Promise<Todo> {
+    const todos = await this.localStorageService.getTodos();
+    const existingTodo = todos.find((t) => t.id === id);
+    if (!existingTodo) {
+      throw new Error(`Todo not found: ${id}`);
+    }
+
+    let updatedTodo: Todo = {
+      ...existingTodo,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const nextTodo =
+      updates.completed === true &&
+      !existingTodo.completed &&
+      !existingTodo.nextOccurrenceId
+        ? this.createNextOccurrence(updatedTodo)
+        : null;
+    if (nextTodo) {
+      updatedTodo = { ...updatedTodo, nextOccurrenceId: nextTodo.id };
+    }
+
+    await this.localStorageService.saveTodos([
+      ...todos.map((t) => (t.id === id ? updatedTodo : t)),
+      ...(nextTodo ? [nextTodo] : []),
+    ]);
+
+    return updatedTodo;
+  }
+
+  /**
+   * 반복 TODO의 다음 회차 생성 (반복이 없거나 끝났거나 규칙이 잘못되었으면 null)
+   */
+  private createNextOccurrence(todo: Todo): Todo | null {
+    if (!todo.recurrence) {
+      return null;
+    }
+
+    let next;
+    try {
+      next = getNextOccurrence(
+        todo.recurrence,
+        todo.dueDate ?? todo.createdAt,
+        todo.timeZone ?? getUserTimeZone(),
+      );
+    } catch (error) {
+      // 저장된 규칙이 잘못되어도 완료 처리 자체는 성공시킴
+      if (appConfig.features.debugMode) {
+        console.warn("⚠️ Invalid recurrence rule:", error);
+      }
+      return null;
+    }
+    if (!next) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    return {
+      id: crypto.randomUUID(),
+      title: todo.title,
+      description: todo.description,
+      completed: false,
+      priority: todo.priority,
+      dueDate: next.date,
+      tags: todo.tags,
+      userId: todo.userId,
+      isGuest: todo.isGuest,
+      recurrence: next.recurrence,
+      timeZone: todo.timeZone,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
   /**
    * 스토리지 에러 처리
    */
@@ -1,4 +1,16 @@
-import type { Todo, Priority, FilterType } from "@vive/types";
+import type {
+  Todo,
+  Priority,
+  FilterType,
+  TagUsage,
+  ChecklistItem,
+  ChecklistProgress,
+  DueFilter,
+  Project,
+  ProjectMember,
+  TodoActivity,
+  TrashedTodo,
+} from "@vive/types";
 
 // ================================
 // 기본 API 응답 타입들
@@ -27,12 +39,13 @@ export interface APIErrorResponse {
 }
 
 /**
- * 페이지네이션 정보
+ * 페이지네이션 정보 (GET /todos 응답의 pagination과 같은 필드)
  */
 export interface PaginationInfo {
-  hasNextPage: boolean;
-  nextCursor: string | null;
-  totalCount: number;
+  count: number; // 이 페이지의 항목 수
+  scannedCount: number;
+  cursor?: string; // 다음 페이지 커서 (마지막 페이지면 없음)
+  hasMore: boolean;
 }
 
 /**
@@ -55,10 +68,22 @@ export interface GetTodosParams {
   limit?: number;
   cursor?: string;
   filter?: FilterType;
-  sortBy?: "createdAt" | "priority" | "title";
+  sortBy?: "createdAt" | "priority" | "title" | "dueDate" | "manual";
   sortOrder?: "asc" | "desc";
+  tag?: string;
+  q?: string;
+  match?: TitleSearchMatch;
+  due?: DueFilter;
+  tz?: string; // due 계산 기준 IANA 시간대
+  projectId?: string; // 공유 프로젝트 Todo 조회
+  assignee?: "me"; // 나에게 할당된 Todo (프로젝트 구분 없이)
 }
 
+/**
+ * 제목 검색 방식 (prefix: 접두사 일치, substring: 부분 일치)
+ */
+export type TitleSearchMatch = "prefix" | "substring";
+
 /**
  * TODO 생성 요청
  */
@@ -66,6 +91,11 @@ export interface CreateTodoRequest {
   title: string;
   description?: string;
   priority: Priority;
+  dueDate?: string;
+  tags?: string[];
+  recurrence?: string;
+  timeZone?: string; // 반복 일정의 날짜/요일 계산 기준 시간대 (IANA)
+  rank?: string; // 수동 정렬 순서 (없으면 목록 맨 앞)
 }
 
 /**
@@ -76,6 +106,13 @@ export interface UpdateTodoRequest {
   description?: string;
   priority?: Priority;
   completed?: boolean;
+  dueDate?: string | null; // null이면 마감일 삭제
+  tags?: string[]; // 빈 배열이면 태그 전체 삭제
+  recurrence?: string | null; // null이면 반복 해제
+  timeZone?: string; // 반복 일정의 날짜/요일 계산 기준 시간대 (IANA)
+  rank?: string; // 수동 정렬 순서 (옮긴 항목만 수정)
+  assigneeId?: string | null; // 담당자 (프로젝트 Todo만, null이면 담당 해제)
+  expectedVersion?: number; // 지정하면 서버 버전과 같을 때만 수정
 }
 
 // ================================
@@ -122,6 +159,169 @@ export interface DeleteTodoResponse {
   deletedId: string;
 }
 
+/**
+ * 태그 목록 조회 응답 (사용 횟수 내림차순)
+ */
+export interface GetTagsResponse {
+  tags: TagUsage[];
+}
+
+// ================================
+// 공유 프로젝트 API 타입들
+// ================================
+
+/**
+ * 프로젝트 생성 요청 (만든 사용자가 owner)
+ */
+export interface CreateProjectRequest {
+  name: string;
+}
+
+/**
+ * 내가 속한 프로젝트 목록 조회 응답
+ */
+export interface GetProjectsResponse {
+  projects: Project[];
+}
+
+/**
+ * 프로젝트 멤버 목록 조회 응답 (담당자 선택용)
+ */
+export interface GetProjectMembersResponse {
+  members: ProjectMember[];
+}
+
+export interface GetTodoActivityResponse {
+  activities: TodoActivity[]; // 최신순
+  cursor?: string;
+}
+
+/**
+ * 휴지통 목록 조회 응답 (최근 삭제 순)
+ */
+export interface GetTrashResponse {
+  todos: TrashedTodo[];
+  cursor?: string;
+}
+
+// ================================
+// 배치 API 타입들
+// ================================
+
+/**
+ * 배치 작업 한 건 (POST /todos/batch)
+ */
+export type BatchTodoOperation =
+  | { action: "create"; id?: string; data: CreateTodoRequest } // id를 주면 그 ID로 생성
+  | { action: "update"; id: string; data: UpdateTodoRequest }
+  | { action: "delete"; id: string };
+
+/**
+ * 배치 작업 실패 코드
+ */
+export type BatchTodoErrorCode =
+  | "VALIDATION_ERROR"
+  | "DUPLICATE_ID"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "ALREADY_EXISTS"
+  | "LIMIT_EXCEEDED"
+  | "UNPROCESSED"
+  | "VERSION_CONFLICT"
+  | "INTERNAL_ERROR";
+
+/**
+ * 배치 작업 한 건의 결과
+ */
+export interface BatchTodoResult {
+  index: number; // 요청의 operations 인덱스
+  action: BatchTodoOperation["action"] | "unknown";
+  id?: string;
+  success: boolean;
+  todo?: Todo; // create/update 성공 시, VERSION_CONFLICT면 서버 사본
+  error?: {
+    code: BatchTodoErrorCode;
+    message: string;
+    retryable: boolean; // true면 같은 작업을 다시 보내도 됨
+  };
+}
+
+/**
+ * 배치 작업 응답 (결과는 요청 순서대로)
+ */
+export interface BatchTodosResponse {
+  results: BatchTodoResult[];
+  successCount: number;
+  failedCount: number;
+}
+
+/**
+ * 삭제된 TODO (변경 조회의 삭제 묘비)
+ */
+export interface DeletedTodo {
+  id: string;
+  deletedAt: string;
+}
+
+/**
+ * 변경 조회 응답 (GET /todos/changes)
+ * fullSync이면 since 없이 시작한 전체 목록 페이지, 아니면 토큰 이후의 변경분
+ */
+export interface TodoChangesResponse {
+  todos: Todo[];
+  deleted: DeletedTodo[];
+  token: string;
+  hasMore: boolean;
+  fullSync: boolean;
+}
+
+/**
+ * 실시간 업데이트 메시지 (WebSocket)
+ * 다른 기기에서 생성/수정/삭제된 TODO - 변경 조회 응답과 같은 형식
+ */
+export interface RealtimeTodoChangesMessage {
+  type: "todo_changes";
+  todos: Todo[];
+  deleted: DeletedTodo[];
+}
+
+export type RealtimeMessage = RealtimeTodoChangesMessage;
+
+// ================================
+// 체크리스트 API 타입들
+// ================================
+
+/**
+ * 체크리스트 항목 생성 요청
+ */
+export interface CreateChecklistItemRequest {
+  title: string;
+  completed?: boolean;
+}
+
+/**
+ * 체크리스트 항목 수정 요청
+ */
+export interface UpdateChecklistItemRequest {
+  title?: string;
+  completed?: boolean;
+}
+
+/**
+ * 체크리스트 항목 목록 조회 응답 (표시 순서대로)
+ */
+export interface GetChecklistItemsResponse {
+  items: ChecklistItem[];
+  progress: ChecklistProgress;
+}
+
+/**
+ * 체크리스트 순서 변경 응답
+ */
+export interface ReorderChecklistItemsResponse {
+  items: ChecklistItem[];
+}
+
 // ================================
 // 인증 API 타입들
 // ================================
@@ -173,11 +373,37 @@ export interface GuestTokenResponse {
   sampleTodos: Todo[];
 }
 
+/**
+ * 로그인 응답
+ */
+export interface LoginResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  user: {
+    id: string;
+    email: string;
+    name: string;
+    createdAt: string;
+  };
+}
+
+/**
+ * 회원가입 응답 (가입 후 자동 로그인)
+ */
+export type RegisterResponse = LoginResponse;
+
+/**
+ * 비밀번호 변경 응답 (기존 세션 폐기 후 새 토큰 발급)
+ */
+export type PasswordChangeResponse = LoginResponse;
+
 /**
  * 토큰 갱신 응답
  */
 export interface RefreshTokenResponse {
   accessToken: string;
+  refreshToken?: string; // 회전된 새 리프레시 토큰
   expiresIn: number;
 }
 
@@ -197,18 +423,36 @@ export interface UserInfoResponse {
  * 데이터 내보내기 응답
  */
 export interface ExportDataResponse {
-  exportUrl: string;
-  expiresAt: string;
-  format: string;
+  exportUrl: string; // 파일 내용을 담은 data: URL
+  format: "json" | "csv";
   totalItems: number;
+  exportedAt: string;
 }
 
 /**
  * 데이터 가져오기 옵션
  */
 export interface ImportOptions {
-  mergeStrategy: "replace" | "merge";
-  validateData: boolean;
+  mergeStrategy: "replace" | "merge"; // 같은 ID가 이미 있으면 덮어쓰기 / 건너뛰기
+}
+
+/**
+ * 데이터 가져오기 요청 (POST /todos/import)
+ */
+export interface ImportDataRequest {
+  format: "json" | "csv";
+  todos?: unknown[];
+  csv?: string;
+  mergeStrategy?: "replace" | "merge";
+}
+
+/**
+ * 가져오기에 실패한 행
+ */
+export interface ImportRowError {
+  row: number; // 1부터 시작 (CSV는 헤더 다음 줄이 1)
+  id?: string;
+  message: string;
 }
 
 /**
@@ -216,8 +460,9 @@ export interface ImportOptions {
  */
 export interface ImportDataResponse {
   importedCount: number;
+  updatedCount: number;
   skippedCount: number;
-  errors: string[];
+  errors: ImportRowError[];
 }
 
 /**
@@ -243,6 +488,7 @@ export interface MigrateDataResponse {
   migratedCount: number;
   duplicateCount: number;
   totalCount: number;
+  errors: ImportRowError[];
 }
 
 // ================================
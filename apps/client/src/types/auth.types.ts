@@ -136,7 +136,7 @@ export interface LoginRequest {
 export interface RegisterRequest {
   email: string;
   password: string;
-  username?: string;
+  name: string;
   acceptTerms: boolean;
 }
 
@@ -147,6 +147,15 @@ export interface PasswordResetRequest {
   email: string;
 }
 
+/**
+ * 비밀번호 재설정 확인 요청 (메일로 받은 코드 사용)
+ */
+export interface PasswordResetConfirmRequest {
+  email: string;
+  code: string;
+  newPassword: string;
+}
+
 /**
  * 비밀번호 변경 요청
  */
@@ -224,6 +233,7 @@ export interface AuthContextType {
   updateProfile: (data: ProfileUpdateRequest) => Promise<void>;
   changePassword: (data: PasswordChangeRequest) => Promise<void>;
   requestPasswordReset: (data: PasswordResetRequest) => Promise<void>;
+  confirmPasswordReset: (data: PasswordResetConfirmRequest) => Promise<void>;
 
   // 권한 확인
   hasPermission: PermissionChecker;
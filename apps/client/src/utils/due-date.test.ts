@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { getDueDateRange, isDueDateInRange } from "./due-date";
+
+// 서울 기준 2024-03-11 00:30
+const NOW = new Date("2024-03-10T15:30:00.000Z");
+
+describe("due-date", () => {
+  it("should compute ranges in the given time zone the same way as the server", () => {
+    expect(getDueDateRange("today", "Asia/Seoul", NOW)).toEqual({
+      from: "2024-03-10T15:00:00.000Z",
+      to: "2024-03-11T14:59:59.999Z",
+    });
+    expect(getDueDateRange("overdue", "Asia/Seoul", NOW)).toEqual({
+      to: "2024-03-10T14:59:59.999Z",
+    });
+    expect(getDueDateRange("week", "UTC", NOW)).toEqual({
+      from: "2024-03-10T00:00:00.000Z",
+      to: "2024-03-16T23:59:59.999Z",
+    });
+  });
+
+  it("should skip todos without a due date", () => {
+    const range = getDueDateRange("week", "UTC", NOW);
+
+    expect(isDueDateInRange("2024-03-16T12:00:00.000Z", range)).toBe(true);
+    expect(isDueDateInRange("2024-03-17T00:00:00.000Z", range)).toBe(false);
+    expect(isDueDateInRange(undefined, range)).toBe(false);
+  });
+});
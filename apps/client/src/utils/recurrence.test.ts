@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeRecurrence,
+  getNextOccurrence,
+  isValidRecurrenceRule,
+  RECURRENCE_PRESETS,
+} from "./recurrence";
+
+// 2024-01-01은 월요일
+const MONDAY = "2024-01-01T09:00:00.000Z";
+const FRIDAY = "2024-01-05T09:00:00.000Z";
+
+describe("recurrence", () => {
+  it("should accept every picker preset", () => {
+    for (const preset of RECURRENCE_PRESETS) {
+      expect(isValidRecurrenceRule(preset.value)).toBe(true);
+    }
+  });
+
+  it("should compute next occurrences the same way as the server", () => {
+    expect(getNextOccurrence("FREQ=DAILY", MONDAY)?.date).toBe(
+      "2024-01-02T09:00:00.000Z",
+    );
+    expect(
+      getNextOccurrence("FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR", FRIDAY)?.date,
+    ).toBe("2024-01-08T09:00:00.000Z");
+    expect(
+      getNextOccurrence("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE", MONDAY)?.date,
+    ).toBe("2024-01-03T09:00:00.000Z");
+    expect(
+      getNextOccurrence("FREQ=MONTHLY", "2024-01-31T09:00:00.000Z")?.date,
+    ).toBe("2024-02-29T09:00:00.000Z");
+  });
+
+  it("should count down COUNT and stop at UNTIL", () => {
+    expect(getNextOccurrence("FREQ=DAILY;COUNT=2", MONDAY)).toEqual({
+      date: "2024-01-02T09:00:00.000Z",
+      recurrence: "FREQ=DAILY;COUNT=1",
+    });
+    expect(getNextOccurrence("FREQ=DAILY;COUNT=1", MONDAY)).toBeNull();
+    expect(getNextOccurrence("FREQ=DAILY;UNTIL=20240101", MONDAY)).toBeNull();
+  });
+
+  it("should pick weekdays in the given time zone", () => {
+    // 서울 월요일 08:00 = UTC 일요일 23:00 → 서울 수요일 08:00
+    expect(
+      getNextOccurrence(
+        "FREQ=WEEKLY;BYDAY=MO,WE",
+        "2024-01-07T23:00:00.000Z",
+        "Asia/Seoul",
+      )?.date,
+    ).toBe("2024-01-09T23:00:00.000Z");
+  });
+
+  it("should describe rules in Korean", () => {
+    expect(describeRecurrence("FREQ=DAILY")).toBe("매일");
+    expect(describeRecurrence("FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR")).toBe(
+      "매일 (평일)",
+    );
+    expect(describeRecurrence("FREQ=WEEKLY;INTERVAL=2;BYDAY=WE,MO")).toBe(
+      "2주마다 월·수",
+    );
+    expect(describeRecurrence("FREQ=MONTHLY;COUNT=3")).toBe("매월, 3회 남음");
+    expect(describeRecurrence("FREQ=YEARLY;UNTIL=20301231")).toBe(
+      "매년, 2030-12-31까지",
+    );
+    expect(describeRecurrence("FREQ=HOURLY")).toBeNull();
+  });
+});
@@ -1,8 +1,15 @@
 /**
  * Service Worker 관리 유틸리티
- * PWA 지원, 캐시 관리, 업데이트 처리
+ * PWA 지원, 캐시 관리, 업데이트 처리, 백그라운드 동기화
  */
 
+import type { Todo } from "@vive/types";
+
+// public/sw.js와 같은 태그를 사용해야 함
+export const BACKGROUND_SYNC_TAG = "todo-sync";
+export const PERIODIC_SYNC_TAG = "todo-periodic-sync";
+const PERIODIC_SYNC_MIN_INTERVAL = 12 * 60 * 60 * 1000; // 12시간
+
 export interface ServiceWorkerState {
   isSupported: boolean;
   isRegistered: boolean;
@@ -18,6 +25,49 @@ export interface CacheStats {
   };
 }
 
+/**
+ * 서비스 워커가 보낸 대기 작업 한 건의 결과
+ */
+export interface BackgroundSyncOperationResult {
+  operationId: string;
+  todoId: string;
+  type: "create" | "update" | "delete";
+  success: boolean;
+  todo?: Todo; // 생성/수정 성공 시 서버 결과
+}
+
+/**
+ * 서비스 워커의 백그라운드 동기화 결과
+ */
+export interface BackgroundSyncResult {
+  tag: string;
+  syncedOperations: number;
+  failedOperations: number;
+  results: BackgroundSyncOperationResult[];
+  error?: string; // 요청 자체가 실패한 경우
+  completedAt: string;
+}
+
+/**
+ * 서비스 워커가 열린 탭에 보내는 동기화 메시지
+ * - SYNC_REQUESTED: 탭이 열려 있으면 서비스 워커 대신 탭이 동기화
+ * - BACKGROUND_SYNC_RESULT: 탭 없이 서비스 워커가 보낸 결과
+ */
+export type BackgroundSyncMessage =
+  | { type: "SYNC_REQUESTED"; data: { tag: string } }
+  | { type: "BACKGROUND_SYNC_RESULT"; data: BackgroundSyncResult };
+
+/**
+ * Background Sync / Periodic Background Sync를 지원하는 등록 정보
+ * (두 API는 아직 TypeScript DOM 타입에 없음)
+ */
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+  periodicSync?: {
+    register(tag: string, options?: { minInterval: number }): Promise<void>;
+  };
+}
+
 /**
  * Service Worker 관리자 클래스
  */
@@ -26,6 +76,8 @@ export class ServiceWorkerManager {
   private registration: ServiceWorkerRegistration | null = null;
   private updateHandlers: Array<(hasUpdate: boolean) => void> = [];
   private stateHandlers: Array<(state: ServiceWorkerState) => void> = [];
+  private syncMessageHandlers: Array<(message: BackgroundSyncMessage) => void> =
+    [];
 
   private constructor() {
     // Singleton pattern
@@ -85,6 +137,9 @@ export class ServiceWorkerManager {
       // 주기적 업데이트 확인 (30분마다)
       this.scheduleUpdateChecks();
 
+      // 지원하는 브라우저에서는 탭이 닫혀 있어도 주기적으로 동기화
+      this.registerPeriodicSync();
+
       return this.registration;
     } catch (error) {
       console.error("[SW Manager] Service worker registration failed:", error);
@@ -262,6 +317,48 @@ export class ServiceWorkerManager {
     });
   }
 
+  /**
+   * 백그라운드 동기화 요청 (탭이 닫혀도 온라인이 되면 서비스 워커가 대기 작업 전송)
+   */
+  async requestBackgroundSync(): Promise<boolean> {
+    if (!this.isSupported()) return false;
+
+    try {
+      const registration = (await navigator.serviceWorker
+        .ready) as SyncCapableRegistration;
+      if (!registration.sync) return false;
+
+      await registration.sync.register(BACKGROUND_SYNC_TAG);
+      return true;
+    } catch (error) {
+      console.error("[SW Manager] Background sync registration failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * 주기적 백그라운드 동기화 등록 (브라우저가 허용한 경우에만)
+   */
+  async registerPeriodicSync(): Promise<boolean> {
+    const registration = this.registration as SyncCapableRegistration | null;
+    if (!registration?.periodicSync) return false;
+
+    try {
+      const status = await navigator.permissions.query({
+        name: "periodic-background-sync" as PermissionName,
+      });
+      if (status.state !== "granted") return false;
+
+      await registration.periodicSync.register(PERIODIC_SYNC_TAG, {
+        minInterval: PERIODIC_SYNC_MIN_INTERVAL,
+      });
+      return true;
+    } catch (error) {
+      console.error("[SW Manager] Periodic sync registration failed:", error);
+      return false;
+    }
+  }
+
   /**
    * 업데이트 확인
    */
@@ -314,6 +411,13 @@ export class ServiceWorkerManager {
         console.log("[SW Manager] Cache updated:", data);
         break;
 
+      case "SYNC_REQUESTED":
+      case "BACKGROUND_SYNC_RESULT":
+        this.syncMessageHandlers.forEach((handler) =>
+          handler({ type, data } as BackgroundSyncMessage),
+        );
+        break;
+
       default:
         console.log("[SW Manager] Unknown message:", event.data);
     }
@@ -334,6 +438,21 @@ export class ServiceWorkerManager {
     };
   }
 
+  /**
+   * 백그라운드 동기화 메시지 핸들러 등록
+   */
+  onSyncMessage(handler: (message: BackgroundSyncMessage) => void): () => void {
+    this.syncMessageHandlers.push(handler);
+
+    // 구독 해제 함수 반환
+    return () => {
+      const index = this.syncMessageHandlers.indexOf(handler);
+      if (index > -1) {
+        this.syncMessageHandlers.splice(index, 1);
+      }
+    };
+  }
+
   /**
    * 상태 변경 핸들러 등록
    */
@@ -427,22 +546,9 @@ export function setupOfflineHandling(): void {
     // 온라인 상태 변경시 UI 업데이트
     document.body.classList.toggle("is-offline", !isOnline);
 
-    if (isOnline) {
+    if (isOnline && navigator.serviceWorker?.controller) {
       // 온라인 복구시 백그라운드 동기화 트리거
-      if ("serviceWorker" in navigator && navigator.serviceWorker.controller) {
-        navigator.serviceWorker.ready
-          .then((registration) => {
-            if ("sync" in registration) {
-              return registration.sync.register("todo-sync");
-            }
-          })
-          .catch((error) => {
-            console.error(
-              "[SW Manager] Background sync registration failed:",
-              error,
-            );
-          });
-      }
+      ServiceWorkerManager.getInstance().requestBackgroundSync();
     }
   };
 
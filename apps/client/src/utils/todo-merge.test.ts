@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import type { Todo } from "@vive/types";
+import { mergeTodoFields, pickTodoFields } from "./todo-merge";
+
+const base: Todo = {
+  id: "todo-1",
+  title: "장보기",
+  completed: false,
+  priority: "medium",
+  tags: ["집"],
+  createdAt: "2024-03-01T00:00:00.000Z",
+  updatedAt: "2024-03-01T00:00:00.000Z",
+  version: 1,
+};
+
+describe("todo-merge", () => {
+  it("should merge changes to different fields without conflicts", () => {
+    const local = { ...base, title: "장보기 (우유)" };
+    const remote = {
+      ...base,
+      completed: true,
+      updatedAt: "2024-03-02T00:00:00.000Z",
+      version: 2,
+    };
+
+    const result = mergeTodoFields(base, local, remote);
+
+    expect(result.conflictingFields).toEqual([]);
+    expect(result.merged).toEqual(
+      expect.objectContaining({
+        title: "장보기 (우유)",
+        completed: true,
+        version: 2,
+      }),
+    );
+    expect(result.localChanges).toEqual({ title: "장보기 (우유)" });
+  });
+
+  it("should report only fields changed to different values on both sides", () => {
+    const local = { ...base, title: "로컬 제목", tags: ["집", "주말"] };
+    const remote = {
+      ...base,
+      title: "원격 제목",
+      tags: ["집", "주말"],
+      version: 2,
+    };
+
+    const result = mergeTodoFields(base, local, remote);
+
+    expect(result.conflictingFields).toEqual(["title"]);
+    expect(result.merged.title).toBe("로컬 제목");
+    expect(result.localChanges).toEqual({});
+  });
+
+  it("should merge a reassignment with other field changes", () => {
+    const projectBase = {
+      ...base,
+      projectId: "project-1",
+      assigneeId: "user-1",
+    };
+    const local = { ...projectBase, title: "장보기 (우유)" };
+    const remote = { ...projectBase, assigneeId: "user-2", version: 2 };
+
+    const result = mergeTodoFields(projectBase, local, remote);
+
+    expect(result.conflictingFields).toEqual([]);
+    expect(result.merged).toEqual(
+      expect.objectContaining({ title: "장보기 (우유)", assigneeId: "user-2" }),
+    );
+    expect(result.localChanges).toEqual({ title: "장보기 (우유)" });
+  });
+
+  it("should report a conflict when both sides assign different members", () => {
+    const projectBase = {
+      ...base,
+      projectId: "project-1",
+      assigneeId: "user-1",
+    };
+    const local = { ...projectBase, assigneeId: "user-2" };
+    const remote = { ...projectBase, assigneeId: "user-3", version: 2 };
+
+    const result = mergeTodoFields(projectBase, local, remote);
+
+    expect(result.conflictingFields).toEqual(["assigneeId"]);
+    expect(result.merged.assigneeId).toBe("user-2");
+  });
+
+  it("should treat missing optional values as unchanged", () => {
+    const local = { ...base, description: undefined, tags: ["집"] };
+    const remote = { ...base, priority: "high" as const, version: 2 };
+
+    const result = mergeTodoFields(base, local, remote);
+
+    expect(result.conflictingFields).toEqual([]);
+    expect(result.merged.priority).toBe("high");
+    expect(result.localChanges).toEqual({});
+  });
+
+  it("should build a todo from the side picked for each field", () => {
+    const local = { ...base, title: "로컬 제목", completed: true };
+    const remote = { ...base, title: "원격 제목", priority: "high" as const };
+
+    const picked = pickTodoFields(local, remote, { title: "remote" });
+
+    expect(picked).toEqual(
+      expect.objectContaining({
+        title: "원격 제목",
+        completed: true,
+        priority: "medium",
+      }),
+    );
+  });
+});
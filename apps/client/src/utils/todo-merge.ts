@@ -0,0 +1,111 @@
+/**
+ * TODO 필드 단위 3-way 병합 유틸리티
+ *
+ * 마지막으로 동기화한 서버 사본(base)을 기준으로 로컬과 원격에서 각각 바뀐 필드를 비교합니다.
+ * - 한쪽에서만 바뀐 필드는 바뀐 값을 사용
+ * - 양쪽에서 같은 값으로 바뀐 필드는 그 값을 사용
+ * - 양쪽에서 서로 다른 값으로 바뀐 필드만 충돌 (병합 결과에는 로컬 값 유지)
+ * 버전, 수정 시간, 체크리스트 진행률처럼 서버가 관리하는 필드는 원격 값을 사용합니다.
+ */
+
+import type { Todo } from "@vive/types";
+
+// 사용자가 수정하는 필드 (병합 대상)
+export const MERGEABLE_TODO_FIELDS = [
+  "title",
+  "description",
+  "completed",
+  "priority",
+  "dueDate",
+  "tags",
+  "recurrence",
+  "rank",
+  "assigneeId",
+] as const;
+
+export type MergeableTodoField = (typeof MERGEABLE_TODO_FIELDS)[number];
+
+/**
+ * 3-way 병합 결과
+ */
+export interface TodoMergeResult {
+  merged: Todo;
+  conflictingFields: MergeableTodoField[];
+  // 병합 결과에서 원격과 다른 필드 (아직 서버에 반영되지 않은 로컬 변경, 충돌 필드 제외)
+  localChanges: Partial<Pick<Todo, MergeableTodoField>>;
+}
+
+/**
+ * base 기준으로 로컬과 원격 TODO를 필드 단위로 병합
+ */
+export function mergeTodoFields(
+  base: Todo,
+  local: Todo,
+  remote: Todo,
+): TodoMergeResult {
+  // 로컬에만 있는 값(체크리스트 항목 등)은 유지하고, 서버 관리 필드는 원격 값 사용
+  const merged: Todo = { ...local, ...remote };
+  const conflictingFields: MergeableTodoField[] = [];
+  const localChanges: Partial<Pick<Todo, MergeableTodoField>> = {};
+
+  for (const field of MERGEABLE_TODO_FIELDS) {
+    const localChanged = !isSameValue(local[field], base[field]);
+    const remoteChanged = !isSameValue(remote[field], base[field]);
+
+    if (!localChanged) {
+      continue;
+    }
+    if (remoteChanged && !isSameValue(local[field], remote[field])) {
+      conflictingFields.push(field);
+    }
+
+    assignField(merged, field, local[field]);
+    if (!remoteChanged) {
+      assignField(localChanges, field, local[field]);
+    }
+  }
+
+  return { merged, conflictingFields, localChanges };
+}
+
+/**
+ * base 이후 바뀐 필드 목록
+ */
+export function getChangedFields(base: Todo, todo: Todo): MergeableTodoField[] {
+  return MERGEABLE_TODO_FIELDS.filter(
+    (field) => !isSameValue(todo[field], base[field]),
+  );
+}
+
+/**
+ * 필드별로 고른 쪽(local/remote)의 값으로 TODO 구성 (고르지 않은 필드는 로컬 값)
+ * 서버가 관리하는 필드는 원격 값을 사용
+ */
+export function pickTodoFields(
+  local: Todo,
+  remote: Todo,
+  picks: Partial<Record<MergeableTodoField, "local" | "remote">>,
+): Todo {
+  const picked: Todo = { ...local, ...remote };
+  for (const field of MERGEABLE_TODO_FIELDS) {
+    assignField(
+      picked,
+      field,
+      picks[field] === "remote" ? remote[field] : local[field],
+    );
+  }
+  return picked;
+}
+
+function assignField<K extends MergeableTodoField>(
+  target: Partial<Pick<Todo, MergeableTodoField>>,
+  field: K,
+  value: Todo[K],
+): void {
+  target[field] = value;
+}
+
+// 없는 값(undefined/null)은 같은 값으로 보고, 배열(태그)은 내용으로 비교
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
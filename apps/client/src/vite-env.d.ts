@@ -4,6 +4,7 @@ interface ImportMetaEnv {
   // API 설정
   readonly VITE_API_BASE_URL: string;
   readonly VITE_API_TIMEOUT: string;
+  readonly VITE_REALTIME_URL: string;
 
   // 인증 설정
   readonly VITE_AUTH_MODE: "guest" | "authenticated";
@@ -12,10 +12,35 @@ export interface ApiConstructProps {
     listTodos: lambda.Function;
     updateTodo: lambda.Function;
     deleteTodo: lambda.Function;
+    listTags: lambda.Function;
+    exportTodos: lambda.Function;
+    importTodos: lambda.Function;
+    batchTodos: lambda.Function;
+    todoChanges: lambda.Function;
+    listTodoActivity: lambda.Function;
+    listTrash: lambda.Function;
+    restoreTodo: lambda.Function;
+    purgeTodo: lambda.Function;
+    listChecklistItems: lambda.Function;
+    createChecklistItem: lambda.Function;
+    updateChecklistItem: lambda.Function;
+    deleteChecklistItem: lambda.Function;
+    reorderChecklistItems: lambda.Function;
+    listProjects: lambda.Function;
+    createProject: lambda.Function;
+    listProjectMembers: lambda.Function;
+    addProjectMember: lambda.Function;
+    updateProjectMember: lambda.Function;
+    removeProjectMember: lambda.Function;
   };
   authHandlers: {
     login: lambda.Function;
+    register: lambda.Function;
     refresh: lambda.Function;
+    logout: lambda.Function;
+    passwordResetRequest: lambda.Function;
+    passwordResetConfirm: lambda.Function;
+    passwordChange: lambda.Function;
     guestAuth: lambda.Function;
   };
   userPool: cognito.UserPool;
@@ -58,6 +83,7 @@ export class ApiConstruct extends Construct {
           'X-Api-Key',
           'X-Amz-Security-Token',
           'X-Request-ID',
+          'If-Match',
         ],
         allowCredentials: true,
         maxAge: cdk.Duration.seconds(3600), // 1시간
@@ -259,6 +285,13 @@ export class ApiConstruct extends Construct {
           'method.request.querystring.cursor': false,
           'method.request.querystring.status': false,
           'method.request.querystring.priority': false,
+          'method.request.querystring.tag': false,
+          'method.request.querystring.q': false,
+          'method.request.querystring.match': false,
+          'method.request.querystring.due': false,
+          'method.request.querystring.tz': false,
+          'method.request.querystring.projectId': false,
+          'method.request.querystring.assignee': false,
         },
         methodResponses: commonMethodResponses,
       }
@@ -282,6 +315,86 @@ export class ApiConstruct extends Construct {
       }
     );
 
+    // POST /todos/export, POST /todos/import - 데이터 내보내기/가져오기 (인증 필요)
+    // POST /todos/batch - 배치 생성/수정/삭제 (인증 필요)
+    const transferRoutes: Array<{ path: string; handler: lambda.Function }> = [
+      { path: 'export', handler: todoHandlers.exportTodos },
+      { path: 'import', handler: todoHandlers.importTodos },
+      { path: 'batch', handler: todoHandlers.batchTodos },
+    ];
+    transferRoutes.forEach(route => {
+      todosResource.addResource(route.path).addMethod(
+        'POST',
+        new apigateway.LambdaIntegration(route.handler, {
+          proxy: true,
+          integrationResponses: commonIntegrationResponses,
+        }),
+        {
+          authorizer: this.cognitoAuthorizer,
+          authorizationType: apigateway.AuthorizationType.COGNITO,
+          methodResponses: commonMethodResponses,
+        }
+      );
+    });
+
+    // GET /todos/changes - 변경 토큰 이후 변경 조회 (인증 필요)
+    todosResource.addResource('changes').addMethod(
+      'GET',
+      new apigateway.LambdaIntegration(todoHandlers.todoChanges, {
+        proxy: true,
+        integrationResponses: commonIntegrationResponses,
+      }),
+      {
+        authorizer: this.cognitoAuthorizer,
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        requestParameters: {
+          'method.request.querystring.since': false,
+          'method.request.querystring.limit': false,
+        },
+        methodResponses: commonMethodResponses,
+      }
+    );
+
+    // /todos/trash 리소스 (휴지통)
+    const trashResource = todosResource.addResource('trash');
+
+    // GET /todos/trash - 휴지통 목록 조회 (인증 필요)
+    trashResource.addMethod(
+      'GET',
+      new apigateway.LambdaIntegration(todoHandlers.listTrash, {
+        proxy: true,
+        integrationResponses: commonIntegrationResponses,
+      }),
+      {
+        authorizer: this.cognitoAuthorizer,
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        requestParameters: {
+          'method.request.querystring.projectId': false,
+          'method.request.querystring.limit': false,
+          'method.request.querystring.cursor': false,
+        },
+        methodResponses: commonMethodResponses,
+      }
+    );
+
+    // DELETE /todos/trash/{id} - 휴지통 할일 영구 삭제 (인증 필요)
+    trashResource.addResource('{id}').addMethod(
+      'DELETE',
+      new apigateway.LambdaIntegration(todoHandlers.purgeTodo, {
+        proxy: true,
+        integrationResponses: commonIntegrationResponses,
+      }),
+      {
+        authorizer: this.cognitoAuthorizer,
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        requestParameters: {
+          'method.request.path.id': true,
+          'method.request.querystring.projectId': false,
+        },
+        methodResponses: commonMethodResponses,
+      }
+    );
+
     // /todos/{id} 리소스
     const todoResource = todosResource.addResource('{id}');
 
@@ -323,6 +436,189 @@ export class ApiConstruct extends Construct {
       }
     );
 
+    // POST /todos/{id}/restore - 휴지통 할일 복원 (인증 필요)
+    todoResource.addResource('restore').addMethod(
+      'POST',
+      new apigateway.LambdaIntegration(todoHandlers.restoreTodo, {
+        proxy: true,
+        integrationResponses: commonIntegrationResponses,
+      }),
+      {
+        authorizer: this.cognitoAuthorizer,
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        requestParameters: {
+          'method.request.path.id': true,
+          'method.request.querystring.projectId': false,
+        },
+        methodResponses: commonMethodResponses,
+      }
+    );
+
+    // GET /todos/{id}/activity - 활동 기록 조회 (인증 필요)
+    todoResource.addResource('activity').addMethod(
+      'GET',
+      new apigateway.LambdaIntegration(todoHandlers.listTodoActivity, {
+        proxy: true,
+        integrationResponses: commonIntegrationResponses,
+      }),
+      {
+        authorizer: this.cognitoAuthorizer,
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        requestParameters: {
+          'method.request.path.id': true,
+          'method.request.querystring.projectId': false,
+          'method.request.querystring.limit': false,
+          'method.request.querystring.cursor': false,
+        },
+        methodResponses: commonMethodResponses,
+      }
+    );
+
+    // /todos/{id}/items 리소스 (체크리스트 항목)
+    const checklistResource = todoResource.addResource('items');
+    const checklistRoutes: Array<{
+      resource: apigateway.Resource;
+      method: string;
+      handler: lambda.Function;
+      pathParams: string[];
+    }> = [
+      {
+        resource: checklistResource,
+        method: 'GET',
+        handler: todoHandlers.listChecklistItems,
+        pathParams: ['id'],
+      },
+      {
+        resource: checklistResource,
+        method: 'POST',
+        handler: todoHandlers.createChecklistItem,
+        pathParams: ['id'],
+      },
+      {
+        // 고정 경로(order)가 {itemId}보다 우선 매칭됨
+        resource: checklistResource.addResource('order'),
+        method: 'PUT',
+        handler: todoHandlers.reorderChecklistItems,
+        pathParams: ['id'],
+      },
+    ];
+
+    const checklistItemResource = checklistResource.addResource('{itemId}');
+    checklistRoutes.push(
+      {
+        resource: checklistItemResource,
+        method: 'PUT',
+        handler: todoHandlers.updateChecklistItem,
+        pathParams: ['id', 'itemId'],
+      },
+      {
+        resource: checklistItemResource,
+        method: 'DELETE',
+        handler: todoHandlers.deleteChecklistItem,
+        pathParams: ['id', 'itemId'],
+      }
+    );
+
+    // 체크리스트 항목 CRUD 및 순서 변경 (인증 필요)
+    checklistRoutes.forEach(route => {
+      route.resource.addMethod(
+        route.method,
+        new apigateway.LambdaIntegration(route.handler, {
+          proxy: true,
+          integrationResponses: commonIntegrationResponses,
+        }),
+        {
+          authorizer: this.cognitoAuthorizer,
+          authorizationType: apigateway.AuthorizationType.COGNITO,
+          requestParameters: Object.fromEntries(
+            route.pathParams.map(param => [`method.request.path.${param}`, true])
+          ),
+          methodResponses: commonMethodResponses,
+        }
+      );
+    });
+
+    // /projects 리소스 (공유 프로젝트와 멤버 역할)
+    const projectsResource = this.restApi.root.addResource('projects');
+    const projectMembersResource = projectsResource.addResource('{id}').addResource('members');
+    const projectMemberResource = projectMembersResource.addResource('{userId}');
+    const projectRoutes: Array<{
+      resource: apigateway.Resource;
+      method: string;
+      handler: lambda.Function;
+      pathParams: string[];
+    }> = [
+      {
+        resource: projectsResource,
+        method: 'GET',
+        handler: todoHandlers.listProjects,
+        pathParams: [],
+      },
+      {
+        resource: projectsResource,
+        method: 'POST',
+        handler: todoHandlers.createProject,
+        pathParams: [],
+      },
+      {
+        resource: projectMembersResource,
+        method: 'GET',
+        handler: todoHandlers.listProjectMembers,
+        pathParams: ['id'],
+      },
+      {
+        resource: projectMembersResource,
+        method: 'POST',
+        handler: todoHandlers.addProjectMember,
+        pathParams: ['id'],
+      },
+      {
+        resource: projectMemberResource,
+        method: 'PUT',
+        handler: todoHandlers.updateProjectMember,
+        pathParams: ['id', 'userId'],
+      },
+      {
+        resource: projectMemberResource,
+        method: 'DELETE',
+        handler: todoHandlers.removeProjectMember,
+        pathParams: ['id', 'userId'],
+      },
+    ];
+
+    // 프로젝트 생성/조회 및 멤버 관리 (인증 필요)
+    projectRoutes.forEach(route => {
+      route.resource.addMethod(
+        route.method,
+        new apigateway.LambdaIntegration(route.handler, {
+          proxy: true,
+          integrationResponses: commonIntegrationResponses,
+        }),
+        {
+          authorizer: this.cognitoAuthorizer,
+          authorizationType: apigateway.AuthorizationType.COGNITO,
+          requestParameters: Object.fromEntries(
+            route.pathParams.map(param => [`method.request.path.${param}`, true])
+          ),
+          methodResponses: commonMethodResponses,
+        }
+      );
+    });
+
+    // GET /tags - 태그 목록 및 사용 횟수 조회 (인증 필요)
+    this.restApi.root.addResource('tags').addMethod(
+      'GET',
+      new apigateway.LambdaIntegration(todoHandlers.listTags, {
+        proxy: true,
+        integrationResponses: commonIntegrationResponses,
+      }),
+      {
+        authorizer: this.cognitoAuthorizer,
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        methodResponses: commonMethodResponses,
+      }
+    );
+
     // /auth 리소스 (공개 엔드포인트)
     const authResource = this.restApi.root.addResource('auth');
 
@@ -338,6 +634,18 @@ export class ApiConstruct extends Construct {
       }
     );
 
+    // POST /auth/register - 회원가입 (공개 접근)
+    authResource.addResource('register').addMethod(
+      'POST',
+      new apigateway.LambdaIntegration(authHandlers.register, {
+        proxy: true,
+        integrationResponses: commonIntegrationResponses,
+      }),
+      {
+        methodResponses: commonMethodResponses,
+      }
+    );
+
     // POST /auth/refresh - 토큰 갱신 (공개 접근)
     authResource.addResource('refresh').addMethod(
       'POST',
@@ -350,6 +658,57 @@ export class ApiConstruct extends Construct {
       }
     );
 
+    // POST /auth/logout - 로그아웃 (핸들러에서 액세스 토큰 직접 검증)
+    authResource.addResource('logout').addMethod(
+      'POST',
+      new apigateway.LambdaIntegration(authHandlers.logout, {
+        proxy: true,
+        integrationResponses: commonIntegrationResponses,
+      }),
+      {
+        methodResponses: commonMethodResponses,
+      }
+    );
+
+    // /auth/password 리소스 (비밀번호 재설정/변경)
+    const passwordResource = authResource.addResource('password');
+
+    // POST /auth/password/reset-request - 재설정 코드 요청 (공개 접근)
+    passwordResource.addResource('reset-request').addMethod(
+      'POST',
+      new apigateway.LambdaIntegration(authHandlers.passwordResetRequest, {
+        proxy: true,
+        integrationResponses: commonIntegrationResponses,
+      }),
+      {
+        methodResponses: commonMethodResponses,
+      }
+    );
+
+    // POST /auth/password/reset-confirm - 재설정 코드로 비밀번호 변경 (공개 접근)
+    passwordResource.addResource('reset-confirm').addMethod(
+      'POST',
+      new apigateway.LambdaIntegration(authHandlers.passwordResetConfirm, {
+        proxy: true,
+        integrationResponses: commonIntegrationResponses,
+      }),
+      {
+        methodResponses: commonMethodResponses,
+      }
+    );
+
+    // POST /auth/password/change - 비밀번호 변경 (핸들러에서 액세스 토큰 직접 검증)
+    passwordResource.addResource('change').addMethod(
+      'POST',
+      new apigateway.LambdaIntegration(authHandlers.passwordChange, {
+        proxy: true,
+        integrationResponses: commonIntegrationResponses,
+      }),
+      {
+        methodResponses: commonMethodResponses,
+      }
+    );
+
     // POST /auth/guest - 게스트 인증 (공개 접근)
     authResource.addResource('guest').addMethod(
       'POST',
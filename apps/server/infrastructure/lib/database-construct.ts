@@ -18,7 +18,11 @@ import { Construct } from 'constructs';
  * - 기본 키: PK (파티션), SK (정렬)
  * - GSI1: 상태별/우선순위별 쿼리용
  * - GSI2: 제목 검색 및 정렬용
+ * - GSI3: 마감일 조회 및 정렬용 (마감일이 있는 TODO만)
+ * - GSI4: 변경 조회용 (TODO와 삭제 묘비, 마지막 변경 순)
+ * - GSI5: 담당자 조회용 (담당자가 있는 TODO만, 프로젝트 구분 없이)
  * - TTL: 게스트 데이터 자동 삭제 (7일)
+ * - Streams: TODO 변경을 연결된 기기에 실시간으로 전송 (변경 전후 이미지)
  */
 export class DatabaseConstruct extends Construct {
   public readonly todoTable: dynamodb.Table;
@@ -54,6 +58,8 @@ export class DatabaseConstruct extends Construct {
       // TTL 설정 - 게스트 사용자 데이터 7일 후 자동 삭제
       timeToLiveAttribute: 'ttl',
 
+      // 스트림 - 실시간 업데이트 팬아웃 (삭제는 이전 이미지로 소유자를 찾음)
+      stream: dynamodb.StreamViewType.NEW_AND_OLD_IMAGES,
     });
 
     // GSI1: 사용자별 상태 및 우선순위 쿼리
@@ -94,6 +100,75 @@ export class DatabaseConstruct extends Construct {
           : undefined,
     });
 
+    // GSI3: 마감일 보기 (overdue / today / week) 및 마감일 정렬
+    // PK: USER#<userId> SK: DUE#<dueDate> (마감일이 없으면 인덱싱되지 않는 희소 인덱스)
+    this.todoTable.addGlobalSecondaryIndex({
+      indexName: 'GSI3-DueDate',
+      partitionKey: {
+        name: 'GSI3PK',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'GSI3SK',
+        type: dynamodb.AttributeType.STRING,
+      },
+      projectionType: dynamodb.ProjectionType.ALL,
+      readCapacity:
+        this.getBillingMode() === dynamodb.BillingMode.PROVISIONED
+          ? Math.ceil(this.getReadCapacity() * 0.3)
+          : undefined,
+      writeCapacity:
+        this.getBillingMode() === dynamodb.BillingMode.PROVISIONED
+          ? Math.ceil(this.getWriteCapacity() * 0.3)
+          : undefined,
+    });
+
+    // GSI4: 변경 토큰 기반 증분 동기화 (GET /todos/changes)
+    // PK: USER#<userId> SK: CHANGE#<updatedAt|deletedAt>#<todoId>
+    this.todoTable.addGlobalSecondaryIndex({
+      indexName: 'GSI4-Changes',
+      partitionKey: {
+        name: 'GSI4PK',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'GSI4SK',
+        type: dynamodb.AttributeType.STRING,
+      },
+      projectionType: dynamodb.ProjectionType.ALL,
+      readCapacity:
+        this.getBillingMode() === dynamodb.BillingMode.PROVISIONED
+          ? Math.ceil(this.getReadCapacity() * 0.3)
+          : undefined,
+      writeCapacity:
+        this.getBillingMode() === dynamodb.BillingMode.PROVISIONED
+          ? Math.ceil(this.getWriteCapacity() * 0.3)
+          : undefined,
+    });
+
+    // GSI5: 나에게 할당된 TODO (GET /todos?assignee=me)
+    // PK: USER#<assigneeId>#ASSIGNED SK: TODO#<createdAt>#<todoId> (담당자가 없으면 인덱싱되지 않는 희소 인덱스)
+    this.todoTable.addGlobalSecondaryIndex({
+      indexName: 'GSI5-Assignee',
+      partitionKey: {
+        name: 'GSI5PK',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'GSI5SK',
+        type: dynamodb.AttributeType.STRING,
+      },
+      projectionType: dynamodb.ProjectionType.ALL,
+      readCapacity:
+        this.getBillingMode() === dynamodb.BillingMode.PROVISIONED
+          ? Math.ceil(this.getReadCapacity() * 0.3)
+          : undefined,
+      writeCapacity:
+        this.getBillingMode() === dynamodb.BillingMode.PROVISIONED
+          ? Math.ceil(this.getWriteCapacity() * 0.3)
+          : undefined,
+    });
+
     // CloudWatch 메트릭 및 알람 설정
     const tableMetrics = this.todoTable.metricConsumedReadCapacityUnits({
       period: cdk.Duration.minutes(5),
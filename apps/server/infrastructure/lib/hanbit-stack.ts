@@ -4,6 +4,7 @@ import { DatabaseConstruct } from './database-construct';
 import { AuthConstruct } from './auth-construct';
 import { LambdaConstruct } from './lambda-construct';
 import { ApiConstruct } from './api-construct';
+import { RealtimeConstruct } from './realtime-construct';
 import { MonitoringConstruct } from './monitoring-construct';
 import { DeploymentMonitoringConstruct } from './deployment-monitoring-construct';
 import { DeploymentHistoryConstruct } from './deployment-history-construct';
@@ -20,7 +21,7 @@ export interface HanbitStackProps extends cdk.StackProps {
 
 /**
  * Hanbit TODO 앱의 메인 CDK 스택
- * DynamoDB, Lambda, API Gateway를 포함하는 서버리스 아키텍처
+ * DynamoDB, Lambda, API Gateway (REST, WebSocket)를 포함하는 서버리스 아키텍처
  * 환경별 설정 및 시크릿 관리 지원
  */
 export class HanbitStack extends cdk.Stack {
@@ -68,6 +69,13 @@ export class HanbitStack extends cdk.Stack {
       environmentConfig: this.config,
     });
 
+    // 실시간 업데이트 WebSocket API 및 스트림 팬아웃 생성
+    const realtime = new RealtimeConstruct(this, 'Realtime', {
+      todoTable: database.todoTable,
+      realtimeHandlers: lambda.realtimeHandlers,
+      environmentConfig: this.config,
+    });
+
     // 모니터링 스택도 임시 주석 처리 (토큰 에러 해결을 위해)
     // const monitoring = new MonitoringConstruct(this, 'Monitoring', {
     //   restApi: api.restApi,
@@ -107,6 +115,12 @@ export class HanbitStack extends cdk.Stack {
       exportName: `HanbitTodo-ApiEndpoint-${this.config.name}`,
     });
 
+    new cdk.CfnOutput(this, `RealtimeEndpoint${this.config.stackSuffix}`, {
+      value: realtime.stage.url,
+      description: `WebSocket 실시간 업데이트 엔드포인트 (${this.config.name})`,
+      exportName: `HanbitTodo-RealtimeEndpoint-${this.config.name}`,
+    });
+
     new cdk.CfnOutput(this, `TodoTableName${this.config.stackSuffix}`, {
       value: database.todoTable.tableName,
       description: `DynamoDB 테이블 이름 (${this.config.name})`,
@@ -20,7 +20,7 @@ export interface LambdaConstructProps {
 
 /**
  * Lambda 함수들을 관리하는 Construct
- * TODO 관련 핸들러와 인증 관련 핸들러 포함
+ * TODO 관련 핸들러, 인증 관련 핸들러와 실시간 업데이트 핸들러 포함
  */
 export class LambdaConstruct extends Construct {
   public readonly todoHandlers: {
@@ -28,14 +28,45 @@ export class LambdaConstruct extends Construct {
     listTodos: lambda.Function;
     updateTodo: lambda.Function;
     deleteTodo: lambda.Function;
+    listTags: lambda.Function;
+    exportTodos: lambda.Function;
+    importTodos: lambda.Function;
+    batchTodos: lambda.Function;
+    todoChanges: lambda.Function;
+    listTodoActivity: lambda.Function;
+    listTrash: lambda.Function;
+    restoreTodo: lambda.Function;
+    purgeTodo: lambda.Function;
+    listChecklistItems: lambda.Function;
+    createChecklistItem: lambda.Function;
+    updateChecklistItem: lambda.Function;
+    deleteChecklistItem: lambda.Function;
+    reorderChecklistItems: lambda.Function;
+    listProjects: lambda.Function;
+    createProject: lambda.Function;
+    listProjectMembers: lambda.Function;
+    addProjectMember: lambda.Function;
+    updateProjectMember: lambda.Function;
+    removeProjectMember: lambda.Function;
   };
 
   public readonly authHandlers: {
     login: lambda.Function;
+    register: lambda.Function;
     refresh: lambda.Function;
+    logout: lambda.Function;
+    passwordResetRequest: lambda.Function;
+    passwordResetConfirm: lambda.Function;
+    passwordChange: lambda.Function;
     guestAuth: lambda.Function;
   };
 
+  public readonly realtimeHandlers: {
+    connect: lambda.Function;
+    disconnect: lambda.Function;
+    streamFanout: lambda.Function;
+  };
+
   constructor(scope: Construct, id: string, props: LambdaConstructProps) {
     super(scope, id);
 
@@ -55,6 +86,9 @@ export class LambdaConstruct extends Construct {
         // AWS_REGION과 _X_AMZN_TRACE_ID는 Lambda 런타임에서 자동 제공됨
         NODE_ENV: process.env.NODE_ENV || 'development',
         LOG_LEVEL: process.env.LOG_LEVEL || 'info',
+        // 배포 환경은 SES로 발송 (발신 주소가 없으면 재설정 메일 발송이 실패함)
+        MAIL_SENDER: process.env.MAIL_SENDER || 'ses',
+        MAIL_FROM_ADDRESS: process.env.MAIL_FROM_ADDRESS || '',
       },
       logRetention: logs.RetentionDays.ONE_WEEK,
       bundling: {
@@ -100,6 +134,166 @@ export class LambdaConstruct extends Construct {
         handler: 'handlers/todos/delete.handler',
         description: 'TODO 아이템 삭제',
       }),
+
+      listTags: new lambda.Function(this, 'ListTagsHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-todo-tags',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/todos/tags.handler',
+        description: '태그 목록 및 사용 횟수 조회',
+      }),
+
+      exportTodos: new lambda.Function(this, 'ExportTodosHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-todo-export',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/todos/export.handler',
+        description: 'TODO 데이터 내보내기 (JSON/CSV)',
+      }),
+
+      importTodos: new lambda.Function(this, 'ImportTodosHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-todo-import',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/todos/import.handler',
+        description: 'TODO 데이터 가져오기 (JSON/CSV, 행 단위 검증)',
+      }),
+
+      batchTodos: new lambda.Function(this, 'BatchTodosHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-todo-batch',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/todos/batch.handler',
+        description: 'TODO 배치 생성/수정/삭제 (작업별 결과 반환)',
+      }),
+
+      todoChanges: new lambda.Function(this, 'TodoChangesHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-todo-changes',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/todos/changes.handler',
+        description: '변경 토큰 이후 TODO 변경 조회 (삭제 묘비 포함)',
+      }),
+
+      listTodoActivity: new lambda.Function(this, 'ListTodoActivityHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-todo-activity',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/todos/activity.handler',
+        description: 'TODO 활동 기록 조회 (변경자, 변경 필드, 상관 ID)',
+      }),
+
+      listTrash: new lambda.Function(this, 'ListTrashHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-todo-trash-list',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/todos/trash.handler',
+        description: '휴지통 TODO 목록 조회 (30일 보관)',
+      }),
+
+      restoreTodo: new lambda.Function(this, 'RestoreTodoHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-todo-restore',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/todos/restore.handler',
+        description: '휴지통 TODO 복원 (체크리스트, 태그 포함)',
+      }),
+
+      purgeTodo: new lambda.Function(this, 'PurgeTodoHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-todo-purge',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/todos/purge.handler',
+        description: '휴지통 TODO 영구 삭제',
+      }),
+
+      listChecklistItems: new lambda.Function(this, 'ListChecklistItemsHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-todo-items-list',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/checklist/list.handler',
+        description: '체크리스트 항목 목록 조회',
+      }),
+
+      createChecklistItem: new lambda.Function(this, 'CreateChecklistItemHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-todo-items-create',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/checklist/create.handler',
+        description: '체크리스트 항목 추가',
+      }),
+
+      updateChecklistItem: new lambda.Function(this, 'UpdateChecklistItemHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-todo-items-update',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/checklist/update.handler',
+        description: '체크리스트 항목 수정',
+      }),
+
+      deleteChecklistItem: new lambda.Function(this, 'DeleteChecklistItemHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-todo-items-delete',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/checklist/delete.handler',
+        description: '체크리스트 항목 삭제',
+      }),
+
+      reorderChecklistItems: new lambda.Function(this, 'ReorderChecklistItemsHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-todo-items-reorder',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/checklist/reorder.handler',
+        description: '체크리스트 항목 순서 변경',
+      }),
+
+      listProjects: new lambda.Function(this, 'ListProjectsHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-projects-list',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/projects/list.handler',
+        description: '내가 속한 공유 프로젝트 목록 조회',
+      }),
+
+      createProject: new lambda.Function(this, 'CreateProjectHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-projects-create',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/projects/create.handler',
+        description: '공유 프로젝트 생성',
+      }),
+
+      listProjectMembers: new lambda.Function(this, 'ListProjectMembersHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-projects-members-list',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/projects/list-members.handler',
+        description: '프로젝트 멤버 목록 조회',
+      }),
+
+      addProjectMember: new lambda.Function(this, 'AddProjectMemberHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-projects-members-add',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/projects/add-member.handler',
+        description: '프로젝트 멤버 초대 (owner 전용)',
+      }),
+
+      updateProjectMember: new lambda.Function(this, 'UpdateProjectMemberHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-projects-members-update',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/projects/update-member.handler',
+        description: '프로젝트 멤버 역할 변경 (owner 전용)',
+      }),
+
+      removeProjectMember: new lambda.Function(this, 'RemoveProjectMemberHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-projects-members-remove',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/projects/remove-member.handler',
+        description: '프로젝트 멤버 내보내기',
+      }),
     };
 
     // 인증 핸들러들
@@ -112,6 +306,14 @@ export class LambdaConstruct extends Construct {
         description: '사용자 로그인 처리',
       }),
 
+      register: new lambda.Function(this, 'RegisterHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-auth-register',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/auth/register.handler',
+        description: '사용자 회원가입 처리',
+      }),
+
       refresh: new lambda.Function(this, 'RefreshHandler', {
         ...commonLambdaProps,
         functionName: 'hanbit-auth-refresh',
@@ -120,6 +322,38 @@ export class LambdaConstruct extends Construct {
         description: '토큰 갱신 처리',
       }),
 
+      logout: new lambda.Function(this, 'LogoutHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-auth-logout',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/auth/logout.handler',
+        description: '로그아웃 및 세션 폐기 처리',
+      }),
+
+      passwordResetRequest: new lambda.Function(this, 'PasswordResetRequestHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-auth-password-reset-request',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/auth/password-reset-request.handler',
+        description: '비밀번호 재설정 코드 발송',
+      }),
+
+      passwordResetConfirm: new lambda.Function(this, 'PasswordResetConfirmHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-auth-password-reset-confirm',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/auth/password-reset-confirm.handler',
+        description: '재설정 코드로 비밀번호 변경',
+      }),
+
+      passwordChange: new lambda.Function(this, 'PasswordChangeHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-auth-password-change',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/auth/password-change.handler',
+        description: '로그인 사용자 비밀번호 변경',
+      }),
+
       guestAuth: new lambda.Function(this, 'GuestAuthHandler', {
         ...commonLambdaProps,
         functionName: 'hanbit-auth-guest',
@@ -131,6 +365,37 @@ export class LambdaConstruct extends Construct {
       }),
     };
 
+    // 실시간 업데이트 핸들러들 (WebSocket API와 스트림 연결은 RealtimeConstruct에서 구성)
+    this.realtimeHandlers = {
+      connect: new lambda.Function(this, 'RealtimeConnectHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-realtime-connect',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/realtime/connect.handler',
+        description: 'WebSocket 연결 등록',
+        timeout: cdk.Duration.seconds(10),
+        memorySize: 256,
+      }),
+
+      disconnect: new lambda.Function(this, 'RealtimeDisconnectHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-realtime-disconnect',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/realtime/disconnect.handler',
+        description: 'WebSocket 연결 해제',
+        timeout: cdk.Duration.seconds(10),
+        memorySize: 256,
+      }),
+
+      streamFanout: new lambda.Function(this, 'RealtimeStreamFanoutHandler', {
+        ...commonLambdaProps,
+        functionName: 'hanbit-realtime-stream-fanout',
+        code: lambda.Code.fromAsset(lambdaCodePath),
+        handler: 'handlers/realtime/stream.handler',
+        description: 'TODO 변경을 연결된 기기에 전송 (DynamoDB Streams)',
+      }),
+    };
+
     // DynamoDB 테이블 접근 권한 부여
     Object.values(this.todoHandlers).forEach(handler => {
       todoTable.grantReadWriteData(handler);
@@ -140,6 +405,29 @@ export class LambdaConstruct extends Construct {
       todoTable.grantReadData(handler);
     });
 
+    // 사용자 프로필/리프레시 토큰 세션을 기록하는 핸들러는 쓰기 권한 필요
+    todoTable.grantReadWriteData(this.authHandlers.login);
+    todoTable.grantReadWriteData(this.authHandlers.register);
+    todoTable.grantReadWriteData(this.authHandlers.refresh);
+    todoTable.grantReadWriteData(this.authHandlers.logout);
+    todoTable.grantReadWriteData(this.authHandlers.passwordResetRequest);
+    todoTable.grantReadWriteData(this.authHandlers.passwordResetConfirm);
+    todoTable.grantReadWriteData(this.authHandlers.passwordChange);
+
+    // 연결 아이템을 기록/정리하는 실시간 핸들러는 쓰기 권한 필요 (스트림 읽기 권한은 이벤트 소스 연결 시 부여)
+    Object.values(this.realtimeHandlers).forEach(handler => {
+      todoTable.grantReadWriteData(handler);
+    });
+
+    // 비밀번호 재설정 요청 핸들러에 SES 메일 발송 권한 추가
+    this.authHandlers.passwordResetRequest.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['ses:SendEmail'],
+        resources: ['*'],
+      })
+    );
+
     // 게스트 인증 핸들러에 Cognito Identity Pool 접근 권한 추가
     this.authHandlers.guestAuth.addToRolePolicy(
       new iam.PolicyStatement({
@@ -163,7 +451,11 @@ export class LambdaConstruct extends Construct {
     });
 
     // 태그 추가 및 X-Ray 권한 부여
-    const allHandlers = [...Object.values(this.todoHandlers), ...Object.values(this.authHandlers)];
+    const allHandlers = [
+      ...Object.values(this.todoHandlers),
+      ...Object.values(this.authHandlers),
+      ...Object.values(this.realtimeHandlers),
+    ];
     allHandlers.forEach(handler => {
       // X-Ray 권한 추가
       handler.addToRolePolicy(xrayPolicy);
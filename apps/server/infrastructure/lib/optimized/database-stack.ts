@@ -144,6 +144,48 @@ export class OptimizedDatabaseStack extends BaseStack {
         nonKeyAttributes: this.isTest ? ['title', 'completed'] : undefined,
       });
     }
+
+    // GSI3: 마감일 보기 및 마감일 정렬 (마감일이 있는 TODO만 인덱싱)
+    table.addGlobalSecondaryIndex({
+      indexName: 'GSI3-DueDate',
+      partitionKey: {
+        name: 'GSI3PK',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'GSI3SK',
+        type: dynamodb.AttributeType.STRING,
+      },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // GSI4: 변경 조회 (TODO와 삭제 묘비를 마지막 변경 순으로 인덱싱)
+    table.addGlobalSecondaryIndex({
+      indexName: 'GSI4-Changes',
+      partitionKey: {
+        name: 'GSI4PK',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'GSI4SK',
+        type: dynamodb.AttributeType.STRING,
+      },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // GSI5: 나에게 할당된 TODO (담당자가 있는 TODO만 인덱싱)
+    table.addGlobalSecondaryIndex({
+      indexName: 'GSI5-Assignee',
+      partitionKey: {
+        name: 'GSI5PK',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'GSI5SK',
+        type: dynamodb.AttributeType.STRING,
+      },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
   }
 
   /**
@@ -178,6 +178,9 @@ export class OptimizedLambdaStack extends BaseStack {
       POWERTOOLS_SERVICE_NAME: 'hanbit-todo',
       POWERTOOLS_METRICS_NAMESPACE: 'HanbitTodo',
       POWERTOOLS_LOG_LEVEL: this.selectByEnvironment('ERROR', 'INFO', 'DEBUG'),
+      // 배포 환경은 SES로 발송 (발신 주소가 없으면 재설정 메일 발송이 실패함)
+      MAIL_SENDER: process.env.MAIL_SENDER || 'ses',
+      MAIL_FROM_ADDRESS: process.env.MAIL_FROM_ADDRESS || '',
     };
   }
 
@@ -196,6 +199,70 @@ export class OptimizedLambdaStack extends BaseStack {
       { name: 'list', handler: 'handlers/todos/list.handler', description: 'List TODOs' },
       { name: 'update', handler: 'handlers/todos/update.handler', description: 'Update TODO' },
       { name: 'delete', handler: 'handlers/todos/delete.handler', description: 'Delete TODO' },
+      { name: 'tags', handler: 'handlers/todos/tags.handler', description: 'List tags' },
+      { name: 'export', handler: 'handlers/todos/export.handler', description: 'Export TODOs' },
+      { name: 'import', handler: 'handlers/todos/import.handler', description: 'Import TODOs' },
+      { name: 'batch', handler: 'handlers/todos/batch.handler', description: 'Batch write TODOs' },
+      {
+        name: 'changes',
+        handler: 'handlers/todos/changes.handler',
+        description: 'List TODO changes',
+      },
+      {
+        name: 'items-list',
+        handler: 'handlers/checklist/list.handler',
+        description: 'List checklist items',
+      },
+      {
+        name: 'items-create',
+        handler: 'handlers/checklist/create.handler',
+        description: 'Create checklist item',
+      },
+      {
+        name: 'items-update',
+        handler: 'handlers/checklist/update.handler',
+        description: 'Update checklist item',
+      },
+      {
+        name: 'items-delete',
+        handler: 'handlers/checklist/delete.handler',
+        description: 'Delete checklist item',
+      },
+      {
+        name: 'items-reorder',
+        handler: 'handlers/checklist/reorder.handler',
+        description: 'Reorder checklist items',
+      },
+      {
+        name: 'projects-list',
+        handler: 'handlers/projects/list.handler',
+        description: 'List projects',
+      },
+      {
+        name: 'projects-create',
+        handler: 'handlers/projects/create.handler',
+        description: 'Create project',
+      },
+      {
+        name: 'projects-members-list',
+        handler: 'handlers/projects/list-members.handler',
+        description: 'List project members',
+      },
+      {
+        name: 'projects-members-add',
+        handler: 'handlers/projects/add-member.handler',
+        description: 'Add project member',
+      },
+      {
+        name: 'projects-members-update',
+        handler: 'handlers/projects/update-member.handler',
+        description: 'Update project member role',
+      },
+      {
+        name: 'projects-members-remove',
+        handler: 'handlers/projects/remove-member.handler',
+        description: 'Remove project member',
+      },
     ];
 
     todoOperations.forEach(op => {
@@ -215,6 +282,17 @@ export class OptimizedLambdaStack extends BaseStack {
       // DynamoDB 권한 부여
       todoTable.grantReadWriteData(func);
 
+      // SES 메일 발송 권한 (비밀번호 재설정 요청용)
+      if (op.name === 'password-reset-request') {
+        func.addToRolePolicy(
+          new iam.PolicyStatement({
+            effect: iam.Effect.ALLOW,
+            actions: ['ses:SendEmail'],
+            resources: ['*'],
+          })
+        );
+      }
+
       handlers[op.name] = func;
     });
 
@@ -232,7 +310,28 @@ export class OptimizedLambdaStack extends BaseStack {
 
     const authOperations = [
       { name: 'login', handler: 'handlers/auth/login.handler', description: 'User login' },
+      {
+        name: 'register',
+        handler: 'handlers/auth/register.handler',
+        description: 'User registration',
+      },
       { name: 'refresh', handler: 'handlers/auth/refresh.handler', description: 'Token refresh' },
+      { name: 'logout', handler: 'handlers/auth/logout.handler', description: 'User logout' },
+      {
+        name: 'password-reset-request',
+        handler: 'handlers/auth/password-reset-request.handler',
+        description: 'Password reset code request',
+      },
+      {
+        name: 'password-reset-confirm',
+        handler: 'handlers/auth/password-reset-confirm.handler',
+        description: 'Password reset confirmation',
+      },
+      {
+        name: 'password-change',
+        handler: 'handlers/auth/password-change.handler',
+        description: 'Password change',
+      },
       { name: 'guest', handler: 'auth/guest-auth.handler', description: 'Guest authentication' },
     ];
 
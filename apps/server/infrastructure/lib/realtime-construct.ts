@@ -0,0 +1,105 @@
+import * as cdk from 'aws-cdk-lib';
+import * as apigatewayv2 from 'aws-cdk-lib/aws-apigatewayv2';
+import * as integrations from 'aws-cdk-lib/aws-apigatewayv2-integrations';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as lambdaEventSources from 'aws-cdk-lib/aws-lambda-event-sources';
+import { Construct } from 'constructs';
+import { EnvironmentConfig } from '../config/environment';
+
+export interface RealtimeConstructProps {
+  todoTable: dynamodb.Table;
+  realtimeHandlers: {
+    connect: lambda.Function;
+    disconnect: lambda.Function;
+    streamFanout: lambda.Function;
+  };
+  environmentConfig: EnvironmentConfig;
+}
+
+/**
+ * 실시간 업데이트를 관리하는 Construct
+ * WebSocket API (연결 등록/해제), DynamoDB Streams 팬아웃 연결 포함
+ *
+ * 흐름:
+ * - 클라이언트가 wss://.../api?token=<액세스 토큰>으로 연결하면 $connect에서 연결 아이템 저장
+ * - TODO 아이템이 바뀌면 스트림 팬아웃 Lambda가 소유자의 모든 연결에 변경 이벤트 전송
+ * - 클라이언트는 유휴 연결이 끊기지 않도록 {"action":"ping"}을 주기적으로 보냄
+ */
+export class RealtimeConstruct extends Construct {
+  public readonly webSocketApi: apigatewayv2.WebSocketApi;
+  public readonly stage: apigatewayv2.WebSocketStage;
+
+  constructor(scope: Construct, id: string, props: RealtimeConstructProps) {
+    super(scope, id);
+
+    const { todoTable, realtimeHandlers, environmentConfig } = props;
+
+    // WebSocket API 생성 (라우트는 메시지의 action 값으로 선택)
+    this.webSocketApi = new apigatewayv2.WebSocketApi(this, 'RealtimeApi', {
+      apiName: 'hanbit-todo-realtime',
+      description: 'Hanbit TODO 실시간 업데이트 WebSocket API',
+      routeSelectionExpression: '$request.body.action',
+      connectRouteOptions: {
+        integration: new integrations.WebSocketLambdaIntegration(
+          'ConnectIntegration',
+          realtimeHandlers.connect
+        ),
+      },
+      disconnectRouteOptions: {
+        integration: new integrations.WebSocketLambdaIntegration(
+          'DisconnectIntegration',
+          realtimeHandlers.disconnect
+        ),
+      },
+    });
+
+    // 유휴 연결 유지용 ping 라우트 (Lambda 호출 없이 API Gateway에서 처리)
+    this.webSocketApi.addRoute('ping', {
+      integration: new integrations.WebSocketMockIntegration('PingIntegration'),
+    });
+
+    this.stage = new apigatewayv2.WebSocketStage(this, 'RealtimeStage', {
+      webSocketApi: this.webSocketApi,
+      stageName: 'api',
+      autoDeploy: true,
+      throttle: {
+        burstLimit: environmentConfig.api.throttling.burstLimit,
+        rateLimit: environmentConfig.api.throttling.rateLimit,
+      },
+    });
+
+    // 팬아웃 Lambda - @connections API로 전송하기 위한 권한과 콜백 URL
+    this.webSocketApi.grantManageConnections(realtimeHandlers.streamFanout);
+    realtimeHandlers.streamFanout.addEnvironment('WEBSOCKET_CALLBACK_URL', this.stage.callbackUrl);
+
+    // DynamoDB Streams 연결 - TODO 아이템 변경만 받음 (연결/세션 등 다른 아이템은 제외)
+    realtimeHandlers.streamFanout.addEventSource(
+      new lambdaEventSources.DynamoEventSource(todoTable, {
+        startingPosition: lambda.StartingPosition.LATEST,
+        batchSize: 100,
+        maxBatchingWindow: cdk.Duration.seconds(1),
+        bisectBatchOnError: true,
+        retryAttempts: 3,
+        // 실시간 알림은 늦게 도착하면 의미가 없고, 놓친 변경은 클라이언트 동기화로 복구됨
+        maxRecordAge: cdk.Duration.minutes(5),
+        filters: [
+          lambda.FilterCriteria.filter({
+            dynamodb: {
+              NewImage: { EntityType: { S: lambda.FilterRule.isEqual('TODO') } },
+            },
+          }),
+          lambda.FilterCriteria.filter({
+            eventName: lambda.FilterRule.isEqual('REMOVE'),
+            dynamodb: {
+              OldImage: { EntityType: { S: lambda.FilterRule.isEqual('TODO') } },
+            },
+          }),
+        ],
+      })
+    );
+
+    cdk.Tags.of(this.webSocketApi).add('Component', 'Realtime');
+    cdk.Tags.of(this.webSocketApi).add('Project', 'HanbitTodo');
+  }
+}
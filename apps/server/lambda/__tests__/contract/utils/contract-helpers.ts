@@ -285,7 +285,7 @@ export class TestDataGenerator {
    */
   static createValidLoginRequest(overrides: Record<string, unknown> = {}): Record<string, unknown> {
     return {
-      username: 'demo',
+      email: 'demo@example.com',
       password: 'demo123',
       ...overrides,
     };
@@ -308,7 +308,7 @@ export class TestDataGenerator {
         };
       case 'login':
         return {
-          username: 'a', // 너무 짧은 사용자명
+          email: 'not-an-email', // 잘못된 이메일 형식
           password: '123', // 너무 짧은 비밀번호
         };
       default:
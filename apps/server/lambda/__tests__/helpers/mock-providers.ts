@@ -218,7 +218,20 @@ export interface MockTodoRepositoryMethods {
   findByStatus?: MockedFunction<(...args: unknown[]) => unknown>;
   findByPriority?: MockedFunction<(...args: unknown[]) => unknown>;
   update?: MockedFunction<(...args: unknown[]) => unknown>;
+  updateRank?: MockedFunction<(...args: unknown[]) => unknown>;
   delete?: MockedFunction<(...args: unknown[]) => unknown>;
+  findTrash?: MockedFunction<(...args: unknown[]) => unknown>;
+  findTrashedById?: MockedFunction<(...args: unknown[]) => unknown>;
+  restore?: MockedFunction<(...args: unknown[]) => unknown>;
+  purge?: MockedFunction<(...args: unknown[]) => unknown>;
+  deleteChildItems?: MockedFunction<(...args: unknown[]) => unknown>;
+  replaceTags?: MockedFunction<(...args: unknown[]) => unknown>;
+  findByTag?: MockedFunction<(...args: unknown[]) => unknown>;
+  listTagUsage?: MockedFunction<(...args: unknown[]) => unknown>;
+  searchByTitle?: MockedFunction<(...args: unknown[]) => unknown>;
+  findByDueDate?: MockedFunction<(...args: unknown[]) => unknown>;
+  findChanges?: MockedFunction<(...args: unknown[]) => unknown>;
+  findByAssignee?: MockedFunction<(...args: unknown[]) => unknown>;
 }
 
 /**
@@ -234,7 +247,168 @@ export function createMockTodoRepository(
     findByStatus: vi.fn(),
     findByPriority: vi.fn(),
     update: vi.fn(),
+    updateRank: vi.fn(),
     delete: vi.fn(),
+    findTrash: vi.fn(),
+    findTrashedById: vi.fn(),
+    restore: vi.fn(),
+    purge: vi.fn().mockResolvedValue(undefined),
+    deleteChildItems: vi.fn().mockResolvedValue(0),
+    replaceTags: vi.fn().mockResolvedValue(undefined),
+    findByTag: vi.fn(),
+    listTagUsage: vi.fn().mockResolvedValue([]),
+    searchByTitle: vi.fn(),
+    findByDueDate: vi.fn(),
+    findChanges: vi.fn(),
+    findByAssignee: vi.fn(),
+  };
+
+  return { ...defaultMethods, ...customMethods };
+}
+
+export interface MockChecklistRepositoryMethods {
+  findByTodo?: MockedFunction<(...args: unknown[]) => unknown>;
+  findById?: MockedFunction<(...args: unknown[]) => unknown>;
+  create?: MockedFunction<(...args: unknown[]) => unknown>;
+  update?: MockedFunction<(...args: unknown[]) => unknown>;
+  delete?: MockedFunction<(...args: unknown[]) => unknown>;
+  reorder?: MockedFunction<(...args: unknown[]) => unknown>;
+}
+
+/**
+ * ChecklistRepository Mock 생성
+ */
+export function createMockChecklistRepository(
+  customMethods: MockChecklistRepositoryMethods = {}
+): MockChecklistRepositoryMethods {
+  const defaultMethods = {
+    findByTodo: vi.fn().mockResolvedValue([]),
+    findById: vi.fn().mockResolvedValue(null),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn().mockResolvedValue(undefined),
+    reorder: vi.fn().mockResolvedValue(undefined),
+  };
+
+  return { ...defaultMethods, ...customMethods };
+}
+
+export interface MockTodoActivityRepositoryMethods {
+  append?: MockedFunction<(...args: unknown[]) => unknown>;
+  findByTodo?: MockedFunction<(...args: unknown[]) => unknown>;
+}
+
+/**
+ * TodoActivityRepository Mock 생성
+ */
+export function createMockTodoActivityRepository(
+  customMethods: MockTodoActivityRepositoryMethods = {}
+): MockTodoActivityRepositoryMethods {
+  const defaultMethods = {
+    append: vi.fn().mockImplementation(async (_userId: string, activity: unknown) => activity),
+    findByTodo: vi.fn().mockResolvedValue({ items: [], count: 0, scannedCount: 0 }),
+  };
+
+  return { ...defaultMethods, ...customMethods };
+}
+
+export interface MockProjectRepositoryMethods {
+  create?: MockedFunction<(...args: unknown[]) => unknown>;
+  findMember?: MockedFunction<(...args: unknown[]) => unknown>;
+  listMembers?: MockedFunction<(...args: unknown[]) => unknown>;
+  listByUser?: MockedFunction<(...args: unknown[]) => unknown>;
+  saveMember?: MockedFunction<(...args: unknown[]) => unknown>;
+  removeMember?: MockedFunction<(...args: unknown[]) => unknown>;
+}
+
+/**
+ * ProjectRepository Mock 생성
+ */
+export function createMockProjectRepository(
+  customMethods: MockProjectRepositoryMethods = {}
+): MockProjectRepositoryMethods {
+  const defaultMethods = {
+    create: vi.fn(),
+    findMember: vi.fn().mockResolvedValue(null),
+    listMembers: vi.fn().mockResolvedValue([]),
+    listByUser: vi.fn().mockResolvedValue([]),
+    saveMember: vi.fn(),
+    removeMember: vi.fn().mockResolvedValue(undefined),
+  };
+
+  return { ...defaultMethods, ...customMethods };
+}
+
+export interface MockUserRepositoryMethods {
+  create?: MockedFunction<(...args: unknown[]) => unknown>;
+  findById?: MockedFunction<(...args: unknown[]) => unknown>;
+  findByEmail?: MockedFunction<(...args: unknown[]) => unknown>;
+  updateLastLogin?: MockedFunction<(...args: unknown[]) => unknown>;
+  updatePassword?: MockedFunction<(...args: unknown[]) => unknown>;
+}
+
+/**
+ * UserRepository Mock 생성
+ */
+export function createMockUserRepository(
+  customMethods: MockUserRepositoryMethods = {}
+): MockUserRepositoryMethods {
+  const defaultMethods = {
+    create: vi.fn(),
+    findById: vi.fn(),
+    findByEmail: vi.fn(),
+    updateLastLogin: vi.fn().mockResolvedValue(undefined),
+    updatePassword: vi.fn().mockResolvedValue(undefined),
+  };
+
+  return { ...defaultMethods, ...customMethods };
+}
+
+export interface MockRefreshSessionRepositoryMethods {
+  create?: MockedFunction<(...args: unknown[]) => unknown>;
+  find?: MockedFunction<(...args: unknown[]) => unknown>;
+  rotate?: MockedFunction<(...args: unknown[]) => unknown>;
+  revokeFamily?: MockedFunction<(...args: unknown[]) => unknown>;
+  revokeAll?: MockedFunction<(...args: unknown[]) => unknown>;
+}
+
+/**
+ * RefreshSessionRepository Mock 생성
+ */
+export function createMockRefreshSessionRepository(
+  customMethods: MockRefreshSessionRepositoryMethods = {}
+): MockRefreshSessionRepositoryMethods {
+  const defaultMethods = {
+    create: vi.fn().mockResolvedValue(undefined),
+    find: vi.fn().mockResolvedValue(null),
+    rotate: vi.fn().mockResolvedValue(true),
+    revokeFamily: vi.fn().mockResolvedValue(0),
+    revokeAll: vi.fn().mockResolvedValue(0),
+  };
+
+  return { ...defaultMethods, ...customMethods };
+}
+
+export interface MockPasswordResetCodeRepositoryMethods {
+  save?: MockedFunction<(...args: unknown[]) => unknown>;
+  consume?: MockedFunction<(...args: unknown[]) => unknown>;
+  countFailedAttempts?: MockedFunction<(...args: unknown[]) => unknown>;
+  recordFailedAttempt?: MockedFunction<(...args: unknown[]) => unknown>;
+  clearFailedAttempts?: MockedFunction<(...args: unknown[]) => unknown>;
+}
+
+/**
+ * PasswordResetCodeRepository Mock 생성
+ */
+export function createMockPasswordResetCodeRepository(
+  customMethods: MockPasswordResetCodeRepositoryMethods = {}
+): MockPasswordResetCodeRepositoryMethods {
+  const defaultMethods = {
+    save: vi.fn().mockResolvedValue(undefined),
+    consume: vi.fn().mockResolvedValue(true),
+    countFailedAttempts: vi.fn().mockResolvedValue(0),
+    recordFailedAttempt: vi.fn().mockResolvedValue(1),
+    clearFailedAttempts: vi.fn().mockResolvedValue(undefined),
   };
 
   return { ...defaultMethods, ...customMethods };
@@ -250,6 +424,7 @@ export interface MockTodoServiceMethods {
   listTodos?: MockedFunction<(...args: unknown[]) => unknown>;
   updateTodo?: MockedFunction<(...args: unknown[]) => unknown>;
   deleteTodo?: MockedFunction<(...args: unknown[]) => unknown>;
+  recordCreated?: MockedFunction<(...args: unknown[]) => unknown>;
   validatePermissions?: MockedFunction<(...args: unknown[]) => unknown>;
 }
 
@@ -265,6 +440,7 @@ export function createMockTodoService(
     listTodos: vi.fn(),
     updateTodo: vi.fn(),
     deleteTodo: vi.fn(),
+    recordCreated: vi.fn().mockResolvedValue(undefined),
     validatePermissions: vi.fn(),
   };
 
@@ -3,8 +3,14 @@
  * TDD 개발을 위한 테스트 데이터 생성 헬퍼 함수들
  */
 
-import { Priority } from '@/types/constants';
-import { DynamoTodoItem, DynamoUserItem, DynamoGuestSessionItem } from '@/types/database.types';
+import { Priority, ProjectRole } from '@/types/constants';
+import {
+  DynamoTodoItem,
+  DynamoChecklistItem,
+  DynamoProjectMemberItem,
+  DynamoUserItem,
+  DynamoGuestSessionItem,
+} from '@/types/database.types';
 import {
   CreateTodoRequest,
   UpdateTodoRequest,
@@ -45,8 +51,10 @@ export function generateTTL(offsetSeconds = 86400): number {
 
 export interface CreateTodoRequestOptions {
   title?: string;
+  description?: string;
   priority?: Priority;
   dueDate?: string;
+  tags?: string[];
 }
 
 /**
@@ -55,8 +63,10 @@ export interface CreateTodoRequestOptions {
 export function createCreateTodoRequest(options: CreateTodoRequestOptions = {}): CreateTodoRequest {
   return {
     title: options.title || `Test Todo ${generateTestId()}`,
+    description: options.description,
     priority: options.priority || Priority.MEDIUM,
     dueDate: options.dueDate,
+    tags: options.tags,
   };
 }
 
@@ -143,10 +153,78 @@ export function createDynamoTodoItem(options: DynamoTodoItemOptions = {}): Dynam
   };
 }
 
+export interface DynamoChecklistItemOptions {
+  userId?: string;
+  todoId?: string;
+  itemId?: string;
+  title?: string;
+  completed?: boolean;
+  position?: number;
+}
+
+/**
+ * DynamoChecklistItem 테스트 데이터 생성
+ */
+export function createDynamoChecklistItem(
+  options: DynamoChecklistItemOptions = {}
+): DynamoChecklistItem {
+  const userId = options.userId || generateTestId('user');
+  const todoId = options.todoId || generateTestId('todo');
+  const itemId = options.itemId || generateTestId('item');
+  const createdAt = generateTestDate();
+
+  return {
+    PK: `USER#${userId}`,
+    SK: `TODO#${todoId}#ITEM#${itemId}`,
+    EntityType: 'CHECKLIST_ITEM',
+    id: itemId,
+    todoId,
+    userId,
+    title: options.title || `Test Item ${itemId}`,
+    completed: options.completed || false,
+    position: options.position ?? 0,
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+export interface DynamoProjectMemberItemOptions {
+  projectId?: string;
+  projectName?: string;
+  userId?: string;
+  role?: ProjectRole;
+  addedBy?: string;
+}
+
+/**
+ * DynamoProjectMemberItem 테스트 데이터 생성
+ */
+export function createDynamoProjectMemberItem(
+  options: DynamoProjectMemberItemOptions = {}
+): DynamoProjectMemberItem {
+  const projectId = options.projectId || generateTestId('project');
+  const userId = options.userId || generateTestId('user');
+
+  return {
+    PK: `PROJECT#${projectId}`,
+    SK: `MEMBER#${userId}`,
+    EntityType: 'PROJECT_MEMBER',
+    GSI1PK: `USER#${userId}#PROJECTS`,
+    GSI1SK: `PROJECT#${projectId}`,
+    projectId,
+    projectName: options.projectName || `Test Project ${projectId}`,
+    userId,
+    role: options.role || ProjectRole.VIEWER,
+    addedAt: generateTestDate(),
+    addedBy: options.addedBy || userId,
+  };
+}
+
 export interface DynamoUserItemOptions {
   userId?: string;
   email?: string;
   name?: string;
+  passwordHash?: string;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -168,6 +246,7 @@ export function createDynamoUserItem(options: DynamoUserItemOptions = {}): Dynam
     id: userId,
     email: options.email || `test-${userId}@example.com`,
     name: options.name || `Test User ${userId}`,
+    passwordHash: options.passwordHash || 'scrypt$dGVzdC1zYWx0$dGVzdC1oYXNo',
     createdAt,
     updatedAt: options.updatedAt || createdAt,
   };
@@ -302,8 +381,8 @@ export function createMultipleTodos(
       ...baseOptions,
       todoId: baseOptions.todoId ? `${baseOptions.todoId}-${index}` : undefined,
       title: `Test Todo ${index + 1}`,
-      priority: [Priority.LOW, Priority.MEDIUM, Priority.HIGH][index % 3],
-      completed: index % 2 === 0,
+      priority: baseOptions.priority ?? [Priority.LOW, Priority.MEDIUM, Priority.HIGH][index % 3],
+      completed: baseOptions.completed ?? index % 2 === 0,
     })
   );
 }
@@ -0,0 +1,69 @@
+/**
+ * ChecklistRepository 테스트
+ * 체크리스트 변경 트랜잭션이 부모 Todo의 진행률 카운터와 version을 함께 갱신하는지 확인
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBChecklistRepository } from '@/repositories/checklist-repository';
+import { createDynamoChecklistItem } from '../helpers/test-factories';
+
+// test-setup의 lib-dynamodb 모킹에는 트랜잭션 명령이 없으므로 입력을 기록하는 명령으로 교체
+vi.mock('@aws-sdk/lib-dynamodb', () => ({
+  DynamoDBDocumentClient: { from: vi.fn() },
+  GetCommand: vi.fn(),
+  QueryCommand: vi.fn(),
+  TransactWriteCommand: vi.fn(),
+}));
+
+describe('DynamoDBChecklistRepository - 부모 Todo 갱신', () => {
+  let repository: DynamoDBChecklistRepository;
+
+  const parentUpdate = () => {
+    const [input] = vi.mocked(TransactWriteCommand).mock.calls[0];
+    return input.TransactItems![1].Update!;
+  };
+
+  beforeEach(() => {
+    vi.stubEnv('DYNAMODB_TABLE_NAME', 'test-table');
+    vi.mocked(DynamoDBDocumentClient.from).mockReturnValue({
+      send: vi.fn().mockResolvedValue({}),
+    } as unknown as DynamoDBDocumentClient);
+    vi.mocked(TransactWriteCommand).mockClear();
+    repository = new DynamoDBChecklistRepository(new DynamoDBClient({ region: 'us-east-1' }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should bump the parent todo version when an item is added', async () => {
+    // When
+    await repository.create({
+      id: 'item-1',
+      todoId: 'todo-1',
+      userId: 'user-1',
+      title: '우유 사기',
+      completed: false,
+      position: 0,
+    });
+
+    // Then
+    const update = parentUpdate();
+    expect(update.UpdateExpression).toContain('#version :one');
+    expect(update.ExpressionAttributeNames!['#version']).toBe('version');
+    expect(update.ExpressionAttributeValues![':one']).toBe(1);
+  });
+
+  it('should bump the parent todo version when an item is completed', async () => {
+    // Given
+    const item = createDynamoChecklistItem({ userId: 'user-1', todoId: 'todo-1' });
+
+    // When
+    await repository.update(item, { completed: true });
+
+    // Then
+    expect(parentUpdate().UpdateExpression).toContain('#version :one');
+  });
+});
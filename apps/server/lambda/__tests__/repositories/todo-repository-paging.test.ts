@@ -0,0 +1,70 @@
+/**
+ * TodoRepository 전체 목록 페이지 테스트
+ * 같은 TODO# 접두사를 쓰는 하위 아이템(체크리스트 항목, 활동 기록)이 섞여도 limit개를 채우는지 확인
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBTodoRepository } from '@/repositories/todo-repository';
+import { createDynamoTodoItem } from '../helpers/test-factories';
+
+describe('DynamoDBTodoRepository.findAll() - 하위 아이템이 섞인 페이지', () => {
+  let repository: DynamoDBTodoRepository;
+  let send: ReturnType<typeof vi.fn>;
+
+  const todo = (todoId: string) => createDynamoTodoItem({ userId: 'user-1', todoId });
+
+  beforeEach(() => {
+    vi.stubEnv('DYNAMODB_TABLE_NAME', 'test-table');
+    send = vi.fn();
+    // lib-dynamodb는 test-setup에서 모킹되어 있으므로 문서 클라이언트와 명령 입력만 교체/확인
+    vi.mocked(DynamoDBDocumentClient.from).mockReturnValue({
+      send,
+    } as unknown as DynamoDBDocumentClient);
+    vi.mocked(QueryCommand).mockClear();
+    repository = new DynamoDBTodoRepository(new DynamoDBClient({ region: 'us-east-1' }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should keep querying until the page is filled', async () => {
+    // Given - 첫 조회는 필터에 모두 걸러져 비어 있지만 커서는 남아 있음
+    send
+      .mockResolvedValueOnce({
+        Items: [],
+        ScannedCount: 100,
+        LastEvaluatedKey: { PK: 'USER#user-1', SK: 'TODO#todo-9#EVT#1' },
+      })
+      .mockResolvedValueOnce({ Items: [todo('todo-2'), todo('todo-1')], ScannedCount: 2 });
+
+    // When
+    const result = await repository.findAll('user-1', { limit: 2 });
+
+    // Then
+    expect(result.items.map(item => item.id)).toEqual(['todo-2', 'todo-1']);
+    expect(result.cursor).toBeUndefined();
+    const [secondQuery] = vi.mocked(QueryCommand).mock.calls[1];
+    expect(secondQuery.ExclusiveStartKey).toEqual({
+      PK: 'USER#user-1',
+      SK: 'TODO#todo-9#EVT#1',
+    });
+  });
+
+  it('should return the last returned todo as cursor when more were read', async () => {
+    // Given
+    send.mockResolvedValueOnce({
+      Items: [todo('todo-3'), todo('todo-2'), todo('todo-1')],
+      ScannedCount: 3,
+    });
+
+    // When
+    const result = await repository.findAll('user-1', { limit: 2 });
+
+    // Then
+    expect(result.items.map(item => item.id)).toEqual(['todo-3', 'todo-2']);
+    expect(JSON.parse(result.cursor!)).toEqual({ PK: result.items[1].PK, SK: result.items[1].SK });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * TodoRepository rank 다시 매기기 테스트
+ * rank만 바꾸고 버전과 수정 시간은 그대로 두는지 확인
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBTodoRepository } from '@/repositories/todo-repository';
+import { ItemNotFoundError } from '@/types/database.types';
+import { createDynamoTodoItem } from '../helpers/test-factories';
+
+describe('DynamoDBTodoRepository.updateRank()', () => {
+  let repository: DynamoDBTodoRepository;
+  let send: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.stubEnv('DYNAMODB_TABLE_NAME', 'test-table');
+    send = vi.fn();
+    // lib-dynamodb는 test-setup에서 모킹되어 있으므로 문서 클라이언트와 명령 입력만 교체/확인
+    vi.mocked(DynamoDBDocumentClient.from).mockReturnValue({
+      send,
+    } as unknown as DynamoDBDocumentClient);
+    vi.mocked(UpdateCommand).mockClear();
+    repository = new DynamoDBTodoRepository(new DynamoDBClient({ region: 'us-east-1' }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should set the rank and the change key without bumping the version', async () => {
+    // Given
+    const todo = { ...createDynamoTodoItem({ userId: 'user-1', todoId: 'todo-1' }), rank: 'a1V' };
+    send.mockResolvedValueOnce({ Attributes: todo });
+
+    // When
+    const result = await repository.updateRank('user-1', 'todo-1', 'a1V');
+
+    // Then
+    expect(result.rank).toBe('a1V');
+    const [update] = vi.mocked(UpdateCommand).mock.calls[0];
+    expect(update.UpdateExpression).toBe('SET #rank = :rank, #gsi4pk = :gsi4pk, #gsi4sk = :gsi4sk');
+    expect(update.ExpressionAttributeValues).toMatchObject({ ':rank': 'a1V' });
+    expect(update.ExpressionAttributeNames).not.toHaveProperty('#version');
+  });
+
+  it('should report a todo deleted in the meantime as not found', async () => {
+    // Given
+    send.mockRejectedValueOnce(
+      Object.assign(new Error('The conditional request failed'), {
+        name: 'ConditionalCheckFailedException',
+      })
+    );
+
+    // When & Then
+    await expect(repository.updateRank('user-1', 'todo-1', 'a1V')).rejects.toThrow(
+      ItemNotFoundError
+    );
+  });
+});
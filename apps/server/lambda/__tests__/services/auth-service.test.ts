@@ -0,0 +1,503 @@
+/**
+ * AuthService 테스트 스위트
+ * 이메일/비밀번호 로그인, 토큰 회전, 세션 폐기 및 비밀번호 재설정/변경 비즈니스 로직 테스트
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { createDynamoUserItem } from '../helpers/test-factories';
+import {
+  createMockUserRepository,
+  createMockRefreshSessionRepository,
+  createMockPasswordResetCodeRepository,
+} from '../helpers/mock-providers';
+import {
+  AuthService,
+  AuthTokenIssuer,
+  CredentialsError,
+  RegistrationError,
+  PasswordUpdateError,
+} from '@/services/auth.service';
+import { MailMessage, MailSender } from '@/utils/mail-sender';
+import { DuplicateItemError } from '@/types/database.types';
+import { Logger } from '@/services/todo.service';
+import { PasswordHasher } from '@/utils/password-hasher';
+
+describe('AuthService - 로그인 테스트 스위트', () => {
+  let service: AuthService;
+  let mockRepository: any;
+  let mockSessionRepository: any;
+  let mockResetCodeRepository: any;
+  let sentMails: MailMessage[];
+  let mailSender: MailSender;
+  let mockTokenIssuer: { [K in keyof AuthTokenIssuer]: ReturnType<typeof vi.fn> };
+  let mockLogger: Logger;
+
+  beforeEach(() => {
+    mockRepository = createMockUserRepository();
+    mockSessionRepository = createMockRefreshSessionRepository();
+    mockResetCodeRepository = createMockPasswordResetCodeRepository();
+    sentMails = [];
+    mailSender = {
+      send: vi.fn(async (message: MailMessage) => {
+        sentMails.push(message);
+      }),
+    };
+    mockTokenIssuer = {
+      issueTokenPair: vi.fn().mockResolvedValue({
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        expiresIn: 3600,
+        refreshExpiresIn: 2592000,
+        refreshTokenId: 'token-2',
+        familyId: 'family-1',
+      }),
+      verify: vi.fn(),
+    };
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    service = new AuthService(
+      mockRepository,
+      mockSessionRepository,
+      mockResetCodeRepository,
+      mailSender,
+      mockTokenIssuer as unknown as AuthTokenIssuer,
+      mockLogger
+    );
+  });
+
+  describe('login()', () => {
+    it('should issue tokens when credentials are valid', async () => {
+      // Given
+      const passwordHash = await PasswordHasher.hash('Password123!');
+      const user = createDynamoUserItem({ email: 'user@example.com', passwordHash });
+      mockRepository.findByEmail.mockResolvedValue(user);
+
+      // When
+      const result = await service.login('user@example.com', 'Password123!');
+
+      // Then
+      expect(result.accessToken).toBe('access-token');
+      expect(result.refreshToken).toBe('refresh-token');
+      expect(result.user).toEqual({
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        createdAt: user.createdAt,
+      });
+      expect(mockTokenIssuer.issueTokenPair).toHaveBeenCalledWith({
+        id: user.id,
+        email: user.email,
+      });
+      expect(mockRepository.updateLastLogin).toHaveBeenCalledWith(user.id, expect.any(String));
+      expect(mockSessionRepository.create).toHaveBeenCalledWith({
+        userId: user.id,
+        familyId: 'family-1',
+        tokenId: 'token-2',
+        ttl: expect.any(Number),
+      });
+    });
+
+    it('should reject wrong password', async () => {
+      // Given
+      const passwordHash = await PasswordHasher.hash('Password123!');
+      mockRepository.findByEmail.mockResolvedValue(createDynamoUserItem({ passwordHash }));
+
+      // When & Then
+      await expect(service.login('user@example.com', 'wrong-password')).rejects.toBeInstanceOf(
+        CredentialsError
+      );
+      expect(mockTokenIssuer.issueTokenPair).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown email with the same error', async () => {
+      // Given
+      mockRepository.findByEmail.mockResolvedValue(null);
+
+      // When & Then
+      await expect(service.login('nobody@example.com', 'Password123!')).rejects.toThrow(
+        '이메일 또는 비밀번호가 올바르지 않습니다'
+      );
+    });
+
+    it('should still succeed when last login update fails', async () => {
+      // Given
+      const passwordHash = await PasswordHasher.hash('Password123!');
+      mockRepository.findByEmail.mockResolvedValue(createDynamoUserItem({ passwordHash }));
+      mockRepository.updateLastLogin.mockRejectedValue(new Error('DynamoDB error'));
+
+      // When
+      const result = await service.login('user@example.com', 'Password123!');
+
+      // Then
+      expect(result.accessToken).toBe('access-token');
+      expect(mockLogger.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('register()', () => {
+    const validInput = {
+      email: 'new@example.com',
+      password: 'Password123',
+      name: '새 사용자',
+    };
+
+    it('should create user with hashed password and log in', async () => {
+      // Given
+      mockRepository.findByEmail.mockResolvedValue(null);
+      mockRepository.create.mockImplementation(async (userData: Record<string, unknown>) =>
+        createDynamoUserItem({
+          userId: userData.id as string,
+          email: userData.email as string,
+          name: userData.name as string,
+          passwordHash: userData.passwordHash as string,
+        })
+      );
+
+      // When
+      const result = await service.register(validInput);
+
+      // Then
+      const createdUser = mockRepository.create.mock.calls[0][0];
+      expect(createdUser.email).toBe(validInput.email);
+      expect(createdUser.passwordHash).not.toBe(validInput.password);
+      expect(await PasswordHasher.verify(validInput.password, createdUser.passwordHash)).toBe(true);
+      expect(result.accessToken).toBe('access-token');
+      expect(result.user.email).toBe(validInput.email);
+    });
+
+    it('should reject password violating configured policy', async () => {
+      // Given
+      service = new AuthService(
+        mockRepository,
+        mockSessionRepository,
+        mockResetCodeRepository,
+        mailSender,
+        mockTokenIssuer as unknown as AuthTokenIssuer,
+        mockLogger,
+        async () => ({
+          minLength: 12,
+          requireUppercase: true,
+          requireLowercase: true,
+          requireNumbers: true,
+          requireSymbols: true,
+        })
+      );
+
+      // When & Then
+      await expect(service.register(validInput)).rejects.toMatchObject({
+        code: 'PASSWORD_POLICY_VIOLATION',
+        details: expect.arrayContaining([
+          '비밀번호는 최소 12자 이상이어야 합니다',
+          '비밀번호에 특수문자가 포함되어야 합니다',
+        ]),
+      });
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject duplicate email', async () => {
+      // Given
+      mockRepository.findByEmail.mockResolvedValue(createDynamoUserItem());
+
+      // When & Then
+      await expect(service.register(validInput)).rejects.toMatchObject({
+        code: 'EMAIL_ALREADY_EXISTS',
+      });
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should map concurrent duplicate write to EMAIL_ALREADY_EXISTS', async () => {
+      // Given
+      mockRepository.findByEmail.mockResolvedValue(null);
+      mockRepository.create.mockRejectedValue(
+        new DuplicateItemError('User', 'EMAIL#new@example.com')
+      );
+
+      // When & Then
+      await expect(service.register(validInput)).rejects.toBeInstanceOf(RegistrationError);
+    });
+  });
+
+  describe('refresh()', () => {
+    const refreshClaims = (userId: string) => ({
+      sub: userId,
+      token_use: 'refresh',
+      fid: 'family-1',
+      jti: 'token-1',
+    });
+
+    it('should rotate refresh token within the same family', async () => {
+      // Given
+      const user = createDynamoUserItem();
+      mockTokenIssuer.verify.mockResolvedValue(refreshClaims(user.id));
+      mockRepository.findById.mockResolvedValue(user);
+
+      // When
+      const result = await service.refresh('refresh-token');
+
+      // Then
+      expect(result).toEqual({
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        expiresIn: 3600,
+      });
+      expect(mockTokenIssuer.verify).toHaveBeenCalledWith('refresh-token', 'refresh');
+      expect(mockTokenIssuer.issueTokenPair).toHaveBeenCalledWith(
+        { id: user.id, email: user.email },
+        'family-1'
+      );
+      expect(mockSessionRepository.rotate).toHaveBeenCalledWith(
+        { userId: user.id, familyId: 'family-1', tokenId: 'token-1' },
+        expect.objectContaining({ userId: user.id, familyId: 'family-1', tokenId: 'token-2' })
+      );
+    });
+
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      // Given
+      const user = createDynamoUserItem();
+      mockTokenIssuer.verify.mockResolvedValue(refreshClaims(user.id));
+      mockRepository.findById.mockResolvedValue(user);
+      mockSessionRepository.rotate.mockResolvedValue(false);
+      mockSessionRepository.find.mockResolvedValue({ status: 'rotated' });
+      mockSessionRepository.revokeFamily.mockResolvedValue(3);
+
+      // When & Then
+      await expect(service.refresh('refresh-token')).rejects.toMatchObject({
+        code: 'REFRESH_TOKEN_REUSED',
+      });
+      expect(mockSessionRepository.revokeFamily).toHaveBeenCalledWith(user.id, 'family-1');
+      expect(mockLogger.warn).toHaveBeenCalled();
+    });
+
+    it('should reject refresh token whose session no longer exists', async () => {
+      // Given
+      const user = createDynamoUserItem();
+      mockTokenIssuer.verify.mockResolvedValue(refreshClaims(user.id));
+      mockRepository.findById.mockResolvedValue(user);
+      mockSessionRepository.rotate.mockResolvedValue(false);
+      mockSessionRepository.find.mockResolvedValue(null);
+
+      // When & Then
+      await expect(service.refresh('refresh-token')).rejects.toMatchObject({
+        code: 'INVALID_REFRESH_TOKEN',
+      });
+      expect(mockSessionRepository.revokeFamily).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid refresh token', async () => {
+      // Given
+      mockTokenIssuer.verify.mockRejectedValue(new Error('invalid signature'));
+
+      // When & Then
+      await expect(service.refresh('bad-token')).rejects.toBeInstanceOf(CredentialsError);
+    });
+
+    it('should reject refresh token without session claims', async () => {
+      // Given
+      mockTokenIssuer.verify.mockResolvedValue({ sub: 'user-1', token_use: 'refresh' });
+
+      // When & Then
+      await expect(service.refresh('legacy-token')).rejects.toBeInstanceOf(CredentialsError);
+      expect(mockSessionRepository.rotate).not.toHaveBeenCalled();
+    });
+
+    it('should reject refresh token of deleted user', async () => {
+      // Given
+      mockTokenIssuer.verify.mockResolvedValue(refreshClaims('deleted-user'));
+      mockRepository.findById.mockResolvedValue(null);
+
+      // When & Then
+      await expect(service.refresh('refresh-token')).rejects.toBeInstanceOf(CredentialsError);
+    });
+  });
+
+  describe('revokeAllSessions()', () => {
+    it('should revoke every refresh session of the user', async () => {
+      // Given
+      mockSessionRepository.revokeAll.mockResolvedValue(2);
+
+      // When
+      const revokedCount = await service.revokeAllSessions('user-1');
+
+      // Then
+      expect(revokedCount).toBe(2);
+      expect(mockSessionRepository.revokeAll).toHaveBeenCalledWith('user-1');
+    });
+  });
+
+  describe('requestPasswordReset()', () => {
+    it('should store hashed single-use code and mail the plain code', async () => {
+      // Given
+      const user = createDynamoUserItem({ email: 'user@example.com' });
+      mockRepository.findByEmail.mockResolvedValue(user);
+
+      // When
+      await service.requestPasswordReset('user@example.com');
+
+      // Then
+      expect(sentMails).toHaveLength(1);
+      expect(sentMails[0].to).toBe('user@example.com');
+      const code = sentMails[0].text.match(/^[A-Z0-9]{8}$/m)?.[0];
+      expect(code).toBeDefined();
+
+      const savedCode = mockResetCodeRepository.save.mock.calls[0][0];
+      expect(savedCode.userId).toBe(user.id);
+      expect(savedCode.codeHash).not.toContain(code);
+      expect(savedCode.ttl).toBeGreaterThan(Math.floor(Date.now() / 1000));
+    });
+
+    it('should silently ignore unknown email', async () => {
+      // Given
+      mockRepository.findByEmail.mockResolvedValue(null);
+
+      // When
+      await service.requestPasswordReset('nobody@example.com');
+
+      // Then
+      expect(mockResetCodeRepository.save).not.toHaveBeenCalled();
+      expect(sentMails).toHaveLength(0);
+    });
+  });
+
+  describe('confirmPasswordReset()', () => {
+    it('should consume the mailed code, update password and revoke sessions', async () => {
+      // Given
+      const user = createDynamoUserItem({ email: 'user@example.com' });
+      mockRepository.findByEmail.mockResolvedValue(user);
+      await service.requestPasswordReset('user@example.com');
+      const code = sentMails[0].text.match(/^[A-Z0-9]{8}$/m)![0];
+      const savedCode = mockResetCodeRepository.save.mock.calls[0][0];
+
+      // When
+      await service.confirmPasswordReset({
+        email: 'user@example.com',
+        code: code.toLowerCase(),
+        newPassword: 'NewPassword123',
+      });
+
+      // Then
+      expect(mockResetCodeRepository.consume).toHaveBeenCalledWith(user.id, savedCode.codeHash);
+      const [, newHash] = mockRepository.updatePassword.mock.calls[0];
+      expect(await PasswordHasher.verify('NewPassword123', newHash)).toBe(true);
+      expect(mockSessionRepository.revokeAll).toHaveBeenCalledWith(user.id);
+    });
+
+    it('should reject used or expired code', async () => {
+      // Given
+      mockRepository.findByEmail.mockResolvedValue(createDynamoUserItem());
+      mockResetCodeRepository.consume.mockResolvedValue(false);
+
+      // When & Then
+      await expect(
+        service.confirmPasswordReset({
+          email: 'user@example.com',
+          code: 'ABCDEFGH',
+          newPassword: 'NewPassword123',
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_RESET_CODE' });
+      expect(mockRepository.updatePassword).not.toHaveBeenCalled();
+      expect(mockSessionRepository.revokeAll).not.toHaveBeenCalled();
+    });
+
+    it('should count a failed attempt for a known user', async () => {
+      // Given
+      const user = createDynamoUserItem();
+      mockRepository.findByEmail.mockResolvedValue(user);
+      mockResetCodeRepository.consume.mockResolvedValue(false);
+
+      // When & Then
+      await expect(
+        service.confirmPasswordReset({
+          email: 'user@example.com',
+          code: 'ABCDEFGH',
+          newPassword: 'NewPassword123',
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_RESET_CODE' });
+      expect(mockResetCodeRepository.recordFailedAttempt).toHaveBeenCalledWith(
+        user.id,
+        expect.any(Number)
+      );
+    });
+
+    it('should lock out after too many failed attempts even with a valid code', async () => {
+      // Given
+      mockRepository.findByEmail.mockResolvedValue(createDynamoUserItem());
+      mockResetCodeRepository.countFailedAttempts.mockResolvedValue(5);
+
+      // When & Then
+      await expect(
+        service.confirmPasswordReset({
+          email: 'user@example.com',
+          code: 'ABCDEFGH',
+          newPassword: 'NewPassword123',
+        })
+      ).rejects.toMatchObject({ code: 'RESET_ATTEMPTS_EXCEEDED' });
+      expect(mockResetCodeRepository.consume).not.toHaveBeenCalled();
+      expect(mockRepository.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it('should clear failed attempts after a successful reset', async () => {
+      // Given
+      const user = createDynamoUserItem();
+      mockRepository.findByEmail.mockResolvedValue(user);
+      mockResetCodeRepository.countFailedAttempts.mockResolvedValue(4);
+
+      // When
+      await service.confirmPasswordReset({
+        email: 'user@example.com',
+        code: 'ABCDEFGH',
+        newPassword: 'NewPassword123',
+      });
+
+      // Then
+      expect(mockResetCodeRepository.clearFailedAttempts).toHaveBeenCalledWith(user.id);
+      expect(mockResetCodeRepository.recordFailedAttempt).not.toHaveBeenCalled();
+    });
+
+    it('should keep the code when new password violates policy', async () => {
+      // When & Then
+      await expect(
+        service.confirmPasswordReset({
+          email: 'user@example.com',
+          code: 'ABCDEFGH',
+          newPassword: 'weak',
+        })
+      ).rejects.toMatchObject({ code: 'PASSWORD_POLICY_VIOLATION' });
+      expect(mockResetCodeRepository.consume).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changePassword()', () => {
+    it('should update password, revoke all sessions and issue a new session', async () => {
+      // Given
+      const passwordHash = await PasswordHasher.hash('Password123');
+      const user = createDynamoUserItem({ passwordHash });
+      mockRepository.findById.mockResolvedValue(user);
+
+      // When
+      const result = await service.changePassword(user.id, 'Password123', 'NewPassword123');
+
+      // Then
+      expect(mockRepository.updatePassword).toHaveBeenCalledWith(user.id, expect.any(String));
+      expect(mockSessionRepository.revokeAll).toHaveBeenCalledWith(user.id);
+      expect(mockSessionRepository.create).toHaveBeenCalled();
+      expect(result.accessToken).toBe('access-token');
+    });
+
+    it('should reject wrong current password', async () => {
+      // Given
+      const passwordHash = await PasswordHasher.hash('Password123');
+      mockRepository.findById.mockResolvedValue(createDynamoUserItem({ passwordHash }));
+
+      // When & Then
+      await expect(
+        service.changePassword('user-1', 'WrongPassword1', 'NewPassword123')
+      ).rejects.toBeInstanceOf(PasswordUpdateError);
+      expect(mockRepository.updatePassword).not.toHaveBeenCalled();
+      expect(mockSessionRepository.revokeAll).not.toHaveBeenCalled();
+    });
+  });
+});
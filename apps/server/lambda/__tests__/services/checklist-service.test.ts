@@ -0,0 +1,256 @@
+/**
+ * ChecklistService 테스트 스위트
+ * 부모 Todo 접근 확인, 항목 추가/수정/삭제 및 순서 변경 비즈니스 로직 테스트
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import {
+  createAuthContext,
+  createDynamoChecklistItem,
+  createDynamoTodoItem,
+} from '../helpers/test-factories';
+import { createMockChecklistRepository, createMockTodoService } from '../helpers/mock-providers';
+import {
+  ChecklistService,
+  ChecklistError,
+  MAX_CHECKLIST_ITEMS,
+} from '@/services/checklist.service';
+import type { ITodoService, Logger } from '@/services/todo.service';
+import { ItemNotFoundError } from '@/types/database.types';
+
+describe('ChecklistService - 체크리스트 항목 테스트 스위트', () => {
+  let service: ChecklistService;
+  let mockRepository: any;
+  let mockTodoService: any;
+  let mockLogger: Logger;
+
+  const authContext = createAuthContext({ userId: 'user-1' });
+  const todo = createDynamoTodoItem({ userId: 'user-1', todoId: 'todo-1' });
+
+  beforeEach(() => {
+    mockRepository = createMockChecklistRepository();
+    mockTodoService = createMockTodoService();
+    mockTodoService.getTodoById.mockResolvedValue(todo);
+    mockTodoService.validatePermissions.mockResolvedValue(undefined);
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    service = new ChecklistService(
+      mockRepository,
+      mockTodoService as unknown as ITodoService,
+      mockLogger
+    );
+  });
+
+  describe('listItems()', () => {
+    it('should verify parent todo access before listing items', async () => {
+      // Given
+      const items = [createDynamoChecklistItem({ userId: 'user-1', todoId: 'todo-1' })];
+      mockRepository.findByTodo.mockResolvedValue(items);
+
+      // When
+      const result = await service.listItems(authContext, 'todo-1');
+
+      // Then
+      expect(mockTodoService.getTodoById).toHaveBeenCalledWith(authContext, 'todo-1', {});
+      expect(mockRepository.findByTodo).toHaveBeenCalledWith('user-1', 'todo-1');
+      expect(result).toEqual(items);
+    });
+
+    it('should read project todo items from the project partition', async () => {
+      // Given
+      mockTodoService.getTodoById.mockResolvedValue({ ...todo, projectId: 'project-1' });
+      mockRepository.findByTodo.mockResolvedValue([]);
+
+      // When
+      await service.listItems(authContext, 'todo-1', { projectId: 'project-1' });
+
+      // Then
+      expect(mockTodoService.getTodoById).toHaveBeenCalledWith(authContext, 'todo-1', {
+        projectId: 'project-1',
+      });
+      expect(mockRepository.findByTodo).toHaveBeenCalledWith('PROJECT#project-1', 'todo-1');
+    });
+
+    it('should not query items when parent todo is not accessible', async () => {
+      // Given
+      mockTodoService.getTodoById.mockRejectedValue(new ItemNotFoundError('Todo', 'todo-1'));
+
+      // When & Then
+      await expect(service.listItems(authContext, 'todo-1')).rejects.toThrow(ItemNotFoundError);
+      expect(mockRepository.findByTodo).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createItem()', () => {
+    it('should append item after the last position with parent ttl', async () => {
+      // Given
+      const guestTodo = { ...todo, ttl: 1700000000 };
+      mockTodoService.getTodoById.mockResolvedValue(guestTodo);
+      mockRepository.findByTodo.mockResolvedValue([
+        createDynamoChecklistItem({ userId: 'user-1', todoId: 'todo-1', position: 0 }),
+        createDynamoChecklistItem({ userId: 'user-1', todoId: 'todo-1', position: 3 }),
+      ]);
+      mockRepository.create.mockImplementation(async (item: any) => item);
+
+      // When
+      await service.createItem(authContext, 'todo-1', { title: '초안 작성' });
+
+      // Then
+      expect(mockTodoService.validatePermissions).toHaveBeenCalledWith(authContext, 'UPDATE', {
+        projectId: undefined,
+      });
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          todoId: 'todo-1',
+          userId: 'user-1',
+          title: '초안 작성',
+          completed: false,
+          position: 4,
+          ttl: 1700000000,
+        })
+      );
+    });
+
+    it('should check the project role and store the item in the project partition', async () => {
+      // Given
+      mockTodoService.getTodoById.mockResolvedValue({ ...todo, projectId: 'project-1' });
+      mockRepository.findByTodo.mockResolvedValue([]);
+      mockRepository.create.mockImplementation(async (item: any) => item);
+
+      // When
+      await service.createItem(
+        authContext,
+        'todo-1',
+        { title: '검토' },
+        { projectId: 'project-1' }
+      );
+
+      // Then
+      expect(mockTodoService.validatePermissions).toHaveBeenCalledWith(authContext, 'UPDATE', {
+        projectId: 'project-1',
+      });
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ todoId: 'todo-1', userId: 'PROJECT#project-1', position: 0 })
+      );
+    });
+
+    it('should reject when the checklist is full', async () => {
+      // Given
+      mockRepository.findByTodo.mockResolvedValue(
+        Array.from({ length: MAX_CHECKLIST_ITEMS }, (_, position) =>
+          createDynamoChecklistItem({ userId: 'user-1', todoId: 'todo-1', position })
+        )
+      );
+
+      // When & Then
+      await expect(
+        service.createItem(authContext, 'todo-1', { title: '추가 항목' })
+      ).rejects.toThrow(ChecklistError);
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should not create item without update permission', async () => {
+      // Given
+      const permissionError = new Error('Insufficient permissions to update todos');
+      mockTodoService.validatePermissions.mockRejectedValue(permissionError);
+
+      // When & Then
+      await expect(service.createItem(authContext, 'todo-1', { title: '항목' })).rejects.toBe(
+        permissionError
+      );
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateItem()', () => {
+    it('should pass the stored item and updates to the repository', async () => {
+      // Given
+      const item = createDynamoChecklistItem({ userId: 'user-1', todoId: 'todo-1' });
+      mockRepository.findById.mockResolvedValue(item);
+      mockRepository.update.mockResolvedValue({ ...item, completed: true });
+
+      // When
+      const result = await service.updateItem(authContext, 'todo-1', item.id, {
+        completed: true,
+      });
+
+      // Then
+      expect(mockRepository.findById).toHaveBeenCalledWith('user-1', 'todo-1', item.id);
+      expect(mockRepository.update).toHaveBeenCalledWith(item, {
+        title: undefined,
+        completed: true,
+      });
+      expect(result.completed).toBe(true);
+    });
+
+    it('should throw ItemNotFoundError for unknown item', async () => {
+      // When & Then
+      await expect(
+        service.updateItem(authContext, 'todo-1', 'item-missing', { completed: true })
+      ).rejects.toThrow(ItemNotFoundError);
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteItem()', () => {
+    it('should delete the stored item', async () => {
+      // Given
+      const item = createDynamoChecklistItem({ userId: 'user-1', todoId: 'todo-1' });
+      mockRepository.findById.mockResolvedValue(item);
+
+      // When
+      await service.deleteItem(authContext, 'todo-1', item.id);
+
+      // Then
+      expect(mockRepository.delete).toHaveBeenCalledWith(item);
+    });
+  });
+
+  describe('reorderItems()', () => {
+    const first = createDynamoChecklistItem({
+      userId: 'user-1',
+      todoId: 'todo-1',
+      itemId: 'item-a',
+      position: 0,
+    });
+    const second = createDynamoChecklistItem({
+      userId: 'user-1',
+      todoId: 'todo-1',
+      itemId: 'item-b',
+      position: 1,
+    });
+
+    it('should reassign positions in the requested order', async () => {
+      // Given
+      mockRepository.findByTodo.mockResolvedValue([first, second]);
+
+      // When
+      const result = await service.reorderItems(authContext, 'todo-1', ['item-b', 'item-a']);
+
+      // Then
+      expect(mockRepository.reorder).toHaveBeenCalledWith('user-1', 'todo-1', ['item-b', 'item-a']);
+      expect(result.map(item => [item.id, item.position])).toEqual([
+        ['item-b', 0],
+        ['item-a', 1],
+      ]);
+    });
+
+    it('should reject an order that omits or repeats items', async () => {
+      // Given
+      mockRepository.findByTodo.mockResolvedValue([first, second]);
+
+      // When & Then
+      await expect(service.reorderItems(authContext, 'todo-1', ['item-a'])).rejects.toThrow(
+        ChecklistError
+      );
+      await expect(
+        service.reorderItems(authContext, 'todo-1', ['item-a', 'item-a'])
+      ).rejects.toThrow(ChecklistError);
+      expect(mockRepository.reorder).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,416 @@
+/**
+ * ProjectService 테스트 스위트
+ * 프로젝트 생성, 멤버 초대/역할 변경/내보내기와 프로젝트 Todo의 멤버 역할 권한 검사 테스트
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import {
+  createAuthContext,
+  createDynamoProjectMemberItem,
+  createDynamoTodoItem,
+  createDynamoUserItem,
+} from '../helpers/test-factories';
+import {
+  createMockProjectRepository,
+  createMockTodoRepository,
+  createMockUserRepository,
+} from '../helpers/mock-providers';
+import { ProjectService, ProjectError } from '@/services/project.service';
+import { AssignmentError, TodoService, type Logger } from '@/services/todo.service';
+import { ProjectRole } from '@/types/constants';
+
+// TodoService가 불러오는 X-Ray SDK는 테스트 환경에서 로드하지 않고 추적 래퍼는 그대로 실행
+vi.mock('@/utils/xray-tracer', () => ({
+  traceAsyncWithMetrics: (_name: string, _type: string, fn: () => unknown) => fn(),
+  SubsystemType: { BUSINESS_LOGIC: 'business_logic' },
+  addUserInfo: vi.fn(),
+  addAnnotation: vi.fn(),
+}));
+
+describe('ProjectService - 공유 프로젝트 테스트 스위트', () => {
+  let service: ProjectService;
+  let mockProjectRepository: any;
+  let mockUserRepository: any;
+  let mockLogger: Logger;
+
+  const owner = createAuthContext({ userId: 'owner-1' });
+  const ownerMember = createDynamoProjectMemberItem({
+    projectId: 'project-1',
+    projectName: '팀 할일',
+    userId: 'owner-1',
+    role: ProjectRole.OWNER,
+  });
+
+  beforeEach(() => {
+    mockProjectRepository = createMockProjectRepository();
+    mockUserRepository = createMockUserRepository();
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    service = new ProjectService(mockProjectRepository, mockUserRepository, mockLogger);
+  });
+
+  describe('createProject()', () => {
+    it('should save the project with the requester as owner', async () => {
+      // Given
+      mockProjectRepository.create.mockImplementation(async (_project: any, member: any) => member);
+
+      // When
+      const result = await service.createProject(owner, { name: '팀 할일' });
+
+      // Then
+      expect(mockProjectRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ name: '팀 할일', ownerId: 'owner-1' }),
+        expect.objectContaining({ userId: 'owner-1', role: ProjectRole.OWNER })
+      );
+      expect(result.projectId).toMatch(/^project-/);
+    });
+
+    it('should reject guest users', async () => {
+      // Given
+      const guest = createAuthContext({ userType: 'guest' });
+
+      // When & Then
+      await expect(service.createProject(guest, { name: '팀 할일' })).rejects.toMatchObject({
+        code: 'PROJECT_ACCESS_DENIED',
+      });
+      expect(mockProjectRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addMember()', () => {
+    it('should invite a registered user by email', async () => {
+      // Given
+      mockProjectRepository.findMember.mockImplementation(
+        async (_projectId: string, userId: string) => (userId === 'owner-1' ? ownerMember : null)
+      );
+      mockUserRepository.findByEmail.mockResolvedValue(
+        createDynamoUserItem({ userId: 'user-2', email: 'member@example.com' })
+      );
+      mockProjectRepository.saveMember.mockImplementation(async (member: any) => member);
+
+      // When
+      await service.addMember(owner, 'project-1', {
+        email: 'member@example.com',
+        role: ProjectRole.EDITOR,
+      });
+
+      // Then
+      expect(mockProjectRepository.saveMember).toHaveBeenCalledWith(
+        expect.objectContaining({
+          projectId: 'project-1',
+          projectName: '팀 할일',
+          userId: 'user-2',
+          role: ProjectRole.EDITOR,
+          addedBy: 'owner-1',
+        })
+      );
+    });
+
+    it('should only allow owners to invite members', async () => {
+      // Given
+      const editor = createAuthContext({ userId: 'editor-1' });
+      mockProjectRepository.findMember.mockResolvedValue(
+        createDynamoProjectMemberItem({
+          projectId: 'project-1',
+          userId: 'editor-1',
+          role: ProjectRole.EDITOR,
+        })
+      );
+
+      // When & Then
+      await expect(
+        service.addMember(editor, 'project-1', {
+          email: 'member@example.com',
+          role: ProjectRole.VIEWER,
+        })
+      ).rejects.toMatchObject({ code: 'PROJECT_ROLE_REQUIRED' });
+      expect(mockProjectRepository.saveMember).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown emails', async () => {
+      // Given
+      mockProjectRepository.findMember.mockResolvedValue(ownerMember);
+      mockUserRepository.findByEmail.mockResolvedValue(null);
+
+      // When & Then
+      await expect(
+        service.addMember(owner, 'project-1', {
+          email: 'nobody@example.com',
+          role: ProjectRole.VIEWER,
+        })
+      ).rejects.toThrow(ProjectError);
+    });
+  });
+
+  describe('updateMember() / removeMember()', () => {
+    it('should not demote the last owner', async () => {
+      // Given
+      mockProjectRepository.findMember.mockResolvedValue(ownerMember);
+      mockProjectRepository.listMembers.mockResolvedValue([ownerMember]);
+
+      // When & Then
+      await expect(
+        service.updateMember(owner, 'project-1', 'owner-1', { role: ProjectRole.EDITOR })
+      ).rejects.toMatchObject({ code: 'LAST_OWNER' });
+      expect(mockProjectRepository.saveMember).not.toHaveBeenCalled();
+    });
+
+    it('should keep the original invitation when changing a role', async () => {
+      // Given
+      const viewer = createDynamoProjectMemberItem({
+        projectId: 'project-1',
+        userId: 'user-2',
+        role: ProjectRole.VIEWER,
+        addedBy: 'owner-1',
+      });
+      mockProjectRepository.findMember.mockImplementation(
+        async (_projectId: string, userId: string) => (userId === 'owner-1' ? ownerMember : viewer)
+      );
+      mockProjectRepository.saveMember.mockImplementation(async (member: any) => member);
+
+      // When
+      await service.updateMember(owner, 'project-1', 'user-2', { role: ProjectRole.EDITOR });
+
+      // Then
+      expect(mockProjectRepository.saveMember).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-2',
+          role: ProjectRole.EDITOR,
+          addedBy: 'owner-1',
+          addedAt: viewer.addedAt,
+        })
+      );
+    });
+
+    it('should let any member leave the project', async () => {
+      // Given
+      const viewerContext = createAuthContext({ userId: 'user-2' });
+      mockProjectRepository.findMember.mockResolvedValue(
+        createDynamoProjectMemberItem({
+          projectId: 'project-1',
+          userId: 'user-2',
+          role: ProjectRole.VIEWER,
+        })
+      );
+
+      // When
+      await service.removeMember(viewerContext, 'project-1', 'user-2');
+
+      // Then
+      expect(mockProjectRepository.removeMember).toHaveBeenCalledWith('project-1', 'user-2');
+    });
+
+    it('should not let viewers remove other members', async () => {
+      // Given
+      const viewerContext = createAuthContext({ userId: 'user-2' });
+      mockProjectRepository.findMember.mockResolvedValue(
+        createDynamoProjectMemberItem({
+          projectId: 'project-1',
+          userId: 'user-2',
+          role: ProjectRole.VIEWER,
+        })
+      );
+
+      // When & Then
+      await expect(
+        service.removeMember(viewerContext, 'project-1', 'owner-1')
+      ).rejects.toMatchObject({ code: 'PROJECT_ROLE_REQUIRED' });
+      expect(mockProjectRepository.removeMember).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('TodoService - 프로젝트 멤버 권한 검증', () => {
+  let todoService: TodoService;
+  let mockTodoRepository: any;
+  let mockProjectRepository: any;
+
+  const viewerContext = createAuthContext({ userId: 'user-2' });
+
+  beforeEach(() => {
+    mockTodoRepository = createMockTodoRepository();
+    mockProjectRepository = createMockProjectRepository();
+    mockProjectRepository.findMember.mockResolvedValue(
+      createDynamoProjectMemberItem({
+        projectId: 'project-1',
+        userId: 'user-2',
+        role: ProjectRole.VIEWER,
+      })
+    );
+    todoService = new TodoService(
+      mockTodoRepository,
+      { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      mockProjectRepository
+    );
+  });
+
+  it('should let viewers read project todos from the project partition', async () => {
+    // Given
+    const todo = createDynamoTodoItem({ userId: 'owner-1', todoId: 'todo-1' });
+    mockTodoRepository.findById.mockResolvedValue(todo);
+
+    // When
+    const result = await todoService.getTodoById(viewerContext, 'todo-1', {
+      projectId: 'project-1',
+    });
+
+    // Then
+    expect(mockProjectRepository.findMember).toHaveBeenCalledWith('project-1', 'user-2');
+    expect(mockTodoRepository.findById).toHaveBeenCalledWith('PROJECT#project-1', 'todo-1');
+    expect(result).toBe(todo);
+  });
+
+  it('should require editor role to change project todos', async () => {
+    // When & Then
+    await expect(
+      todoService.validatePermissions(viewerContext, 'UPDATE', { projectId: 'project-1' })
+    ).rejects.toMatchObject({ code: 'PROJECT_ROLE_REQUIRED' });
+  });
+
+  it('should deny non-members', async () => {
+    // Given
+    mockProjectRepository.findMember.mockResolvedValue(null);
+
+    // When & Then
+    await expect(
+      todoService.validatePermissions(viewerContext, 'READ', { projectId: 'project-1' })
+    ).rejects.toMatchObject({ code: 'PROJECT_ACCESS_DENIED' });
+  });
+});
+
+describe('TodoService - 담당자 지정', () => {
+  let todoService: TodoService;
+  let mockTodoRepository: any;
+  let mockProjectRepository: any;
+
+  const editorContext = createAuthContext({ userId: 'editor-1' });
+  const members: Record<string, ReturnType<typeof createDynamoProjectMemberItem>> = {
+    'editor-1': createDynamoProjectMemberItem({
+      projectId: 'project-1',
+      userId: 'editor-1',
+      role: ProjectRole.EDITOR,
+    }),
+    'user-2': createDynamoProjectMemberItem({
+      projectId: 'project-1',
+      userId: 'user-2',
+      role: ProjectRole.VIEWER,
+    }),
+  };
+
+  beforeEach(() => {
+    mockTodoRepository = createMockTodoRepository();
+    mockProjectRepository = createMockProjectRepository();
+    mockProjectRepository.findMember.mockImplementation(
+      async (_projectId: string, userId: string) => members[userId] ?? null
+    );
+    todoService = new TodoService(
+      mockTodoRepository,
+      { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      mockProjectRepository
+    );
+  });
+
+  it('should record the first assignment when creating a project todo', async () => {
+    // Given
+    mockTodoRepository.create.mockImplementation(async (todo: any) => todo);
+
+    // When
+    await todoService.createTodo(
+      editorContext,
+      { title: '리뷰하기', assigneeId: 'user-2' },
+      { projectId: 'project-1' }
+    );
+
+    // Then
+    expect(mockTodoRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        assigneeId: 'user-2',
+        assignmentHistory: [
+          expect.objectContaining({ assigneeId: 'user-2', assignedBy: 'editor-1' }),
+        ],
+      })
+    );
+  });
+
+  it('should reject assignees outside the project', async () => {
+    // When & Then
+    await expect(
+      todoService.createTodo(
+        editorContext,
+        { title: '리뷰하기', assigneeId: 'stranger' },
+        { projectId: 'project-1' }
+      )
+    ).rejects.toMatchObject({ code: 'ASSIGNEE_NOT_MEMBER' });
+    expect(mockTodoRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should not assign personal todos', async () => {
+    // When & Then
+    await expect(
+      todoService.createTodo(editorContext, { title: '개인 할일', assigneeId: 'user-2' })
+    ).rejects.toThrow(AssignmentError);
+  });
+
+  it('should append reassignments to the history', async () => {
+    // Given
+    const previous = { assigneeId: 'user-2', assignedBy: 'owner-1', assignedAt: '2024-01-01' };
+    mockTodoRepository.findById.mockResolvedValue({
+      ...createDynamoTodoItem({ userId: 'owner-1', todoId: 'todo-1' }),
+      projectId: 'project-1',
+      assigneeId: 'user-2',
+      assignmentHistory: [previous],
+    });
+    mockTodoRepository.update.mockImplementation(
+      async (_owner: string, id: string, updates: any) => ({
+        ...createDynamoTodoItem({ todoId: id }),
+        ...updates,
+      })
+    );
+
+    // When
+    await todoService.updateTodo(
+      editorContext,
+      'todo-1',
+      { assigneeId: 'editor-1' },
+      { projectId: 'project-1' }
+    );
+
+    // Then
+    expect(mockTodoRepository.update).toHaveBeenCalledWith(
+      'PROJECT#project-1',
+      'todo-1',
+      expect.objectContaining({
+        assigneeId: 'editor-1',
+        assignmentHistory: [
+          previous,
+          expect.objectContaining({ assigneeId: 'editor-1', assignedBy: 'editor-1' }),
+        ],
+      }),
+      expect.anything()
+    );
+  });
+
+  it('should only list assigned todos from projects the user still belongs to', async () => {
+    // Given
+    mockProjectRepository.listByUser.mockResolvedValue([members['editor-1']]);
+    mockTodoRepository.findByAssignee.mockResolvedValue({
+      items: [
+        { ...createDynamoTodoItem({ todoId: 'todo-1' }), projectId: 'project-1' },
+        { ...createDynamoTodoItem({ todoId: 'todo-2' }), projectId: 'project-left' },
+      ],
+      count: 2,
+      scannedCount: 2,
+    });
+
+    // When
+    const result = await todoService.listTodos(editorContext, { assignee: 'me' });
+
+    // Then
+    expect(mockTodoRepository.findByAssignee).toHaveBeenCalledWith('editor-1', expect.anything());
+    expect(result.items.map(todo => todo.id)).toEqual(['todo-1']);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * RealtimeService 테스트 스위트
+ * 연결 등록/해제, 사용자별/프로젝트 멤버별 변경 전송과 끊긴 연결 정리 테스트
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import {
+  createAuthContext,
+  createDynamoProjectMemberItem,
+  createDynamoTodoItem,
+} from '../helpers/test-factories';
+import { createMockProjectRepository } from '../helpers/mock-providers';
+import { RealtimeService, ConnectionRepository } from '@/services/realtime.service';
+import { AuthError, type Logger } from '@/services/todo.service';
+import { InMemoryConnectionNotifier } from '@/utils/connection-notifier';
+
+// TodoService의 추적 유틸리티는 이 테스트에서 사용하지 않음 (응답 변환만 사용)
+vi.mock('@/utils/xray-tracer', () => ({}));
+
+/**
+ * 메모리 연결 저장소 (사용자 ID -> 연결 ID 목록)
+ */
+function createConnectionRepository(): ConnectionRepository & {
+  connections: Map<string, string>;
+} {
+  const connections = new Map<string, string>();
+  return {
+    connections,
+    save: vi.fn(async (userId: string, connectionId: string) => {
+      connections.set(connectionId, userId);
+    }),
+    findUserId: vi.fn(async (connectionId: string) => connections.get(connectionId) ?? null),
+    remove: vi.fn(async (_userId: string, connectionId: string) => {
+      connections.delete(connectionId);
+    }),
+    listByUser: vi.fn(async (userId: string) =>
+      [...connections].filter(([, owner]) => owner === userId).map(([id]) => id)
+    ),
+  };
+}
+
+describe('RealtimeService - 실시간 업데이트 테스트 스위트', () => {
+  let service: RealtimeService;
+  let repository: ReturnType<typeof createConnectionRepository>;
+  let notifier: InMemoryConnectionNotifier;
+  let mockProjectRepository: ReturnType<typeof createMockProjectRepository>;
+  let mockLogger: Logger;
+
+  const changedAt = '2024-03-01T00:00:00.000Z';
+
+  beforeEach(() => {
+    repository = createConnectionRepository();
+    notifier = new InMemoryConnectionNotifier();
+    mockProjectRepository = createMockProjectRepository();
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    service = new RealtimeService(repository, notifier, mockLogger, mockProjectRepository);
+  });
+
+  it('should register and remove connections of authenticated users', async () => {
+    // When
+    await service.connect(createAuthContext({ userId: 'user-1' }), 'conn-1');
+
+    // Then
+    expect(repository.save).toHaveBeenCalledWith('user-1', 'conn-1', expect.any(Number));
+    expect(repository.connections.get('conn-1')).toBe('user-1');
+
+    // When
+    await service.disconnect('conn-1');
+    await service.disconnect('conn-unknown');
+
+    // Then
+    expect(repository.remove).toHaveBeenCalledTimes(1);
+    expect(repository.connections.size).toBe(0);
+  });
+
+  it('should reject guest connections', async () => {
+    // When & Then
+    await expect(
+      service.connect(createAuthContext({ userType: 'guest' }), 'conn-1')
+    ).rejects.toBeInstanceOf(AuthError);
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+
+  it('should send the latest change of each todo to every connection of the owner', async () => {
+    // Given
+    await service.connect(createAuthContext({ userId: 'user-1' }), 'phone');
+    await service.connect(createAuthContext({ userId: 'user-1' }), 'desktop');
+    await service.connect(createAuthContext({ userId: 'user-2' }), 'other');
+
+    const created = createDynamoTodoItem({ userId: 'user-1', todoId: 'todo-1' });
+    const completed = { ...created, completed: true, version: 2 };
+    const removed = createDynamoTodoItem({ userId: 'user-1', todoId: 'todo-2' });
+
+    // When
+    const result = await service.publish([
+      { eventName: 'INSERT', newItem: created, changedAt },
+      { eventName: 'MODIFY', newItem: completed, oldItem: created, changedAt },
+      { eventName: 'REMOVE', oldItem: removed, changedAt },
+    ]);
+
+    // Then
+    expect(result).toEqual({ userCount: 1, sentCount: 2, staleCount: 0 });
+    for (const connectionId of ['phone', 'desktop']) {
+      const [message] = notifier.sent.get(connectionId)!;
+      expect(message.type).toBe('todo_changes');
+      expect(message.todos).toHaveLength(1);
+      expect(message.todos[0]).toMatchObject({ id: 'todo-1', completed: true, version: 2 });
+      expect(message.deleted).toEqual([{ id: 'todo-2', deletedAt: changedAt }]);
+    }
+    expect(notifier.sent.has('other')).toBe(false);
+  });
+
+  it('should send project todo changes to every project member', async () => {
+    // Given
+    await service.connect(createAuthContext({ userId: 'owner' }), 'owner-phone');
+    await service.connect(createAuthContext({ userId: 'editor' }), 'editor-desktop');
+    await service.connect(createAuthContext({ userId: 'outsider' }), 'outsider-phone');
+    mockProjectRepository.listMembers.mockResolvedValue([
+      createDynamoProjectMemberItem({ projectId: 'project-1', userId: 'owner' }),
+      createDynamoProjectMemberItem({ projectId: 'project-1', userId: 'editor' }),
+    ]);
+
+    const first = {
+      ...createDynamoTodoItem({ userId: 'owner', todoId: 'todo-1' }),
+      projectId: 'project-1',
+    };
+    const second = {
+      ...createDynamoTodoItem({ userId: 'editor', todoId: 'todo-2' }),
+      projectId: 'project-1',
+    };
+
+    // When
+    const result = await service.publish([
+      { eventName: 'INSERT', newItem: first, changedAt },
+      { eventName: 'INSERT', newItem: second, changedAt },
+    ]);
+
+    // Then
+    expect(result).toEqual({ userCount: 2, sentCount: 2, staleCount: 0 });
+    expect(mockProjectRepository.listMembers).toHaveBeenCalledTimes(1);
+    for (const connectionId of ['owner-phone', 'editor-desktop']) {
+      const [message] = notifier.sent.get(connectionId)!;
+      expect(message.todos.map(todo => todo.id)).toEqual(['todo-1', 'todo-2']);
+      expect(message.todos[0]).toMatchObject({ projectId: 'project-1' });
+    }
+    expect(notifier.sent.has('outsider-phone')).toBe(false);
+  });
+
+  it('should remove connections that are already gone', async () => {
+    // Given
+    await service.connect(createAuthContext({ userId: 'user-1' }), 'phone');
+    await service.connect(createAuthContext({ userId: 'user-1' }), 'stale');
+    notifier.disconnect('stale');
+
+    // When
+    const result = await service.publish([
+      {
+        eventName: 'INSERT',
+        newItem: createDynamoTodoItem({ userId: 'user-1', todoId: 'todo-1' }),
+        changedAt,
+      },
+    ]);
+
+    // Then
+    expect(result).toEqual({ userCount: 1, sentCount: 1, staleCount: 1 });
+    expect(repository.remove).toHaveBeenCalledWith('user-1', 'stale');
+    expect([...repository.connections.keys()]).toEqual(['phone']);
+  });
+
+  it('should keep sending to other devices when one send fails', async () => {
+    // Given
+    await service.connect(createAuthContext({ userId: 'user-1' }), 'phone');
+    await service.connect(createAuthContext({ userId: 'user-1' }), 'desktop');
+    const send = notifier.send.bind(notifier);
+    vi.spyOn(notifier, 'send').mockImplementation((connectionId, message) =>
+      connectionId === 'phone'
+        ? Promise.reject(new Error('Throttled'))
+        : send(connectionId, message)
+    );
+
+    // When
+    const result = await service.publish([
+      {
+        eventName: 'INSERT',
+        newItem: createDynamoTodoItem({ userId: 'user-1', todoId: 'todo-1' }),
+        changedAt,
+      },
+    ]);
+
+    // Then
+    expect(result).toEqual({ userCount: 1, sentCount: 1, staleCount: 0 });
+    expect(notifier.sent.has('desktop')).toBe(true);
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      'Failed to send realtime message',
+      expect.any(Error),
+      expect.objectContaining({ connectionId: 'phone' })
+    );
+  });
+});
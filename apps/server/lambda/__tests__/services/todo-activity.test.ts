@@ -0,0 +1,176 @@
+/**
+ * TodoService 활동 기록 테스트 스위트
+ * 생성/수정/삭제 시 활동 기록 추가와 활동 기록 조회 권한 테스트
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { createAuthContext, createDynamoTodoItem } from '../helpers/test-factories';
+import {
+  createMockTodoActivityRepository,
+  createMockTodoRepository,
+} from '../helpers/mock-providers';
+import { AuthError, TodoService, type Logger } from '@/services/todo.service';
+import { correlationId } from '@/utils/correlation';
+import { Priority } from '@/types/constants';
+
+// TodoService가 불러오는 X-Ray SDK는 테스트 환경에서 로드하지 않고 추적 래퍼는 그대로 실행
+vi.mock('@/utils/xray-tracer', () => ({
+  traceAsyncWithMetrics: (_name: string, _type: string, fn: () => unknown) => fn(),
+  SubsystemType: { BUSINESS_LOGIC: 'business_logic' },
+  addUserInfo: vi.fn(),
+  addAnnotation: vi.fn(),
+}));
+
+describe('TodoService - 활동 기록', () => {
+  let todoService: TodoService;
+  let mockTodoRepository: any;
+  let mockActivityRepository: any;
+  let mockLogger: Logger;
+
+  const authContext = createAuthContext({ userId: 'user-1' });
+
+  beforeEach(() => {
+    mockTodoRepository = createMockTodoRepository();
+    mockActivityRepository = createMockTodoActivityRepository();
+    mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    todoService = new TodoService(
+      mockTodoRepository,
+      mockLogger,
+      undefined,
+      mockActivityRepository
+    );
+    correlationId.clear();
+  });
+
+  it('should record the actor, set fields and correlation id on create', async () => {
+    // Given
+    correlationId.create({ correlationId: 'corr-1' });
+    mockTodoRepository.create.mockImplementation(async (todo: any) => todo);
+
+    // When
+    await todoService.createTodo(authContext, { title: '장보기', priority: Priority.HIGH });
+
+    // Then
+    const [ownerId, activity] = mockActivityRepository.append.mock.calls[0];
+    expect(ownerId).toBe('user-1');
+    expect(activity).toMatchObject({
+      action: 'CREATED',
+      actorId: 'user-1',
+      actorType: 'authenticated',
+      correlationId: 'corr-1',
+    });
+    expect(activity.changes).toEqual(
+      expect.arrayContaining([
+        { field: 'title', oldValue: null, newValue: '장보기' },
+        { field: 'priority', oldValue: null, newValue: Priority.HIGH },
+      ])
+    );
+    expect(activity.ttl).toBeUndefined();
+  });
+
+  it('should record only fields whose values changed on update', async () => {
+    // Given
+    const existing = createDynamoTodoItem({ userId: 'user-1', todoId: 'todo-1', completed: true });
+    mockTodoRepository.findById.mockResolvedValue(existing);
+    mockTodoRepository.update.mockResolvedValue({ ...existing, completed: false });
+
+    // When
+    await todoService.updateTodo(authContext, 'todo-1', {
+      title: existing.title,
+      completed: false,
+    });
+
+    // Then
+    expect(mockActivityRepository.append).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({
+        todoId: 'todo-1',
+        action: 'UPDATED',
+        changes: [{ field: 'completed', oldValue: true, newValue: false }],
+      })
+    );
+  });
+
+  it('should record deletes in the project partition', async () => {
+    // Given
+    const existing = {
+      ...createDynamoTodoItem({ userId: 'owner-1', todoId: 'todo-1' }),
+      projectId: 'project-1',
+    };
+    mockTodoRepository.findById.mockResolvedValue(existing);
+    mockTodoRepository.delete.mockResolvedValue(undefined);
+    todoService = new TodoService(
+      mockTodoRepository,
+      mockLogger,
+      {
+        findMember: vi.fn().mockResolvedValue({ role: 'editor' }),
+      } as any,
+      mockActivityRepository
+    );
+
+    // When
+    await todoService.deleteTodo(authContext, 'todo-1', { projectId: 'project-1' });
+
+    // Then
+    expect(mockActivityRepository.append).toHaveBeenCalledWith(
+      'PROJECT#project-1',
+      expect.objectContaining({ action: 'DELETED', projectId: 'project-1', changes: [] })
+    );
+  });
+
+  it('should expire guest activity with the guest todo', async () => {
+    // Given
+    const guestContext = createAuthContext({ userType: 'guest', userId: 'guest-1' });
+    mockTodoRepository.findAll.mockResolvedValue({ items: [], count: 0, scannedCount: 0 });
+    mockTodoRepository.create.mockImplementation(async (todo: any) => ({ ...todo, ttl: 12345 }));
+
+    // When
+    await todoService.createTodo(guestContext, { title: '게스트 할일' });
+
+    // Then
+    expect(mockActivityRepository.append).toHaveBeenCalledWith(
+      'guest-1',
+      expect.objectContaining({ actorType: 'guest', ttl: 12345 })
+    );
+  });
+
+  it('should keep the todo change when the activity write fails', async () => {
+    // Given
+    mockTodoRepository.create.mockImplementation(async (todo: any) => todo);
+    mockActivityRepository.append.mockRejectedValue(new Error('throttled'));
+
+    // When
+    const result = await todoService.createTodo(authContext, { title: '장보기' });
+
+    // Then
+    expect(result.title).toBe('장보기');
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      'Failed to record todo activity',
+      expect.any(Error),
+      expect.objectContaining({ action: 'CREATED' })
+    );
+  });
+
+  it('should list activity from the requester partition after checking read permission', async () => {
+    // When
+    await todoService.listActivity(authContext, 'todo-1', { limit: 10 });
+
+    // Then
+    expect(mockActivityRepository.findByTodo).toHaveBeenCalledWith('user-1', 'todo-1', {
+      limit: 10,
+      cursor: undefined,
+    });
+  });
+
+  it('should deny listing activity without read permission', async () => {
+    // Given
+    const noReadContext = createAuthContext({ permissions: { canRead: false } });
+
+    // When & Then
+    await expect(todoService.listActivity(noReadContext, 'todo-1')).rejects.toBeInstanceOf(
+      AuthError
+    );
+    expect(mockActivityRepository.findByTodo).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,352 @@
+/**
+ * TodoBatchService 테스트 스위트
+ * 작업별 검증과 결과, 처리되지 않은 쓰기의 재시도 표시, 게스트 개수 제한, 삭제의 휴지통 이동 테스트
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { createAuthContext, createDynamoTodoItem } from '../helpers/test-factories';
+import { createMockTodoRepository, createMockTodoService } from '../helpers/mock-providers';
+import { TodoBatchService } from '@/services/todo-batch.service';
+import { AuthError } from '@/services/todo.service';
+import type { ITodoService, Logger, TodoRepository } from '@/services/todo.service';
+import { ItemNotFoundError, VersionConflictError } from '@/types/database.types';
+
+// TodoService의 추적 유틸리티는 이 테스트에서 사용하지 않음 (TodoService는 mock으로 대체)
+vi.mock('@/utils/xray-tracer', () => ({}));
+
+describe('TodoBatchService - 배치 생성/수정/삭제 테스트 스위트', () => {
+  let service: TodoBatchService;
+  let mockTodoService: any;
+  let mockRepository: any;
+  let mockBatchWriter: { batchWriteTodos: ReturnType<typeof vi.fn> };
+  let mockLogger: Logger;
+
+  const authContext = createAuthContext({ userId: 'user-1' });
+
+  beforeEach(() => {
+    mockTodoService = createMockTodoService();
+    mockTodoService.validatePermissions.mockResolvedValue(undefined);
+    mockRepository = createMockTodoRepository();
+    mockRepository.findById.mockResolvedValue(null);
+    mockRepository.findAll.mockResolvedValue({ items: [], count: 0, scannedCount: 0 });
+    mockBatchWriter = {
+      batchWriteTodos: vi.fn().mockImplementation(async operations => ({
+        successCount: operations.length,
+        failedItems: [],
+        unprocessedIndexes: [],
+        unwrittenTodoIndexes: [],
+      })),
+    };
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    service = new TodoBatchService(
+      mockTodoService as unknown as ITodoService,
+      mockRepository as unknown as TodoRepository,
+      mockBatchWriter,
+      mockLogger
+    );
+  });
+
+  it('should write creates in one batch, move deletes to trash and return results in request order', async () => {
+    // When
+    const result = await service.executeBatch(authContext, [
+      { action: 'create', id: 'todo-1', data: { title: '새 할일', tags: ['업무'] } },
+      { action: 'delete', id: 'todo-2' },
+    ]);
+
+    // Then
+    expect(mockBatchWriter.batchWriteTodos).toHaveBeenCalledWith([
+      {
+        action: 'PUT',
+        todo: expect.objectContaining({
+          id: 'todo-1',
+          userId: 'user-1',
+          title: '새 할일',
+          completed: false,
+          priority: 'medium',
+        }),
+      },
+    ]);
+    // 삭제는 단건 삭제와 같은 경로(휴지통 트랜잭션, 태그 정리, 활동 기록)로 처리
+    expect(mockTodoService.deleteTodo).toHaveBeenCalledWith(authContext, 'todo-2', {});
+    expect(result.successCount).toBe(2);
+    expect(result.results.map(r => [r.index, r.action, r.id, r.success])).toEqual([
+      [0, 'create', 'todo-1', true],
+      [1, 'delete', 'todo-2', true],
+    ]);
+    expect(result.results[0].todo).toEqual(expect.objectContaining({ title: '새 할일' }));
+  });
+
+  it('should report invalid, duplicate and missing operations without stopping the batch', async () => {
+    // Given
+    mockTodoService.deleteTodo.mockRejectedValue(new ItemNotFoundError('Todo', 'todo-9'));
+
+    // When
+    const result = await service.executeBatch(authContext, [
+      { action: 'create', data: { title: '' } },
+      { action: 'archive', id: 'todo-1' },
+      { action: 'create', id: 'todo-1', data: { title: '첫 번째' } },
+      { action: 'create', id: 'todo-1', data: { title: '중복' } },
+      { action: 'delete', id: 'todo-9' },
+    ]);
+
+    // Then
+    expect(result.results.map(r => r.error?.code ?? 'OK')).toEqual([
+      'VALIDATION_ERROR',
+      'VALIDATION_ERROR',
+      'OK',
+      'DUPLICATE_ID',
+      'NOT_FOUND',
+    ]);
+    expect(result.results[1]).toEqual(expect.objectContaining({ action: 'unknown', id: 'todo-1' }));
+    expect(mockBatchWriter.batchWriteTodos).toHaveBeenCalledWith([
+      expect.objectContaining({ action: 'PUT' }),
+    ]);
+  });
+
+  it('should mark unprocessed writes as retryable', async () => {
+    // Given
+    mockBatchWriter.batchWriteTodos.mockResolvedValue({
+      successCount: 1,
+      failedItems: [{}],
+      unprocessedIndexes: [1],
+      unwrittenTodoIndexes: [1],
+    });
+
+    // When
+    const result = await service.executeBatch(authContext, [
+      { action: 'create', data: { title: '첫 번째' } },
+      { action: 'create', data: { title: '두 번째' } },
+    ]);
+
+    // Then
+    expect(result.successCount).toBe(1);
+    expect(result.results[1]).toEqual(
+      expect.objectContaining({
+        success: false,
+        error: expect.objectContaining({ code: 'UNPROCESSED', retryable: true }),
+      })
+    );
+  });
+
+  it('should send every create field and record activity for saved todos', async () => {
+    // Given - 두 번째 Todo는 태그 아이템만, 세 번째 Todo는 Todo 아이템도 처리되지 않음
+    mockBatchWriter.batchWriteTodos.mockResolvedValue({
+      successCount: 1,
+      failedItems: [{}, {}],
+      unprocessedIndexes: [1, 2],
+      unwrittenTodoIndexes: [2],
+    });
+
+    // When
+    await service.executeBatch(authContext, [
+      {
+        action: 'create',
+        id: 'todo-1',
+        data: {
+          title: '주간 회의',
+          dueDate: '2024-03-04T00:00:00.000Z',
+          tags: ['업무'],
+          recurrence: 'FREQ=WEEKLY;BYDAY=MO',
+          timeZone: 'Asia/Seoul',
+          rank: 'a0V',
+        },
+      },
+      { action: 'create', id: 'todo-2', data: { title: '두 번째', tags: ['업무'] } },
+      { action: 'create', id: 'todo-3', data: { title: '세 번째' } },
+    ]);
+
+    // Then
+    const [operations] = mockBatchWriter.batchWriteTodos.mock.calls[0];
+    expect(operations[0].todo).toEqual(
+      expect.objectContaining({
+        dueDate: '2024-03-04T00:00:00.000Z',
+        tags: ['업무'],
+        recurrence: 'FREQ=WEEKLY;BYDAY=MO',
+        timeZone: 'Asia/Seoul',
+        rank: 'a0V',
+      })
+    );
+    expect(mockTodoService.recordCreated.mock.calls.map(([, todo]) => todo.id)).toEqual([
+      'todo-1',
+      'todo-2',
+    ]);
+  });
+
+  it('should complete the tag items of an existing todo and return its server copy', async () => {
+    // Given - 이전 요청에서 Todo 아이템만 저장됨
+    const existing = {
+      ...createDynamoTodoItem({ userId: 'user-1', todoId: 'todo-1' }),
+      tags: ['업무'],
+    };
+    mockRepository.findById.mockResolvedValue(existing);
+
+    // When
+    const result = await service.executeBatch(authContext, [
+      { action: 'create', id: 'todo-1', data: { title: '새 할일', tags: ['업무'] } },
+    ]);
+
+    // Then
+    expect(mockBatchWriter.batchWriteTodos).not.toHaveBeenCalled();
+    expect(mockRepository.replaceTags).toHaveBeenCalledWith(existing, [], ['업무']);
+    expect(result.results[0]).toEqual(
+      expect.objectContaining({
+        success: false,
+        error: expect.objectContaining({ code: 'ALREADY_EXISTS', retryable: false }),
+        todo: expect.objectContaining({ id: 'todo-1', tags: ['업무'] }),
+      })
+    );
+    expect(mockTodoService.recordCreated).not.toHaveBeenCalled();
+  });
+
+  it('should reject creates beyond the guest limit', async () => {
+    // Given
+    const guestContext = createAuthContext({ userType: 'guest' });
+    guestContext.permissions.maxItems = 3;
+    mockRepository.findAll.mockResolvedValue({ items: [], count: 2, scannedCount: 2 });
+
+    // When
+    const result = await service.executeBatch(guestContext, [
+      { action: 'create', data: { title: '첫 번째' } },
+      { action: 'create', data: { title: '두 번째' } },
+    ]);
+
+    // Then
+    expect(result.results[0].success).toBe(true);
+    expect(result.results[1].error).toEqual({
+      code: 'LIMIT_EXCEEDED',
+      message: 'Guest users can only create up to 3 todos',
+      retryable: false,
+    });
+  });
+
+  it('should reject actions the user has no permission for', async () => {
+    // Given
+    mockTodoService.validatePermissions.mockImplementation(
+      async (_auth: unknown, action: string) => {
+        if (action === 'DELETE') {
+          throw new AuthError(
+            'DELETE_PERMISSION_DENIED',
+            'Insufficient permissions to delete todos'
+          );
+        }
+      }
+    );
+
+    // When
+    const result = await service.executeBatch(authContext, [
+      { action: 'create', data: { title: '할일' } },
+      { action: 'delete', id: 'todo-1' },
+    ]);
+
+    // Then
+    expect(result.results[0].success).toBe(true);
+    expect(result.results[1].error?.code).toBe('FORBIDDEN');
+    expect(mockRepository.findById).not.toHaveBeenCalledWith('user-1', 'todo-1');
+  });
+
+  it('should apply every operation to the project todos when a project is given', async () => {
+    // Given
+    mockTodoService.updateTodo.mockResolvedValue({
+      ...createDynamoTodoItem({ userId: 'user-2', todoId: 'todo-3' }),
+      projectId: 'project-1',
+    });
+
+    // When
+    const result = await service.executeBatch(
+      authContext,
+      [
+        { action: 'create', id: 'todo-1', data: { title: '공유 할일' } },
+        { action: 'delete', id: 'todo-2' },
+        { action: 'update', id: 'todo-3', data: { completed: true } },
+      ],
+      { projectId: 'project-1' }
+    );
+
+    // Then
+    expect(result.successCount).toBe(3);
+    expect(mockTodoService.validatePermissions).toHaveBeenCalledWith(authContext, 'CREATE', {
+      projectId: 'project-1',
+    });
+    expect(mockTodoService.validatePermissions).toHaveBeenCalledWith(authContext, 'DELETE', {
+      projectId: 'project-1',
+    });
+    expect(mockRepository.findById).toHaveBeenCalledWith('PROJECT#project-1', 'todo-1');
+    expect(mockBatchWriter.batchWriteTodos).toHaveBeenCalledWith([
+      {
+        action: 'PUT',
+        todo: expect.objectContaining({ id: 'todo-1', userId: 'user-1', projectId: 'project-1' }),
+      },
+    ]);
+    expect(mockTodoService.deleteTodo).toHaveBeenCalledWith(authContext, 'todo-2', {
+      projectId: 'project-1',
+    });
+    expect(mockTodoService.updateTodo).toHaveBeenCalledWith(
+      authContext,
+      'todo-3',
+      { completed: true },
+      { expectedVersion: undefined, projectId: 'project-1' }
+    );
+  });
+
+  it('should apply updates after the writes so a created todo can be updated in the same batch', async () => {
+    // Given
+    mockTodoService.updateTodo
+      .mockResolvedValueOnce(createDynamoTodoItem({ todoId: 'todo-1', completed: true }))
+      .mockRejectedValueOnce(new ItemNotFoundError('Todo', 'todo-9'));
+
+    // When
+    const result = await service.executeBatch(authContext, [
+      { action: 'update', id: 'todo-1', data: { completed: true } },
+      { action: 'create', id: 'todo-1', data: { title: '새 할일' } },
+      { action: 'update', id: 'todo-9', data: { title: '없는 할일' } },
+    ]);
+
+    // Then
+    expect(mockBatchWriter.batchWriteTodos.mock.invocationCallOrder[0]).toBeLessThan(
+      mockTodoService.updateTodo.mock.invocationCallOrder[0]
+    );
+    expect(mockTodoService.updateTodo).toHaveBeenCalledWith(
+      authContext,
+      'todo-1',
+      { completed: true },
+      { expectedVersion: undefined }
+    );
+    expect(result.results.map(r => r.error?.code ?? 'OK')).toEqual(['OK', 'OK', 'NOT_FOUND']);
+  });
+
+  it('should return the server copy when an update is based on an old version', async () => {
+    // Given
+    const current = {
+      ...createDynamoTodoItem({ todoId: 'todo-1', title: '서버 제목' }),
+      version: 4,
+    };
+    mockTodoService.updateTodo.mockRejectedValue(
+      new VersionConflictError('Todo', 'todo-1', 3, current)
+    );
+
+    // When
+    const result = await service.executeBatch(authContext, [
+      { action: 'update', id: 'todo-1', data: { title: '내 제목', expectedVersion: 3 } },
+    ]);
+
+    // Then
+    expect(mockTodoService.updateTodo).toHaveBeenCalledWith(
+      authContext,
+      'todo-1',
+      { title: '내 제목' },
+      { expectedVersion: 3 }
+    );
+    expect(result.results[0]).toEqual(
+      expect.objectContaining({
+        success: false,
+        error: expect.objectContaining({ code: 'VERSION_CONFLICT', retryable: false }),
+        todo: expect.objectContaining({ title: '서버 제목', version: 4 }),
+      })
+    );
+  });
+});
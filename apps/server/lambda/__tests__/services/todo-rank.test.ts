@@ -0,0 +1,182 @@
+/**
+ * TodoService 수동 정렬 테스트 스위트
+ * 생성 시 rank 지정, rank 순서 페이지네이션, 길어진 rank 다시 매기기 테스트
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { rankFromCreatedAt, RANK_REBALANCE_LENGTH } from '@vive/types';
+
+import { createAuthContext, createDynamoTodoItem } from '../helpers/test-factories';
+import { createMockTodoRepository } from '../helpers/mock-providers';
+import { MANUAL_SORT_ITEM_LIMIT, TodoService, type Logger } from '@/services/todo.service';
+import type { DynamoTodoItem } from '@/types/database.types';
+
+// TodoService가 불러오는 X-Ray SDK는 테스트 환경에서 로드하지 않고 추적 래퍼는 그대로 실행
+vi.mock('@/utils/xray-tracer', () => ({
+  traceAsyncWithMetrics: (_name: string, _type: string, fn: () => unknown) => fn(),
+  SubsystemType: { BUSINESS_LOGIC: 'business_logic' },
+  addUserInfo: vi.fn(),
+  addAnnotation: vi.fn(),
+}));
+
+describe('TodoService - 수동 정렬', () => {
+  let todoService: TodoService;
+  let mockTodoRepository: any;
+  let mockLogger: Logger;
+
+  const authContext = createAuthContext({ userId: 'user-1' });
+
+  const rankedTodo = (todoId: string, rank: string): DynamoTodoItem => ({
+    ...createDynamoTodoItem({ userId: 'user-1', todoId }),
+    rank,
+  });
+
+  // 같은 틈으로 계속 옮겨 길어진 rank
+  const longRank = `a${'0'.repeat(RANK_REBALANCE_LENGTH)}V`;
+
+  beforeEach(() => {
+    mockTodoRepository = createMockTodoRepository();
+    mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    todoService = new TodoService(mockTodoRepository, mockLogger);
+  });
+
+  it('should store a created-at rank so a new todo comes first', async () => {
+    // Given
+    mockTodoRepository.create.mockResolvedValue(createDynamoTodoItem({ userId: 'user-1' }));
+
+    // When
+    await todoService.createTodo(authContext, { title: '새 Todo' });
+    await todoService.createTodo(authContext, { title: '옮긴 Todo', rank: 'a0V' });
+
+    // Then - 먼저 만든 Todo보다 앞
+    const [[created], [ranked]] = mockTodoRepository.create.mock.calls;
+    const minuteAgo = new Date(Date.now() - 60 * 1000).toISOString();
+    expect(created.rank).toMatch(/^[0-9A-Za-z]{8}V$/);
+    expect(created.rank < rankFromCreatedAt(minuteAgo)).toBe(true);
+    expect(ranked.rank).toBe('a0V');
+  });
+
+  it('should sort every page by rank before paginating', async () => {
+    // Given - DynamoDB 페이지 순서(최신 순)와 rank 순서가 다름
+    const pages = [
+      [rankedTodo('todo-4', 'd'), rankedTodo('todo-2', 'b')],
+      [rankedTodo('todo-3', 'c'), rankedTodo('todo-1', 'a')],
+    ];
+    mockTodoRepository.findAll.mockImplementation(
+      async (_ownerId: string, options: { cursor?: string }) => {
+        const page = options.cursor ? pages[1] : pages[0];
+        return {
+          items: page,
+          count: page.length,
+          scannedCount: page.length,
+          cursor: options.cursor ? undefined : 'page-2',
+        };
+      }
+    );
+
+    // When
+    const first = await todoService.listTodos(authContext, { sortBy: 'manual', limit: 3 });
+    const second = await todoService.listTodos(authContext, {
+      sortBy: 'manual',
+      limit: 3,
+      cursor: first.cursor,
+    });
+
+    // Then
+    expect(first.items.map(todo => todo.id)).toEqual(['todo-1', 'todo-2', 'todo-3']);
+    expect(first.count).toBe(3);
+    expect(first.scannedCount).toBe(4);
+    expect(JSON.parse(first.cursor!)).toEqual({ rank: 'c', id: 'todo-3' });
+    expect(second.items.map(todo => todo.id)).toEqual(['todo-4']);
+    expect(second.cursor).toBeUndefined();
+    expect(mockTodoRepository.findAll).toHaveBeenCalledWith('user-1', { cursor: 'page-2' });
+  });
+
+  it.each([
+    ['without a rank', '{"PK":"USER#user-1"}'],
+    ['that is not JSON', 'not-a-cursor'],
+  ])('should reject a manual sort cursor %s', async (_case, cursor) => {
+    // Given
+    mockTodoRepository.findAll.mockResolvedValue({ items: [], count: 0, scannedCount: 0 });
+
+    // When & Then
+    await expect(
+      todoService.listTodos(authContext, { sortBy: 'manual', cursor })
+    ).rejects.toMatchObject({
+      message: 'Invalid manual sort cursor',
+      code: 'INVALID_CURSOR',
+      statusCode: 400,
+    });
+  });
+
+  it('should refuse manual sort for more todos than the limit', async () => {
+    // Given - 한 페이지씩 읽다가 한도를 넘으면 중단
+    const page = Array.from({ length: 400 }, (_, index) => rankedTodo(`todo-${index}`, 'a'));
+    mockTodoRepository.findAll.mockResolvedValue({
+      items: page,
+      count: page.length,
+      scannedCount: page.length,
+      cursor: 'next-page',
+    });
+
+    // When & Then
+    await expect(todoService.listTodos(authContext, { sortBy: 'manual' })).rejects.toMatchObject({
+      code: 'BUSINESS_RULE_VIOLATION',
+      details: { limit: MANUAL_SORT_ITEM_LIMIT },
+    });
+    expect(mockTodoRepository.findAll).toHaveBeenCalledTimes(
+      Math.ceil((MANUAL_SORT_ITEM_LIMIT + 1) / page.length)
+    );
+  });
+
+  it('should give every todo a short rank in the same order once a moved rank gets long', async () => {
+    // Given
+    const moved = rankedTodo('todo-moved', longRank);
+    const before = rankedTodo('todo-before', 'a');
+    const after = rankedTodo('todo-after', 'b');
+    mockTodoRepository.findById.mockResolvedValue({ ...moved, rank: 'c' });
+    mockTodoRepository.findAll.mockResolvedValue({ items: [after, moved, before], count: 3 });
+    mockTodoRepository.update.mockResolvedValue(moved);
+    mockTodoRepository.updateRank.mockImplementation(
+      async (_ownerId: string, todoId: string, rank: string) => ({
+        ...[moved, before, after].find(todo => todo.id === todoId),
+        rank,
+      })
+    );
+
+    // When
+    const result = await todoService.updateTodo(authContext, moved.id, { rank: longRank });
+
+    // Then - 옮긴 Todo만 일반 수정(버전 증가)하고, 나머지는 rank만 변경
+    expect(mockTodoRepository.update).toHaveBeenCalledTimes(1);
+    const rebalanced: [string, string, string][] = mockTodoRepository.updateRank.mock.calls;
+    expect(rebalanced.map(([, todoId]) => todoId)).toEqual([
+      'todo-before',
+      'todo-moved',
+      'todo-after',
+    ]);
+    const ranks = rebalanced.map(([, , rank]) => rank);
+    expect([...ranks].sort()).toEqual(ranks);
+    expect(ranks.every(rank => rank.length < RANK_REBALANCE_LENGTH)).toBe(true);
+    expect(result.rank).toBe(ranks[1]);
+  });
+
+  it('should keep the update when rebalancing the ranks fails', async () => {
+    // Given
+    const moved = rankedTodo('todo-moved', longRank);
+    mockTodoRepository.findById.mockResolvedValue(moved);
+    mockTodoRepository.update.mockResolvedValue(moved);
+    mockTodoRepository.findAll.mockRejectedValue(new Error('DynamoDB unavailable'));
+
+    // When
+    const result = await todoService.updateTodo(authContext, moved.id, { rank: longRank });
+
+    // Then
+    expect(result.rank).toBe(longRank);
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      'Failed to rebalance todo ranks',
+      expect.any(Error),
+      expect.objectContaining({ ownerId: 'user-1', rebalancedCount: 0 })
+    );
+  });
+});
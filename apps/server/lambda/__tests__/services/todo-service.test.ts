@@ -20,6 +20,14 @@ import {
 import { createMockTodoRepository } from '../helpers/mock-providers';
 import { TodoService, Logger } from '@/services/todo.service';
 
+// TodoService가 불러오는 X-Ray SDK는 테스트 환경에서 로드하지 않고 추적 래퍼는 그대로 실행
+vi.mock('@/utils/xray-tracer', () => ({
+  traceAsyncWithMetrics: (_name: string, _type: string, fn: () => unknown) => fn(),
+  SubsystemType: { BUSINESS_LOGIC: 'business_logic' },
+  addUserInfo: vi.fn(),
+  addAnnotation: vi.fn(),
+}));
+
 describe('TodoService - TDD 테스트 스위트', () => {
   let service: TodoService;
   let mockRepository: any;
@@ -45,9 +53,9 @@ describe('TodoService - TDD 테스트 스위트', () => {
       const request = createCreateTodoRequest();
 
       // When & Then
-      await expect(service.createTodo(authContext, request)).rejects.toThrow(
-        'CREATE_PERMISSION_DENIED'
-      );
+      await expect(service.createTodo(authContext, request)).rejects.toMatchObject({
+        code: 'CREATE_PERMISSION_DENIED',
+      });
     });
 
     // GREEN: 테스트를 통과하는 최소 구현
@@ -144,6 +152,21 @@ describe('TodoService - TDD 테스트 스위트', () => {
       );
     });
 
+    it('should pass the due date to the repository', async () => {
+      // Given
+      const authContext = createAuthContext();
+      const request = { ...createCreateTodoRequest(), dueDate: '2024-03-11T03:00:00.000Z' };
+      mockRepository.create.mockResolvedValue(createDynamoTodoItem());
+
+      // When
+      await service.createTodo(authContext, request);
+
+      // Then
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ dueDate: '2024-03-11T03:00:00.000Z' })
+      );
+    });
+
     it('should use default priority when not specified', async () => {
       // Given
       const authContext = createAuthContext();
@@ -165,6 +188,53 @@ describe('TodoService - TDD 테스트 스위트', () => {
         })
       );
     });
+
+    it('should persist description and tags', async () => {
+      // Given
+      const authContext = createAuthContext();
+      const request = createCreateTodoRequest({
+        description: '회의 자료 준비',
+        tags: ['업무', '회의'],
+      });
+      mockRepository.create.mockResolvedValue(createDynamoTodoItem());
+
+      // When
+      await service.createTodo(authContext, request);
+
+      // Then
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          description: '회의 자료 준비',
+          tags: ['업무', '회의'],
+        })
+      );
+    });
+
+    it('should index tags of created todo', async () => {
+      // Given
+      const authContext = createAuthContext();
+      const request = createCreateTodoRequest({ tags: ['업무'] });
+      const createdTodo = { ...createDynamoTodoItem(), tags: ['업무'] };
+      mockRepository.create.mockResolvedValue(createdTodo);
+
+      // When
+      await service.createTodo(authContext, request);
+
+      // Then
+      expect(mockRepository.replaceTags).toHaveBeenCalledWith(createdTodo, [], ['업무']);
+    });
+
+    it('should not touch tag index when todo has no tags', async () => {
+      // Given
+      const authContext = createAuthContext();
+      mockRepository.create.mockResolvedValue(createDynamoTodoItem());
+
+      // When
+      await service.createTodo(authContext, createCreateTodoRequest());
+
+      // Then
+      expect(mockRepository.replaceTags).not.toHaveBeenCalled();
+    });
   });
 
   describe('getTodoById() - 조회 및 권한 검증', () => {
@@ -228,9 +298,9 @@ describe('TodoService - TDD 테스트 스위트', () => {
       const todoId = generateTestId('todo');
 
       // When & Then
-      await expect(service.getTodoById(authContext, todoId)).rejects.toThrow(
-        'read_PERMISSION_DENIED'
-      );
+      await expect(service.getTodoById(authContext, todoId)).rejects.toMatchObject({
+        code: 'read_PERMISSION_DENIED',
+      });
     });
   });
 
@@ -398,6 +468,192 @@ describe('TodoService - TDD 테스트 스위트', () => {
         })
       );
     });
+
+    it('should list todos by tag and apply status filter', async () => {
+      // Given
+      const authContext = createAuthContext();
+      const activeTodo = createDynamoTodoItem({ userId: authContext.userId, completed: false });
+      const completedTodo = createDynamoTodoItem({ userId: authContext.userId, completed: true });
+
+      mockRepository.findByTag.mockResolvedValue({
+        items: [activeTodo, completedTodo],
+        count: 2,
+        scannedCount: 2,
+      });
+
+      // When
+      const result = await service.listTodos(authContext, { tag: '업무', status: 'active' });
+
+      // Then
+      expect(mockRepository.findByTag).toHaveBeenCalledWith(
+        authContext.userId,
+        '업무',
+        expect.any(Object)
+      );
+      expect(mockRepository.findAll).not.toHaveBeenCalled();
+      expect(mockRepository.findByStatus).not.toHaveBeenCalled();
+      expect(result.items).toEqual([activeTodo]);
+      expect(result.count).toBe(1);
+    });
+
+    it('should search todos by title prefix when q is given', async () => {
+      // Given
+      const authContext = createAuthContext();
+      const todo = createDynamoTodoItem({ userId: authContext.userId, title: '장보기' });
+
+      mockRepository.searchByTitle.mockResolvedValue({
+        items: [todo],
+        count: 1,
+        scannedCount: 1,
+        cursor: 'next-cursor',
+      });
+
+      // When
+      const result = await service.listTodos(authContext, { q: '장', limit: 10 });
+
+      // Then
+      expect(mockRepository.searchByTitle).toHaveBeenCalledWith(
+        authContext.userId,
+        '장',
+        expect.objectContaining({ limit: 10, match: 'prefix' })
+      );
+      expect(mockRepository.findAll).not.toHaveBeenCalled();
+      expect(result.items).toEqual([todo]);
+      expect(result.cursor).toBe('next-cursor');
+    });
+
+    it('should apply tag and priority filters to substring search results', async () => {
+      // Given
+      const authContext = createAuthContext();
+      const matching = {
+        ...createDynamoTodoItem({ userId: authContext.userId, priority: Priority.HIGH }),
+        tags: ['업무'],
+      };
+      const otherTag = {
+        ...createDynamoTodoItem({ userId: authContext.userId, priority: Priority.HIGH }),
+        tags: ['개인'],
+      };
+      const otherPriority = {
+        ...createDynamoTodoItem({ userId: authContext.userId, priority: Priority.LOW }),
+        tags: ['업무'],
+      };
+
+      mockRepository.searchByTitle.mockResolvedValue({
+        items: [matching, otherTag, otherPriority],
+        count: 3,
+        scannedCount: 3,
+      });
+
+      // When
+      const result = await service.listTodos(authContext, {
+        q: '보고',
+        match: 'substring',
+        tag: '업무',
+        priority: Priority.HIGH,
+      });
+
+      // Then
+      expect(mockRepository.searchByTitle).toHaveBeenCalledWith(
+        authContext.userId,
+        '보고',
+        expect.objectContaining({ match: 'substring' })
+      );
+      expect(mockRepository.findByTag).not.toHaveBeenCalled();
+      expect(result.items).toEqual([matching]);
+      expect(result.count).toBe(1);
+    });
+
+    it('should query the due date index for due views in the given time zone', async () => {
+      // Given
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-03-10T15:30:00.000Z')); // 서울 기준 3월 11일 00:30
+      const authContext = createAuthContext();
+      const todo = {
+        ...createDynamoTodoItem({ userId: authContext.userId }),
+        dueDate: '2024-03-11T03:00:00.000Z',
+      };
+
+      mockRepository.findByDueDate.mockResolvedValue({ items: [todo], count: 1, scannedCount: 1 });
+
+      // When
+      const result = await service.listTodos(authContext, {
+        due: 'today',
+        timeZone: 'Asia/Seoul',
+      });
+
+      // Then
+      expect(mockRepository.findByDueDate).toHaveBeenCalledWith(
+        authContext.userId,
+        { from: '2024-03-10T15:00:00.000Z', to: '2024-03-11T14:59:59.999Z' },
+        expect.any(Object)
+      );
+      expect(mockRepository.findAll).not.toHaveBeenCalled();
+      expect(result.items).toEqual([todo]);
+      vi.useRealTimers();
+    });
+
+    it('should exclude completed todos from the overdue view', async () => {
+      // Given
+      const authContext = createAuthContext();
+      const overdue = {
+        ...createDynamoTodoItem({ userId: authContext.userId, completed: false }),
+        dueDate: '2020-01-01T00:00:00.000Z',
+      };
+      const done = {
+        ...createDynamoTodoItem({ userId: authContext.userId, completed: true }),
+        dueDate: '2020-01-01T00:00:00.000Z',
+      };
+
+      mockRepository.findByDueDate.mockResolvedValue({
+        items: [overdue, done],
+        count: 2,
+        scannedCount: 2,
+      });
+
+      // When
+      const result = await service.listTodos(authContext, { due: 'overdue' });
+
+      // Then
+      expect(result.items).toEqual([overdue]);
+      expect(result.count).toBe(1);
+    });
+  });
+
+  describe('listTags() - 태그별 사용 횟수', () => {
+    it('should return tag usage of the user', async () => {
+      // Given
+      const authContext = createAuthContext();
+      const usage = [
+        { tag: '업무', count: 3 },
+        { tag: '개인', count: 1 },
+      ];
+      mockRepository.listTagUsage.mockResolvedValue(usage);
+
+      // When
+      const result = await service.listTags(authContext);
+
+      // Then
+      expect(result).toEqual(usage);
+      expect(mockRepository.listTagUsage).toHaveBeenCalledWith(authContext.userId, {
+        sessionId: undefined,
+      });
+    });
+
+    it('should only count tags of the current guest session', async () => {
+      // Given
+      const guestAuthContext = createAuthContext({
+        userType: 'guest',
+        sessionId: 'session-1',
+      });
+
+      // When
+      await service.listTags(guestAuthContext);
+
+      // Then
+      expect(mockRepository.listTagUsage).toHaveBeenCalledWith(guestAuthContext.userId, {
+        sessionId: 'session-1',
+      });
+    });
   });
 
   describe('updateTodo() - 업데이트 및 권한 검증', () => {
@@ -430,7 +686,8 @@ describe('TodoService - TDD 테스트 스위트', () => {
       expect(mockRepository.update).toHaveBeenCalledWith(
         authContext.userId,
         todoId,
-        expect.objectContaining(updateRequest)
+        expect.objectContaining(updateRequest),
+        { expectedVersion: undefined }
       );
       expect(mockLogger.info).toHaveBeenCalledWith(
         'Todo updated',
@@ -473,9 +730,163 @@ describe('TodoService - TDD 테스트 스위트', () => {
       await service.updateTodo(authContext, todoId, updateRequest);
 
       // Then
-      expect(mockRepository.update).toHaveBeenCalledWith(authContext.userId, todoId, {
-        title: 'Updated Title',
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        authContext.userId,
+        todoId,
+        {
+          title: 'Updated Title',
+        },
+        { expectedVersion: undefined }
+      );
+    });
+
+    it('should update description and replace tags', async () => {
+      // Given
+      const authContext = createAuthContext();
+      const todoId = generateTestId('todo');
+      const existingTodo = createDynamoTodoItem({ userId: authContext.userId, todoId });
+
+      mockRepository.findById.mockResolvedValue(existingTodo);
+      mockRepository.update.mockResolvedValue(existingTodo);
+
+      // When
+      await service.updateTodo(authContext, todoId, { description: '', tags: ['개인'] });
+
+      // Then
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        authContext.userId,
+        todoId,
+        {
+          description: '',
+          tags: ['개인'],
+        },
+        { expectedVersion: undefined }
+      );
+    });
+
+    it('should replace tag index with previous tags of the todo', async () => {
+      // Given
+      const authContext = createAuthContext();
+      const todoId = generateTestId('todo');
+      const existingTodo = {
+        ...createDynamoTodoItem({ userId: authContext.userId, todoId }),
+        tags: ['업무', '회의'],
+      };
+      const updatedTodo = { ...existingTodo, tags: ['업무', '개인'] };
+
+      mockRepository.findById.mockResolvedValue(existingTodo);
+      mockRepository.update.mockResolvedValue(updatedTodo);
+
+      // When
+      await service.updateTodo(authContext, todoId, { tags: ['업무', '개인'] });
+
+      // Then
+      expect(mockRepository.replaceTags).toHaveBeenCalledWith(
+        updatedTodo,
+        ['업무', '회의'],
+        ['업무', '개인']
+      );
+    });
+
+    it('should keep tag index when tags are not updated', async () => {
+      // Given
+      const authContext = createAuthContext();
+      const todoId = generateTestId('todo');
+      const existingTodo = createDynamoTodoItem({ userId: authContext.userId, todoId });
+
+      mockRepository.findById.mockResolvedValue(existingTodo);
+      mockRepository.update.mockResolvedValue(existingTodo);
+
+      // When
+      await service.updateTodo(authContext, todoId, { completed: true });
+
+      // Then
+      expect(mockRepository.replaceTags).not.toHaveBeenCalled();
+    });
+
+    it('should create the next occurrence when a recurring todo is completed', async () => {
+      // Given
+      const authContext = createAuthContext();
+      const todoId = generateTestId('todo');
+      const existingTodo = {
+        ...createDynamoTodoItem({ userId: authContext.userId, todoId }),
+        dueDate: '2024-01-01T09:00:00.000Z', // 월요일
+        recurrence: 'FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3',
+      };
+      const completedTodo = { ...existingTodo, completed: true };
+      const nextTodo = createDynamoTodoItem({ userId: authContext.userId });
+
+      mockRepository.findById.mockResolvedValue(existingTodo);
+      mockRepository.update
+        .mockResolvedValueOnce(completedTodo)
+        .mockResolvedValueOnce({ ...completedTodo, nextOccurrenceId: nextTodo.id });
+      mockRepository.create.mockResolvedValue(nextTodo);
+
+      // When
+      const result = await service.updateTodo(authContext, todoId, { completed: true });
+
+      // Then
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: existingTodo.title,
+          completed: false,
+          dueDate: '2024-01-03T09:00:00.000Z',
+          recurrence: 'FREQ=WEEKLY;BYDAY=MO,WE;COUNT=2',
+        })
+      );
+      expect(mockRepository.update).toHaveBeenLastCalledWith(authContext.userId, todoId, {
+        nextOccurrenceId: nextTodo.id,
       });
+      expect(result.nextOccurrenceId).toBe(nextTodo.id);
+    });
+
+    it('should compute the next occurrence in the stored time zone', async () => {
+      // Given - 서울 월요일 08:00 (UTC로는 일요일)
+      const authContext = createAuthContext();
+      const todoId = generateTestId('todo');
+      const existingTodo = {
+        ...createDynamoTodoItem({ userId: authContext.userId, todoId }),
+        dueDate: '2024-01-07T23:00:00.000Z',
+        recurrence: 'FREQ=WEEKLY;BYDAY=MO,WE',
+        timeZone: 'Asia/Seoul',
+      };
+      const completedTodo = { ...existingTodo, completed: true };
+      const nextTodo = createDynamoTodoItem({ userId: authContext.userId });
+
+      mockRepository.findById.mockResolvedValue(existingTodo);
+      mockRepository.update.mockResolvedValue(completedTodo);
+      mockRepository.create.mockResolvedValue(nextTodo);
+
+      // When
+      await service.updateTodo(authContext, todoId, { completed: true });
+
+      // Then - 서울 수요일 08:00, 다음 회차도 같은 시간대 유지
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          dueDate: '2024-01-09T23:00:00.000Z',
+          timeZone: 'Asia/Seoul',
+        })
+      );
+    });
+
+    it('should not create another occurrence when one already exists', async () => {
+      // Given
+      const authContext = createAuthContext();
+      const todoId = generateTestId('todo');
+      const existingTodo = {
+        ...createDynamoTodoItem({ userId: authContext.userId, todoId }),
+        recurrence: 'FREQ=DAILY',
+        nextOccurrenceId: generateTestId('todo'),
+      };
+
+      mockRepository.findById.mockResolvedValue(existingTodo);
+      mockRepository.update.mockResolvedValue({ ...existingTodo, completed: true });
+
+      // When
+      await service.updateTodo(authContext, todoId, { completed: true });
+
+      // Then
+      expect(mockRepository.create).not.toHaveBeenCalled();
     });
   });
 
@@ -496,7 +907,9 @@ describe('TodoService - TDD 테스트 스위트', () => {
       await service.deleteTodo(authContext, todoId);
 
       // Then
-      expect(mockRepository.delete).toHaveBeenCalledWith(authContext.userId, todoId);
+      expect(mockRepository.delete).toHaveBeenCalledWith(authContext.userId, todoId, {
+        deletedBy: authContext.userId,
+      });
       expect(mockLogger.info).toHaveBeenCalledWith(
         'Todo deleted',
         expect.objectContaining({
@@ -516,6 +929,25 @@ describe('TodoService - TDD 테스트 스위트', () => {
       // When & Then
       await expect(service.deleteTodo(authContext, todoId)).rejects.toThrow(ItemNotFoundError);
     });
+
+    it('should remove tag index of deleted todo', async () => {
+      // Given
+      const authContext = createAuthContext();
+      const todoId = generateTestId('todo');
+      const existingTodo = {
+        ...createDynamoTodoItem({ userId: authContext.userId, todoId }),
+        tags: ['업무'],
+      };
+
+      mockRepository.findById.mockResolvedValue(existingTodo);
+      mockRepository.delete.mockResolvedValue(undefined);
+
+      // When
+      await service.deleteTodo(authContext, todoId);
+
+      // Then
+      expect(mockRepository.replaceTags).toHaveBeenCalledWith(existingTodo, ['업무'], []);
+    });
   });
 
   describe('validatePermissions() - 권한 검증', () => {
@@ -526,9 +958,9 @@ describe('TodoService - TDD 테스트 스위트', () => {
       });
 
       // When & Then
-      await expect(service.validatePermissions(authContext, 'CREATE')).rejects.toThrow(
-        'CREATE_PERMISSION_DENIED'
-      );
+      await expect(service.validatePermissions(authContext, 'CREATE')).rejects.toMatchObject({
+        code: 'CREATE_PERMISSION_DENIED',
+      });
     });
 
     it('should validate READ permission', async () => {
@@ -538,9 +970,9 @@ describe('TodoService - TDD 테스트 스위트', () => {
       });
 
       // When & Then
-      await expect(service.validatePermissions(authContext, 'READ')).rejects.toThrow(
-        'read_PERMISSION_DENIED'
-      );
+      await expect(service.validatePermissions(authContext, 'READ')).rejects.toMatchObject({
+        code: 'read_PERMISSION_DENIED',
+      });
     });
 
     it('should validate UPDATE permission', async () => {
@@ -550,9 +982,9 @@ describe('TodoService - TDD 테스트 스위트', () => {
       });
 
       // When & Then
-      await expect(service.validatePermissions(authContext, 'UPDATE')).rejects.toThrow(
-        'UPDATE_PERMISSION_DENIED'
-      );
+      await expect(service.validatePermissions(authContext, 'UPDATE')).rejects.toMatchObject({
+        code: 'UPDATE_PERMISSION_DENIED',
+      });
     });
 
     it('should validate DELETE permission', async () => {
@@ -562,9 +994,9 @@ describe('TodoService - TDD 테스트 스위트', () => {
       });
 
       // When & Then
-      await expect(service.validatePermissions(authContext, 'DELETE')).rejects.toThrow(
-        'DELETE_PERMISSION_DENIED'
-      );
+      await expect(service.validatePermissions(authContext, 'DELETE')).rejects.toMatchObject({
+        code: 'DELETE_PERMISSION_DENIED',
+      });
     });
 
     it('should throw error for unknown action', async () => {
@@ -0,0 +1,180 @@
+/**
+ * TodoSyncService 테스트 스위트
+ * 전체 목록 페이지와 변경 토큰 발급, 토큰 이후 변경과 삭제 묘비 조회, 토큰 검증 테스트
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { createAuthContext, createDynamoTodoItem } from '../helpers/test-factories';
+import { createMockTodoRepository, createMockTodoService } from '../helpers/mock-providers';
+import { TodoSyncService, TodoSyncError } from '@/services/todo-sync.service';
+import type { ITodoService, Logger, TodoRepository } from '@/services/todo.service';
+import type { DynamoTodoTombstoneItem } from '@/types/database.types';
+
+// TodoService의 추적 유틸리티는 이 테스트에서 사용하지 않음 (TodoService는 mock으로 대체)
+vi.mock('@/utils/xray-tracer', () => ({}));
+
+// 토큰 내용 확인용 (토큰은 클라이언트에게 불투명한 문자열)
+function decodeToken(token: string): { after: string; cursor?: string } {
+  return JSON.parse(Buffer.from(token, 'base64url').toString('utf-8'));
+}
+
+function encodeToken(token: { after: string; cursor?: string }): string {
+  return Buffer.from(JSON.stringify(token)).toString('base64url');
+}
+
+function createTombstone(todoId: string, deletedAt: string): DynamoTodoTombstoneItem {
+  return {
+    PK: 'USER#user-1',
+    SK: `TOMBSTONE#${todoId}`,
+    EntityType: 'TODO_TOMBSTONE',
+    GSI4PK: 'USER#user-1',
+    GSI4SK: `CHANGE#${deletedAt}#${todoId}`,
+    todoId,
+    userId: 'user-1',
+    deletedAt,
+    ttl: 0,
+  };
+}
+
+describe('TodoSyncService - 변경 조회 테스트 스위트', () => {
+  let service: TodoSyncService;
+  let mockTodoService: any;
+  let mockRepository: any;
+  let mockLogger: Logger;
+
+  const authContext = createAuthContext({ userId: 'user-1' });
+
+  beforeEach(() => {
+    mockTodoService = createMockTodoService();
+    mockTodoService.validatePermissions.mockResolvedValue(undefined);
+    mockRepository = createMockTodoRepository();
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    service = new TodoSyncService(
+      mockTodoService as unknown as ITodoService,
+      mockRepository as unknown as TodoRepository,
+      mockLogger
+    );
+  });
+
+  it('should return the full list page by page when no token is given', async () => {
+    // Given
+    mockTodoService.listTodos
+      .mockResolvedValueOnce({
+        items: [createDynamoTodoItem({ todoId: 'todo-1' })],
+        count: 1,
+        scannedCount: 1,
+        cursor: 'next-page',
+      })
+      .mockResolvedValueOnce({
+        items: [createDynamoTodoItem({ todoId: 'todo-2' })],
+        count: 1,
+        scannedCount: 1,
+      });
+
+    // When
+    const first = await service.getChanges(authContext, {});
+    const second = await service.getChanges(authContext, { since: first.token });
+
+    // Then
+    expect(first).toEqual(expect.objectContaining({ fullSync: true, hasMore: true, deleted: [] }));
+    expect(first.todos.map(todo => todo.id)).toEqual(['todo-1']);
+    expect(mockTodoService.listTodos).toHaveBeenLastCalledWith(authContext, {
+      limit: 100,
+      cursor: 'next-page',
+    });
+    expect(second).toEqual(expect.objectContaining({ fullSync: true, hasMore: false }));
+    // 전체 목록을 다 받으면 첫 페이지 시점부터 증분 조회
+    expect(decodeToken(second.token)).toEqual({ after: decodeToken(first.token).after });
+    expect(mockRepository.findChanges).not.toHaveBeenCalled();
+  });
+
+  it('should return changed todos and tombstones after the token position', async () => {
+    // Given
+    const after = new Date(Date.now() - 60 * 1000).toISOString();
+    const updatedAt = new Date(Date.now() - 30 * 1000).toISOString();
+    mockRepository.findChanges.mockResolvedValue({
+      items: [
+        { ...createDynamoTodoItem({ todoId: 'todo-1' }), updatedAt, version: 2 },
+        createTombstone('todo-2', updatedAt),
+      ],
+      count: 2,
+      scannedCount: 2,
+    });
+
+    // When
+    const result = await service.getChanges(authContext, { since: encodeToken({ after }) });
+
+    // Then
+    expect(mockRepository.findChanges).toHaveBeenCalledWith('user-1', after, { limit: 100 });
+    expect(result.todos).toEqual([expect.objectContaining({ id: 'todo-1', version: 2 })]);
+    expect(result.deleted).toEqual([{ id: 'todo-2', deletedAt: updatedAt }]);
+    expect(result).toEqual(expect.objectContaining({ fullSync: false, hasMore: false }));
+    expect(Date.parse(decodeToken(result.token).after)).toBeGreaterThan(Date.parse(after));
+  });
+
+  it('should read project changes from the project partition after checking membership', async () => {
+    // Given
+    const after = new Date(Date.now() - 60 * 1000).toISOString();
+    mockRepository.findChanges.mockResolvedValue({ items: [], count: 0, scannedCount: 0 });
+
+    // When
+    await service.getChanges(authContext, {
+      since: encodeToken({ after }),
+      projectId: 'project-1',
+    });
+
+    // Then
+    expect(mockTodoService.validatePermissions).toHaveBeenCalledWith(authContext, 'READ', {
+      projectId: 'project-1',
+    });
+    expect(mockRepository.findChanges).toHaveBeenCalledWith('PROJECT#project-1', after, {
+      limit: 100,
+    });
+  });
+
+  it('should continue right after the last change and keep only the latest change per todo', async () => {
+    // Given
+    const after = new Date(Date.now() - 60 * 1000).toISOString();
+    const deletedAt = new Date(Date.now() - 50 * 1000).toISOString();
+    const recreatedAt = new Date(Date.now() - 40 * 1000).toISOString();
+    const recreated = {
+      ...createDynamoTodoItem({ todoId: 'todo-1' }),
+      GSI4SK: `CHANGE#${recreatedAt}#todo-1`,
+    };
+    mockRepository.findChanges.mockResolvedValue({
+      items: [createTombstone('todo-1', deletedAt), recreated],
+      count: 2,
+      scannedCount: 2,
+      cursor: '{"PK":"USER#user-1"}',
+    });
+
+    // When
+    const result = await service.getChanges(authContext, {
+      since: encodeToken({ after }),
+      limit: 2,
+    });
+
+    // Then
+    expect(result.deleted).toEqual([]);
+    expect(result.todos.map(todo => todo.id)).toEqual(['todo-1']);
+    expect(result.hasMore).toBe(true);
+    expect(decodeToken(result.token)).toEqual({ after: `${recreatedAt}#todo-1` });
+  });
+
+  it('should reject malformed and expired tokens', async () => {
+    await expect(service.getChanges(authContext, { since: 'not-a-token' })).rejects.toThrow(
+      TodoSyncError
+    );
+
+    const expired = encodeToken({ after: '2020-01-01T00:00:00.000Z' });
+    await expect(service.getChanges(authContext, { since: expired })).rejects.toMatchObject({
+      code: 'CHANGE_TOKEN_EXPIRED',
+    });
+    expect(mockRepository.findChanges).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * TodoTransferService 테스트 스위트
+ * 내보내기 페이지 순회와 파일 형식, 가져오기 행 단위 검증과 ID 기준 중복 처리 테스트
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { createAuthContext, createDynamoTodoItem } from '../helpers/test-factories';
+import { createMockTodoService } from '../helpers/mock-providers';
+import {
+  TodoTransferService,
+  TodoTransferError,
+  MAX_IMPORT_ROWS,
+} from '@/services/todo-transfer.service';
+import type { ITodoService, Logger } from '@/services/todo.service';
+import { ItemNotFoundError } from '@/types/database.types';
+
+// data: URL에서 파일 내용 추출
+function decodeExportUrl(exportUrl: string): string {
+  return Buffer.from(exportUrl.split(',')[1], 'base64').toString('utf-8');
+}
+
+describe('TodoTransferService - 데이터 내보내기/가져오기 테스트 스위트', () => {
+  let service: TodoTransferService;
+  let mockTodoService: any;
+  let mockLogger: Logger;
+
+  const authContext = createAuthContext({ userId: 'user-1' });
+
+  beforeEach(() => {
+    mockTodoService = createMockTodoService();
+    mockTodoService.getTodoById.mockRejectedValue(new ItemNotFoundError('Todo', 'any'));
+    mockTodoService.createTodo.mockImplementation(async () => createDynamoTodoItem());
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    service = new TodoTransferService(mockTodoService as unknown as ITodoService, mockLogger);
+  });
+
+  describe('exportTodos()', () => {
+    it('should follow cursors and export every todo as JSON', async () => {
+      // Given
+      mockTodoService.listTodos
+        .mockResolvedValueOnce({
+          items: [createDynamoTodoItem({ todoId: 'todo-1', title: '첫 번째' })],
+          count: 1,
+          scannedCount: 1,
+          cursor: 'next',
+        })
+        .mockResolvedValueOnce({
+          items: [createDynamoTodoItem({ todoId: 'todo-2', title: '두 번째' })],
+          count: 1,
+          scannedCount: 1,
+        });
+
+      // When
+      const result = await service.exportTodos(authContext, 'json');
+
+      // Then
+      expect(mockTodoService.listTodos).toHaveBeenLastCalledWith(authContext, {
+        limit: 100,
+        cursor: 'next',
+      });
+      expect(result.totalItems).toBe(2);
+      expect(result.exportUrl).toMatch(/^data:application\/json;charset=utf-8;base64,/);
+
+      const exported = JSON.parse(decodeExportUrl(result.exportUrl));
+      expect(exported.map((todo: { id: string }) => todo.id)).toEqual(['todo-1', 'todo-2']);
+      expect(exported[0]).not.toHaveProperty('PK');
+    });
+
+    it('should export CSV with a header row and pipe-separated tags', async () => {
+      // Given
+      mockTodoService.listTodos.mockResolvedValue({
+        items: [
+          {
+            ...createDynamoTodoItem({ todoId: 'todo-1', title: '보고서, 초안' }),
+            tags: ['업무', '문서'],
+          },
+        ],
+        count: 1,
+        scannedCount: 1,
+      });
+
+      // When
+      const result = await service.exportTodos(authContext, 'csv');
+
+      // Then
+      const [header, row] = decodeExportUrl(result.exportUrl).replace('\uFEFF', '').split('\r\n');
+      expect(header).toBe(
+        'id,title,description,completed,priority,dueDate,tags,recurrence,createdAt,updatedAt'
+      );
+      expect(row).toContain('todo-1,"보고서, 초안"');
+      expect(row).toContain('업무|문서');
+    });
+  });
+
+  describe('importTodos()', () => {
+    it('should validate each row and report errors without stopping the import', async () => {
+      // When
+      const result = await service.importTodos(authContext, {
+        format: 'json',
+        todos: [{ title: '첫 번째' }, { title: '' }, { title: '세 번째', priority: 'urgent' }],
+      });
+
+      // Then
+      expect(result.importedCount).toBe(1);
+      expect(result.errors).toEqual([
+        expect.objectContaining({ row: 2, message: expect.stringContaining('title') }),
+        expect.objectContaining({ row: 3, message: expect.stringContaining('priority') }),
+      ]);
+      expect(mockTodoService.createTodo).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the original id and completed state of new rows', async () => {
+      // When
+      await service.importTodos(authContext, {
+        format: 'json',
+        todos: [{ id: 'todo-1', title: '완료한 일', completed: true, createdAt: 'ignored' }],
+      });
+
+      // Then
+      expect(mockTodoService.createTodo).toHaveBeenCalledWith(
+        authContext,
+        expect.objectContaining({ title: '완료한 일', priority: 'medium' }),
+        { todoId: 'todo-1', completed: true }
+      );
+    });
+
+    it('should import into the given project', async () => {
+      // When
+      await service.importTodos(
+        authContext,
+        { format: 'json', todos: [{ id: 'todo-1', title: '공유 할일' }] },
+        { projectId: 'project-1' }
+      );
+
+      // Then
+      expect(mockTodoService.getTodoById).toHaveBeenCalledWith(authContext, 'todo-1', {
+        projectId: 'project-1',
+      });
+      expect(mockTodoService.createTodo).toHaveBeenCalledWith(
+        authContext,
+        expect.objectContaining({ title: '공유 할일' }),
+        { todoId: 'todo-1', completed: false, projectId: 'project-1' }
+      );
+    });
+
+    it('should skip rows whose id already exists when merging', async () => {
+      // Given
+      mockTodoService.getTodoById.mockResolvedValue(createDynamoTodoItem({ todoId: 'todo-1' }));
+
+      // When
+      const result = await service.importTodos(authContext, {
+        format: 'json',
+        mergeStrategy: 'merge',
+        todos: [{ id: 'todo-1', title: '이미 있는 일' }],
+      });
+
+      // Then
+      expect(result).toEqual({ importedCount: 0, updatedCount: 0, skippedCount: 1, errors: [] });
+      expect(mockTodoService.createTodo).not.toHaveBeenCalled();
+      expect(mockTodoService.updateTodo).not.toHaveBeenCalled();
+    });
+
+    it('should overwrite existing todos with the row contents when replacing', async () => {
+      // Given
+      mockTodoService.getTodoById.mockResolvedValue(createDynamoTodoItem({ todoId: 'todo-1' }));
+
+      // When
+      const result = await service.importTodos(authContext, {
+        format: 'json',
+        mergeStrategy: 'replace',
+        todos: [{ id: 'todo-1', title: '바뀐 제목', completed: true }],
+      });
+
+      // Then
+      expect(result.updatedCount).toBe(1);
+      expect(mockTodoService.updateTodo).toHaveBeenCalledWith(
+        authContext,
+        'todo-1',
+        {
+          title: '바뀐 제목',
+          description: '',
+          priority: 'medium',
+          dueDate: null,
+          tags: [],
+          recurrence: null,
+          completed: true,
+        },
+        { projectId: undefined }
+      );
+    });
+
+    it('should map CSV columns by header name', async () => {
+      // When
+      const result = await service.importTodos(authContext, {
+        format: 'csv',
+        csv: '\uFEFFtags,title,completed,dueDate\r\n업무|문서,보고서,true,\r\n,메모,yes,',
+      });
+
+      // Then
+      expect(mockTodoService.createTodo).toHaveBeenCalledWith(
+        authContext,
+        expect.objectContaining({ title: '보고서', tags: ['업무', '문서'] }),
+        { todoId: undefined, completed: true }
+      );
+      expect(result.errors).toEqual([
+        expect.objectContaining({ row: 2, message: expect.stringContaining('completed') }),
+      ]);
+    });
+
+    it('should report service errors such as the guest limit per row', async () => {
+      // Given
+      mockTodoService.createTodo
+        .mockResolvedValueOnce(createDynamoTodoItem())
+        .mockRejectedValueOnce(new Error('Guest users can only create up to 1 todos'));
+
+      // When
+      const result = await service.importTodos(authContext, {
+        format: 'json',
+        todos: [{ title: '첫 번째' }, { id: 'todo-2', title: '두 번째' }],
+      });
+
+      // Then
+      expect(result.importedCount).toBe(1);
+      expect(result.errors).toEqual([
+        { row: 2, id: 'todo-2', message: 'Guest users can only create up to 1 todos' },
+      ]);
+    });
+
+    it('should reject CSV without a title column or with too many rows', async () => {
+      await expect(
+        service.importTodos(authContext, { format: 'csv', csv: 'name\n할일' })
+      ).rejects.toThrow(TodoTransferError);
+
+      const csv = ['title', ...Array.from({ length: MAX_IMPORT_ROWS + 1 }, (_, i) => `할일 ${i}`)];
+      await expect(
+        service.importTodos(authContext, { format: 'csv', csv: csv.join('\n') })
+      ).rejects.toThrow(`최대 ${MAX_IMPORT_ROWS}개`);
+      expect(mockTodoService.createTodo).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * TodoService 휴지통 테스트 스위트
+ * 삭제 시 휴지통 이동(배치 삭제 포함), 휴지통 조회, 복원, 영구 삭제 테스트
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { createAuthContext, createDynamoTodoItem } from '../helpers/test-factories';
+import {
+  createMockTodoActivityRepository,
+  createMockTodoRepository,
+} from '../helpers/mock-providers';
+import { AuthError, TodoService, type Logger } from '@/services/todo.service';
+import { TodoBatchService } from '@/services/todo-batch.service';
+import { ItemNotFoundError } from '@/types/database.types';
+
+// TodoService가 불러오는 X-Ray SDK는 테스트 환경에서 로드하지 않고 추적 래퍼는 그대로 실행
+vi.mock('@/utils/xray-tracer', () => ({
+  traceAsyncWithMetrics: (_name: string, _type: string, fn: () => unknown) => fn(),
+  SubsystemType: { BUSINESS_LOGIC: 'business_logic' },
+  addUserInfo: vi.fn(),
+  addAnnotation: vi.fn(),
+}));
+
+describe('TodoService - 휴지통', () => {
+  let todoService: TodoService;
+  let mockTodoRepository: any;
+  let mockActivityRepository: any;
+  let mockLogger: Logger;
+
+  const authContext = createAuthContext({ userId: 'user-1' });
+
+  const trashItem = (todoId: string, deletedAt: string) => ({
+    todoId,
+    todo: createDynamoTodoItem({ userId: 'user-1', todoId }),
+    checklist: [],
+    deletedAt,
+    deletedBy: 'user-1',
+    ttl: 1700000000,
+  });
+
+  beforeEach(() => {
+    mockTodoRepository = createMockTodoRepository();
+    mockActivityRepository = createMockTodoActivityRepository();
+    mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    todoService = new TodoService(
+      mockTodoRepository,
+      mockLogger,
+      undefined,
+      mockActivityRepository
+    );
+  });
+
+  it('should move the todo to trash with the deleting user', async () => {
+    // Given
+    const existing = createDynamoTodoItem({ userId: 'user-1', todoId: 'todo-1' });
+    mockTodoRepository.findById.mockResolvedValue(existing);
+    mockTodoRepository.delete.mockResolvedValue(undefined);
+
+    // When
+    await todoService.deleteTodo(authContext, 'todo-1');
+
+    // Then
+    expect(mockTodoRepository.delete).toHaveBeenCalledWith('user-1', 'todo-1', {
+      deletedBy: 'user-1',
+    });
+  });
+
+  it('should restore a todo deleted in a batch', async () => {
+    // Given - 저장소는 삭제하면 휴지통으로 옮기고 복원하면 되돌려 놓음
+    const existing = createDynamoTodoItem({ userId: 'user-1', todoId: 'todo-1' });
+    const todos = new Map([[existing.id, existing]]);
+    const trash = new Map<string, typeof existing>();
+    mockTodoRepository.findById.mockImplementation(
+      async (_ownerId: string, todoId: string) => todos.get(todoId) ?? null
+    );
+    mockTodoRepository.delete.mockImplementation(async (_ownerId: string, todoId: string) => {
+      trash.set(todoId, todos.get(todoId)!);
+      todos.delete(todoId);
+    });
+    mockTodoRepository.restore.mockImplementation(async (_ownerId: string, todoId: string) => {
+      const restored = trash.get(todoId);
+      if (!restored) throw new ItemNotFoundError('Todo', todoId);
+      todos.set(todoId, restored);
+      trash.delete(todoId);
+      return restored;
+    });
+    const batchService = new TodoBatchService(
+      todoService,
+      mockTodoRepository,
+      { batchWriteTodos: vi.fn() },
+      mockLogger
+    );
+
+    // When
+    const result = await batchService.executeBatch(authContext, [
+      { action: 'delete', id: 'todo-1' },
+    ]);
+    const restored = await todoService.restoreTodo(authContext, 'todo-1');
+
+    // Then
+    expect(result.successCount).toBe(1);
+    expect(restored).toBe(existing);
+    expect(todos.has('todo-1')).toBe(true);
+    expect(mockActivityRepository.append.mock.calls.map(([, entry]) => entry.action)).toEqual([
+      'DELETED',
+      'RESTORED',
+    ]);
+  });
+
+  it('should list trash most recently deleted first', async () => {
+    // Given
+    mockTodoRepository.findTrash.mockResolvedValue({
+      items: [
+        trashItem('todo-a', '2026-01-01T00:00:00.000Z'),
+        trashItem('todo-b', '2026-01-03T00:00:00.000Z'),
+      ],
+      count: 2,
+      scannedCount: 2,
+    });
+
+    // When
+    const result = await todoService.listTrash(authContext, { limit: 20 });
+
+    // Then
+    expect(mockTodoRepository.findTrash).toHaveBeenCalledWith('user-1', {
+      limit: 20,
+      cursor: undefined,
+    });
+    expect(result.items.map(item => item.todoId)).toEqual(['todo-b', 'todo-a']);
+  });
+
+  it('should restore the todo, its tag index and record the restore', async () => {
+    // Given
+    const restored = {
+      ...createDynamoTodoItem({ userId: 'user-1', todoId: 'todo-1' }),
+      tags: ['work'],
+    };
+    mockTodoRepository.restore.mockResolvedValue(restored);
+
+    // When
+    const result = await todoService.restoreTodo(authContext, 'todo-1');
+
+    // Then
+    expect(result).toBe(restored);
+    expect(mockTodoRepository.restore).toHaveBeenCalledWith('user-1', 'todo-1');
+    expect(mockTodoRepository.replaceTags).toHaveBeenCalledWith(restored, [], ['work']);
+    expect(mockActivityRepository.append).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ todoId: 'todo-1', action: 'RESTORED', changes: [] })
+    );
+  });
+
+  it('should restore project todos from the project partition', async () => {
+    // Given
+    const restored = {
+      ...createDynamoTodoItem({ userId: 'owner-1', todoId: 'todo-1' }),
+      projectId: 'project-1',
+    };
+    mockTodoRepository.restore.mockResolvedValue(restored);
+    todoService = new TodoService(
+      mockTodoRepository,
+      mockLogger,
+      {
+        findMember: vi.fn().mockResolvedValue({ role: 'editor' }),
+      } as any,
+      mockActivityRepository
+    );
+
+    // When
+    await todoService.restoreTodo(authContext, 'todo-1', { projectId: 'project-1' });
+
+    // Then
+    expect(mockTodoRepository.restore).toHaveBeenCalledWith('PROJECT#project-1', 'todo-1');
+  });
+
+  it('should deny restoring without delete permission', async () => {
+    // Given
+    const readOnlyContext = createAuthContext({ permissions: { canDelete: false } });
+
+    // When & Then
+    await expect(todoService.restoreTodo(readOnlyContext, 'todo-1')).rejects.toBeInstanceOf(
+      AuthError
+    );
+    expect(mockTodoRepository.restore).not.toHaveBeenCalled();
+  });
+
+  describe('게스트 세션', () => {
+    const guestContext = createAuthContext({
+      userId: 'guest-1',
+      userType: 'guest',
+      sessionId: 'session-1',
+    });
+
+    const guestTrashItem = (sessionId: string) => ({
+      ...trashItem('todo-1', '2026-01-01T00:00:00.000Z'),
+      todo: { ...createDynamoTodoItem({ userId: 'guest-1', todoId: 'todo-1' }), sessionId },
+    });
+
+    it('should restore a todo trashed in the same guest session', async () => {
+      // Given
+      const trashed = guestTrashItem('session-1');
+      mockTodoRepository.findTrashedById.mockResolvedValue(trashed);
+      mockTodoRepository.restore.mockResolvedValue(trashed.todo);
+
+      // When
+      await todoService.restoreTodo(guestContext, 'todo-1');
+
+      // Then
+      expect(mockTodoRepository.restore).toHaveBeenCalledWith('guest-1', 'todo-1');
+    });
+
+    it('should not restore a todo trashed in another guest session', async () => {
+      // Given
+      mockTodoRepository.findTrashedById.mockResolvedValue(guestTrashItem('session-2'));
+
+      // When & Then
+      await expect(todoService.restoreTodo(guestContext, 'todo-1')).rejects.toThrow(
+        'Access denied: Todo belongs to different session'
+      );
+      expect(mockTodoRepository.restore).not.toHaveBeenCalled();
+    });
+
+    it('should not purge a todo trashed in another guest session', async () => {
+      // Given
+      mockTodoRepository.findTrashedById.mockResolvedValue(guestTrashItem('session-2'));
+
+      // When & Then
+      await expect(todoService.purgeTodo(guestContext, 'todo-1')).rejects.toThrow(
+        'Access denied: Todo belongs to different session'
+      );
+      expect(mockTodoRepository.purge).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should purge a trashed todo and record the purge', async () => {
+    // Given
+    mockTodoRepository.findTrashedById.mockResolvedValue(
+      trashItem('todo-1', '2026-01-01T00:00:00.000Z')
+    );
+
+    // When
+    await todoService.purgeTodo(authContext, 'todo-1');
+
+    // Then
+    expect(mockTodoRepository.purge).toHaveBeenCalledWith('user-1', 'todo-1');
+    expect(mockActivityRepository.append).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ todoId: 'todo-1', action: 'PURGED' })
+    );
+  });
+
+  it('should not purge a todo that is not in the trash', async () => {
+    // Given
+    mockTodoRepository.findTrashedById.mockResolvedValue(null);
+
+    // When & Then
+    await expect(todoService.purgeTodo(authContext, 'todo-1')).rejects.toBeInstanceOf(
+      ItemNotFoundError
+    );
+    expect(mockTodoRepository.purge).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { CsvParseError, parseCsv, toCsv } from '../../utils/csv';
+
+describe('csv', () => {
+  it('should quote fields with commas, quotes and line breaks', () => {
+    const csv = toCsv([
+      ['id', 'title'],
+      ['1', 'a, b'],
+      ['2', 'say "hi"'],
+      ['3', 'line\nbreak'],
+    ]);
+
+    expect(csv).toBe('id,title\r\n1,"a, b"\r\n2,"say ""hi"""\r\n3,"line\nbreak"');
+    expect(parseCsv(csv)).toEqual([
+      ['id', 'title'],
+      ['1', 'a, b'],
+      ['2', 'say "hi"'],
+      ['3', 'line\nbreak'],
+    ]);
+  });
+
+  it('should escape spreadsheet formulas and restore them when parsing', () => {
+    const csv = toCsv([['=SUM(A1:A2)', '-1', '@user']]);
+
+    expect(csv).toBe("'=SUM(A1:A2),'-1,'@user");
+    expect(parseCsv(csv)).toEqual([['=SUM(A1:A2)', '-1', '@user']]);
+  });
+
+  it('should ignore BOM, LF line endings and blank lines', () => {
+    expect(parseCsv('\uFEFFtitle,completed\n할일,true\n\n')).toEqual([
+      ['title', 'completed'],
+      ['할일', 'true'],
+    ]);
+  });
+
+  it('should reject unterminated quotes with the line number', () => {
+    expect(() => parseCsv('title\n"unterminated\nvalue')).toThrow(CsvParseError);
+
+    try {
+      parseCsv('title\n"unterminated\nvalue');
+    } catch (error) {
+      expect((error as CsvParseError).line).toBe(3);
+    }
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { getDueDateRange, isDueDateInRange, isValidTimeZone } from '../../utils/due-date';
+
+// 서울 기준 2024-03-11 00:30, 뉴욕 기준 2024-03-10 11:30 (서머타임 시작일)
+const NOW = new Date('2024-03-10T15:30:00.000Z');
+
+describe('due-date', () => {
+  describe('getDueDateRange', () => {
+    it('should use the day boundaries of the given time zone', () => {
+      expect(getDueDateRange('today', 'Asia/Seoul', NOW)).toEqual({
+        from: '2024-03-10T15:00:00.000Z',
+        to: '2024-03-11T14:59:59.999Z',
+      });
+      expect(getDueDateRange('today', 'UTC', NOW)).toEqual({
+        from: '2024-03-10T00:00:00.000Z',
+        to: '2024-03-10T23:59:59.999Z',
+      });
+    });
+
+    it('should end overdue right before today starts', () => {
+      expect(getDueDateRange('overdue', 'Asia/Seoul', NOW)).toEqual({
+        to: '2024-03-10T14:59:59.999Z',
+      });
+    });
+
+    it('should cover seven local days for the week view across a DST change', () => {
+      expect(getDueDateRange('week', 'America/New_York', NOW)).toEqual({
+        from: '2024-03-10T05:00:00.000Z', // 자정 EST
+        to: '2024-03-17T03:59:59.999Z', // 자정 EDT 직전
+      });
+    });
+  });
+
+  describe('isDueDateInRange', () => {
+    it('should include both ends and skip todos without a due date', () => {
+      const range = getDueDateRange('today', 'UTC', NOW);
+
+      expect(isDueDateInRange('2024-03-10T00:00:00.000Z', range)).toBe(true);
+      expect(isDueDateInRange('2024-03-10T23:59:59.999Z', range)).toBe(true);
+      expect(isDueDateInRange('2024-03-11T00:00:00.000Z', range)).toBe(false);
+      expect(isDueDateInRange(undefined, range)).toBe(false);
+      expect(isDueDateInRange(null, range)).toBe(false);
+    });
+  });
+
+  it('should validate IANA time zone names', () => {
+    expect(isValidTimeZone('Asia/Seoul')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+});
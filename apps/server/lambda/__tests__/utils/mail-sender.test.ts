@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ConsoleMailSender, SesMailSender, createMailSender } from '../../utils/mail-sender';
+import { logger } from '../../utils/logger';
+
+const message = {
+  to: 'user@example.com',
+  subject: '[Hanbit TODO] 비밀번호 재설정 코드',
+  text: '재설정 코드: ABCD2345',
+};
+
+describe('mail-sender', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('should never log the mail body from the console sender', async () => {
+    const info = vi.spyOn(logger, 'info').mockImplementation(() => undefined);
+
+    await new ConsoleMailSender().send(message);
+
+    expect(JSON.stringify(info.mock.calls)).not.toContain('ABCD2345');
+  });
+
+  it('should fail closed when the SES sender has no from address', async () => {
+    const client = { send: vi.fn() };
+
+    await expect(new SesMailSender(undefined, client).send(message)).rejects.toThrow(
+      'MAIL_FROM_ADDRESS'
+    );
+    expect(client.send).not.toHaveBeenCalled();
+  });
+
+  it('should send through SES with the configured from address', async () => {
+    const client = { send: vi.fn().mockResolvedValue({}) };
+
+    await new SesMailSender('no-reply@example.com', client).send(message);
+
+    const [command] = client.send.mock.calls[0];
+    expect(command.input).toMatchObject({
+      FromEmailAddress: 'no-reply@example.com',
+      Destination: { ToAddresses: ['user@example.com'] },
+    });
+  });
+
+  it('should default to SES inside Lambda', () => {
+    vi.stubEnv('MAIL_SENDER', '');
+    vi.stubEnv('AWS_LAMBDA_FUNCTION_NAME', 'password-reset-request');
+
+    expect(createMailSender()).toBeInstanceOf(SesMailSender);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareByRank,
+  effectiveRank,
+  rankFromCreatedAt,
+  spreadRanks,
+  RANK_PATTERN,
+} from '@vive/types';
+import { UpdateTodoRequestSchema } from '../../utils/validation';
+
+describe('rank', () => {
+  describe('rankFromCreatedAt', () => {
+    it('should put later todos first', () => {
+      const older = rankFromCreatedAt('2024-03-10T15:30:00.000Z');
+      const newer = rankFromCreatedAt('2024-03-10T15:30:00.001Z');
+
+      expect(newer < older).toBe(true);
+    });
+
+    it('should build fixed-width keys that never end with zero', () => {
+      const rank = rankFromCreatedAt('2024-03-10T15:30:00.000Z');
+
+      expect(rank).toMatch(/^[0-9A-Za-z]{8}V$/);
+    });
+  });
+
+  describe('compareByRank', () => {
+    const createdAt = '2024-03-10T15:30:00.000Z';
+
+    it('should prefer the stored rank over the created-at rank', () => {
+      const todo = { id: 'a', rank: 'V', createdAt };
+
+      expect(effectiveRank(todo)).toBe('V');
+      expect(effectiveRank({ id: 'b', createdAt })).toBe(rankFromCreatedAt(createdAt));
+    });
+
+    it('should sort by rank and break ties by id', () => {
+      const todos = [
+        { id: 'c', rank: 'k', createdAt },
+        { id: 'b', rank: 'V', createdAt },
+        { id: 'a', rank: 'V', createdAt },
+      ];
+
+      expect([...todos].sort(compareByRank).map(todo => todo.id)).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('spreadRanks', () => {
+    const now = '2024-03-10T15:30:00.000Z';
+
+    it('should build short ascending ranks for the whole list', () => {
+      const ranks = spreadRanks(100, now);
+
+      expect(new Set(ranks).size).toBe(100);
+      expect([...ranks].sort()).toEqual(ranks);
+      expect(ranks.every(rank => RANK_PATTERN.test(rank) && rank.length === 11)).toBe(true);
+    });
+
+    it('should keep todos created later in front', () => {
+      const later = rankFromCreatedAt('2024-03-10T15:30:00.001Z');
+
+      expect(spreadRanks(3, now).every(rank => later < rank)).toBe(true);
+    });
+  });
+
+  describe('UpdateTodoRequestSchema rank', () => {
+    it('should accept a fractional rank', () => {
+      expect(UpdateTodoRequestSchema.parse({ rank: 'a0V' })).toEqual({ rank: 'a0V' });
+    });
+
+    it('should reject ranks ending with zero or using other characters', () => {
+      expect(UpdateTodoRequestSchema.safeParse({ rank: 'a0' }).success).toBe(false);
+      expect(UpdateTodoRequestSchema.safeParse({ rank: 'a-b' }).success).toBe(false);
+      expect(UpdateTodoRequestSchema.safeParse({ rank: '' }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatRecurrenceRule,
+  getNextOccurrence,
+  isValidRecurrenceRule,
+  parseRecurrenceRule,
+  RecurrenceRuleError,
+} from '../../utils/recurrence';
+
+// 2024-01-01은 월요일
+const MONDAY = '2024-01-01T09:00:00.000Z';
+const WEDNESDAY = '2024-01-03T09:00:00.000Z';
+const FRIDAY = '2024-01-05T09:00:00.000Z';
+
+describe('recurrence', () => {
+  describe('parseRecurrenceRule', () => {
+    it('should normalize case, prefix and day order', () => {
+      const rule = parseRecurrenceRule('rrule:freq=weekly;byday=we,mo;interval=1');
+
+      expect(rule).toEqual({ freq: 'WEEKLY', interval: 1, byDay: ['MO', 'WE'] });
+      expect(formatRecurrenceRule(rule)).toBe('FREQ=WEEKLY;BYDAY=MO,WE');
+    });
+
+    it.each([
+      ['', '비어'],
+      ['FREQ=HOURLY', 'FREQ'],
+      ['FREQ=DAILY;BYMONTH=1', '지원하지 않는'],
+      ['FREQ=DAILY;INTERVAL=0', 'INTERVAL'],
+      ['FREQ=MONTHLY;BYDAY=MO', 'BYDAY'],
+      ['FREQ=WEEKLY;BYDAY=XX', 'BYDAY'],
+      ['FREQ=DAILY;COUNT=3;UNTIL=20240110', 'UNTIL과 COUNT'],
+      ['FREQ=DAILY;UNTIL=20240230', 'UNTIL'],
+      ['FREQ=DAILY;FREQ=WEEKLY', '중복'],
+    ])('should reject %j', (value, message) => {
+      expect(() => parseRecurrenceRule(value)).toThrow(RecurrenceRuleError);
+      expect(() => parseRecurrenceRule(value)).toThrow(message);
+      expect(isValidRecurrenceRule(value)).toBe(false);
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    it('should advance daily rules by the interval keeping the time of day', () => {
+      expect(getNextOccurrence('FREQ=DAILY', MONDAY)?.date).toBe('2024-01-02T09:00:00.000Z');
+      expect(getNextOccurrence('FREQ=DAILY;INTERVAL=3', MONDAY)?.date).toBe(
+        '2024-01-04T09:00:00.000Z'
+      );
+    });
+
+    it('should skip to the next listed weekday for daily rules with BYDAY', () => {
+      const next = getNextOccurrence('FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR', FRIDAY);
+
+      expect(next?.date).toBe('2024-01-08T09:00:00.000Z');
+    });
+
+    it('should use the next weekday in the same week, then jump by the interval', () => {
+      expect(getNextOccurrence('FREQ=WEEKLY', MONDAY)?.date).toBe('2024-01-08T09:00:00.000Z');
+      expect(getNextOccurrence('FREQ=WEEKLY;BYDAY=MO,WE', MONDAY)?.date).toBe(WEDNESDAY);
+      expect(getNextOccurrence('FREQ=WEEKLY;BYDAY=MO,WE', WEDNESDAY)?.date).toBe(
+        '2024-01-08T09:00:00.000Z'
+      );
+      expect(getNextOccurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE', WEDNESDAY)?.date).toBe(
+        '2024-01-15T09:00:00.000Z'
+      );
+    });
+
+    it('should clamp monthly and yearly rules to the last day of the month', () => {
+      expect(getNextOccurrence('FREQ=MONTHLY', '2024-01-31T09:00:00.000Z')?.date).toBe(
+        '2024-02-29T09:00:00.000Z'
+      );
+      expect(getNextOccurrence('FREQ=YEARLY', '2024-02-29T09:00:00.000Z')?.date).toBe(
+        '2025-02-28T09:00:00.000Z'
+      );
+    });
+
+    it('should count down COUNT and stop after the last occurrence', () => {
+      expect(getNextOccurrence('FREQ=DAILY;COUNT=3', MONDAY)?.recurrence).toBe(
+        'FREQ=DAILY;COUNT=2'
+      );
+      expect(getNextOccurrence('FREQ=DAILY;COUNT=1', MONDAY)).toBeNull();
+    });
+
+    it('should include the whole UNTIL day and stop after it', () => {
+      const rule = 'FREQ=DAILY;UNTIL=20240102';
+
+      expect(getNextOccurrence(rule, MONDAY)).toEqual({
+        date: '2024-01-02T09:00:00.000Z',
+        recurrence: 'FREQ=DAILY;UNTIL=20240102T235959Z',
+      });
+      expect(getNextOccurrence(rule, '2024-01-02T09:00:00.000Z')).toBeNull();
+    });
+
+    it('should pick weekdays in the user time zone', () => {
+      // 서울 월요일 08:00 = UTC 일요일 23:00
+      const seoulMonday = '2024-01-07T23:00:00.000Z';
+
+      expect(getNextOccurrence('FREQ=WEEKLY;BYDAY=MO,WE', seoulMonday, 'Asia/Seoul')?.date).toBe(
+        '2024-01-09T23:00:00.000Z' // 서울 수요일 08:00
+      );
+      expect(getNextOccurrence('FREQ=DAILY;BYDAY=MO,TU', seoulMonday, 'Asia/Seoul')?.date).toBe(
+        '2024-01-08T23:00:00.000Z' // 서울 화요일 08:00
+      );
+    });
+
+    it('should keep the local time of day across daylight saving changes', () => {
+      // 뉴욕 2024-03-08(금) 09:00 EST → 서머타임 시작 후 2024-03-15(금) 09:00 EDT
+      expect(
+        getNextOccurrence('FREQ=WEEKLY', '2024-03-08T14:00:00.000Z', 'America/New_York')?.date
+      ).toBe('2024-03-15T13:00:00.000Z');
+    });
+  });
+});
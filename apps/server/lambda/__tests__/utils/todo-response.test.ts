@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { toTodoResponse } from '../../utils/todo-response';
+import type { DynamoTodoItem } from '../../types/database.types';
+
+const createItem = (overrides: Partial<DynamoTodoItem> = {}): DynamoTodoItem => ({
+  PK: 'PROJECT#project-1',
+  SK: 'TODO#todo-1',
+  EntityType: 'TODO',
+  GSI1PK: 'PROJECT#project-1#STATUS#false',
+  GSI1SK: 'PRIORITY#medium#2024-03-10T15:30:00.000Z',
+  GSI2PK: 'PROJECT#project-1',
+  GSI2SK: 'TITLE#test todo#2024-03-10T15:30:00.000Z',
+  id: 'todo-1',
+  userId: 'user-1',
+  isGuest: false,
+  title: 'Test Todo',
+  completed: false,
+  priority: 'medium',
+  version: 3,
+  createdAt: '2024-03-10T15:30:00.000Z',
+  updatedAt: '2024-03-10T15:30:00.000Z',
+  ...overrides,
+});
+
+describe('toTodoResponse', () => {
+  it('should include project and assignment fields', () => {
+    const assignmentHistory = [
+      { assigneeId: 'user-2', assignedBy: 'user-1', assignedAt: '2024-03-11T00:00:00.000Z' },
+    ];
+
+    const response = toTodoResponse(
+      createItem({ projectId: 'project-1', assigneeId: 'user-2', assignmentHistory, rank: 'V' })
+    );
+
+    expect(response).toMatchObject({
+      id: 'todo-1',
+      projectId: 'project-1',
+      assigneeId: 'user-2',
+      assignmentHistory,
+      rank: 'V',
+      version: 3,
+    });
+  });
+
+  it('should drop DynamoDB key fields and null values', () => {
+    const response = toTodoResponse(
+      createItem({ assigneeId: null, recurrence: null, checklistTotal: 4, checklistCompleted: 1 })
+    );
+
+    expect(response).not.toHaveProperty('PK');
+    expect(response).not.toHaveProperty('userId');
+    expect(response.assigneeId).toBeUndefined();
+    expect(response.recurrence).toBeUndefined();
+    expect(response.checklistProgress).toEqual({ completed: 1, total: 4 });
+  });
+});
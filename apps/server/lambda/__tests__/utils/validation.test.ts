@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { CreateTodoRequestSchema, TagSchema } from '../../utils/validation';
+
+describe('validation', () => {
+  describe('TagSchema', () => {
+    it('should trim and accept a plain tag', () => {
+      expect(TagSchema.parse('  업무 ')).toBe('업무');
+    });
+
+    it('should reject tags containing the key separator', () => {
+      // 'a#b'를 허용하면 태그 'a'의 접두사 쿼리(TAG#a#)에 'a#b'의 아이템이 섞임
+      expect(TagSchema.safeParse('a#b').success).toBe(false);
+      expect(TagSchema.safeParse('#업무').success).toBe(false);
+      expect(
+        CreateTodoRequestSchema.safeParse({ title: '할 일', tags: ['업무', 'a#TODO'] }).success
+      ).toBe(false);
+    });
+  });
+});
@@ -7,6 +7,8 @@ import {
 } from '@/utils/response';
 import { parseAndValidate, LoginRequestSchema } from '@/utils/validation';
 import { logger } from '@/utils/logger';
+import { getAuthService } from '@/utils/container';
+import { CredentialsError } from '@/services/auth.service';
 import { initializeXRay, addAnnotation } from '@/utils/xray-tracer';
 
 // X-Ray 초기화
@@ -28,44 +30,32 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
     // 요청 본문 검증
     const loginRequest = parseAndValidate(event.body, LoginRequestSchema);
 
-    // TODO: 비즈니스 로직 구현
-    // 1. 사용자 조회
-    // 2. 비밀번호 검증
-    // 3. JWT 토큰 생성 (access + refresh)
-    // 4. 세션 저장
-    // 5. 토큰 반환
+    // 사용자 조회 → 비밀번호 검증 → 토큰 발급
+    const loginResponse = await getAuthService().login(loginRequest.email, loginRequest.password);
 
-    // 임시 인증 로직 (데모용)
-    if (loginRequest.username === 'demo' && loginRequest.password === 'demo123') {
-      const loginResponse = {
-        accessToken: 'mock-access-token',
-        refreshToken: 'mock-refresh-token',
-        user: {
-          id: 'user-123',
-          username: loginRequest.username,
-        },
-      };
-
-      const duration = timer();
-      logger.logResponse('POST', '/auth/login', 200, duration, {
-        requestId,
-        userId: loginResponse.user.id,
-      });
-
-      return createSuccessResponse(loginResponse);
-    }
-
-    // 인증 실패
     const duration = timer();
-    logger.warn('Login failed', {
+    logger.logResponse('POST', '/auth/login', 200, duration, {
       requestId,
-      username: loginRequest.username,
+      userId: loginResponse.user.id,
     });
-    logger.logResponse('POST', '/auth/login', 401, duration, { requestId });
 
-    return createUnauthorizedResponse('사용자명 또는 비밀번호가 올바르지 않습니다');
+    return createSuccessResponse({
+      accessToken: loginResponse.accessToken,
+      refreshToken: loginResponse.refreshToken,
+      expiresIn: loginResponse.expiresIn,
+      user: loginResponse.user,
+    });
   } catch (error) {
     const duration = timer();
+
+    // 인증 실패
+    if (error instanceof CredentialsError) {
+      logger.warn('Login failed', { requestId, code: error.code });
+      logger.logResponse('POST', '/auth/login', 401, duration, { requestId });
+
+      return createUnauthorizedResponse('이메일 또는 비밀번호가 올바르지 않습니다');
+    }
+
     logger.error('Error during login', error as Error, { requestId });
     logger.logResponse('POST', '/auth/login', 500, duration, { requestId });
 
@@ -0,0 +1,68 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createUnauthorizedResponse,
+} from '@/utils/response';
+import { logger } from '@/utils/logger';
+import { getAuthService } from '@/utils/container';
+import { validateJWTToken, AuthContext } from '@/utils/token-validator';
+import { initializeXRay, addAnnotation } from '@/utils/xray-tracer';
+
+// X-Ray 초기화
+initializeXRay();
+
+/**
+ * POST /auth/logout - 로그아웃 (모든 리프레시 토큰 세션 폐기)
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const timer = logger.startTimer();
+  const requestId = event.requestContext.requestId;
+
+  try {
+    logger.logRequest('POST', '/auth/logout', { requestId });
+
+    // X-Ray에 작업 정보 추가
+    addAnnotation('operation', 'logout');
+
+    const authHeader = event.headers.Authorization || event.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      const duration = timer();
+      logger.logResponse('POST', '/auth/logout', 401, duration, { requestId });
+      return createUnauthorizedResponse('Bearer 토큰이 필요합니다');
+    }
+
+    let authContext: AuthContext;
+    try {
+      authContext = await validateJWTToken(authHeader.substring(7));
+    } catch (error) {
+      logger.warn('Access token validation failed on logout', {
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      const duration = timer();
+      logger.logResponse('POST', '/auth/logout', 401, duration, { requestId });
+      return createUnauthorizedResponse('유효하지 않은 액세스 토큰입니다');
+    }
+
+    // 게스트는 서버 측 세션이 없으므로 폐기할 항목 없음
+    const revokedSessions =
+      authContext.userType === 'authenticated'
+        ? await getAuthService().revokeAllSessions(authContext.userId)
+        : 0;
+
+    const duration = timer();
+    logger.logResponse('POST', '/auth/logout', 200, duration, {
+      requestId,
+      userId: authContext.userId,
+    });
+
+    return createSuccessResponse({ revokedSessions });
+  } catch (error) {
+    const duration = timer();
+    logger.error('Error during logout', error as Error, { requestId });
+    logger.logResponse('POST', '/auth/logout', 500, duration, { requestId });
+
+    return createErrorResponse(error as Error);
+  }
+};
@@ -0,0 +1,108 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationErrorResponse,
+  createUnauthorizedResponse,
+} from '@/utils/response';
+import { parseAndValidate, PasswordChangeSchema } from '@/utils/validation';
+import { logger } from '@/utils/logger';
+import { getAuthService } from '@/utils/container';
+import { PasswordUpdateError } from '@/services/auth.service';
+import { validateJWTToken, AuthContext } from '@/utils/token-validator';
+import { initializeXRay, addAnnotation } from '@/utils/xray-tracer';
+
+// X-Ray 초기화
+initializeXRay();
+
+/**
+ * POST /auth/password/change - 비밀번호 변경 (로그인 사용자)
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const timer = logger.startTimer();
+  const requestId = event.requestContext.requestId;
+
+  try {
+    logger.logRequest('POST', '/auth/password/change', { requestId });
+
+    // X-Ray에 작업 정보 추가
+    addAnnotation('operation', 'passwordChange');
+
+    const authHeader = event.headers.Authorization || event.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      const duration = timer();
+      logger.logResponse('POST', '/auth/password/change', 401, duration, { requestId });
+      return createUnauthorizedResponse('Bearer 토큰이 필요합니다');
+    }
+
+    let authContext: AuthContext;
+    try {
+      authContext = await validateJWTToken(authHeader.substring(7));
+    } catch (error) {
+      logger.warn('Access token validation failed on password change', {
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      const duration = timer();
+      logger.logResponse('POST', '/auth/password/change', 401, duration, { requestId });
+      return createUnauthorizedResponse('유효하지 않은 액세스 토큰입니다');
+    }
+
+    // 게스트는 비밀번호가 없으므로 변경 불가
+    if (authContext.userType !== 'authenticated') {
+      const duration = timer();
+      logger.logResponse('POST', '/auth/password/change', 403, duration, { requestId });
+      return createErrorResponse(
+        'FORBIDDEN',
+        '로그인한 사용자만 비밀번호를 변경할 수 있습니다',
+        403
+      );
+    }
+
+    // 요청 본문 검증
+    const changeRequest = parseAndValidate(event.body, PasswordChangeSchema);
+
+    // 현재 비밀번호 확인 → 변경 → 기존 세션 폐기 → 새 세션 발급
+    const changeResponse = await getAuthService().changePassword(
+      authContext.userId,
+      changeRequest.currentPassword,
+      changeRequest.newPassword
+    );
+
+    const duration = timer();
+    logger.logResponse('POST', '/auth/password/change', 200, duration, {
+      requestId,
+      userId: authContext.userId,
+    });
+
+    return createSuccessResponse({
+      accessToken: changeResponse.accessToken,
+      refreshToken: changeResponse.refreshToken,
+      expiresIn: changeResponse.expiresIn,
+      user: changeResponse.user,
+    });
+  } catch (error) {
+    const duration = timer();
+
+    if (error instanceof PasswordUpdateError) {
+      logger.warn('Password change rejected', { requestId, code: error.code });
+
+      if (error.code === 'PASSWORD_POLICY_VIOLATION') {
+        logger.logResponse('POST', '/auth/password/change', 400, duration, { requestId });
+        return createValidationErrorResponse(error.message, error.details);
+      }
+
+      logger.logResponse('POST', '/auth/password/change', 401, duration, { requestId });
+      return createErrorResponse(error.code, error.message, 401);
+    }
+
+    logger.error('Error during password change', error as Error, { requestId });
+    logger.logResponse('POST', '/auth/password/change', 500, duration, { requestId });
+
+    if (error instanceof Error && error.message.includes('검증 실패')) {
+      return createValidationErrorResponse(error.message);
+    }
+
+    return createErrorResponse(error as Error);
+  }
+};
@@ -0,0 +1,64 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from '@/utils/response';
+import { parseAndValidate, PasswordResetConfirmSchema } from '@/utils/validation';
+import { logger } from '@/utils/logger';
+import { getAuthService } from '@/utils/container';
+import { PasswordUpdateError } from '@/services/auth.service';
+import { initializeXRay, addAnnotation } from '@/utils/xray-tracer';
+
+// X-Ray 초기화
+initializeXRay();
+
+/**
+ * POST /auth/password/reset-confirm - 재설정 코드로 비밀번호 변경
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const timer = logger.startTimer();
+  const requestId = event.requestContext.requestId;
+
+  try {
+    logger.logRequest('POST', '/auth/password/reset-confirm', { requestId });
+
+    // X-Ray에 작업 정보 추가
+    addAnnotation('operation', 'passwordResetConfirm');
+
+    // 요청 본문 검증
+    const confirmRequest = parseAndValidate(event.body, PasswordResetConfirmSchema);
+
+    // 코드 확인(1회용) → 비밀번호 변경 → 모든 세션 폐기
+    await getAuthService().confirmPasswordReset(confirmRequest);
+
+    const duration = timer();
+    logger.logResponse('POST', '/auth/password/reset-confirm', 200, duration, { requestId });
+
+    return createSuccessResponse({ message: '비밀번호가 변경되었습니다. 다시 로그인해 주세요' });
+  } catch (error) {
+    const duration = timer();
+
+    if (error instanceof PasswordUpdateError) {
+      const statusCode = error.code === 'RESET_ATTEMPTS_EXCEEDED' ? 429 : 400;
+      logger.warn('Password reset rejected', { requestId, code: error.code });
+      logger.logResponse('POST', '/auth/password/reset-confirm', statusCode, duration, {
+        requestId,
+      });
+
+      if (error.code === 'PASSWORD_POLICY_VIOLATION') {
+        return createValidationErrorResponse(error.message, error.details);
+      }
+      return createErrorResponse(error.code, error.message, statusCode);
+    }
+
+    logger.error('Error during password reset confirm', error as Error, { requestId });
+    logger.logResponse('POST', '/auth/password/reset-confirm', 500, duration, { requestId });
+
+    if (error instanceof Error && error.message.includes('검증 실패')) {
+      return createValidationErrorResponse(error.message);
+    }
+
+    return createErrorResponse(error as Error);
+  }
+};
@@ -0,0 +1,49 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from '@/utils/response';
+import { parseAndValidate, PasswordResetRequestSchema } from '@/utils/validation';
+import { logger } from '@/utils/logger';
+import { getAuthService } from '@/utils/container';
+import { initializeXRay, addAnnotation } from '@/utils/xray-tracer';
+
+// X-Ray 초기화
+initializeXRay();
+
+/**
+ * POST /auth/password/reset-request - 비밀번호 재설정 코드 요청
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const timer = logger.startTimer();
+  const requestId = event.requestContext.requestId;
+
+  try {
+    logger.logRequest('POST', '/auth/password/reset-request', { requestId });
+
+    // X-Ray에 작업 정보 추가
+    addAnnotation('operation', 'passwordResetRequest');
+
+    // 요청 본문 검증
+    const resetRequest = parseAndValidate(event.body, PasswordResetRequestSchema);
+
+    // 재설정 코드 발급 → 메일 발송 (가입 여부와 무관하게 동일한 응답)
+    await getAuthService().requestPasswordReset(resetRequest.email);
+
+    const duration = timer();
+    logger.logResponse('POST', '/auth/password/reset-request', 202, duration, { requestId });
+
+    return createSuccessResponse({ message: '가입된 이메일이라면 재설정 코드가 발송됩니다' }, 202);
+  } catch (error) {
+    const duration = timer();
+    logger.error('Error during password reset request', error as Error, { requestId });
+    logger.logResponse('POST', '/auth/password/reset-request', 500, duration, { requestId });
+
+    if (error instanceof Error && error.message.includes('검증 실패')) {
+      return createValidationErrorResponse(error.message);
+    }
+
+    return createErrorResponse(error as Error);
+  }
+};
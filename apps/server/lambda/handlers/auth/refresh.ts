@@ -7,6 +7,8 @@ import {
 } from '@/utils/response';
 import { parseAndValidate, RefreshRequestSchema } from '@/utils/validation';
 import { logger } from '@/utils/logger';
+import { getAuthService } from '@/utils/container';
+import { CredentialsError } from '@/services/auth.service';
 import { initializeXRay, addAnnotation } from '@/utils/xray-tracer';
 
 // X-Ray 초기화
@@ -28,33 +30,24 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
     // 요청 본문 검증
     const refreshRequest = parseAndValidate(event.body, RefreshRequestSchema);
 
-    // TODO: 비즈니스 로직 구현
-    // 1. 리프레시 토큰 검증
-    // 2. 세션 확인
-    // 3. 새로운 액세스 토큰 생성
-    // 4. 세션 업데이트
-    // 5. 새 토큰 반환
+    // 리프레시 토큰 검증 → 토큰 회전 (새 액세스/리프레시 토큰 발급, 기존 토큰 폐기)
+    const refreshResponse = await getAuthService().refresh(refreshRequest.refreshToken);
 
-    // 임시 토큰 검증 로직 (데모용)
-    if (refreshRequest.refreshToken === 'mock-refresh-token') {
-      const refreshResponse = {
-        accessToken: 'new-mock-access-token',
-      };
-
-      const duration = timer();
-      logger.logResponse('POST', '/auth/refresh', 200, duration, { requestId });
-
-      return createSuccessResponse(refreshResponse);
-    }
-
-    // 토큰 검증 실패
     const duration = timer();
-    logger.warn('Refresh token validation failed', { requestId });
-    logger.logResponse('POST', '/auth/refresh', 401, duration, { requestId });
+    logger.logResponse('POST', '/auth/refresh', 200, duration, { requestId });
 
-    return createUnauthorizedResponse('유효하지 않은 리프레시 토큰입니다');
+    return createSuccessResponse(refreshResponse);
   } catch (error) {
     const duration = timer();
+
+    // 토큰 검증 실패
+    if (error instanceof CredentialsError) {
+      logger.warn('Refresh token validation failed', { requestId, code: error.code });
+      logger.logResponse('POST', '/auth/refresh', 401, duration, { requestId });
+
+      return createUnauthorizedResponse('유효하지 않은 리프레시 토큰입니다');
+    }
+
     logger.error('Error during token refresh', error as Error, { requestId });
     logger.logResponse('POST', '/auth/refresh', 500, duration, { requestId });
 
@@ -0,0 +1,74 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from '@/utils/response';
+import { parseAndValidate, RegisterRequestSchema } from '@/utils/validation';
+import { logger } from '@/utils/logger';
+import { getAuthService } from '@/utils/container';
+import { RegistrationError } from '@/services/auth.service';
+import { initializeXRay, addAnnotation } from '@/utils/xray-tracer';
+
+// X-Ray 초기화
+initializeXRay();
+
+/**
+ * POST /auth/register - 회원가입
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const timer = logger.startTimer();
+  const requestId = event.requestContext.requestId;
+
+  try {
+    logger.logRequest('POST', '/auth/register', { requestId });
+
+    // X-Ray에 작업 정보 추가
+    addAnnotation('operation', 'register');
+
+    // 요청 본문 검증
+    const registerRequest = parseAndValidate(event.body, RegisterRequestSchema);
+
+    // 비밀번호 정책 검증 → 사용자 생성 → 토큰 발급 (가입 후 자동 로그인)
+    const registerResponse = await getAuthService().register(registerRequest);
+
+    const duration = timer();
+    logger.logResponse('POST', '/auth/register', 201, duration, {
+      requestId,
+      userId: registerResponse.user.id,
+    });
+
+    return createSuccessResponse(
+      {
+        accessToken: registerResponse.accessToken,
+        refreshToken: registerResponse.refreshToken,
+        expiresIn: registerResponse.expiresIn,
+        user: registerResponse.user,
+      },
+      201
+    );
+  } catch (error) {
+    const duration = timer();
+
+    if (error instanceof RegistrationError) {
+      logger.warn('Registration rejected', { requestId, code: error.code });
+
+      if (error.code === 'PASSWORD_POLICY_VIOLATION') {
+        logger.logResponse('POST', '/auth/register', 400, duration, { requestId });
+        return createValidationErrorResponse(error.message, error.details);
+      }
+
+      logger.logResponse('POST', '/auth/register', 409, duration, { requestId });
+      return createErrorResponse(error.code, error.message, 409);
+    }
+
+    logger.error('Error during registration', error as Error, { requestId });
+    logger.logResponse('POST', '/auth/register', 500, duration, { requestId });
+
+    if (error instanceof Error && error.message.includes('검증 실패')) {
+      return createValidationErrorResponse(error.message);
+    }
+
+    return createErrorResponse(error as Error);
+  }
+};
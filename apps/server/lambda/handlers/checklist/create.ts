@@ -0,0 +1,60 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { createSuccessResponse, logger } from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import {
+  parseAndValidate,
+  validatePathParams,
+  validateQueryParams,
+  CreateChecklistItemRequestSchema,
+  IdParamSchema,
+  ProjectScopeQuerySchema,
+} from '@/utils/validation';
+import { getChecklistService, warmupContainer } from '@/utils/container';
+import { authenticate, toChecklistItemResponse, toHttpError, validateRequest } from './shared';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * POST /todos/{id}/items - 체크리스트 항목 추가
+ */
+const createChecklistItemHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authContext = await authenticate(event.headers, correlationId);
+    const { id } = validateRequest(
+      () => validatePathParams(event.pathParameters, IdParamSchema),
+      correlationId
+    );
+    const { projectId } = validateRequest(
+      () => validateQueryParams(event.queryStringParameters, ProjectScopeQuerySchema),
+      correlationId
+    );
+    const request = validateRequest(
+      () => parseAndValidate(event.body, CreateChecklistItemRequestSchema),
+      correlationId
+    );
+
+    let item;
+    try {
+      item = await getChecklistService().createItem(authContext, id, request, { projectId });
+    } catch (error) {
+      throw toHttpError(error, correlationId);
+    }
+
+    logger.info('Checklist item created successfully', {
+      correlationId,
+      todoId: id,
+      itemId: item.id,
+    });
+    return createSuccessResponse(toChecklistItemResponse(item), 201);
+  } catch (error) {
+    logger.error('Checklist item creation failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(createChecklistItemHandler);
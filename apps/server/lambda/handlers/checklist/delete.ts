@@ -0,0 +1,49 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { createSuccessResponse, logger } from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import {
+  validatePathParams,
+  validateQueryParams,
+  ChecklistItemParamSchema,
+  ProjectScopeQuerySchema,
+} from '@/utils/validation';
+import { getChecklistService, warmupContainer } from '@/utils/container';
+import { authenticate, toHttpError, validateRequest } from './shared';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * DELETE /todos/{id}/items/{itemId} - 체크리스트 항목 삭제
+ */
+const deleteChecklistItemHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authContext = await authenticate(event.headers, correlationId);
+    const { id, itemId } = validateRequest(
+      () => validatePathParams(event.pathParameters, ChecklistItemParamSchema),
+      correlationId
+    );
+    const { projectId } = validateRequest(
+      () => validateQueryParams(event.queryStringParameters, ProjectScopeQuerySchema),
+      correlationId
+    );
+
+    try {
+      await getChecklistService().deleteItem(authContext, id, itemId, { projectId });
+    } catch (error) {
+      throw toHttpError(error, correlationId);
+    }
+
+    logger.info('Checklist item deleted successfully', { correlationId, todoId: id, itemId });
+    return createSuccessResponse({ message: 'Checklist item deleted successfully' }, 204);
+  } catch (error) {
+    logger.error('Checklist item deletion failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(deleteChecklistItemHandler);
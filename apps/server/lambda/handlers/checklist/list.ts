@@ -0,0 +1,55 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { createSuccessResponse, logger } from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import {
+  validatePathParams,
+  validateQueryParams,
+  IdParamSchema,
+  ProjectScopeQuerySchema,
+} from '@/utils/validation';
+import { getChecklistService, warmupContainer } from '@/utils/container';
+import { authenticate, toChecklistItemResponse, toHttpError, validateRequest } from './shared';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * GET /todos/{id}/items - 체크리스트 항목 목록 조회
+ */
+const listChecklistItemsHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authContext = await authenticate(event.headers, correlationId);
+    const { id } = validateRequest(
+      () => validatePathParams(event.pathParameters, IdParamSchema),
+      correlationId
+    );
+    const { projectId } = validateRequest(
+      () => validateQueryParams(event.queryStringParameters, ProjectScopeQuerySchema),
+      correlationId
+    );
+
+    let items;
+    try {
+      items = await getChecklistService().listItems(authContext, id, { projectId });
+    } catch (error) {
+      throw toHttpError(error, correlationId);
+    }
+
+    return createSuccessResponse({
+      items: items.map(toChecklistItemResponse),
+      progress: {
+        completed: items.filter(item => item.completed).length,
+        total: items.length,
+      },
+    });
+  } catch (error) {
+    logger.error('Checklist listing failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(listChecklistItemsHandler);
@@ -0,0 +1,60 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { createSuccessResponse, logger } from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import {
+  parseAndValidate,
+  validatePathParams,
+  validateQueryParams,
+  IdParamSchema,
+  ReorderChecklistItemsRequestSchema,
+  ProjectScopeQuerySchema,
+} from '@/utils/validation';
+import { getChecklistService, warmupContainer } from '@/utils/container';
+import { authenticate, toChecklistItemResponse, toHttpError, validateRequest } from './shared';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * PUT /todos/{id}/items/order - 체크리스트 항목 순서 변경
+ */
+const reorderChecklistItemsHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authContext = await authenticate(event.headers, correlationId);
+    const { id } = validateRequest(
+      () => validatePathParams(event.pathParameters, IdParamSchema),
+      correlationId
+    );
+    const { projectId } = validateRequest(
+      () => validateQueryParams(event.queryStringParameters, ProjectScopeQuerySchema),
+      correlationId
+    );
+    const { itemIds } = validateRequest(
+      () => parseAndValidate(event.body, ReorderChecklistItemsRequestSchema),
+      correlationId
+    );
+
+    let items;
+    try {
+      items = await getChecklistService().reorderItems(authContext, id, itemIds, { projectId });
+    } catch (error) {
+      throw toHttpError(error, correlationId);
+    }
+
+    logger.info('Checklist items reordered successfully', {
+      correlationId,
+      todoId: id,
+      itemCount: items.length,
+    });
+    return createSuccessResponse({ items: items.map(toChecklistItemResponse) });
+  } catch (error) {
+    logger.error('Checklist reorder failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(reorderChecklistItemsHandler);
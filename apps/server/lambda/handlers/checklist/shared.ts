@@ -0,0 +1,105 @@
+/**
+ * 체크리스트 핸들러 공통 유틸리티
+ * - 저장소/서비스 에러를 HTTP 에러로 변환
+ * - DynamoDB 아이템을 응답 형태로 변환
+ */
+
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+  ErrorCode,
+} from '@/utils/error-handler';
+import { validateJWTToken } from '@/utils/token-validator';
+import { AuthError } from '@/services/todo.service';
+import { ChecklistError } from '@/services/checklist.service';
+import {
+  ConcurrentModificationError,
+  DynamoChecklistItem,
+  ItemNotFoundError,
+} from '@/types/database.types';
+import { AuthContext, ChecklistItemResponse } from '@/types/api.types';
+
+/**
+ * Authorization 헤더의 Bearer 토큰 검증
+ */
+export async function authenticate(
+  headers: Record<string, string | undefined>,
+  correlationId: string
+): Promise<AuthContext> {
+  const authHeader = headers.Authorization || headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) {
+    throw new AuthenticationError(
+      'Missing authorization header',
+      ErrorCode.MISSING_CREDENTIALS,
+      {},
+      correlationId
+    );
+  }
+
+  return validateJWTToken(authHeader.substring(7));
+}
+
+/**
+ * 요청 검증 함수 실행 (검증 실패는 400으로 변환)
+ */
+export function validateRequest<T>(parse: () => T, correlationId: string): T {
+  try {
+    return parse();
+  } catch (error) {
+    throw new ValidationError(
+      'Invalid checklist request',
+      ErrorCode.INVALID_INPUT,
+      { originalError: error instanceof Error ? error.message : 'Unknown validation error' },
+      correlationId
+    );
+  }
+}
+
+/**
+ * 체크리스트 작업 에러를 표준 HTTP 에러로 변환
+ */
+export function toHttpError(error: unknown, correlationId: string): unknown {
+  if (error instanceof ItemNotFoundError) {
+    return new NotFoundError(error.message, ErrorCode.RESOURCE_NOT_FOUND, {}, correlationId);
+  }
+  if (error instanceof AuthError) {
+    return new AuthorizationError(
+      'Insufficient permissions',
+      ErrorCode.INSUFFICIENT_PERMISSIONS,
+      {},
+      correlationId
+    );
+  }
+  if (error instanceof ConcurrentModificationError) {
+    return new ConflictError(error.message, ErrorCode.RESOURCE_CONFLICT, {}, correlationId);
+  }
+  if (error instanceof ChecklistError) {
+    return new ValidationError(
+      error.message,
+      error.code === 'ITEM_LIMIT_EXCEEDED'
+        ? ErrorCode.BUSINESS_RULE_VIOLATION
+        : ErrorCode.INVALID_INPUT,
+      { reason: error.code, ...error.details },
+      correlationId
+    );
+  }
+  return error;
+}
+
+/**
+ * 응답 데이터 변환 (DynamoDB 내부 필드 제거)
+ */
+export function toChecklistItemResponse(item: DynamoChecklistItem): ChecklistItemResponse {
+  return {
+    id: item.id,
+    todoId: item.todoId,
+    title: item.title,
+    completed: item.completed,
+    position: item.position,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+  };
+}
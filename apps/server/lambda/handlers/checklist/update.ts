@@ -0,0 +1,58 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { createSuccessResponse, logger } from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import {
+  parseAndValidate,
+  validatePathParams,
+  validateQueryParams,
+  ChecklistItemParamSchema,
+  UpdateChecklistItemRequestSchema,
+  ProjectScopeQuerySchema,
+} from '@/utils/validation';
+import { getChecklistService, warmupContainer } from '@/utils/container';
+import { authenticate, toChecklistItemResponse, toHttpError, validateRequest } from './shared';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * PUT /todos/{id}/items/{itemId} - 체크리스트 항목 수정
+ */
+const updateChecklistItemHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authContext = await authenticate(event.headers, correlationId);
+    const { id, itemId } = validateRequest(
+      () => validatePathParams(event.pathParameters, ChecklistItemParamSchema),
+      correlationId
+    );
+    const { projectId } = validateRequest(
+      () => validateQueryParams(event.queryStringParameters, ProjectScopeQuerySchema),
+      correlationId
+    );
+    const request = validateRequest(
+      () => parseAndValidate(event.body, UpdateChecklistItemRequestSchema),
+      correlationId
+    );
+
+    let item;
+    try {
+      item = await getChecklistService().updateItem(authContext, id, itemId, request, {
+        projectId,
+      });
+    } catch (error) {
+      throw toHttpError(error, correlationId);
+    }
+
+    logger.info('Checklist item updated successfully', { correlationId, todoId: id, itemId });
+    return createSuccessResponse(toChecklistItemResponse(item));
+  } catch (error) {
+    logger.error('Checklist item update failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(updateChecklistItemHandler);
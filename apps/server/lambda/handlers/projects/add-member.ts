@@ -0,0 +1,55 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { createSuccessResponse, logger } from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import {
+  parseAndValidate,
+  validatePathParams,
+  AddProjectMemberRequestSchema,
+  IdParamSchema,
+} from '@/utils/validation';
+import { getProjectService, warmupContainer } from '@/utils/container';
+import { authenticate, toHttpError, toProjectMemberResponse, validateRequest } from './shared';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * POST /projects/{id}/members - 가입한 사용자를 이메일로 초대 (owner 전용)
+ */
+const addProjectMemberHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authContext = await authenticate(event.headers, correlationId);
+    const { id } = validateRequest(
+      () => validatePathParams(event.pathParameters, IdParamSchema),
+      correlationId
+    );
+    const request = validateRequest(
+      () => parseAndValidate(event.body, AddProjectMemberRequestSchema),
+      correlationId
+    );
+
+    let member;
+    try {
+      member = await getProjectService().addMember(authContext, id, request);
+    } catch (error) {
+      throw toHttpError(error, correlationId);
+    }
+
+    logger.info('Project member added successfully', {
+      correlationId,
+      projectId: id,
+      userId: member.userId,
+      role: member.role,
+    });
+    return createSuccessResponse(toProjectMemberResponse(member), 201);
+  } catch (error) {
+    logger.error('Project member invitation failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(addProjectMemberHandler);
@@ -0,0 +1,41 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { createSuccessResponse, logger } from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import { parseAndValidate, CreateProjectRequestSchema } from '@/utils/validation';
+import { getProjectService, warmupContainer } from '@/utils/container';
+import { authenticate, toHttpError, toProjectResponse, validateRequest } from './shared';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * POST /projects - 공유 프로젝트 생성 (만든 사용자가 owner)
+ */
+const createProjectHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authContext = await authenticate(event.headers, correlationId);
+    const request = validateRequest(
+      () => parseAndValidate(event.body, CreateProjectRequestSchema),
+      correlationId
+    );
+
+    let member;
+    try {
+      member = await getProjectService().createProject(authContext, request);
+    } catch (error) {
+      throw toHttpError(error, correlationId);
+    }
+
+    logger.info('Project created successfully', { correlationId, projectId: member.projectId });
+    return createSuccessResponse(toProjectResponse(member), 201);
+  } catch (error) {
+    logger.error('Project creation failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(createProjectHandler);
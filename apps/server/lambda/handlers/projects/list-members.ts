@@ -0,0 +1,40 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { createSuccessResponse, logger } from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import { validatePathParams, IdParamSchema } from '@/utils/validation';
+import { getProjectService, warmupContainer } from '@/utils/container';
+import { authenticate, toHttpError, toProjectMemberResponse, validateRequest } from './shared';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * GET /projects/{id}/members - 프로젝트 멤버 목록 조회
+ */
+const listProjectMembersHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authContext = await authenticate(event.headers, correlationId);
+    const { id } = validateRequest(
+      () => validatePathParams(event.pathParameters, IdParamSchema),
+      correlationId
+    );
+
+    let members;
+    try {
+      members = await getProjectService().listMembers(authContext, id);
+    } catch (error) {
+      throw toHttpError(error, correlationId);
+    }
+
+    return createSuccessResponse({ members: members.map(toProjectMemberResponse) });
+  } catch (error) {
+    logger.error('Project member listing failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(listProjectMembersHandler);
@@ -0,0 +1,35 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { createSuccessResponse, logger } from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import { getProjectService, warmupContainer } from '@/utils/container';
+import { authenticate, toHttpError, toProjectResponse } from './shared';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * GET /projects - 내가 속한 프로젝트 목록 조회
+ */
+const listProjectsHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authContext = await authenticate(event.headers, correlationId);
+
+    let members;
+    try {
+      members = await getProjectService().listProjects(authContext);
+    } catch (error) {
+      throw toHttpError(error, correlationId);
+    }
+
+    return createSuccessResponse({ projects: members.map(toProjectResponse) });
+  } catch (error) {
+    logger.error('Project listing failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(listProjectsHandler);
@@ -0,0 +1,40 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { createSuccessResponse, logger } from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import { validatePathParams, ProjectMemberParamSchema } from '@/utils/validation';
+import { getProjectService, warmupContainer } from '@/utils/container';
+import { authenticate, toHttpError, validateRequest } from './shared';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * DELETE /projects/{id}/members/{userId} - 멤버 내보내기 (owner 전용, 자기 자신은 누구나 나가기 가능)
+ */
+const removeProjectMemberHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authContext = await authenticate(event.headers, correlationId);
+    const { id, userId } = validateRequest(
+      () => validatePathParams(event.pathParameters, ProjectMemberParamSchema),
+      correlationId
+    );
+
+    try {
+      await getProjectService().removeMember(authContext, id, userId);
+    } catch (error) {
+      throw toHttpError(error, correlationId);
+    }
+
+    logger.info('Project member removed successfully', { correlationId, projectId: id, userId });
+    return createSuccessResponse({ message: 'Project member removed successfully' }, 204);
+  } catch (error) {
+    logger.error('Project member removal failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(removeProjectMemberHandler);
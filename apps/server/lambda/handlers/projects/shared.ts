@@ -0,0 +1,106 @@
+/**
+ * 프로젝트 핸들러 공통 유틸리티
+ * - 서비스 에러를 HTTP 에러로 변환
+ * - 멤버 아이템을 응답 형태로 변환
+ */
+
+import {
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  ValidationError,
+  ErrorCode,
+} from '@/utils/error-handler';
+import { validateJWTToken } from '@/utils/token-validator';
+import { AuthError } from '@/services/todo.service';
+import { ProjectError } from '@/services/project.service';
+import { DynamoProjectMemberItem, ItemNotFoundError } from '@/types/database.types';
+import { AuthContext, ProjectMemberResponse, ProjectResponse } from '@/types/api.types';
+
+/**
+ * Authorization 헤더의 Bearer 토큰 검증
+ */
+export async function authenticate(
+  headers: Record<string, string | undefined>,
+  correlationId: string
+): Promise<AuthContext> {
+  const authHeader = headers.Authorization || headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) {
+    throw new AuthenticationError(
+      'Missing authorization header',
+      ErrorCode.MISSING_CREDENTIALS,
+      {},
+      correlationId
+    );
+  }
+
+  return validateJWTToken(authHeader.substring(7));
+}
+
+/**
+ * 요청 검증 함수 실행 (검증 실패는 400으로 변환)
+ */
+export function validateRequest<T>(parse: () => T, correlationId: string): T {
+  try {
+    return parse();
+  } catch (error) {
+    throw new ValidationError(
+      'Invalid project request',
+      ErrorCode.INVALID_INPUT,
+      { originalError: error instanceof Error ? error.message : 'Unknown validation error' },
+      correlationId
+    );
+  }
+}
+
+/**
+ * 프로젝트 작업 에러를 표준 HTTP 에러로 변환
+ */
+export function toHttpError(error: unknown, correlationId: string): unknown {
+  if (error instanceof ItemNotFoundError) {
+    return new NotFoundError(error.message, ErrorCode.RESOURCE_NOT_FOUND, {}, correlationId);
+  }
+  if (error instanceof AuthError) {
+    return new AuthorizationError(
+      'Insufficient project permissions',
+      ErrorCode.INSUFFICIENT_PERMISSIONS,
+      { reason: error.code },
+      correlationId
+    );
+  }
+  if (error instanceof ProjectError) {
+    if (error.code === 'USER_NOT_FOUND') {
+      return new NotFoundError(error.message, ErrorCode.RESOURCE_NOT_FOUND, {}, correlationId);
+    }
+    return new ValidationError(
+      error.message,
+      ErrorCode.BUSINESS_RULE_VIOLATION,
+      { reason: error.code },
+      correlationId
+    );
+  }
+  return error;
+}
+
+/**
+ * 프로젝트 응답 변환 (요청한 사용자의 멤버 아이템 기준)
+ */
+export function toProjectResponse(member: DynamoProjectMemberItem): ProjectResponse {
+  return {
+    id: member.projectId,
+    name: member.projectName,
+    role: member.role,
+  };
+}
+
+/**
+ * 멤버 응답 변환 (DynamoDB 내부 필드 제거)
+ */
+export function toProjectMemberResponse(member: DynamoProjectMemberItem): ProjectMemberResponse {
+  return {
+    userId: member.userId,
+    email: member.email,
+    role: member.role,
+    addedAt: member.addedAt,
+  };
+}
@@ -0,0 +1,55 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { createSuccessResponse, logger } from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import {
+  parseAndValidate,
+  validatePathParams,
+  ProjectMemberParamSchema,
+  UpdateProjectMemberRequestSchema,
+} from '@/utils/validation';
+import { getProjectService, warmupContainer } from '@/utils/container';
+import { authenticate, toHttpError, toProjectMemberResponse, validateRequest } from './shared';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * PUT /projects/{id}/members/{userId} - 멤버 역할 변경 (owner 전용)
+ */
+const updateProjectMemberHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authContext = await authenticate(event.headers, correlationId);
+    const { id, userId } = validateRequest(
+      () => validatePathParams(event.pathParameters, ProjectMemberParamSchema),
+      correlationId
+    );
+    const request = validateRequest(
+      () => parseAndValidate(event.body, UpdateProjectMemberRequestSchema),
+      correlationId
+    );
+
+    let member;
+    try {
+      member = await getProjectService().updateMember(authContext, id, userId, request);
+    } catch (error) {
+      throw toHttpError(error, correlationId);
+    }
+
+    logger.info('Project member role updated successfully', {
+      correlationId,
+      projectId: id,
+      userId,
+      role: member.role,
+    });
+    return createSuccessResponse(toProjectMemberResponse(member));
+  } catch (error) {
+    logger.error('Project member update failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(updateProjectMemberHandler);
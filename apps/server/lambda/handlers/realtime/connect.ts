@@ -0,0 +1,68 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  createErrorResponse,
+  createSuccessResponse,
+  logger,
+  ErrorCode,
+} from '@/utils/error-handler';
+import { getRealtimeService, warmupContainer } from '@/utils/container';
+import { validateJWTToken } from '@/utils/token-validator';
+import { AuthError } from '@/services/todo.service';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * WebSocket $connect - 연결 등록
+ * 브라우저 WebSocket은 헤더를 보낼 수 없으므로 액세스 토큰을 ?token=으로 받음
+ * 2xx가 아닌 응답을 돌려주면 API Gateway가 연결을 거부함
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const correlationId = event.requestContext.requestId;
+  const connectionId = event.requestContext.connectionId!;
+
+  try {
+    const token = event.queryStringParameters?.token;
+    if (!token) {
+      throw new AuthenticationError(
+        'Missing access token',
+        ErrorCode.MISSING_CREDENTIALS,
+        {},
+        correlationId
+      );
+    }
+
+    let authContext;
+    try {
+      authContext = await validateJWTToken(token);
+    } catch (error) {
+      throw new AuthenticationError(
+        (error as Error).message,
+        ErrorCode.INVALID_TOKEN,
+        {},
+        correlationId
+      );
+    }
+
+    try {
+      await getRealtimeService().connect(authContext, connectionId);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw new AuthorizationError(
+          error.message,
+          ErrorCode.INSUFFICIENT_PERMISSIONS,
+          {},
+          correlationId
+        );
+      }
+      throw error;
+    }
+
+    return createSuccessResponse({ connectionId });
+  } catch (error) {
+    logger.error('Realtime connect failed', error as Error, { correlationId, connectionId });
+    return createErrorResponse(error as Error, correlationId);
+  }
+};
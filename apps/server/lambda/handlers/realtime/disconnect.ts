@@ -0,0 +1,23 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { createErrorResponse, createSuccessResponse, logger } from '@/utils/error-handler';
+import { getRealtimeService, warmupContainer } from '@/utils/container';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * WebSocket $disconnect - 연결 해제
+ * 연결이 이미 끊긴 뒤 호출되므로 응답은 클라이언트에 전달되지 않음 (최선 노력으로 정리, 누락분은 TTL로 정리)
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const correlationId = event.requestContext.requestId;
+  const connectionId = event.requestContext.connectionId!;
+
+  try {
+    await getRealtimeService().disconnect(connectionId);
+    return createSuccessResponse({ connectionId });
+  } catch (error) {
+    logger.error('Realtime disconnect failed', error as Error, { correlationId, connectionId });
+    return createErrorResponse(error as Error, correlationId);
+  }
+};
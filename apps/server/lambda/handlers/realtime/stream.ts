@@ -0,0 +1,55 @@
+import { AttributeValue as StreamAttributeValue, DynamoDBStreamEvent } from 'aws-lambda';
+import { AttributeValue } from '@aws-sdk/client-dynamodb';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { logger } from '@/utils/error-handler';
+import { getRealtimeService, warmupContainer } from '@/utils/container';
+import { TodoStreamChange } from '@/services/realtime.service';
+import { DynamoTodoItem } from '@/types/database.types';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * DynamoDB Streams 팬아웃 - Todo 변경을 사용자의 연결된 기기에 전송
+ * 이벤트 소스 필터로 Todo 아이템만 들어오지만, 필터가 바뀌어도 안전하도록 한 번 더 거름
+ * 전송 실패는 서비스에서 기록만 하므로, 여기서 던지는 에러는 연결 조회 실패처럼 재시도할 가치가 있는 경우뿐
+ */
+export const handler = async (event: DynamoDBStreamEvent): Promise<void> => {
+  const changes: TodoStreamChange[] = [];
+
+  for (const record of event.Records) {
+    const newItem = toTodoItem(record.dynamodb?.NewImage);
+    const oldItem = toTodoItem(record.dynamodb?.OldImage);
+    if (!record.eventName || (!newItem && !oldItem)) {
+      continue;
+    }
+
+    const changedAt = record.dynamodb?.ApproximateCreationDateTime
+      ? new Date(record.dynamodb.ApproximateCreationDateTime * 1000).toISOString()
+      : new Date().toISOString();
+
+    changes.push({ eventName: record.eventName, newItem, oldItem, changedAt });
+  }
+
+  if (changes.length === 0) {
+    return;
+  }
+
+  try {
+    await getRealtimeService().publish(changes);
+  } catch (error) {
+    logger.error('Realtime stream fan-out failed', error as Error, {
+      recordCount: event.Records.length,
+    });
+    throw error;
+  }
+};
+
+function toTodoItem(image?: Record<string, StreamAttributeValue>): DynamoTodoItem | undefined {
+  if (!image) {
+    return undefined;
+  }
+
+  const item = unmarshall(image as Record<string, AttributeValue>);
+  return item.EntityType === 'TODO' ? (item as DynamoTodoItem) : undefined;
+}
@@ -0,0 +1,119 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ValidationError,
+  createSuccessResponse,
+  logger,
+  ErrorCode,
+} from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import {
+  validatePathParams,
+  validateQueryParams,
+  IdParamSchema,
+  ProjectScopeQuerySchema,
+} from '@/utils/validation';
+import { getTodoService, warmupContainer } from '@/utils/container';
+import { validateJWTToken } from '@/utils/token-validator';
+import { AuthError } from '@/services/todo.service';
+import { DynamoTodoActivityItem } from '@/types/database.types';
+import { ListTodoActivityResponse, TodoActivityResponse } from '@/types/api.types';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+// 한 번에 조회하는 최대 활동 수
+const ACTIVITY_PAGE_SIZE = 100;
+
+/**
+ * GET /todos/{id}/activity - Todo 활동 기록 조회 (최신순, 삭제된 Todo도 조회 가능)
+ * 표준화된 에러 처리 시스템 적용
+ */
+const listTodoActivityHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authHeader = event.headers.Authorization || event.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AuthenticationError(
+        'Missing authorization header',
+        ErrorCode.MISSING_CREDENTIALS,
+        {},
+        correlationId
+      );
+    }
+
+    const authContext = await validateJWTToken(authHeader.substring(7));
+    const { id } = validatePathParams(event.pathParameters, IdParamSchema);
+    const { projectId } = validateQueryParams(event.queryStringParameters, ProjectScopeQuerySchema);
+
+    const queryParams = event.queryStringParameters || {};
+    let limit: number | undefined;
+    if (queryParams.limit) {
+      limit = parseInt(queryParams.limit, 10);
+      if (isNaN(limit) || limit < 1 || limit > ACTIVITY_PAGE_SIZE) {
+        throw new ValidationError(
+          `limit은 1에서 ${ACTIVITY_PAGE_SIZE} 사이여야 합니다`,
+          ErrorCode.INVALID_INPUT,
+          { limit: queryParams.limit },
+          correlationId
+        );
+      }
+    }
+
+    let result;
+    try {
+      result = await getTodoService().listActivity(authContext, id, {
+        projectId,
+        limit,
+        cursor: queryParams.cursor,
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw new AuthorizationError(
+          'Insufficient permissions',
+          ErrorCode.INSUFFICIENT_PERMISSIONS,
+          {},
+          correlationId
+        );
+      }
+      throw error;
+    }
+
+    const responseData: ListTodoActivityResponse = {
+      activities: result.items.map(toTodoActivityResponse),
+      ...(result.cursor && { cursor: result.cursor }),
+    };
+
+    logger.info('Todo activity listed successfully', {
+      correlationId,
+      todoId: id,
+      activityCount: result.items.length,
+    });
+    return createSuccessResponse(responseData);
+  } catch (error) {
+    logger.error('Todo activity listing failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+/**
+ * 활동 기록 아이템을 응답 형태로 변환 (키, TTL 등 저장용 필드 제외)
+ */
+function toTodoActivityResponse(item: DynamoTodoActivityItem): TodoActivityResponse {
+  return {
+    id: item.id,
+    todoId: item.todoId,
+    action: item.action,
+    actorId: item.actorId,
+    actorType: item.actorType,
+    changes: item.changes,
+    correlationId: item.correlationId,
+    occurredAt: item.occurredAt,
+  };
+}
+
+export const handler = withLambdaWrapper(listTodoActivityHandler);
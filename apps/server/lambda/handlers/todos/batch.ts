@@ -0,0 +1,82 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  ValidationError,
+  AuthenticationError,
+  createSuccessResponse,
+  logger,
+  ErrorCode,
+} from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import {
+  parseAndValidate,
+  validateQueryParams,
+  BatchTodosRequestSchema,
+  ProjectScopeQuerySchema,
+} from '@/utils/validation';
+import { getTodoBatchService, warmupContainer } from '@/utils/container';
+import { initializeLambdaContainer } from '@/utils/cold-start-optimizer';
+import { validateJWTToken } from '@/utils/token-validator';
+
+// Lambda Cold Start 최적화 (BatchOperationService가 사용하는 연결 풀 초기화 포함)
+const containerInitPromise = initializeLambdaContainer().catch(error => {
+  logger.error('Container initialization failed', error as Error);
+});
+warmupContainer();
+
+/**
+ * POST /todos/batch - 여러 TODO 생성/수정/삭제를 한 번에 처리
+ * projectId 쿼리를 주면 공유 프로젝트의 Todo에 적용
+ * 작업마다 결과를 반환하며, 일부 작업이 실패해도 요청 전체는 200으로 응답
+ * (처리량 제한으로 처리되지 않은 작업은 retryable: true)
+ */
+const batchTodosHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authHeader = event.headers.Authorization || event.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AuthenticationError(
+        'Missing authorization header',
+        ErrorCode.MISSING_CREDENTIALS,
+        {},
+        correlationId
+      );
+    }
+
+    const authContext = await validateJWTToken(authHeader.substring(7));
+
+    let request;
+    let projectId;
+    try {
+      request = parseAndValidate(event.body, BatchTodosRequestSchema);
+      ({ projectId } = validateQueryParams(event.queryStringParameters, ProjectScopeQuerySchema));
+    } catch (error) {
+      throw new ValidationError(
+        'Invalid batch request',
+        ErrorCode.INVALID_INPUT,
+        { originalError: error instanceof Error ? error.message : 'Unknown validation error' },
+        correlationId
+      );
+    }
+
+    await containerInitPromise;
+    const responseData = await getTodoBatchService().executeBatch(authContext, request.operations, {
+      projectId,
+    });
+
+    logger.info('Todo batch processed', {
+      correlationId,
+      operationCount: request.operations.length,
+      successCount: responseData.successCount,
+      failedCount: responseData.failedCount,
+    });
+    return createSuccessResponse(responseData);
+  } catch (error) {
+    logger.error('Todo batch failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(batchTodosHandler);
@@ -0,0 +1,113 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  ValidationError,
+  AuthenticationError,
+  AuthorizationError,
+  createSuccessResponse,
+  logger,
+  ErrorCode,
+} from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import { getTodoSyncService, warmupContainer } from '@/utils/container';
+import { validateJWTToken } from '@/utils/token-validator';
+import { ProjectScopeQuerySchema } from '@/utils/validation';
+import { AuthError } from '@/services/todo.service';
+import { CHANGES_PAGE_SIZE, TodoSyncError } from '@/services/todo-sync.service';
+import { TodoChangesRequest } from '@/types/api.types';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * GET /todos/changes?since=<token> - 변경 토큰 이후 생성/수정/삭제된 TODO 조회
+ * since 없이 호출하면 전체 목록부터 반환하며, 응답의 token을 다음 호출의 since로 사용
+ * projectId를 주면 공유 프로젝트 Todo의 변경을 조회
+ * 토큰이 잘못됐거나 만료되면 400 (details.reason)으로 응답하며, 클라이언트는 since 없이 다시 시작
+ */
+const todoChangesHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authHeader = event.headers.Authorization || event.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AuthenticationError(
+        'Missing authorization header',
+        ErrorCode.MISSING_CREDENTIALS,
+        {},
+        correlationId
+      );
+    }
+
+    const authContext = await validateJWTToken(authHeader.substring(7));
+
+    const queryParams = event.queryStringParameters || {};
+    const request: TodoChangesRequest = {};
+    if (queryParams.since) {
+      request.since = queryParams.since;
+    }
+    if (queryParams.limit) {
+      const limit = parseInt(queryParams.limit, 10);
+      if (isNaN(limit) || limit < 1 || limit > CHANGES_PAGE_SIZE) {
+        throw new ValidationError(
+          `limit은 1에서 ${CHANGES_PAGE_SIZE} 사이여야 합니다`,
+          ErrorCode.INVALID_INPUT,
+          { limit: queryParams.limit },
+          correlationId
+        );
+      }
+      request.limit = limit;
+    }
+    // 공유 프로젝트 Todo의 변경 (생략하면 개인 Todo)
+    if (queryParams.projectId) {
+      try {
+        request.projectId = ProjectScopeQuerySchema.shape.projectId.parse(queryParams.projectId);
+      } catch (error) {
+        throw new ValidationError(
+          'Invalid project ID',
+          ErrorCode.INVALID_INPUT,
+          { originalError: error instanceof Error ? error.message : 'Unknown validation error' },
+          correlationId
+        );
+      }
+    }
+
+    let responseData;
+    try {
+      responseData = await getTodoSyncService().getChanges(authContext, request);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw new AuthorizationError(
+          'Insufficient permissions',
+          ErrorCode.INSUFFICIENT_PERMISSIONS,
+          {},
+          correlationId
+        );
+      }
+      if (error instanceof TodoSyncError) {
+        throw new ValidationError(
+          error.message,
+          ErrorCode.INVALID_INPUT,
+          { reason: error.code },
+          correlationId
+        );
+      }
+      throw error;
+    }
+
+    logger.info('Todo changes listed successfully', {
+      correlationId,
+      fullSync: responseData.fullSync,
+      todoCount: responseData.todos.length,
+      deletedCount: responseData.deleted.length,
+      hasMore: responseData.hasMore,
+    });
+    return createSuccessResponse(responseData);
+  } catch (error) {
+    logger.error('Todo changes failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(todoChangesHandler);
@@ -10,7 +10,12 @@ import {
   ErrorCode,
 } from '@/utils/error-handler';
 import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
-import { parseAndValidate, CreateTodoRequestSchema } from '@/utils/validation';
+import {
+  parseAndValidate,
+  validateQueryParams,
+  CreateTodoRequestSchema,
+  ProjectScopeQuerySchema,
+} from '@/utils/validation';
 import { getTodoService, warmupContainer } from '@/utils/container';
 import {
   initializeLambdaContainer,
@@ -19,7 +24,8 @@ import {
   logPerformanceMetrics,
 } from '@/utils/cold-start-optimizer';
 import { validateJWTToken } from '@/utils/token-validator';
-import { AuthError } from '@/services/todo.service';
+import { toTodoResponse } from '@/utils/todo-response';
+import { AssignmentError, AuthError } from '@/services/todo.service';
 import { RateLimiter, defaultRateLimits, extractClientIdentifier } from '@/middleware/rate-limiter';
 import { withMetrics } from '@/middleware/metrics-middleware';
 
@@ -302,11 +308,28 @@ const createTodoHandler: LambdaHandler = async (
           { bodyLength: event.body?.length }
         );
 
+        // 공유 프로젝트에 만들 때는 ?projectId= 지정
+        let projectId: string | undefined;
+        try {
+          ({ projectId } = validateQueryParams(
+            event.queryStringParameters,
+            ProjectScopeQuerySchema
+          ));
+        } catch (error) {
+          throw new ValidationError(
+            'Invalid project ID',
+            ErrorCode.INVALID_INPUT,
+            { originalError: error instanceof Error ? error.message : 'Unknown validation error' },
+            correlationId
+          );
+        }
+
         logger.debug('Request validation passed', {
           correlationId,
           operation: 'create_todo',
           title: createTodoRequest.title,
           priority: createTodoRequest.priority,
+          projectId,
         });
 
         // 3. TODO 서비스를 통해 아이템 생성 - X-Ray 추적 적용
@@ -326,7 +349,9 @@ const createTodoHandler: LambdaHandler = async (
             });
 
             try {
-              const todo = await todoService.createTodo(authContext, createTodoRequest);
+              const todo = await todoService.createTodo(authContext, createTodoRequest, {
+                projectId,
+              });
 
               serviceSegment?.addAnnotation('creation_success', true);
               serviceSegment?.addAnnotation('created_todo_id', todo.id);
@@ -361,6 +386,15 @@ const createTodoHandler: LambdaHandler = async (
                 );
               }
 
+              if (error instanceof AssignmentError) {
+                throw new ValidationError(
+                  error.message,
+                  ErrorCode.INVALID_INPUT,
+                  { reason: error.code },
+                  correlationId
+                );
+              }
+
               if (error instanceof Error && error.message.includes('Guest users can only create')) {
                 throw new BusinessError(
                   error.message,
@@ -398,15 +432,7 @@ const createTodoHandler: LambdaHandler = async (
           'prepare-response',
           SubsystemType.SERIALIZATION,
           async responseSegment => {
-            const data = {
-              id: createdTodo.id,
-              title: createdTodo.title,
-              completed: createdTodo.completed,
-              priority: createdTodo.priority,
-              dueDate: createdTodo.dueDate,
-              createdAt: createdTodo.createdAt,
-              updatedAt: createdTodo.updatedAt,
-            };
+            const data = toTodoResponse(createdTodo);
 
             responseSegment?.addAnnotation('response_fields', Object.keys(data).length);
             responseSegment?.addAnnotation('response_size', JSON.stringify(data).length);
@@ -2,23 +2,29 @@ import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda
 import {
   AuthenticationError,
   AuthorizationError,
+  ConflictError,
   NotFoundError,
   createSuccessResponse,
   logger,
   ErrorCode,
 } from '@/utils/error-handler';
 import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
-import { validatePathParams, IdParamSchema } from '@/utils/validation';
+import {
+  validatePathParams,
+  validateQueryParams,
+  IdParamSchema,
+  ProjectScopeQuerySchema,
+} from '@/utils/validation';
 import { getTodoService, warmupContainer } from '@/utils/container';
 import { validateJWTToken } from '@/utils/token-validator';
 import { AuthError } from '@/services/todo.service';
-import { ItemNotFoundError } from '@/types/database.types';
+import { ConcurrentModificationError, ItemNotFoundError } from '@/types/database.types';
 
 // Lambda Cold Start 최적화
 warmupContainer();
 
 /**
- * DELETE /todos/{id} - TODO 아이템 삭제
+ * DELETE /todos/{id} - TODO 아이템 삭제 (휴지통으로 이동, 30일 안에 복원 가능)
  * 표준화된 에러 처리 시스템 적용
  */
 const deleteTodoHandler: LambdaHandler = async (
@@ -40,11 +46,12 @@ const deleteTodoHandler: LambdaHandler = async (
 
     const authContext = await validateJWTToken(authHeader.substring(7));
     const { id } = validatePathParams(event.pathParameters, IdParamSchema);
+    const { projectId } = validateQueryParams(event.queryStringParameters, ProjectScopeQuerySchema);
 
     const todoService = getTodoService();
 
     try {
-      await todoService.deleteTodo(authContext, id);
+      await todoService.deleteTodo(authContext, id, { projectId });
     } catch (error) {
       if (error instanceof ItemNotFoundError) {
         throw new NotFoundError(
@@ -54,6 +61,9 @@ const deleteTodoHandler: LambdaHandler = async (
           correlationId
         );
       }
+      if (error instanceof ConcurrentModificationError) {
+        throw new ConflictError(error.message, ErrorCode.RESOURCE_CONFLICT, {}, correlationId);
+      }
       if (error instanceof AuthError) {
         throw new AuthorizationError(
           'Insufficient permissions',
@@ -0,0 +1,93 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  ValidationError,
+  AuthenticationError,
+  AuthorizationError,
+  createSuccessResponse,
+  logger,
+  ErrorCode,
+} from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import {
+  parseAndValidate,
+  validateQueryParams,
+  ExportTodosRequestSchema,
+  ProjectScopeQuerySchema,
+} from '@/utils/validation';
+import { getTodoTransferService, warmupContainer } from '@/utils/container';
+import { validateJWTToken } from '@/utils/token-validator';
+import { AuthError } from '@/services/todo.service';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * POST /todos/export - 전체 TODO를 JSON 또는 CSV로 내보내기
+ * projectId 쿼리를 주면 공유 프로젝트의 TODO를 내보냄
+ * 파일 내용은 data: URL로 반환 (클라이언트에서 바로 다운로드 링크로 사용)
+ */
+const exportTodosHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authHeader = event.headers.Authorization || event.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AuthenticationError(
+        'Missing authorization header',
+        ErrorCode.MISSING_CREDENTIALS,
+        {},
+        correlationId
+      );
+    }
+
+    const authContext = await validateJWTToken(authHeader.substring(7));
+
+    let request;
+    let projectId;
+    try {
+      // 본문 없이 호출하면 JSON으로 내보내기
+      request = parseAndValidate(event.body || '{}', ExportTodosRequestSchema);
+      ({ projectId } = validateQueryParams(event.queryStringParameters, ProjectScopeQuerySchema));
+    } catch (error) {
+      throw new ValidationError(
+        'Invalid export request',
+        ErrorCode.INVALID_INPUT,
+        { originalError: error instanceof Error ? error.message : 'Unknown validation error' },
+        correlationId
+      );
+    }
+
+    let responseData;
+    try {
+      responseData = await getTodoTransferService().exportTodos(
+        authContext,
+        request.format ?? 'json',
+        { projectId }
+      );
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw new AuthorizationError(
+          'Insufficient permissions',
+          ErrorCode.INSUFFICIENT_PERMISSIONS,
+          {},
+          correlationId
+        );
+      }
+      throw error;
+    }
+
+    logger.info('Todos exported successfully', {
+      correlationId,
+      format: responseData.format,
+      totalItems: responseData.totalItems,
+    });
+    return createSuccessResponse(responseData);
+  } catch (error) {
+    logger.error('Todo export failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(exportTodosHandler);
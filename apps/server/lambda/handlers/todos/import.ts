@@ -0,0 +1,102 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  ValidationError,
+  AuthenticationError,
+  AuthorizationError,
+  createSuccessResponse,
+  logger,
+  ErrorCode,
+} from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import {
+  parseAndValidate,
+  validateQueryParams,
+  ImportTodosRequestSchema,
+  ProjectScopeQuerySchema,
+} from '@/utils/validation';
+import { getTodoTransferService, warmupContainer } from '@/utils/container';
+import { validateJWTToken } from '@/utils/token-validator';
+import { AuthError } from '@/services/todo.service';
+import { TodoTransferError } from '@/services/todo-transfer.service';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * POST /todos/import - JSON 또는 CSV로 TODO 가져오기
+ * projectId 쿼리를 주면 공유 프로젝트에 가져옴
+ * 행마다 따로 검증하며, 실패한 행은 건너뛰고 응답의 errors에 행 번호와 함께 보고
+ */
+const importTodosHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authHeader = event.headers.Authorization || event.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AuthenticationError(
+        'Missing authorization header',
+        ErrorCode.MISSING_CREDENTIALS,
+        {},
+        correlationId
+      );
+    }
+
+    const authContext = await validateJWTToken(authHeader.substring(7));
+
+    let request;
+    let projectId;
+    try {
+      request = parseAndValidate(event.body, ImportTodosRequestSchema);
+      ({ projectId } = validateQueryParams(event.queryStringParameters, ProjectScopeQuerySchema));
+    } catch (error) {
+      throw new ValidationError(
+        'Invalid import request',
+        ErrorCode.INVALID_INPUT,
+        { originalError: error instanceof Error ? error.message : 'Unknown validation error' },
+        correlationId
+      );
+    }
+
+    let responseData;
+    try {
+      responseData = await getTodoTransferService().importTodos(authContext, request, {
+        projectId,
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw new AuthorizationError(
+          'Insufficient permissions',
+          ErrorCode.INSUFFICIENT_PERMISSIONS,
+          {},
+          correlationId
+        );
+      }
+      if (error instanceof TodoTransferError) {
+        throw new ValidationError(
+          error.message,
+          ErrorCode.INVALID_INPUT,
+          { reason: error.code, ...error.details },
+          correlationId
+        );
+      }
+      throw error;
+    }
+
+    logger.info('Todos imported successfully', {
+      correlationId,
+      format: request.format,
+      importedCount: responseData.importedCount,
+      updatedCount: responseData.updatedCount,
+      skippedCount: responseData.skippedCount,
+      errorCount: responseData.errors.length,
+    });
+    return createSuccessResponse(responseData);
+  } catch (error) {
+    logger.error('Todo import failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(importTodosHandler);
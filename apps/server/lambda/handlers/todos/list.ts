@@ -1,5 +1,6 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
 import {
+  AppError,
   AuthenticationError,
   AuthorizationError,
   ValidationError,
@@ -13,6 +14,14 @@ import { validateJWTToken } from '@/utils/token-validator';
 import { AuthError } from '@/services/todo.service';
 import { Priority } from '@/types/constants';
 import { ListTodosRequest } from '@/types/api.types';
+import {
+  ProjectScopeQuerySchema,
+  SearchQuerySchema,
+  TagSchema,
+  TimeZoneSchema,
+} from '@/utils/validation';
+import { DUE_DATE_VIEWS, DueDateView } from '@/utils/due-date';
+import { toTodoResponse } from '@/utils/todo-response';
 
 // Lambda Cold Start 최적화
 warmupContainer();
@@ -97,6 +106,106 @@ const listTodosHandler: LambdaHandler = async (
       listRequest.priority = queryParams.priority as Priority;
     }
 
+    // 태그 필터 (저장 시와 같은 정화 규칙 적용)
+    if (queryParams.tag) {
+      try {
+        listRequest.tag = TagSchema.parse(queryParams.tag);
+      } catch (error) {
+        throw new ValidationError(
+          'Invalid tag filter',
+          ErrorCode.INVALID_INPUT,
+          { originalError: error instanceof Error ? error.message : 'Unknown validation error' },
+          correlationId
+        );
+      }
+    }
+
+    // 제목 검색 (접두사 검색 기본, match=substring 지정 시 부분 문자열 검색)
+    if (queryParams.q) {
+      try {
+        listRequest.q = SearchQuerySchema.parse(queryParams.q);
+      } catch (error) {
+        throw new ValidationError(
+          'Invalid search query',
+          ErrorCode.INVALID_INPUT,
+          { originalError: error instanceof Error ? error.message : 'Unknown validation error' },
+          correlationId
+        );
+      }
+
+      if (queryParams.match) {
+        if (queryParams.match !== 'prefix' && queryParams.match !== 'substring') {
+          throw new ValidationError(
+            'Invalid search match mode',
+            ErrorCode.INVALID_INPUT,
+            { match: queryParams.match, allowed: ['prefix', 'substring'] },
+            correlationId
+          );
+        }
+        listRequest.match = queryParams.match;
+      }
+    }
+
+    // 마감일 보기 (overdue, today, week) - 하루 경계는 tz(IANA 시간대, 기본값 UTC) 기준
+    if (queryParams.due) {
+      if (!DUE_DATE_VIEWS.includes(queryParams.due as DueDateView)) {
+        throw new ValidationError(
+          'Invalid due date view',
+          ErrorCode.INVALID_INPUT,
+          { due: queryParams.due, allowed: DUE_DATE_VIEWS },
+          correlationId
+        );
+      }
+      listRequest.due = queryParams.due as DueDateView;
+
+      if (queryParams.tz) {
+        try {
+          listRequest.timeZone = TimeZoneSchema.parse(queryParams.tz);
+        } catch (error) {
+          throw new ValidationError(
+            'Invalid time zone',
+            ErrorCode.INVALID_INPUT,
+            { originalError: error instanceof Error ? error.message : 'Unknown validation error' },
+            correlationId
+          );
+        }
+      }
+    }
+
+    // 공유 프로젝트 Todo 조회 (생략하면 개인 Todo)
+    if (queryParams.projectId) {
+      try {
+        listRequest.projectId = ProjectScopeQuerySchema.shape.projectId.parse(
+          queryParams.projectId
+        );
+      } catch (error) {
+        throw new ValidationError(
+          'Invalid project ID',
+          ErrorCode.INVALID_INPUT,
+          { originalError: error instanceof Error ? error.message : 'Unknown validation error' },
+          correlationId
+        );
+      }
+    }
+
+    // 나에게 할당된 Todo (프로젝트 구분 없이)
+    if (queryParams.assignee) {
+      if (queryParams.assignee !== 'me') {
+        throw new ValidationError(
+          'Invalid assignee filter',
+          ErrorCode.INVALID_INPUT,
+          { assignee: queryParams.assignee, allowed: ['me'] },
+          correlationId
+        );
+      }
+      listRequest.assignee = 'me';
+    }
+
+    // 수동 정렬 (다른 정렬 기준은 클라이언트가 처리하므로 무시)
+    if (queryParams.sortBy === 'manual') {
+      listRequest.sortBy = 'manual';
+    }
+
     // 페이지네이션
     if (queryParams.limit) {
       const limit = parseInt(queryParams.limit, 10);
@@ -127,6 +236,11 @@ const listTodosHandler: LambdaHandler = async (
         listRequest,
       });
 
+      // 잘못된 커서 등 서비스가 이미 분류한 에러는 그대로 전달
+      if (error instanceof AppError) {
+        throw error;
+      }
+
       if (error instanceof AuthError) {
         throw new AuthorizationError(
           'Insufficient permissions to list TODO items',
@@ -146,20 +260,12 @@ const listTodosHandler: LambdaHandler = async (
 
     // 4. 응답 데이터 변환 (DynamoDB 내부 필드 제거)
     const responseData = {
-      todos: result.items.map(todo => ({
-        id: todo.id,
-        title: todo.title,
-        completed: todo.completed,
-        priority: todo.priority,
-        dueDate: todo.dueDate,
-        createdAt: todo.createdAt,
-        updatedAt: todo.updatedAt,
-      })),
+      todos: result.items.map(toTodoResponse),
       pagination: {
         count: result.count,
         scannedCount: result.scannedCount,
         cursor: result.cursor,
-        hasMore: !!result.lastEvaluatedKey,
+        hasMore: !!result.cursor,
       },
     };
 
@@ -0,0 +1,79 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  createSuccessResponse,
+  logger,
+  ErrorCode,
+} from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import {
+  validatePathParams,
+  validateQueryParams,
+  IdParamSchema,
+  ProjectScopeQuerySchema,
+} from '@/utils/validation';
+import { getTodoService, warmupContainer } from '@/utils/container';
+import { validateJWTToken } from '@/utils/token-validator';
+import { AuthError } from '@/services/todo.service';
+import { ItemNotFoundError } from '@/types/database.types';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * DELETE /todos/trash/{id} - 휴지통 TODO 영구 삭제 (복원할 수 없음)
+ * 표준화된 에러 처리 시스템 적용
+ */
+const purgeTodoHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authHeader = event.headers.Authorization || event.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AuthenticationError(
+        'Missing authorization header',
+        ErrorCode.MISSING_CREDENTIALS,
+        {},
+        correlationId
+      );
+    }
+
+    const authContext = await validateJWTToken(authHeader.substring(7));
+    const { id } = validatePathParams(event.pathParameters, IdParamSchema);
+    const { projectId } = validateQueryParams(event.queryStringParameters, ProjectScopeQuerySchema);
+
+    try {
+      await getTodoService().purgeTodo(authContext, id, { projectId });
+    } catch (error) {
+      if (error instanceof ItemNotFoundError) {
+        throw new NotFoundError(
+          `Trashed TODO item with id ${id} not found`,
+          ErrorCode.TODO_NOT_FOUND,
+          {},
+          correlationId
+        );
+      }
+      if (error instanceof AuthError) {
+        throw new AuthorizationError(
+          'Insufficient permissions',
+          ErrorCode.INSUFFICIENT_PERMISSIONS,
+          {},
+          correlationId
+        );
+      }
+      throw error;
+    }
+
+    logger.info('TODO purged successfully', { correlationId, todoId: id });
+    return createSuccessResponse({ message: 'TODO purged successfully' }, 204);
+  } catch (error) {
+    logger.error('TODO purge failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(purgeTodoHandler);
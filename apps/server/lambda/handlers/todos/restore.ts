@@ -0,0 +1,81 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  createSuccessResponse,
+  logger,
+  ErrorCode,
+} from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import {
+  validatePathParams,
+  validateQueryParams,
+  IdParamSchema,
+  ProjectScopeQuerySchema,
+} from '@/utils/validation';
+import { getTodoService, warmupContainer } from '@/utils/container';
+import { validateJWTToken } from '@/utils/token-validator';
+import { AuthError } from '@/services/todo.service';
+import { toTodoResponse } from '@/utils/todo-response';
+import { ItemNotFoundError } from '@/types/database.types';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * POST /todos/{id}/restore - 휴지통 TODO 복원
+ * 표준화된 에러 처리 시스템 적용
+ */
+const restoreTodoHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authHeader = event.headers.Authorization || event.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AuthenticationError(
+        'Missing authorization header',
+        ErrorCode.MISSING_CREDENTIALS,
+        {},
+        correlationId
+      );
+    }
+
+    const authContext = await validateJWTToken(authHeader.substring(7));
+    const { id } = validatePathParams(event.pathParameters, IdParamSchema);
+    const { projectId } = validateQueryParams(event.queryStringParameters, ProjectScopeQuerySchema);
+
+    let restoredTodo;
+    try {
+      restoredTodo = await getTodoService().restoreTodo(authContext, id, { projectId });
+    } catch (error) {
+      if (error instanceof ItemNotFoundError) {
+        throw new NotFoundError(
+          `Trashed TODO item with id ${id} not found`,
+          ErrorCode.TODO_NOT_FOUND,
+          {},
+          correlationId
+        );
+      }
+      if (error instanceof AuthError) {
+        throw new AuthorizationError(
+          'Insufficient permissions',
+          ErrorCode.INSUFFICIENT_PERMISSIONS,
+          {},
+          correlationId
+        );
+      }
+      throw error;
+    }
+
+    logger.info('TODO restored successfully', { correlationId, todoId: id });
+    return createSuccessResponse(toTodoResponse(restoredTodo));
+  } catch (error) {
+    logger.error('TODO restore failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(restoreTodoHandler);
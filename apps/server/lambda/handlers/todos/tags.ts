@@ -0,0 +1,69 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  createSuccessResponse,
+  logger,
+  ErrorCode,
+} from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import { getTodoService, warmupContainer } from '@/utils/container';
+import { validateQueryParams, ProjectScopeQuerySchema } from '@/utils/validation';
+import { validateJWTToken } from '@/utils/token-validator';
+import { AuthError } from '@/services/todo.service';
+import { ListTagsResponse } from '@/types/api.types';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+/**
+ * GET /tags - 태그 목록과 태그별 사용 횟수 조회
+ * 표준화된 에러 처리 시스템 적용
+ */
+const listTagsHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authHeader = event.headers.Authorization || event.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AuthenticationError(
+        'Missing authorization header',
+        ErrorCode.MISSING_CREDENTIALS,
+        {},
+        correlationId
+      );
+    }
+
+    const authContext = await validateJWTToken(authHeader.substring(7));
+    const { projectId } = validateQueryParams(event.queryStringParameters, ProjectScopeQuerySchema);
+
+    const todoService = getTodoService();
+    let tags;
+
+    try {
+      tags = await todoService.listTags(authContext, { projectId });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw new AuthorizationError(
+          'Insufficient permissions',
+          ErrorCode.INSUFFICIENT_PERMISSIONS,
+          {},
+          correlationId
+        );
+      }
+      throw error;
+    }
+
+    const responseData: ListTagsResponse = { tags };
+
+    logger.info('Tags listed successfully', { correlationId, tagCount: tags.length });
+    return createSuccessResponse(responseData);
+  } catch (error) {
+    logger.error('Tag listing failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+export const handler = withLambdaWrapper(listTagsHandler);
@@ -0,0 +1,109 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ValidationError,
+  createSuccessResponse,
+  logger,
+  ErrorCode,
+} from '@/utils/error-handler';
+import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
+import { validateQueryParams, ProjectScopeQuerySchema } from '@/utils/validation';
+import { getTodoService, warmupContainer } from '@/utils/container';
+import { validateJWTToken } from '@/utils/token-validator';
+import { AuthError } from '@/services/todo.service';
+import { toTodoResponse } from '@/utils/todo-response';
+import { DynamoTodoTrashItem } from '@/types/database.types';
+import { ListTrashResponse, TrashedTodoResponse } from '@/types/api.types';
+
+// Lambda Cold Start 최적화
+warmupContainer();
+
+// 한 번에 조회하는 최대 휴지통 Todo 수
+const TRASH_PAGE_SIZE = 100;
+
+/**
+ * GET /todos/trash - 휴지통 Todo 목록 조회 (30일이 지나면 자동으로 영구 삭제)
+ * 표준화된 에러 처리 시스템 적용
+ */
+const listTrashHandler: LambdaHandler = async (
+  event: APIGatewayProxyEvent,
+  _context: Context,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const authHeader = event.headers.Authorization || event.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw new AuthenticationError(
+        'Missing authorization header',
+        ErrorCode.MISSING_CREDENTIALS,
+        {},
+        correlationId
+      );
+    }
+
+    const authContext = await validateJWTToken(authHeader.substring(7));
+    const { projectId } = validateQueryParams(event.queryStringParameters, ProjectScopeQuerySchema);
+
+    const queryParams = event.queryStringParameters || {};
+    let limit: number | undefined;
+    if (queryParams.limit) {
+      limit = parseInt(queryParams.limit, 10);
+      if (isNaN(limit) || limit < 1 || limit > TRASH_PAGE_SIZE) {
+        throw new ValidationError(
+          `limit은 1에서 ${TRASH_PAGE_SIZE} 사이여야 합니다`,
+          ErrorCode.INVALID_INPUT,
+          { limit: queryParams.limit },
+          correlationId
+        );
+      }
+    }
+
+    let result;
+    try {
+      result = await getTodoService().listTrash(authContext, {
+        projectId,
+        limit,
+        cursor: queryParams.cursor,
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw new AuthorizationError(
+          'Insufficient permissions',
+          ErrorCode.INSUFFICIENT_PERMISSIONS,
+          {},
+          correlationId
+        );
+      }
+      throw error;
+    }
+
+    const responseData: ListTrashResponse = {
+      todos: result.items.map(toTrashedTodoResponse),
+      ...(result.cursor && { cursor: result.cursor }),
+    };
+
+    logger.info('Trash listed successfully', {
+      correlationId,
+      trashCount: result.items.length,
+    });
+    return createSuccessResponse(responseData);
+  } catch (error) {
+    logger.error('Trash listing failed', error as Error, { correlationId });
+    throw error;
+  }
+};
+
+/**
+ * 휴지통 아이템을 응답 형태로 변환
+ */
+function toTrashedTodoResponse(item: DynamoTodoTrashItem): TrashedTodoResponse {
+  return {
+    todo: toTodoResponse(item.todo),
+    deletedAt: item.deletedAt,
+    deletedBy: item.deletedBy,
+    expiresAt: new Date(item.ttl * 1000).toISOString(),
+  };
+}
+
+export const handler = withLambdaWrapper(listTrashHandler);
@@ -1,6 +1,8 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
 import {
   AuthenticationError,
+  ConflictError,
+  ValidationError,
   createSuccessResponse,
   logger,
   ErrorCode,
@@ -9,11 +11,17 @@ import { withLambdaWrapper, LambdaHandler } from '@/utils/lambda-wrapper';
 import {
   parseAndValidate,
   validatePathParams,
+  validateQueryParams,
   UpdateTodoRequestSchema,
   IdParamSchema,
+  ProjectScopeQuerySchema,
+  parseIfMatchVersion,
 } from '@/utils/validation';
 import { getTodoService, warmupContainer } from '@/utils/container';
 import { validateJWTToken } from '@/utils/token-validator';
+import { VersionConflictError } from '@/types/database.types';
+import { toTodoResponse } from '@/utils/todo-response';
+import { AssignmentError } from '@/services/todo.service';
 
 // Lambda Cold Start 최적화
 warmupContainer();
@@ -21,6 +29,7 @@ warmupContainer();
 /**
  * PUT /todos/{id} - TODO 아이템 업데이트
  * 표준화된 에러 처리 시스템 적용
+ * If-Match 헤더 또는 본문의 expectedVersion으로 기준 버전을 주면, 버전이 다를 때 409와 함께 서버 사본 반환
  */
 const updateTodoHandler: LambdaHandler = async (
   event: APIGatewayProxyEvent,
@@ -41,27 +50,89 @@ const updateTodoHandler: LambdaHandler = async (
 
     const authContext = await validateJWTToken(authHeader.substring(7));
     const { id } = validatePathParams(event.pathParameters, IdParamSchema);
-    const updateTodoRequest = parseAndValidate(event.body, UpdateTodoRequestSchema);
+    const { projectId } = validateQueryParams(event.queryStringParameters, ProjectScopeQuerySchema);
+    const { expectedVersion: bodyVersion, ...updateTodoRequest } = parseAndValidate(
+      event.body,
+      UpdateTodoRequestSchema
+    );
+    const expectedVersion = resolveExpectedVersion(
+      event.headers['If-Match'] ?? event.headers['if-match'],
+      bodyVersion,
+      correlationId
+    );
 
     const todoService = getTodoService();
-    const updatedTodo = await todoService.updateTodo(authContext, id, updateTodoRequest);
+    let updatedTodo;
+    try {
+      updatedTodo = await todoService.updateTodo(authContext, id, updateTodoRequest, {
+        expectedVersion,
+        projectId,
+      });
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        throw new ConflictError(
+          'Todo has been modified by another request',
+          ErrorCode.RESOURCE_CONFLICT,
+          {
+            reason: 'VERSION_CONFLICT',
+            expectedVersion: error.expectedVersion,
+            currentVersion: error.current.version ?? 1,
+            serverTodo: toTodoResponse(error.current),
+          },
+          correlationId
+        );
+      }
+      if (error instanceof AssignmentError) {
+        throw new ValidationError(
+          error.message,
+          ErrorCode.INVALID_INPUT,
+          { reason: error.code },
+          correlationId
+        );
+      }
+      throw error;
+    }
 
-    const responseData = {
-      id: updatedTodo.id,
-      title: updatedTodo.title,
-      completed: updatedTodo.completed,
-      priority: updatedTodo.priority,
-      dueDate: updatedTodo.dueDate,
-      createdAt: updatedTodo.createdAt,
-      updatedAt: updatedTodo.updatedAt,
-    };
+    const responseData = toTodoResponse(updatedTodo);
 
     logger.info('TODO updated successfully', { correlationId, todoId: id });
-    return createSuccessResponse(responseData);
+    return createSuccessResponse(responseData, 200, { ETag: `"${responseData.version}"` });
   } catch (error) {
     logger.error('TODO update failed', error as Error, { correlationId });
     throw error;
   }
 };
 
+/**
+ * If-Match 헤더와 본문 expectedVersion 중 주어진 기준 버전 반환 (둘 다 있으면 같아야 함)
+ */
+function resolveExpectedVersion(
+  ifMatch: string | undefined,
+  bodyVersion: number | undefined,
+  correlationId: string
+): number | undefined {
+  let headerVersion: number | undefined;
+  try {
+    headerVersion = parseIfMatchVersion(ifMatch);
+  } catch (error) {
+    throw new ValidationError(
+      (error as Error).message,
+      ErrorCode.INVALID_FORMAT,
+      { header: 'If-Match' },
+      correlationId
+    );
+  }
+
+  if (headerVersion !== undefined && bodyVersion !== undefined && headerVersion !== bodyVersion) {
+    throw new ValidationError(
+      'If-Match 헤더와 expectedVersion이 다릅니다',
+      ErrorCode.INVALID_INPUT,
+      { headerVersion, bodyVersion },
+      correlationId
+    );
+  }
+
+  return headerVersion ?? bodyVersion;
+}
+
 export const handler = withLambdaWrapper(updateTodoHandler);
@@ -0,0 +1,111 @@
+/**
+ * DynamoDB TodoActivityRepository 구현체
+ * Todo 활동 기록(USER#<id> / TODO#<todoId>#EVT#<occurredAt>#<eventId>)을 추가하고 조회
+ * 기록은 덮어쓰거나 수정하지 않음 (Todo 삭제 시에도 deleteChildItems가 남겨 둠)
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoQueryResult, DynamoTodoActivityItem } from '../types/database.types';
+import { DynamoKeyBuilder, QUERY_PATTERNS } from '../utils/database-schema';
+import { NewTodoActivity, TodoActivityRepository } from '../services/todo.service';
+import { getDynamoDBClient } from './todo-repository';
+import { logger } from '../utils/logger';
+
+/**
+ * DynamoDB TodoActivityRepository 구현체
+ */
+export class DynamoDBTodoActivityRepository implements TodoActivityRepository {
+  private readonly docClient: DynamoDBDocumentClient;
+  private readonly tableName: string;
+
+  constructor(dynamoClient: DynamoDBClient) {
+    this.docClient = DynamoDBDocumentClient.from(dynamoClient, {
+      marshallOptions: {
+        convertEmptyValues: false,
+        removeUndefinedValues: true,
+        convertClassInstanceToMap: false,
+      },
+      unmarshallOptions: {
+        wrapNumbers: false,
+      },
+    });
+
+    this.tableName = process.env.DYNAMODB_TABLE_NAME || '';
+
+    if (!this.tableName) {
+      throw new Error('DYNAMODB_TABLE_NAME environment variable is required');
+    }
+  }
+
+  /**
+   * 활동 기록 추가 (같은 키가 이미 있으면 실패)
+   */
+  async append(userId: string, activity: NewTodoActivity): Promise<DynamoTodoActivityItem> {
+    const item: DynamoTodoActivityItem = {
+      ...DynamoKeyBuilder.todoActivity(userId, activity.todoId, activity.occurredAt, activity.id),
+      EntityType: 'TODO_ACTIVITY',
+      ...activity,
+    };
+
+    try {
+      await this.docClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: item,
+          ConditionExpression: 'attribute_not_exists(PK)',
+        })
+      );
+
+      return item;
+    } catch (error) {
+      logger.error('Failed to append todo activity', error as Error, {
+        userId,
+        todoId: activity.todoId,
+        action: activity.action,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Todo의 활동 기록 조회 (최신순)
+   */
+  async findByTodo(
+    userId: string,
+    todoId: string,
+    options: { limit?: number; cursor?: string } = {}
+  ): Promise<DynamoQueryResult<DynamoTodoActivityItem>> {
+    try {
+      const response = await this.docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: QUERY_PATTERNS.GET_TODO_ACTIVITY.keyCondition,
+          ExpressionAttributeValues: QUERY_PATTERNS.GET_TODO_ACTIVITY.values(userId, todoId),
+          ScanIndexForward: false, // 최신순
+          Limit: options.limit,
+          ExclusiveStartKey: options.cursor ? JSON.parse(options.cursor) : undefined,
+        })
+      );
+
+      return {
+        items: (response.Items as DynamoTodoActivityItem[]) || [],
+        lastEvaluatedKey: response.LastEvaluatedKey,
+        count: response.Count || 0,
+        scannedCount: response.ScannedCount || 0,
+        cursor: response.LastEvaluatedKey ? JSON.stringify(response.LastEvaluatedKey) : undefined,
+      };
+    } catch (error) {
+      logger.error('Failed to find todo activity', error as Error, { userId, todoId });
+      throw error;
+    }
+  }
+}
+
+/**
+ * TodoActivityRepository 팩토리 함수
+ */
+export function createTodoActivityRepository(): TodoActivityRepository {
+  const client = getDynamoDBClient();
+  return new DynamoDBTodoActivityRepository(client);
+}
@@ -0,0 +1,341 @@
+/**
+ * DynamoDB ChecklistRepository 구현체
+ * 체크리스트 항목(USER#<id> / TODO#<todoId>#ITEM#<itemId>)을 관리하고
+ * 부모 Todo의 진행률 카운터(checklistTotal, checklistCompleted)를 같은 트랜잭션으로 갱신
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoChecklistItem,
+  ConcurrentModificationError,
+  ItemNotFoundError,
+} from '../types/database.types';
+import { DynamoKeyBuilder, GSI4KeyBuilder, QUERY_PATTERNS } from '../utils/database-schema';
+import { ChecklistRepository, NewChecklistItem } from '../services/checklist.service';
+import { getDynamoDBClient } from './todo-repository';
+import { logger } from '../utils/logger';
+
+type TransactItems = NonNullable<
+  ConstructorParameters<typeof TransactWriteCommand>[0]['TransactItems']
+>;
+
+/**
+ * DynamoDB ChecklistRepository 구현체
+ */
+export class DynamoDBChecklistRepository implements ChecklistRepository {
+  private readonly docClient: DynamoDBDocumentClient;
+  private readonly tableName: string;
+
+  constructor(dynamoClient: DynamoDBClient) {
+    this.docClient = DynamoDBDocumentClient.from(dynamoClient, {
+      marshallOptions: {
+        convertEmptyValues: false,
+        removeUndefinedValues: true,
+        convertClassInstanceToMap: false,
+      },
+      unmarshallOptions: {
+        wrapNumbers: false,
+      },
+    });
+
+    this.tableName = process.env.DYNAMODB_TABLE_NAME || '';
+
+    if (!this.tableName) {
+      throw new Error('DYNAMODB_TABLE_NAME environment variable is required');
+    }
+  }
+
+  /**
+   * Todo의 체크리스트 항목 전체 조회 (표시 순서대로 정렬)
+   */
+  async findByTodo(userId: string, todoId: string): Promise<DynamoChecklistItem[]> {
+    try {
+      const items: DynamoChecklistItem[] = [];
+      let exclusiveStartKey: Record<string, unknown> | undefined;
+
+      do {
+        const response = await this.docClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            KeyConditionExpression: QUERY_PATTERNS.GET_CHECKLIST_ITEMS.keyCondition,
+            ExpressionAttributeValues: QUERY_PATTERNS.GET_CHECKLIST_ITEMS.values(userId, todoId),
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        );
+
+        items.push(...((response.Items as DynamoChecklistItem[]) || []));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return items.sort((a, b) => a.position - b.position || a.createdAt.localeCompare(b.createdAt));
+    } catch (error) {
+      logger.error('Failed to find checklist items', error as Error, { userId, todoId });
+      throw error;
+    }
+  }
+
+  /**
+   * 체크리스트 항목 단건 조회
+   */
+  async findById(
+    userId: string,
+    todoId: string,
+    itemId: string
+  ): Promise<DynamoChecklistItem | null> {
+    try {
+      const response = await this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: DynamoKeyBuilder.checklistItem(userId, todoId, itemId),
+        })
+      );
+
+      return (response.Item as DynamoChecklistItem) || null;
+    } catch (error) {
+      logger.error('Failed to find checklist item', error as Error, { userId, todoId, itemId });
+      throw error;
+    }
+  }
+
+  /**
+   * 체크리스트 항목 생성 + 부모 Todo 카운터 증가
+   */
+  async create(newItem: NewChecklistItem): Promise<DynamoChecklistItem> {
+    const now = new Date().toISOString();
+
+    const item: DynamoChecklistItem = {
+      ...DynamoKeyBuilder.checklistItem(newItem.userId, newItem.todoId, newItem.id),
+      EntityType: 'CHECKLIST_ITEM',
+      id: newItem.id,
+      todoId: newItem.todoId,
+      userId: newItem.userId,
+      title: newItem.title,
+      completed: newItem.completed,
+      position: newItem.position,
+      createdAt: now,
+      updatedAt: now,
+      ttl: newItem.ttl,
+    };
+
+    try {
+      await this.docClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Put: {
+                TableName: this.tableName,
+                Item: item,
+                ConditionExpression: 'attribute_not_exists(PK)',
+              },
+            },
+            this.progressUpdate(newItem.userId, newItem.todoId, 1, newItem.completed ? 1 : 0, now),
+          ],
+        })
+      );
+
+      return item;
+    } catch (error) {
+      if (this.isConditionFailure(error, 1)) {
+        throw new ItemNotFoundError('Todo', newItem.todoId);
+      }
+
+      logger.error('Failed to create checklist item', error as Error, {
+        userId: newItem.userId,
+        todoId: newItem.todoId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 체크리스트 항목 수정 (완료 여부가 바뀌면 부모 Todo 카운터도 갱신)
+   * 읽은 시점의 완료 여부를 조건으로 걸어 카운터가 어긋나지 않도록 함
+   */
+  async update(
+    item: DynamoChecklistItem,
+    updates: { title?: string; completed?: boolean }
+  ): Promise<DynamoChecklistItem> {
+    const now = new Date().toISOString();
+    const nextTitle = updates.title ?? item.title;
+    const nextCompleted = updates.completed ?? item.completed;
+    const completedDelta =
+      nextCompleted === item.completed ? 0 : nextCompleted ? 1 : -1;
+
+    const transactItems: TransactItems = [
+      {
+        Update: {
+          TableName: this.tableName,
+          Key: DynamoKeyBuilder.checklistItem(item.userId, item.todoId, item.id),
+          UpdateExpression: 'SET #title = :title, #completed = :completed, #updatedAt = :updatedAt',
+          ConditionExpression: '#completed = :previousCompleted',
+          ExpressionAttributeNames: {
+            '#title': 'title',
+            '#completed': 'completed',
+            '#updatedAt': 'updatedAt',
+          },
+          ExpressionAttributeValues: {
+            ':title': nextTitle,
+            ':completed': nextCompleted,
+            ':previousCompleted': item.completed,
+            ':updatedAt': now,
+          },
+        },
+      },
+    ];
+
+    if (completedDelta !== 0) {
+      transactItems.push(this.progressUpdate(item.userId, item.todoId, 0, completedDelta, now));
+    }
+
+    try {
+      await this.docClient.send(new TransactWriteCommand({ TransactItems: transactItems }));
+
+      return { ...item, title: nextTitle, completed: nextCompleted, updatedAt: now };
+    } catch (error) {
+      if (this.isConditionFailure(error, 0)) {
+        throw new ConcurrentModificationError('ChecklistItem', item.id);
+      }
+      if (this.isConditionFailure(error, 1)) {
+        throw new ItemNotFoundError('Todo', item.todoId);
+      }
+
+      logger.error('Failed to update checklist item', error as Error, {
+        userId: item.userId,
+        todoId: item.todoId,
+        itemId: item.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 체크리스트 항목 삭제 + 부모 Todo 카운터 감소
+   */
+  async delete(item: DynamoChecklistItem): Promise<void> {
+    const now = new Date().toISOString();
+
+    try {
+      await this.docClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Delete: {
+                TableName: this.tableName,
+                Key: DynamoKeyBuilder.checklistItem(item.userId, item.todoId, item.id),
+                ConditionExpression: '#completed = :completed',
+                ExpressionAttributeNames: { '#completed': 'completed' },
+                ExpressionAttributeValues: { ':completed': item.completed },
+              },
+            },
+            this.progressUpdate(item.userId, item.todoId, -1, item.completed ? -1 : 0, now),
+          ],
+        })
+      );
+    } catch (error) {
+      if (this.isConditionFailure(error, 0)) {
+        throw new ConcurrentModificationError('ChecklistItem', item.id);
+      }
+
+      logger.error('Failed to delete checklist item', error as Error, {
+        userId: item.userId,
+        todoId: item.todoId,
+        itemId: item.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 체크리스트 항목 순서 변경 (전달된 순서대로 position 재할당, 하나의 트랜잭션)
+   */
+  async reorder(userId: string, todoId: string, itemIds: string[]): Promise<void> {
+    const now = new Date().toISOString();
+
+    try {
+      await this.docClient.send(
+        new TransactWriteCommand({
+          TransactItems: itemIds.map((itemId, position) => ({
+            Update: {
+              TableName: this.tableName,
+              Key: DynamoKeyBuilder.checklistItem(userId, todoId, itemId),
+              UpdateExpression: 'SET #position = :position, #updatedAt = :updatedAt',
+              ConditionExpression: 'attribute_exists(PK)',
+              ExpressionAttributeNames: { '#position': 'position', '#updatedAt': 'updatedAt' },
+              ExpressionAttributeValues: { ':position': position, ':updatedAt': now },
+            },
+          })),
+        })
+      );
+    } catch (error) {
+      const cancellationReasons = (error as { CancellationReasons?: Array<{ Code?: string }> })
+        .CancellationReasons;
+      if (cancellationReasons?.some(reason => reason?.Code === 'ConditionalCheckFailed')) {
+        throw new ConcurrentModificationError('Checklist', todoId);
+      }
+
+      logger.error('Failed to reorder checklist items', error as Error, { userId, todoId });
+      throw error;
+    }
+  }
+
+  /**
+   * 부모 Todo 진행률 카운터 갱신 트랜잭션 항목 (부모가 없으면 조건 실패)
+   * 부모 Todo가 바뀐 것이므로 version도 올려 다른 기기의 낙관적 잠금/동기화가 변경을 감지하게 함
+   */
+  private progressUpdate(
+    userId: string,
+    todoId: string,
+    totalDelta: number,
+    completedDelta: number,
+    updatedAt: string
+  ): TransactItems[number] {
+    const { GSI4PK, GSI4SK } = GSI4KeyBuilder.change(userId, updatedAt, todoId);
+
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: DynamoKeyBuilder.todoItem(userId, todoId),
+        UpdateExpression:
+          'ADD #checklistTotal :totalDelta, #checklistCompleted :completedDelta, #version :one ' +
+          'SET #updatedAt = :updatedAt, #gsi4pk = :gsi4pk, #gsi4sk = :gsi4sk',
+        ConditionExpression: 'attribute_exists(PK)',
+        ExpressionAttributeNames: {
+          '#checklistTotal': 'checklistTotal',
+          '#checklistCompleted': 'checklistCompleted',
+          '#version': 'version',
+          '#updatedAt': 'updatedAt',
+          '#gsi4pk': 'GSI4PK',
+          '#gsi4sk': 'GSI4SK',
+        },
+        ExpressionAttributeValues: {
+          ':totalDelta': totalDelta,
+          ':completedDelta': completedDelta,
+          ':one': 1,
+          ':updatedAt': updatedAt,
+          ':gsi4pk': GSI4PK,
+          ':gsi4sk': GSI4SK,
+        },
+      },
+    };
+  }
+
+  private isConditionFailure(error: unknown, index: number): boolean {
+    const cancellationReasons = (error as { CancellationReasons?: Array<{ Code?: string }> })
+      .CancellationReasons;
+    return cancellationReasons?.[index]?.Code === 'ConditionalCheckFailed';
+  }
+}
+
+/**
+ * ChecklistRepository 팩토리 함수
+ */
+export function createChecklistRepository(): ChecklistRepository {
+  const client = getDynamoDBClient();
+  return new DynamoDBChecklistRepository(client);
+}
@@ -0,0 +1,177 @@
+/**
+ * DynamoDB ConnectionRepository 구현체
+ * WebSocket 연결을 사용자 파티션 아이템(USER#<id> / CONNECTION#<connectionId>)과
+ * 연결 ID 조회 아이템(CONNECTION#<connectionId> / METADATA) 두 개로 관리
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { DynamoConnectionItem, DynamoConnectionLookupItem } from '../types/database.types';
+import { DynamoKeyBuilder, KEY_PATTERNS } from '../utils/database-schema';
+import { ConnectionRepository } from '../services/realtime.service';
+import { getDynamoDBClient } from './todo-repository';
+import { logger } from '../utils/logger';
+
+/**
+ * DynamoDB ConnectionRepository 구현체
+ */
+export class DynamoDBConnectionRepository implements ConnectionRepository {
+  private readonly docClient: DynamoDBDocumentClient;
+  private readonly tableName: string;
+
+  constructor(dynamoClient: DynamoDBClient) {
+    this.docClient = DynamoDBDocumentClient.from(dynamoClient, {
+      marshallOptions: {
+        convertEmptyValues: false,
+        removeUndefinedValues: true,
+        convertClassInstanceToMap: false,
+      },
+      unmarshallOptions: {
+        wrapNumbers: false,
+      },
+    });
+
+    this.tableName = process.env.DYNAMODB_TABLE_NAME || '';
+
+    if (!this.tableName) {
+      throw new Error('DYNAMODB_TABLE_NAME environment variable is required');
+    }
+  }
+
+  /**
+   * 연결 저장 (두 아이템을 원자적으로 기록)
+   */
+  async save(userId: string, connectionId: string, ttl: number): Promise<void> {
+    const connection: DynamoConnectionItem = {
+      ...DynamoKeyBuilder.connection(userId, connectionId),
+      EntityType: 'CONNECTION',
+      userId,
+      connectionId,
+      connectedAt: new Date().toISOString(),
+      ttl,
+    };
+    const lookup: DynamoConnectionLookupItem = {
+      ...DynamoKeyBuilder.connectionLookup(connectionId),
+      EntityType: 'CONNECTION_LOOKUP',
+      userId,
+      connectionId,
+      ttl,
+    };
+
+    try {
+      await this.docClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            { Put: { TableName: this.tableName, Item: connection } },
+            { Put: { TableName: this.tableName, Item: lookup } },
+          ],
+        })
+      );
+    } catch (error) {
+      logger.error('Failed to save connection', error as Error, { userId, connectionId });
+      throw error;
+    }
+  }
+
+  /**
+   * 연결 ID로 사용자 ID 조회
+   */
+  async findUserId(connectionId: string): Promise<string | null> {
+    try {
+      const response = await this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: DynamoKeyBuilder.connectionLookup(connectionId),
+        })
+      );
+
+      return (response.Item as DynamoConnectionLookupItem | undefined)?.userId ?? null;
+    } catch (error) {
+      logger.error('Failed to find connection', error as Error, { connectionId });
+      throw error;
+    }
+  }
+
+  /**
+   * 연결 삭제 (두 아이템을 원자적으로 삭제, 없는 아이템이어도 성공)
+   */
+  async remove(userId: string, connectionId: string): Promise<void> {
+    try {
+      await this.docClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Delete: {
+                TableName: this.tableName,
+                Key: DynamoKeyBuilder.connection(userId, connectionId),
+              },
+            },
+            {
+              Delete: {
+                TableName: this.tableName,
+                Key: DynamoKeyBuilder.connectionLookup(connectionId),
+              },
+            },
+          ],
+        })
+      );
+    } catch (error) {
+      logger.error('Failed to remove connection', error as Error, { userId, connectionId });
+      throw error;
+    }
+  }
+
+  /**
+   * 사용자의 연결 ID 목록 조회 (TTL이 지났지만 아직 삭제되지 않은 연결 제외)
+   */
+  async listByUser(userId: string): Promise<string[]> {
+    try {
+      const connectionIds: string[] = [];
+      const now = Math.floor(Date.now() / 1000);
+      let exclusiveStartKey: Record<string, unknown> | undefined;
+
+      do {
+        const response = await this.docClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+            FilterExpression: '#ttl > :now',
+            ExpressionAttributeNames: { '#ttl': 'ttl' },
+            ExpressionAttributeValues: {
+              ':pk': `${KEY_PATTERNS.USER_PROFILE}${userId}`,
+              ':sk': KEY_PATTERNS.CONNECTION,
+              ':now': now,
+            },
+            ProjectionExpression: 'connectionId',
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        );
+
+        connectionIds.push(
+          ...((response.Items as Array<Pick<DynamoConnectionItem, 'connectionId'>>) || []).map(
+            item => item.connectionId
+          )
+        );
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return connectionIds;
+    } catch (error) {
+      logger.error('Failed to list connections', error as Error, { userId });
+      throw error;
+    }
+  }
+}
+
+/**
+ * ConnectionRepository 팩토리 함수
+ */
+export function createConnectionRepository(): ConnectionRepository {
+  const client = getDynamoDBClient();
+  return new DynamoDBConnectionRepository(client);
+}
@@ -0,0 +1,199 @@
+/**
+ * DynamoDB PasswordResetCodeRepository 구현체
+ * 비밀번호 재설정 코드를 TTL이 있는 1회용 아이템(USER#<id> / PWRESET#<codeHash>)으로 관리
+ * 확인 실패 횟수는 사용자당 1개의 카운터 아이템(USER#<id> / PWRESET_ATTEMPTS)으로 관리
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoPasswordResetAttemptsItem,
+  DynamoPasswordResetCodeItem,
+} from '../types/database.types';
+import { DynamoKeyBuilder } from '../utils/database-schema';
+import { PasswordResetCodeRepository, NewPasswordResetCode } from '../services/auth.service';
+import { getDynamoDBClient } from './todo-repository';
+import { logger } from '../utils/logger';
+
+/**
+ * DynamoDB PasswordResetCodeRepository 구현체
+ */
+export class DynamoDBPasswordResetCodeRepository implements PasswordResetCodeRepository {
+  private readonly docClient: DynamoDBDocumentClient;
+  private readonly tableName: string;
+
+  constructor(dynamoClient: DynamoDBClient) {
+    this.docClient = DynamoDBDocumentClient.from(dynamoClient, {
+      marshallOptions: {
+        convertEmptyValues: false,
+        removeUndefinedValues: true,
+        convertClassInstanceToMap: false,
+      },
+      unmarshallOptions: {
+        wrapNumbers: false,
+      },
+    });
+
+    this.tableName = process.env.DYNAMODB_TABLE_NAME || '';
+
+    if (!this.tableName) {
+      throw new Error('DYNAMODB_TABLE_NAME environment variable is required');
+    }
+  }
+
+  /**
+   * 재설정 코드 저장
+   */
+  async save(code: NewPasswordResetCode): Promise<void> {
+    const item: DynamoPasswordResetCodeItem = {
+      ...DynamoKeyBuilder.passwordResetCode(code.userId, code.codeHash),
+      EntityType: 'PASSWORD_RESET_CODE',
+      userId: code.userId,
+      codeHash: code.codeHash,
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(code.ttl * 1000).toISOString(),
+      ttl: code.ttl,
+    };
+
+    try {
+      await this.docClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: item,
+        })
+      );
+    } catch (error) {
+      logger.error('Failed to save password reset code', error as Error, {
+        userId: code.userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 재설정 코드 사용 (조건부 삭제로 1회만 성공)
+   * DynamoDB TTL 삭제는 지연될 수 있으므로 만료 시각도 조건에 포함
+   * 코드가 없거나 만료되었으면 false 반환
+   */
+  async consume(userId: string, codeHash: string): Promise<boolean> {
+    try {
+      await this.docClient.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: DynamoKeyBuilder.passwordResetCode(userId, codeHash),
+          ConditionExpression: 'attribute_exists(PK) AND #ttl > :now',
+          ExpressionAttributeNames: { '#ttl': 'ttl' },
+          ExpressionAttributeValues: { ':now': Math.floor(Date.now() / 1000) },
+        })
+      );
+
+      return true;
+    } catch (error) {
+      if ((error as Error).name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+
+      logger.error('Failed to consume password reset code', error as Error, { userId });
+      throw error;
+    }
+  }
+
+  /**
+   * 잠금 기간 안의 확인 실패 횟수 (TTL 삭제가 지연된 만료 카운터는 0으로 취급)
+   */
+  async countFailedAttempts(userId: string): Promise<number> {
+    try {
+      const result = await this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: DynamoKeyBuilder.passwordResetAttempts(userId),
+        })
+      );
+
+      const item = result.Item as DynamoPasswordResetAttemptsItem | undefined;
+      if (!item || item.ttl <= Math.floor(Date.now() / 1000)) {
+        return 0;
+      }
+      return item.attempts;
+    } catch (error) {
+      logger.error('Failed to get password reset attempts', error as Error, { userId });
+      throw error;
+    }
+  }
+
+  /**
+   * 확인 실패 1회 기록 후 누적 횟수 반환
+   * 잠금 기간(ttl)은 첫 실패 때 정해지며, 기간이 지난 카운터는 새로 시작
+   */
+  async recordFailedAttempt(userId: string, ttl: number): Promise<number> {
+    const key = DynamoKeyBuilder.passwordResetAttempts(userId);
+
+    try {
+      const result = await this.docClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: key,
+          UpdateExpression: 'ADD attempts :one',
+          ConditionExpression: 'attribute_exists(PK) AND #ttl > :now',
+          ExpressionAttributeNames: { '#ttl': 'ttl' },
+          ExpressionAttributeValues: { ':one': 1, ':now': Math.floor(Date.now() / 1000) },
+          ReturnValues: 'UPDATED_NEW',
+        })
+      );
+
+      return (result.Attributes?.attempts as number | undefined) ?? 1;
+    } catch (error) {
+      if ((error as Error).name !== 'ConditionalCheckFailedException') {
+        logger.error('Failed to record password reset attempt', error as Error, { userId });
+        throw error;
+      }
+    }
+
+    const item: DynamoPasswordResetAttemptsItem = {
+      ...key,
+      EntityType: 'PASSWORD_RESET_ATTEMPTS',
+      userId,
+      attempts: 1,
+      ttl,
+    };
+
+    try {
+      await this.docClient.send(new PutCommand({ TableName: this.tableName, Item: item }));
+      return 1;
+    } catch (error) {
+      logger.error('Failed to record password reset attempt', error as Error, { userId });
+      throw error;
+    }
+  }
+
+  /**
+   * 확인 실패 횟수 초기화 (재설정 성공 시)
+   */
+  async clearFailedAttempts(userId: string): Promise<void> {
+    try {
+      await this.docClient.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: DynamoKeyBuilder.passwordResetAttempts(userId),
+        })
+      );
+    } catch (error) {
+      logger.error('Failed to clear password reset attempts', error as Error, { userId });
+      throw error;
+    }
+  }
+}
+
+/**
+ * PasswordResetCodeRepository 팩토리 함수
+ */
+export function createPasswordResetCodeRepository(): PasswordResetCodeRepository {
+  const client = getDynamoDBClient();
+  return new DynamoDBPasswordResetCodeRepository(client);
+}
@@ -0,0 +1,225 @@
+/**
+ * DynamoDB ProjectRepository 구현체
+ * 프로젝트 아이템(PROJECT#<id> / METADATA)과 멤버 아이템(PROJECT#<id> / MEMBER#<userId>)을
+ * 같은 파티션에 저장하고, 멤버 아이템의 GSI1(USER#<userId>#PROJECTS)로 사용자의 프로젝트 목록 조회
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { DynamoProjectItem, DynamoProjectMemberItem } from '../types/database.types';
+import { DynamoKeyBuilder, GSI1KeyBuilder, QUERY_PATTERNS } from '../utils/database-schema';
+import { NewProject, NewProjectMember, ProjectRepository } from '../services/project.service';
+import { getDynamoDBClient } from './todo-repository';
+import { logger } from '../utils/logger';
+
+/**
+ * DynamoDB ProjectRepository 구현체
+ */
+export class DynamoDBProjectRepository implements ProjectRepository {
+  private readonly docClient: DynamoDBDocumentClient;
+  private readonly tableName: string;
+
+  constructor(dynamoClient: DynamoDBClient) {
+    this.docClient = DynamoDBDocumentClient.from(dynamoClient, {
+      marshallOptions: {
+        convertEmptyValues: false,
+        removeUndefinedValues: true,
+        convertClassInstanceToMap: false,
+      },
+      unmarshallOptions: {
+        wrapNumbers: false,
+      },
+    });
+
+    this.tableName = process.env.DYNAMODB_TABLE_NAME || '';
+
+    if (!this.tableName) {
+      throw new Error('DYNAMODB_TABLE_NAME environment variable is required');
+    }
+  }
+
+  /**
+   * 프로젝트와 owner 멤버를 원자적으로 저장
+   */
+  async create(project: NewProject, owner: NewProjectMember): Promise<DynamoProjectMemberItem> {
+    const now = new Date().toISOString();
+    const projectItem: DynamoProjectItem = {
+      ...DynamoKeyBuilder.project(project.id),
+      EntityType: 'PROJECT',
+      id: project.id,
+      name: project.name,
+      ownerId: project.ownerId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const ownerItem = buildMemberItem(owner, now);
+
+    try {
+      await this.docClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Put: {
+                TableName: this.tableName,
+                Item: projectItem,
+                ConditionExpression: 'attribute_not_exists(PK)',
+              },
+            },
+            { Put: { TableName: this.tableName, Item: ownerItem } },
+          ],
+        })
+      );
+
+      return ownerItem;
+    } catch (error) {
+      logger.error('Failed to create project', error as Error, { projectId: project.id });
+      throw error;
+    }
+  }
+
+  /**
+   * 프로젝트 멤버 조회
+   */
+  async findMember(projectId: string, userId: string): Promise<DynamoProjectMemberItem | null> {
+    try {
+      const response = await this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: DynamoKeyBuilder.projectMember(projectId, userId),
+        })
+      );
+
+      return (response.Item as DynamoProjectMemberItem | undefined) ?? null;
+    } catch (error) {
+      logger.error('Failed to find project member', error as Error, { projectId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * 프로젝트 멤버 목록 조회
+   */
+  async listMembers(projectId: string): Promise<DynamoProjectMemberItem[]> {
+    try {
+      return await this.queryAll({
+        KeyConditionExpression: QUERY_PATTERNS.GET_PROJECT_MEMBERS.keyCondition,
+        ExpressionAttributeValues: QUERY_PATTERNS.GET_PROJECT_MEMBERS.values(projectId),
+      });
+    } catch (error) {
+      logger.error('Failed to list project members', error as Error, { projectId });
+      throw error;
+    }
+  }
+
+  /**
+   * 사용자가 속한 프로젝트의 멤버 아이템 목록 조회
+   */
+  async listByUser(userId: string): Promise<DynamoProjectMemberItem[]> {
+    try {
+      return await this.queryAll({
+        IndexName: QUERY_PATTERNS.GET_USER_PROJECTS.indexName,
+        KeyConditionExpression: QUERY_PATTERNS.GET_USER_PROJECTS.keyCondition,
+        ExpressionAttributeValues: QUERY_PATTERNS.GET_USER_PROJECTS.values(userId),
+      });
+    } catch (error) {
+      logger.error('Failed to list user projects', error as Error, { userId });
+      throw error;
+    }
+  }
+
+  /**
+   * 멤버 저장 (이미 있으면 덮어씀)
+   */
+  async saveMember(member: NewProjectMember): Promise<DynamoProjectMemberItem> {
+    const memberItem = buildMemberItem(member, new Date().toISOString());
+
+    try {
+      await this.docClient.send(new PutCommand({ TableName: this.tableName, Item: memberItem }));
+      return memberItem;
+    } catch (error) {
+      logger.error('Failed to save project member', error as Error, {
+        projectId: member.projectId,
+        userId: member.userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 멤버 삭제
+   */
+  async removeMember(projectId: string, userId: string): Promise<void> {
+    try {
+      await this.docClient.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: DynamoKeyBuilder.projectMember(projectId, userId),
+        })
+      );
+    } catch (error) {
+      logger.error('Failed to remove project member', error as Error, { projectId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * 모든 페이지를 이어서 조회 (멤버/프로젝트 목록은 작으므로 한 번에 반환)
+   */
+  private async queryAll(
+    params: Pick<
+      ConstructorParameters<typeof QueryCommand>[0],
+      'IndexName' | 'KeyConditionExpression' | 'ExpressionAttributeValues'
+    >
+  ): Promise<DynamoProjectMemberItem[]> {
+    const items: DynamoProjectMemberItem[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const response = await this.docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          ...params,
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+
+      items.push(...((response.Items as DynamoProjectMemberItem[]) || []));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+}
+
+/**
+ * 프로젝트 멤버 아이템 생성
+ */
+function buildMemberItem(member: NewProjectMember, addedAt: string): DynamoProjectMemberItem {
+  return {
+    ...DynamoKeyBuilder.projectMember(member.projectId, member.userId),
+    EntityType: 'PROJECT_MEMBER',
+    ...GSI1KeyBuilder.userProjects(member.userId, member.projectId),
+    projectId: member.projectId,
+    projectName: member.projectName,
+    userId: member.userId,
+    email: member.email,
+    role: member.role,
+    addedAt: member.addedAt ?? addedAt,
+    addedBy: member.addedBy,
+  };
+}
+
+/**
+ * ProjectRepository 팩토리 함수
+ */
+export function createProjectRepository(): ProjectRepository {
+  const client = getDynamoDBClient();
+  return new DynamoDBProjectRepository(client);
+}
@@ -0,0 +1,252 @@
+/**
+ * DynamoDB RefreshSessionRepository 구현체
+ * 리프레시 토큰을 1회용 세션 아이템(USER#<id> / REFRESH#<familyId>#<tokenId>)으로 관리
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  BatchWriteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { DynamoRefreshSessionItem } from '../types/database.types';
+import { DynamoKeyBuilder, KEY_PATTERNS } from '../utils/database-schema';
+import { RefreshSessionRepository, NewRefreshSession } from '../services/auth.service';
+import { getDynamoDBClient } from './todo-repository';
+import { logger } from '../utils/logger';
+
+// BatchWriteItem 최대 요청 수 (DynamoDB 제한)
+const BATCH_WRITE_LIMIT = 25;
+
+/**
+ * DynamoDB RefreshSessionRepository 구현체
+ */
+export class DynamoDBRefreshSessionRepository implements RefreshSessionRepository {
+  private readonly docClient: DynamoDBDocumentClient;
+  private readonly tableName: string;
+
+  constructor(dynamoClient: DynamoDBClient) {
+    this.docClient = DynamoDBDocumentClient.from(dynamoClient, {
+      marshallOptions: {
+        convertEmptyValues: false,
+        removeUndefinedValues: true,
+        convertClassInstanceToMap: false,
+      },
+      unmarshallOptions: {
+        wrapNumbers: false,
+      },
+    });
+
+    this.tableName = process.env.DYNAMODB_TABLE_NAME || '';
+
+    if (!this.tableName) {
+      throw new Error('DYNAMODB_TABLE_NAME environment variable is required');
+    }
+  }
+
+  /**
+   * 새 세션 저장 (로그인/회원가입 시 새 패밀리의 첫 토큰)
+   */
+  async create(session: NewRefreshSession): Promise<void> {
+    try {
+      await this.docClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: this.toItem(session),
+          ConditionExpression: 'attribute_not_exists(PK)',
+        })
+      );
+    } catch (error) {
+      logger.error('Failed to create refresh session', error as Error, {
+        userId: session.userId,
+        familyId: session.familyId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 세션 조회
+   */
+  async find(
+    userId: string,
+    familyId: string,
+    tokenId: string
+  ): Promise<DynamoRefreshSessionItem | null> {
+    try {
+      const response = await this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: DynamoKeyBuilder.refreshSession(userId, familyId, tokenId),
+        })
+      );
+
+      return (response.Item as DynamoRefreshSessionItem) || null;
+    } catch (error) {
+      logger.error('Failed to find refresh session', error as Error, { userId, familyId });
+      throw error;
+    }
+  }
+
+  /**
+   * 세션 회전 - 현재 토큰을 rotated로 표시하고 다음 토큰을 저장 (원자적)
+   * 현재 토큰이 active가 아니면 false 반환
+   */
+  async rotate(
+    current: { userId: string; familyId: string; tokenId: string },
+    next: NewRefreshSession
+  ): Promise<boolean> {
+    const now = new Date().toISOString();
+
+    try {
+      await this.docClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Update: {
+                TableName: this.tableName,
+                Key: DynamoKeyBuilder.refreshSession(
+                  current.userId,
+                  current.familyId,
+                  current.tokenId
+                ),
+                UpdateExpression:
+                  'SET #status = :rotated, #rotatedAt = :now, #replacedBy = :replacedBy',
+                ConditionExpression: '#status = :active',
+                ExpressionAttributeNames: {
+                  '#status': 'status',
+                  '#rotatedAt': 'rotatedAt',
+                  '#replacedBy': 'replacedBy',
+                },
+                ExpressionAttributeValues: {
+                  ':rotated': 'rotated',
+                  ':active': 'active',
+                  ':now': now,
+                  ':replacedBy': next.tokenId,
+                },
+              },
+            },
+            {
+              Put: {
+                TableName: this.tableName,
+                Item: this.toItem(next),
+                ConditionExpression: 'attribute_not_exists(PK)',
+              },
+            },
+          ],
+        })
+      );
+
+      return true;
+    } catch (error) {
+      const cancellationReasons = (error as { CancellationReasons?: Array<{ Code?: string }> })
+        .CancellationReasons;
+      if (cancellationReasons?.[0]?.Code === 'ConditionalCheckFailed') {
+        return false;
+      }
+
+      logger.error('Failed to rotate refresh session', error as Error, {
+        userId: current.userId,
+        familyId: current.familyId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 토큰 패밀리 전체 폐기
+   */
+  async revokeFamily(userId: string, familyId: string): Promise<number> {
+    return this.deleteByPrefix(userId, `${KEY_PATTERNS.REFRESH_SESSION}${familyId}#`);
+  }
+
+  /**
+   * 사용자의 모든 세션 폐기 (로그아웃, 비밀번호 변경)
+   */
+  async revokeAll(userId: string): Promise<number> {
+    return this.deleteByPrefix(userId, KEY_PATTERNS.REFRESH_SESSION);
+  }
+
+  /**
+   * SK 접두사로 세션 키를 조회한 뒤 배치 삭제
+   */
+  private async deleteByPrefix(userId: string, skPrefix: string): Promise<number> {
+    try {
+      const keys: Array<{ PK: string; SK: string }> = [];
+      let exclusiveStartKey: Record<string, unknown> | undefined;
+
+      do {
+        const response = await this.docClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+            ExpressionAttributeValues: {
+              ':pk': `${KEY_PATTERNS.USER_PROFILE}${userId}`,
+              ':sk': skPrefix,
+            },
+            ProjectionExpression: 'PK, SK',
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        );
+
+        keys.push(...((response.Items as Array<{ PK: string; SK: string }>) || []));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      for (let i = 0; i < keys.length; i += BATCH_WRITE_LIMIT) {
+        let requests = keys
+          .slice(i, i + BATCH_WRITE_LIMIT)
+          .map(key => ({ DeleteRequest: { Key: key } }));
+        let retryCount = 0;
+
+        // 처리되지 않은 항목은 지수 백오프로 재시도
+        while (requests.length > 0) {
+          const response = await this.docClient.send(
+            new BatchWriteCommand({ RequestItems: { [this.tableName]: requests } })
+          );
+          requests = (response.UnprocessedItems?.[this.tableName] as typeof requests) || [];
+
+          if (requests.length > 0) {
+            if (retryCount >= 3) {
+              throw new Error(`Failed to revoke ${requests.length} refresh sessions`);
+            }
+            await new Promise(resolve => setTimeout(resolve, Math.pow(2, retryCount) * 100));
+            retryCount++;
+          }
+        }
+      }
+
+      logger.info('Refresh sessions revoked', { userId, revokedCount: keys.length });
+
+      return keys.length;
+    } catch (error) {
+      logger.error('Failed to revoke refresh sessions', error as Error, { userId });
+      throw error;
+    }
+  }
+
+  private toItem(session: NewRefreshSession): DynamoRefreshSessionItem {
+    return {
+      ...DynamoKeyBuilder.refreshSession(session.userId, session.familyId, session.tokenId),
+      EntityType: 'REFRESH_SESSION',
+      userId: session.userId,
+      familyId: session.familyId,
+      tokenId: session.tokenId,
+      status: 'active',
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(session.ttl * 1000).toISOString(),
+      ttl: session.ttl,
+    };
+  }
+}
+
+/**
+ * RefreshSessionRepository 팩토리 함수
+ */
+export function createRefreshSessionRepository(): RefreshSessionRepository {
+  const client = getDynamoDBClient();
+  return new DynamoDBRefreshSessionRepository(client);
+}
@@ -8,15 +8,53 @@ import {
   DynamoDBDocumentClient,
   PutCommand,
   GetCommand,
+  DeleteCommand,
   QueryCommand,
   UpdateCommand,
-  DeleteCommand,
+  BatchGetCommand,
+  BatchWriteCommand,
+  TransactWriteCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { Priority } from '../types/constants';
-import { DynamoTodoItem, DynamoQueryResult, ItemNotFoundError } from '../types/database.types';
+import {
+  DynamoChecklistItem,
+  DynamoTodoItem,
+  DynamoTodoTagItem,
+  DynamoTodoTombstoneItem,
+  DynamoTodoTrashItem,
+  DynamoKey,
+  DynamoQueryResult,
+  ConcurrentModificationError,
+  ItemNotFoundError,
+  VersionConflictError,
+  TagUsage,
+  TitleSearchMatch,
+} from '../types/database.types';
+import { DueDateRange } from '../utils/due-date';
 import { TodoRepository } from '../services/todo.service';
+import {
+  DynamoKeyBuilder,
+  GSI2KeyBuilder,
+  GSI3KeyBuilder,
+  GSI4KeyBuilder,
+  GSI5KeyBuilder,
+  QUERY_PATTERNS,
+  TTLBuilder,
+  normalizeTag,
+  todoPartitionKey,
+  todoPartitionOwner,
+} from '../utils/database-schema';
 import { logger } from '../utils/logger';
 
+// BatchGetItem 최대 요청 수 (DynamoDB 제한)
+const BATCH_GET_LIMIT = 100;
+
+// BatchWriteItem 최대 요청 수 (DynamoDB 제한)
+const BATCH_WRITE_LIMIT = 25;
+
+// 전체 목록 조회 시 한 번에 평가할 최소 아이템 수 (하위 아이템이 많아도 왕복 횟수를 줄임)
+const FIND_ALL_MIN_PAGE_SIZE = 100;
+
 /**
  * DynamoDB TodoRepository 구현체
  */
@@ -55,37 +93,58 @@ export class DynamoDBTodoRepository implements TodoRepository {
       | 'GSI1SK'
       | 'GSI2PK'
       | 'GSI2SK'
+      | 'GSI4PK'
+      | 'GSI4SK'
       | 'EntityType'
       | 'createdAt'
       | 'updatedAt'
     >
   ): Promise<DynamoTodoItem> {
     const now = new Date().toISOString();
+    // 프로젝트 Todo는 프로젝트 파티션에 저장
+    const ownerId = todoPartitionOwner(todoData);
 
     const dynamoTodo: DynamoTodoItem = {
       // 기본 필드
       id: todoData.id,
       userId: todoData.userId,
+      projectId: todoData.projectId,
+      assigneeId: todoData.assigneeId,
+      assignmentHistory: todoData.assignmentHistory,
       title: todoData.title,
+      description: todoData.description,
       completed: todoData.completed || false,
       priority: todoData.priority || Priority.MEDIUM,
       dueDate: todoData.dueDate,
+      tags: todoData.tags,
+      recurrence: todoData.recurrence,
+      timeZone: todoData.timeZone,
+      rank: todoData.rank,
       isGuest: todoData.isGuest || false,
       sessionId: todoData.sessionId,
       ttl: todoData.ttl,
+      version: 1,
 
       // DynamoDB 키 구조
-      PK: `USER#${todoData.userId}`,
+      PK: todoPartitionKey(ownerId),
       SK: `TODO#${todoData.id}`,
       EntityType: 'TODO',
 
       // GSI1: 상태별 검색 (완료/미완료) + 우선순위 정렬
-      GSI1PK: `USER#${todoData.userId}#STATUS#${todoData.completed || false}`,
+      GSI1PK: `${todoPartitionKey(ownerId)}#STATUS#${todoData.completed || false}`,
       GSI1SK: `PRIORITY#${todoData.priority || Priority.MEDIUM}#${now}`,
 
       // GSI2: 제목 검색용
-      GSI2PK: `USER#${todoData.userId}`,
-      GSI2SK: `TITLE#${todoData.title.toLowerCase()}#${now}`,
+      ...GSI2KeyBuilder.titleSearch(ownerId, todoData.title, now),
+
+      // GSI3: 마감일 조회용 (마감일이 있을 때만)
+      ...(todoData.dueDate && GSI3KeyBuilder.dueDate(ownerId, todoData.dueDate)),
+
+      // GSI4: 변경 조회용
+      ...GSI4KeyBuilder.change(ownerId, now, todoData.id),
+
+      // GSI5: 담당자 조회용 (담당자가 있을 때만)
+      ...(todoData.assigneeId && GSI5KeyBuilder.assignee(todoData.assigneeId, now, todoData.id)),
 
       // 타임스탬프
       createdAt: now,
@@ -126,7 +185,7 @@ export class DynamoDBTodoRepository implements TodoRepository {
         new GetCommand({
           TableName: this.tableName,
           Key: {
-            PK: `USER#${userId}`,
+            PK: todoPartitionKey(userId),
             SK: `TODO#${todoId}`,
           },
         })
@@ -144,32 +203,61 @@ export class DynamoDBTodoRepository implements TodoRepository {
 
   /**
    * 사용자의 모든 Todo 조회 (페이지네이션 지원)
+   * 체크리스트 항목/활동 기록이 같은 TODO# 접두사를 쓰므로 필터 후 limit개가 찰 때까지 이어서 조회
    */
   async findAll(
     userId: string,
     options: { limit?: number; cursor?: string } = {}
   ): Promise<DynamoQueryResult<DynamoTodoItem>> {
     try {
-      const response = await this.docClient.send(
-        new QueryCommand({
-          TableName: this.tableName,
-          KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
-          ExpressionAttributeValues: {
-            ':pk': `USER#${userId}`,
-            ':sk': 'TODO#',
-          },
-          ScanIndexForward: false, // 최신 순 정렬
-          Limit: options.limit,
-          ExclusiveStartKey: options.cursor ? JSON.parse(options.cursor) : undefined,
-        })
-      );
+      const items: DynamoTodoItem[] = [];
+      let startKey: Record<string, unknown> | undefined = options.cursor
+        ? JSON.parse(options.cursor)
+        : undefined;
+      let scannedCount = 0;
+
+      do {
+        const response = await this.docClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+            // 같은 SK 접두사를 쓰는 하위 아이템(체크리스트 항목 등) 제외
+            FilterExpression: 'EntityType = :entityType',
+            ExpressionAttributeValues: {
+              ':pk': todoPartitionKey(userId),
+              ':sk': 'TODO#',
+              ':entityType': 'TODO',
+            },
+            ScanIndexForward: false, // 최신 순 정렬
+            Limit:
+              options.limit !== undefined
+                ? Math.max(options.limit - items.length, FIND_ALL_MIN_PAGE_SIZE)
+                : undefined,
+            ExclusiveStartKey: startKey,
+          })
+        );
+
+        const page = (response.Items as DynamoTodoItem[]) || [];
+        scannedCount += response.ScannedCount || 0;
+        startKey = response.LastEvaluatedKey;
+
+        // limit을 넘게 받았으면 잘라내고 마지막으로 돌려준 Todo 다음부터 이어서 조회
+        if (options.limit !== undefined && items.length + page.length > options.limit) {
+          const kept = page.slice(0, options.limit - items.length);
+          const last = kept[kept.length - 1];
+          items.push(...kept);
+          startKey = { PK: last.PK, SK: last.SK };
+          break;
+        }
+        items.push(...page);
+      } while (startKey && options.limit !== undefined && items.length < options.limit);
 
       return {
-        items: (response.Items as DynamoTodoItem[]) || [],
-        lastEvaluatedKey: response.LastEvaluatedKey,
-        count: response.Count || 0,
-        scannedCount: response.ScannedCount || 0,
-        cursor: response.LastEvaluatedKey ? JSON.stringify(response.LastEvaluatedKey) : undefined,
+        items,
+        lastEvaluatedKey: startKey as DynamoKey | undefined,
+        count: items.length,
+        scannedCount,
+        cursor: startKey ? JSON.stringify(startKey) : undefined,
       };
     } catch (error) {
       logger.error('Failed to find all todos', error as Error, { userId });
@@ -192,7 +280,7 @@ export class DynamoDBTodoRepository implements TodoRepository {
           IndexName: 'GSI1',
           KeyConditionExpression: 'GSI1PK = :gsi1pk',
           ExpressionAttributeValues: {
-            ':gsi1pk': `USER#${userId}#STATUS#${completed}`,
+            ':gsi1pk': `${todoPartitionKey(userId)}#STATUS#${completed}`,
           },
           ScanIndexForward: false, // 최신 순 (우선순위 높은 순)
           Limit: options.limit,
@@ -231,7 +319,7 @@ export class DynamoDBTodoRepository implements TodoRepository {
           IndexName: 'GSI1',
           KeyConditionExpression: 'GSI1PK = :gsi1pk AND begins_with(GSI1SK, :priority)',
           ExpressionAttributeValues: {
-            ':gsi1pk': `USER#${userId}#STATUS#false`, // 미완료 아이템에서만 검색
+            ':gsi1pk': `${todoPartitionKey(userId)}#STATUS#false`, // 미완료 아이템에서만 검색
             ':priority': `PRIORITY#${priority}`,
           },
           ScanIndexForward: false, // 최신 순
@@ -262,8 +350,11 @@ export class DynamoDBTodoRepository implements TodoRepository {
   async update(
     userId: string,
     todoId: string,
-    updates: Partial<DynamoTodoItem>
+    updates: Partial<DynamoTodoItem>,
+    options: { expectedVersion?: number } = {}
   ): Promise<DynamoTodoItem> {
+    const { expectedVersion } = options;
+
     try {
       // 업데이트할 필드들을 동적으로 구성
       const updateExpression: string[] = [];
@@ -277,6 +368,7 @@ export class DynamoDBTodoRepository implements TodoRepository {
           key !== 'SK' &&
           key !== 'EntityType' &&
           key !== 'createdAt' &&
+          key !== 'version' &&
           value !== undefined
         ) {
           const attrName = `#attr${attrIndex}`;
@@ -288,15 +380,65 @@ export class DynamoDBTodoRepository implements TodoRepository {
         }
       });
 
-      // updatedAt 추가
-      updateExpression.push('#updatedAt = :updatedAt');
+      // updatedAt 추가 (변경 조회 키도 같은 시각으로 갱신)
+      const now = new Date().toISOString();
+      const { GSI4PK, GSI4SK } = GSI4KeyBuilder.change(userId, now, todoId);
+      updateExpression.push('#updatedAt = :updatedAt', '#gsi4pk = :gsi4pk', '#gsi4sk = :gsi4sk');
       expressionAttributeNames['#updatedAt'] = 'updatedAt';
-      expressionAttributeValues[':updatedAt'] = new Date().toISOString();
+      expressionAttributeNames['#gsi4pk'] = 'GSI4PK';
+      expressionAttributeNames['#gsi4sk'] = 'GSI4SK';
+      expressionAttributeValues[':updatedAt'] = now;
+      expressionAttributeValues[':gsi4pk'] = GSI4PK;
+      expressionAttributeValues[':gsi4sk'] = GSI4SK;
+
+      // 버전 증가 (버전이 없는 기존 아이템은 1에서 시작)
+      updateExpression.push('#version = if_not_exists(#version, :one) + :one');
+      expressionAttributeNames['#version'] = 'version';
+      expressionAttributeValues[':one'] = 1;
+
+      // 기준 버전이 주어지면 저장된 버전과 같을 때만 업데이트
+      let conditionExpression = 'attribute_exists(PK)'; // 존재하는 아이템만 업데이트
+      if (expectedVersion !== undefined) {
+        conditionExpression +=
+          expectedVersion === 1
+            ? ' AND (attribute_not_exists(#version) OR #version = :expectedVersion)'
+            : ' AND #version = :expectedVersion';
+        expressionAttributeValues[':expectedVersion'] = expectedVersion;
+      }
+
+      // 마감일 인덱스 키 (마감일을 지우면 인덱스에서도 제외)
+      const removeExpression: string[] = [];
+      if (updates.dueDate) {
+        const { GSI3PK, GSI3SK } = GSI3KeyBuilder.dueDate(userId, updates.dueDate);
+        updateExpression.push('#gsi3pk = :gsi3pk', '#gsi3sk = :gsi3sk');
+        expressionAttributeValues[':gsi3pk'] = GSI3PK;
+        expressionAttributeValues[':gsi3sk'] = GSI3SK;
+      } else if (updates.dueDate === null) {
+        removeExpression.push('#gsi3pk', '#gsi3sk');
+      }
+      if (updates.dueDate !== undefined) {
+        expressionAttributeNames['#gsi3pk'] = 'GSI3PK';
+        expressionAttributeNames['#gsi3sk'] = 'GSI3SK';
+      }
+
+      // 담당자 인덱스 키 (담당을 해제하면 인덱스에서도 제외)
+      if (updates.assigneeId === null) {
+        removeExpression.push('#gsi5pk', '#gsi5sk');
+      }
+      if (updates.assigneeId !== undefined) {
+        expressionAttributeNames['#gsi5pk'] = 'GSI5PK';
+        expressionAttributeNames['#gsi5sk'] = 'GSI5SK';
+      }
+
+      // GSI 키 업데이트 (상태, 우선순위, 제목, 담당자 변경 시)
+      const needsGsi1Update = updates.completed !== undefined || updates.priority !== undefined;
+      const existingTodo =
+        needsGsi1Update || updates.title !== undefined || updates.assigneeId
+          ? await this.findById(userId, todoId)
+          : null;
 
-      // GSI 키 업데이트 (상태나 우선순위 변경 시)
-      if (updates.completed !== undefined || updates.priority !== undefined) {
-        const existingTodo = await this.findById(userId, todoId);
-        if (existingTodo) {
+      if (existingTodo) {
+        if (needsGsi1Update) {
           const newCompleted =
             updates.completed !== undefined ? updates.completed : existingTodo.completed;
           const newPriority =
@@ -305,24 +447,51 @@ export class DynamoDBTodoRepository implements TodoRepository {
           updateExpression.push('#gsi1pk = :gsi1pk', '#gsi1sk = :gsi1sk');
           expressionAttributeNames['#gsi1pk'] = 'GSI1PK';
           expressionAttributeNames['#gsi1sk'] = 'GSI1SK';
-          expressionAttributeValues[':gsi1pk'] = `USER#${userId}#STATUS#${newCompleted}`;
+          expressionAttributeValues[':gsi1pk'] =
+            `${todoPartitionKey(userId)}#STATUS#${newCompleted}`;
           expressionAttributeValues[':gsi1sk'] =
             `PRIORITY#${newPriority}#${new Date().toISOString()}`;
         }
+
+        // 제목 검색 키는 생성일시를 유지해야 같은 제목끼리의 정렬이 바뀌지 않음
+        if (updates.title !== undefined) {
+          const { GSI2SK } = GSI2KeyBuilder.titleSearch(
+            userId,
+            updates.title,
+            existingTodo.createdAt
+          );
+          updateExpression.push('#gsi2sk = :gsi2sk');
+          expressionAttributeNames['#gsi2sk'] = 'GSI2SK';
+          expressionAttributeValues[':gsi2sk'] = GSI2SK;
+        }
+
+        // 담당자 조회 키도 생성일시 순서를 유지
+        if (updates.assigneeId) {
+          const { GSI5PK, GSI5SK } = GSI5KeyBuilder.assignee(
+            updates.assigneeId,
+            existingTodo.createdAt,
+            todoId
+          );
+          updateExpression.push('#gsi5pk = :gsi5pk', '#gsi5sk = :gsi5sk');
+          expressionAttributeValues[':gsi5pk'] = GSI5PK;
+          expressionAttributeValues[':gsi5sk'] = GSI5SK;
+        }
       }
 
       const response = await this.docClient.send(
         new UpdateCommand({
           TableName: this.tableName,
           Key: {
-            PK: `USER#${userId}`,
+            PK: todoPartitionKey(userId),
             SK: `TODO#${todoId}`,
           },
-          UpdateExpression: `SET ${updateExpression.join(', ')}`,
+          UpdateExpression:
+            `SET ${updateExpression.join(', ')}` +
+            (removeExpression.length > 0 ? ` REMOVE ${removeExpression.join(', ')}` : ''),
           ExpressionAttributeNames: expressionAttributeNames,
           ExpressionAttributeValues: expressionAttributeValues,
           ReturnValues: 'ALL_NEW',
-          ConditionExpression: 'attribute_exists(PK)', // 존재하는 아이템만 업데이트
+          ConditionExpression: conditionExpression,
         })
       );
 
@@ -342,6 +511,17 @@ export class DynamoDBTodoRepository implements TodoRepository {
         throw error;
       }
 
+      // 조건 실패는 아이템이 없거나 다른 요청이 먼저 수정한 경우
+      if ((error as Error).name === 'ConditionalCheckFailedException') {
+        const current = await this.findById(userId, todoId);
+        if (!current) {
+          throw new ItemNotFoundError('Todo', todoId);
+        }
+        if (expectedVersion !== undefined) {
+          throw new VersionConflictError('Todo', todoId, expectedVersion, current);
+        }
+      }
+
       logger.error('Failed to update todo', error as Error, {
         userId,
         todoId,
@@ -352,26 +532,127 @@ export class DynamoDBTodoRepository implements TodoRepository {
   }
 
   /**
-   * Todo 삭제
+   * 수동 정렬 rank만 변경 (목록 전체의 rank를 다시 매길 때 사용)
+   * 순서는 그대로이므로 버전과 수정 시간은 올리지 않아 다른 기기의 수정과 버전 충돌이 나지 않고,
+   * 변경 조회 키만 갱신해 다른 기기도 증분 동기화로 새 rank를 받음
    */
-  async delete(userId: string, todoId: string): Promise<void> {
+  async updateRank(userId: string, todoId: string, rank: string): Promise<DynamoTodoItem> {
     try {
-      await this.docClient.send(
-        new DeleteCommand({
+      const { GSI4PK, GSI4SK } = GSI4KeyBuilder.change(userId, new Date().toISOString(), todoId);
+      const response = await this.docClient.send(
+        new UpdateCommand({
           TableName: this.tableName,
           Key: {
-            PK: `USER#${userId}`,
+            PK: todoPartitionKey(userId),
             SK: `TODO#${todoId}`,
           },
-          ConditionExpression: 'attribute_exists(PK)', // 존재하는 아이템만 삭제
+          UpdateExpression: 'SET #rank = :rank, #gsi4pk = :gsi4pk, #gsi4sk = :gsi4sk',
+          ExpressionAttributeNames: {
+            '#rank': 'rank',
+            '#gsi4pk': 'GSI4PK',
+            '#gsi4sk': 'GSI4SK',
+          },
+          ExpressionAttributeValues: {
+            ':rank': rank,
+            ':gsi4pk': GSI4PK,
+            ':gsi4sk': GSI4SK,
+          },
+          ReturnValues: 'ALL_NEW',
+          ConditionExpression: 'attribute_exists(PK)',
+        })
+      );
+
+      return response.Attributes as DynamoTodoItem;
+    } catch (error) {
+      if ((error as Error).name === 'ConditionalCheckFailedException') {
+        throw new ItemNotFoundError('Todo', todoId);
+      }
+
+      logger.error('Failed to update todo rank', error as Error, { userId, todoId });
+      throw error;
+    }
+  }
+
+  /**
+   * Todo 삭제 (휴지통으로 이동)
+   * 삭제 직전 Todo와 체크리스트를 휴지통 아이템에 보관하고,
+   * 변경 조회에서 삭제를 알 수 있도록 같은 트랜잭션으로 묘비를 남김 (둘 다 TTL 30일)
+   */
+  async delete(
+    userId: string,
+    todoId: string,
+    options: { deletedBy?: string } = {}
+  ): Promise<void> {
+    try {
+      const todo = await this.findById(userId, todoId);
+      if (!todo) {
+        throw new ItemNotFoundError('Todo', todoId);
+      }
+
+      const checklist = await this.findChecklistItems(userId, todoId);
+      const deletedAt = new Date().toISOString();
+      const trashItem: DynamoTodoTrashItem = {
+        ...DynamoKeyBuilder.todoTrash(userId, todoId),
+        EntityType: 'TODO_TRASH',
+        todoId,
+        todo,
+        checklist,
+        deletedAt,
+        deletedBy: options.deletedBy ?? todo.userId,
+        ttl: TTLBuilder.trashExpiry(todo.ttl),
+      };
+
+      await this.docClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Delete: {
+                TableName: this.tableName,
+                Key: DynamoKeyBuilder.todoItem(userId, todoId),
+                // 읽은 뒤 수정되지 않은 아이템만 삭제 (휴지통에 최신 상태를 보관)
+                ConditionExpression: 'attribute_exists(PK) AND updatedAt = :updatedAt',
+                ExpressionAttributeValues: { ':updatedAt': todo.updatedAt },
+              },
+            },
+            {
+              Put: {
+                TableName: this.tableName,
+                Item: buildTombstone(userId, todoId, deletedAt),
+              },
+            },
+            {
+              Put: {
+                TableName: this.tableName,
+                Item: trashItem,
+              },
+            },
+          ],
         })
       );
 
-      logger.info('Todo deleted from DynamoDB', {
+      // 하위 아이템(TODO#<todoId>#...) 정리 - 체크리스트는 휴지통 아이템에 보관됨
+      const deletedChildCount = await this.deleteChildItems(userId, todoId);
+
+      logger.info('Todo moved to trash in DynamoDB', {
         userId,
         todoId,
+        deletedChildCount,
       });
     } catch (error) {
+      if (error instanceof ItemNotFoundError) {
+        throw error;
+      }
+
+      const cancellationReasons = (error as { CancellationReasons?: Array<{ Code?: string }> })
+        .CancellationReasons;
+      if (cancellationReasons?.[0]?.Code === 'ConditionalCheckFailed') {
+        const current = await this.findById(userId, todoId);
+        if (!current) {
+          throw new ItemNotFoundError('Todo', todoId);
+        }
+        throw new ConcurrentModificationError('Todo', todoId);
+      }
+
       logger.error('Failed to delete todo', error as Error, {
         userId,
         todoId,
@@ -379,6 +660,609 @@ export class DynamoDBTodoRepository implements TodoRepository {
       throw error;
     }
   }
+
+  /**
+   * 휴지통 Todo 목록 조회 (페이지네이션 지원, 정렬은 Todo ID 순)
+   */
+  async findTrash(
+    userId: string,
+    options: { limit?: number; cursor?: string } = {}
+  ): Promise<DynamoQueryResult<DynamoTodoTrashItem>> {
+    try {
+      const response = await this.docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: QUERY_PATTERNS.GET_TRASHED_TODOS.keyCondition,
+          ExpressionAttributeValues: QUERY_PATTERNS.GET_TRASHED_TODOS.values(userId),
+          Limit: options.limit,
+          ExclusiveStartKey: options.cursor ? JSON.parse(options.cursor) : undefined,
+        })
+      );
+
+      return {
+        items: (response.Items as DynamoTodoTrashItem[]) || [],
+        lastEvaluatedKey: response.LastEvaluatedKey,
+        count: response.Count || 0,
+        scannedCount: response.ScannedCount || 0,
+        cursor: response.LastEvaluatedKey ? JSON.stringify(response.LastEvaluatedKey) : undefined,
+      };
+    } catch (error) {
+      logger.error('Failed to find trashed todos', error as Error, { userId });
+      throw error;
+    }
+  }
+
+  /**
+   * ID로 휴지통 Todo 조회
+   */
+  async findTrashedById(userId: string, todoId: string): Promise<DynamoTodoTrashItem | null> {
+    try {
+      const response = await this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: DynamoKeyBuilder.todoTrash(userId, todoId),
+        })
+      );
+
+      return (response.Item as DynamoTodoTrashItem) || null;
+    } catch (error) {
+      logger.error('Failed to find trashed todo by ID', error as Error, { userId, todoId });
+      throw error;
+    }
+  }
+
+  /**
+   * 휴지통 Todo 복원
+   * 같은 트랜잭션으로 Todo를 되살리고 휴지통 아이템과 묘비를 지운 뒤 체크리스트를 다시 저장
+   * 변경 조회에서 다시 보이도록 updatedAt과 버전을 갱신
+   */
+  async restore(userId: string, todoId: string): Promise<DynamoTodoItem> {
+    try {
+      const trashed = await this.findTrashedById(userId, todoId);
+      if (!trashed) {
+        throw new ItemNotFoundError('TrashedTodo', todoId);
+      }
+
+      const now = new Date().toISOString();
+      const restored: DynamoTodoItem = {
+        ...trashed.todo,
+        ...GSI4KeyBuilder.change(userId, now, todoId),
+        updatedAt: now,
+        version: (trashed.todo.version ?? 1) + 1,
+      };
+
+      await this.docClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Put: {
+                TableName: this.tableName,
+                Item: restored,
+                ConditionExpression: 'attribute_not_exists(PK)',
+              },
+            },
+            {
+              Delete: {
+                TableName: this.tableName,
+                Key: DynamoKeyBuilder.todoTrash(userId, todoId),
+                ConditionExpression: 'attribute_exists(PK)', // 동시에 복원/영구 삭제된 경우 실패
+              },
+            },
+            {
+              Delete: {
+                TableName: this.tableName,
+                Key: DynamoKeyBuilder.todoTombstone(userId, todoId),
+              },
+            },
+          ],
+        })
+      );
+
+      await this.batchWrite(
+        trashed.checklist.map(item => ({ PutRequest: { Item: item } })),
+        `restore ${trashed.checklist.length} checklist items of todo ${todoId}`
+      );
+
+      logger.info('Todo restored from trash in DynamoDB', {
+        userId,
+        todoId,
+        checklistCount: trashed.checklist.length,
+      });
+
+      return restored;
+    } catch (error) {
+      if (error instanceof ItemNotFoundError) {
+        throw error;
+      }
+
+      const cancellationReasons = (error as { CancellationReasons?: Array<{ Code?: string }> })
+        .CancellationReasons;
+      if (cancellationReasons?.some(reason => reason.Code === 'ConditionalCheckFailed')) {
+        throw new ItemNotFoundError('TrashedTodo', todoId);
+      }
+
+      logger.error('Failed to restore todo', error as Error, { userId, todoId });
+      throw error;
+    }
+  }
+
+  /**
+   * 휴지통 Todo 영구 삭제
+   */
+  async purge(userId: string, todoId: string): Promise<void> {
+    try {
+      await this.docClient.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: DynamoKeyBuilder.todoTrash(userId, todoId),
+          ConditionExpression: 'attribute_exists(PK)',
+        })
+      );
+
+      logger.info('Trashed todo purged from DynamoDB', { userId, todoId });
+    } catch (error) {
+      if ((error as Error).name === 'ConditionalCheckFailedException') {
+        throw new ItemNotFoundError('TrashedTodo', todoId);
+      }
+
+      logger.error('Failed to purge todo', error as Error, { userId, todoId });
+      throw error;
+    }
+  }
+
+  /**
+   * Todo의 태그 인접 아이템 교체
+   * 이전/다음 태그 목록을 비교해 빠진 태그는 삭제하고 새 태그는 저장 (하나의 트랜잭션)
+   */
+  async replaceTags(
+    todo: Pick<DynamoTodoItem, 'id' | 'userId' | 'sessionId' | 'ttl'>,
+    previousTags: string[],
+    nextTags: string[]
+  ): Promise<void> {
+    const previousByKey = new Map(previousTags.map(tag => [normalizeTag(tag), tag]));
+    const nextByKey = new Map(nextTags.map(tag => [normalizeTag(tag), tag]));
+
+    const removedTags = [...previousByKey.entries()]
+      .filter(([key]) => !nextByKey.has(key))
+      .map(([, tag]) => tag);
+    // 표기(대소문자)만 바뀐 태그도 다시 저장해 목록에 최신 표기가 보이도록 함
+    const savedTags = [...nextByKey.entries()]
+      .filter(([key, tag]) => previousByKey.get(key) !== tag)
+      .map(([, tag]) => tag);
+
+    if (removedTags.length === 0 && savedTags.length === 0) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+
+    try {
+      await this.docClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            ...removedTags.map(tag => ({
+              Delete: {
+                TableName: this.tableName,
+                Key: DynamoKeyBuilder.todoTag(todoPartitionOwner(todo), tag, todo.id),
+              },
+            })),
+            ...savedTags.map(tag => {
+              const tagItem: DynamoTodoTagItem = {
+                ...DynamoKeyBuilder.todoTag(todoPartitionOwner(todo), tag, todo.id),
+                EntityType: 'TODO_TAG',
+                tag: tag.trim(),
+                todoId: todo.id,
+                userId: todo.userId,
+                sessionId: todo.sessionId,
+                createdAt: now,
+                ttl: todo.ttl,
+              };
+              return { Put: { TableName: this.tableName, Item: tagItem } };
+            }),
+          ],
+        })
+      );
+
+      logger.info('Todo tags replaced in DynamoDB', {
+        userId: todo.userId,
+        todoId: todo.id,
+        removedCount: removedTags.length,
+        savedCount: savedTags.length,
+      });
+    } catch (error) {
+      logger.error('Failed to replace todo tags', error as Error, {
+        userId: todo.userId,
+        todoId: todo.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 태그별 Todo 조회 (인접 아이템 조회 후 Todo 배치 조회, 페이지네이션 지원)
+   */
+  async findByTag(
+    userId: string,
+    tag: string,
+    options: { limit?: number; cursor?: string } = {}
+  ): Promise<DynamoQueryResult<DynamoTodoItem>> {
+    try {
+      const response = await this.docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: QUERY_PATTERNS.GET_TODOS_BY_TAG.keyCondition,
+          ExpressionAttributeValues: QUERY_PATTERNS.GET_TODOS_BY_TAG.values(userId, tag),
+          Limit: options.limit,
+          ExclusiveStartKey: options.cursor ? JSON.parse(options.cursor) : undefined,
+        })
+      );
+
+      const tagItems = (response.Items as DynamoTodoTagItem[]) || [];
+      const todos = await this.batchGetTodos(
+        userId,
+        tagItems.map(item => item.todoId)
+      );
+
+      return {
+        items: todos,
+        lastEvaluatedKey: response.LastEvaluatedKey,
+        count: todos.length,
+        scannedCount: response.ScannedCount || 0,
+        cursor: response.LastEvaluatedKey ? JSON.stringify(response.LastEvaluatedKey) : undefined,
+      };
+    } catch (error) {
+      logger.error('Failed to find todos by tag', error as Error, { userId, tag });
+      throw error;
+    }
+  }
+
+  /**
+   * 제목 검색 (GSI2 제목 인덱스 사용, 페이지네이션 지원)
+   * prefix는 정렬 키 접두사 조회, substring은 제목 인덱스를 순회하며 부분 일치 항목만 반환
+   * substring 모드에서 limit은 조회할 인덱스 항목 수이므로 반환 개수가 더 적을 수 있음
+   */
+  async searchByTitle(
+    userId: string,
+    query: string,
+    options: { limit?: number; cursor?: string; match?: TitleSearchMatch } = {}
+  ): Promise<DynamoQueryResult<DynamoTodoItem>> {
+    const match = options.match ?? 'prefix';
+    const normalizedQuery = query.toLowerCase().trim();
+
+    try {
+      const response = await this.docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          IndexName: QUERY_PATTERNS.SEARCH_TODOS_BY_TITLE.indexName,
+          KeyConditionExpression: QUERY_PATTERNS.SEARCH_TODOS_BY_TITLE.keyCondition,
+          ExpressionAttributeValues: QUERY_PATTERNS.SEARCH_TODOS_BY_TITLE.values(
+            userId,
+            match === 'prefix' ? normalizedQuery : ''
+          ),
+          ScanIndexForward: true, // 제목 오름차순
+          Limit: options.limit,
+          ExclusiveStartKey: options.cursor ? JSON.parse(options.cursor) : undefined,
+        })
+      );
+
+      let items = (response.Items as DynamoTodoItem[]) || [];
+
+      // 키 속성은 FilterExpression에 쓸 수 없으므로 부분 일치는 조회 후 비교
+      if (match === 'substring') {
+        items = items.filter(todo => todo.title.toLowerCase().includes(normalizedQuery));
+      }
+
+      return {
+        items,
+        lastEvaluatedKey: response.LastEvaluatedKey,
+        count: items.length,
+        scannedCount: response.ScannedCount || 0,
+        cursor: response.LastEvaluatedKey ? JSON.stringify(response.LastEvaluatedKey) : undefined,
+      };
+    } catch (error) {
+      logger.error('Failed to search todos by title', error as Error, { userId, match });
+      throw error;
+    }
+  }
+
+  /**
+   * 마감일 범위 조회 (GSI3 마감일 인덱스 사용, 마감일 오름차순, 페이지네이션 지원)
+   */
+  async findByDueDate(
+    userId: string,
+    range: DueDateRange,
+    options: { limit?: number; cursor?: string } = {}
+  ): Promise<DynamoQueryResult<DynamoTodoItem>> {
+    try {
+      const response = await this.docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          IndexName: QUERY_PATTERNS.GET_TODOS_BY_DUE_DATE.indexName,
+          KeyConditionExpression: QUERY_PATTERNS.GET_TODOS_BY_DUE_DATE.keyCondition,
+          ExpressionAttributeValues: QUERY_PATTERNS.GET_TODOS_BY_DUE_DATE.values(
+            userId,
+            range.from,
+            range.to
+          ),
+          ScanIndexForward: true, // 마감일 빠른 순
+          Limit: options.limit,
+          ExclusiveStartKey: options.cursor ? JSON.parse(options.cursor) : undefined,
+        })
+      );
+
+      return {
+        items: (response.Items as DynamoTodoItem[]) || [],
+        lastEvaluatedKey: response.LastEvaluatedKey,
+        count: response.Count || 0,
+        scannedCount: response.ScannedCount || 0,
+        cursor: response.LastEvaluatedKey ? JSON.stringify(response.LastEvaluatedKey) : undefined,
+      };
+    } catch (error) {
+      logger.error('Failed to find todos by due date', error as Error, { userId, range });
+      throw error;
+    }
+  }
+
+  /**
+   * 담당자별 조회 (GSI5 담당자 인덱스 사용, 개인/프로젝트 파티션 구분 없이 생성 순서대로)
+   */
+  async findByAssignee(
+    assigneeId: string,
+    options: { limit?: number; cursor?: string } = {}
+  ): Promise<DynamoQueryResult<DynamoTodoItem>> {
+    try {
+      const response = await this.docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          IndexName: QUERY_PATTERNS.GET_ASSIGNED_TODOS.indexName,
+          KeyConditionExpression: QUERY_PATTERNS.GET_ASSIGNED_TODOS.keyCondition,
+          ExpressionAttributeValues: QUERY_PATTERNS.GET_ASSIGNED_TODOS.values(assigneeId),
+          ScanIndexForward: false, // 최신순
+          Limit: options.limit,
+          ExclusiveStartKey: options.cursor ? JSON.parse(options.cursor) : undefined,
+        })
+      );
+
+      return {
+        items: (response.Items as DynamoTodoItem[]) || [],
+        lastEvaluatedKey: response.LastEvaluatedKey,
+        count: response.Count || 0,
+        scannedCount: response.ScannedCount || 0,
+        cursor: response.LastEvaluatedKey ? JSON.stringify(response.LastEvaluatedKey) : undefined,
+      };
+    } catch (error) {
+      logger.error('Failed to find assigned todos', error as Error, { assigneeId });
+      throw error;
+    }
+  }
+
+  /**
+   * 변경 조회 (GSI4 변경 인덱스 사용, 지정한 위치 이후의 Todo와 삭제 묘비를 변경 순서대로 반환)
+   * @param after 이 위치(<변경일시>#<todoId> 또는 변경일시) 이후의 변경만 조회
+   */
+  async findChanges(
+    userId: string,
+    after: string,
+    options: { limit?: number } = {}
+  ): Promise<DynamoQueryResult<DynamoTodoItem | DynamoTodoTombstoneItem>> {
+    try {
+      const response = await this.docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          IndexName: QUERY_PATTERNS.GET_CHANGES_AFTER.indexName,
+          KeyConditionExpression: QUERY_PATTERNS.GET_CHANGES_AFTER.keyCondition,
+          ExpressionAttributeValues: QUERY_PATTERNS.GET_CHANGES_AFTER.values(userId, after),
+          ScanIndexForward: true, // 오래된 변경부터
+          Limit: options.limit,
+        })
+      );
+
+      return {
+        items: (response.Items as Array<DynamoTodoItem | DynamoTodoTombstoneItem>) || [],
+        lastEvaluatedKey: response.LastEvaluatedKey,
+        count: response.Count || 0,
+        scannedCount: response.ScannedCount || 0,
+        cursor: response.LastEvaluatedKey ? JSON.stringify(response.LastEvaluatedKey) : undefined,
+      };
+    } catch (error) {
+      logger.error('Failed to find todo changes', error as Error, { userId, after });
+      throw error;
+    }
+  }
+
+  /**
+   * 태그별 사용 횟수 집계 (sessionId 지정 시 해당 게스트 세션의 태그만 집계)
+   */
+  async listTagUsage(userId: string, options: { sessionId?: string } = {}): Promise<TagUsage[]> {
+    try {
+      const usageByKey = new Map<string, TagUsage>();
+      let exclusiveStartKey: Record<string, unknown> | undefined;
+
+      do {
+        const response = await this.docClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            KeyConditionExpression: QUERY_PATTERNS.GET_USER_TAGS.keyCondition,
+            ExpressionAttributeValues: QUERY_PATTERNS.GET_USER_TAGS.values(userId),
+            ProjectionExpression: 'tag, sessionId',
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        );
+
+        for (const item of (response.Items as DynamoTodoTagItem[]) || []) {
+          if (options.sessionId && item.sessionId !== options.sessionId) {
+            continue;
+          }
+
+          const key = normalizeTag(item.tag);
+          const usage = usageByKey.get(key);
+          if (usage) {
+            usage.count++;
+          } else {
+            usageByKey.set(key, { tag: item.tag, count: 1 });
+          }
+        }
+
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      // 사용 횟수 내림차순, 같으면 태그 이름순
+      return [...usageByKey.values()].sort(
+        (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+      );
+    } catch (error) {
+      logger.error('Failed to list tag usage', error as Error, { userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Todo 하위 아이템 일괄 삭제 (체크리스트 항목 등 SK가 TODO#<todoId># 로 시작하는 아이템)
+   * 활동 기록(TODO#<todoId>#EVT#)은 삭제 이력을 조회할 수 있도록 남김
+   */
+  async deleteChildItems(userId: string, todoId: string): Promise<number> {
+    const activityPrefix = DynamoKeyBuilder.activityPrefix(todoId);
+    const keys: Array<{ PK: string; SK: string }> = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const response = await this.docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+          ExpressionAttributeValues: {
+            ':pk': todoPartitionKey(userId),
+            ':sk': `TODO#${todoId}#`,
+          },
+          ProjectionExpression: 'PK, SK',
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+
+      keys.push(
+        ...((response.Items as Array<{ PK: string; SK: string }>) || []).filter(
+          key => !key.SK.startsWith(activityPrefix)
+        )
+      );
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    await this.batchWrite(
+      keys.map(key => ({ DeleteRequest: { Key: key } })),
+      `delete child items of todo ${todoId}`
+    );
+
+    return keys.length;
+  }
+
+  /**
+   * Todo의 체크리스트 항목 전체 조회 (휴지통 보관용)
+   */
+  private async findChecklistItems(userId: string, todoId: string): Promise<DynamoChecklistItem[]> {
+    const items: DynamoChecklistItem[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const response = await this.docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: QUERY_PATTERNS.GET_CHECKLIST_ITEMS.keyCondition,
+          ExpressionAttributeValues: QUERY_PATTERNS.GET_CHECKLIST_ITEMS.values(userId, todoId),
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+
+      items.push(...((response.Items as DynamoChecklistItem[]) || []));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+
+  /**
+   * BatchWriteItem 요청을 제한 크기로 나눠 전송 (처리되지 않은 항목은 지수 백오프로 재시도)
+   */
+  private async batchWrite(
+    writeRequests: Array<Record<string, unknown>>,
+    description: string
+  ): Promise<void> {
+    for (let i = 0; i < writeRequests.length; i += BATCH_WRITE_LIMIT) {
+      let requests = writeRequests.slice(i, i + BATCH_WRITE_LIMIT);
+      let retryCount = 0;
+
+      while (requests.length > 0) {
+        const response = await this.docClient.send(
+          new BatchWriteCommand({ RequestItems: { [this.tableName]: requests } })
+        );
+        requests = (response.UnprocessedItems?.[this.tableName] as typeof requests) || [];
+
+        if (requests.length > 0) {
+          if (retryCount >= 3) {
+            throw new Error(`Failed to ${description} (${requests.length} unprocessed)`);
+          }
+          await new Promise(resolve => setTimeout(resolve, Math.pow(2, retryCount) * 100));
+          retryCount++;
+        }
+      }
+    }
+  }
+
+  /**
+   * Todo 배치 조회 (요청한 ID 순서 유지, 없는 Todo는 제외)
+   */
+  private async batchGetTodos(userId: string, todoIds: string[]): Promise<DynamoTodoItem[]> {
+    const todosById = new Map<string, DynamoTodoItem>();
+
+    for (let i = 0; i < todoIds.length; i += BATCH_GET_LIMIT) {
+      let keys: Array<Record<string, unknown>> = todoIds
+        .slice(i, i + BATCH_GET_LIMIT)
+        .map(todoId => DynamoKeyBuilder.todoItem(userId, todoId));
+      let retryCount = 0;
+
+      // 처리되지 않은 키는 지수 백오프로 재시도
+      while (keys.length > 0) {
+        const response = await this.docClient.send(
+          new BatchGetCommand({ RequestItems: { [this.tableName]: { Keys: keys } } })
+        );
+
+        for (const todo of (response.Responses?.[this.tableName] as DynamoTodoItem[]) || []) {
+          todosById.set(todo.id, todo);
+        }
+        keys = response.UnprocessedKeys?.[this.tableName]?.Keys || [];
+
+        if (keys.length > 0) {
+          if (retryCount >= 3) {
+            throw new Error(`Failed to fetch ${keys.length} todos`);
+          }
+          await new Promise(resolve => setTimeout(resolve, Math.pow(2, retryCount) * 100));
+          retryCount++;
+        }
+      }
+    }
+
+    return todoIds
+      .map(todoId => todosById.get(todoId))
+      .filter((todo): todo is DynamoTodoItem => todo !== undefined);
+  }
+}
+
+/**
+ * 삭제된 Todo 묘비 아이템 생성
+ */
+function buildTombstone(
+  userId: string,
+  todoId: string,
+  deletedAt: string
+): DynamoTodoTombstoneItem {
+  return {
+    ...DynamoKeyBuilder.todoTombstone(userId, todoId),
+    EntityType: 'TODO_TOMBSTONE',
+    ...GSI4KeyBuilder.change(userId, deletedAt, todoId),
+    todoId,
+    userId,
+    deletedAt,
+    ttl: TTLBuilder.tombstoneExpiry(),
+  };
 }
 
 /**
@@ -0,0 +1,209 @@
+/**
+ * DynamoDB UserRepository 구현체
+ * 사용자 프로필(USER#<id> / PROFILE)과 이메일 조회 아이템(EMAIL#<email> / USER)을 관리
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { DynamoUserItem, DynamoUserEmailItem, DuplicateItemError } from '../types/database.types';
+import { DynamoKeyBuilder } from '../utils/database-schema';
+import { UserRepository } from '../services/auth.service';
+import { getDynamoDBClient } from './todo-repository';
+import { logger } from '../utils/logger';
+
+/**
+ * DynamoDB UserRepository 구현체
+ */
+export class DynamoDBUserRepository implements UserRepository {
+  private readonly docClient: DynamoDBDocumentClient;
+  private readonly tableName: string;
+
+  constructor(dynamoClient: DynamoDBClient) {
+    this.docClient = DynamoDBDocumentClient.from(dynamoClient, {
+      marshallOptions: {
+        convertEmptyValues: false,
+        removeUndefinedValues: true,
+        convertClassInstanceToMap: false,
+      },
+      unmarshallOptions: {
+        wrapNumbers: false,
+      },
+    });
+
+    this.tableName = process.env.DYNAMODB_TABLE_NAME || '';
+
+    if (!this.tableName) {
+      throw new Error('DYNAMODB_TABLE_NAME environment variable is required');
+    }
+  }
+
+  /**
+   * 사용자 생성 (프로필 + 이메일 조회 아이템을 하나의 트랜잭션으로 저장)
+   */
+  async create(
+    userData: Omit<DynamoUserItem, 'PK' | 'SK' | 'EntityType' | 'createdAt' | 'updatedAt'>
+  ): Promise<DynamoUserItem> {
+    const now = new Date().toISOString();
+
+    const dynamoUser: DynamoUserItem = {
+      ...userData,
+      ...DynamoKeyBuilder.userProfile(userData.id),
+      EntityType: 'USER_PROFILE',
+      email: userData.email.toLowerCase().trim(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const emailItem: DynamoUserEmailItem = {
+      ...DynamoKeyBuilder.userEmail(userData.email),
+      EntityType: 'USER_EMAIL',
+      email: dynamoUser.email,
+      userId: userData.id,
+      createdAt: now,
+    };
+
+    try {
+      await this.docClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Put: {
+                TableName: this.tableName,
+                Item: emailItem,
+                ConditionExpression: 'attribute_not_exists(PK)', // 이메일 중복 방지
+              },
+            },
+            {
+              Put: {
+                TableName: this.tableName,
+                Item: dynamoUser,
+                ConditionExpression: 'attribute_not_exists(PK)',
+              },
+            },
+          ],
+        })
+      );
+
+      logger.info('User created in DynamoDB', { userId: userData.id });
+
+      return dynamoUser;
+    } catch (error) {
+      const cancellationReasons = (error as { CancellationReasons?: Array<{ Code?: string }> })
+        .CancellationReasons;
+      if (cancellationReasons?.some(reason => reason?.Code === 'ConditionalCheckFailed')) {
+        throw new DuplicateItemError('User', emailItem.PK);
+      }
+
+      logger.error('Failed to create user in DynamoDB', error as Error, {
+        userId: userData.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * ID로 사용자 조회
+   */
+  async findById(userId: string): Promise<DynamoUserItem | null> {
+    try {
+      const response = await this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: DynamoKeyBuilder.userProfile(userId),
+        })
+      );
+
+      return (response.Item as DynamoUserItem) || null;
+    } catch (error) {
+      logger.error('Failed to find user by ID', error as Error, { userId });
+      throw error;
+    }
+  }
+
+  /**
+   * 이메일로 사용자 조회 (이메일 조회 아이템 → 프로필)
+   */
+  async findByEmail(email: string): Promise<DynamoUserItem | null> {
+    try {
+      const response = await this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: DynamoKeyBuilder.userEmail(email),
+        })
+      );
+
+      const emailItem = response.Item as DynamoUserEmailItem | undefined;
+      if (!emailItem) {
+        return null;
+      }
+
+      return await this.findById(emailItem.userId);
+    } catch (error) {
+      logger.error('Failed to find user by email', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * 마지막 로그인 시각 갱신
+   */
+  async updateLastLogin(userId: string, loggedInAt: string): Promise<void> {
+    try {
+      await this.docClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: DynamoKeyBuilder.userProfile(userId),
+          UpdateExpression: 'SET #lastLoginAt = :lastLoginAt',
+          ExpressionAttributeNames: { '#lastLoginAt': 'lastLoginAt' },
+          ExpressionAttributeValues: { ':lastLoginAt': loggedInAt },
+          ConditionExpression: 'attribute_exists(PK)',
+        })
+      );
+    } catch (error) {
+      logger.error('Failed to update last login', error as Error, { userId });
+      throw error;
+    }
+  }
+
+  /**
+   * 비밀번호 해시 변경
+   */
+  async updatePassword(userId: string, passwordHash: string): Promise<void> {
+    try {
+      await this.docClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: DynamoKeyBuilder.userProfile(userId),
+          UpdateExpression: 'SET #passwordHash = :passwordHash, #updatedAt = :updatedAt',
+          ExpressionAttributeNames: {
+            '#passwordHash': 'passwordHash',
+            '#updatedAt': 'updatedAt',
+          },
+          ExpressionAttributeValues: {
+            ':passwordHash': passwordHash,
+            ':updatedAt': new Date().toISOString(),
+          },
+          ConditionExpression: 'attribute_exists(PK)',
+        })
+      );
+
+      logger.info('User password updated', { userId });
+    } catch (error) {
+      logger.error('Failed to update password', error as Error, { userId });
+      throw error;
+    }
+  }
+}
+
+/**
+ * UserRepository 팩토리 함수
+ */
+export function createUserRepository(): UserRepository {
+  const client = getDynamoDBClient();
+  return new DynamoDBUserRepository(client);
+}
@@ -0,0 +1,541 @@
+/**
+ * AuthService - 이메일/비밀번호 인증 비즈니스 로직 서비스
+ * - 사용자 저장소 기반 자격 증명 확인
+ * - 비밀번호 정책 검증 및 회원가입
+ * - 액세스/리프레시 토큰 발급
+ * - 리프레시 토큰 회전(rotation) 및 재사용 감지 시 패밀리 폐기
+ * - 비밀번호 재설정(1회용 코드) 및 비밀번호 변경
+ */
+
+import { createHash, randomInt, randomUUID } from 'crypto';
+import {
+  DynamoUserItem,
+  DynamoRefreshSessionItem,
+  DuplicateItemError,
+} from '../types/database.types';
+import { TTLBuilder } from '../utils/database-schema';
+import { PasswordHasher } from '../utils/password-hasher';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  PasswordPolicy,
+  getPasswordPolicyViolations,
+} from '../utils/password-policy';
+import type {
+  AppTokenClaims,
+  AppTokenUse,
+  IssuedTokenPair,
+  TokenSubject,
+} from '../utils/token-issuer';
+import type { MailSender } from '../utils/mail-sender';
+import type { Logger } from './todo.service';
+
+// 비밀번호 재설정 코드 설정 (혼동되기 쉬운 0/O, 1/I 제외)
+const RESET_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const RESET_CODE_LENGTH = 8;
+const RESET_CODE_TTL_SECONDS = 15 * 60; // 15분
+
+// 재설정 코드 확인 실패 허용 횟수 (첫 실패부터 코드 유효 시간 동안 잠금 유지)
+const RESET_CONFIRM_MAX_ATTEMPTS = 5;
+
+// ==========================================
+// 인터페이스 정의
+// ==========================================
+
+/**
+ * Repository 인터페이스 - 사용자 데이터 액세스 계층
+ */
+export interface UserRepository {
+  create(
+    userData: Omit<DynamoUserItem, 'PK' | 'SK' | 'EntityType' | 'createdAt' | 'updatedAt'>
+  ): Promise<DynamoUserItem>;
+  findById(userId: string): Promise<DynamoUserItem | null>;
+  findByEmail(email: string): Promise<DynamoUserItem | null>;
+  updateLastLogin(userId: string, loggedInAt: string): Promise<void>;
+  updatePassword(userId: string, passwordHash: string): Promise<void>;
+}
+
+/**
+ * 새로 저장할 리프레시 토큰 세션
+ */
+export interface NewRefreshSession {
+  userId: string;
+  familyId: string;
+  tokenId: string;
+  ttl: number; // 리프레시 토큰 만료 시각 (Unix timestamp, 초)
+}
+
+/**
+ * Repository 인터페이스 - 리프레시 토큰 세션 데이터 액세스 계층
+ */
+export interface RefreshSessionRepository {
+  create(session: NewRefreshSession): Promise<void>;
+  find(userId: string, familyId: string, tokenId: string): Promise<DynamoRefreshSessionItem | null>;
+  rotate(
+    current: { userId: string; familyId: string; tokenId: string },
+    next: NewRefreshSession
+  ): Promise<boolean>;
+  revokeFamily(userId: string, familyId: string): Promise<number>;
+  revokeAll(userId: string): Promise<number>;
+}
+
+/**
+ * 새로 저장할 비밀번호 재설정 코드
+ */
+export interface NewPasswordResetCode {
+  userId: string;
+  codeHash: string;
+  ttl: number; // 코드 만료 시각 (Unix timestamp, 초)
+}
+
+/**
+ * Repository 인터페이스 - 비밀번호 재설정 코드 데이터 액세스 계층
+ */
+export interface PasswordResetCodeRepository {
+  save(code: NewPasswordResetCode): Promise<void>;
+  consume(userId: string, codeHash: string): Promise<boolean>;
+  countFailedAttempts(userId: string): Promise<number>;
+  recordFailedAttempt(userId: string, ttl: number): Promise<number>;
+  clearFailedAttempts(userId: string): Promise<void>;
+}
+
+/**
+ * 토큰 발급기 인터페이스
+ */
+export interface AuthTokenIssuer {
+  issueTokenPair(subject: TokenSubject, familyId?: string): Promise<IssuedTokenPair>;
+  verify(token: string, expectedUse: AppTokenUse): Promise<AppTokenClaims>;
+}
+
+/**
+ * 커스텀 에러 클래스 - 자격 증명 에러
+ */
+export class CredentialsError extends Error {
+  constructor(
+    public code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'CredentialsError';
+  }
+}
+
+/**
+ * 커스텀 에러 클래스 - 회원가입 에러
+ */
+export class RegistrationError extends Error {
+  constructor(
+    public code: 'EMAIL_ALREADY_EXISTS' | 'PASSWORD_POLICY_VIOLATION',
+    message: string,
+    public details?: string[]
+  ) {
+    super(message);
+    this.name = 'RegistrationError';
+  }
+}
+
+/**
+ * 커스텀 에러 클래스 - 비밀번호 재설정/변경 에러
+ */
+export class PasswordUpdateError extends Error {
+  constructor(
+    public code:
+      | 'INVALID_RESET_CODE'
+      | 'RESET_ATTEMPTS_EXCEEDED'
+      | 'INVALID_CURRENT_PASSWORD'
+      | 'PASSWORD_POLICY_VIOLATION',
+    message: string,
+    public details?: string[]
+  ) {
+    super(message);
+    this.name = 'PasswordUpdateError';
+  }
+}
+
+/**
+ * 비밀번호 재설정 확인 입력
+ */
+export interface PasswordResetConfirmInput {
+  email: string;
+  code: string;
+  newPassword: string;
+}
+
+/**
+ * 회원가입 입력
+ */
+export interface RegisterInput {
+  email: string;
+  password: string;
+  name: string;
+}
+
+/**
+ * 로그인 결과
+ */
+export interface AuthResult {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  user: {
+    id: string;
+    email: string;
+    name: string;
+    createdAt: string;
+  };
+}
+
+/**
+ * 토큰 재발급 결과 (리프레시 토큰도 함께 회전됨)
+ */
+export interface RefreshResult {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+/**
+ * AuthService 인터페이스
+ */
+export interface IAuthService {
+  login(email: string, password: string): Promise<AuthResult>;
+  register(input: RegisterInput): Promise<AuthResult>;
+  refresh(refreshToken: string): Promise<RefreshResult>;
+  revokeAllSessions(userId: string): Promise<number>;
+  requestPasswordReset(email: string): Promise<void>;
+  confirmPasswordReset(input: PasswordResetConfirmInput): Promise<void>;
+  changePassword(userId: string, currentPassword: string, newPassword: string): Promise<AuthResult>;
+}
+
+// ==========================================
+// AuthService 구현체
+// ==========================================
+
+export class AuthService implements IAuthService {
+  constructor(
+    private userRepository: UserRepository,
+    private sessionRepository: RefreshSessionRepository,
+    private resetCodeRepository: PasswordResetCodeRepository,
+    private mailSender: MailSender,
+    private tokenIssuer: AuthTokenIssuer,
+    private logger: Logger,
+    private getPasswordPolicy: () => Promise<PasswordPolicy> = async () => DEFAULT_PASSWORD_POLICY
+  ) {}
+
+  /**
+   * 이메일/비밀번호 로그인
+   */
+  async login(email: string, password: string): Promise<AuthResult> {
+    const user = await this.userRepository.findByEmail(email);
+
+    // 사용자 존재 여부와 비밀번호 불일치를 구분하지 않음 (계정 열거 방지)
+    const passwordMatches = user ? await PasswordHasher.verify(password, user.passwordHash) : false;
+
+    if (!user || !passwordMatches) {
+      this.logger.warn('로그인 실패 - 자격 증명 불일치', {
+        userFound: !!user,
+      });
+      throw new CredentialsError('INVALID_CREDENTIALS', '이메일 또는 비밀번호가 올바르지 않습니다');
+    }
+
+    const result = await this.issueSession(user);
+
+    try {
+      await this.userRepository.updateLastLogin(user.id, new Date().toISOString());
+    } catch (error) {
+      // 로그인 자체는 성공으로 처리
+      this.logger.warn('마지막 로그인 시각 갱신 실패', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    this.logger.info('로그인 성공', { userId: user.id });
+
+    return result;
+  }
+
+  /**
+   * 회원가입 (비밀번호 정책 검증 → 사용자 생성 → 로그인)
+   */
+  async register(input: RegisterInput): Promise<AuthResult> {
+    const violations = await this.checkPasswordPolicy(input.password);
+    if (violations.length > 0) {
+      throw new RegistrationError(
+        'PASSWORD_POLICY_VIOLATION',
+        '비밀번호가 보안 정책을 만족하지 않습니다',
+        violations
+      );
+    }
+
+    const existingUser = await this.userRepository.findByEmail(input.email);
+    if (existingUser) {
+      throw new RegistrationError('EMAIL_ALREADY_EXISTS', '이미 가입된 이메일입니다');
+    }
+
+    let user: DynamoUserItem;
+    try {
+      user = await this.userRepository.create({
+        id: `user-${randomUUID()}`,
+        email: input.email,
+        name: input.name,
+        passwordHash: await PasswordHasher.hash(input.password),
+      });
+    } catch (error) {
+      // 동시 가입 요청으로 조회 이후 이메일이 선점된 경우
+      if (error instanceof DuplicateItemError) {
+        throw new RegistrationError('EMAIL_ALREADY_EXISTS', '이미 가입된 이메일입니다');
+      }
+      throw error;
+    }
+
+    this.logger.info('회원가입 성공', { userId: user.id });
+
+    return this.issueSession(user);
+  }
+
+  /**
+   * 리프레시 토큰 회전 - 사용한 토큰은 폐기하고 새 토큰 쌍 발급
+   * 이미 회전된 토큰이 다시 사용되면 탈취로 보고 패밀리 전체를 폐기
+   */
+  async refresh(refreshToken: string): Promise<RefreshResult> {
+    let claims: AppTokenClaims;
+    try {
+      claims = await this.tokenIssuer.verify(refreshToken, 'refresh');
+    } catch (error) {
+      this.logger.warn('리프레시 토큰 검증 실패', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new CredentialsError('INVALID_REFRESH_TOKEN', '유효하지 않은 리프레시 토큰입니다');
+    }
+
+    const familyId = claims.fid;
+    if (!familyId || !claims.jti) {
+      throw new CredentialsError('INVALID_REFRESH_TOKEN', '유효하지 않은 리프레시 토큰입니다');
+    }
+
+    const user = await this.userRepository.findById(claims.sub);
+    if (!user) {
+      throw new CredentialsError('INVALID_REFRESH_TOKEN', '유효하지 않은 리프레시 토큰입니다');
+    }
+
+    const tokens = await this.tokenIssuer.issueTokenPair(
+      { id: user.id, email: user.email },
+      familyId
+    );
+    const current = { userId: user.id, familyId, tokenId: claims.jti };
+    const rotated = await this.sessionRepository.rotate(current, {
+      userId: user.id,
+      familyId,
+      tokenId: tokens.refreshTokenId,
+      ttl: TTLBuilder.expiresIn(tokens.refreshExpiresIn),
+    });
+
+    if (!rotated) {
+      const session = await this.sessionRepository.find(user.id, familyId, claims.jti);
+
+      if (session?.status === 'rotated') {
+        const revokedCount = await this.sessionRepository.revokeFamily(user.id, familyId);
+        this.logger.warn('리프레시 토큰 재사용 감지 - 토큰 패밀리 폐기', {
+          userId: user.id,
+          familyId,
+          revokedCount,
+        });
+        throw new CredentialsError('REFRESH_TOKEN_REUSED', '이미 사용된 리프레시 토큰입니다');
+      }
+
+      throw new CredentialsError('INVALID_REFRESH_TOKEN', '유효하지 않은 리프레시 토큰입니다');
+    }
+
+    return {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
+    };
+  }
+
+  /**
+   * 사용자의 모든 리프레시 토큰 세션 폐기 (로그아웃, 비밀번호 변경)
+   */
+  async revokeAllSessions(userId: string): Promise<number> {
+    const revokedCount = await this.sessionRepository.revokeAll(userId);
+    this.logger.info('모든 세션 폐기', { userId, revokedCount });
+    return revokedCount;
+  }
+
+  /**
+   * 비밀번호 재설정 코드 발급 및 메일 발송
+   * 가입되지 않은 이메일이어도 동일하게 성공 처리 (계정 열거 방지)
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepository.findByEmail(email);
+    if (!user) {
+      this.logger.info('비밀번호 재설정 요청 - 가입되지 않은 이메일', {});
+      return;
+    }
+
+    const code = generateResetCode();
+    await this.resetCodeRepository.save({
+      userId: user.id,
+      codeHash: hashResetCode(code),
+      ttl: TTLBuilder.expiresIn(RESET_CODE_TTL_SECONDS),
+    });
+
+    await this.mailSender.send({
+      to: user.email,
+      subject: '[Hanbit TODO] 비밀번호 재설정 코드',
+      text: [
+        `${user.name}님, 비밀번호 재설정 코드는 다음과 같습니다.`,
+        '',
+        code,
+        '',
+        `이 코드는 ${RESET_CODE_TTL_SECONDS / 60}분 동안 한 번만 사용할 수 있습니다.`,
+        '본인이 요청하지 않았다면 이 메일을 무시하세요.',
+      ].join('\n'),
+    });
+
+    this.logger.info('비밀번호 재설정 코드 발송', { userId: user.id });
+  }
+
+  /**
+   * 재설정 코드 확인 후 비밀번호 변경 (모든 세션 폐기)
+   */
+  async confirmPasswordReset(input: PasswordResetConfirmInput): Promise<void> {
+    const violations = await this.checkPasswordPolicy(input.newPassword);
+    if (violations.length > 0) {
+      throw new PasswordUpdateError(
+        'PASSWORD_POLICY_VIOLATION',
+        '비밀번호가 보안 정책을 만족하지 않습니다',
+        violations
+      );
+    }
+
+    const user = await this.userRepository.findByEmail(input.email);
+
+    // 코드 추측 방지 - 실패 횟수를 넘으면 맞는 코드여도 잠금 기간 동안 거부
+    if (
+      user &&
+      (await this.resetCodeRepository.countFailedAttempts(user.id)) >= RESET_CONFIRM_MAX_ATTEMPTS
+    ) {
+      this.logger.warn('비밀번호 재설정 실패 - 확인 시도 횟수 초과', { userId: user.id });
+      throw new PasswordUpdateError(
+        'RESET_ATTEMPTS_EXCEEDED',
+        '재설정 코드 확인 시도가 너무 많습니다. 잠시 후 다시 시도해 주세요'
+      );
+    }
+
+    const consumed = user
+      ? await this.resetCodeRepository.consume(user.id, hashResetCode(input.code))
+      : false;
+
+    if (!user || !consumed) {
+      if (user) {
+        await this.resetCodeRepository.recordFailedAttempt(
+          user.id,
+          TTLBuilder.expiresIn(RESET_CODE_TTL_SECONDS)
+        );
+      }
+      this.logger.warn('비밀번호 재설정 실패 - 유효하지 않은 코드', { userFound: !!user });
+      throw new PasswordUpdateError(
+        'INVALID_RESET_CODE',
+        '재설정 코드가 올바르지 않거나 만료되었습니다'
+      );
+    }
+
+    await this.userRepository.updatePassword(user.id, await PasswordHasher.hash(input.newPassword));
+    await this.resetCodeRepository.clearFailedAttempts(user.id);
+    await this.revokeAllSessions(user.id);
+
+    this.logger.info('비밀번호 재설정 완료', { userId: user.id });
+  }
+
+  /**
+   * 현재 비밀번호 확인 후 변경
+   * 기존 세션은 모두 폐기하고 요청한 클라이언트에는 새 세션 발급
+   */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string
+  ): Promise<AuthResult> {
+    const user = await this.userRepository.findById(userId);
+    const passwordMatches = user
+      ? await PasswordHasher.verify(currentPassword, user.passwordHash)
+      : false;
+
+    if (!user || !passwordMatches) {
+      this.logger.warn('비밀번호 변경 실패 - 현재 비밀번호 불일치', { userId });
+      throw new PasswordUpdateError(
+        'INVALID_CURRENT_PASSWORD',
+        '현재 비밀번호가 올바르지 않습니다'
+      );
+    }
+
+    const violations = await this.checkPasswordPolicy(newPassword);
+    if (violations.length > 0) {
+      throw new PasswordUpdateError(
+        'PASSWORD_POLICY_VIOLATION',
+        '비밀번호가 보안 정책을 만족하지 않습니다',
+        violations
+      );
+    }
+
+    await this.userRepository.updatePassword(user.id, await PasswordHasher.hash(newPassword));
+    await this.revokeAllSessions(user.id);
+
+    this.logger.info('비밀번호 변경 완료', { userId: user.id });
+
+    return this.issueSession(user);
+  }
+
+  /**
+   * 설정된 비밀번호 정책 위반 항목 조회
+   */
+  private async checkPasswordPolicy(password: string): Promise<string[]> {
+    const policy = await this.getPasswordPolicy();
+    return getPasswordPolicyViolations(password, policy);
+  }
+
+  /**
+   * 사용자 토큰 발급 및 응답 구성
+   */
+  private async issueSession(user: DynamoUserItem): Promise<AuthResult> {
+    const tokens = await this.tokenIssuer.issueTokenPair({ id: user.id, email: user.email });
+
+    await this.sessionRepository.create({
+      userId: user.id,
+      familyId: tokens.familyId,
+      tokenId: tokens.refreshTokenId,
+      ttl: TTLBuilder.expiresIn(tokens.refreshExpiresIn),
+    });
+
+    return {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        createdAt: user.createdAt,
+      },
+    };
+  }
+}
+
+/**
+ * 사용자에게 전달할 재설정 코드 생성
+ */
+function generateResetCode(): string {
+  let code = '';
+  for (let i = 0; i < RESET_CODE_LENGTH; i++) {
+    code += RESET_CODE_ALPHABET[randomInt(RESET_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * 저장/조회용 재설정 코드 해시 (대소문자, 공백 무시)
+ */
+function hashResetCode(code: string): string {
+  return createHash('sha256').update(code.trim().toUpperCase()).digest('hex');
+}
@@ -1,8 +1,74 @@
-import { WriteRequest } from '@aws-sdk/client-dynamodb';
-import { BatchGetCommand, BatchWriteCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  BatchGetCommand,
+  BatchWriteCommand,
+  BatchWriteCommandInput,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
 import { getConnection, getCachedConfig } from '../utils/cold-start-optimizer';
 import { logger } from '../utils/error-handler';
-import { Todo, CreateTodoRequest } from '@hanbit/types';
+import {
+  DynamoKeyBuilder,
+  GSI2KeyBuilder,
+  GSI3KeyBuilder,
+  GSI4KeyBuilder,
+  normalizeTag,
+  todoPartitionKey,
+  todoPartitionOwner,
+} from '../utils/database-schema';
+import { DynamoTodoItem, DynamoTodoTagItem } from '../types/database.types';
+import { Todo } from '@hanbit/types';
+
+/**
+ * BatchWrite 요청 한 건 (DocumentClient 형식)
+ */
+export type DocumentWriteRequest = NonNullable<
+  BatchWriteCommandInput['RequestItems']
+>[string][number];
+
+/**
+ * 배치로 저장할 새 Todo (키와 인덱스 속성은 저장 시 생성)
+ */
+export type NewTodoItem = Omit<
+  DynamoTodoItem,
+  | 'PK'
+  | 'SK'
+  | 'GSI1PK'
+  | 'GSI1SK'
+  | 'GSI2PK'
+  | 'GSI2SK'
+  | 'GSI3PK'
+  | 'GSI3SK'
+  | 'GSI4PK'
+  | 'GSI4SK'
+  | 'EntityType'
+>;
+
+/**
+ * 배치 쓰기 작업 - 새 Todo 저장 (태그 인접 아이템 함께 처리)
+ * 삭제는 휴지통 이동 트랜잭션이 필요하므로 배치로 쓰지 않고 TodoRepository.delete를 사용
+ */
+export type BatchWriteOperation = { action: 'PUT'; todo: NewTodoItem };
+
+/**
+ * 배치 쓰기 결과
+ */
+export interface BatchWriteResult {
+  successCount: number;
+  failedItems: DocumentWriteRequest[]; // 재시도 후에도 처리되지 않은 쓰기
+  unprocessedIndexes: number[]; // 쓰기가 하나라도 처리되지 않은 작업의 인덱스 (오름차순)
+  unwrittenTodoIndexes: number[]; // 그중 Todo 아이템도 처리되지 않은 작업 (나머지는 태그 아이템만 남음)
+}
+
+// 정규화 후 같은 태그는 같은 키가 되므로 하나만 남김 (BatchWrite는 중복 키를 거부)
+function uniqueTags(tags: string[] = []): string[] {
+  return [...new Map(tags.map(tag => [normalizeTag(tag), tag])).values()];
+}
+
+// 처리되지 않은 쓰기를 원래 작업과 연결하기 위한 키
+function writeRequestKey(request: DocumentWriteRequest): string {
+  const key = request.PutRequest?.Item ?? request.DeleteRequest?.Key ?? {};
+  return `${key.PK}|${key.SK}`;
+}
 
 /**
  * DynamoDB 배치 작업 최적화 서비스
@@ -129,8 +195,11 @@ export class BatchOperationService {
         ExpressionAttributeValues: {
           ':pk': `USER#${userId}`,
           ':sk': 'TODO#',
+          ':entityType': 'TODO',
         },
         ScanIndexForward: false, // 최신 순 정렬 (createdAt 역순)
+        // 같은 SK 접두사를 쓰는 하위 아이템(체크리스트 항목 등) 제외
+        FilterExpression: 'EntityType = :entityType',
       };
 
       // 페이지네이션 지원
@@ -144,7 +213,7 @@ export class BatchOperationService {
 
       // 완료 상태 필터링
       if (options?.filterCompleted !== undefined) {
-        queryParams.FilterExpression = 'completed = :completed';
+        queryParams.FilterExpression += ' AND completed = :completed';
         queryParams.ExpressionAttributeValues[':completed'] = options.filterCompleted;
       }
 
@@ -172,41 +241,59 @@ export class BatchOperationService {
   }
 
   /**
-   * 여러 TODO 항목 배치 생성/업데이트
+   * 여러 TODO 항목 배치 저장/삭제 (태그 인접 아이템 포함)
+   * 재시도 후에도 처리되지 않은 쓰기가 남은 작업은 unprocessedIndexes로 반환
    */
-  async batchWriteTodos(
-    operations: Array<{
-      action: 'PUT' | 'DELETE';
-      todo?: Todo | CreateTodoRequest;
-      key?: { userId: string; todoId: string };
-    }>
-  ): Promise<{ successCount: number; failedItems: WriteRequest[] }> {
-    if (operations.length === 0) return { successCount: 0, failedItems: [] };
+  async batchWriteTodos(operations: BatchWriteOperation[]): Promise<BatchWriteResult> {
+    if (operations.length === 0) {
+      return { successCount: 0, failedItems: [], unprocessedIndexes: [], unwrittenTodoIndexes: [] };
+    }
 
     const startTime = Date.now();
 
     try {
+      // 작업마다 Todo 아이템과 태그 인접 아이템 쓰기를 만들고, 어느 작업의 쓰기인지 키로 추적
+      const operationIndexByKey = new Map<string, number>();
+      const writeRequests = operations.flatMap((op, index) =>
+        this.toWriteRequests(op).map(request => {
+          operationIndexByKey.set(writeRequestKey(request), index);
+          return request;
+        })
+      );
+
       const batchSize = 25; // DynamoDB BatchWrite 최대 25개
-      let successCount = 0;
-      const failedItems: WriteRequest[] = [];
-
-      for (let i = 0; i < operations.length; i += batchSize) {
-        const batchOps = operations.slice(i, i + batchSize);
-        const result = await this.executeBatchWrite(batchOps);
-        successCount += result.successCount;
-        failedItems.push(...result.failedItems);
+      const failedItems: DocumentWriteRequest[] = [];
+
+      for (let i = 0; i < writeRequests.length; i += batchSize) {
+        const unprocessed = await this.executeBatchWrite(writeRequests.slice(i, i + batchSize));
+        failedItems.push(...unprocessed);
       }
 
+      const toOperationIndexes = (requests: DocumentWriteRequest[]) =>
+        [...new Set(requests.map(request => operationIndexByKey.get(writeRequestKey(request))))]
+          .filter((index): index is number => index !== undefined)
+          .sort((a, b) => a - b);
+      const unprocessedIndexes = toOperationIndexes(failedItems);
+      const unwrittenTodoIndexes = toOperationIndexes(
+        failedItems.filter(request => request.PutRequest?.Item?.EntityType === 'TODO')
+      );
+
       const duration = Date.now() - startTime;
       logger.info('Batch write todos completed', {
         totalOperations: operations.length,
-        successCount,
-        failedCount: failedItems.length,
+        totalWriteRequests: writeRequests.length,
+        successCount: operations.length - unprocessedIndexes.length,
+        failedCount: unprocessedIndexes.length,
         duration,
-        batchCount: Math.ceil(operations.length / batchSize),
+        batchCount: Math.ceil(writeRequests.length / batchSize),
       });
 
-      return { successCount, failedItems };
+      return {
+        successCount: operations.length - unprocessedIndexes.length,
+        failedItems,
+        unprocessedIndexes,
+        unwrittenTodoIndexes,
+      };
     } catch (error) {
       logger.error('Batch write todos failed', error as Error, {
         operationCount: operations.length,
@@ -216,35 +303,11 @@ export class BatchOperationService {
   }
 
   /**
-   * 단일 배치에서 쓰기 작업 실행
+   * 단일 배치에서 쓰기 작업 실행 (재시도 후에도 처리되지 않은 쓰기 반환)
    */
   private async executeBatchWrite(
-    operations: Array<{
-      action: 'PUT' | 'DELETE';
-      todo?: Todo | CreateTodoRequest;
-      key?: { userId: string; todoId: string };
-    }>
-  ): Promise<{ successCount: number; failedItems: WriteRequest[] }> {
-    const writeRequests: WriteRequest[] = operations.map(op => {
-      if (op.action === 'PUT' && op.todo) {
-        return {
-          PutRequest: {
-            Item: this.todoToDynamoItem(op.todo as Todo),
-          },
-        };
-      } else if (op.action === 'DELETE' && op.key) {
-        return {
-          DeleteRequest: {
-            Key: {
-              PK: `USER#${op.key.userId}`,
-              SK: `TODO#${op.key.todoId}`,
-            },
-          },
-        };
-      }
-      throw new Error('Invalid batch operation');
-    });
-
+    writeRequests: DocumentWriteRequest[]
+  ): Promise<DocumentWriteRequest[]> {
     const command = new BatchWriteCommand({
       RequestItems: {
         [this.tableName]: writeRequests,
@@ -272,10 +335,18 @@ export class BatchOperationService {
       retryCount++;
     }
 
-    return {
-      successCount: operations.length - unprocessedItems.length,
-      failedItems: unprocessedItems,
-    };
+    return unprocessedItems;
+  }
+
+  /**
+   * 배치 작업 하나를 BatchWrite 요청 목록으로 변환
+   */
+  private toWriteRequests(op: BatchWriteOperation): DocumentWriteRequest[] {
+    const tagItems = uniqueTags(op.todo.tags).map(tag => this.todoTagToDynamoItem(op.todo, tag));
+    return [
+      { PutRequest: { Item: this.todoToDynamoItem(op.todo) } },
+      ...tagItems.map(item => ({ PutRequest: { Item: item } })),
+    ];
   }
 
   /**
@@ -441,29 +512,37 @@ export class BatchOperationService {
   }
 
   /**
-   * Todo 객체를 DynamoDB 아이템으로 변환
+   * 새 Todo를 DynamoDB 아이템으로 변환 (TodoRepository.create와 같은 키 구조)
    */
-  private todoToDynamoItem(todo: Todo): Record<string, unknown> {
-    const now = new Date().toISOString();
+  private todoToDynamoItem(todo: NewTodoItem): DynamoTodoItem {
+    // 프로젝트 Todo는 프로젝트 파티션에 저장
+    const ownerId = todoPartitionOwner(todo);
+
+    return {
+      ...todo,
+      ...DynamoKeyBuilder.todoItem(ownerId, todo.id),
+      EntityType: 'TODO',
+      GSI1PK: `${todoPartitionKey(ownerId)}#STATUS#${todo.completed}`,
+      GSI1SK: `PRIORITY#${todo.priority}#${todo.createdAt}`,
+      ...GSI2KeyBuilder.titleSearch(ownerId, todo.title, todo.createdAt),
+      ...(todo.dueDate && GSI3KeyBuilder.dueDate(ownerId, todo.dueDate)),
+      ...GSI4KeyBuilder.change(ownerId, todo.updatedAt, todo.id),
+    };
+  }
 
+  /**
+   * 새 Todo의 태그 인접 아이템 생성
+   */
+  private todoTagToDynamoItem(todo: NewTodoItem, tag: string): DynamoTodoTagItem {
     return {
-      PK: `USER#${todo.userId}`,
-      SK: `TODO#${todo.id}`,
-      GSI1PK: `USER#${todo.userId}#STATUS#${todo.completed}`,
-      GSI1SK: `PRIORITY#${todo.priority || 'medium'}#${todo.createdAt}`,
-      GSI2PK: `USER#${todo.userId}`,
-      GSI2SK: `TITLE#${todo.title.toLowerCase()}#${todo.createdAt}`,
-      title: todo.title,
-      completed: todo.completed,
-      priority: todo.priority || 'medium',
-      dueDate: todo.dueDate,
-      createdAt: todo.createdAt || now,
-      updatedAt: now,
-      isGuest: todo.isGuest || false,
-      // TTL for guest users (7 days)
-      ...(todo.isGuest && {
-        ttl: Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60,
-      }),
+      ...DynamoKeyBuilder.todoTag(todoPartitionOwner(todo), tag, todo.id),
+      EntityType: 'TODO_TAG',
+      tag: tag.trim(),
+      todoId: todo.id,
+      userId: todo.userId,
+      sessionId: todo.sessionId,
+      createdAt: todo.createdAt,
+      ttl: todo.ttl,
     };
   }
 
@@ -0,0 +1,274 @@
+/**
+ * ChecklistService - Todo 하위 체크리스트 항목 비즈니스 로직 서비스
+ * - 부모 Todo 접근 권한(게스트 세션, 프로젝트 멤버 역할 포함) 확인 후 항목 CRUD
+ * - 항목 순서 변경
+ * - 부모 Todo의 진행률 카운터는 저장소가 항목 쓰기와 같은 트랜잭션으로 갱신
+ */
+
+import { randomUUID } from 'crypto';
+import { DynamoChecklistItem, DynamoTodoItem, ItemNotFoundError } from '../types/database.types';
+import {
+  AuthContext,
+  CreateChecklistItemRequest,
+  UpdateChecklistItemRequest,
+} from '../types/api.types';
+import { todoPartitionOwner } from '../utils/database-schema';
+import type { ITodoService, Logger, TodoScope } from './todo.service';
+
+// Todo 하나에 둘 수 있는 최대 항목 수 (순서 변경 트랜잭션 한도 안에 들어가도록 제한)
+export const MAX_CHECKLIST_ITEMS = 50;
+
+// ==========================================
+// 인터페이스 정의
+// ==========================================
+
+/**
+ * 새로 저장할 체크리스트 항목
+ */
+export interface NewChecklistItem {
+  id: string;
+  todoId: string;
+  userId: string; // 부모 Todo의 파티션 소유자 ID (프로젝트 Todo는 projectPartitionOwner(projectId))
+  title: string;
+  completed: boolean;
+  position: number;
+  ttl?: number;
+}
+
+/**
+ * Repository 인터페이스 - 체크리스트 항목 데이터 액세스 계층
+ * userId 인자는 부모 Todo의 파티션 소유자 ID
+ */
+export interface ChecklistRepository {
+  findByTodo(userId: string, todoId: string): Promise<DynamoChecklistItem[]>;
+  findById(userId: string, todoId: string, itemId: string): Promise<DynamoChecklistItem | null>;
+  create(item: NewChecklistItem): Promise<DynamoChecklistItem>;
+  update(
+    item: DynamoChecklistItem,
+    updates: { title?: string; completed?: boolean }
+  ): Promise<DynamoChecklistItem>;
+  delete(item: DynamoChecklistItem): Promise<void>;
+  reorder(userId: string, todoId: string, itemIds: string[]): Promise<void>;
+}
+
+/**
+ * 커스텀 에러 클래스 - 체크리스트 요청 에러
+ */
+export class ChecklistError extends Error {
+  constructor(
+    public code: 'ITEM_LIMIT_EXCEEDED' | 'INVALID_ORDER',
+    message: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ChecklistError';
+  }
+}
+
+/**
+ * ChecklistService 인터페이스
+ */
+export interface IChecklistService {
+  listItems(
+    authContext: AuthContext,
+    todoId: string,
+    scope?: TodoScope
+  ): Promise<DynamoChecklistItem[]>;
+  createItem(
+    authContext: AuthContext,
+    todoId: string,
+    request: CreateChecklistItemRequest,
+    scope?: TodoScope
+  ): Promise<DynamoChecklistItem>;
+  updateItem(
+    authContext: AuthContext,
+    todoId: string,
+    itemId: string,
+    request: UpdateChecklistItemRequest,
+    scope?: TodoScope
+  ): Promise<DynamoChecklistItem>;
+  deleteItem(
+    authContext: AuthContext,
+    todoId: string,
+    itemId: string,
+    scope?: TodoScope
+  ): Promise<void>;
+  reorderItems(
+    authContext: AuthContext,
+    todoId: string,
+    itemIds: string[],
+    scope?: TodoScope
+  ): Promise<DynamoChecklistItem[]>;
+}
+
+// ==========================================
+// ChecklistService 구현체
+// ==========================================
+
+export class ChecklistService implements IChecklistService {
+  constructor(
+    private checklistRepository: ChecklistRepository,
+    private todoService: ITodoService,
+    private logger: Logger
+  ) {}
+
+  /**
+   * 체크리스트 항목 목록 조회 (표시 순서대로)
+   */
+  async listItems(
+    authContext: AuthContext,
+    todoId: string,
+    scope: TodoScope = {}
+  ): Promise<DynamoChecklistItem[]> {
+    const todo = await this.todoService.getTodoById(authContext, todoId, scope);
+    return this.checklistRepository.findByTodo(todoPartitionOwner(todo), todoId);
+  }
+
+  /**
+   * 체크리스트 항목 추가 (목록 맨 뒤에 추가)
+   */
+  async createItem(
+    authContext: AuthContext,
+    todoId: string,
+    request: CreateChecklistItemRequest,
+    scope: TodoScope = {}
+  ): Promise<DynamoChecklistItem> {
+    const todo = await this.findTodoForUpdate(authContext, todoId, scope);
+    const ownerId = todoPartitionOwner(todo);
+
+    const items = await this.checklistRepository.findByTodo(ownerId, todoId);
+    if (items.length >= MAX_CHECKLIST_ITEMS) {
+      throw new ChecklistError(
+        'ITEM_LIMIT_EXCEEDED',
+        `체크리스트 항목은 최대 ${MAX_CHECKLIST_ITEMS}개까지 추가할 수 있습니다`,
+        { limit: MAX_CHECKLIST_ITEMS }
+      );
+    }
+
+    const item = await this.checklistRepository.create({
+      id: `item-${randomUUID()}`,
+      todoId,
+      userId: ownerId,
+      title: request.title,
+      completed: request.completed ?? false,
+      position: items.reduce((max, existing) => Math.max(max, existing.position + 1), 0),
+      ttl: todo.ttl, // 게스트 Todo와 함께 만료
+    });
+
+    this.logger.info('Checklist item created', { todoId, itemId: item.id });
+
+    return item;
+  }
+
+  /**
+   * 체크리스트 항목 수정 (제목, 완료 여부)
+   */
+  async updateItem(
+    authContext: AuthContext,
+    todoId: string,
+    itemId: string,
+    request: UpdateChecklistItemRequest,
+    scope: TodoScope = {}
+  ): Promise<DynamoChecklistItem> {
+    const todo = await this.findTodoForUpdate(authContext, todoId, scope);
+
+    const item = await this.findItemOrThrow(todoPartitionOwner(todo), todoId, itemId);
+    const updated = await this.checklistRepository.update(item, {
+      title: request.title,
+      completed: request.completed,
+    });
+
+    this.logger.info('Checklist item updated', {
+      todoId,
+      itemId,
+      updatedFields: Object.keys(request),
+    });
+
+    return updated;
+  }
+
+  /**
+   * 체크리스트 항목 삭제
+   */
+  async deleteItem(
+    authContext: AuthContext,
+    todoId: string,
+    itemId: string,
+    scope: TodoScope = {}
+  ): Promise<void> {
+    const todo = await this.findTodoForUpdate(authContext, todoId, scope);
+
+    const item = await this.findItemOrThrow(todoPartitionOwner(todo), todoId, itemId);
+    await this.checklistRepository.delete(item);
+
+    this.logger.info('Checklist item deleted', { todoId, itemId });
+  }
+
+  /**
+   * 체크리스트 항목 순서 변경 (모든 항목 ID를 새 순서대로 받아야 함)
+   */
+  async reorderItems(
+    authContext: AuthContext,
+    todoId: string,
+    itemIds: string[],
+    scope: TodoScope = {}
+  ): Promise<DynamoChecklistItem[]> {
+    const todo = await this.findTodoForUpdate(authContext, todoId, scope);
+    const ownerId = todoPartitionOwner(todo);
+
+    const items = await this.checklistRepository.findByTodo(ownerId, todoId);
+    const existingIds = new Set(items.map(item => item.id));
+    const requestedIds = new Set(itemIds);
+
+    if (
+      requestedIds.size !== itemIds.length ||
+      requestedIds.size !== existingIds.size ||
+      itemIds.some(id => !existingIds.has(id))
+    ) {
+      throw new ChecklistError(
+        'INVALID_ORDER',
+        '순서 변경에는 체크리스트의 모든 항목 ID가 한 번씩 포함되어야 합니다',
+        {
+          missing: items.map(item => item.id).filter(id => !requestedIds.has(id)),
+          unknown: itemIds.filter(id => !existingIds.has(id)),
+        }
+      );
+    }
+
+    await this.checklistRepository.reorder(ownerId, todoId, itemIds);
+
+    this.logger.info('Checklist items reordered', { todoId, itemCount: itemIds.length });
+
+    const itemsById = new Map(items.map(item => [item.id, item]));
+    return itemIds.flatMap((id, position) => {
+      const item = itemsById.get(id);
+      return item ? [{ ...item, position }] : [];
+    });
+  }
+
+  /**
+   * 항목을 바꿀 부모 Todo 조회 (Todo 수정 권한과 프로젝트 멤버 역할 확인)
+   */
+  private async findTodoForUpdate(
+    authContext: AuthContext,
+    todoId: string,
+    scope: TodoScope
+  ): Promise<DynamoTodoItem> {
+    await this.todoService.validatePermissions(authContext, 'UPDATE', {
+      projectId: scope.projectId,
+    });
+    return this.todoService.getTodoById(authContext, todoId, scope);
+  }
+
+  private async findItemOrThrow(
+    userId: string,
+    todoId: string,
+    itemId: string
+  ): Promise<DynamoChecklistItem> {
+    const item = await this.checklistRepository.findById(userId, todoId, itemId);
+    if (!item) {
+      throw new ItemNotFoundError('ChecklistItem', itemId);
+    }
+    return item;
+  }
+}
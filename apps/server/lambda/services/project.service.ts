@@ -0,0 +1,322 @@
+/**
+ * ProjectService - 공유 프로젝트(목록)와 멤버 역할 관리 서비스
+ * - 프로젝트를 만든 사용자가 owner, 초대한 멤버는 editor 또는 viewer
+ * - 프로젝트 Todo 권한은 TodoService.validatePermissions가 멤버 역할로 검사
+ * - 멤버 관리는 owner만 가능 (자기 자신은 역할과 관계없이 나갈 수 있음)
+ * - 마지막 owner는 내보내거나 강등할 수 없음
+ */
+
+import { randomUUID } from 'crypto';
+import { ProjectRole } from '../types/constants';
+import { DynamoProjectMemberItem, ItemNotFoundError } from '../types/database.types';
+import {
+  AuthContext,
+  AddProjectMemberRequest,
+  CreateProjectRequest,
+  UpdateProjectMemberRequest,
+} from '../types/api.types';
+import { AuthError, type Logger } from './todo.service';
+import type { UserRepository } from './auth.service';
+import { hasProjectRole } from '../utils/project-roles';
+
+// ==========================================
+// 인터페이스 정의
+// ==========================================
+
+/**
+ * 새로 저장할 프로젝트
+ */
+export interface NewProject {
+  id: string;
+  name: string;
+  ownerId: string;
+}
+
+/**
+ * 새로 저장할(또는 역할을 바꿀) 프로젝트 멤버
+ */
+export interface NewProjectMember {
+  projectId: string;
+  projectName: string;
+  userId: string;
+  email?: string; // 담당자 표시용
+  role: ProjectRole;
+  addedBy: string;
+  addedAt?: string; // 역할만 바꿀 때 처음 추가된 시각 유지
+}
+
+/**
+ * Repository 인터페이스 - 프로젝트/멤버 데이터 액세스 계층
+ */
+export interface ProjectRepository {
+  create(project: NewProject, owner: NewProjectMember): Promise<DynamoProjectMemberItem>; // owner 멤버 아이템 반환
+  findMember(projectId: string, userId: string): Promise<DynamoProjectMemberItem | null>;
+  listMembers(projectId: string): Promise<DynamoProjectMemberItem[]>;
+  listByUser(userId: string): Promise<DynamoProjectMemberItem[]>;
+  saveMember(member: NewProjectMember): Promise<DynamoProjectMemberItem>;
+  removeMember(projectId: string, userId: string): Promise<void>;
+}
+
+/**
+ * 커스텀 에러 클래스 - 프로젝트 요청 에러
+ */
+export class ProjectError extends Error {
+  constructor(
+    public code: 'USER_NOT_FOUND' | 'LAST_OWNER',
+    message: string
+  ) {
+    super(message);
+    this.name = 'ProjectError';
+  }
+}
+
+/**
+ * ProjectService 인터페이스
+ */
+export interface IProjectService {
+  createProject(
+    authContext: AuthContext,
+    request: CreateProjectRequest
+  ): Promise<DynamoProjectMemberItem>;
+  listProjects(authContext: AuthContext): Promise<DynamoProjectMemberItem[]>;
+  listMembers(authContext: AuthContext, projectId: string): Promise<DynamoProjectMemberItem[]>;
+  addMember(
+    authContext: AuthContext,
+    projectId: string,
+    request: AddProjectMemberRequest
+  ): Promise<DynamoProjectMemberItem>;
+  updateMember(
+    authContext: AuthContext,
+    projectId: string,
+    userId: string,
+    request: UpdateProjectMemberRequest
+  ): Promise<DynamoProjectMemberItem>;
+  removeMember(authContext: AuthContext, projectId: string, userId: string): Promise<void>;
+}
+
+// ==========================================
+// 역할 검사
+// ==========================================
+
+/**
+ * 요청한 사용자가 프로젝트에서 요구 역할 이상인지 확인하고 멤버 아이템 반환
+ * 프로젝트가 없을 때도 멤버가 아닐 때와 같은 에러를 던져 프로젝트 존재 여부를 드러내지 않음
+ */
+export async function requireProjectRole(
+  projectRepository: ProjectRepository,
+  authContext: AuthContext,
+  projectId: string,
+  required: ProjectRole
+): Promise<DynamoProjectMemberItem> {
+  if (authContext.userType === 'guest') {
+    throw new AuthError('PROJECT_ACCESS_DENIED', 'Guest users cannot use shared projects');
+  }
+
+  const member = await projectRepository.findMember(projectId, authContext.userId);
+  if (!member) {
+    throw new AuthError('PROJECT_ACCESS_DENIED', 'Not a member of this project');
+  }
+
+  if (!hasProjectRole(member.role, required)) {
+    throw new AuthError(
+      'PROJECT_ROLE_REQUIRED',
+      `Project role '${required}' or higher is required`
+    );
+  }
+
+  return member;
+}
+
+// ==========================================
+// ProjectService 구현체
+// ==========================================
+
+export class ProjectService implements IProjectService {
+  constructor(
+    private projectRepository: ProjectRepository,
+    private userRepository: UserRepository,
+    private logger: Logger
+  ) {}
+
+  /**
+   * 프로젝트 생성 (만든 사용자가 owner, owner 멤버 아이템 반환)
+   */
+  async createProject(
+    authContext: AuthContext,
+    request: CreateProjectRequest
+  ): Promise<DynamoProjectMemberItem> {
+    if (authContext.userType === 'guest') {
+      throw new AuthError('PROJECT_ACCESS_DENIED', 'Guest users cannot use shared projects');
+    }
+
+    const projectId = `project-${randomUUID()}`;
+    const owner: NewProjectMember = {
+      projectId,
+      projectName: request.name,
+      userId: authContext.userId,
+      email:
+        typeof authContext.tokenClaims.email === 'string'
+          ? authContext.tokenClaims.email
+          : undefined,
+      role: ProjectRole.OWNER,
+      addedBy: authContext.userId,
+    };
+
+    const member = await this.projectRepository.create(
+      { id: projectId, name: request.name, ownerId: authContext.userId },
+      owner
+    );
+
+    this.logger.info('Project created', { projectId, userId: authContext.userId });
+
+    return member;
+  }
+
+  /**
+   * 사용자가 속한 프로젝트 목록 (멤버 아이템에 프로젝트 이름과 내 역할이 있음)
+   */
+  async listProjects(authContext: AuthContext): Promise<DynamoProjectMemberItem[]> {
+    if (authContext.userType === 'guest') {
+      return [];
+    }
+
+    return this.projectRepository.listByUser(authContext.userId);
+  }
+
+  /**
+   * 프로젝트 멤버 목록 (멤버라면 역할과 관계없이 조회 가능)
+   */
+  async listMembers(
+    authContext: AuthContext,
+    projectId: string
+  ): Promise<DynamoProjectMemberItem[]> {
+    await requireProjectRole(this.projectRepository, authContext, projectId, ProjectRole.VIEWER);
+    return this.projectRepository.listMembers(projectId);
+  }
+
+  /**
+   * 가입한 사용자를 이메일로 초대 (이미 멤버면 역할만 변경)
+   */
+  async addMember(
+    authContext: AuthContext,
+    projectId: string,
+    request: AddProjectMemberRequest
+  ): Promise<DynamoProjectMemberItem> {
+    const requester = await requireProjectRole(
+      this.projectRepository,
+      authContext,
+      projectId,
+      ProjectRole.OWNER
+    );
+
+    const user = await this.userRepository.findByEmail(request.email);
+    if (!user) {
+      throw new ProjectError('USER_NOT_FOUND', '가입하지 않은 이메일입니다');
+    }
+
+    const existing = await this.projectRepository.findMember(projectId, user.id);
+    if (existing) {
+      await this.ensureOwnerRemains(projectId, existing, request.role);
+    }
+
+    const member = await this.projectRepository.saveMember({
+      projectId,
+      projectName: requester.projectName,
+      userId: user.id,
+      email: user.email,
+      role: request.role,
+      addedBy: existing?.addedBy ?? authContext.userId,
+      addedAt: existing?.addedAt,
+    });
+
+    this.logger.info('Project member added', {
+      projectId,
+      userId: user.id,
+      role: request.role,
+      addedBy: authContext.userId,
+    });
+
+    return member;
+  }
+
+  /**
+   * 멤버 역할 변경
+   */
+  async updateMember(
+    authContext: AuthContext,
+    projectId: string,
+    userId: string,
+    request: UpdateProjectMemberRequest
+  ): Promise<DynamoProjectMemberItem> {
+    await requireProjectRole(this.projectRepository, authContext, projectId, ProjectRole.OWNER);
+
+    const existing = await this.projectRepository.findMember(projectId, userId);
+    if (!existing) {
+      throw new ItemNotFoundError('ProjectMember', userId);
+    }
+
+    await this.ensureOwnerRemains(projectId, existing, request.role);
+
+    const member = await this.projectRepository.saveMember({
+      projectId,
+      projectName: existing.projectName,
+      userId,
+      email: existing.email,
+      role: request.role,
+      addedBy: existing.addedBy,
+      addedAt: existing.addedAt,
+    });
+
+    this.logger.info('Project member role changed', {
+      projectId,
+      userId,
+      from: existing.role,
+      to: request.role,
+      changedBy: authContext.userId,
+    });
+
+    return member;
+  }
+
+  /**
+   * 멤버 내보내기 (owner만 가능, 자기 자신은 누구나 나갈 수 있음)
+   */
+  async removeMember(authContext: AuthContext, projectId: string, userId: string): Promise<void> {
+    const required = userId === authContext.userId ? ProjectRole.VIEWER : ProjectRole.OWNER;
+    await requireProjectRole(this.projectRepository, authContext, projectId, required);
+
+    const existing = await this.projectRepository.findMember(projectId, userId);
+    if (!existing) {
+      throw new ItemNotFoundError('ProjectMember', userId);
+    }
+
+    await this.ensureOwnerRemains(projectId, existing);
+    await this.projectRepository.removeMember(projectId, userId);
+
+    this.logger.info('Project member removed', {
+      projectId,
+      userId,
+      removedBy: authContext.userId,
+    });
+  }
+
+  /**
+   * owner의 역할을 바꾸거나 내보낸 뒤에도 owner가 한 명 이상 남는지 확인
+   * @param nextRole 바꿀 역할 (생략하면 내보내기)
+   */
+  private async ensureOwnerRemains(
+    projectId: string,
+    member: DynamoProjectMemberItem,
+    nextRole?: ProjectRole
+  ): Promise<void> {
+    if (member.role !== ProjectRole.OWNER || nextRole === ProjectRole.OWNER) {
+      return;
+    }
+
+    const members = await this.projectRepository.listMembers(projectId);
+    const ownerCount = members.filter(({ role }) => role === ProjectRole.OWNER).length;
+    if (ownerCount <= 1) {
+      throw new ProjectError('LAST_OWNER', '프로젝트에는 owner가 한 명 이상 있어야 합니다');
+    }
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * RealtimeService - WebSocket 실시간 업데이트 비즈니스 로직 서비스
+ * - 로그인한 사용자의 WebSocket 연결을 등록/해제
+ * - DynamoDB Streams로 받은 Todo 변경을 사용자별로 모아 연결된 모든 기기에 전송
+ *   (프로젝트 Todo는 프로젝트 멤버 모두에게 전송)
+ * - 이미 끊긴 연결은 전송 중에 발견하면 정리
+ */
+
+import { DynamoTodoItem } from '../types/database.types';
+import { AuthContext, RealtimeTodoChangesMessage } from '../types/api.types';
+import { CONNECTION_RETENTION_SECONDS, TTLBuilder } from '../utils/database-schema';
+import type { ConnectionNotifier } from '../utils/connection-notifier';
+import { AuthError, type Logger } from './todo.service';
+import type { ProjectRepository } from './project.service';
+import { toTodoResponse } from '../utils/todo-response';
+
+// ==========================================
+// 인터페이스 정의
+// ==========================================
+
+/**
+ * WebSocket 연결 저장소 인터페이스
+ */
+export interface ConnectionRepository {
+  save(userId: string, connectionId: string, ttl: number): Promise<void>;
+  findUserId(connectionId: string): Promise<string | null>;
+  remove(userId: string, connectionId: string): Promise<void>;
+  listByUser(userId: string): Promise<string[]>;
+}
+
+/**
+ * 스트림에서 받은 Todo 변경 (REMOVE면 oldItem만, 그 외에는 newItem이 있음)
+ */
+export interface TodoStreamChange {
+  eventName: 'INSERT' | 'MODIFY' | 'REMOVE';
+  newItem?: DynamoTodoItem;
+  oldItem?: DynamoTodoItem;
+  changedAt: string;
+}
+
+/**
+ * 전송 결과
+ */
+export interface PublishResult {
+  userCount: number;
+  sentCount: number;
+  staleCount: number; // 끊긴 것으로 확인되어 정리한 연결 수
+}
+
+/**
+ * RealtimeService 인터페이스
+ */
+export interface IRealtimeService {
+  connect(authContext: AuthContext, connectionId: string): Promise<void>;
+  disconnect(connectionId: string): Promise<void>;
+  publish(changes: TodoStreamChange[]): Promise<PublishResult>;
+}
+
+// ==========================================
+// RealtimeService 구현체
+// ==========================================
+
+export class RealtimeService implements IRealtimeService {
+  constructor(
+    private connectionRepository: ConnectionRepository,
+    private notifier: ConnectionNotifier,
+    private logger: Logger,
+    private projectRepository: ProjectRepository
+  ) {}
+
+  /**
+   * 연결 등록 - 게스트는 한 기기에서만 쓰므로 실시간 업데이트 대상이 아님
+   */
+  async connect(authContext: AuthContext, connectionId: string): Promise<void> {
+    if (authContext.userType !== 'authenticated') {
+      throw new AuthError(
+        'REALTIME_NOT_ALLOWED',
+        '실시간 업데이트는 로그인한 사용자만 사용할 수 있습니다'
+      );
+    }
+
+    await this.connectionRepository.save(
+      authContext.userId,
+      connectionId,
+      TTLBuilder.expiresIn(CONNECTION_RETENTION_SECONDS)
+    );
+
+    this.logger.info('Realtime connection opened', { userId: authContext.userId, connectionId });
+  }
+
+  /**
+   * 연결 해제 (이미 정리된 연결이면 무시)
+   */
+  async disconnect(connectionId: string): Promise<void> {
+    const userId = await this.connectionRepository.findUserId(connectionId);
+    if (!userId) {
+      return;
+    }
+
+    await this.connectionRepository.remove(userId, connectionId);
+
+    this.logger.info('Realtime connection closed', { userId, connectionId });
+  }
+
+  /**
+   * Todo 변경 전송 - 사용자별로 한 메시지에 모아 그 사용자의 모든 연결에 전송
+   */
+  async publish(changes: TodoStreamChange[]): Promise<PublishResult> {
+    const result: PublishResult = { userCount: 0, sentCount: 0, staleCount: 0 };
+
+    for (const [userId, userChanges] of await this.groupByRecipient(changes)) {
+      const connectionIds = await this.connectionRepository.listByUser(userId);
+      if (connectionIds.length === 0) {
+        continue;
+      }
+
+      const message = toChangesMessage(userChanges);
+      result.userCount++;
+
+      // 한 연결의 전송 실패가 다른 기기 전송을 막지 않도록 연결별로 처리
+      await Promise.all(
+        connectionIds.map(async connectionId => {
+          try {
+            if (await this.notifier.send(connectionId, message)) {
+              result.sentCount++;
+              return;
+            }
+
+            await this.connectionRepository.remove(userId, connectionId);
+            result.staleCount++;
+          } catch (error) {
+            this.logger.error('Failed to send realtime message', error as Error, {
+              userId,
+              connectionId,
+            });
+          }
+        })
+      );
+    }
+
+    this.logger.info('Realtime changes published', { changeCount: changes.length, ...result });
+
+    return result;
+  }
+
+  /**
+   * 받는 사용자별로 묶고, 같은 Todo의 변경이 여러 번 있으면 마지막 변경만 남김 (스트림 순서 유지)
+   * 개인 Todo는 소유자, 프로젝트 Todo는 현재 프로젝트 멤버 모두가 받음
+   */
+  private async groupByRecipient(
+    changes: TodoStreamChange[]
+  ): Promise<Map<string, Map<string, TodoStreamChange>>> {
+    const byUser = new Map<string, Map<string, TodoStreamChange>>();
+    const membersByProject = new Map<string, string[]>();
+
+    for (const change of changes) {
+      const item = change.newItem ?? change.oldItem;
+      if (!item) {
+        continue;
+      }
+
+      for (const userId of await this.recipientsOf(item, membersByProject)) {
+        const latestById = byUser.get(userId) ?? new Map<string, TodoStreamChange>();
+        latestById.delete(item.id);
+        latestById.set(item.id, change);
+        byUser.set(userId, latestById);
+      }
+    }
+
+    return byUser;
+  }
+
+  /**
+   * Todo 변경을 받을 사용자 ID 목록 (프로젝트 멤버는 한 번 전송하는 동안 캐시)
+   */
+  private async recipientsOf(
+    item: DynamoTodoItem,
+    membersByProject: Map<string, string[]>
+  ): Promise<string[]> {
+    if (!item.projectId) {
+      return [item.userId];
+    }
+
+    let members = membersByProject.get(item.projectId);
+    if (!members) {
+      members = (await this.projectRepository.listMembers(item.projectId)).map(
+        member => member.userId
+      );
+      membersByProject.set(item.projectId, members);
+    }
+    return members;
+  }
+}
+
+// ==========================================
+// 변환 헬퍼
+// ==========================================
+
+function toChangesMessage(changes: Map<string, TodoStreamChange>): RealtimeTodoChangesMessage {
+  const message: RealtimeTodoChangesMessage = { type: 'todo_changes', todos: [], deleted: [] };
+
+  for (const [id, change] of changes) {
+    if (change.eventName === 'REMOVE' || !change.newItem) {
+      message.deleted.push({ id, deletedAt: change.changedAt });
+    } else {
+      message.todos.push(toTodoResponse(change.newItem));
+    }
+  }
+
+  return message;
+}
@@ -0,0 +1,424 @@
+/**
+ * TodoBatchService - Todo 배치 생성/수정/삭제 비즈니스 로직 서비스
+ * - 생성은 BatchOperationService로 묶어서 쓰고(25개 단위), 재시도 후에도 처리되지 않은 작업은
+ *   재시도 가능한 실패로 보고
+ * - 이미 있는 Todo를 다시 생성하면 ALREADY_EXISTS와 함께 서버 사본을 돌려주고, 이전 요청에서
+ *   처리되지 않았을 수 있는 태그 아이템을 다시 저장 (부분 실패 후 재시도로 완성)
+ * - 삭제는 휴지통 이동 트랜잭션과 활동 기록이 필요하므로 생성 뒤에 TodoService로 하나씩 처리
+ * - 수정은 조건부 쓰기와 반복 일정 처리가 필요하므로 삭제 뒤에 TodoService로 하나씩 처리
+ *   (같은 배치에서 생성한 Todo를 바로 수정할 수 있음)
+ * - 작업마다 따로 검증하며, 실패한 작업이 있어도 나머지 작업은 계속 처리
+ * - projectId를 주면 모든 작업을 그 공유 프로젝트의 Todo에 적용 (멤버 역할로 권한 검사)
+ */
+
+import { ZodError } from 'zod';
+import { rankFromCreatedAt } from '@vive/types';
+import { Priority } from '../types/constants';
+import {
+  ConcurrentModificationError,
+  DynamoTodoItem,
+  ItemNotFoundError,
+  VersionConflictError,
+} from '../types/database.types';
+import {
+  AuthContext,
+  BatchTodoErrorCode,
+  BatchTodoOperation,
+  BatchTodoResult,
+  BatchTodosResponse,
+} from '../types/api.types';
+import { projectPartitionOwner } from '../utils/database-schema';
+import { toTodoResponse } from '../utils/todo-response';
+import { BatchTodoOperationSchema } from '../utils/validation';
+import { AuthError, ITodoService, Logger, TodoRepository, TodoScope } from './todo.service';
+import type { BatchWriteOperation, BatchWriteResult, NewTodoItem } from './batch-operations';
+
+// ==========================================
+// 인터페이스 정의
+// ==========================================
+
+/**
+ * 배치 쓰기 실행기 (BatchOperationService가 구현)
+ */
+export interface TodoBatchWriter {
+  batchWriteTodos(operations: BatchWriteOperation[]): Promise<BatchWriteResult>;
+}
+
+/**
+ * TodoBatchService 인터페이스
+ */
+export interface ITodoBatchService {
+  executeBatch(
+    authContext: AuthContext,
+    operations: unknown[],
+    scope?: TodoScope
+  ): Promise<BatchTodosResponse>;
+}
+
+// 생성/삭제 작업 (같은 Todo를 두 번 쓰지 않도록 함께 검사)
+type WriteOperation = Extract<BatchTodoOperation, { action: 'create' | 'delete' }>;
+
+// 생성 작업 (BatchWrite로 처리)
+type CreateOperation = Extract<BatchTodoOperation, { action: 'create' }>;
+
+// ==========================================
+// TodoBatchService 구현체
+// ==========================================
+
+export class TodoBatchService implements ITodoBatchService {
+  constructor(
+    private todoService: ITodoService,
+    private todoRepository: TodoRepository,
+    private batchWriter: TodoBatchWriter,
+    private logger: Logger
+  ) {}
+
+  /**
+   * 배치 작업 실행 (결과는 요청 순서대로 반환)
+   */
+  async executeBatch(
+    authContext: AuthContext,
+    operations: unknown[],
+    scope: TodoScope = {}
+  ): Promise<BatchTodosResponse> {
+    const results: Array<BatchTodoResult | undefined> = new Array(operations.length);
+    const fail = (
+      index: number,
+      op: { action: BatchTodoResult['action']; id?: string },
+      code: BatchTodoErrorCode,
+      message: string,
+      retryable = false
+    ) => {
+      results[index] = {
+        index,
+        action: op.action,
+        id: op.id,
+        success: false,
+        error: { code, message, retryable },
+      };
+    };
+
+    // 1. 작업마다 검증
+    const parsed: Array<{ index: number; op: BatchTodoOperation }> = [];
+    operations.forEach((raw, index) => {
+      try {
+        // 보안 정화 단계의 에러는 ZodError가 아닌 일반 Error로 던져짐
+        parsed.push({ index, op: BatchTodoOperationSchema.parse(raw) as BatchTodoOperation });
+      } catch (error) {
+        fail(index, describeRaw(raw), 'VALIDATION_ERROR', toValidationMessage(error));
+      }
+    });
+
+    // 2. 같은 Todo를 두 번 쓰는 생성/삭제는 거부 (BatchWrite는 한 요청에 같은 키를 허용하지 않음)
+    const writeIds = new Set<string>();
+    const writes: Array<{ index: number; op: WriteOperation }> = [];
+    const updates: Array<{ index: number; op: Extract<BatchTodoOperation, { action: 'update' }> }> =
+      [];
+    for (const { index, op } of parsed) {
+      if (op.action === 'update') {
+        updates.push({ index, op });
+      } else if (op.id && writeIds.has(op.id)) {
+        fail(index, op, 'DUPLICATE_ID', `같은 배치에서 이미 생성/삭제하는 Todo입니다: ${op.id}`);
+      } else {
+        if (op.id) writeIds.add(op.id);
+        writes.push({ index, op });
+      }
+    }
+
+    // 3. 생성/삭제 권한 검증 (수정은 TodoService에서 검증)
+    const deniedActions = new Map<string, string>();
+    for (const action of new Set(writes.map(({ op }) => op.action))) {
+      try {
+        await this.todoService.validatePermissions(authContext, action.toUpperCase(), {
+          projectId: scope.projectId,
+        });
+      } catch (error) {
+        if (!(error instanceof AuthError)) throw error;
+        deniedActions.set(action, error.message);
+      }
+    }
+
+    // 4. 대상 확인 - ID를 지정한 생성은 아직 없어야 함 (삭제 대상은 TodoService가 확인)
+    const ownerId = scope.projectId ? projectPartitionOwner(scope.projectId) : authContext.userId;
+    const existing = await Promise.all(
+      writes.map(({ op }) =>
+        op.action === 'create' && op.id && !deniedActions.has(op.action)
+          ? this.todoRepository.findById(ownerId, op.id)
+          : Promise.resolve(null)
+      )
+    );
+
+    const pending: Array<{ index: number; op: CreateOperation; todo: NewTodoItem }> = [];
+    const recreated: Array<{ index: number; op: CreateOperation; todo: DynamoTodoItem }> = [];
+    const deletes: Array<{ index: number; op: Extract<WriteOperation, { action: 'delete' }> }> = [];
+    let remainingGuestSlots = await this.getRemainingGuestSlots(authContext, writes);
+
+    writes.forEach(({ index, op }, i) => {
+      const deniedMessage = deniedActions.get(op.action);
+      if (deniedMessage) {
+        fail(index, op, 'FORBIDDEN', deniedMessage);
+        return;
+      }
+
+      if (op.action === 'delete') {
+        deletes.push({ index, op });
+        return;
+      }
+
+      const found = existing[i];
+      if (found) {
+        recreated.push({ index, op, todo: found });
+      } else if (remainingGuestSlots <= 0) {
+        fail(
+          index,
+          op,
+          'LIMIT_EXCEEDED',
+          `Guest users can only create up to ${authContext.permissions.maxItems} todos`
+        );
+      } else {
+        remainingGuestSlots--;
+        pending.push({ index, op, todo: this.buildNewTodo(authContext, op, scope) });
+      }
+    });
+
+    // 5. 생성 일괄 쓰기
+    if (pending.length > 0) {
+      await this.writePending(authContext, pending, results, fail);
+    }
+
+    // 이미 있는 Todo는 태그 아이템을 다시 저장해 부분 실패한 이전 요청을 완성
+    for (const { index, op, todo } of recreated) {
+      try {
+        await this.todoRepository.replaceTags(todo, [], todo.tags ?? []);
+        fail(index, op, 'ALREADY_EXISTS', `이미 존재하는 Todo입니다: ${op.id}`);
+        results[index] = { ...results[index]!, todo: toTodoResponse(todo) };
+      } catch (error) {
+        const failure = toServiceFailure(error);
+        fail(index, op, failure.code, failure.message, failure.retryable);
+      }
+    }
+
+    // 6. 삭제는 하나씩 휴지통으로 이동 (단건 삭제와 같이 복원할 수 있고 활동 기록이 남음)
+    for (const { index, op } of deletes) {
+      try {
+        await this.todoService.deleteTodo(authContext, op.id, scope);
+        results[index] = { index, action: op.action, id: op.id, success: true };
+      } catch (error) {
+        const failure = toServiceFailure(error);
+        fail(index, op, failure.code, failure.message, failure.retryable);
+      }
+    }
+
+    // 7. 수정은 순서대로 하나씩 처리 (앞선 생성 결과를 수정할 수 있도록 쓰기 이후에 실행)
+    for (const { index, op } of updates) {
+      try {
+        const { expectedVersion, ...changes } = op.data;
+        const updated = await this.todoService.updateTodo(authContext, op.id, changes, {
+          expectedVersion,
+          projectId: scope.projectId,
+        });
+        results[index] = {
+          index,
+          action: op.action,
+          id: op.id,
+          success: true,
+          todo: toTodoResponse(updated),
+        };
+      } catch (error) {
+        const failure = toServiceFailure(error);
+        fail(index, op, failure.code, failure.message, failure.retryable);
+        if (error instanceof VersionConflictError) {
+          // 버전 충돌은 다시 보내도 같은 결과이므로 서버 사본을 함께 돌려줌
+          results[index] = { ...results[index]!, todo: toTodoResponse(error.current) };
+        }
+      }
+    }
+
+    const finalResults = results.filter((result): result is BatchTodoResult => !!result);
+    const successCount = finalResults.filter(result => result.success).length;
+
+    this.logger.info('Todo batch executed', {
+      userId: authContext.userId,
+      projectId: scope.projectId,
+      operationCount: operations.length,
+      successCount,
+      failedCount: finalResults.length - successCount,
+    });
+
+    return {
+      results: finalResults,
+      successCount,
+      failedCount: finalResults.length - successCount,
+    };
+  }
+
+  /**
+   * 생성을 BatchWrite로 처리하고 작업별 결과 기록
+   */
+  private async writePending(
+    authContext: AuthContext,
+    pending: Array<{ index: number; op: CreateOperation; todo: NewTodoItem }>,
+    results: Array<BatchTodoResult | undefined>,
+    fail: (
+      index: number,
+      op: CreateOperation,
+      code: BatchTodoErrorCode,
+      message: string,
+      retryable?: boolean
+    ) => void
+  ): Promise<void> {
+    let unprocessed: Set<number>;
+    let unwritten: Set<number>;
+    try {
+      const writeResult = await this.batchWriter.batchWriteTodos(
+        pending.map(({ todo }) => ({ action: 'PUT', todo }))
+      );
+      unprocessed = new Set(writeResult.unprocessedIndexes);
+      unwritten = new Set(writeResult.unwrittenTodoIndexes);
+    } catch (error) {
+      this.logger.error('Todo batch write failed', error as Error, {
+        userId: authContext.userId,
+        operationCount: pending.length,
+      });
+      pending.forEach(({ index, op }) =>
+        fail(index, op, 'INTERNAL_ERROR', '배치 쓰기에 실패했습니다', true)
+      );
+      return;
+    }
+
+    for (const [i, { index, op, todo }] of pending.entries()) {
+      // Todo 아이템이 저장되었으면 태그 아이템이 남았어도 생성 활동 기록 (재시도는 ALREADY_EXISTS)
+      if (!unwritten.has(i)) {
+        await this.todoService.recordCreated(authContext, todo);
+      }
+
+      if (unprocessed.has(i)) {
+        fail(index, op, 'UNPROCESSED', '처리량 제한으로 처리되지 않았습니다', true);
+        continue;
+      }
+
+      results[index] = {
+        index,
+        action: op.action,
+        id: todo.id,
+        success: true,
+        todo: toTodoResponse(todo),
+      };
+    }
+  }
+
+  /**
+   * 게스트가 더 생성할 수 있는 Todo 수 (일반 사용자는 제한 없음)
+   */
+  private async getRemainingGuestSlots(
+    authContext: AuthContext,
+    writes: Array<{ op: WriteOperation }>
+  ): Promise<number> {
+    if (authContext.userType !== 'guest' || !writes.some(({ op }) => op.action === 'create')) {
+      return Infinity;
+    }
+
+    const existingTodos = await this.todoRepository.findAll(authContext.userId);
+    return authContext.permissions.maxItems - existingTodos.count;
+  }
+
+  /**
+   * 새 Todo 데이터 생성 (TodoService.createTodo와 같은 기본값)
+   */
+  private buildNewTodo(
+    authContext: AuthContext,
+    op: CreateOperation,
+    scope: TodoScope
+  ): NewTodoItem {
+    const now = new Date().toISOString();
+
+    return {
+      id: op.id ?? this.generateTodoId(),
+      userId: authContext.userId,
+      projectId: scope.projectId,
+      title: op.data.title,
+      description: op.data.description,
+      completed: false,
+      priority: op.data.priority || Priority.MEDIUM,
+      dueDate: op.data.dueDate,
+      tags: op.data.tags,
+      recurrence: op.data.recurrence,
+      timeZone: op.data.timeZone,
+      rank: op.data.rank ?? rankFromCreatedAt(now),
+      isGuest: authContext.userType === 'guest',
+      sessionId: authContext.sessionId,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+      ...(authContext.userType === 'guest' &&
+        authContext.permissions.persistData && {
+          ttl: this.generateTTL(7 * 24 * 60 * 60), // 7일
+        }),
+    };
+  }
+
+  /**
+   * 고유한 Todo ID 생성
+   */
+  private generateTodoId(): string {
+    return `todo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * TTL 타임스탬프 생성 (현재 시간 + 지정된 초)
+   */
+  private generateTTL(offsetSeconds: number): number {
+    return Math.floor(Date.now() / 1000) + offsetSeconds;
+  }
+}
+
+// ==========================================
+// 변환 헬퍼
+// ==========================================
+
+// 검증에 실패한 작업도 가능한 만큼 action과 id를 결과에 담음
+function describeRaw(raw: unknown): { action: BatchTodoResult['action']; id?: string } {
+  const value = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const action =
+    value.action === 'create' || value.action === 'update' || value.action === 'delete'
+      ? value.action
+      : 'unknown';
+  return { action, id: typeof value.id === 'string' ? value.id : undefined };
+}
+
+// TodoService 에러를 작업 결과 에러로 변환 (알 수 없는 에러는 다시 보내 볼 수 있음)
+function toServiceFailure(error: unknown): {
+  code: BatchTodoErrorCode;
+  message: string;
+  retryable: boolean;
+} {
+  if (error instanceof VersionConflictError) {
+    return { code: 'VERSION_CONFLICT', message: error.message, retryable: false };
+  }
+  if (error instanceof ItemNotFoundError) {
+    return { code: 'NOT_FOUND', message: error.message, retryable: false };
+  }
+  if (error instanceof AuthError) {
+    return { code: 'FORBIDDEN', message: error.message, retryable: false };
+  }
+  if (error instanceof ConcurrentModificationError) {
+    // 조회와 쓰기 사이에 다른 요청이 수정한 경우 - 다시 보내면 최신 상태로 처리됨
+    return { code: 'INTERNAL_ERROR', message: error.message, retryable: true };
+  }
+  return {
+    code: 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : 'Unknown error',
+    retryable: true,
+  };
+}
+
+function toValidationMessage(error: unknown): string {
+  if (error instanceof ZodError) {
+    return error.errors
+      .map(issue =>
+        issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      )
+      .join(', ');
+  }
+  return error instanceof Error ? error.message : 'Invalid operation';
+}
@@ -0,0 +1,227 @@
+/**
+ * TodoSyncService - 변경 토큰 기반 증분 동기화 비즈니스 로직 서비스
+ * - since 없이 요청하면 전체 Todo 목록을 페이지 단위로 반환하고, 이어서 쓸 변경 토큰을 발급
+ * - 토큰 이후 생성/수정된 Todo와 삭제 묘비를 GSI4 변경 인덱스에서 변경 순서대로 반환
+ * - 토큰은 다음 조회 시작 위치를 담은 불투명 문자열이며, 묘비 보관 기간보다 오래되면 만료
+ * - projectId를 주면 공유 프로젝트 파티션의 변경을 조회 (멤버만 가능)
+ */
+
+import {
+  DynamoTodoItem,
+  DynamoTodoTombstoneItem,
+  DynamoQueryResult,
+} from '../types/database.types';
+import {
+  AuthContext,
+  DeletedTodo,
+  TodoChangesRequest,
+  TodoChangesResponse,
+  TodoResponse,
+} from '../types/api.types';
+import { TOMBSTONE_RETENTION_SECONDS, projectPartitionOwner } from '../utils/database-schema';
+import { toTodoResponse } from '../utils/todo-response';
+import type { ITodoService, Logger, TodoRepository } from './todo.service';
+
+// 한 번에 반환하는 최대 변경 수
+export const CHANGES_PAGE_SIZE = 100;
+
+// 조회 직전에 기록된 쓰기가 인덱스에 늦게 반영돼도 놓치지 않도록 새 토큰 위치를 이만큼 앞당김
+// (겹치는 변경은 다시 내려가지만 클라이언트가 같은 내용으로 덮어쓰므로 문제없음)
+const CHANGE_TOKEN_SAFETY_WINDOW_MS = 5 * 1000;
+
+// ==========================================
+// 인터페이스 정의
+// ==========================================
+
+/**
+ * 커스텀 에러 클래스 - 변경 토큰 에러 (클라이언트는 토큰을 버리고 전체 동기화부터 다시 시작)
+ */
+export class TodoSyncError extends Error {
+  constructor(
+    public code: 'INVALID_CHANGE_TOKEN' | 'CHANGE_TOKEN_EXPIRED',
+    message: string
+  ) {
+    super(message);
+    this.name = 'TodoSyncError';
+  }
+}
+
+/**
+ * 변경 토큰 내용
+ */
+interface ChangeToken {
+  after: string; // 이 위치(<변경일시> 또는 <변경일시>#<todoId>) 이후의 변경을 조회
+  cursor?: string; // 전체 목록 조회 중이면 다음 페이지 커서
+}
+
+/**
+ * TodoSyncService 인터페이스
+ */
+export interface ITodoSyncService {
+  getChanges(authContext: AuthContext, request: TodoChangesRequest): Promise<TodoChangesResponse>;
+}
+
+// ==========================================
+// TodoSyncService 구현체
+// ==========================================
+
+export class TodoSyncService implements ITodoSyncService {
+  constructor(
+    private todoService: ITodoService,
+    private todoRepository: TodoRepository,
+    private logger: Logger
+  ) {}
+
+  /**
+   * 변경 조회 (since가 없거나 전체 목록 조회 중이면 전체 목록의 다음 페이지)
+   */
+  async getChanges(
+    authContext: AuthContext,
+    request: TodoChangesRequest
+  ): Promise<TodoChangesResponse> {
+    const token = request.since ? decodeChangeToken(request.since) : undefined;
+    const limit = request.limit ?? CHANGES_PAGE_SIZE;
+
+    const response =
+      !token || token.cursor !== undefined
+        ? await this.listAll(authContext, request.projectId, limit, token)
+        : await this.listChangesAfter(authContext, request.projectId, limit, token.after);
+
+    this.logger.info('Todo changes listed', {
+      userId: authContext.userId,
+      projectId: request.projectId,
+      fullSync: response.fullSync,
+      todoCount: response.todos.length,
+      deletedCount: response.deleted.length,
+      hasMore: response.hasMore,
+    });
+
+    return response;
+  }
+
+  /**
+   * 전체 목록 조회 - 첫 페이지 시점의 토큰 위치를 유지해, 조회하는 동안 생긴 변경은 다음 증분 조회에서 받음
+   */
+  private async listAll(
+    authContext: AuthContext,
+    projectId: string | undefined,
+    limit: number,
+    token?: ChangeToken
+  ): Promise<TodoChangesResponse> {
+    const after = token?.after ?? safeTokenPosition();
+    const page = await this.todoService.listTodos(authContext, {
+      limit,
+      cursor: token?.cursor || undefined,
+      projectId,
+    });
+
+    return {
+      todos: page.items.map(toTodoResponse),
+      deleted: [],
+      token: encodeChangeToken({ after, cursor: page.cursor }),
+      hasMore: !!page.cursor,
+      fullSync: true,
+    };
+  }
+
+  /**
+   * 증분 조회 - 토큰 위치 이후의 Todo와 삭제 묘비
+   */
+  private async listChangesAfter(
+    authContext: AuthContext,
+    projectId: string | undefined,
+    limit: number,
+    after: string
+  ): Promise<TodoChangesResponse> {
+    await this.todoService.validatePermissions(authContext, 'READ', { projectId });
+
+    const ownerId = projectId ? projectPartitionOwner(projectId) : authContext.userId;
+    const page: DynamoQueryResult<DynamoTodoItem | DynamoTodoTombstoneItem> =
+      await this.todoRepository.findChanges(ownerId, after, { limit });
+
+    // 같은 페이지에 같은 Todo의 변경이 여러 번 있으면 마지막 변경만 남김 (삭제 후 같은 ID로 다시 생성한 경우 등)
+    const latestById = new Map<string, DynamoTodoItem | DynamoTodoTombstoneItem>();
+    for (const item of page.items) {
+      if (
+        authContext.userType === 'guest' &&
+        isTodo(item) &&
+        item.sessionId !== authContext.sessionId
+      ) {
+        continue;
+      }
+      const id = isTodo(item) ? item.id : item.todoId;
+      latestById.delete(id);
+      latestById.set(id, item);
+    }
+
+    const todos: TodoResponse[] = [];
+    const deleted: DeletedTodo[] = [];
+    for (const item of latestById.values()) {
+      if (isTodo(item)) {
+        todos.push(toTodoResponse(item));
+      } else {
+        deleted.push({ id: item.todoId, deletedAt: item.deletedAt });
+      }
+    }
+
+    // 다음 페이지가 있으면 마지막 변경 바로 뒤부터, 없으면 현재 시각(안전 구간만큼 앞당김)부터
+    const lastItem = page.items[page.items.length - 1];
+    const hasMore = !!page.cursor && !!lastItem?.GSI4SK;
+
+    return {
+      todos,
+      deleted,
+      token: encodeChangeToken({
+        after: hasMore ? changePosition(lastItem.GSI4SK!) : safeTokenPosition(),
+      }),
+      hasMore,
+      fullSync: false,
+    };
+  }
+}
+
+// ==========================================
+// 토큰/변환 헬퍼
+// ==========================================
+
+function encodeChangeToken(token: ChangeToken): string {
+  return Buffer.from(JSON.stringify(token), 'utf-8').toString('base64url');
+}
+
+function decodeChangeToken(value: string): ChangeToken {
+  let token: Partial<ChangeToken>;
+  try {
+    token = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+  } catch {
+    throw new TodoSyncError('INVALID_CHANGE_TOKEN', '변경 토큰 형식이 올바르지 않습니다');
+  }
+
+  const changedAt = typeof token?.after === 'string' ? Date.parse(token.after.split('#')[0]) : NaN;
+  if (Number.isNaN(changedAt) || (token.cursor !== undefined && typeof token.cursor !== 'string')) {
+    throw new TodoSyncError('INVALID_CHANGE_TOKEN', '변경 토큰 형식이 올바르지 않습니다');
+  }
+
+  // 묘비가 이미 만료됐을 수 있으므로 삭제를 놓치지 않도록 전체 동기화 필요
+  if (changedAt < Date.now() - TOMBSTONE_RETENTION_SECONDS * 1000) {
+    throw new TodoSyncError(
+      'CHANGE_TOKEN_EXPIRED',
+      '변경 토큰이 만료되었습니다. 전체 동기화가 필요합니다'
+    );
+  }
+
+  return { after: token.after as string, cursor: token.cursor };
+}
+
+// 새 토큰의 시작 위치 (현재 시각에서 안전 구간만큼 앞당김)
+function safeTokenPosition(): string {
+  return new Date(Date.now() - CHANGE_TOKEN_SAFETY_WINDOW_MS).toISOString();
+}
+
+// GSI4SK(CHANGE#<변경일시>#<todoId>)에서 접두사를 뺀 위치
+function changePosition(gsi4sk: string): string {
+  return gsi4sk.slice(gsi4sk.indexOf('#') + 1);
+}
+
+function isTodo(item: DynamoTodoItem | DynamoTodoTombstoneItem): item is DynamoTodoItem {
+  return item.EntityType === 'TODO';
+}
@@ -0,0 +1,343 @@
+/**
+ * TodoTransferService - Todo 데이터 내보내기/가져오기 비즈니스 로직 서비스
+ * - 사용자의 전체 Todo를 JSON 또는 CSV로 내보내기
+ * - 가져오기는 행마다 따로 검증하고, 실패한 행은 건너뛰며 행별 에러로 보고
+ * - 같은 ID의 Todo가 이미 있으면 건너뛰거나(merge) 덮어써서(replace) 다시 가져와도 중복이 생기지 않음
+ */
+
+import { ZodError } from 'zod';
+import { DynamoTodoItem, ItemNotFoundError } from '../types/database.types';
+import {
+  AuthContext,
+  ExportTodosResponse,
+  ImportRowError,
+  ImportTodosRequest,
+  ImportTodosResponse,
+  TodoTransferFormat,
+} from '../types/api.types';
+import { ImportTodoRowSchema } from '../utils/validation';
+import { CsvParseError, parseCsv, toCsv } from '../utils/csv';
+import type { ITodoService, Logger, TodoScope } from './todo.service';
+
+// 한 번에 가져올 수 있는 최대 행 수 (JSON은 요청 검증에서 같은 한도로 제한)
+export const MAX_IMPORT_ROWS = 500;
+
+// 내보내기 시 한 번에 조회할 Todo 수
+const EXPORT_PAGE_SIZE = 100;
+
+// CSV 컬럼 순서 (가져오기는 헤더 이름으로 매칭하므로 순서가 달라도 됨)
+export const CSV_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'completed',
+  'priority',
+  'dueDate',
+  'tags',
+  'recurrence',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+// CSV 한 칸에 여러 태그를 담을 때의 구분자
+const CSV_TAG_SEPARATOR = '|';
+
+// ==========================================
+// 인터페이스 정의
+// ==========================================
+
+/**
+ * 내보내기 파일의 Todo 한 건
+ */
+export interface ExportedTodo {
+  id: string;
+  title: string;
+  description?: string;
+  completed: boolean;
+  priority: string;
+  dueDate?: string;
+  tags?: string[];
+  recurrence?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 커스텀 에러 클래스 - 가져오기 요청 에러 (행 단위가 아닌 요청 전체 에러)
+ */
+export class TodoTransferError extends Error {
+  constructor(
+    public code: 'INVALID_CSV' | 'TOO_MANY_ROWS',
+    message: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'TodoTransferError';
+  }
+}
+
+/**
+ * TodoTransferService 인터페이스
+ */
+export interface ITodoTransferService {
+  exportTodos(
+    authContext: AuthContext,
+    format: TodoTransferFormat,
+    scope?: TodoScope
+  ): Promise<ExportTodosResponse>;
+  importTodos(
+    authContext: AuthContext,
+    request: ImportTodosRequest,
+    scope?: TodoScope
+  ): Promise<ImportTodosResponse>;
+}
+
+// ==========================================
+// TodoTransferService 구현체
+// ==========================================
+
+export class TodoTransferService implements ITodoTransferService {
+  constructor(
+    private todoService: ITodoService,
+    private logger: Logger
+  ) {}
+
+  /**
+   * 전체 Todo 내보내기 (파일 내용은 data: URL로 반환, projectId를 주면 공유 프로젝트의 Todo)
+   */
+  async exportTodos(
+    authContext: AuthContext,
+    format: TodoTransferFormat,
+    scope: TodoScope = {}
+  ): Promise<ExportTodosResponse> {
+    const todos: ExportedTodo[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.todoService.listTodos(authContext, {
+        limit: EXPORT_PAGE_SIZE,
+        cursor,
+        projectId: scope.projectId,
+      });
+      todos.push(...page.items.map(toExportedTodo));
+      cursor = page.cursor;
+    } while (cursor);
+
+    const content = format === 'csv' ? toTodoCsv(todos) : JSON.stringify(todos, null, 2);
+    const mimeType = format === 'csv' ? 'text/csv' : 'application/json';
+
+    this.logger.info('Todos exported', {
+      userId: authContext.userId,
+      projectId: scope.projectId,
+      format,
+      totalItems: todos.length,
+    });
+
+    return {
+      exportUrl: `data:${mimeType};charset=utf-8;base64,${Buffer.from(content).toString('base64')}`,
+      format,
+      totalItems: todos.length,
+      exportedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Todo 가져오기 (행마다 검증 후 생성/덮어쓰기, 행별 결과 집계, projectId를 주면 공유 프로젝트에)
+   */
+  async importTodos(
+    authContext: AuthContext,
+    request: ImportTodosRequest,
+    scope: TodoScope = {}
+  ): Promise<ImportTodosResponse> {
+    const rows = request.format === 'csv' ? csvToRows(request.csv ?? '') : (request.todos ?? []);
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new TodoTransferError(
+        'TOO_MANY_ROWS',
+        `한 번에 최대 ${MAX_IMPORT_ROWS}개까지 가져올 수 있습니다`,
+        { rowCount: rows.length, maxRows: MAX_IMPORT_ROWS }
+      );
+    }
+
+    const result: ImportTodosResponse = {
+      importedCount: 0,
+      updatedCount: 0,
+      skippedCount: 0,
+      errors: [],
+    };
+
+    // 게스트 개수 제한 등 이전 행의 결과가 다음 행에 영향을 주므로 순서대로 처리
+    for (const [index, raw] of rows.entries()) {
+      const rowNumber = index + 1;
+      let parsed;
+      try {
+        // 보안 정화 단계의 에러는 ZodError가 아닌 일반 Error로 던져짐
+        parsed = ImportTodoRowSchema.parse(raw);
+      } catch (error) {
+        result.errors.push(toRowError(rowNumber, raw, error));
+        continue;
+      }
+
+      const { id, completed, ...createRequest } = parsed;
+
+      try {
+        const existing = id ? await this.findExisting(authContext, id, scope) : null;
+
+        if (!existing) {
+          await this.todoService.createTodo(authContext, createRequest, {
+            todoId: id,
+            completed,
+            projectId: scope.projectId,
+          });
+          result.importedCount++;
+        } else if (request.mergeStrategy === 'replace') {
+          await this.todoService.updateTodo(
+            authContext,
+            existing.id,
+            {
+              ...createRequest,
+              description: createRequest.description ?? '',
+              dueDate: createRequest.dueDate ?? null,
+              tags: createRequest.tags ?? [],
+              recurrence: createRequest.recurrence ?? null,
+              completed,
+            },
+            { projectId: scope.projectId }
+          );
+          result.updatedCount++;
+        } else {
+          result.skippedCount++;
+        }
+      } catch (error) {
+        result.errors.push({
+          row: rowNumber,
+          id,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    this.logger.info('Todos imported', {
+      userId: authContext.userId,
+      projectId: scope.projectId,
+      format: request.format ?? 'json',
+      mergeStrategy: request.mergeStrategy ?? 'merge',
+      rowCount: rows.length,
+      importedCount: result.importedCount,
+      updatedCount: result.updatedCount,
+      skippedCount: result.skippedCount,
+      errorCount: result.errors.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * 같은 ID의 기존 Todo 조회 (없으면 null)
+   */
+  private async findExisting(
+    authContext: AuthContext,
+    todoId: string,
+    scope: TodoScope
+  ): Promise<DynamoTodoItem | null> {
+    try {
+      return await this.todoService.getTodoById(authContext, todoId, scope);
+    } catch (error) {
+      if (error instanceof ItemNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+// ==========================================
+// 변환 헬퍼
+// ==========================================
+
+function toExportedTodo(todo: DynamoTodoItem): ExportedTodo {
+  return {
+    id: todo.id,
+    title: todo.title,
+    description: todo.description,
+    completed: todo.completed,
+    priority: todo.priority,
+    dueDate: todo.dueDate ?? undefined,
+    tags: todo.tags,
+    recurrence: todo.recurrence ?? undefined,
+    createdAt: todo.createdAt,
+    updatedAt: todo.updatedAt,
+  };
+}
+
+function toTodoCsv(todos: ExportedTodo[]): string {
+  const rows = todos.map(todo =>
+    CSV_COLUMNS.map(column => {
+      const value = todo[column];
+      if (Array.isArray(value)) return value.join(CSV_TAG_SEPARATOR);
+      return value === undefined ? '' : String(value);
+    })
+  );
+
+  // 엑셀에서 한글이 깨지지 않도록 BOM 추가
+  return `\uFEFF${toCsv([[...CSV_COLUMNS], ...rows])}`;
+}
+
+// CSV를 헤더 이름 기준의 행 객체로 변환 (빈 칸은 값 없음으로 처리)
+function csvToRows(csv: string): Record<string, unknown>[] {
+  let records: string[][];
+  try {
+    records = parseCsv(csv);
+  } catch (error) {
+    if (error instanceof CsvParseError) {
+      throw new TodoTransferError('INVALID_CSV', error.message, { line: error.line });
+    }
+    throw error;
+  }
+
+  const [header = [], ...body] = records;
+  const columns = header.map(name => name.trim());
+  if (!columns.includes('title')) {
+    throw new TodoTransferError('INVALID_CSV', 'CSV 헤더에 title 컬럼이 필요합니다', {
+      header: columns,
+    });
+  }
+
+  return body.map(record => {
+    const row: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      const value = record[index]?.trim() ?? '';
+      if (value === '') return;
+
+      if (column === 'tags') {
+        row.tags = value
+          .split(CSV_TAG_SEPARATOR)
+          .map(tag => tag.trim())
+          .filter(Boolean);
+      } else if (column === 'completed') {
+        // true/false 이외의 값은 그대로 두어 행 검증에서 에러로 보고
+        row.completed = value === 'true' ? true : value === 'false' ? false : value;
+      } else {
+        row[column] = value;
+      }
+    });
+    return row;
+  });
+}
+
+function toRowError(row: number, raw: unknown, error: unknown): ImportRowError {
+  const id =
+    raw && typeof raw === 'object' && typeof (raw as { id?: unknown }).id === 'string'
+      ? (raw as { id: string }).id
+      : undefined;
+
+  let message = error instanceof Error ? error.message : 'Invalid row';
+  if (error instanceof ZodError) {
+    message = error.errors
+      .map(issue =>
+        issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      )
+      .join(', ');
+  }
+
+  return { row, id, message };
+}
@@ -6,6 +6,14 @@
  * - 전체 요청 플로우 시각화
  */
 
+import { randomUUID } from 'crypto';
+import {
+  compareByRank,
+  effectiveRank,
+  rankFromCreatedAt,
+  spreadRanks,
+  RANK_REBALANCE_LENGTH,
+} from '@vive/types';
 import {
   traceAsyncWithMetrics,
   SubsystemType,
@@ -14,14 +22,54 @@ import {
 } from '../utils/xray-tracer';
 
 import { Priority } from '../types/constants';
+import { getNextOccurrence, NextOccurrence } from '../utils/recurrence';
+import { DueDateRange, getDueDateRange, isDueDateInRange } from '../utils/due-date';
+import { projectPartitionOwner, todoPartitionOwner } from '../utils/database-schema';
+import { TODO_ACTION_ROLES, hasProjectRole } from '../utils/project-roles';
+import { correlationId } from '../utils/correlation';
+import { BusinessError, ErrorCode, ValidationError } from '../utils/error-handler';
 
-import { DynamoTodoItem, DynamoQueryResult, ItemNotFoundError } from '../types/database.types';
+import {
+  DynamoTodoItem,
+  DynamoTodoTombstoneItem,
+  DynamoTodoTrashItem,
+  DynamoQueryResult,
+  ItemNotFoundError,
+  VersionConflictError,
+  TagUsage,
+  TitleSearchMatch,
+  TodoAssignmentRecord,
+  DynamoTodoActivityItem,
+  TodoActivityAction,
+  TodoFieldChange,
+} from '../types/database.types';
 import {
   CreateTodoRequest,
   UpdateTodoRequest,
   AuthContext,
   ListTodosRequest,
 } from '../types/api.types';
+import type { ProjectRepository } from './project.service';
+import type { NewTodoItem } from './batch-operations';
+
+// Todo마다 보관하는 담당자 변경 기록 수 (넘치면 오래된 기록부터 삭제)
+export const ASSIGNMENT_HISTORY_LIMIT = 20;
+
+// 수동 정렬 목록에서 다루는 최대 Todo 수
+// rank는 인덱스 키가 아니어서 요청마다 조건에 맞는 Todo를 모두 읽어 정렬하므로, 넘으면 다른 정렬을 쓰도록 거부
+export const MANUAL_SORT_ITEM_LIMIT = 1000;
+
+// 활동 기록에 남기는 Todo 필드 (버전, 인덱스 키 등 내부 필드는 제외)
+const ACTIVITY_FIELDS = [
+  'title',
+  'description',
+  'completed',
+  'priority',
+  'dueDate',
+  'tags',
+  'recurrence',
+  'assigneeId',
+] as const;
 
 // ==========================================
 // 인터페이스 정의
@@ -29,6 +77,7 @@ import {
 
 /**
  * Repository 인터페이스 - 데이터 액세스 계층
+ * userId 인자는 Todo 파티션 소유자 ID (프로젝트 Todo는 projectPartitionOwner(projectId))
  */
 export interface TodoRepository {
   create(
@@ -60,8 +109,70 @@ export interface TodoRepository {
     priority: Priority,
     options?: { limit?: number; cursor?: string }
   ): Promise<DynamoQueryResult<DynamoTodoItem>>;
-  update(userId: string, todoId: string, updates: Partial<DynamoTodoItem>): Promise<DynamoTodoItem>;
-  delete(userId: string, todoId: string): Promise<void>;
+  update(
+    userId: string,
+    todoId: string,
+    updates: Partial<DynamoTodoItem>,
+    options?: { expectedVersion?: number }
+  ): Promise<DynamoTodoItem>;
+  updateRank(userId: string, todoId: string, rank: string): Promise<DynamoTodoItem>;
+  delete(userId: string, todoId: string, options?: { deletedBy?: string }): Promise<void>;
+  findTrash(
+    userId: string,
+    options?: { limit?: number; cursor?: string }
+  ): Promise<DynamoQueryResult<DynamoTodoTrashItem>>;
+  findTrashedById(userId: string, todoId: string): Promise<DynamoTodoTrashItem | null>;
+  restore(userId: string, todoId: string): Promise<DynamoTodoItem>;
+  purge(userId: string, todoId: string): Promise<void>;
+  findChanges(
+    userId: string,
+    after: string,
+    options?: { limit?: number }
+  ): Promise<DynamoQueryResult<DynamoTodoItem | DynamoTodoTombstoneItem>>;
+  deleteChildItems(userId: string, todoId: string): Promise<number>;
+  replaceTags(
+    todo: Pick<DynamoTodoItem, 'id' | 'userId' | 'projectId' | 'sessionId' | 'ttl'>,
+    previousTags: string[],
+    nextTags: string[]
+  ): Promise<void>;
+  findByTag(
+    userId: string,
+    tag: string,
+    options?: { limit?: number; cursor?: string }
+  ): Promise<DynamoQueryResult<DynamoTodoItem>>;
+  listTagUsage(userId: string, options?: { sessionId?: string }): Promise<TagUsage[]>;
+  searchByTitle(
+    userId: string,
+    query: string,
+    options?: { limit?: number; cursor?: string; match?: TitleSearchMatch }
+  ): Promise<DynamoQueryResult<DynamoTodoItem>>;
+  findByDueDate(
+    userId: string,
+    range: DueDateRange,
+    options?: { limit?: number; cursor?: string }
+  ): Promise<DynamoQueryResult<DynamoTodoItem>>;
+  findByAssignee(
+    assigneeId: string,
+    options?: { limit?: number; cursor?: string }
+  ): Promise<DynamoQueryResult<DynamoTodoItem>>;
+}
+
+/**
+ * 새로 저장할 Todo 활동 기록
+ */
+export type NewTodoActivity = Omit<DynamoTodoActivityItem, 'PK' | 'SK' | 'EntityType'>;
+
+/**
+ * Repository 인터페이스 - Todo 활동 기록 (추가와 조회만 가능)
+ * userId 인자는 Todo 파티션 소유자 ID
+ */
+export interface TodoActivityRepository {
+  append(userId: string, activity: NewTodoActivity): Promise<DynamoTodoActivityItem>;
+  findByTodo(
+    userId: string,
+    todoId: string,
+    options?: { limit?: number; cursor?: string }
+  ): Promise<DynamoQueryResult<DynamoTodoActivityItem>>;
 }
 
 /**
@@ -86,12 +197,77 @@ export class AuthError extends Error {
   }
 }
 
+/**
+ * 커스텀 에러 클래스 - 담당자 지정 에러 (프로젝트 Todo가 아니거나 담당자가 멤버가 아님)
+ */
+export class AssignmentError extends Error {
+  constructor(
+    public code: 'ASSIGNEE_REQUIRES_PROJECT' | 'ASSIGNEE_NOT_MEMBER',
+    message: string
+  ) {
+    super(message);
+    this.name = 'AssignmentError';
+  }
+}
+
+/**
+ * Todo 범위 - projectId가 있으면 공유 프로젝트의 Todo, 없으면 요청한 사용자의 Todo
+ */
+export interface TodoScope {
+  projectId?: string;
+}
+
+/**
+ * Todo 생성 옵션 - 가져오기처럼 원본 ID와 완료 상태를 유지해야 할 때 사용
+ */
+export interface CreateTodoOptions extends TodoScope {
+  todoId?: string;
+  completed?: boolean;
+}
+
+/**
+ * Todo 수정 옵션 - expectedVersion을 주면 저장된 버전과 같을 때만 수정 (다르면 VersionConflictError)
+ */
+export interface UpdateTodoOptions extends TodoScope {
+  expectedVersion?: number;
+}
+
+/**
+ * 활동 기록 조회 옵션
+ */
+export interface ListActivityOptions extends TodoScope {
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * 휴지통 조회 옵션
+ */
+export interface ListTrashOptions extends TodoScope {
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * 권한 검증 대상
+ * - resourceOwnerId: 개인 리소스 소유자 (요청한 사용자와 다르면 거부)
+ * - projectId: 공유 프로젝트 (멤버 역할이 작업에 필요한 역할 이상이어야 함)
+ */
+export interface PermissionScope {
+  resourceOwnerId?: string;
+  projectId?: string;
+}
+
 /**
  * TodoService 인터페이스
  */
 export interface ITodoService {
-  createTodo(authContext: AuthContext, request: CreateTodoRequest): Promise<DynamoTodoItem>;
-  getTodoById(authContext: AuthContext, todoId: string): Promise<DynamoTodoItem>;
+  createTodo(
+    authContext: AuthContext,
+    request: CreateTodoRequest,
+    options?: CreateTodoOptions
+  ): Promise<DynamoTodoItem>;
+  getTodoById(authContext: AuthContext, todoId: string, scope?: TodoScope): Promise<DynamoTodoItem>;
   listTodos(
     authContext: AuthContext,
     request?: ListTodosRequest
@@ -99,13 +275,27 @@ export interface ITodoService {
   updateTodo(
     authContext: AuthContext,
     todoId: string,
-    request: UpdateTodoRequest
+    request: UpdateTodoRequest,
+    options?: UpdateTodoOptions
   ): Promise<DynamoTodoItem>;
-  deleteTodo(authContext: AuthContext, todoId: string): Promise<void>;
+  deleteTodo(authContext: AuthContext, todoId: string, scope?: TodoScope): Promise<void>;
+  recordCreated(authContext: AuthContext, todo: NewTodoItem): Promise<void>;
+  listTrash(
+    authContext: AuthContext,
+    options?: ListTrashOptions
+  ): Promise<DynamoQueryResult<DynamoTodoTrashItem>>;
+  restoreTodo(authContext: AuthContext, todoId: string, scope?: TodoScope): Promise<DynamoTodoItem>;
+  purgeTodo(authContext: AuthContext, todoId: string, scope?: TodoScope): Promise<void>;
+  listTags(authContext: AuthContext, scope?: TodoScope): Promise<TagUsage[]>;
+  listActivity(
+    authContext: AuthContext,
+    todoId: string,
+    options?: ListActivityOptions
+  ): Promise<DynamoQueryResult<DynamoTodoActivityItem>>;
   validatePermissions(
     authContext: AuthContext,
     action: string,
-    resourceOwnerId?: string
+    scope?: PermissionScope
   ): Promise<void>;
   cleanupExpiredGuestTodos(): Promise<number>;
 }
@@ -117,13 +307,19 @@ export interface ITodoService {
 export class TodoService implements ITodoService {
   constructor(
     private todoRepository: TodoRepository,
-    private logger: Logger
+    private logger: Logger,
+    private projectRepository?: ProjectRepository,
+    private activityRepository?: TodoActivityRepository
   ) {}
 
   /**
    * Todo 생성 (성능 모니터링 적용)
    */
-  async createTodo(authContext: AuthContext, request: CreateTodoRequest): Promise<DynamoTodoItem> {
+  async createTodo(
+    authContext: AuthContext,
+    request: CreateTodoRequest,
+    options: CreateTodoOptions = {}
+  ): Promise<DynamoTodoItem> {
     return traceAsyncWithMetrics(
       'create-todo-business-logic',
       SubsystemType.BUSINESS_LOGIC,
@@ -138,11 +334,17 @@ export class TodoService implements ITodoService {
           'validate-create-permissions',
           SubsystemType.AUTHENTICATION,
           async () => {
-            await this.validatePermissions(authContext, 'CREATE');
+            await this.validatePermissions(authContext, 'CREATE', {
+              projectId: options.projectId,
+            });
           },
           { action: 'CREATE', userType: authContext.userType }
         );
 
+        if (request.assigneeId) {
+          await this.validateAssignee(options.projectId, request.assigneeId);
+        }
+
         // 게스트 제한 검증 추적
         if (authContext.userType === 'guest') {
           await traceAsyncWithMetrics(
@@ -169,15 +371,26 @@ export class TodoService implements ITodoService {
           'prepare-todo-data',
           SubsystemType.BUSINESS_LOGIC,
           async () => {
-            const todoId = this.generateTodoId();
+            const todoId = options.todoId ?? this.generateTodoId();
             const now = new Date().toISOString();
 
             const todoData = {
               id: todoId,
               userId: authContext.userId,
+              projectId: options.projectId,
+              ...(request.assigneeId && {
+                assigneeId: request.assigneeId,
+                assignmentHistory: [this.assignmentRecord(authContext, request.assigneeId, now)],
+              }),
               title: request.title,
-              completed: false,
+              description: request.description,
+              completed: options.completed ?? false,
               priority: request.priority || Priority.MEDIUM,
+              dueDate: request.dueDate,
+              tags: request.tags,
+              recurrence: request.recurrence,
+              timeZone: request.timeZone,
+              rank: request.rank ?? rankFromCreatedAt(now), // 지정하지 않으면 목록 맨 앞
               isGuest: authContext.userType === 'guest',
               sessionId: authContext.sessionId,
               createdAt: now,
@@ -216,6 +429,25 @@ export class TodoService implements ITodoService {
           }
         );
 
+        // 태그 인덱스 저장
+        if (request.tags?.length) {
+          await traceAsyncWithMetrics(
+            'persist-todo-tags',
+            SubsystemType.DATABASE,
+            async () => {
+              await this.todoRepository.replaceTags(createdTodo, [], request.tags ?? []);
+            },
+            { todoId: todoCreationData.todoId, tagCount: request.tags.length }
+          );
+        }
+
+        await this.recordActivity(
+          authContext,
+          createdTodo,
+          'CREATED',
+          this.diffFields({}, createdTodo)
+        );
+
         // 로깅 및 성능 메트릭
         await traceAsyncWithMetrics(
           'log-creation',
@@ -255,10 +487,21 @@ export class TodoService implements ITodoService {
     );
   }
 
+  /**
+   * createTodo를 거치지 않고 저장한 Todo(배치 생성)의 생성 활동 기록
+   */
+  async recordCreated(authContext: AuthContext, todo: NewTodoItem): Promise<void> {
+    await this.recordActivity(authContext, todo, 'CREATED', this.diffFields({}, todo));
+  }
+
   /**
    * ID로 Todo 조회 (성능 모니터링 적용)
    */
-  async getTodoById(authContext: AuthContext, todoId: string): Promise<DynamoTodoItem> {
+  async getTodoById(
+    authContext: AuthContext,
+    todoId: string,
+    scope: TodoScope = {}
+  ): Promise<DynamoTodoItem> {
     return traceAsyncWithMetrics(
       'get-todo-by-id',
       SubsystemType.BUSINESS_LOGIC,
@@ -273,7 +516,7 @@ export class TodoService implements ITodoService {
           'validate-read-permissions',
           SubsystemType.AUTHENTICATION,
           async () => {
-            await this.validatePermissions(authContext, 'READ');
+            await this.validatePermissions(authContext, 'READ', { projectId: scope.projectId });
           },
           { action: 'READ', todoId }
         );
@@ -283,7 +526,10 @@ export class TodoService implements ITodoService {
           'fetch-todo-from-db',
           SubsystemType.DATABASE,
           async () => {
-            return await this.todoRepository.findById(authContext.userId, todoId);
+            return await this.todoRepository.findById(
+              this.partitionOwner(authContext, scope),
+              todoId
+            );
           },
           { userId: authContext.userId, todoId }
         );
@@ -296,18 +542,7 @@ export class TodoService implements ITodoService {
         subsegment?.addAnnotation('todo_found', true);
 
         // 게스트 세션 검증
-        if (authContext.userType === 'guest') {
-          await traceAsyncWithMetrics(
-            'validate-guest-session',
-            SubsystemType.AUTHENTICATION,
-            async () => {
-              if (todo.sessionId !== authContext.sessionId) {
-                throw new Error('Access denied: Todo belongs to different session');
-              }
-            },
-            { expectedSessionId: authContext.sessionId, actualSessionId: todo.sessionId }
-          );
-        }
+        await this.validateGuestSession(authContext, todo);
 
         // 성능 메트릭 추가
         subsegment?.addMetadata('todo_retrieval_result', {
@@ -351,6 +586,10 @@ export class TodoService implements ITodoService {
         addAnnotation('operation', 'LIST_TODOS');
         addAnnotation('filter_status', request.status || 'all');
         addAnnotation('filter_priority', request.priority || 'all');
+        addAnnotation('filter_tag', request.tag || 'all');
+        addAnnotation('has_search_query', !!request.q);
+        addAnnotation('filter_due', request.due || 'all');
+        addAnnotation('sort_by', request.sortBy || 'index');
         addAnnotation('has_limit', !!request.limit);
         addAnnotation('has_cursor', !!request.cursor);
 
@@ -359,16 +598,21 @@ export class TodoService implements ITodoService {
           'validate-list-permissions',
           SubsystemType.AUTHENTICATION,
           async () => {
-            await this.validatePermissions(authContext, 'READ');
+            await this.validatePermissions(authContext, 'READ', { projectId: request.projectId });
           },
           { action: 'READ', operation: 'list' }
         );
 
+        const ownerId = this.partitionOwner(authContext, request);
+
         const queryOptions = {
           limit: request.limit,
           cursor: request.cursor,
         };
 
+        // 마감일 보기는 사용자 시간대 기준 하루 경계로 범위를 계산
+        const dueRange = request.due ? getDueDateRange(request.due, request.timeZone) : undefined;
+
         // 데이터베이스 조회 (필터 조건에 따라 분기)
         const result = await traceAsyncWithMetrics(
           'query-todos-from-db',
@@ -377,31 +621,37 @@ export class TodoService implements ITodoService {
             let queryResult: DynamoQueryResult<DynamoTodoItem>;
             let queryType: string;
 
-            // 상태별 필터링
-            if (request.status === 'active') {
-              queryType = 'by-status-active';
-              queryResult = await this.todoRepository.findByStatus(
-                authContext.userId,
-                false,
-                queryOptions
-              );
-            } else if (request.status === 'completed') {
-              queryType = 'by-status-completed';
-              queryResult = await this.todoRepository.findByStatus(
-                authContext.userId,
-                true,
-                queryOptions
-              );
-            } else if (request.priority) {
-              queryType = 'by-priority';
-              queryResult = await this.todoRepository.findByPriority(
-                authContext.userId,
-                request.priority,
-                queryOptions
-              );
+            if (request.sortBy === 'manual') {
+              // 수동 정렬은 rank 순서로 나눠야 하므로 조건에 맞는 Todo를 모두 모은 뒤 정렬
+              const items: DynamoTodoItem[] = [];
+              let scannedCount = 0;
+              let cursor: string | undefined;
+              do {
+                const page = await this.queryTodoPage(authContext, request, ownerId, dueRange, {
+                  cursor,
+                });
+                items.push(...page.queryResult.items);
+                scannedCount += page.queryResult.scannedCount;
+                queryType = page.queryType;
+                cursor = page.queryResult.cursor;
+
+                if (items.length > MANUAL_SORT_ITEM_LIMIT) {
+                  throw new BusinessError(
+                    `Manual sort supports up to ${MANUAL_SORT_ITEM_LIMIT} todos`,
+                    ErrorCode.BUSINESS_RULE_VIOLATION,
+                    { limit: MANUAL_SORT_ITEM_LIMIT }
+                  );
+                }
+              } while (cursor);
+              queryResult = { items, count: items.length, scannedCount };
             } else {
-              queryType = 'all';
-              queryResult = await this.todoRepository.findAll(authContext.userId, queryOptions);
+              ({ queryType, queryResult } = await this.queryTodoPage(
+                authContext,
+                request,
+                ownerId,
+                dueRange,
+                queryOptions
+              ));
             }
 
             // 데이터베이스 성능 메트릭
@@ -412,7 +662,15 @@ export class TodoService implements ITodoService {
             return queryResult;
           },
           {
-            queryType: request.status || request.priority || 'all',
+            queryType: request.assignee
+              ? 'assignee'
+              : request.q
+                ? 'search'
+                : request.tag
+                  ? 'tag'
+                  : request.due
+                    ? 'due'
+                    : request.status || request.priority || 'all',
             userId: authContext.userId,
             limit: request.limit,
           }
@@ -448,6 +706,11 @@ export class TodoService implements ITodoService {
           { userType: authContext.userType, needsFiltering: authContext.userType === 'guest' }
         );
 
+        // 수동 정렬 (rank 인덱스가 없으므로 모은 Todo를 정렬한 뒤 rank 커서로 페이지 나눔)
+        if (request.sortBy === 'manual') {
+          this.paginateByRank(filteredResult, request);
+        }
+
         // 최종 성능 메트릭
         subsegment?.addMetadata('todo_list_result', {
           filterType: request.status || request.priority || 'all',
@@ -470,18 +733,108 @@ export class TodoService implements ITodoService {
         userId: authContext.userId,
         filterStatus: request.status,
         filterPriority: request.priority,
+        filterTag: request.tag,
+        hasSearchQuery: !!request.q,
+        filterDue: request.due,
         limit: request.limit,
       }
     );
   }
 
+  /**
+   * 태그 목록과 태그별 사용 횟수 조회
+   */
+  async listTags(authContext: AuthContext, scope: TodoScope = {}): Promise<TagUsage[]> {
+    return traceAsyncWithMetrics(
+      'list-tags',
+      SubsystemType.BUSINESS_LOGIC,
+      async subsegment => {
+        addUserInfo(authContext.userId, authContext.userType);
+        addAnnotation('operation', 'LIST_TAGS');
+
+        await this.validatePermissions(authContext, 'READ', { projectId: scope.projectId });
+
+        // 게스트는 같은 세션에서 만든 Todo의 태그만 집계
+        const tags = await traceAsyncWithMetrics(
+          'query-tags-from-db',
+          SubsystemType.DATABASE,
+          async () => {
+            return await this.todoRepository.listTagUsage(this.partitionOwner(authContext, scope), {
+              sessionId: authContext.userType === 'guest' ? authContext.sessionId : undefined,
+            });
+          },
+          { userId: authContext.userId }
+        );
+
+        subsegment?.addAnnotation('tag_count', tags.length);
+
+        return tags;
+      },
+      {
+        operation: 'LIST_TAGS',
+        userId: authContext.userId,
+        userType: authContext.userType,
+      }
+    );
+  }
+
+  /**
+   * Todo 활동 기록 조회 (최신순)
+   * 삭제된 Todo의 기록도 조회할 수 있도록 Todo 존재 여부는 확인하지 않음 (파티션 권한만 검사)
+   */
+  async listActivity(
+    authContext: AuthContext,
+    todoId: string,
+    options: ListActivityOptions = {}
+  ): Promise<DynamoQueryResult<DynamoTodoActivityItem>> {
+    return traceAsyncWithMetrics(
+      'list-todo-activity',
+      SubsystemType.BUSINESS_LOGIC,
+      async subsegment => {
+        addUserInfo(authContext.userId, authContext.userType);
+        addAnnotation('operation', 'LIST_TODO_ACTIVITY');
+        addAnnotation('todo_id', todoId);
+
+        await this.validatePermissions(authContext, 'READ', { projectId: options.projectId });
+
+        if (!this.activityRepository) {
+          return { items: [], count: 0, scannedCount: 0 };
+        }
+
+        const activityRepository = this.activityRepository;
+        const result = await traceAsyncWithMetrics(
+          'query-activity-from-db',
+          SubsystemType.DATABASE,
+          async () => {
+            return await activityRepository.findByTodo(
+              this.partitionOwner(authContext, options),
+              todoId,
+              { limit: options.limit, cursor: options.cursor }
+            );
+          },
+          { todoId, limit: options.limit }
+        );
+
+        subsegment?.addAnnotation('activity_count', result.count);
+
+        return result;
+      },
+      {
+        operation: 'LIST_TODO_ACTIVITY',
+        userId: authContext.userId,
+        todoId,
+      }
+    );
+  }
+
   /**
    * Todo 업데이트 (성능 모니터링 적용)
    */
   async updateTodo(
     authContext: AuthContext,
     todoId: string,
-    request: UpdateTodoRequest
+    request: UpdateTodoRequest,
+    options: UpdateTodoOptions = {}
   ): Promise<DynamoTodoItem> {
     return traceAsyncWithMetrics(
       'update-todo',
@@ -502,21 +855,35 @@ export class TodoService implements ITodoService {
           'validate-update-permissions',
           SubsystemType.AUTHENTICATION,
           async () => {
-            await this.validatePermissions(authContext, 'UPDATE');
+            await this.validatePermissions(authContext, 'UPDATE', { projectId: options.projectId });
           },
           { action: 'UPDATE', todoId }
         );
 
         // 기존 Todo 존재 및 권한 확인
-        await traceAsyncWithMetrics(
+        const existingTodo = await traceAsyncWithMetrics(
           'verify-todo-exists',
           SubsystemType.DATABASE,
           async () => {
-            await this.getTodoById(authContext, todoId);
+            return await this.getTodoById(authContext, todoId, options);
           },
           { todoId, operation: 'existence-check' }
         );
 
+        // 기준 버전이 이미 다르면 쓰기 전에 충돌 처리 (쓰기 조건에서도 한 번 더 확인)
+        const { expectedVersion } = options;
+        if (expectedVersion !== undefined && (existingTodo.version ?? 1) !== expectedVersion) {
+          throw new VersionConflictError('Todo', todoId, expectedVersion, existingTodo);
+        }
+
+        // 담당자가 실제로 바뀔 때만 검증하고 변경 기록 추가
+        const reassigned =
+          request.assigneeId !== undefined &&
+          request.assigneeId !== (existingTodo.assigneeId ?? null);
+        if (reassigned && request.assigneeId) {
+          await this.validateAssignee(options.projectId, request.assigneeId);
+        }
+
         // 업데이트 데이터 준비
         const updateData = await traceAsyncWithMetrics(
           'prepare-update-data',
@@ -527,6 +894,22 @@ export class TodoService implements ITodoService {
             if (request.completed !== undefined) updates.completed = request.completed;
             if (request.priority !== undefined) updates.priority = request.priority;
             if (request.dueDate !== undefined) updates.dueDate = request.dueDate;
+            if (request.description !== undefined) updates.description = request.description;
+            if (request.tags !== undefined) updates.tags = request.tags;
+            if (request.recurrence !== undefined) updates.recurrence = request.recurrence;
+            if (request.timeZone !== undefined) updates.timeZone = request.timeZone;
+            if (request.rank !== undefined) updates.rank = request.rank;
+            if (reassigned) {
+              updates.assigneeId = request.assigneeId;
+              updates.assignmentHistory = [
+                ...(existingTodo.assignmentHistory ?? []),
+                this.assignmentRecord(
+                  authContext,
+                  request.assigneeId ?? null,
+                  new Date().toISOString()
+                ),
+              ].slice(-ASSIGNMENT_HISTORY_LIMIT);
+            }
 
             const fieldsToUpdate = Object.keys(updates);
 
@@ -547,7 +930,12 @@ export class TodoService implements ITodoService {
           'persist-todo-update',
           SubsystemType.DATABASE,
           async () => {
-            return await this.todoRepository.update(authContext.userId, todoId, updateData.updates);
+            return await this.todoRepository.update(
+              this.partitionOwner(authContext, options),
+              todoId,
+              updateData.updates,
+              { expectedVersion }
+            );
           },
           {
             operation: 'UPDATE',
@@ -557,6 +945,51 @@ export class TodoService implements ITodoService {
           }
         );
 
+        // 태그가 바뀌면 태그 인덱스도 함께 교체
+        if (request.tags !== undefined) {
+          await traceAsyncWithMetrics(
+            'persist-todo-tags',
+            SubsystemType.DATABASE,
+            async () => {
+              await this.todoRepository.replaceTags(
+                updatedTodo,
+                existingTodo.tags ?? [],
+                request.tags ?? []
+              );
+            },
+            { todoId, tagCount: request.tags.length }
+          );
+        }
+
+        await this.recordActivity(
+          authContext,
+          updatedTodo,
+          'UPDATED',
+          this.diffFields(existingTodo, updatedTodo)
+        );
+
+        // 반복 Todo가 처음 완료되면 다음 회차 생성 (이미 만든 회차가 있으면 건너뜀)
+        let resultTodo =
+          request.completed === true &&
+          !existingTodo.completed &&
+          updatedTodo.recurrence &&
+          !existingTodo.nextOccurrenceId
+            ? await traceAsyncWithMetrics(
+                'create-next-occurrence',
+                SubsystemType.BUSINESS_LOGIC,
+                async () => {
+                  return await this.createNextOccurrence(authContext, updatedTodo);
+                },
+                { todoId, recurrence: updatedTodo.recurrence }
+              )
+            : updatedTodo;
+
+        // 옮긴 rank가 길어졌으면 목록 전체의 rank를 다시 매기고 새 rank로 응답
+        if (request.rank !== undefined && request.rank.length > RANK_REBALANCE_LENGTH) {
+          const rebalanced = await this.rebalanceRanks(authContext, options);
+          resultTodo = rebalanced.get(todoId) ?? resultTodo;
+        }
+
         // 업데이트 로깅
         await traceAsyncWithMetrics(
           'log-update',
@@ -582,7 +1015,7 @@ export class TodoService implements ITodoService {
           userType: authContext.userType,
           fieldsUpdated: updateData.fieldsToUpdate,
           updateSize: JSON.stringify(updateData.updates).length,
-          resultSize: JSON.stringify(updatedTodo).length,
+          resultSize: JSON.stringify(resultTodo).length,
           statusChange:
             request.completed !== undefined
               ? {
@@ -595,13 +1028,13 @@ export class TodoService implements ITodoService {
         subsegment?.addAnnotation('update_success', true);
         subsegment?.addAnnotation('fields_updated_count', updateData.fieldsToUpdate.length);
 
-        return updatedTodo;
+        return resultTodo;
       },
       {
         operation: 'UPDATE_TODO',
         userId: authContext.userId,
         todoId,
-        updateFields,
+        updateFields: Object.keys(request),
       }
     );
   }
@@ -609,7 +1042,7 @@ export class TodoService implements ITodoService {
   /**
    * Todo 삭제 (성능 모니터링 적용)
    */
-  async deleteTodo(authContext: AuthContext, todoId: string): Promise<void> {
+  async deleteTodo(authContext: AuthContext, todoId: string, scope: TodoScope = {}): Promise<void> {
     return traceAsyncWithMetrics(
       'delete-todo',
       SubsystemType.BUSINESS_LOGIC,
@@ -624,7 +1057,7 @@ export class TodoService implements ITodoService {
           'validate-delete-permissions',
           SubsystemType.AUTHENTICATION,
           async () => {
-            await this.validatePermissions(authContext, 'DELETE');
+            await this.validatePermissions(authContext, 'DELETE', { projectId: scope.projectId });
           },
           { action: 'DELETE', todoId }
         );
@@ -634,7 +1067,7 @@ export class TodoService implements ITodoService {
           'verify-todo-for-deletion',
           SubsystemType.DATABASE,
           async () => {
-            const todo = await this.getTodoById(authContext, todoId);
+            const todo = await this.getTodoById(authContext, todoId, scope);
 
             // 삭제 전 메타데이터 수집 (감사 목적)
             subsegment?.addMetadata('todo_before_deletion', {
@@ -656,7 +1089,9 @@ export class TodoService implements ITodoService {
           'execute-todo-deletion',
           SubsystemType.DATABASE,
           async () => {
-            await this.todoRepository.delete(authContext.userId, todoId);
+            await this.todoRepository.delete(this.partitionOwner(authContext, scope), todoId, {
+              deletedBy: authContext.userId,
+            });
           },
           {
             operation: 'DELETE',
@@ -666,6 +1101,20 @@ export class TodoService implements ITodoService {
           }
         );
 
+        // 삭제된 Todo의 태그 인덱스 정리
+        if (todoToDelete.tags?.length) {
+          await traceAsyncWithMetrics(
+            'delete-todo-tags',
+            SubsystemType.DATABASE,
+            async () => {
+              await this.todoRepository.replaceTags(todoToDelete, todoToDelete.tags ?? [], []);
+            },
+            { todoId, tagCount: todoToDelete.tags.length }
+          );
+        }
+
+        await this.recordActivity(authContext, todoToDelete, 'DELETED', []);
+
         // 삭제 로깅
         await traceAsyncWithMetrics(
           'log-deletion',
@@ -708,13 +1157,195 @@ export class TodoService implements ITodoService {
     );
   }
 
+  /**
+   * 휴지통 Todo 목록 조회 (페이지 안에서 최근 삭제 순)
+   */
+  async listTrash(
+    authContext: AuthContext,
+    options: ListTrashOptions = {}
+  ): Promise<DynamoQueryResult<DynamoTodoTrashItem>> {
+    return traceAsyncWithMetrics(
+      'list-trash',
+      SubsystemType.BUSINESS_LOGIC,
+      async subsegment => {
+        addUserInfo(authContext.userId, authContext.userType);
+        addAnnotation('operation', 'LIST_TRASH');
+
+        await this.validatePermissions(authContext, 'READ', { projectId: options.projectId });
+
+        const result = await traceAsyncWithMetrics(
+          'query-trash-from-db',
+          SubsystemType.DATABASE,
+          async () => {
+            return await this.todoRepository.findTrash(this.partitionOwner(authContext, options), {
+              limit: options.limit,
+              cursor: options.cursor,
+            });
+          },
+          { limit: options.limit }
+        );
+
+        subsegment?.addAnnotation('trash_count', result.count);
+
+        return {
+          ...result,
+          items: [...result.items].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)),
+        };
+      },
+      {
+        operation: 'LIST_TRASH',
+        userId: authContext.userId,
+        userType: authContext.userType,
+      }
+    );
+  }
+
+  /**
+   * 휴지통 Todo 복원 (삭제 권한이 있으면 복원 가능)
+   * 삭제할 때 지운 태그 인덱스도 다시 저장
+   */
+  async restoreTodo(
+    authContext: AuthContext,
+    todoId: string,
+    scope: TodoScope = {}
+  ): Promise<DynamoTodoItem> {
+    return traceAsyncWithMetrics(
+      'restore-todo',
+      SubsystemType.BUSINESS_LOGIC,
+      async subsegment => {
+        addUserInfo(authContext.userId, authContext.userType);
+        addAnnotation('operation', 'RESTORE_TODO');
+        addAnnotation('todo_id', todoId);
+
+        await this.validatePermissions(authContext, 'DELETE', { projectId: scope.projectId });
+
+        // 게스트 세션 검증 (게스트는 같은 파티션을 쓰므로 다른 세션의 휴지통 Todo는 복원할 수 없음)
+        if (authContext.userType === 'guest') {
+          const trashed = await this.todoRepository.findTrashedById(
+            this.partitionOwner(authContext, scope),
+            todoId
+          );
+          if (!trashed) {
+            throw new ItemNotFoundError('TrashedTodo', todoId);
+          }
+          await this.validateGuestSession(authContext, trashed.todo);
+        }
+
+        const restoredTodo = await traceAsyncWithMetrics(
+          'restore-todo-in-db',
+          SubsystemType.DATABASE,
+          async () => {
+            return await this.todoRepository.restore(
+              this.partitionOwner(authContext, scope),
+              todoId
+            );
+          },
+          { todoId }
+        );
+
+        if (restoredTodo.tags?.length) {
+          await this.todoRepository.replaceTags(restoredTodo, [], restoredTodo.tags);
+        }
+
+        await this.recordActivity(authContext, restoredTodo, 'RESTORED', []);
+
+        this.logger.info('Todo restored', {
+          todoId,
+          userId: authContext.userId,
+          userType: authContext.userType,
+        });
+        subsegment?.addAnnotation('restore_success', true);
+
+        return restoredTodo;
+      },
+      {
+        operation: 'RESTORE_TODO',
+        userId: authContext.userId,
+        todoId,
+        userType: authContext.userType,
+      }
+    );
+  }
+
+  /**
+   * 휴지통 Todo 영구 삭제 (복원할 수 없음, 활동 기록은 남김)
+   */
+  async purgeTodo(authContext: AuthContext, todoId: string, scope: TodoScope = {}): Promise<void> {
+    return traceAsyncWithMetrics(
+      'purge-todo',
+      SubsystemType.BUSINESS_LOGIC,
+      async subsegment => {
+        addUserInfo(authContext.userId, authContext.userType);
+        addAnnotation('operation', 'PURGE_TODO');
+        addAnnotation('todo_id', todoId);
+
+        await this.validatePermissions(authContext, 'DELETE', { projectId: scope.projectId });
+
+        const partitionOwner = this.partitionOwner(authContext, scope);
+        const trashed = await this.todoRepository.findTrashedById(partitionOwner, todoId);
+        if (!trashed) {
+          throw new ItemNotFoundError('TrashedTodo', todoId);
+        }
+        await this.validateGuestSession(authContext, trashed.todo);
+
+        await traceAsyncWithMetrics(
+          'purge-todo-in-db',
+          SubsystemType.DATABASE,
+          async () => {
+            await this.todoRepository.purge(partitionOwner, todoId);
+          },
+          { todoId }
+        );
+
+        await this.recordActivity(authContext, trashed.todo, 'PURGED', []);
+
+        this.logger.info('Todo purged', {
+          todoId,
+          userId: authContext.userId,
+          userType: authContext.userType,
+        });
+        subsegment?.addAnnotation('purge_success', true);
+      },
+      {
+        operation: 'PURGE_TODO',
+        userId: authContext.userId,
+        todoId,
+        userType: authContext.userType,
+      }
+    );
+  }
+
+  /**
+   * 게스트 세션 검증 (게스트는 자기 세션에서 만든 Todo만 다룰 수 있음)
+   */
+  private async validateGuestSession(
+    authContext: AuthContext,
+    todo: Pick<DynamoTodoItem, 'sessionId'>
+  ): Promise<void> {
+    if (authContext.userType !== 'guest') {
+      return;
+    }
+
+    await traceAsyncWithMetrics(
+      'validate-guest-session',
+      SubsystemType.AUTHENTICATION,
+      async () => {
+        if (todo.sessionId !== authContext.sessionId) {
+          throw new Error('Access denied: Todo belongs to different session');
+        }
+      },
+      { expectedSessionId: authContext.sessionId, actualSessionId: todo.sessionId }
+    );
+  }
+
   /**
    * 권한 검증 (성능 모니터링 적용)
+   * 토큰 권한으로 작업 자체를 검사한 뒤, 대상이 주어지면 소유자 또는 프로젝트 멤버 역할을 검사
    */
   async validatePermissions(
     authContext: AuthContext,
     action: string,
-    _resourceOwnerId?: string
+    scope: PermissionScope = {}
   ): Promise<void> {
     return traceAsyncWithMetrics(
       'validate-permissions',
@@ -784,6 +1415,20 @@ export class TodoService implements ITodoService {
             throw new Error(`Unknown action: ${action}`);
         }
 
+        if (scope.resourceOwnerId && scope.resourceOwnerId !== authContext.userId) {
+          subsegment?.addAnnotation('permission_denied', true);
+          subsegment?.addAnnotation('denied_reason', 'NOT_RESOURCE_OWNER');
+          throw new AuthError(
+            'RESOURCE_ACCESS_DENIED',
+            'Access denied: resource belongs to another user'
+          );
+        }
+
+        if (scope.projectId) {
+          subsegment?.addAnnotation('project_id', scope.projectId);
+          await this.validateProjectRole(authContext, action, scope.projectId);
+        }
+
         // 권한 검증 성공
         subsegment?.addAnnotation('permission_granted', true);
       },
@@ -795,6 +1440,304 @@ export class TodoService implements ITodoService {
     );
   }
 
+  /**
+   * 프로젝트 멤버 역할 검사 (게스트와 멤버가 아닌 사용자는 프로젝트가 있는지도 알 수 없음)
+   */
+  private async validateProjectRole(
+    authContext: AuthContext,
+    action: string,
+    projectId: string
+  ): Promise<void> {
+    if (authContext.userType === 'guest' || !this.projectRepository) {
+      throw new AuthError('PROJECT_ACCESS_DENIED', 'Shared projects are not available');
+    }
+
+    const member = await this.projectRepository.findMember(projectId, authContext.userId);
+    if (!member) {
+      throw new AuthError('PROJECT_ACCESS_DENIED', 'Not a member of this project');
+    }
+
+    const required = TODO_ACTION_ROLES[action];
+    if (!hasProjectRole(member.role, required)) {
+      this.logger.warn('Project role too low for todo action', {
+        projectId,
+        userId: authContext.userId,
+        role: member.role,
+        action,
+      });
+      throw new AuthError(
+        'PROJECT_ROLE_REQUIRED',
+        `Project role '${required}' or higher is required to ${action.toLowerCase()} todos`
+      );
+    }
+  }
+
+  /**
+   * 담당자가 프로젝트 멤버인지 확인 (개인 Todo는 담당자를 지정할 수 없음)
+   */
+  private async validateAssignee(projectId: string | undefined, assigneeId: string): Promise<void> {
+    if (!projectId || !this.projectRepository) {
+      throw new AssignmentError(
+        'ASSIGNEE_REQUIRES_PROJECT',
+        'Only shared project todos can be assigned'
+      );
+    }
+
+    const member = await this.projectRepository.findMember(projectId, assigneeId);
+    if (!member) {
+      throw new AssignmentError('ASSIGNEE_NOT_MEMBER', 'Assignee must be a project member');
+    }
+  }
+
+  /**
+   * 담당자 변경 기록 생성
+   */
+  private assignmentRecord(
+    authContext: AuthContext,
+    assigneeId: string | null,
+    assignedAt: string
+  ): TodoAssignmentRecord {
+    return { assigneeId, assignedBy: authContext.userId, assignedAt };
+  }
+
+  /**
+   * 할당 목록에서 지금 멤버가 아닌 프로젝트의 Todo 제외 (projectId를 주면 그 프로젝트만)
+   * 멤버에서 빠져도 담당자 인덱스에는 남아 있으므로 조회 때마다 멤버십 확인
+   */
+  private async filterAccessibleAssignments(
+    authContext: AuthContext,
+    queryResult: DynamoQueryResult<DynamoTodoItem>,
+    request: ListTodosRequest
+  ): Promise<void> {
+    const memberships =
+      authContext.userType === 'guest' || !this.projectRepository
+        ? []
+        : await this.projectRepository.listByUser(authContext.userId);
+    const projectIds = new Set(memberships.map(member => member.projectId));
+
+    queryResult.items = queryResult.items.filter(
+      todo =>
+        !!todo.projectId &&
+        projectIds.has(todo.projectId) &&
+        (!request.projectId || todo.projectId === request.projectId) &&
+        (!request.q || todo.title.toLowerCase().includes(request.q.toLowerCase()))
+    );
+    queryResult.count = queryResult.items.length;
+  }
+
+  /**
+   * 활동 기록 추가
+   * Todo 쓰기는 이미 끝났으므로 기록에 실패해도 요청은 성공시키고 에러만 남김
+   */
+  private async recordActivity(
+    authContext: AuthContext,
+    todo: Pick<DynamoTodoItem, 'id' | 'userId' | 'projectId' | 'ttl'>,
+    action: TodoActivityAction,
+    changes: TodoFieldChange[]
+  ): Promise<void> {
+    if (!this.activityRepository || (action === 'UPDATED' && changes.length === 0)) {
+      return;
+    }
+
+    try {
+      await this.activityRepository.append(todoPartitionOwner(todo), {
+        id: randomUUID(),
+        todoId: todo.id,
+        projectId: todo.projectId,
+        action,
+        actorId: authContext.userId,
+        actorType: authContext.userType,
+        changes,
+        correlationId: correlationId.getCurrent()?.correlationId,
+        occurredAt: new Date().toISOString(),
+        // 게스트 활동은 게스트 Todo와 함께 만료
+        ...(authContext.userType === 'guest' && {
+          ttl: todo.ttl ?? this.generateTTL(7 * 24 * 60 * 60), // 7일
+        }),
+      });
+    } catch (error) {
+      this.logger.error('Failed to record todo activity', error as Error, {
+        todoId: todo.id,
+        action,
+        userId: authContext.userId,
+      });
+    }
+  }
+
+  /**
+   * 활동 기록에 남길 필드 변경 목록 (값이 같은 필드는 제외)
+   */
+  private diffFields(
+    before: Partial<DynamoTodoItem>,
+    after: Partial<DynamoTodoItem>
+  ): TodoFieldChange[] {
+    return ACTIVITY_FIELDS.flatMap(field => {
+      const oldValue = before[field] ?? null;
+      const newValue = after[field] ?? null;
+      return JSON.stringify(oldValue) === JSON.stringify(newValue)
+        ? []
+        : [{ field, oldValue, newValue }];
+    });
+  }
+
+  /**
+   * 파티션의 모든 Todo에 현재 순서대로 짧은 rank를 다시 매김 (바꾼 Todo를 ID별로 반환)
+   * 같은 틈으로 계속 옮기면 rank가 RANK_MAX_LENGTH까지 길어지므로 길어진 rank가 저장될 때 실행
+   * rank만 바꾸고 버전은 올리지 않으므로 기기마다 증분 동기화로 새 rank만 받아 반영
+   * 도중에 실패해도 수정 자체는 성공시키고, 다음에 긴 rank가 저장될 때 다시 매김
+   */
+  private async rebalanceRanks(
+    authContext: AuthContext,
+    scope: TodoScope
+  ): Promise<Map<string, DynamoTodoItem>> {
+    const ownerId = this.partitionOwner(authContext, scope);
+    const rebalanced = new Map<string, DynamoTodoItem>();
+
+    try {
+      let todos: DynamoTodoItem[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await this.todoRepository.findAll(ownerId, { cursor });
+        todos.push(...page.items);
+        cursor = page.cursor;
+      } while (cursor);
+
+      if (authContext.userType === 'guest') {
+        todos = todos.filter(todo => todo.sessionId === authContext.sessionId);
+      }
+
+      todos.sort(compareByRank);
+      const ranks = spreadRanks(todos.length, new Date().toISOString());
+      for (const [index, todo] of todos.entries()) {
+        const updated = await this.todoRepository.updateRank(ownerId, todo.id, ranks[index]);
+        rebalanced.set(todo.id, updated);
+      }
+
+      this.logger.info('Todo ranks rebalanced', { ownerId, count: todos.length });
+    } catch (error) {
+      this.logger.error('Failed to rebalance todo ranks', error as Error, {
+        ownerId,
+        rebalancedCount: rebalanced.size,
+      });
+    }
+
+    return rebalanced;
+  }
+
+  /**
+   * 필터 조건에 맞는 Todo 한 페이지 조회 (조회한 인덱스 이름과 함께 반환)
+   */
+  private async queryTodoPage(
+    authContext: AuthContext,
+    request: ListTodosRequest,
+    ownerId: string,
+    dueRange: DueDateRange | undefined,
+    queryOptions: { limit?: number; cursor?: string }
+  ): Promise<{ queryType: string; queryResult: DynamoQueryResult<DynamoTodoItem> }> {
+    let queryResult: DynamoQueryResult<DynamoTodoItem>;
+    let queryType: string;
+
+    // 나에게 할당된 Todo (프로젝트를 가로질러 조회하므로 지금도 멤버인 프로젝트만 남김)
+    if (request.assignee === 'me') {
+      queryType = 'by-assignee';
+      queryResult = await this.todoRepository.findByAssignee(authContext.userId, queryOptions);
+      await this.filterAccessibleAssignments(authContext, queryResult, request);
+      this.applyInMemoryFilters(queryResult, request, dueRange);
+    } else if (request.q) {
+      // 제목 검색 (태그/상태/우선순위 조건은 조회 결과에 추가 적용)
+      const match = request.match ?? 'prefix';
+      queryType = `search-${match}`;
+      queryResult = await this.todoRepository.searchByTitle(ownerId, request.q, {
+        ...queryOptions,
+        match,
+      });
+      this.applyInMemoryFilters(queryResult, request, dueRange);
+    } else if (request.tag) {
+      // 태그별 필터링 (상태/우선순위 조건은 조회 결과에 추가 적용)
+      queryType = 'by-tag';
+      queryResult = await this.todoRepository.findByTag(ownerId, request.tag, queryOptions);
+      this.applyInMemoryFilters(queryResult, { ...request, tag: undefined }, dueRange);
+    } else if (dueRange) {
+      // 마감일 보기 (마감일 오름차순, 상태/우선순위 조건은 조회 결과에 추가 적용)
+      queryType = `by-due-${request.due}`;
+      queryResult = await this.todoRepository.findByDueDate(ownerId, dueRange, queryOptions);
+      this.applyInMemoryFilters(queryResult, request);
+    } else if (request.status === 'active') {
+      queryType = 'by-status-active';
+      queryResult = await this.todoRepository.findByStatus(ownerId, false, queryOptions);
+    } else if (request.status === 'completed') {
+      queryType = 'by-status-completed';
+      queryResult = await this.todoRepository.findByStatus(ownerId, true, queryOptions);
+    } else if (request.priority) {
+      queryType = 'by-priority';
+      queryResult = await this.todoRepository.findByPriority(
+        ownerId,
+        request.priority,
+        queryOptions
+      );
+    } else {
+      queryType = 'all';
+      queryResult = await this.todoRepository.findAll(ownerId, queryOptions);
+    }
+
+    return { queryType, queryResult };
+  }
+
+  /**
+   * rank 순으로 정렬해 커서 다음부터 limit개만 남김
+   * 커서는 마지막으로 돌려준 Todo의 rank와 ID (그 사이에 옮겨진 Todo가 있어도 위치 기준으로 이어감)
+   */
+  private paginateByRank(
+    result: DynamoQueryResult<DynamoTodoItem>,
+    request: ListTodosRequest
+  ): void {
+    const sorted = [...result.items].sort(compareByRank);
+
+    let start = 0;
+    if (request.cursor) {
+      const position = { ...this.decodeRankCursor(request.cursor), createdAt: '' };
+      start = sorted.findIndex(todo => compareByRank(todo, position) > 0);
+      if (start === -1) start = sorted.length;
+    }
+
+    const remaining = sorted.slice(start);
+    const items = request.limit !== undefined ? remaining.slice(0, request.limit) : remaining;
+    const last = items[items.length - 1];
+
+    result.items = items;
+    result.count = items.length;
+    result.cursor =
+      items.length < remaining.length
+        ? JSON.stringify({ rank: effectiveRank(last), id: last.id })
+        : undefined;
+  }
+
+  /**
+   * 수동 정렬 커서 해석 (JSON이 아니거나 rank와 ID가 없으면 잘못된 커서)
+   */
+  private decodeRankCursor(cursor: string): { rank: string; id: string } {
+    let decoded: { rank?: unknown; id?: unknown } | null;
+    try {
+      decoded = JSON.parse(cursor);
+    } catch {
+      decoded = null;
+    }
+
+    if (typeof decoded?.rank !== 'string' || typeof decoded?.id !== 'string') {
+      throw new ValidationError('Invalid manual sort cursor', ErrorCode.INVALID_CURSOR, {
+        cursor,
+      });
+    }
+    return { rank: decoded.rank, id: decoded.id };
+  }
+
+  /**
+   * 요청 범위의 Todo 파티션 소유자 ID (프로젝트 Todo면 프로젝트, 아니면 요청한 사용자)
+   */
+  private partitionOwner(authContext: AuthContext, scope: TodoScope): string {
+    return scope.projectId ? projectPartitionOwner(scope.projectId) : authContext.userId;
+  }
+
   /**
    * 만료된 게스트 Todo 정리
    * DynamoDB TTL이 자동으로 처리하지만, 수동 정리가 필요한 경우를 위한 메서드
@@ -804,6 +1747,117 @@ export class TodoService implements ITodoService {
     return 0;
   }
 
+  /**
+   * 인덱스로 처리하지 못한 목록 필터(상태, 우선순위, 태그, 마감일)를 조회 결과에 적용
+   */
+  private applyInMemoryFilters(
+    queryResult: DynamoQueryResult<DynamoTodoItem>,
+    request: ListTodosRequest,
+    dueRange?: DueDateRange
+  ): void {
+    const tag = request.tag?.toLowerCase();
+
+    queryResult.items = queryResult.items.filter(
+      todo =>
+        (request.status === 'active'
+          ? !todo.completed
+          : request.status === 'completed'
+            ? todo.completed
+            : true) &&
+        (!request.priority || todo.priority === request.priority) &&
+        (!tag || (todo.tags ?? []).some(todoTag => todoTag.toLowerCase() === tag)) &&
+        (!dueRange || isDueDateInRange(todo.dueDate, dueRange)) &&
+        // 지난 마감일 보기에는 아직 끝나지 않은 항목만 포함
+        (request.due !== 'overdue' || !todo.completed)
+    );
+    queryResult.count = queryResult.items.length;
+  }
+
+  /**
+   * 반복 Todo의 다음 회차 생성
+   * 마감일(없으면 생성일) 기준으로 다음 일정을 계산하고, 완료된 Todo에 다음 회차 ID를 기록
+   */
+  private async createNextOccurrence(
+    authContext: AuthContext,
+    todo: DynamoTodoItem
+  ): Promise<DynamoTodoItem> {
+    let next: NextOccurrence | null;
+    try {
+      next = getNextOccurrence(
+        todo.recurrence ?? '',
+        todo.dueDate ?? todo.createdAt,
+        todo.timeZone
+      );
+    } catch (error) {
+      // 저장된 규칙이 잘못되어도 완료 처리 자체는 성공시킴
+      this.logger.warn('Invalid recurrence rule, next occurrence skipped', {
+        todoId: todo.id,
+        recurrence: todo.recurrence,
+        error: (error as Error).message,
+      });
+      return todo;
+    }
+
+    if (!next) {
+      this.logger.info('Recurrence finished', { todoId: todo.id, recurrence: todo.recurrence });
+      return todo;
+    }
+
+    if (authContext.userType === 'guest') {
+      const existingTodos = await this.todoRepository.findAll(authContext.userId);
+      if (existingTodos.count >= authContext.permissions.maxItems) {
+        this.logger.warn('Guest todo limit reached, next occurrence skipped', {
+          todoId: todo.id,
+          maxItems: authContext.permissions.maxItems,
+        });
+        return todo;
+      }
+    }
+
+    const nextTodo = await this.todoRepository.create({
+      id: this.generateTodoId(),
+      userId: todo.userId,
+      projectId: todo.projectId,
+      ...(todo.assigneeId && {
+        assigneeId: todo.assigneeId,
+        assignmentHistory: [
+          this.assignmentRecord(authContext, todo.assigneeId, new Date().toISOString()),
+        ],
+      }),
+      title: todo.title,
+      description: todo.description,
+      completed: false,
+      priority: todo.priority,
+      dueDate: next.date,
+      tags: todo.tags,
+      recurrence: next.recurrence,
+      timeZone: todo.timeZone,
+      rank: effectiveRank(todo), // 완료한 회차 자리에 이어서 표시
+      isGuest: todo.isGuest,
+      sessionId: todo.sessionId,
+      ...(authContext.userType === 'guest' &&
+        authContext.permissions.persistData && {
+          ttl: this.generateTTL(7 * 24 * 60 * 60), // 7일
+        }),
+    });
+
+    if (todo.tags?.length) {
+      await this.todoRepository.replaceTags(nextTodo, [], todo.tags);
+    }
+
+    await this.recordActivity(authContext, nextTodo, 'CREATED', this.diffFields({}, nextTodo));
+
+    this.logger.info('Next occurrence created', {
+      todoId: todo.id,
+      nextTodoId: nextTodo.id,
+      dueDate: next.date,
+    });
+
+    return await this.todoRepository.update(todoPartitionOwner(todo), todo.id, {
+      nextOccurrenceId: nextTodo.id,
+    });
+  }
+
   /**
    * 고유한 Todo ID 생성
    */
@@ -1,4 +1,6 @@
-import { Priority } from './constants';
+import { Priority, ProjectRole } from './constants';
+import { DueDateView } from '../utils/due-date';
+import type { TodoActivityAction, TodoAssignmentRecord, TodoFieldChange } from './database.types';
 
 /**
  * API 요청/응답 타입 정의
@@ -19,47 +21,329 @@ export interface ApiResponse<T = unknown> {
 // TODO 관련 API 타입
 export interface CreateTodoRequest {
   title: string;
+  description?: string;
   priority?: Priority;
   dueDate?: string;
+  tags?: string[];
+  recurrence?: string; // RRULE 부분 집합 (FREQ, INTERVAL, BYDAY, UNTIL, COUNT)
+  timeZone?: string; // 반복 일정의 날짜/요일 계산 기준 시간대 (IANA, 기본값: UTC)
+  rank?: string; // 수동 정렬 순서 (없으면 생성일시 기본 순서)
+  assigneeId?: string; // 프로젝트 Todo만, 프로젝트 멤버여야 함
 }
 
 export interface UpdateTodoRequest {
   title?: string;
+  description?: string;
   completed?: boolean;
   priority?: Priority;
-  dueDate?: string;
+  dueDate?: string | null; // null이면 마감일 삭제
+  tags?: string[];
+  recurrence?: string | null; // null이면 반복 해제
+  timeZone?: string; // 반복 일정의 날짜/요일 계산 기준 시간대 (IANA)
+  assigneeId?: string | null; // null이면 담당 해제
+  rank?: string; // 수동 정렬 순서 (분수 인덱스, 이웃 rank 사이 값)
+  expectedVersion?: number; // 지정하면 서버 버전과 같을 때만 수정 (다르면 409)
+}
+
+export interface TodoResponse {
+  id: string;
+  title: string;
+  description?: string;
+  completed: boolean;
+  priority: Priority;
+  dueDate?: string | null;
+  tags?: string[];
+  recurrence?: string;
+  timeZone?: string;
+  nextOccurrenceId?: string;
+  checklistProgress?: ChecklistProgress;
+  projectId?: string; // 공유 프로젝트 Todo면 프로젝트 ID
+  assigneeId?: string;
+  assignmentHistory?: TodoAssignmentRecord[];
+  rank?: string; // 수동 정렬 순서 (없으면 생성일시 기본 순서)
+  version: number; // 수정할 때마다 1 증가 (If-Match/expectedVersion에 사용)
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface ListTodosRequest {
   status?: 'all' | 'active' | 'completed';
   priority?: Priority;
+  tag?: string;
+  q?: string; // 제목 검색어
+  match?: 'prefix' | 'substring'; // 제목 검색 방식 (기본값: prefix)
+  due?: DueDateView; // 마감일 보기 (결과는 마감일 오름차순)
+  timeZone?: string; // 마감일 보기의 하루 경계 기준 시간대 (IANA, 기본값: UTC)
+  projectId?: string; // 공유 프로젝트 Todo 목록 (없으면 내 Todo)
+  assignee?: 'me'; // 나에게 할당된 Todo (프로젝트 구분 없이, projectId를 주면 그 프로젝트만)
+  sortBy?: 'manual'; // 수동 정렬 순서(rank)로 정렬 (생략하면 조회한 인덱스 순서)
   limit?: number;
   cursor?: string; // for pagination
 }
 
+// 체크리스트 관련 API 타입
+export interface CreateChecklistItemRequest {
+  title: string;
+  completed?: boolean;
+}
+
+export interface UpdateChecklistItemRequest {
+  title?: string;
+  completed?: boolean;
+}
+
+export interface ReorderChecklistItemsRequest {
+  itemIds: string[];
+}
+
+export interface ChecklistItemResponse {
+  id: string;
+  todoId: string;
+  title: string;
+  completed: boolean;
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 부모 Todo의 체크리스트 진행률 (예: 3/5)
+export interface ChecklistProgress {
+  completed: number;
+  total: number;
+}
+
+export interface ListTagsResponse {
+  tags: Array<{ tag: string; count: number }>;
+}
+
+// Todo 활동 기록 API 타입
+export interface TodoActivityResponse {
+  id: string;
+  todoId: string;
+  action: TodoActivityAction;
+  actorId: string;
+  actorType: 'authenticated' | 'guest';
+  changes: TodoFieldChange[];
+  correlationId?: string;
+  occurredAt: string;
+}
+
+export interface ListTodoActivityResponse {
+  activities: TodoActivityResponse[]; // 최신순
+  cursor?: string; // 다음 페이지가 있을 때만
+}
+
+// 휴지통 API 타입
+export interface TrashedTodoResponse {
+  todo: TodoResponse; // 삭제 직전 상태
+  deletedAt: string;
+  deletedBy: string;
+  expiresAt: string; // 이 시각이 지나면 영구 삭제
+}
+
+export interface ListTrashResponse {
+  todos: TrashedTodoResponse[]; // 최근 삭제 순
+  cursor?: string; // 다음 페이지가 있을 때만
+}
+
+// 공유 프로젝트 관련 API 타입
+export interface CreateProjectRequest {
+  name: string;
+}
+
+export interface AddProjectMemberRequest {
+  email: string; // 가입한 사용자의 이메일
+  role: ProjectRole;
+}
+
+export interface UpdateProjectMemberRequest {
+  role: ProjectRole;
+}
+
+export interface ProjectResponse {
+  id: string;
+  name: string;
+  role: ProjectRole; // 요청한 사용자의 역할
+}
+
+export interface ListProjectsResponse {
+  projects: ProjectResponse[];
+}
+
+export interface ProjectMemberResponse {
+  userId: string;
+  email?: string;
+  role: ProjectRole;
+  addedAt: string;
+}
+
+export interface ListProjectMembersResponse {
+  members: ProjectMemberResponse[];
+}
+
+// 데이터 내보내기/가져오기 관련 API 타입
+export type TodoTransferFormat = 'json' | 'csv';
+
+export interface ExportTodosRequest {
+  format?: TodoTransferFormat;
+}
+
+export interface ExportTodosResponse {
+  exportUrl: string; // 파일 내용을 담은 data: URL (base64)
+  format: TodoTransferFormat;
+  totalItems: number;
+  exportedAt: string;
+}
+
+export interface ImportTodosRequest {
+  format?: TodoTransferFormat;
+  todos?: unknown[]; // format이 json일 때 (내보낸 JSON 배열 그대로 사용 가능)
+  csv?: string; // format이 csv일 때 (첫 줄은 헤더)
+  mergeStrategy?: 'merge' | 'replace'; // 같은 ID가 이미 있으면 건너뛰기(merge) 또는 덮어쓰기(replace)
+}
+
+export interface ImportRowError {
+  row: number; // 1부터 시작 (CSV는 헤더 다음 줄이 1)
+  id?: string;
+  message: string;
+}
+
+export interface ImportTodosResponse {
+  importedCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  errors: ImportRowError[];
+}
+
+// 배치 작업 관련 API 타입
+export type BatchTodoOperation =
+  | { action: 'create'; id?: string; data: CreateTodoRequest } // id를 주면 클라이언트 ID 그대로 사용
+  | { action: 'update'; id: string; data: UpdateTodoRequest }
+  | { action: 'delete'; id: string };
+
+export interface BatchTodosRequest {
+  operations: BatchTodoOperation[]; // 최대 25개, 요청 순서대로 결과 반환
+}
+
+export type BatchTodoErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'DUPLICATE_ID'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'ALREADY_EXISTS'
+  | 'LIMIT_EXCEEDED'
+  | 'UNPROCESSED'
+  | 'VERSION_CONFLICT'
+  | 'INTERNAL_ERROR';
+
+export interface BatchTodoResult {
+  index: number; // 요청의 operations 인덱스
+  action: BatchTodoOperation['action'] | 'unknown';
+  id?: string;
+  success: boolean;
+  todo?: TodoResponse; // create/update 성공 시, VERSION_CONFLICT면 서버 사본
+  error?: {
+    code: BatchTodoErrorCode;
+    message: string;
+    retryable: boolean; // true면 같은 작업을 다시 보내도 됨
+  };
+}
+
+export interface BatchTodosResponse {
+  results: BatchTodoResult[];
+  successCount: number;
+  failedCount: number;
+}
+
+// 변경 조회(증분 동기화) 관련 API 타입
+export interface TodoChangesRequest {
+  since?: string; // 이전 응답의 token (없으면 전체 목록부터)
+  limit?: number;
+  projectId?: string; // 공유 프로젝트 Todo의 변경 (생략하면 개인 Todo)
+}
+
+export interface DeletedTodo {
+  id: string;
+  deletedAt: string;
+}
+
+export interface TodoChangesResponse {
+  todos: TodoResponse[]; // 생성/수정된 Todo (변경 순서)
+  deleted: DeletedTodo[]; // 삭제 묘비 (같은 페이지의 todos보다 먼저 적용)
+  token: string; // 다음 요청의 since
+  hasMore: boolean; // true면 token으로 바로 이어서 조회
+  fullSync: boolean; // since 없이 시작한 전체 목록 조회의 페이지인지 여부
+}
+
+// 실시간 업데이트(WebSocket) 메시지 타입
+export interface RealtimeTodoChangesMessage {
+  type: 'todo_changes';
+  todos: TodoResponse[]; // 생성/수정된 Todo
+  deleted: DeletedTodo[]; // 삭제된 Todo
+}
+
+export type RealtimeMessage = RealtimeTodoChangesMessage;
+
 // 인증 관련 API 타입
 export interface LoginRequest {
-  username: string;
+  email: string;
   password: string;
 }
 
 export interface LoginResponse {
   accessToken: string;
   refreshToken: string;
+  expiresIn: number; // 액세스 토큰 만료까지 남은 시간 (초)
   user: {
     id: string;
-    username: string;
+    email: string;
+    name: string;
+    createdAt: string;
   };
 }
 
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  name: string;
+}
+
+// 회원가입 응답은 로그인 응답과 동일 (가입 후 자동 로그인)
+export type RegisterResponse = LoginResponse;
+
 export interface RefreshRequest {
   refreshToken: string;
 }
 
 export interface RefreshResponse {
   accessToken: string;
+  refreshToken: string; // 회전된 새 리프레시 토큰 (기존 토큰은 재사용 불가)
+  expiresIn: number;
+}
+
+export interface LogoutResponse {
+  revokedSessions: number;
+}
+
+// 비밀번호 재설정/변경 관련 API 타입
+export interface PasswordResetRequest {
+  email: string;
 }
 
+export interface PasswordResetConfirmRequest {
+  email: string;
+  code: string;
+  newPassword: string;
+}
+
+export interface PasswordChangeRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+// 비밀번호 변경 후 기존 세션은 폐기되고 새 토큰이 발급됨
+export type PasswordChangeResponse = LoginResponse;
+
 // 게스트 인증 관련 API 타입
 export interface GuestAuthRequest {
   sessionId?: string; // 기존 세션 재사용 시
@@ -11,3 +11,12 @@ export const Priority = {
   MEDIUM: 'medium' as const,
   HIGH: 'high' as const,
 } as const;
+
+// 프로젝트 멤버 역할 (viewer < editor < owner)
+export type ProjectRole = 'owner' | 'editor' | 'viewer';
+
+export const ProjectRole = {
+  OWNER: 'owner' as const,
+  EDITOR: 'editor' as const,
+  VIEWER: 'viewer' as const,
+} as const;
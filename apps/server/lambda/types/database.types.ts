@@ -5,7 +5,7 @@
  * DynamoDB 작업을 위한 유틸리티 타입들을 정의합니다.
  */
 
-import { Priority } from './constants';
+import { Priority, ProjectRole } from './constants';
 
 // ==========================================
 // DynamoDB 기본 아이템 타입
@@ -45,8 +45,8 @@ export interface DynamoItemWithTTL extends DynamoItemWithGSI {
  * DynamoDB에 저장되는 Todo 아이템
  */
 export interface DynamoTodoItem extends DynamoItemWithTTL {
-  // 기본 키 (User 기반)
-  PK: string; // USER#<userId>
+  // 기본 키 (개인 Todo는 User 기반, 프로젝트 Todo는 Project 기반 - 아래 GSI 키도 같은 접두사 사용)
+  PK: string; // USER#<userId> | PROJECT#<projectId>
   SK: string; // TODO#<todoId>
   EntityType: 'TODO';
 
@@ -58,25 +58,210 @@ export interface DynamoTodoItem extends DynamoItemWithTTL {
   GSI2PK: string; // USER#<userId>
   GSI2SK: string; // TITLE#<title.toLowerCase()>#<createdAt>
 
+  // GSI3: 마감일 조회 (마감일이 있을 때만)
+  GSI3PK?: string; // USER#<userId>
+  GSI3SK?: string; // DUE#<dueDate>
+
+  // GSI4: 변경 조회 (이 필드가 없는 기존 아이템은 다음 수정 때 인덱싱)
+  GSI4PK?: string; // USER#<userId>
+  GSI4SK?: string; // CHANGE#<updatedAt>#<todoId>
+
+  // GSI5: 담당자 조회 (담당자가 있을 때만)
+  GSI5PK?: string; // USER#<assigneeId>#ASSIGNED
+  GSI5SK?: string; // TODO#<createdAt>#<todoId>
+
   // Todo 데이터
   id: string;
   title: string;
   description?: string;
   completed: boolean;
   priority: Priority;
-  dueDate?: string;
+  dueDate?: string | null; // 마감일 삭제 시 null
+  tags?: string[];
   createdAt: string;
   updatedAt: string;
 
   // 사용자 관련
-  userId: string;
+  userId: string; // 프로젝트 Todo면 만든 사용자
   isGuest: boolean;
   sessionId?: string;
 
+  // 공유 프로젝트 (있으면 프로젝트 파티션에 저장되고 멤버 역할로 권한 검사)
+  projectId?: string;
+
+  // 담당자 (프로젝트 멤버만 가능, 담당 해제 시 null)
+  assigneeId?: string | null;
+  assignmentHistory?: TodoAssignmentRecord[]; // 오래된 순, 최근 ASSIGNMENT_HISTORY_LIMIT개만 보관
+
+  // 반복 일정 (RRULE 부분 집합) - 완료 시 다음 회차 생성
+  recurrence?: string | null; // 반복 해제 시 null
+  timeZone?: string; // 반복 일정의 날짜/요일 계산 기준 시간대 (IANA)
+  nextOccurrenceId?: string; // 이미 생성된 다음 회차 ID (중복 생성 방지)
+
+  // 수동 정렬 순서 (분수 인덱스, 없으면 생성일시 기본 순서)
+  rank?: string;
+
+  // 체크리스트 진행률 (항목 쓰기와 같은 트랜잭션에서 갱신)
+  checklistTotal?: number;
+  checklistCompleted?: number;
+
+  // 낙관적 동시성 제어 (수정할 때마다 1 증가, 이 필드가 없는 기존 아이템은 1로 취급)
+  version?: number;
+
   // TTL (게스트 사용자만)
   ttl?: number;
 }
 
+/**
+ * 담당자 변경 기록
+ */
+export interface TodoAssignmentRecord {
+  assigneeId: string | null; // null이면 담당 해제
+  assignedBy: string;
+  assignedAt: string;
+}
+
+/**
+ * 체크리스트 항목 (부모 Todo와 같은 파티션, SK가 부모 Todo SK로 시작)
+ */
+export interface DynamoChecklistItem extends DynamoItemWithTTL {
+  // 기본 키
+  PK: string; // USER#<userId>
+  SK: string; // TODO#<todoId>#ITEM#<itemId>
+  EntityType: 'CHECKLIST_ITEM';
+
+  // 항목 데이터
+  id: string;
+  todoId: string;
+  userId: string;
+  title: string;
+  completed: boolean;
+  position: number; // 표시 순서 (0부터)
+  createdAt: string;
+  updatedAt: string;
+
+  // TTL (게스트 Todo와 동일하게 만료)
+  ttl?: number;
+}
+
+/**
+ * Todo 활동 기록 (부모 Todo와 같은 파티션, 한 번 쓰면 바꾸지 않음)
+ * Todo를 삭제해도 남겨서 삭제한 사용자와 시각을 조회할 수 있음
+ */
+export interface DynamoTodoActivityItem extends DynamoItemWithTTL {
+  // 기본 키
+  PK: string; // USER#<userId> | PROJECT#<projectId>
+  SK: string; // TODO#<todoId>#EVT#<occurredAt>#<eventId>
+  EntityType: 'TODO_ACTIVITY';
+
+  // 활동 데이터
+  id: string;
+  todoId: string;
+  projectId?: string;
+  action: TodoActivityAction;
+  actorId: string;
+  actorType: 'authenticated' | 'guest';
+  changes: TodoFieldChange[]; // 생성은 설정한 필드, 수정은 실제로 바뀐 필드, 삭제/복원/영구 삭제는 빈 배열
+  correlationId?: string; // 요청 추적용 (utils/correlation)
+  occurredAt: string;
+
+  // TTL (게스트 Todo와 동일하게 만료)
+  ttl?: number;
+}
+
+/**
+ * Todo 활동 종류
+ */
+export type TodoActivityAction = 'CREATED' | 'UPDATED' | 'DELETED' | 'RESTORED' | 'PURGED';
+
+/**
+ * 활동 기록의 필드 변경 (값이 없으면 null)
+ */
+export interface TodoFieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+/**
+ * 태그 인접 아이템 (Todo 1개의 태그 1개 = 아이템 1개)
+ * 태그별 Todo 조회와 태그 사용 횟수 집계에 사용
+ */
+export interface DynamoTodoTagItem extends DynamoItemWithTTL {
+  // 기본 키
+  PK: string; // USER#<userId>
+  SK: string; // TAG#<tag.toLowerCase()>#TODO#<todoId>
+  EntityType: 'TODO_TAG';
+
+  // 태그 데이터
+  tag: string; // 사용자가 입력한 표기 그대로
+  todoId: string;
+  userId: string;
+  sessionId?: string; // 게스트 세션별 집계용
+  createdAt: string;
+
+  // TTL (게스트 Todo와 동일하게 만료)
+  ttl?: number;
+}
+
+/**
+ * 삭제된 Todo 묘비 - 변경 조회에서 삭제를 알리기 위해 보관 (TTL 30일)
+ */
+export interface DynamoTodoTombstoneItem extends DynamoItemWithTTL {
+  // 기본 키
+  PK: string; // USER#<userId>
+  SK: string; // TOMBSTONE#<todoId>
+  EntityType: 'TODO_TOMBSTONE';
+
+  // GSI4: 변경 조회
+  GSI4PK: string; // USER#<userId>
+  GSI4SK: string; // CHANGE#<deletedAt>#<todoId>
+
+  // 묘비 데이터
+  todoId: string;
+  userId: string;
+  deletedAt: string;
+
+  // TTL (보관 기간이 지나면 자동 삭제)
+  ttl: number;
+}
+
+/**
+ * 휴지통으로 옮긴 Todo - 삭제 직전 Todo와 체크리스트를 보관해 복원에 사용 (TTL 30일)
+ * 원래 Todo 아이템은 삭제되므로 목록/인덱스 조회에는 나타나지 않음
+ */
+export interface DynamoTodoTrashItem extends DynamoItemWithTTL {
+  // 기본 키
+  PK: string; // USER#<userId> | PROJECT#<projectId>
+  SK: string; // TRASH#<todoId>
+  EntityType: 'TODO_TRASH';
+
+  // 휴지통 데이터
+  todoId: string;
+  todo: DynamoTodoItem; // 삭제 직전 Todo (키 포함)
+  checklist: DynamoChecklistItem[]; // 삭제 직전 체크리스트 항목
+  deletedAt: string;
+  deletedBy: string;
+
+  // TTL (보관 기간이 지나면 영구 삭제)
+  ttl: number;
+}
+
+/**
+ * 태그별 사용 횟수
+ */
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+/**
+ * 제목 검색 방식
+ * - prefix: GSI2 제목 정렬 키의 접두사 조회
+ * - substring: 사용자 제목 인덱스를 순회하며 부분 문자열 일치 (접두사 결과가 없을 때의 대체 경로)
+ */
+export type TitleSearchMatch = 'prefix' | 'substring';
+
 /**
  * DynamoDB에 저장되는 User 프로필 아이템
  */
@@ -92,6 +277,25 @@ export interface DynamoUserItem extends DynamoBaseItem {
   name: string;
   createdAt: string;
   updatedAt: string;
+
+  // 인증 정보
+  passwordHash: string; // scrypt$<salt>$<hash>
+  lastLoginAt?: string;
+}
+
+/**
+ * 이메일로 사용자를 찾기 위한 조회 아이템
+ */
+export interface DynamoUserEmailItem extends DynamoBaseItem {
+  // 기본 키
+  PK: string; // EMAIL#<email>
+  SK: string; // USER
+  EntityType: 'USER_EMAIL';
+
+  // 조회 데이터
+  email: string;
+  userId: string;
+  createdAt: string;
 }
 
 /**
@@ -112,6 +316,137 @@ export interface DynamoGuestSessionItem extends DynamoItemWithTTL {
   ttl: number;
 }
 
+/**
+ * 리프레시 토큰 세션 아이템 (토큰 1개 = 아이템 1개, 1회용)
+ */
+export interface DynamoRefreshSessionItem extends DynamoItemWithTTL {
+  // 기본 키
+  PK: string; // USER#<userId>
+  SK: string; // REFRESH#<familyId>#<tokenId>
+  EntityType: 'REFRESH_SESSION';
+
+  // 세션 데이터
+  userId: string;
+  familyId: string;
+  tokenId: string;
+  status: 'active' | 'rotated';
+  createdAt: string;
+  expiresAt: string;
+  rotatedAt?: string;
+  replacedBy?: string; // 회전 후 발급된 토큰 ID
+
+  // TTL (리프레시 토큰 만료 시 자동 삭제)
+  ttl: number;
+}
+
+/**
+ * 비밀번호 재설정 코드 아이템 (코드 1개 = 아이템 1개, 1회용)
+ */
+export interface DynamoPasswordResetCodeItem extends DynamoItemWithTTL {
+  // 기본 키
+  PK: string; // USER#<userId>
+  SK: string; // PWRESET#<codeHash>
+  EntityType: 'PASSWORD_RESET_CODE';
+
+  // 코드 데이터 (원문 코드는 저장하지 않음)
+  userId: string;
+  codeHash: string;
+  createdAt: string;
+  expiresAt: string;
+
+  // TTL (코드 만료 시 자동 삭제)
+  ttl: number;
+}
+
+/**
+ * 비밀번호 재설정 확인 실패 횟수 아이템 (사용자당 1개, 첫 실패부터 잠금 기간 동안 유지)
+ */
+export interface DynamoPasswordResetAttemptsItem extends DynamoItemWithTTL {
+  // 기본 키
+  PK: string; // USER#<userId>
+  SK: string; // PWRESET_ATTEMPTS
+  EntityType: 'PASSWORD_RESET_ATTEMPTS';
+
+  userId: string;
+  attempts: number;
+
+  // TTL (잠금 기간이 끝나면 자동 삭제)
+  ttl: number;
+}
+
+/**
+ * WebSocket 연결 아이템 (사용자 파티션 하위, 변경 이벤트를 보낼 연결 목록)
+ */
+export interface DynamoConnectionItem extends DynamoItemWithTTL {
+  // 기본 키
+  PK: string; // USER#<userId>
+  SK: string; // CONNECTION#<connectionId>
+  EntityType: 'CONNECTION';
+
+  // 연결 데이터
+  userId: string;
+  connectionId: string;
+  connectedAt: string;
+
+  // TTL (disconnect가 누락된 연결 자동 삭제)
+  ttl: number;
+}
+
+/**
+ * WebSocket 연결 조회 아이템 (연결 해제 이벤트에는 연결 ID만 있으므로 사용자를 찾기 위해 사용)
+ */
+export interface DynamoConnectionLookupItem extends DynamoItemWithTTL {
+  // 기본 키
+  PK: string; // CONNECTION#<connectionId>
+  SK: string; // METADATA
+  EntityType: 'CONNECTION_LOOKUP';
+
+  userId: string;
+  connectionId: string;
+
+  ttl: number;
+}
+
+/**
+ * 공유 프로젝트(목록) 아이템
+ */
+export interface DynamoProjectItem extends DynamoBaseItem {
+  // 기본 키
+  PK: string; // PROJECT#<projectId>
+  SK: string; // METADATA
+  EntityType: 'PROJECT';
+
+  // 프로젝트 데이터
+  id: string;
+  name: string;
+  ownerId: string; // 만든 사용자
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 프로젝트 멤버 아이템 (프로젝트 파티션 하위, GSI1로 사용자의 프로젝트 목록 조회)
+ */
+export interface DynamoProjectMemberItem extends DynamoItemWithGSI {
+  // 기본 키
+  PK: string; // PROJECT#<projectId>
+  SK: string; // MEMBER#<userId>
+  EntityType: 'PROJECT_MEMBER';
+
+  // GSI1: 사용자의 프로젝트 목록
+  GSI1PK: string; // USER#<userId>#PROJECTS
+  GSI1SK: string; // PROJECT#<projectId>
+
+  // 멤버 데이터
+  projectId: string;
+  projectName: string; // 목록 조회에서 프로젝트 아이템을 다시 읽지 않도록 복사
+  userId: string;
+  email?: string; // 담당자 표시용 (이 필드가 없는 기존 멤버는 사용자 ID로 표시)
+  role: ProjectRole;
+  addedAt: string;
+  addedBy: string;
+}
+
 // ==========================================
 // 쿼리 옵션 및 결과 타입
 // ==========================================
@@ -154,6 +489,7 @@ export interface DynamoQueryResult<T> {
   lastEvaluatedKey?: DynamoKey;
   count: number;
   scannedCount: number;
+  cursor?: string; // 다음 페이지 조회용 (LastEvaluatedKey JSON)
 }
 
 /**
@@ -194,6 +530,42 @@ export class ItemNotFoundError extends DynamoDBError {
   }
 }
 
+/**
+ * 아이템 중복 에러 (조건부 쓰기 실패)
+ */
+export class DuplicateItemError extends DynamoDBError {
+  constructor(entityType: string, key: string) {
+    super(`${entityType} with key ${key} already exists`, 'DUPLICATE_ITEM', 409);
+  }
+}
+
+/**
+ * 조건부 쓰기 충돌 에러 (읽은 뒤 다른 요청이 먼저 변경한 경우)
+ */
+export class ConcurrentModificationError extends DynamoDBError {
+  constructor(entityType: string, key: string) {
+    super(`${entityType} with key ${key} was modified concurrently`, 'CONCURRENT_MODIFICATION', 409);
+  }
+}
+
+/**
+ * 버전 충돌 에러 (요청의 기준 버전과 저장된 버전이 다른 경우, 병합용 서버 사본 포함)
+ */
+export class VersionConflictError extends DynamoDBError {
+  constructor(
+    entityType: string,
+    key: string,
+    public readonly expectedVersion: number,
+    public readonly current: DynamoTodoItem
+  ) {
+    super(
+      `${entityType} with key ${key} is at version ${current.version ?? 1}, expected ${expectedVersion}`,
+      'VERSION_CONFLICT',
+      409
+    );
+  }
+}
+
 // ==========================================
 // 레거시 호환성을 위한 별명들
 // ==========================================
@@ -0,0 +1,88 @@
+import {
+  ApiGatewayManagementApiClient,
+  GoneException,
+  PostToConnectionCommand,
+} from '@aws-sdk/client-apigatewaymanagementapi';
+import { RealtimeMessage } from '../types/api.types';
+import { logger } from './logger';
+
+/**
+ * WebSocket 연결 알림 유틸리티
+ *
+ * 기능:
+ * - 연결된 기기에 메시지를 보내는 ConnectionNotifier 인터페이스
+ * - API Gateway WebSocket 연결 발송기와 로컬/테스트용 메모리 발송기
+ *
+ * 발송기 선택: WEBSOCKET_CALLBACK_URL 환경 변수가 있으면 API Gateway, 없으면 메모리
+ */
+
+export interface ConnectionNotifier {
+  /**
+   * 연결에 메시지 전송 (이미 끊긴 연결이면 false)
+   */
+  send(connectionId: string, message: RealtimeMessage): Promise<boolean>;
+}
+
+/**
+ * API Gateway 발송기 - @connections API로 메시지 전송
+ */
+export class ApiGatewayConnectionNotifier implements ConnectionNotifier {
+  private readonly client: ApiGatewayManagementApiClient;
+
+  constructor(callbackUrl: string) {
+    this.client = new ApiGatewayManagementApiClient({ endpoint: callbackUrl });
+  }
+
+  async send(connectionId: string, message: RealtimeMessage): Promise<boolean> {
+    try {
+      await this.client.send(
+        new PostToConnectionCommand({
+          ConnectionId: connectionId,
+          Data: Buffer.from(JSON.stringify(message), 'utf8'),
+        })
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof GoneException) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * 메모리 발송기 - 보낸 메시지를 연결별로 보관 (로컬 개발/테스트용)
+ */
+export class InMemoryConnectionNotifier implements ConnectionNotifier {
+  readonly sent = new Map<string, RealtimeMessage[]>();
+  private readonly goneConnections = new Set<string>();
+
+  async send(connectionId: string, message: RealtimeMessage): Promise<boolean> {
+    if (this.goneConnections.has(connectionId)) {
+      return false;
+    }
+
+    this.sent.set(connectionId, [...(this.sent.get(connectionId) || []), message]);
+    logger.info('Realtime message sent (in-memory)', { connectionId, type: message.type });
+    return true;
+  }
+
+  /**
+   * 끊긴 연결로 표시 (이후 전송은 false)
+   */
+  disconnect(connectionId: string): void {
+    this.goneConnections.add(connectionId);
+  }
+}
+
+/**
+ * 환경 설정에 맞는 ConnectionNotifier 생성
+ */
+export function createConnectionNotifier(): ConnectionNotifier {
+  const callbackUrl = process.env.WEBSOCKET_CALLBACK_URL;
+  if (callbackUrl) {
+    return new ApiGatewayConnectionNotifier(callbackUrl);
+  }
+  return new InMemoryConnectionNotifier();
+}
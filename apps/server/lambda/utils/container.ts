@@ -3,8 +3,48 @@
  * Repository, Service, Logger 등의 인스턴스를 관리
  */
 
-import { TodoRepository, TodoService, ITodoService, Logger } from '../services/todo.service';
+import {
+  TodoRepository,
+  TodoActivityRepository,
+  TodoService,
+  ITodoService,
+  Logger,
+} from '../services/todo.service';
 import { createTodoRepository } from '../repositories/todo-repository';
+import { createTodoActivityRepository } from '../repositories/activity-repository';
+import {
+  ChecklistRepository,
+  ChecklistService,
+  IChecklistService,
+} from '../services/checklist.service';
+import { createChecklistRepository } from '../repositories/checklist-repository';
+import { ProjectRepository, ProjectService, IProjectService } from '../services/project.service';
+import { createProjectRepository } from '../repositories/project-repository';
+import { TodoTransferService, ITodoTransferService } from '../services/todo-transfer.service';
+import { TodoBatchService, ITodoBatchService } from '../services/todo-batch.service';
+import { BatchOperationService } from '../services/batch-operations';
+import { TodoSyncService, ITodoSyncService } from '../services/todo-sync.service';
+import {
+  UserRepository,
+  RefreshSessionRepository,
+  PasswordResetCodeRepository,
+  AuthService,
+  IAuthService,
+} from '../services/auth.service';
+import { createUserRepository } from '../repositories/user-repository';
+import { createRefreshSessionRepository } from '../repositories/refresh-session-repository';
+import { createPasswordResetCodeRepository } from '../repositories/password-reset-repository';
+import {
+  ConnectionRepository,
+  RealtimeService,
+  IRealtimeService,
+} from '../services/realtime.service';
+import { createConnectionRepository } from '../repositories/connection-repository';
+import { tokenIssuer } from './token-issuer';
+import { configManager } from './config-manager';
+import { DEFAULT_PASSWORD_POLICY, PasswordPolicy } from './password-policy';
+import { MailSender, createMailSender } from './mail-sender';
+import { ConnectionNotifier, createConnectionNotifier } from './connection-notifier';
 import { logger } from './logger';
 
 /**
@@ -31,6 +71,22 @@ class Container {
   private static instance: Container;
   private _todoRepository?: TodoRepository;
   private _todoService?: ITodoService;
+  private _todoActivityRepository?: TodoActivityRepository;
+  private _checklistRepository?: ChecklistRepository;
+  private _checklistService?: IChecklistService;
+  private _projectRepository?: ProjectRepository;
+  private _projectService?: IProjectService;
+  private _todoTransferService?: ITodoTransferService;
+  private _todoBatchService?: ITodoBatchService;
+  private _todoSyncService?: ITodoSyncService;
+  private _userRepository?: UserRepository;
+  private _refreshSessionRepository?: RefreshSessionRepository;
+  private _passwordResetCodeRepository?: PasswordResetCodeRepository;
+  private _mailSender?: MailSender;
+  private _authService?: IAuthService;
+  private _connectionRepository?: ConnectionRepository;
+  private _connectionNotifier?: ConnectionNotifier;
+  private _realtimeService?: IRealtimeService;
   private _logger?: Logger;
 
   private constructor() {
@@ -69,11 +125,208 @@ class Container {
    */
   get todoService(): ITodoService {
     if (!this._todoService) {
-      this._todoService = new TodoService(this.todoRepository, this.logger);
+      this._todoService = new TodoService(
+        this.todoRepository,
+        this.logger,
+        this.projectRepository,
+        this.todoActivityRepository
+      );
     }
     return this._todoService;
   }
 
+  /**
+   * TodoActivityRepository 인스턴스 반환 (지연 초기화)
+   */
+  get todoActivityRepository(): TodoActivityRepository {
+    if (!this._todoActivityRepository) {
+      this._todoActivityRepository = createTodoActivityRepository();
+    }
+    return this._todoActivityRepository;
+  }
+
+  /**
+   * ChecklistRepository 인스턴스 반환 (지연 초기화)
+   */
+  get checklistRepository(): ChecklistRepository {
+    if (!this._checklistRepository) {
+      this._checklistRepository = createChecklistRepository();
+    }
+    return this._checklistRepository;
+  }
+
+  /**
+   * ChecklistService 인스턴스 반환 (지연 초기화)
+   */
+  get checklistService(): IChecklistService {
+    if (!this._checklistService) {
+      this._checklistService = new ChecklistService(
+        this.checklistRepository,
+        this.todoService,
+        this.logger
+      );
+    }
+    return this._checklistService;
+  }
+
+  /**
+   * ProjectRepository 인스턴스 반환 (지연 초기화)
+   */
+  get projectRepository(): ProjectRepository {
+    if (!this._projectRepository) {
+      this._projectRepository = createProjectRepository();
+    }
+    return this._projectRepository;
+  }
+
+  /**
+   * ProjectService 인스턴스 반환 (지연 초기화)
+   */
+  get projectService(): IProjectService {
+    if (!this._projectService) {
+      this._projectService = new ProjectService(
+        this.projectRepository,
+        this.userRepository,
+        this.logger
+      );
+    }
+    return this._projectService;
+  }
+
+  /**
+   * TodoTransferService 인스턴스 반환 (지연 초기화)
+   */
+  get todoTransferService(): ITodoTransferService {
+    if (!this._todoTransferService) {
+      this._todoTransferService = new TodoTransferService(this.todoService, this.logger);
+    }
+    return this._todoTransferService;
+  }
+
+  /**
+   * TodoBatchService 인스턴스 반환 (지연 초기화)
+   */
+  get todoBatchService(): ITodoBatchService {
+    if (!this._todoBatchService) {
+      this._todoBatchService = new TodoBatchService(
+        this.todoService,
+        this.todoRepository,
+        new BatchOperationService(),
+        this.logger
+      );
+    }
+    return this._todoBatchService;
+  }
+
+  /**
+   * TodoSyncService 인스턴스 반환 (지연 초기화)
+   */
+  get todoSyncService(): ITodoSyncService {
+    if (!this._todoSyncService) {
+      this._todoSyncService = new TodoSyncService(
+        this.todoService,
+        this.todoRepository,
+        this.logger
+      );
+    }
+    return this._todoSyncService;
+  }
+
+  /**
+   * UserRepository 인스턴스 반환 (지연 초기화)
+   */
+  get userRepository(): UserRepository {
+    if (!this._userRepository) {
+      this._userRepository = createUserRepository();
+    }
+    return this._userRepository;
+  }
+
+  /**
+   * RefreshSessionRepository 인스턴스 반환 (지연 초기화)
+   */
+  get refreshSessionRepository(): RefreshSessionRepository {
+    if (!this._refreshSessionRepository) {
+      this._refreshSessionRepository = createRefreshSessionRepository();
+    }
+    return this._refreshSessionRepository;
+  }
+
+  /**
+   * PasswordResetCodeRepository 인스턴스 반환 (지연 초기화)
+   */
+  get passwordResetCodeRepository(): PasswordResetCodeRepository {
+    if (!this._passwordResetCodeRepository) {
+      this._passwordResetCodeRepository = createPasswordResetCodeRepository();
+    }
+    return this._passwordResetCodeRepository;
+  }
+
+  /**
+   * MailSender 인스턴스 반환 (지연 초기화)
+   */
+  get mailSender(): MailSender {
+    if (!this._mailSender) {
+      this._mailSender = createMailSender();
+    }
+    return this._mailSender;
+  }
+
+  /**
+   * AuthService 인스턴스 반환 (지연 초기화)
+   */
+  get authService(): IAuthService {
+    if (!this._authService) {
+      this._authService = new AuthService(
+        this.userRepository,
+        this.refreshSessionRepository,
+        this.passwordResetCodeRepository,
+        this.mailSender,
+        tokenIssuer,
+        this.logger,
+        async () =>
+          (await configManager.getConfigValue<PasswordPolicy>('security.passwordPolicy')) ||
+          DEFAULT_PASSWORD_POLICY
+      );
+    }
+    return this._authService;
+  }
+
+  /**
+   * ConnectionRepository 인스턴스 반환 (지연 초기화)
+   */
+  get connectionRepository(): ConnectionRepository {
+    if (!this._connectionRepository) {
+      this._connectionRepository = createConnectionRepository();
+    }
+    return this._connectionRepository;
+  }
+
+  /**
+   * ConnectionNotifier 인스턴스 반환 (지연 초기화)
+   */
+  get connectionNotifier(): ConnectionNotifier {
+    if (!this._connectionNotifier) {
+      this._connectionNotifier = createConnectionNotifier();
+    }
+    return this._connectionNotifier;
+  }
+
+  /**
+   * RealtimeService 인스턴스 반환 (지연 초기화)
+   */
+  get realtimeService(): IRealtimeService {
+    if (!this._realtimeService) {
+      this._realtimeService = new RealtimeService(
+        this.connectionRepository,
+        this.connectionNotifier,
+        this.logger,
+        this.projectRepository
+      );
+    }
+    return this._realtimeService;
+  }
+
   /**
    * 테스트용 모킹을 위한 인스턴스 재설정
    * @param overrides 재정의할 인스턴스들
@@ -81,6 +334,22 @@ class Container {
   setInstances(overrides: {
     todoRepository?: TodoRepository;
     todoService?: ITodoService;
+    todoActivityRepository?: TodoActivityRepository;
+    checklistRepository?: ChecklistRepository;
+    checklistService?: IChecklistService;
+    projectRepository?: ProjectRepository;
+    projectService?: IProjectService;
+    todoTransferService?: ITodoTransferService;
+    todoBatchService?: ITodoBatchService;
+    todoSyncService?: ITodoSyncService;
+    userRepository?: UserRepository;
+    refreshSessionRepository?: RefreshSessionRepository;
+    passwordResetCodeRepository?: PasswordResetCodeRepository;
+    mailSender?: MailSender;
+    authService?: IAuthService;
+    connectionRepository?: ConnectionRepository;
+    connectionNotifier?: ConnectionNotifier;
+    realtimeService?: IRealtimeService;
     logger?: Logger;
   }): void {
     if (overrides.todoRepository) {
@@ -89,6 +358,54 @@ class Container {
     if (overrides.todoService) {
       this._todoService = overrides.todoService;
     }
+    if (overrides.todoActivityRepository) {
+      this._todoActivityRepository = overrides.todoActivityRepository;
+    }
+    if (overrides.checklistRepository) {
+      this._checklistRepository = overrides.checklistRepository;
+    }
+    if (overrides.checklistService) {
+      this._checklistService = overrides.checklistService;
+    }
+    if (overrides.projectRepository) {
+      this._projectRepository = overrides.projectRepository;
+    }
+    if (overrides.projectService) {
+      this._projectService = overrides.projectService;
+    }
+    if (overrides.todoTransferService) {
+      this._todoTransferService = overrides.todoTransferService;
+    }
+    if (overrides.todoBatchService) {
+      this._todoBatchService = overrides.todoBatchService;
+    }
+    if (overrides.todoSyncService) {
+      this._todoSyncService = overrides.todoSyncService;
+    }
+    if (overrides.userRepository) {
+      this._userRepository = overrides.userRepository;
+    }
+    if (overrides.refreshSessionRepository) {
+      this._refreshSessionRepository = overrides.refreshSessionRepository;
+    }
+    if (overrides.passwordResetCodeRepository) {
+      this._passwordResetCodeRepository = overrides.passwordResetCodeRepository;
+    }
+    if (overrides.mailSender) {
+      this._mailSender = overrides.mailSender;
+    }
+    if (overrides.authService) {
+      this._authService = overrides.authService;
+    }
+    if (overrides.connectionRepository) {
+      this._connectionRepository = overrides.connectionRepository;
+    }
+    if (overrides.connectionNotifier) {
+      this._connectionNotifier = overrides.connectionNotifier;
+    }
+    if (overrides.realtimeService) {
+      this._realtimeService = overrides.realtimeService;
+    }
     if (overrides.logger) {
       this._logger = overrides.logger;
     }
@@ -100,6 +417,22 @@ class Container {
   reset(): void {
     this._todoRepository = undefined;
     this._todoService = undefined;
+    this._todoActivityRepository = undefined;
+    this._checklistRepository = undefined;
+    this._checklistService = undefined;
+    this._projectRepository = undefined;
+    this._projectService = undefined;
+    this._todoTransferService = undefined;
+    this._todoBatchService = undefined;
+    this._todoSyncService = undefined;
+    this._userRepository = undefined;
+    this._refreshSessionRepository = undefined;
+    this._passwordResetCodeRepository = undefined;
+    this._mailSender = undefined;
+    this._authService = undefined;
+    this._connectionRepository = undefined;
+    this._connectionNotifier = undefined;
+    this._realtimeService = undefined;
     this._logger = undefined;
   }
 }
@@ -122,6 +455,34 @@ export function getTodoRepository(): TodoRepository {
   return getContainer().todoRepository;
 }
 
+export function getChecklistService(): IChecklistService {
+  return getContainer().checklistService;
+}
+
+export function getProjectService(): IProjectService {
+  return getContainer().projectService;
+}
+
+export function getTodoTransferService(): ITodoTransferService {
+  return getContainer().todoTransferService;
+}
+
+export function getTodoBatchService(): ITodoBatchService {
+  return getContainer().todoBatchService;
+}
+
+export function getTodoSyncService(): ITodoSyncService {
+  return getContainer().todoSyncService;
+}
+
+export function getAuthService(): IAuthService {
+  return getContainer().authService;
+}
+
+export function getRealtimeService(): IRealtimeService {
+  return getContainer().realtimeService;
+}
+
 export function getLogger(): Logger {
   return getContainer().logger;
 }
@@ -37,11 +37,14 @@ class CorrelationIdManager {
       operation?: string;
       source?: string;
       parentCorrelationId?: string;
+      correlationId?: string; // 이미 정해진 상관 ID를 그대로 사용 (Lambda wrapper가 헤더에서 읽은 ID 등)
     } = {}
   ): CorrelationContext {
-    const correlationId = options.parentCorrelationId
-      ? `${options.parentCorrelationId}.${randomUUID().substring(0, 8)}`
-      : randomUUID();
+    const correlationId =
+      options.correlationId ??
+      (options.parentCorrelationId
+        ? `${options.parentCorrelationId}.${randomUUID().substring(0, 8)}`
+        : randomUUID());
 
     const context: CorrelationContext = {
       correlationId,
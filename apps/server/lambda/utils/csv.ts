@@ -0,0 +1,95 @@
+/**
+ * CSV 직렬화/파싱 유틸리티 (RFC 4180)
+ * - 쉼표, 큰따옴표, 줄바꿈이 들어간 값은 큰따옴표로 감싸고 내부 큰따옴표는 두 번 씀
+ * - 스프레드시트 수식으로 해석될 수 있는 값(=, +, -, @로 시작)은 앞에 작은따옴표를 붙여 내보내고,
+ *   파싱할 때 다시 제거함
+ */
+
+// 스프레드시트에서 수식으로 해석되는 시작 문자
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * 커스텀 에러 클래스 - CSV 형식 에러
+ */
+export class CsvParseError extends Error {
+  constructor(
+    message: string,
+    public line: number
+  ) {
+    super(message);
+    this.name = 'CsvParseError';
+  }
+}
+
+/**
+ * 행 목록을 CSV 문자열로 변환 (줄 구분은 CRLF)
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(formatField).join(',')).join('\r\n');
+}
+
+/**
+ * CSV 문자열을 행 목록으로 파싱 (BOM과 마지막 빈 줄은 무시)
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(parseField(field));
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(parseField(field));
+      rows.push(row);
+      row = [];
+      field = '';
+      line++;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new CsvParseError('닫히지 않은 큰따옴표가 있습니다', line);
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(parseField(field));
+    rows.push(row);
+  }
+
+  // 빈 줄 제외
+  return rows.filter(cells => cells.length > 1 || cells[0] !== '');
+}
+
+function formatField(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function parseField(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+}
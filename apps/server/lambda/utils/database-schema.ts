@@ -12,22 +12,69 @@
 export const KEY_PATTERNS = {
   // 사용자 관련
   USER_PROFILE: 'USER#',
+  USER_EMAIL: 'EMAIL#',
 
   // TODO 관련
   TODO: 'TODO#',
 
+  // 삭제된 TODO 묘비 (USER 파티션 하위, 변경 조회에서 삭제를 알리기 위해 일정 기간 보관)
+  TODO_TOMBSTONE: 'TOMBSTONE#',
+
+  // 휴지통으로 옮긴 TODO (USER 파티션 하위, 복원할 수 있도록 삭제 직전 상태를 보관)
+  TODO_TRASH: 'TRASH#',
+
+  // 체크리스트 항목 (TODO#<todoId>#ITEM#<itemId>, 부모 Todo 바로 뒤에 정렬)
+  CHECKLIST_ITEM: '#ITEM#',
+
+  // Todo 활동 기록 (TODO#<todoId>#EVT#<occurredAt>#<eventId>, Todo를 삭제해도 보관)
+  TODO_ACTIVITY: '#EVT#',
+
+  // 태그 인접 아이템 (USER 파티션 하위, TAG#<tag>#TODO#<todoId>)
+  TODO_TAG: 'TAG#',
+
   // 세션 관련 (게스트)
   SESSION: 'SESSION#',
 
+  // 리프레시 토큰 세션 (USER 파티션 하위)
+  REFRESH_SESSION: 'REFRESH#',
+
+  // 비밀번호 재설정 코드 (USER 파티션 하위)
+  PASSWORD_RESET_CODE: 'PWRESET#',
+
+  // 비밀번호 재설정 확인 실패 횟수 (USER 파티션 하위, 사용자당 1개)
+  PASSWORD_RESET_ATTEMPTS: 'PWRESET_ATTEMPTS',
+
+  // 실시간 WebSocket 연결 (USER 파티션 하위 + 연결 ID로 사용자를 찾는 조회 아이템)
+  CONNECTION: 'CONNECTION#',
+
+  // 공유 프로젝트 (프로젝트 Todo도 같은 파티션에 TODO#<todoId>로 저장)
+  PROJECT: 'PROJECT#',
+
+  // 프로젝트 멤버 (PROJECT 파티션 하위)
+  PROJECT_MEMBER: 'MEMBER#',
+
   // GSI 키 패턴
   GSI1: {
     STATUS: 'STATUS#',
     PRIORITY: 'PRIORITY#',
+    PROJECTS: '#PROJECTS',
   },
 
   GSI2: {
     TITLE: 'TITLE#',
   },
+
+  GSI3: {
+    DUE: 'DUE#',
+  },
+
+  GSI4: {
+    CHANGE: 'CHANGE#',
+  },
+
+  GSI5: {
+    ASSIGNED: '#ASSIGNED',
+  },
 } as const;
 
 // ==========================================
@@ -48,16 +95,167 @@ export class DynamoKeyBuilder {
     };
   }
 
+  /**
+   * 이메일 조회 아이템 키 생성
+   */
+  static userEmail(email: string) {
+    return {
+      PK: `${KEY_PATTERNS.USER_EMAIL}${email.toLowerCase().trim()}`,
+      SK: 'USER',
+    };
+  }
+
   /**
    * TODO 아이템 키 생성
    */
-  static todoItem(userId: string, todoId: string) {
+  static todoItem(ownerId: string, todoId: string) {
     return {
-      PK: `${KEY_PATTERNS.USER_PROFILE}${userId}`,
+      PK: todoPartitionKey(ownerId),
       SK: `${KEY_PATTERNS.TODO}${todoId}`,
     };
   }
 
+  /**
+   * 삭제된 TODO 묘비 키 생성
+   */
+  static todoTombstone(ownerId: string, todoId: string) {
+    return {
+      PK: todoPartitionKey(ownerId),
+      SK: `${KEY_PATTERNS.TODO_TOMBSTONE}${todoId}`,
+    };
+  }
+
+  /**
+   * 휴지통 TODO 키 생성
+   */
+  static todoTrash(ownerId: string, todoId: string) {
+    return {
+      PK: todoPartitionKey(ownerId),
+      SK: `${KEY_PATTERNS.TODO_TRASH}${todoId}`,
+    };
+  }
+
+  /**
+   * 체크리스트 항목 키 생성
+   */
+  static checklistItem(ownerId: string, todoId: string, itemId: string) {
+    return {
+      PK: todoPartitionKey(ownerId),
+      SK: `${DynamoKeyBuilder.checklistPrefix(todoId)}${itemId}`,
+    };
+  }
+
+  /**
+   * 특정 Todo의 체크리스트 항목 SK 접두사 (TODO#<todoId>#ITEM#)
+   */
+  static checklistPrefix(todoId: string) {
+    return `${KEY_PATTERNS.TODO}${todoId}${KEY_PATTERNS.CHECKLIST_ITEM}`;
+  }
+
+  /**
+   * Todo 활동 기록 키 생성 (같은 시각의 활동은 활동 ID로 구분)
+   */
+  static todoActivity(ownerId: string, todoId: string, occurredAt: string, eventId: string) {
+    return {
+      PK: todoPartitionKey(ownerId),
+      SK: `${DynamoKeyBuilder.activityPrefix(todoId)}${occurredAt}#${eventId}`,
+    };
+  }
+
+  /**
+   * 특정 Todo의 활동 기록 SK 접두사 (TODO#<todoId>#EVT#)
+   */
+  static activityPrefix(todoId: string) {
+    return `${KEY_PATTERNS.TODO}${todoId}${KEY_PATTERNS.TODO_ACTIVITY}`;
+  }
+
+  /**
+   * 태그 인접 아이템 키 생성 (태그는 대소문자 구분 없이 정규화)
+   */
+  static todoTag(ownerId: string, tag: string, todoId: string) {
+    return {
+      PK: todoPartitionKey(ownerId),
+      SK: `${DynamoKeyBuilder.tagPrefix(tag)}${KEY_PATTERNS.TODO}${todoId}`,
+    };
+  }
+
+  /**
+   * 특정 태그의 인접 아이템 SK 접두사 (TAG#<tag>#)
+   */
+  static tagPrefix(tag: string) {
+    return `${KEY_PATTERNS.TODO_TAG}${normalizeTag(tag)}#`;
+  }
+
+  /**
+   * 리프레시 토큰 세션 키 생성
+   */
+  static refreshSession(userId: string, familyId: string, tokenId: string) {
+    return {
+      PK: `${KEY_PATTERNS.USER_PROFILE}${userId}`,
+      SK: `${KEY_PATTERNS.REFRESH_SESSION}${familyId}#${tokenId}`,
+    };
+  }
+
+  /**
+   * 비밀번호 재설정 코드 키 생성
+   */
+  static passwordResetCode(userId: string, codeHash: string) {
+    return {
+      PK: `${KEY_PATTERNS.USER_PROFILE}${userId}`,
+      SK: `${KEY_PATTERNS.PASSWORD_RESET_CODE}${codeHash}`,
+    };
+  }
+
+  /**
+   * 비밀번호 재설정 확인 실패 횟수 키 생성
+   */
+  static passwordResetAttempts(userId: string) {
+    return {
+      PK: `${KEY_PATTERNS.USER_PROFILE}${userId}`,
+      SK: KEY_PATTERNS.PASSWORD_RESET_ATTEMPTS,
+    };
+  }
+
+  /**
+   * WebSocket 연결 키 생성 (사용자의 연결 목록 조회용)
+   */
+  static connection(userId: string, connectionId: string) {
+    return {
+      PK: `${KEY_PATTERNS.USER_PROFILE}${userId}`,
+      SK: `${KEY_PATTERNS.CONNECTION}${connectionId}`,
+    };
+  }
+
+  /**
+   * WebSocket 연결 조회 아이템 키 생성 (연결 해제 시 연결 ID로 사용자 찾기)
+   */
+  static connectionLookup(connectionId: string) {
+    return {
+      PK: `${KEY_PATTERNS.CONNECTION}${connectionId}`,
+      SK: 'METADATA',
+    };
+  }
+
+  /**
+   * 프로젝트 아이템 키 생성
+   */
+  static project(projectId: string) {
+    return {
+      PK: `${KEY_PATTERNS.PROJECT}${projectId}`,
+      SK: 'METADATA',
+    };
+  }
+
+  /**
+   * 프로젝트 멤버 키 생성
+   */
+  static projectMember(projectId: string, userId: string) {
+    return {
+      PK: `${KEY_PATTERNS.PROJECT}${projectId}`,
+      SK: `${KEY_PATTERNS.PROJECT_MEMBER}${userId}`,
+    };
+  }
+
   /**
    * 게스트 세션 키 생성
    */
@@ -69,31 +267,74 @@ export class DynamoKeyBuilder {
   }
 }
 
+/**
+ * Todo 파티션 키 생성
+ * Todo 관련 키는 사용자 ID 대신 파티션 소유자 ID를 받음
+ * - 개인 Todo: 사용자 ID → USER#<userId>
+ * - 프로젝트 Todo: projectPartitionOwner()의 결과 → PROJECT#<projectId>
+ */
+export function todoPartitionKey(ownerId: string): string {
+  return ownerId.startsWith(KEY_PATTERNS.PROJECT)
+    ? ownerId
+    : `${KEY_PATTERNS.USER_PROFILE}${ownerId}`;
+}
+
+/**
+ * 프로젝트 Todo의 파티션 소유자 ID (Todo 저장소 메서드의 userId 자리에 전달)
+ */
+export function projectPartitionOwner(projectId: string): string {
+  return `${KEY_PATTERNS.PROJECT}${projectId}`;
+}
+
+/**
+ * Todo가 저장된 파티션의 소유자 ID
+ */
+export function todoPartitionOwner(todo: { userId: string; projectId?: string }): string {
+  return todo.projectId ? projectPartitionOwner(todo.projectId) : todo.userId;
+}
+
+/**
+ * 태그 정규화 - 키와 집계에 사용하는 비교용 값
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase();
+}
+
 /**
  * GSI1 키 생성 - 상태 및 우선순위 기반 쿼리용
  */
 export class GSI1KeyBuilder {
   /**
    * 상태별 TODO 조회를 위한 GSI1 키
-   * @param userId 사용자 ID
+   * @param ownerId Todo 파티션 소유자 ID (todoPartitionKey 참고)
    * @param completed 완료 상태
    * @param priority 우선순위
    * @param createdAt 생성일시 (ISO string)
    */
-  static statusPriority(userId: string, completed: boolean, priority: string, createdAt: string) {
+  static statusPriority(ownerId: string, completed: boolean, priority: string, createdAt: string) {
     const status = completed ? 'COMPLETED' : 'ACTIVE';
     return {
-      GSI1PK: `${KEY_PATTERNS.USER_PROFILE}${userId}#${KEY_PATTERNS.GSI1.STATUS}${status}`,
+      GSI1PK: `${todoPartitionKey(ownerId)}#${KEY_PATTERNS.GSI1.STATUS}${status}`,
       GSI1SK: `${KEY_PATTERNS.GSI1.PRIORITY}${priority}#${createdAt}`,
     };
   }
 
+  /**
+   * 사용자가 속한 프로젝트 목록 조회를 위한 GSI1 키 (프로젝트 멤버 아이템에 사용)
+   */
+  static userProjects(userId: string, projectId: string) {
+    return {
+      GSI1PK: `${KEY_PATTERNS.USER_PROFILE}${userId}${KEY_PATTERNS.GSI1.PROJECTS}`,
+      GSI1SK: `${KEY_PATTERNS.PROJECT}${projectId}`,
+    };
+  }
+
   /**
    * 사용자의 모든 TODO 조회를 위한 GSI1 키 (상태 무관)
    */
-  static allUserTodos(userId: string, priority: string, createdAt: string) {
+  static allUserTodos(ownerId: string, priority: string, createdAt: string) {
     return {
-      GSI1PK: `${KEY_PATTERNS.USER_PROFILE}${userId}`,
+      GSI1PK: todoPartitionKey(ownerId),
       GSI1SK: `${KEY_PATTERNS.GSI1.PRIORITY}${priority}#${createdAt}`,
     };
   }
@@ -105,23 +346,82 @@ export class GSI1KeyBuilder {
 export class GSI2KeyBuilder {
   /**
    * 제목 기반 검색을 위한 GSI2 키
-   * @param userId 사용자 ID
+   * @param ownerId Todo 파티션 소유자 ID (todoPartitionKey 참고)
    * @param title TODO 제목 (검색을 위해 소문자 변환)
    * @param createdAt 생성일시 (정렬용)
    */
-  static titleSearch(userId: string, title: string, createdAt: string) {
+  static titleSearch(ownerId: string, title: string, createdAt: string) {
     const normalizedTitle = title.toLowerCase().trim();
     return {
-      GSI2PK: `${KEY_PATTERNS.USER_PROFILE}${userId}`,
+      GSI2PK: todoPartitionKey(ownerId),
       GSI2SK: `${KEY_PATTERNS.GSI2.TITLE}${normalizedTitle}#${createdAt}`,
     };
   }
 }
 
+/**
+ * GSI3 키 생성 - 마감일 기반 조회 및 정렬용 (마감일이 있는 TODO만 인덱싱되는 희소 인덱스)
+ */
+export class GSI3KeyBuilder {
+  /**
+   * 마감일 조회를 위한 GSI3 키
+   * @param ownerId Todo 파티션 소유자 ID (todoPartitionKey 참고)
+   * @param dueDate 마감일시 (ISO string, 문자열 비교가 시간 순서와 같도록 밀리초 단위 UTC로 정규화)
+   */
+  static dueDate(ownerId: string, dueDate: string) {
+    return {
+      GSI3PK: todoPartitionKey(ownerId),
+      GSI3SK: `${KEY_PATTERNS.GSI3.DUE}${new Date(dueDate).toISOString()}`,
+    };
+  }
+}
+
+/**
+ * GSI4 키 생성 - 변경 조회용 (TODO와 삭제 묘비를 마지막 변경 시각 순으로 인덱싱)
+ */
+export class GSI4KeyBuilder {
+  /**
+   * 변경 조회를 위한 GSI4 키
+   * @param ownerId Todo 파티션 소유자 ID (todoPartitionKey 참고)
+   * @param changedAt 마지막 변경(수정/삭제) 일시 (ISO string)
+   * @param todoId 같은 시각의 변경을 구분하기 위한 TODO ID
+   */
+  static change(ownerId: string, changedAt: string, todoId: string) {
+    return {
+      GSI4PK: todoPartitionKey(ownerId),
+      GSI4SK: `${KEY_PATTERNS.GSI4.CHANGE}${changedAt}#${todoId}`,
+    };
+  }
+}
+
+/**
+ * GSI5 키 생성 - 담당자 조회용 (담당자가 있는 TODO만 인덱싱되는 희소 인덱스)
+ */
+export class GSI5KeyBuilder {
+  /**
+   * 나에게 할당된 TODO 조회를 위한 GSI5 키 (개인/프로젝트 구분 없이 담당자 기준)
+   */
+  static assignee(assigneeId: string, createdAt: string, todoId: string) {
+    return {
+      GSI5PK: `${KEY_PATTERNS.USER_PROFILE}${assigneeId}${KEY_PATTERNS.GSI5.ASSIGNED}`,
+      GSI5SK: `${KEY_PATTERNS.TODO}${createdAt}#${todoId}`,
+    };
+  }
+}
+
 // ==========================================
 // TTL 유틸리티
 // ==========================================
 
+// 삭제 묘비 보관 기간 (30일)
+export const TOMBSTONE_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+// 휴지통 보관 기간 (30일, 지나면 영구 삭제)
+export const TRASH_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+// WebSocket 연결 보관 기간 (API Gateway 연결은 최대 2시간이므로 disconnect가 누락된 연결도 정리되도록 여유를 둠)
+export const CONNECTION_RETENTION_SECONDS = 3 * 60 * 60;
+
 /**
  * TTL 타임스탬프 생성 유틸리티
  */
@@ -143,6 +443,28 @@ export class TTLBuilder {
     const expiry = new Date(now.getTime() + 24 * 60 * 60 * 1000); // 24시간
     return Math.floor(expiry.getTime() / 1000); // Unix timestamp (초)
   }
+
+  /**
+   * 삭제 묘비를 위한 30일 후 TTL 생성 (이보다 오래된 변경 토큰은 전체 동기화 필요)
+   */
+  static tombstoneExpiry(): number {
+    return TTLBuilder.expiresIn(TOMBSTONE_RETENTION_SECONDS);
+  }
+
+  /**
+   * 휴지통 아이템을 위한 30일 후 TTL 생성 (게스트 Todo는 원래 만료 시각이 더 이르면 그 시각)
+   */
+  static trashExpiry(todoTtl?: number): number {
+    const expiry = TTLBuilder.expiresIn(TRASH_RETENTION_SECONDS);
+    return todoTtl !== undefined ? Math.min(todoTtl, expiry) : expiry;
+  }
+
+  /**
+   * 지정한 초 이후 만료되는 TTL 생성 (리프레시 토큰 등 만료 시간이 정해진 아이템용)
+   */
+  static expiresIn(seconds: number): number {
+    return Math.floor(Date.now() / 1000) + seconds;
+  }
 }
 
 // ==========================================
@@ -158,35 +480,148 @@ export const QUERY_PATTERNS = {
    */
   GET_USER_TODOS: {
     keyCondition: 'PK = :pk AND begins_with(SK, :sk)',
-    values: (userId: string) => ({
-      ':pk': `${KEY_PATTERNS.USER_PROFILE}${userId}`,
+    values: (ownerId: string) => ({
+      ':pk': todoPartitionKey(ownerId),
       ':sk': KEY_PATTERNS.TODO,
     }),
   },
 
+  /**
+   * 특정 TODO의 체크리스트 항목 조회
+   */
+  GET_CHECKLIST_ITEMS: {
+    keyCondition: 'PK = :pk AND begins_with(SK, :sk)',
+    values: (ownerId: string, todoId: string) => ({
+      ':pk': todoPartitionKey(ownerId),
+      ':sk': DynamoKeyBuilder.checklistPrefix(todoId),
+    }),
+  },
+
+  /**
+   * 특정 TODO의 활동 기록 조회 (SK가 발생 시각 순)
+   */
+  GET_TODO_ACTIVITY: {
+    keyCondition: 'PK = :pk AND begins_with(SK, :sk)',
+    values: (ownerId: string, todoId: string) => ({
+      ':pk': todoPartitionKey(ownerId),
+      ':sk': DynamoKeyBuilder.activityPrefix(todoId),
+    }),
+  },
+
+  /**
+   * 휴지통 TODO 조회
+   */
+  GET_TRASHED_TODOS: {
+    keyCondition: 'PK = :pk AND begins_with(SK, :sk)',
+    values: (ownerId: string) => ({
+      ':pk': todoPartitionKey(ownerId),
+      ':sk': KEY_PATTERNS.TODO_TRASH,
+    }),
+  },
+
+  /**
+   * 특정 태그가 붙은 TODO 인접 아이템 조회
+   */
+  GET_TODOS_BY_TAG: {
+    keyCondition: 'PK = :pk AND begins_with(SK, :sk)',
+    values: (ownerId: string, tag: string) => ({
+      ':pk': todoPartitionKey(ownerId),
+      ':sk': DynamoKeyBuilder.tagPrefix(tag),
+    }),
+  },
+
+  /**
+   * 사용자의 모든 태그 인접 아이템 조회 (태그별 사용 횟수 집계용)
+   */
+  GET_USER_TAGS: {
+    keyCondition: 'PK = :pk AND begins_with(SK, :sk)',
+    values: (ownerId: string) => ({
+      ':pk': todoPartitionKey(ownerId),
+      ':sk': KEY_PATTERNS.TODO_TAG,
+    }),
+  },
+
   /**
    * 특정 상태의 TODO들 조회 (GSI1 사용)
    */
   GET_TODOS_BY_STATUS: {
     indexName: 'GSI1-StatusPriority',
     keyCondition: 'GSI1PK = :gsi1pk',
-    values: (userId: string, completed: boolean) => {
+    values: (ownerId: string, completed: boolean) => {
       const status = completed ? 'COMPLETED' : 'ACTIVE';
       return {
-        ':gsi1pk': `${KEY_PATTERNS.USER_PROFILE}${userId}#${KEY_PATTERNS.GSI1.STATUS}${status}`,
+        ':gsi1pk': `${todoPartitionKey(ownerId)}#${KEY_PATTERNS.GSI1.STATUS}${status}`,
       };
     },
   },
 
+  /**
+   * 프로젝트 멤버 목록 조회
+   */
+  GET_PROJECT_MEMBERS: {
+    keyCondition: 'PK = :pk AND begins_with(SK, :sk)',
+    values: (projectId: string) => ({
+      ':pk': `${KEY_PATTERNS.PROJECT}${projectId}`,
+      ':sk': KEY_PATTERNS.PROJECT_MEMBER,
+    }),
+  },
+
+  /**
+   * 사용자가 속한 프로젝트 목록 조회 (GSI1 사용)
+   */
+  GET_USER_PROJECTS: {
+    indexName: 'GSI1-StatusPriority',
+    keyCondition: 'GSI1PK = :gsi1pk',
+    values: (userId: string) => ({
+      ':gsi1pk': `${KEY_PATTERNS.USER_PROFILE}${userId}${KEY_PATTERNS.GSI1.PROJECTS}`,
+    }),
+  },
+
   /**
    * 제목으로 TODO 검색 (GSI2 사용)
    */
   SEARCH_TODOS_BY_TITLE: {
     indexName: 'GSI2-SearchTitle',
     keyCondition: 'GSI2PK = :gsi2pk AND begins_with(GSI2SK, :titlePrefix)',
-    values: (userId: string, titlePrefix: string) => ({
-      ':gsi2pk': `${KEY_PATTERNS.USER_PROFILE}${userId}`,
+    values: (ownerId: string, titlePrefix: string) => ({
+      ':gsi2pk': todoPartitionKey(ownerId),
       ':titlePrefix': `${KEY_PATTERNS.GSI2.TITLE}${titlePrefix.toLowerCase()}`,
     }),
   },
+
+  /**
+   * 마감일 범위로 TODO 조회 (GSI3 사용, 범위 양 끝 포함, 생략하면 제한 없음)
+   */
+  GET_TODOS_BY_DUE_DATE: {
+    indexName: 'GSI3-DueDate',
+    keyCondition: 'GSI3PK = :gsi3pk AND GSI3SK BETWEEN :from AND :to',
+    values: (ownerId: string, from?: string, to?: string) => ({
+      ':gsi3pk': todoPartitionKey(ownerId),
+      ':from': `${KEY_PATTERNS.GSI3.DUE}${from ?? ''}`,
+      ':to': `${KEY_PATTERNS.GSI3.DUE}${to ?? '\uffff'}`,
+    }),
+  },
+
+  /**
+   * 사용자에게 할당된 TODO 조회 (GSI5 사용, 생성 순서대로)
+   */
+  GET_ASSIGNED_TODOS: {
+    indexName: 'GSI5-Assignee',
+    keyCondition: 'GSI5PK = :gsi5pk',
+    values: (assigneeId: string) => ({
+      ':gsi5pk': `${KEY_PATTERNS.USER_PROFILE}${assigneeId}${KEY_PATTERNS.GSI5.ASSIGNED}`,
+    }),
+  },
+
+  /**
+   * 특정 위치 이후 변경된 TODO와 삭제 묘비 조회 (GSI4 사용, 변경 순서대로)
+   */
+  GET_CHANGES_AFTER: {
+    indexName: 'GSI4-Changes',
+    keyCondition: 'GSI4PK = :gsi4pk AND GSI4SK > :after',
+    values: (ownerId: string, after: string) => ({
+      ':gsi4pk': todoPartitionKey(ownerId),
+      ':after': `${KEY_PATTERNS.GSI4.CHANGE}${after}`,
+    }),
+  },
 } as const;
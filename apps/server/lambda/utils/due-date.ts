@@ -0,0 +1,126 @@
+/**
+ * 마감일 보기(overdue / today / week) 유틸리티
+ *
+ * 하루의 경계는 사용자 시간대(IANA 이름, 예: "Asia/Seoul") 기준으로 계산합니다.
+ * - overdue: 오늘 이전이 마감일인 항목 (완료된 항목 제외)
+ * - today: 오늘이 마감일인 항목
+ * - week: 오늘부터 7일 동안(오늘 포함)이 마감일인 항목
+ */
+
+export type DueDateView = 'overdue' | 'today' | 'week';
+
+export const DUE_DATE_VIEWS: DueDateView[] = ['overdue', 'today', 'week'];
+
+// 시간대를 받지 못했을 때의 기준 시간대
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+/**
+ * 마감일 조회 범위 (ISO 8601, 양 끝 포함, 없으면 제한 없음)
+ */
+export interface DueDateRange {
+  from?: string;
+  to?: string;
+}
+
+/**
+ * IANA 시간대 이름 유효성 확인
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 마감일 보기에 해당하는 조회 범위 계산
+ */
+export function getDueDateRange(
+  view: DueDateView,
+  timeZone: string = DEFAULT_TIME_ZONE,
+  now: Date = new Date()
+): DueDateRange {
+  const { year, month, day } = getZonedDateParts(now, timeZone);
+  const startOfToday = zonedMidnight(year, month, day, timeZone);
+  // 범위 끝은 다음 구간 시작 1ms 전 (DynamoDB BETWEEN은 양 끝 포함)
+  const endBefore = (days: number) =>
+    new Date(zonedMidnight(year, month, day + days, timeZone).getTime() - 1).toISOString();
+
+  switch (view) {
+    case 'overdue':
+      return { to: new Date(startOfToday.getTime() - 1).toISOString() };
+    case 'today':
+      return { from: startOfToday.toISOString(), to: endBefore(1) };
+    case 'week':
+      return { from: startOfToday.toISOString(), to: endBefore(7) };
+  }
+}
+
+/**
+ * 마감일이 조회 범위 안에 있는지 확인 (마감일이 없으면 false)
+ */
+export function isDueDateInRange(dueDate: string | null | undefined, range: DueDateRange): boolean {
+  if (!dueDate) {
+    return false;
+  }
+
+  const time = new Date(dueDate).getTime();
+  if (Number.isNaN(time)) {
+    return false;
+  }
+
+  return (
+    (!range.from || time >= new Date(range.from).getTime()) &&
+    (!range.to || time <= new Date(range.to).getTime())
+  );
+}
+
+// 특정 시각의 시간대 기준 연/월/일
+function getZonedDateParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+
+  return { year: get('year'), month: get('month'), day: get('day') };
+}
+
+// 시간대 기준 자정의 UTC 시각 (day가 말일을 넘으면 다음 달로 넘어감)
+function zonedMidnight(year: number, month: number, day: number, timeZone: string): Date {
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  // 오프셋을 한 번 더 계산해 서머타임 전환일에도 자정을 맞춤
+  const guess = utcMidnight - getTimeZoneOffset(new Date(utcMidnight), timeZone);
+  return new Date(utcMidnight - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+/**
+ * 해당 시각의 시간대 오프셋 (ms, UTC보다 빠르면 양수)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+
+  const zonedAsUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  );
+  return zonedAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
@@ -10,6 +10,7 @@ export enum ErrorCode {
   INVALID_INPUT = 'INVALID_INPUT',
   MISSING_REQUIRED_FIELD = 'MISSING_REQUIRED_FIELD',
   INVALID_FORMAT = 'INVALID_FORMAT',
+  INVALID_CURSOR = 'INVALID_CURSOR',
 
   // Authentication Errors (4010-4019)
   AUTHENTICATION_FAILED = 'AUTHENTICATION_FAILED',
@@ -298,7 +299,8 @@ export function createApiResponse(
   const corsHeaders = {
     'Content-Type': 'application/json',
     'Access-Control-Allow-Origin': process.env.CORS_ORIGIN || '*',
-    'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Correlation-ID',
+    'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Correlation-ID,If-Match',
+    'Access-Control-Expose-Headers': 'ETag',
     'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
     ...headers,
   };
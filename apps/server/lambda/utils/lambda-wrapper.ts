@@ -2,6 +2,7 @@ import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda
 import * as AWSXRay from 'aws-xray-sdk-core';
 import { v4 as uuidv4 } from 'uuid';
 import { logger, createErrorResponse, recordErrorToXRay } from './error-handler';
+import { correlationId as correlationContext } from './correlation';
 
 /**
  * Lambda 핸들러 타입
@@ -256,6 +257,14 @@ export function wrapLambdaHandler(
     const startTime = Date.now();
     const correlationId = extractOrGenerateCorrelationId(event);
 
+    // 서비스 계층(활동 기록 등)에서도 같은 상관 ID를 쓰도록 등록
+    correlationContext.create({
+      correlationId,
+      requestId: context.awsRequestId,
+      operation: `${event.httpMethod} ${event.resource}`,
+      source: 'api-gateway',
+    });
+
     // X-Ray 추적 시작
     if (enableXRayTracing) {
       createXRaySubsegment('lambda-handler', correlationId);
@@ -316,6 +325,8 @@ export function wrapLambdaHandler(
       }
 
       return errorResponse;
+    } finally {
+      correlationContext.clear();
     }
   };
 }
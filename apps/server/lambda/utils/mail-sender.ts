@@ -0,0 +1,99 @@
+import { appendFile } from 'fs/promises';
+import { SESv2Client, SendEmailCommand } from '@aws-sdk/client-sesv2';
+import { logger } from './logger';
+
+/**
+ * 메일 발송 유틸리티
+ *
+ * 기능:
+ * - 발송 방식을 교체할 수 있는 MailSender 인터페이스
+ * - 배포 환경용 SES 발송기
+ * - 로컬/테스트용 콘솔 및 파일(JSON Lines) 발송기
+ *
+ * 발송기 선택: MAIL_SENDER 환경 변수 (ses | console | file)
+ * 지정하지 않으면 Lambda 환경에서는 ses, 그 외에는 console
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailSender {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_OUTBOX_PATH = '/tmp/hanbit-mail-outbox.jsonl';
+
+/**
+ * 콘솔 발송기 - 수신자와 제목만 로그로 출력
+ * 본문에는 재설정 코드 같은 비밀 값이 들어가므로 로그에 남기지 않음
+ */
+export class ConsoleMailSender implements MailSender {
+  async send(message: MailMessage): Promise<void> {
+    logger.info('Mail sent (console)', {
+      to: message.to,
+      subject: message.subject,
+    });
+  }
+}
+
+/**
+ * 파일 발송기 - 메일을 JSON Lines 형식으로 파일에 추가
+ */
+export class FileMailSender implements MailSender {
+  constructor(private readonly outboxPath: string = DEFAULT_OUTBOX_PATH) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const entry = { ...message, sentAt: new Date().toISOString() };
+    await appendFile(this.outboxPath, `${JSON.stringify(entry)}\n`, 'utf8');
+  }
+}
+
+/**
+ * SES 발송기 - Amazon SES로 실제 메일 발송
+ * 발신 주소가 설정되지 않았으면 발송하지 않고 실패 처리
+ */
+export class SesMailSender implements MailSender {
+  constructor(
+    private readonly fromAddress: string | undefined,
+    private readonly client: Pick<SESv2Client, 'send'> = new SESv2Client({})
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    if (!this.fromAddress) {
+      throw new Error('MAIL_FROM_ADDRESS environment variable is required to send mail');
+    }
+
+    await this.client.send(
+      new SendEmailCommand({
+        FromEmailAddress: this.fromAddress,
+        Destination: { ToAddresses: [message.to] },
+        Content: {
+          Simple: {
+            Subject: { Data: message.subject, Charset: 'UTF-8' },
+            Body: { Text: { Data: message.text, Charset: 'UTF-8' } },
+          },
+        },
+      })
+    );
+  }
+}
+
+/**
+ * 환경 설정에 맞는 MailSender 생성
+ */
+export function createMailSender(): MailSender {
+  const sender =
+    process.env.MAIL_SENDER || (process.env.AWS_LAMBDA_FUNCTION_NAME ? 'ses' : 'console');
+
+  switch (sender) {
+    case 'file':
+      return new FileMailSender(process.env.MAIL_OUTBOX_PATH || DEFAULT_OUTBOX_PATH);
+    case 'console':
+      return new ConsoleMailSender();
+    default:
+      return new SesMailSender(process.env.MAIL_FROM_ADDRESS);
+  }
+}
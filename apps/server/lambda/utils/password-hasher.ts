@@ -0,0 +1,54 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+/**
+ * 비밀번호 해시 유틸리티
+ *
+ * 기능:
+ * - 사용자별 랜덤 솔트를 사용한 scrypt 해시 생성
+ * - 타이밍 공격에 안전한 비밀번호 비교
+ *
+ * 저장 형식: scrypt$<salt(base64)>$<hash(base64)>
+ */
+
+const HASH_ALGORITHM = 'scrypt';
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 64;
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(derivedKey);
+    });
+  });
+}
+
+export class PasswordHasher {
+  /**
+   * 비밀번호 해시 생성
+   */
+  static async hash(password: string): Promise<string> {
+    const salt = randomBytes(SALT_LENGTH);
+    const derivedKey = await deriveKey(password, salt);
+
+    return [HASH_ALGORITHM, salt.toString('base64'), derivedKey.toString('base64')].join('$');
+  }
+
+  /**
+   * 저장된 해시와 비밀번호 비교
+   */
+  static async verify(password: string, storedHash: string): Promise<boolean> {
+    const [algorithm, saltBase64, hashBase64] = storedHash.split('$');
+    if (algorithm !== HASH_ALGORITHM || !saltBase64 || !hashBase64) {
+      return false;
+    }
+
+    const expected = Buffer.from(hashBase64, 'base64');
+    const derivedKey = await deriveKey(password, Buffer.from(saltBase64, 'base64'));
+
+    return expected.length === derivedKey.length && timingSafeEqual(expected, derivedKey);
+  }
+}
@@ -0,0 +1,43 @@
+import type { AppConfig } from './config-manager';
+
+/**
+ * 비밀번호 정책 검증 유틸리티
+ *
+ * ConfigManager의 security.passwordPolicy 설정을 기준으로
+ * 위반 항목을 사용자에게 보여줄 수 있는 메시지 목록으로 반환
+ */
+
+export type PasswordPolicy = AppConfig['security']['passwordPolicy'];
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumbers: true,
+  requireSymbols: false,
+};
+
+/**
+ * 비밀번호 정책 위반 항목 조회 (빈 배열이면 통과)
+ */
+export function getPasswordPolicyViolations(password: string, policy: PasswordPolicy): string[] {
+  const violations: string[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push(`비밀번호는 최소 ${policy.minLength}자 이상이어야 합니다`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push('비밀번호에 영문 대문자가 포함되어야 합니다');
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push('비밀번호에 영문 소문자가 포함되어야 합니다');
+  }
+  if (policy.requireNumbers && !/[0-9]/.test(password)) {
+    violations.push('비밀번호에 숫자가 포함되어야 합니다');
+  }
+  if (policy.requireSymbols && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push('비밀번호에 특수문자가 포함되어야 합니다');
+  }
+
+  return violations;
+}
@@ -0,0 +1,33 @@
+/**
+ * 공유 프로젝트 멤버 역할 유틸리티
+ *
+ * 역할은 viewer < editor < owner 순서이며, 높은 역할은 낮은 역할의 권한을 모두 가집니다.
+ * - viewer: 프로젝트 Todo 조회
+ * - editor: 프로젝트 Todo 생성/수정/삭제
+ * - owner: 멤버 초대/역할 변경/내보내기
+ */
+
+import { ProjectRole } from '../types/constants';
+
+export const PROJECT_ROLES: ProjectRole[] = ['owner', 'editor', 'viewer'];
+
+const PROJECT_ROLE_RANK: Record<ProjectRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+// Todo 작업별 최소 역할 (TodoService.validatePermissions의 action 값)
+export const TODO_ACTION_ROLES: Record<string, ProjectRole> = {
+  READ: ProjectRole.VIEWER,
+  CREATE: ProjectRole.EDITOR,
+  UPDATE: ProjectRole.EDITOR,
+  DELETE: ProjectRole.EDITOR,
+};
+
+/**
+ * 역할이 요구 역할 이상인지 확인
+ */
+export function hasProjectRole(role: ProjectRole, required: ProjectRole): boolean {
+  return PROJECT_ROLE_RANK[role] >= PROJECT_ROLE_RANK[required];
+}
@@ -0,0 +1,274 @@
+/**
+ * 반복 일정(RRULE) 유틸리티
+ *
+ * iCalendar RRULE의 일부(FREQ, INTERVAL, BYDAY, UNTIL, COUNT)만 지원합니다.
+ * - 예: "FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR" (평일 매일), "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO"
+ * - COUNT는 "현재 회차를 포함해 남은 횟수"로 다루며, 다음 회차를 만들 때 1씩 줄입니다
+ * - 날짜와 요일은 사용자 시간대(IANA 이름, 기본값 UTC) 기준으로 계산하며 현지 시:분:초를 유지합니다
+ *
+ * 클라이언트(apps/client/src/utils/recurrence.ts)도 같은 규칙으로 다음 회차를 계산합니다.
+ */
+
+import { DEFAULT_TIME_ZONE, getTimeZoneOffset } from './due-date';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: RecurrenceWeekday[];
+  until?: Date;
+  count?: number;
+}
+
+export interface NextOccurrence {
+  date: string; // 다음 회차 기준 일시 (ISO 8601)
+  recurrence: string; // 다음 회차에 저장할 규칙 (COUNT 차감 반영)
+}
+
+// 월요일 시작 주 기준 요일 순서 (RRULE 기본 WKST=MO)
+const WEEKDAYS: RecurrenceWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const MAX_INTERVAL = 365;
+const MAX_COUNT = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 반복 규칙 파싱 에러
+ */
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+/**
+ * RRULE 문자열 파싱 ("RRULE:" 접두사 허용, 대소문자 무시)
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule {
+  const source = value.trim().replace(/^RRULE:/i, '');
+  if (!source) {
+    throw new RecurrenceRuleError('반복 규칙이 비어 있습니다');
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of source.split(';')) {
+    const [rawKey, rawValue, ...rest] = part.split('=');
+    const key = rawKey?.trim().toUpperCase();
+    if (!key || rawValue === undefined || rest.length > 0) {
+      throw new RecurrenceRuleError(`잘못된 반복 규칙 항목입니다: ${part}`);
+    }
+    if (parts.has(key)) {
+      throw new RecurrenceRuleError(`${key} 항목이 중복되었습니다`);
+    }
+    parts.set(key, rawValue.trim().toUpperCase());
+  }
+
+  const unsupported = [...parts.keys()].filter(
+    key => !['FREQ', 'INTERVAL', 'BYDAY', 'UNTIL', 'COUNT'].includes(key)
+  );
+  if (unsupported.length > 0) {
+    throw new RecurrenceRuleError(`지원하지 않는 반복 규칙 항목입니다: ${unsupported.join(', ')}`);
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new RecurrenceRuleError('FREQ는 DAILY, WEEKLY, MONTHLY, YEARLY 중 하나여야 합니다');
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  const interval = parts.get('INTERVAL');
+  if (interval !== undefined) {
+    rule.interval = parsePositiveInteger(interval, 'INTERVAL', MAX_INTERVAL);
+  }
+
+  const byDay = parts.get('BYDAY');
+  if (byDay !== undefined) {
+    if (freq !== 'DAILY' && freq !== 'WEEKLY') {
+      throw new RecurrenceRuleError('BYDAY는 DAILY 또는 WEEKLY 반복에서만 사용할 수 있습니다');
+    }
+
+    const days = byDay.split(',').map(day => day.trim()) as RecurrenceWeekday[];
+    if (days.some(day => !WEEKDAYS.includes(day))) {
+      throw new RecurrenceRuleError('BYDAY는 MO, TU, WE, TH, FR, SA, SU 조합이어야 합니다');
+    }
+    rule.byDay = WEEKDAYS.filter(day => days.includes(day));
+  }
+
+  const until = parts.get('UNTIL');
+  const count = parts.get('COUNT');
+  if (until !== undefined && count !== undefined) {
+    throw new RecurrenceRuleError('UNTIL과 COUNT는 함께 사용할 수 없습니다');
+  }
+  if (until !== undefined) {
+    rule.until = parseUntil(until);
+  }
+  if (count !== undefined) {
+    rule.count = parsePositiveInteger(count, 'COUNT', MAX_COUNT);
+  }
+
+  return rule;
+}
+
+/**
+ * 반복 규칙 유효성 확인
+ */
+export function isValidRecurrenceRule(value: string): boolean {
+  try {
+    parseRecurrenceRule(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 반복 규칙을 정규화된 RRULE 문자열로 변환 (INTERVAL=1은 생략)
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+/**
+ * 다음 회차 계산
+ * 기준 일시(마감일 또는 생성일) 다음의 첫 회차를 반환하며, UNTIL/COUNT로 끝났으면 null
+ * 요일과 날짜 이동은 timeZone의 현지 시각 기준 (서울 월요일 08:00은 UTC로 일요일이어도 월요일)
+ */
+export function getNextOccurrence(
+  recurrence: string,
+  from: string,
+  timeZone: string = DEFAULT_TIME_ZONE
+): NextOccurrence | null {
+  const rule = parseRecurrenceRule(recurrence);
+  if (rule.count !== undefined && rule.count <= 1) {
+    return null;
+  }
+
+  const base = new Date(from);
+  if (Number.isNaN(base.getTime())) {
+    throw new RecurrenceRuleError(`기준 일시가 올바르지 않습니다: ${from}`);
+  }
+
+  const next = fromZonedWallTime(advance(rule, toZonedWallTime(base, timeZone)), timeZone);
+  if (rule.until && next.getTime() > rule.until.getTime()) {
+    return null;
+  }
+
+  return {
+    date: next.toISOString(),
+    recurrence: formatRecurrenceRule({
+      ...rule,
+      count: rule.count !== undefined ? rule.count - 1 : undefined,
+    }),
+  };
+}
+
+function advance(rule: RecurrenceRule, base: Date): Date {
+  switch (rule.freq) {
+    case 'DAILY': {
+      let next = addDays(base, rule.interval);
+      // BYDAY가 있으면 해당 요일이 나올 때까지 간격 단위로 진행 (최대 7회면 모든 요일을 거침)
+      for (let i = 0; rule.byDay && !rule.byDay.includes(weekdayOf(next)) && i < 7; i++) {
+        next = addDays(next, rule.interval);
+      }
+      return next;
+    }
+    case 'WEEKLY': {
+      if (!rule.byDay?.length) {
+        return addDays(base, 7 * rule.interval);
+      }
+
+      const baseIndex = WEEKDAYS.indexOf(weekdayOf(base));
+      const laterThisWeek = rule.byDay.find(day => WEEKDAYS.indexOf(day) > baseIndex);
+      if (laterThisWeek) {
+        return addDays(base, WEEKDAYS.indexOf(laterThisWeek) - baseIndex);
+      }
+
+      // 이번 주에 남은 요일이 없으면 INTERVAL 주 뒤의 첫 요일
+      const weekStart = addDays(base, -baseIndex);
+      return addDays(weekStart, 7 * rule.interval + WEEKDAYS.indexOf(rule.byDay[0]));
+    }
+    case 'MONTHLY':
+      return addMonths(base, rule.interval);
+    case 'YEARLY':
+      return addMonths(base, 12 * rule.interval);
+  }
+}
+
+// 현지 시각을 같은 숫자의 UTC 시각으로 옮김 (이후 getUTC* 계산이 현지 날짜/요일 기준이 됨)
+function toZonedWallTime(date: Date, timeZone: string): Date {
+  return new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+}
+
+// toZonedWallTime의 역변환 (오프셋을 한 번 더 계산해 서머타임 전환일에도 현지 시각을 맞춤)
+function fromZonedWallTime(wallTime: Date, timeZone: string): Date {
+  const guess = wallTime.getTime() - getTimeZoneOffset(wallTime, timeZone);
+  return new Date(wallTime.getTime() - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+// 월 단위 이동 (말일을 넘으면 그 달의 마지막 날로 맞춤: 1/31 → 2/28)
+function addMonths(date: Date, months: number): Date {
+  const target = new Date(date.getTime());
+  const day = target.getUTCDate();
+  target.setUTCDate(1);
+  target.setUTCMonth(target.getUTCMonth() + months);
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target;
+}
+
+function weekdayOf(date: Date): RecurrenceWeekday {
+  // getUTCDay(): 0=일요일
+  return WEEKDAYS[(date.getUTCDay() + 6) % 7];
+}
+
+function parsePositiveInteger(value: string, name: string, max: number): number {
+  if (!/^\d+$/.test(value)) {
+    throw new RecurrenceRuleError(`${name}는 양의 정수여야 합니다`);
+  }
+  const parsed = Number(value);
+  if (parsed < 1 || parsed > max) {
+    throw new RecurrenceRuleError(`${name}는 1 이상 ${max} 이하여야 합니다`);
+  }
+  return parsed;
+}
+
+// UNTIL: YYYYMMDD(그날 끝까지 포함) 또는 YYYYMMDDTHHMMSSZ
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  if (!match) {
+    throw new RecurrenceRuleError('UNTIL은 YYYYMMDD 또는 YYYYMMDDTHHMMSSZ 형식이어야 합니다');
+  }
+
+  const [, year, month, day, hour, minute, second] = match;
+  const until = hour
+    ? new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second))
+    : new Date(Date.UTC(+year, +month - 1, +day, 23, 59, 59));
+
+  if (Number.isNaN(until.getTime()) || until.getUTCDate() !== +day) {
+    throw new RecurrenceRuleError(`UNTIL 날짜가 올바르지 않습니다: ${value}`);
+  }
+  return until;
+}
+
+function formatUntil(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
@@ -92,6 +92,7 @@ export class ResponseSecurity {
         'Authorization',
         'X-Requested-With',
         'X-Request-ID',
+        'If-Match',
       ].join(', '),
       'Access-Control-Allow-Credentials': 'true',
       'Access-Control-Max-Age': '86400', // 24시간 preflight 캐싱
@@ -0,0 +1,63 @@
+/**
+ * Todo 응답 변환 유틸리티
+ *
+ * 목록/생성/수정/동기화/배치/실시간/휴지통 응답이 모두 같은 형식을 쓰도록
+ * DynamoDB 아이템을 API 응답으로 바꾸는 곳은 이 함수 하나로 모읍니다.
+ */
+
+import type { DynamoTodoItem } from '../types/database.types';
+import type { TodoResponse } from '../types/api.types';
+
+/**
+ * 응답에 쓰는 Todo 필드 (저장 전 아이템처럼 키/인덱스 필드가 없어도 변환 가능)
+ */
+export type TodoResponseSource = Pick<
+  DynamoTodoItem,
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'completed'
+  | 'priority'
+  | 'dueDate'
+  | 'tags'
+  | 'recurrence'
+  | 'timeZone'
+  | 'nextOccurrenceId'
+  | 'projectId'
+  | 'assigneeId'
+  | 'assignmentHistory'
+  | 'rank'
+  | 'checklistTotal'
+  | 'checklistCompleted'
+  | 'version'
+  | 'createdAt'
+  | 'updatedAt'
+>;
+
+/**
+ * Todo 아이템을 API 응답 형식으로 변환 (DynamoDB 내부 필드 제거)
+ */
+export function toTodoResponse(todo: TodoResponseSource): TodoResponse {
+  return {
+    id: todo.id,
+    title: todo.title,
+    description: todo.description,
+    completed: todo.completed,
+    priority: todo.priority,
+    dueDate: todo.dueDate,
+    tags: todo.tags,
+    recurrence: todo.recurrence ?? undefined,
+    timeZone: todo.timeZone,
+    nextOccurrenceId: todo.nextOccurrenceId,
+    projectId: todo.projectId,
+    assigneeId: todo.assigneeId ?? undefined,
+    assignmentHistory: todo.assignmentHistory,
+    rank: todo.rank,
+    checklistProgress: todo.checklistTotal
+      ? { completed: todo.checklistCompleted ?? 0, total: todo.checklistTotal }
+      : undefined,
+    version: todo.version ?? 1,
+    createdAt: todo.createdAt,
+    updatedAt: todo.updatedAt,
+  };
+}
@@ -0,0 +1,165 @@
+import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
+import { configManager } from './config-manager';
+
+/**
+ * 자체 발급 JWT 토큰 유틸리티
+ *
+ * 기능:
+ * - 로그인 사용자용 액세스/리프레시 토큰 발급 (HS256)
+ * - 자체 발급 토큰 서명 및 클레임 검증
+ * - Cognito 토큰과 구분하기 위한 발급자(iss) 식별
+ */
+
+export const APP_TOKEN_ISSUER = 'hanbit-todo-api';
+export const APP_TOKEN_AUDIENCE = 'hanbit-todo-client';
+
+const DEFAULT_REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60; // 30일
+
+export type AppTokenUse = 'access' | 'refresh';
+
+export interface AppTokenClaims {
+  sub: string; // 사용자 ID
+  iss: string;
+  aud: string;
+  iat: number;
+  exp: number;
+  jti: string; // 토큰 고유 ID
+  token_use: AppTokenUse;
+  email?: string;
+  fid?: string; // 리프레시 토큰 패밀리 ID (로그인 1회 = 패밀리 1개)
+  'custom:user_type': 'authenticated';
+}
+
+export interface TokenSubject {
+  id: string;
+  email: string;
+}
+
+export interface IssuedTokenPair {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // 액세스 토큰 만료까지 남은 시간 (초)
+  refreshExpiresIn: number; // 리프레시 토큰 만료까지 남은 시간 (초)
+  refreshTokenId: string; // 리프레시 토큰 jti
+  familyId: string;
+}
+
+export interface TokenIssuerOptions {
+  secret?: string;
+  accessTokenTtlSeconds?: number;
+  refreshTokenTtlSeconds?: number;
+}
+
+export class TokenIssuer {
+  constructor(private readonly options: TokenIssuerOptions = {}) {}
+
+  /**
+   * 액세스 토큰 + 리프레시 토큰 발급
+   * familyId를 넘기면 기존 패밀리의 회전(rotation)으로, 없으면 새 패밀리로 발급
+   */
+  async issueTokenPair(subject: TokenSubject, familyId?: string): Promise<IssuedTokenPair> {
+    const accessToken = await this.issueAccessToken(subject);
+    const refreshExpiresIn = this.getRefreshTokenTtlSeconds();
+    const refreshTokenId = randomUUID();
+    const tokenFamilyId = familyId || randomUUID();
+    const refreshToken = await this.sign(
+      { sub: subject.id, token_use: 'refresh', jti: refreshTokenId, fid: tokenFamilyId },
+      refreshExpiresIn
+    );
+
+    return {
+      accessToken: accessToken.token,
+      refreshToken,
+      expiresIn: accessToken.expiresIn,
+      refreshExpiresIn,
+      refreshTokenId,
+      familyId: tokenFamilyId,
+    };
+  }
+
+  /**
+   * 액세스 토큰 단독 발급
+   */
+  async issueAccessToken(subject: TokenSubject): Promise<{ token: string; expiresIn: number }> {
+    const expiresIn = await this.getAccessTokenTtlSeconds();
+    const token = await this.sign(
+      { sub: subject.id, email: subject.email, token_use: 'access' },
+      expiresIn
+    );
+
+    return { token, expiresIn };
+  }
+
+  /**
+   * 자체 발급 토큰 서명 및 용도 검증
+   */
+  async verify(token: string, expectedUse: AppTokenUse): Promise<AppTokenClaims> {
+    const secret = await this.getSecret();
+    const claims = jwt.verify(token, secret, {
+      algorithms: ['HS256'],
+      issuer: APP_TOKEN_ISSUER,
+      audience: APP_TOKEN_AUDIENCE,
+    }) as AppTokenClaims;
+
+    if (claims.token_use !== expectedUse) {
+      throw new Error(`잘못된 토큰 유형: ${claims.token_use}`);
+    }
+
+    return claims;
+  }
+
+  /**
+   * 자체 발급 토큰인지 확인 (서명 검증 없이 발급자만 확인)
+   */
+  static isAppIssuedToken(token: string): boolean {
+    const decoded = jwt.decode(token);
+    return !!decoded && typeof decoded !== 'string' && decoded.iss === APP_TOKEN_ISSUER;
+  }
+
+  private async sign(
+    claims: Pick<AppTokenClaims, 'sub' | 'token_use'> & Partial<AppTokenClaims>,
+    expiresInSeconds: number
+  ): Promise<string> {
+    const secret = await this.getSecret();
+    const { jti, ...payload } = claims;
+
+    return jwt.sign({ ...payload, 'custom:user_type': 'authenticated' }, secret, {
+      algorithm: 'HS256',
+      issuer: APP_TOKEN_ISSUER,
+      audience: APP_TOKEN_AUDIENCE,
+      expiresIn: expiresInSeconds,
+      jwtid: jti || randomUUID(),
+    });
+  }
+
+  private async getSecret(): Promise<string> {
+    const secret =
+      this.options.secret ||
+      process.env.JWT_SECRET ||
+      (await configManager.getSecretValue<string>('jwtSecret'));
+
+    if (!secret) {
+      throw new Error('JWT 시크릿이 설정되지 않았습니다');
+    }
+    return secret;
+  }
+
+  private async getAccessTokenTtlSeconds(): Promise<number> {
+    if (this.options.accessTokenTtlSeconds) {
+      return this.options.accessTokenTtlSeconds;
+    }
+
+    const hours = await configManager.getConfigValue<number>('security.jwtExpirationHours');
+    return (hours || 1) * 60 * 60;
+  }
+
+  private getRefreshTokenTtlSeconds(): number {
+    return this.options.refreshTokenTtlSeconds || DEFAULT_REFRESH_TOKEN_TTL_SECONDS;
+  }
+}
+
+/**
+ * 기본 TokenIssuer 인스턴스
+ */
+export const tokenIssuer = new TokenIssuer();
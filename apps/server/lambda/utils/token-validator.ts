@@ -1,7 +1,8 @@
 import jwt from 'jsonwebtoken';
 import jwksClient, { JwksClient } from 'jwks-rsa';
 import { logger } from './logger';
-interface AuthContext {
+import { APP_TOKEN_ISSUER, AppTokenClaims, tokenIssuer } from './token-issuer';
+export interface AuthContext {
   userId: string;
   userType: 'authenticated' | 'guest';
   sessionId?: string;
@@ -24,6 +25,7 @@ interface AuthContext {
  * - 토큰에서 사용자 정보 및 권한 추출
  * - 게스트/인증 사용자 구분
  * - JWKS를 통한 서명 검증
+ * - 자체 발급(로그인) 토큰 검증
  */
 
 interface CognitoTokenClaims {
@@ -128,7 +130,9 @@ export class TokenValidator {
       });
 
       // 2. 토큰 유형별 처리
-      if (this.isGuestToken(payload)) {
+      if (payload.iss === APP_TOKEN_ISSUER) {
+        return await this.validateAppToken(token);
+      } else if (this.isGuestToken(payload)) {
         return await this.validateGuestToken(token, payload);
       } else {
         return await this.validateCognitoToken(token, payload, header);
@@ -197,6 +201,25 @@ export class TokenValidator {
     };
   }
 
+  /**
+   * 자체 발급 토큰 검증 (이메일/비밀번호 로그인 사용자)
+   */
+  private async validateAppToken(token: string): Promise<AuthContext> {
+    const verifiedPayload: AppTokenClaims = await tokenIssuer.verify(token, 'access');
+
+    logger.info('자체 발급 토큰 검증 성공', {
+      userId: verifiedPayload.sub,
+      tokenExpiration: new Date(verifiedPayload.exp * 1000).toISOString(),
+    });
+
+    return {
+      userId: verifiedPayload.sub,
+      userType: 'authenticated',
+      permissions: this.getDefaultAuthenticatedPermissions(),
+      tokenClaims: { ...verifiedPayload },
+    };
+  }
+
   /**
    * 게스트 토큰 검증 (Cognito Identity Pool)
    */
@@ -366,3 +389,15 @@ export class TokenValidator {
     return Math.max(0, Math.floor(remaining / 1000));
   }
 }
+
+let defaultValidator: TokenValidator | null = null;
+
+/**
+ * 핸들러용 JWT 검증 함수 (기본 TokenValidator 재사용)
+ */
+export async function validateJWTToken(token: string): Promise<AuthContext> {
+  if (!defaultValidator) {
+    defaultValidator = new TokenValidator();
+  }
+  return defaultValidator.validateToken(token);
+}
@@ -1,5 +1,8 @@
 import { z } from 'zod';
+import { RANK_MAX_LENGTH, RANK_PATTERN } from '@vive/types';
 import { InputSanitizer, SecurityMiddleware } from '@/middleware/input-sanitizer';
+import { formatRecurrenceRule, parseRecurrenceRule, RecurrenceRuleError } from '@/utils/recurrence';
+import { isValidTimeZone } from '@/utils/due-date';
 
 /**
  * 입력 검증 스키마 및 유틸리티 (보안 정화 통합)
@@ -8,6 +11,111 @@ import { InputSanitizer, SecurityMiddleware } from '@/middleware/input-sanitizer
 // Priority enum 검증
 const PrioritySchema = z.enum(['low', 'medium', 'high'] as const);
 
+// 설명 검증 (제목과 동일한 보안 정화 적용)
+const DescriptionSchema = z
+  .string()
+  .max(1000, '설명은 1000자를 초과할 수 없습니다')
+  .trim()
+  .transform(description => {
+    const sanitized = InputSanitizer.sanitizeHtml(description);
+    const validation = InputSanitizer.detectMaliciousPattern(sanitized);
+
+    if (!validation.isSafe) {
+      throw new Error(
+        `설명에 위험한 패턴이 탐지되었습니다: ${validation.detectedPatterns.join(', ')}`
+      );
+    }
+
+    return sanitized;
+  });
+
+// 단일 태그 검증 (보안 정화 적용, 태그 필터 쿼리에도 사용)
+// #은 태그 인접 아이템 키(TAG#<tag>#TODO#<id>)의 구분자라 다른 태그의 접두사 쿼리에 섞이므로 허용하지 않음
+export const TagSchema = z
+  .string()
+  .trim()
+  .min(1, '빈 태그는 사용할 수 없습니다')
+  .max(30, '태그는 30자를 초과할 수 없습니다')
+  .refine(tag => !tag.includes('#'), '태그에는 #을 사용할 수 없습니다')
+  .transform(tag => {
+    const sanitized = InputSanitizer.sanitizeHtml(tag);
+    const validation = InputSanitizer.detectMaliciousPattern(sanitized);
+
+    if (!validation.isSafe) {
+      throw new Error(
+        `태그에 위험한 패턴이 탐지되었습니다: ${validation.detectedPatterns.join(', ')}`
+      );
+    }
+
+    return sanitized;
+  });
+
+// 제목 검색어 검증 (저장된 제목과 같은 정화 규칙을 적용해야 접두사 비교가 일치)
+export const SearchQuerySchema = z
+  .string()
+  .trim()
+  .min(1, '검색어를 입력해주세요')
+  .max(200, '검색어는 200자를 초과할 수 없습니다')
+  .transform(query => {
+    const sanitized = InputSanitizer.sanitizeHtml(query);
+    const validation = InputSanitizer.detectMaliciousPattern(sanitized);
+
+    if (!validation.isSafe) {
+      throw new Error(
+        `검색어에 위험한 패턴이 탐지되었습니다: ${validation.detectedPatterns.join(', ')}`
+      );
+    }
+
+    return sanitized;
+  });
+
+// 반복 규칙 검증 (RRULE 부분 집합, 정규화된 문자열로 변환)
+const RecurrenceSchema = z
+  .string()
+  .max(200, '반복 규칙은 200자를 초과할 수 없습니다')
+  .transform((rule, ctx) => {
+    try {
+      return formatRecurrenceRule(parseRecurrenceRule(rule));
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message:
+          error instanceof RecurrenceRuleError ? error.message : '반복 규칙이 올바르지 않습니다',
+      });
+      return z.NEVER;
+    }
+  });
+
+// 태그 목록 검증 (태그별 보안 정화 + 대소문자 무시 중복 제거)
+const TagsSchema = z
+  .array(TagSchema)
+  .max(10, '태그는 최대 10개까지 지정할 수 있습니다')
+  .transform(tags =>
+    tags.filter(
+      (tag, index) => tags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index
+    )
+  );
+
+// 담당자 ID 검증 (프로젝트 멤버인지는 TodoService에서 확인)
+const AssigneeIdSchema = z
+  .string()
+  .min(1, '담당자 ID는 필수입니다')
+  .regex(/^[a-zA-Z0-9-_]+$/, '올바른 담당자 ID 형식이 아닙니다');
+
+// 시간대 검증 (IANA 시간대 이름, 예: "Asia/Seoul")
+export const TimeZoneSchema = z
+  .string()
+  .trim()
+  .min(1, '시간대를 입력해주세요')
+  .max(64, '시간대는 64자를 초과할 수 없습니다')
+  .refine(isValidTimeZone, { message: '지원하지 않는 시간대입니다' });
+
+// 수동 정렬 순서 검증 (0-9A-Za-z 분수 인덱스, 마지막 자리는 0이 아님)
+const RankSchema = z
+  .string()
+  .max(RANK_MAX_LENGTH, `정렬 순서는 ${RANK_MAX_LENGTH}자를 초과할 수 없습니다`)
+  .regex(RANK_PATTERN, '올바른 정렬 순서 형식이 아닙니다');
+
 // TODO 생성 요청 검증 (보안 정화 포함)
 export const CreateTodoRequestSchema = z.object({
   title: z
@@ -28,12 +136,18 @@ export const CreateTodoRequestSchema = z.object({
 
       return sanitized;
     }),
+  description: DescriptionSchema.optional().transform(description => description || undefined),
   priority: PrioritySchema.optional().default('medium'),
   dueDate: z
     .string()
     .datetime({ message: '올바른 날짜 형식이 아닙니다' })
     .optional()
     .transform(date => (date ? InputSanitizer.sanitizeText(date) : date)),
+  tags: TagsSchema.optional(),
+  recurrence: RecurrenceSchema.optional(),
+  timeZone: TimeZoneSchema.optional(), // 반복 일정의 날짜/요일 계산 기준 시간대
+  rank: RankSchema.optional(), // 수동 정렬 순서 (오프라인에서 옮긴 뒤 동기화하는 Todo)
+  assigneeId: AssigneeIdSchema.optional(),
 });
 
 // TODO 업데이트 요청 검증 (보안 정화 포함)
@@ -57,6 +171,7 @@ export const UpdateTodoRequestSchema = z
         return sanitized;
       })
       .optional(),
+    description: DescriptionSchema.optional(), // 빈 문자열이면 설명 삭제
     completed: z.boolean().optional(),
     priority: PrioritySchema.optional(),
     dueDate: z
@@ -65,27 +180,41 @@ export const UpdateTodoRequestSchema = z
       .nullable()
       .transform(date => (date ? InputSanitizer.sanitizeText(date) : date))
       .optional(),
+    tags: TagsSchema.optional(), // 빈 배열이면 태그 전체 삭제
+    recurrence: RecurrenceSchema.nullable().optional(), // null이면 반복 해제
+    timeZone: TimeZoneSchema.optional(), // 반복 일정의 날짜/요일 계산 기준 시간대
+    assigneeId: AssigneeIdSchema.nullable().optional(), // null이면 담당 해제
+    rank: RankSchema.optional(), // 수동 정렬 순서 (옮긴 항목만 수정)
+    expectedVersion: z.number().int().min(1, '버전은 1 이상이어야 합니다').optional(), // If-Match 헤더 대신 사용 가능
   })
-  .refine(data => Object.keys(data).length > 0, {
+  .refine(data => Object.keys(data).some(key => key !== 'expectedVersion'), {
     message: '최소 하나의 필드는 업데이트되어야 합니다',
   });
 
+// 공유 프로젝트 ID 검증 (Todo 엔드포인트의 projectId 쿼리 파라미터)
+const ProjectIdSchema = z.string().regex(/^[a-zA-Z0-9-_]+$/, '올바른 프로젝트 ID 형식이 아닙니다');
+
 // TODO 목록 조회 요청 검증
 export const ListTodosRequestSchema = z.object({
   status: z.enum(['all', 'active', 'completed']).optional().default('all'),
   priority: PrioritySchema.optional(),
+  tag: TagSchema.optional(),
+  q: SearchQuerySchema.optional(),
+  match: z.enum(['prefix', 'substring']).optional().default('prefix'),
+  due: z.enum(['overdue', 'today', 'week']).optional(),
+  tz: TimeZoneSchema.optional(),
   limit: z.number().int().min(1).max(100).optional().default(20),
   cursor: z.string().optional(),
+  projectId: ProjectIdSchema.optional(),
 });
 
 // 로그인 요청 검증 (보안 정화 포함)
 export const LoginRequestSchema = z.object({
-  username: z
+  email: z
     .string()
-    .min(3, '사용자명은 최소 3자 이상이어야 합니다')
-    .max(30, '사용자명은 30자를 초과할 수 없습니다')
-    .regex(/^[a-zA-Z0-9_]+$/, '사용자명은 영문, 숫자, 언더스코어만 사용 가능합니다')
-    .transform(username => InputSanitizer.sanitizeText(username)),
+    .email('올바른 이메일 형식이 아닙니다')
+    .max(254, '이메일은 254자를 초과할 수 없습니다')
+    .transform(email => InputSanitizer.sanitizeEmail(email)),
   password: z
     .string()
     .min(6, '비밀번호는 최소 6자 이상이어야 합니다')
@@ -100,6 +229,116 @@ export const LoginRequestSchema = z.object({
     }),
 });
 
+// 회원가입 요청 검증 (비밀번호 정책은 AuthService에서 설정 기반으로 검증)
+export const RegisterRequestSchema = z.object({
+  email: z
+    .string()
+    .email('올바른 이메일 형식이 아닙니다')
+    .max(254, '이메일은 254자를 초과할 수 없습니다')
+    .transform(email => InputSanitizer.sanitizeEmail(email)),
+  password: z
+    .string()
+    .min(1, '비밀번호는 필수입니다')
+    .max(50, '비밀번호는 50자를 초과할 수 없습니다')
+    .transform(password => {
+      const validation = InputSanitizer.detectMaliciousPattern(password);
+      if (!validation.isSafe) {
+        throw new Error('비밀번호에 허용되지 않은 문자가 포함되어 있습니다');
+      }
+      return password;
+    }),
+  name: z
+    .string()
+    .min(1, '이름은 필수입니다')
+    .max(50, '이름은 50자를 초과할 수 없습니다')
+    .transform(name => InputSanitizer.sanitizeText(name)),
+});
+
+// 새 비밀번호 검증 (비밀번호 정책은 AuthService에서 설정 기반으로 검증)
+const NewPasswordSchema = z
+  .string()
+  .min(1, '새 비밀번호는 필수입니다')
+  .max(50, '비밀번호는 50자를 초과할 수 없습니다')
+  .transform(password => {
+    const validation = InputSanitizer.detectMaliciousPattern(password);
+    if (!validation.isSafe) {
+      throw new Error('비밀번호에 허용되지 않은 문자가 포함되어 있습니다');
+    }
+    return password;
+  });
+
+// 비밀번호 재설정 코드 요청 검증
+export const PasswordResetRequestSchema = z.object({
+  email: z
+    .string()
+    .email('올바른 이메일 형식이 아닙니다')
+    .max(254, '이메일은 254자를 초과할 수 없습니다')
+    .transform(email => InputSanitizer.sanitizeEmail(email)),
+});
+
+// 비밀번호 재설정 확인 요청 검증
+export const PasswordResetConfirmSchema = z.object({
+  email: z
+    .string()
+    .email('올바른 이메일 형식이 아닙니다')
+    .max(254, '이메일은 254자를 초과할 수 없습니다')
+    .transform(email => InputSanitizer.sanitizeEmail(email)),
+  code: z.string().trim().min(1, '재설정 코드는 필수입니다').max(32, '재설정 코드가 너무 깁니다'),
+  newPassword: NewPasswordSchema,
+});
+
+// 비밀번호 변경 요청 검증
+export const PasswordChangeSchema = z.object({
+  currentPassword: z
+    .string()
+    .min(1, '현재 비밀번호는 필수입니다')
+    .max(50, '비밀번호는 50자를 초과할 수 없습니다'),
+  newPassword: NewPasswordSchema,
+});
+
+// 체크리스트 항목 제목 검증 (Todo 제목과 같은 보안 정화 적용)
+const ChecklistItemTitleSchema = z
+  .string()
+  .min(1, '항목 제목은 필수입니다')
+  .max(200, '항목 제목은 200자를 초과할 수 없습니다')
+  .trim()
+  .transform(title => {
+    const sanitized = InputSanitizer.sanitizeHtml(title);
+    const validation = InputSanitizer.detectMaliciousPattern(sanitized);
+
+    if (!validation.isSafe) {
+      throw new Error(
+        `항목 제목에 위험한 패턴이 탐지되었습니다: ${validation.detectedPatterns.join(', ')}`
+      );
+    }
+
+    return sanitized;
+  });
+
+// 체크리스트 항목 생성 요청 검증
+export const CreateChecklistItemRequestSchema = z.object({
+  title: ChecklistItemTitleSchema,
+  completed: z.boolean().optional().default(false),
+});
+
+// 체크리스트 항목 업데이트 요청 검증
+export const UpdateChecklistItemRequestSchema = z
+  .object({
+    title: ChecklistItemTitleSchema.optional(),
+    completed: z.boolean().optional(),
+  })
+  .refine(data => Object.keys(data).length > 0, {
+    message: '최소 하나의 필드는 업데이트되어야 합니다',
+  });
+
+// 체크리스트 항목 순서 변경 요청 검증 (전체 항목 ID를 새 순서대로 전달)
+export const ReorderChecklistItemsRequestSchema = z.object({
+  itemIds: z
+    .array(z.string().regex(/^[a-zA-Z0-9-_]+$/, '올바른 ID 형식이 아닙니다'))
+    .min(1, '항목 ID 목록이 필요합니다')
+    .max(50, '항목은 최대 50개까지 지정할 수 있습니다'),
+});
+
 // 토큰 갱신 요청 검증
 export const RefreshRequestSchema = z.object({
   refreshToken: z.string().min(1, '리프레시 토큰이 필요합니다'),
@@ -113,6 +352,133 @@ export const IdParamSchema = z.object({
     .regex(/^[a-zA-Z0-9-_]+$/, '올바른 ID 형식이 아닙니다'),
 });
 
+// 체크리스트 항목 경로 파라미터 검증
+export const ChecklistItemParamSchema = IdParamSchema.extend({
+  itemId: z
+    .string()
+    .min(1, '항목 ID는 필수입니다')
+    .regex(/^[a-zA-Z0-9-_]+$/, '올바른 ID 형식이 아닙니다'),
+});
+
+// 프로젝트 멤버 경로 파라미터 검증 (id는 프로젝트 ID)
+export const ProjectMemberParamSchema = IdParamSchema.extend({
+  userId: z
+    .string()
+    .min(1, '사용자 ID는 필수입니다')
+    .regex(/^[a-zA-Z0-9-_]+$/, '올바른 ID 형식이 아닙니다'),
+});
+
+// 프로젝트 범위 쿼리 파라미터 검증 (생략하면 개인 Todo)
+export const ProjectScopeQuerySchema = z.object({
+  projectId: ProjectIdSchema.optional(),
+});
+
+// 프로젝트 이름 검증 (Todo 제목과 같은 보안 정화 적용)
+const ProjectNameSchema = z
+  .string()
+  .trim()
+  .min(1, '프로젝트 이름은 필수입니다')
+  .max(100, '프로젝트 이름은 100자를 초과할 수 없습니다')
+  .transform(name => {
+    const sanitized = InputSanitizer.sanitizeHtml(name);
+    const validation = InputSanitizer.detectMaliciousPattern(sanitized);
+
+    if (!validation.isSafe) {
+      throw new Error(
+        `프로젝트 이름에 위험한 패턴이 탐지되었습니다: ${validation.detectedPatterns.join(', ')}`
+      );
+    }
+
+    return sanitized;
+  });
+
+const ProjectRoleSchema = z.enum(['owner', 'editor', 'viewer'] as const);
+
+// 프로젝트 생성 요청 검증
+export const CreateProjectRequestSchema = z.object({
+  name: ProjectNameSchema,
+});
+
+// 프로젝트 멤버 초대 요청 검증
+export const AddProjectMemberRequestSchema = z.object({
+  email: z
+    .string()
+    .email('올바른 이메일 형식이 아닙니다')
+    .max(254, '이메일은 254자를 초과할 수 없습니다')
+    .transform(email => InputSanitizer.sanitizeEmail(email)),
+  role: ProjectRoleSchema,
+});
+
+// 프로젝트 멤버 역할 변경 요청 검증
+export const UpdateProjectMemberRequestSchema = z.object({
+  role: ProjectRoleSchema,
+});
+
+// 데이터 내보내기 요청 검증
+export const ExportTodosRequestSchema = z.object({
+  format: z.enum(['json', 'csv']).optional().default('json'),
+});
+
+// 데이터 가져오기 요청 검증 (행 내용은 ImportTodoRowSchema로 행마다 따로 검증)
+export const ImportTodosRequestSchema = z
+  .object({
+    format: z.enum(['json', 'csv']).optional().default('json'),
+    todos: z.array(z.unknown()).max(500, '한 번에 최대 500개까지 가져올 수 있습니다').optional(),
+    csv: z.string().min(1, 'CSV 내용이 비어 있습니다').optional(), // 본문 크기 제한(100KB)이 함께 적용됨
+    mergeStrategy: z.enum(['merge', 'replace']).optional().default('merge'),
+  })
+  .refine(data => (data.format === 'csv' ? data.csv !== undefined : data.todos !== undefined), {
+    message: 'json 형식은 todos, csv 형식은 csv 필드가 필요합니다',
+  });
+
+// 가져오기 행 검증 (생성 요청 필드 + 원본 ID와 완료 상태, 개인 Todo로 가져오므로 담당자 제외)
+export const ImportTodoRowSchema = CreateTodoRequestSchema.omit({ assigneeId: true }).extend({
+  id: IdParamSchema.shape.id.optional(),
+  completed: z.boolean().optional().default(false),
+});
+
+// 배치 작업 요청 검증 (작업 내용은 BatchTodoOperationSchema로 작업마다 따로 검증)
+export const BatchTodosRequestSchema = z.object({
+  operations: z
+    .array(z.unknown())
+    .min(1, '작업이 하나 이상 필요합니다')
+    .max(25, '한 번에 최대 25개 작업까지 처리할 수 있습니다'),
+});
+
+// 배치 작업 한 건 검증
+export const BatchTodoOperationSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('create'),
+    id: IdParamSchema.shape.id.optional(),
+    data: CreateTodoRequestSchema,
+  }),
+  z.object({
+    action: z.literal('update'),
+    id: IdParamSchema.shape.id,
+    data: UpdateTodoRequestSchema,
+  }),
+  z.object({
+    action: z.literal('delete'),
+    id: IdParamSchema.shape.id,
+  }),
+]);
+
+/**
+ * If-Match 헤더에서 기준 버전 추출 ("3", W/"3" 형식 허용, 없거나 *이면 undefined)
+ */
+export function parseIfMatchVersion(header: string | undefined): number | undefined {
+  const value = header?.trim();
+  if (!value || value === '*') {
+    return undefined;
+  }
+
+  const match = /^(?:W\/)?"?(\d+)"?$/.exec(value);
+  if (!match || Number(match[1]) < 1) {
+    throw new Error('If-Match 헤더는 1 이상의 버전 번호여야 합니다');
+  }
+  return Number(match[1]);
+}
+
 /**
  * 요청 본문 파싱 및 검증 (보안 강화)
  */
@@ -502,7 +502,3 @@ export function updatePerformanceThresholds(
   Object.assign(performanceCollector['bottleneckThresholds'], newThresholds);
 }
 
-/**
- * X-Ray 서브시스템 타입 상수 export
- */
-export { SubsystemType };
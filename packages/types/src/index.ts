@@ -1,56 +1,152 @@
-export type Priority = 'low' | 'medium' | 'high';
-
-export type Todo = {
-  id: string;
-  title: string;
-  description?: string;
-  completed: boolean;
-  priority: Priority;
-  createdAt: string;
-  updatedAt: string;
-  dueDate?: string;
-  tags?: string[];
-  userId?: string;
-  isGuest?: boolean;
-}
-
-export type FilterType = 'all' | 'active' | 'completed';
-
-export type SortBy = 'createdAt' | 'priority' | 'title';
-
-export type SortOrder = 'asc' | 'desc';
-
-export interface TodoFilter {
-  type: FilterType;
-  sortBy: SortBy;
-  sortOrder: SortOrder;
-}
-
-export interface TodoStats {
-  total: number;
-  active: number;
-  completed: number;
-  completionRate: number;
-  byPriority: {
-    high: number;
-    medium: number;
-    low: number;
-  };
-}
-
-export interface CreateTodoRequest {
-  title: string;
-  description?: string;
-  priority: Priority;
-  dueDate?: string;
-  tags?: string[];
-}
-
-export interface UpdateTodoRequest {
-  title?: string;
-  description?: string;
-  completed?: boolean;
-  priority?: Priority;
-  dueDate?: string;
-  tags?: string[];
-}
\ No newline at end of file
+export type Priority = 'low' | 'medium' | 'high';
+
+export type Todo = {
+  id: string;
+  title: string;
+  description?: string;
+  completed: boolean;
+  priority: Priority;
+  createdAt: string;
+  updatedAt: string;
+  dueDate?: string;
+  tags?: string[];
+  userId?: string;
+  isGuest?: boolean;
+  recurrence?: string;
+  timeZone?: string; // 반복 일정의 날짜/요일 계산 기준 시간대 (IANA, 없으면 사용자 시간대)
+  nextOccurrenceId?: string;
+  checklist?: ChecklistItem[];
+  checklistProgress?: ChecklistProgress;
+  version?: number; // 서버 버전 (수정할 때마다 1 증가)
+  projectId?: string; // 공유 프로젝트 Todo면 프로젝트 ID
+  assigneeId?: string; // 담당자 (프로젝트 멤버)
+  assignmentHistory?: TodoAssignment[]; // 담당자 변경 기록 (오래된 순)
+  rank?: string; // 수동 정렬 순서 (사전순 분수 인덱스, 없으면 생성일시 기본 순서)
+}
+
+// 담당자 변경 기록 (assigneeId가 null이면 담당 해제)
+export interface TodoAssignment {
+  assigneeId: string | null;
+  assignedBy: string;
+  assignedAt: string;
+}
+
+// Todo 활동 기록 (누가, 언제, 어떤 필드를 바꿨는지)
+export type TodoActivityAction = 'CREATED' | 'UPDATED' | 'DELETED' | 'RESTORED' | 'PURGED';
+
+export interface TodoFieldChange {
+  field: string;
+  oldValue: unknown; // 값이 없으면 null
+  newValue: unknown;
+}
+
+export interface TodoActivity {
+  id: string;
+  todoId: string;
+  action: TodoActivityAction;
+  actorId: string;
+  actorType: 'authenticated' | 'guest';
+  changes: TodoFieldChange[];
+  correlationId?: string;
+  occurredAt: string;
+}
+
+// 휴지통으로 옮긴 Todo (expiresAt이 지나면 영구 삭제)
+export interface TrashedTodo {
+  todo: Todo; // 삭제 직전 상태
+  deletedAt: string;
+  deletedBy: string;
+  expiresAt: string;
+}
+
+// 공유 프로젝트 멤버 역할: owner(멤버 관리) > editor(Todo 수정) > viewer(조회)
+export type ProjectRole = 'owner' | 'editor' | 'viewer';
+
+export interface Project {
+  id: string;
+  name: string;
+  role: ProjectRole; // 내 역할
+}
+
+export interface ProjectMember {
+  userId: string;
+  email?: string;
+  role: ProjectRole;
+}
+
+export interface ChecklistItem {
+  id: string;
+  todoId?: string;
+  title: string;
+  completed: boolean;
+  position: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ChecklistProgress {
+  completed: number;
+  total: number;
+}
+
+export type FilterType = 'all' | 'active' | 'completed';
+
+// manual: rank 기준 수동 정렬 (정렬 방향 무시)
+export type SortBy = 'createdAt' | 'priority' | 'title' | 'dueDate' | 'manual';
+
+// 마감일 보기 (사용자 시간대 기준): 지난 마감일 / 오늘 / 오늘부터 7일
+export type DueFilter = 'overdue' | 'today' | 'week';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface TodoFilter {
+  type: FilterType;
+  sortBy: SortBy;
+  sortOrder: SortOrder;
+  tag?: string;
+  due?: DueFilter;
+  projectId?: string; // 지정하면 공유 프로젝트 Todo만 (생략하면 내 Todo)
+  assignedToMe?: boolean; // 나에게 할당된 프로젝트 Todo만 (projectId가 있으면 그 프로젝트에서)
+}
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+export interface TodoStats {
+  total: number;
+  active: number;
+  completed: number;
+  completionRate: number;
+  byPriority: {
+    high: number;
+    medium: number;
+    low: number;
+  };
+}
+
+export interface CreateTodoRequest {
+  title: string;
+  description?: string;
+  priority: Priority;
+  dueDate?: string;
+  tags?: string[];
+  recurrence?: string;
+  assigneeId?: string;
+}
+
+export interface UpdateTodoRequest {
+  title?: string;
+  description?: string;
+  completed?: boolean;
+  priority?: Priority;
+  dueDate?: string;
+  tags?: string[];
+  recurrence?: string | null;
+  assigneeId?: string | null; // null이면 담당 해제
+  rank?: string; // 수동 정렬 순서 (옮긴 항목만 수정)
+}
+
+// 수동 정렬 순서(rank) 유틸리티
+export * from './rank';
@@ -0,0 +1,137 @@
+/**
+ * 수동 정렬 순서(rank) 유틸리티 (서버와 클라이언트가 함께 사용)
+ *
+ * rank는 사전순으로 비교하는 분수 인덱스(0-9A-Za-z 자릿수의 소수부)입니다.
+ * - 두 항목 사이로 옮길 때는 이웃 rank 사이의 새 키를 만들어 옮긴 항목만 수정
+ * - 마지막 자리가 0이면 그 앞에 끼울 키가 없어지므로 허용하지 않음
+ * - rank가 없는 항목은 생성일시로 만든 기본 rank를 사용 (최근 생성한 항목이 위)
+ * - 맨 앞 키는 현재 시각의 생성일시 rank이므로 나중에 만든 Todo가 항상 그 앞에 옴
+ */
+
+export const RANK_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+export const RANK_MAX_LENGTH = 64;
+
+// 이보다 긴 rank가 저장되면 서버가 목록 전체의 rank를 다시 매김
+export const RANK_REBALANCE_LENGTH = 32;
+
+export const RANK_PATTERN = /^[0-9A-Za-z]*[1-9A-Za-z]$/;
+
+// 생성일시 기본 rank 자릿수 (62^8ms ≈ 6900년이므로 충분)
+const CREATED_AT_RANK_WIDTH = 8;
+const CREATED_AT_RANK_LIMIT = RANK_DIGITS.length ** CREATED_AT_RANK_WIDTH;
+
+/**
+ * rank로 정렬하는 항목 (Todo, DynamoDB Todo 아이템 모두 해당)
+ */
+export interface RankedItem {
+  id: string;
+  rank?: string | null;
+  createdAt: string;
+}
+
+/**
+ * 0 이상의 정수를 width 자리 rank 숫자로 변환
+ */
+function encodeDigits(value: number, width: number): string {
+  let encoded = '';
+  for (let i = 0; i < width; i++) {
+    encoded = RANK_DIGITS[value % RANK_DIGITS.length] + encoded;
+    value = Math.floor(value / RANK_DIGITS.length);
+  }
+  return encoded;
+}
+
+/**
+ * 생성일시로 만든 기본 rank (늦게 생성할수록 앞, 같은 시각이면 같은 키)
+ * 끝에 중간 자리(V)를 붙여 마지막 자리가 0이 되지 않게 함
+ */
+export function rankFromCreatedAt(createdAt: string): string {
+  const value = CREATED_AT_RANK_LIMIT - 1 - new Date(createdAt).getTime();
+  return `${encodeDigits(value, CREATED_AT_RANK_WIDTH)}V`;
+}
+
+/**
+ * 정렬에 쓰는 rank (저장된 rank가 없으면 생성일시 기본 rank)
+ */
+export function effectiveRank(item: Pick<RankedItem, 'rank' | 'createdAt'>): string {
+  return item.rank || rankFromCreatedAt(item.createdAt);
+}
+
+/**
+ * 수동 정렬 비교 함수 (rank가 같으면 ID 순으로 고정)
+ */
+export function compareByRank(a: RankedItem, b: RankedItem): number {
+  const rankA = effectiveRank(a);
+  const rankB = effectiveRank(b);
+  if (rankA !== rankB) {
+    return rankA < rankB ? -1 : 1;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * 두 rank 사이의 새 rank (before가 없으면 맨 앞, after가 없으면 맨 뒤)
+ * 맨 앞으로 옮기면 지금 만든 Todo와 같은 키를 써서 이후에 만든 Todo가 그 위에 오게 함
+ * 두 기기에서 같은 자리로 옮겨 rank가 같아졌으면 before 바로 뒤로 보냄
+ */
+export function rankBetween(before: string | null, after: string | null): string {
+  if (before === null) {
+    const now = rankFromCreatedAt(new Date().toISOString());
+    if (after === null || now < after) {
+      return now;
+    }
+  }
+  if (before !== null && after !== null && before >= after) {
+    return midpoint(before, null);
+  }
+  return midpoint(before ?? '', after);
+}
+
+/**
+ * 목록 전체에 다시 매길 짧은 rank (count개, 오름차순으로 고르게 배치)
+ * 현재 시각의 생성일시 rank 자릿수를 앞에 붙여 이후에 만든 Todo가 계속 맨 앞에 오게 함
+ */
+export function spreadRanks(count: number, now: string): string[] {
+  const prefix = rankFromCreatedAt(now).slice(0, CREATED_AT_RANK_WIDTH);
+
+  let width = 1;
+  while (RANK_DIGITS.length ** width <= count) {
+    width++;
+  }
+  const step = RANK_DIGITS.length ** width / (count + 1);
+
+  return Array.from(
+    { length: count },
+    (_, index) => `${prefix}${encodeDigits(Math.floor((index + 1) * step), width)}V`
+  );
+}
+
+/**
+ * a < b인 두 소수부 사이의 가장 짧은 키 (b가 null이면 1)
+ * 결과는 비어 있지 않고 마지막 자리가 0이 아님
+ */
+function midpoint(a: string, b: string | null): string {
+  // 공통 접두사는 그대로 두고 나머지 자리에서 중간값 계산
+  if (b !== null) {
+    let n = 0;
+    while ((a[n] ?? '0') === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? RANK_DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? RANK_DIGITS.indexOf(b[0]) : RANK_DIGITS.length;
+
+  if (digitB - digitA > 1) {
+    return RANK_DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  // 첫 자리가 붙어 있으면 b의 첫 자리만으로 충분하거나, a의 첫 자리 뒤에서 다시 찾음
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return RANK_DIGITS[digitA] + midpoint(a.slice(1), null);
+}